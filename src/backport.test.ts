@@ -0,0 +1,511 @@
+import fs from 'fs';
+import path from 'path';
+import { when } from 'jest-when';
+import { MockWritable } from 'stdio-mock';
+import { withSandbox } from '../tests/helpers.js';
+import { buildMockProject, buildMockPackage } from '../tests/unit/helpers.js';
+import {
+  backportCommits,
+  generateBackportCommitsTemplate,
+  getBackportBaseTagName,
+  parseBackportCommits,
+  waitForUserToEditBackportCommits,
+} from './backport.js';
+import * as editorModule from './editor.js';
+import { fileExists } from './fs.js';
+import * as miscUtils from './misc-utils.js';
+import * as repoModule from './repo.js';
+
+jest.mock('./misc-utils', () => {
+  return {
+    ...jest.requireActual('./misc-utils'),
+    runCommand: jest.fn(),
+  };
+});
+
+const COMMITS = [
+  { hash: 'aaaaaaa1111111111111111111111111111111111', subject: 'Fix a' },
+  { hash: 'bbbbbbb2222222222222222222222222222222222', subject: 'Add b' },
+  { hash: 'ccccccc3333333333333333333333333333333333', subject: 'Fix c' },
+];
+
+/**
+ * Mocks the functions that `backportCommits` uses to inspect and change the
+ * repository.
+ *
+ * @param args - The arguments.
+ * @param args.isCherryPickInProgress - Whether a cherry-pick is in progress.
+ * @param args.cherryPickedCommitHashes - The hashes of the commits which have
+ * already been cherry-picked onto the release branch.
+ * @returns The spy for `cherryPickCommits`.
+ */
+function setupRepo({
+  isCherryPickInProgress = false,
+  cherryPickedCommitHashes = [],
+}: {
+  isCherryPickInProgress?: boolean;
+  cherryPickedCommitHashes?: string[];
+} = {}) {
+  when(jest.spyOn(repoModule, 'revisionExists'))
+    .calledWith('/path/to/project', 'CHERRY_PICK_HEAD')
+    .mockResolvedValue(isCherryPickInProgress);
+  when(jest.spyOn(repoModule, 'listCommitsBetweenRevisions'))
+    .calledWith('/path/to/project', 'v1.0.0', 'main')
+    .mockResolvedValue(COMMITS);
+  when(jest.spyOn(repoModule, 'getCherryPickedCommitHashes'))
+    .calledWith('/path/to/project', 'v1.0.0')
+    .mockResolvedValue(cherryPickedCommitHashes);
+  const cherryPickCommitsSpy = jest
+    .spyOn(repoModule, 'cherryPickCommits')
+    .mockResolvedValue();
+
+  return { cherryPickCommitsSpy };
+}
+
+describe('backport', () => {
+  describe('getBackportBaseTagName', () => {
+    it('returns the tag of the first release in the current release line', () => {
+      const project = buildMockProject({
+        releaseVersion: { ordinaryNumber: 2, backportNumber: 3 },
+      });
+
+      expect(getBackportBaseTagName(project)).toBe('v2.3.0');
+    });
+
+    it('uses the tag name template for the root package', () => {
+      const defaultProject = buildMockProject();
+      const project = buildMockProject({
+        rootPackage: buildMockPackage('@scope/monorepo'),
+        releaseVersion: { ordinaryNumber: 2, backportNumber: 0 },
+        configuration: {
+          ...defaultProject.configuration,
+          tagNameTemplates: {
+            ...defaultProject.configuration.tagNameTemplates,
+            // eslint-disable-next-line no-template-curly-in-string
+            root: '${unscopedName}-v${version}',
+          },
+        },
+      });
+
+      expect(getBackportBaseTagName(project)).toBe('monorepo-v2.0.0');
+    });
+  });
+
+  describe('generateBackportCommitsTemplate', () => {
+    it('returns instructions followed by each commit, commented out, if the user will edit the list in an editor opened by this tool', () => {
+      const template = generateBackportCommitsTemplate({
+        baseTagName: 'v1.0.0',
+        defaultBranch: 'main',
+        commits: COMMITS,
+        isEditorAvailable: true,
+      });
+
+      expect(template).toBe(
+        `
+# This file lists the commits on main since v1.0.0, the release
+# that this backport follows, oldest first. The release branch has been created
+# from v1.0.0, so none of these commits are on it yet.
+#
+# To backport a commit, remove the "#" at the start of its line. Commits that
+# are left commented out are not backported.
+#
+# When you're finished, save this file and close it. The tool will cherry-pick
+# the commits you've selected onto the release branch, in the order listed.
+
+# pick aaaaaaa1111111111111111111111111111111111 Fix a
+# pick bbbbbbb2222222222222222222222222222222222 Add b
+# pick ccccccc3333333333333333333333333333333333 Fix c
+`.slice(1, -1),
+      );
+    });
+
+    it('tells the user to re-run the tool if they will edit the list on their own', () => {
+      const template = generateBackportCommitsTemplate({
+        baseTagName: 'v1.0.0',
+        defaultBranch: 'main',
+        commits: COMMITS,
+        isEditorAvailable: false,
+      });
+
+      expect(template).toContain(
+        `
+# When you're finished, save this file and then run create-release-branch again.
+# The tool will cherry-pick the commits you've selected onto the release branch,
+# in the order listed.
+`.trim(),
+      );
+    });
+  });
+
+  describe('parseBackportCommits', () => {
+    it('returns the full hashes of the selected commits in the order listed, ignoring commented-out and blank lines', () => {
+      const contents = `
+# Some instructions
+
+pick ccccccc3333333333333333333333333333333333 Fix c
+# pick bbbbbbb2222222222222222222222222222222222 Add b
+  pick aaaaaaa Fix a
+`;
+
+      expect(parseBackportCommits(contents, COMMITS)).toStrictEqual([
+        'ccccccc3333333333333333333333333333333333',
+        'aaaaaaa1111111111111111111111111111111111',
+      ]);
+    });
+
+    it('returns an empty array if no commits are selected', () => {
+      const contents = `
+# pick aaaaaaa1111111111111111111111111111111111 Fix a
+`;
+
+      expect(parseBackportCommits(contents, COMMITS)).toStrictEqual([]);
+    });
+
+    it('throws if a line does not start with "pick" and a commit hash', () => {
+      const contents = 'squash aaaaaaa1111111111111111111111111111111111 Fix a';
+
+      expect(() => parseBackportCommits(contents, COMMITS)).toThrow(
+        'Could not read the list of commits to backport, as the line "squash aaaaaaa1111111111111111111111111111111111 Fix a" does not start with "pick" and a commit hash.',
+      );
+    });
+
+    it('throws if a line selects a commit which may not be backported', () => {
+      const contents = 'pick ddddddd Fix d';
+
+      expect(() => parseBackportCommits(contents, COMMITS)).toThrow(
+        'Could not backport ddddddd, as it is not one of the commits on the default branch since the release that this backport follows.',
+      );
+    });
+
+    it('throws if a line gives the start of more than one commit which may be backported', () => {
+      const commits = [
+        { hash: 'abc1111111111111111111111111111111111111', subject: 'Fix a' },
+        { hash: 'abc2222222222222222222222222222222222222', subject: 'Add b' },
+      ];
+      const contents = 'pick abc Fix a';
+
+      expect(() => parseBackportCommits(contents, commits)).toThrow(
+        'Could not backport abc, as it could refer to any of the following commits: abc1111111111111111111111111111111111111, abc2222222222222222222222222222222222222. Please give more of the commit hash.',
+      );
+    });
+  });
+
+  describe('waitForUserToEditBackportCommits', () => {
+    it('waits for the commits to backport to be selected in the given editor', async () => {
+      const editor = { path: '/path/to/editor', args: [] };
+      const stdout = new MockWritable();
+      const waitForUserToEditFileSpy = jest
+        .spyOn(editorModule, 'waitForUserToEditFile')
+        .mockResolvedValue();
+
+      await waitForUserToEditBackportCommits(
+        '/path/to/backport-commits',
+        editor,
+        stdout,
+      );
+
+      expect(waitForUserToEditFileSpy).toHaveBeenCalledWith(
+        '/path/to/backport-commits',
+        editor,
+        'the commits to backport to be selected',
+        stdout,
+      );
+    });
+  });
+
+  describe('backportCommits', () => {
+    it('opens the generated list of commits in an editor, then cherry-picks the selected commits, returning true', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject();
+        const backportCommitsPath = path.join(
+          sandbox.directoryPath,
+          'BACKPORT_COMMITS.txt',
+        );
+        const stdout = new MockWritable();
+        const { cherryPickCommitsSpy } = setupRepo();
+        jest
+          .spyOn(editorModule, 'determineEditor')
+          .mockResolvedValue({ path: '/path/to/editor', args: [] });
+        jest.spyOn(miscUtils, 'runCommand').mockImplementation(async () => {
+          const contents = await fs.promises.readFile(
+            backportCommitsPath,
+            'utf8',
+          );
+          await fs.promises.writeFile(
+            backportCommitsPath,
+            contents
+              .replace('# pick ccccccc', 'pick ccccccc')
+              .replace('# pick aaaaaaa', 'pick aaaaaaa'),
+          );
+        });
+
+        const result = await backportCommits({
+          project,
+          baseTagName: 'v1.0.0',
+          defaultBranch: 'main',
+          backportCommitsPath,
+          firstRemovingExistingBackportCommits: false,
+          stdout,
+        });
+
+        expect(result).toBe(true);
+        expect(cherryPickCommitsSpy).toHaveBeenCalledWith('/path/to/project', [
+          'aaaaaaa1111111111111111111111111111111111',
+          'ccccccc3333333333333333333333333333333333',
+        ]);
+        expect(stdout.data()).toStrictEqual([
+          `
+The following commits have been backported:
+
+- aaaaaaa Fix a
+- ccccccc Fix c
+`.slice(1),
+        ]);
+      });
+    });
+
+    it('prints the path to the generated list of commits and returns false if no editor is available', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject();
+        const backportCommitsPath = path.join(
+          sandbox.directoryPath,
+          'BACKPORT_COMMITS.txt',
+        );
+        const stdout = new MockWritable();
+        const { cherryPickCommitsSpy } = setupRepo();
+        jest.spyOn(editorModule, 'determineEditor').mockResolvedValue(null);
+
+        const result = await backportCommits({
+          project,
+          baseTagName: 'v1.0.0',
+          defaultBranch: 'main',
+          backportCommitsPath,
+          firstRemovingExistingBackportCommits: false,
+          stdout,
+        });
+
+        expect(result).toBe(false);
+        expect(
+          await fs.promises.readFile(backportCommitsPath, 'utf8'),
+        ).toContain('# pick bbbbbbb2222222222222222222222222222222222 Add b');
+        expect(stdout.data()).toStrictEqual([
+          `
+A list of the commits that can be backported has been generated. Please open the following file in your editor of choice, select the commits to backport, then re-run this tool:
+
+${backportCommitsPath}
+`.slice(1),
+        ]);
+        expect(cherryPickCommitsSpy).not.toHaveBeenCalled();
+      });
+    });
+
+    it('removes the generated list of commits and re-throws if the editor command fails', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject();
+        const backportCommitsPath = path.join(
+          sandbox.directoryPath,
+          'BACKPORT_COMMITS.txt',
+        );
+        const error = new Error('oops');
+        setupRepo();
+        jest
+          .spyOn(editorModule, 'determineEditor')
+          .mockResolvedValue({ path: '/path/to/editor', args: [] });
+        jest.spyOn(miscUtils, 'runCommand').mockRejectedValue(error);
+
+        await expect(
+          backportCommits({
+            project,
+            baseTagName: 'v1.0.0',
+            defaultBranch: 'main',
+            backportCommitsPath,
+            firstRemovingExistingBackportCommits: false,
+            stdout: new MockWritable(),
+          }),
+        ).rejects.toThrow(
+          'Encountered an error while waiting for the commits to backport to be selected.',
+        );
+        expect(await fileExists(backportCommitsPath)).toBe(false);
+      });
+    });
+
+    it('picks back up from a list of commits generated in a previous run, not cherry-picking the commits that were cherry-picked in that run', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject();
+        const backportCommitsPath = path.join(
+          sandbox.directoryPath,
+          'BACKPORT_COMMITS.txt',
+        );
+        const stdout = new MockWritable();
+        const { cherryPickCommitsSpy } = setupRepo({
+          cherryPickedCommitHashes: [
+            'aaaaaaa1111111111111111111111111111111111',
+          ],
+        });
+        const determineEditorSpy = jest.spyOn(editorModule, 'determineEditor');
+        await fs.promises.writeFile(
+          backportCommitsPath,
+          'pick aaaaaaa Fix a\npick bbbbbbb Add b\n',
+        );
+
+        const result = await backportCommits({
+          project,
+          baseTagName: 'v1.0.0',
+          defaultBranch: 'main',
+          backportCommitsPath,
+          firstRemovingExistingBackportCommits: false,
+          stdout,
+        });
+
+        expect(result).toBe(true);
+        expect(determineEditorSpy).not.toHaveBeenCalled();
+        expect(cherryPickCommitsSpy).toHaveBeenCalledWith('/path/to/project', [
+          'bbbbbbb2222222222222222222222222222222222',
+        ]);
+        expect(stdout.data()).toStrictEqual([
+          'List of commits to backport already exists. Picking back up from previous run.\n',
+          `
+The following commits have been backported:
+
+- aaaaaaa Fix a
+- bbbbbbb Add b
+`.slice(1),
+        ]);
+      });
+    });
+
+    it('does not cherry-pick anything if every selected commit was cherry-picked in a previous run', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject();
+        const backportCommitsPath = path.join(
+          sandbox.directoryPath,
+          'BACKPORT_COMMITS.txt',
+        );
+        const { cherryPickCommitsSpy } = setupRepo({
+          cherryPickedCommitHashes: [
+            'aaaaaaa1111111111111111111111111111111111',
+          ],
+        });
+        await fs.promises.writeFile(backportCommitsPath, 'pick aaaaaaa\n');
+
+        const result = await backportCommits({
+          project,
+          baseTagName: 'v1.0.0',
+          defaultBranch: 'main',
+          backportCommitsPath,
+          firstRemovingExistingBackportCommits: false,
+          stdout: new MockWritable(),
+        });
+
+        expect(result).toBe(true);
+        expect(cherryPickCommitsSpy).not.toHaveBeenCalled();
+      });
+    });
+
+    it('generates a new list of commits, even if one exists from a previous run, if requested', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject();
+        const backportCommitsPath = path.join(
+          sandbox.directoryPath,
+          'BACKPORT_COMMITS.txt',
+        );
+        setupRepo();
+        jest.spyOn(editorModule, 'determineEditor').mockResolvedValue(null);
+        await fs.promises.writeFile(backportCommitsPath, 'pick aaaaaaa\n');
+
+        const result = await backportCommits({
+          project,
+          baseTagName: 'v1.0.0',
+          defaultBranch: 'main',
+          backportCommitsPath,
+          firstRemovingExistingBackportCommits: true,
+          stdout: new MockWritable(),
+        });
+
+        expect(result).toBe(false);
+        expect(
+          await fs.promises.readFile(backportCommitsPath, 'utf8'),
+        ).toContain('# pick aaaaaaa1111111111111111111111111111111111 Fix a');
+      });
+    });
+
+    it('throws if no commits were selected', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject();
+        const backportCommitsPath = path.join(
+          sandbox.directoryPath,
+          'BACKPORT_COMMITS.txt',
+        );
+        setupRepo();
+        await fs.promises.writeFile(backportCommitsPath, '# pick aaaaaaa\n');
+
+        await expect(
+          backportCommits({
+            project,
+            baseTagName: 'v1.0.0',
+            defaultBranch: 'main',
+            backportCommitsPath,
+            firstRemovingExistingBackportCommits: false,
+            stdout: new MockWritable(),
+          }),
+        ).rejects.toThrow(
+          `No commits were selected to backport. Please remove the "#" in front of each commit to backport in the following file, then re-run this tool:\n\n${backportCommitsPath}`,
+        );
+      });
+    });
+
+    it('throws if a cherry-pick is in progress', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject();
+        setupRepo({ isCherryPickInProgress: true });
+
+        await expect(
+          backportCommits({
+            project,
+            baseTagName: 'v1.0.0',
+            defaultBranch: 'main',
+            backportCommitsPath: path.join(
+              sandbox.directoryPath,
+              'BACKPORT_COMMITS.txt',
+            ),
+            firstRemovingExistingBackportCommits: false,
+            stdout: new MockWritable(),
+          }),
+        ).rejects.toThrow(
+          'A cherry-pick is in progress. Please resolve the conflicts and run `git cherry-pick --continue` (or `git cherry-pick --abort` to start over), then re-run this tool.',
+        );
+      });
+    });
+
+    it('throws if the selected commits cannot be cherry-picked', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject();
+        const backportCommitsPath = path.join(
+          sandbox.directoryPath,
+          'BACKPORT_COMMITS.txt',
+        );
+        const error = new Error('conflict');
+        const { cherryPickCommitsSpy } = setupRepo();
+        cherryPickCommitsSpy.mockRejectedValue(error);
+        await fs.promises.writeFile(backportCommitsPath, 'pick aaaaaaa\n');
+
+        await expect(
+          backportCommits({
+            project,
+            baseTagName: 'v1.0.0',
+            defaultBranch: 'main',
+            backportCommitsPath,
+            firstRemovingExistingBackportCommits: false,
+            stdout: new MockWritable(),
+          }),
+        ).rejects.toThrow(
+          expect.objectContaining({
+            message:
+              'Could not cherry-pick the selected commits onto the release branch. Please resolve the conflicts and run `git cherry-pick --continue`, then re-run this tool.',
+            cause: error,
+          }),
+        );
+      });
+    });
+  });
+});
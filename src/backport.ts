@@ -0,0 +1,298 @@
+import type { WriteStream } from 'fs';
+import { determineEditor, Editor, waitForUserToEditFile } from './editor.js';
+import { fileExists, readFile, removeFile, writeFile } from './fs.js';
+import { wrapError } from './misc-utils.js';
+import { Project } from './project.js';
+import {
+  cherryPickCommits,
+  Commit,
+  getCherryPickedCommitHashes,
+  listCommitsBetweenRevisions,
+  revisionExists,
+} from './repo.js';
+import { fillTagNameTemplate } from './tag-name-template.js';
+
+/**
+ * Matches a line of the backport list which selects a commit.
+ */
+const PICK_LINE_REGEX = /^pick\s+([0-9a-f]+)(?:\s.*)?$/u;
+
+/**
+ * Determines the tag of the release that a backport follows: the latest
+ * release in the current release line, `<ordinary>.<backport>.0`. The backport
+ * release branch is created from this tag.
+ *
+ * @param project - Information about the project.
+ * @param project.rootPackage - The root package of the project.
+ * @param project.releaseVersion - The release version of the project.
+ * @param project.configuration - The options for this tool.
+ * @returns The name of the tag.
+ */
+export function getBackportBaseTagName({
+  rootPackage,
+  releaseVersion,
+  configuration,
+}: Pick<Project, 'rootPackage' | 'releaseVersion' | 'configuration'>): string {
+  return fillTagNameTemplate(
+    configuration.tagNameTemplates.root,
+    rootPackage.validatedManifest.name,
+    `${releaseVersion.ordinaryNumber}.${releaseVersion.backportNumber}.0`,
+  );
+}
+
+/**
+ * Generates a list of the commits that may be backported, which the user then
+ * edits to select the commits to cherry-pick onto the release branch.
+ *
+ * @param args - The arguments.
+ * @param args.baseTagName - The tag from which the release branch was created.
+ * @param args.defaultBranch - The name of the default branch in the repository.
+ * @param args.commits - The commits on the default branch since the tag.
+ * @param args.isEditorAvailable - Whether the user is editing the list in an
+ * editor opened by this tool.
+ * @returns The contents of the list.
+ */
+export function generateBackportCommitsTemplate({
+  baseTagName,
+  defaultBranch,
+  commits,
+  isEditorAvailable,
+}: {
+  baseTagName: string;
+  defaultBranch: string;
+  commits: Commit[];
+  isEditorAvailable: boolean;
+}): string {
+  const afterEditingInstructions = isEditorAvailable
+    ? `
+# When you're finished, save this file and close it. The tool will cherry-pick
+# the commits you've selected onto the release branch, in the order listed.`.trim()
+    : `
+# When you're finished, save this file and then run create-release-branch again.
+# The tool will cherry-pick the commits you've selected onto the release branch,
+# in the order listed.`.trim();
+
+  const instructions = `
+# This file lists the commits on ${defaultBranch} since ${baseTagName}, the release
+# that this backport follows, oldest first. The release branch has been created
+# from ${baseTagName}, so none of these commits are on it yet.
+#
+# To backport a commit, remove the "#" at the start of its line. Commits that
+# are left commented out are not backported.
+#
+${afterEditingInstructions}
+`.trim();
+
+  return [
+    instructions,
+    commits.map(({ hash, subject }) => `# pick ${hash} ${subject}`).join('\n'),
+  ].join('\n\n');
+}
+
+/**
+ * Reads the commits that the user has selected from the list of commits that
+ * may be backported.
+ *
+ * @param contents - The contents of the list.
+ * @param commits - The commits that may be backported.
+ * @returns The hashes of the selected commits, in the order listed.
+ * @throws If a line does not select a commit, if it selects a commit which is
+ * not one that may be backported, or if the commit hash it gives is the start
+ * of more than one such commit.
+ */
+export function parseBackportCommits(
+  contents: string,
+  commits: Commit[],
+): string[] {
+  const lines = contents
+    .split('\n')
+    .map((line) => line.trim())
+    .filter((line) => line !== '' && !line.startsWith('#'));
+
+  return lines.map((line) => {
+    const match = line.match(PICK_LINE_REGEX);
+
+    if (match === null) {
+      throw new Error(
+        `Could not read the list of commits to backport, as the line "${line}" does not start with "pick" and a commit hash.`,
+      );
+    }
+
+    const matchingCommits = commits.filter(({ hash }) =>
+      hash.startsWith(match[1]),
+    );
+
+    if (matchingCommits.length === 0) {
+      throw new Error(
+        `Could not backport ${match[1]}, as it is not one of the commits on the default branch since the release that this backport follows.`,
+      );
+    }
+
+    if (matchingCommits.length > 1) {
+      throw new Error(
+        `Could not backport ${match[1]}, as it could refer to any of the following commits: ${matchingCommits
+          .map(({ hash }) => hash)
+          .join(', ')}. Please give more of the commit hash.`,
+      );
+    }
+
+    return matchingCommits[0].hash;
+  });
+}
+
+/**
+ * Launches the given editor to allow the user to select the commits to
+ * backport.
+ *
+ * @param backportCommitsPath - The path to the list of commits.
+ * @param editor - Information about the editor.
+ * @param stdout - A stream that can be used to write to standard out. Defaults
+ * to /dev/null.
+ * @returns A promise that resolves when the user has completed editing the
+ * file, i.e. when the editor process completes.
+ */
+export async function waitForUserToEditBackportCommits(
+  backportCommitsPath: string,
+  editor: Editor,
+  stdout?: Pick<WriteStream, 'write'>,
+) {
+  await waitForUserToEditFile(
+    backportCommitsPath,
+    editor,
+    'the commits to backport to be selected',
+    stdout,
+  );
+}
+
+/**
+ * Asks the user which commits on the default branch to backport, then
+ * cherry-picks them onto the release branch (which must be checked out).
+ * Commits which were cherry-picked in a previous run are not picked again, so
+ * if a commit cannot be applied, the user can resolve the conflict, finish the
+ * cherry-pick, and re-run the tool.
+ *
+ * @param args - The arguments.
+ * @param args.project - Information about the project.
+ * @param args.baseTagName - The tag from which the release branch was created.
+ * @param args.defaultBranch - The name of the default branch in the repository.
+ * @param args.backportCommitsPath - The path at which to keep the list of
+ * commits to backport.
+ * @param args.firstRemovingExistingBackportCommits - Whether to generate a new
+ * list even if one exists from a previous run.
+ * @param args.stdout - A stream that can be used to write to standard out.
+ * @returns Whether the commits were cherry-picked, as opposed to the user
+ * needing to edit the generated list and re-run this tool.
+ * @throws If a cherry-pick is already in progress, if no commits were selected,
+ * or if a commit cannot be applied.
+ */
+export async function backportCommits({
+  project,
+  baseTagName,
+  defaultBranch,
+  backportCommitsPath,
+  firstRemovingExistingBackportCommits,
+  stdout,
+}: {
+  project: Pick<Project, 'directoryPath'>;
+  baseTagName: string;
+  defaultBranch: string;
+  backportCommitsPath: string;
+  firstRemovingExistingBackportCommits: boolean;
+  stdout: Pick<WriteStream, 'write'>;
+}): Promise<boolean> {
+  if (await revisionExists(project.directoryPath, 'CHERRY_PICK_HEAD')) {
+    throw new Error(
+      'A cherry-pick is in progress. Please resolve the conflicts and run `git cherry-pick --continue` (or `git cherry-pick --abort` to start over), then re-run this tool.',
+    );
+  }
+
+  const commits = await listCommitsBetweenRevisions(
+    project.directoryPath,
+    baseTagName,
+    defaultBranch,
+  );
+
+  if (
+    !firstRemovingExistingBackportCommits &&
+    (await fileExists(backportCommitsPath))
+  ) {
+    stdout.write(
+      'List of commits to backport already exists. Picking back up from previous run.\n',
+    );
+  } else {
+    const editor = await determineEditor();
+    await writeFile(
+      backportCommitsPath,
+      generateBackportCommitsTemplate({
+        baseTagName,
+        defaultBranch,
+        commits,
+        isEditorAvailable: editor !== null,
+      }),
+    );
+
+    if (!editor) {
+      stdout.write(
+        `${[
+          'A list of the commits that can be backported has been generated. Please open the following file in your editor of choice, select the commits to backport, then re-run this tool:',
+          backportCommitsPath,
+        ].join('\n\n')}\n`,
+      );
+      return false;
+    }
+
+    try {
+      await waitForUserToEditBackportCommits(backportCommitsPath, editor);
+    } catch (error) {
+      await removeFile(backportCommitsPath);
+      throw error;
+    }
+  }
+
+  const selectedCommitHashes = parseBackportCommits(
+    await readFile(backportCommitsPath),
+    commits,
+  );
+
+  if (selectedCommitHashes.length === 0) {
+    throw new Error(
+      `No commits were selected to backport. Please remove the "#" in front of each commit to backport in the following file, then re-run this tool:\n\n${backportCommitsPath}`,
+    );
+  }
+
+  const cherryPickedCommitHashes = await getCherryPickedCommitHashes(
+    project.directoryPath,
+    baseTagName,
+  );
+  const remainingCommitHashes = selectedCommitHashes.filter(
+    (hash) => !cherryPickedCommitHashes.includes(hash),
+  );
+
+  if (remainingCommitHashes.length > 0) {
+    try {
+      await cherryPickCommits(project.directoryPath, remainingCommitHashes);
+    } catch (error) {
+      throw wrapError(
+        'Could not cherry-pick the selected commits onto the release branch. Please resolve the conflicts and run `git cherry-pick --continue`, then re-run this tool.',
+        error,
+      );
+    }
+  }
+
+  stdout.write(
+    `${[
+      'The following commits have been backported:',
+      selectedCommitHashes
+        .map((hash) => {
+          // Typecast: Every selected commit is one of the listed commits.
+          const { subject } = commits.find(
+            (commit) => commit.hash === hash,
+          ) as Commit;
+          return `- ${hash.slice(0, 7)} ${subject}`;
+        })
+        .join('\n'),
+    ].join('\n\n')}\n`,
+  );
+
+  return true;
+}
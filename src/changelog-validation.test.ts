@@ -0,0 +1,379 @@
+import fs from 'fs';
+import path from 'path';
+import { withSandbox } from '../tests/helpers.js';
+import { buildMockPackage, buildMockProject } from '../tests/unit/helpers.js';
+import {
+  ChangelogIssue,
+  formatChangelogIssues,
+  validateReleasedChangelogs,
+} from './changelog-validation.js';
+
+/**
+ * Builds a monorepo whose workspace package "a" is released as 1.1.0, with
+ * the given changelog, and whose root package does not have a changelog.
+ *
+ * @param sandboxDirectoryPath - The directory in which to place the project.
+ * @param changelogContent - The content of the changelog of "a".
+ * @returns The mock project, along with a release plan for it.
+ */
+async function buildProjectWithChangelog(
+  sandboxDirectoryPath: string,
+  changelogContent: string,
+) {
+  const rootPackage = buildMockPackage('root', '1.0.0', {
+    directoryPath: sandboxDirectoryPath,
+  });
+  const a = buildMockPackage('a', '1.0.0', {
+    directoryPath: path.join(sandboxDirectoryPath, 'packages', 'a'),
+  });
+  await fs.promises.mkdir(a.directoryPath, { recursive: true });
+  await fs.promises.writeFile(a.changelogPath, changelogContent);
+  const project = buildMockProject({
+    directoryPath: sandboxDirectoryPath,
+    repositoryUrl: 'https://github.com/example-org/example-repo',
+    isMonorepo: true,
+    rootPackage,
+    workspacePackages: { a },
+  });
+  const releasePlan = {
+    newVersion: '2.0.0',
+    packages: [
+      { package: rootPackage, newVersion: '2.0.0' },
+      { package: a, newVersion: '1.1.0' },
+    ],
+  };
+
+  return { project, releasePlan };
+}
+
+describe('changelog-validation', () => {
+  describe('validateReleasedChangelogs', () => {
+    it('returns no issues if the new section of each changelog is ready to be released', async () => {
+      await withSandbox(async (sandbox) => {
+        const { project, releasePlan } = await buildProjectWithChangelog(
+          sandbox.directoryPath,
+          `
+# Changelog
+All notable changes to this project will be documented in this file.
+
+The format is based on [Keep a Changelog](https://keepachangelog.com/en/1.0.0/),
+and this project adheres to [Semantic Versioning](https://semver.org/spec/v2.0.0.html).
+
+## [Unreleased]
+
+## [1.1.0]
+### Added
+- Add foo
+
+## [1.0.0]
+### Added
+- Initial release
+
+[Unreleased]: https://github.com/example-org/example-repo/compare/a@1.1.0...HEAD
+[1.1.0]: https://github.com/example-org/example-repo/compare/a@1.0.0...a@1.1.0
+[1.0.0]: https://github.com/example-org/example-repo/releases/tag/a@1.0.0
+`.trimStart(),
+        );
+
+        expect(
+          await validateReleasedChangelogs({
+            project,
+            releasePlan,
+            versioningStrategy: 'independent',
+            formatter: 'prettier',
+          }),
+        ).toStrictEqual([]);
+      });
+    });
+
+    it('flags an empty release section, uncategorized changes, and a missing link for the new version', async () => {
+      await withSandbox(async (sandbox) => {
+        const { project, releasePlan } = await buildProjectWithChangelog(
+          sandbox.directoryPath,
+          `
+# Changelog
+All notable changes to this project will be documented in this file.
+
+The format is based on [Keep a Changelog](https://keepachangelog.com/en/1.0.0/),
+and this project adheres to [Semantic Versioning](https://semver.org/spec/v2.0.0.html).
+
+## [Unreleased]
+
+## [1.1.0]
+### Uncategorized
+- Bump foo
+
+## [1.0.0]
+### Added
+- Initial release
+
+[Unreleased]: https://github.com/example-org/example-repo/compare/a@1.1.0...HEAD
+[1.0.0]: https://github.com/example-org/example-repo/releases/tag/a@1.0.0
+`.trimStart(),
+        );
+
+        expect(
+          await validateReleasedChangelogs({
+            project,
+            releasePlan,
+            versioningStrategy: 'independent',
+            formatter: 'prettier',
+          }),
+        ).toStrictEqual([
+          {
+            packageName: 'a',
+            version: '1.1.0',
+            kind: 'uncategorizedChanges',
+            descriptions: ['Bump foo'],
+          },
+          { packageName: 'a', version: '1.1.0', kind: 'missingCompareLink' },
+        ]);
+      });
+    });
+
+    it('flags a release section without any changes', async () => {
+      await withSandbox(async (sandbox) => {
+        const { project, releasePlan } = await buildProjectWithChangelog(
+          sandbox.directoryPath,
+          `
+# Changelog
+All notable changes to this project will be documented in this file.
+
+The format is based on [Keep a Changelog](https://keepachangelog.com/en/1.0.0/),
+and this project adheres to [Semantic Versioning](https://semver.org/spec/v2.0.0.html).
+
+## [Unreleased]
+
+## [1.1.0]
+
+[Unreleased]: https://github.com/example-org/example-repo/compare/a@1.1.0...HEAD
+[1.1.0]: https://github.com/example-org/example-repo/releases/tag/a@1.1.0
+`.trimStart(),
+        );
+
+        expect(
+          await validateReleasedChangelogs({
+            project,
+            releasePlan,
+            versioningStrategy: 'independent',
+            formatter: 'prettier',
+          }),
+        ).toStrictEqual([
+          { packageName: 'a', version: '1.1.0', kind: 'emptyReleaseSection' },
+        ]);
+      });
+    });
+
+    it.each([
+      ['for a different version', '## [1.0.0]\n', '1.0.0'],
+      ['at all', '', null],
+    ])(
+      'flags a changelog whose newest release section is not for the new version, if it has no release section %s',
+      async (_description, releaseSection, headerVersion) => {
+        await withSandbox(async (sandbox) => {
+          const { project, releasePlan } = await buildProjectWithChangelog(
+            sandbox.directoryPath,
+            `
+# Changelog
+All notable changes to this project will be documented in this file.
+
+The format is based on [Keep a Changelog](https://keepachangelog.com/en/1.0.0/),
+and this project adheres to [Semantic Versioning](https://semver.org/spec/v2.0.0.html).
+
+## [Unreleased]
+### Added
+- Add foo
+
+${releaseSection}
+[Unreleased]: https://github.com/example-org/example-repo/compare/a@1.0.0...HEAD
+`.trimStart(),
+          );
+
+          expect(
+            await validateReleasedChangelogs({
+              project,
+              releasePlan,
+              versioningStrategy: 'independent',
+              formatter: 'prettier',
+            }),
+          ).toStrictEqual([
+            {
+              packageName: 'a',
+              version: '1.1.0',
+              kind: 'mismatchedVersionHeader',
+              headerVersion,
+            },
+          ]);
+        });
+      },
+    );
+
+    describe('given a root package whose changelog has an empty release section', () => {
+      /**
+       * Builds a monorepo whose workspace package "a" is ready to be released
+       * as 1.1.0, and whose root package, released as 2.0.0, has a changelog
+       * with an empty release section.
+       *
+       * @param sandboxDirectoryPath - The directory in which to place the
+       * project.
+       * @returns The mock project, along with a release plan for it.
+       */
+      async function buildProjectWithEmptyRootChangelog(
+        sandboxDirectoryPath: string,
+      ) {
+        const { project, releasePlan } = await buildProjectWithChangelog(
+          sandboxDirectoryPath,
+          `
+# Changelog
+All notable changes to this project will be documented in this file.
+
+The format is based on [Keep a Changelog](https://keepachangelog.com/en/1.0.0/),
+and this project adheres to [Semantic Versioning](https://semver.org/spec/v2.0.0.html).
+
+## [Unreleased]
+
+## [1.1.0]
+### Added
+- Add foo
+
+[Unreleased]: https://github.com/example-org/example-repo/compare/a@1.1.0...HEAD
+[1.1.0]: https://github.com/example-org/example-repo/releases/tag/a@1.1.0
+`.trimStart(),
+        );
+        await fs.promises.writeFile(
+          project.rootPackage.changelogPath,
+          `
+# Changelog
+All notable changes to this project will be documented in this file.
+
+The format is based on [Keep a Changelog](https://keepachangelog.com/en/1.0.0/),
+and this project adheres to [Semantic Versioning](https://semver.org/spec/v2.0.0.html).
+
+## [Unreleased]
+
+## [2.0.0]
+
+[Unreleased]: https://github.com/example-org/example-repo/compare/v2.0.0...HEAD
+[2.0.0]: https://github.com/example-org/example-repo/releases/tag/v2.0.0
+`.trimStart(),
+        );
+
+        return { project, releasePlan };
+      }
+
+      it('does not check the changelog of the root package in a monorepo with independent versions', async () => {
+        await withSandbox(async (sandbox) => {
+          const { project, releasePlan } =
+            await buildProjectWithEmptyRootChangelog(sandbox.directoryPath);
+
+          expect(
+            await validateReleasedChangelogs({
+              project,
+              releasePlan,
+              versioningStrategy: 'independent',
+              formatter: 'prettier',
+            }),
+          ).toStrictEqual([]);
+        });
+      });
+
+      it('checks the changelog of the root package in a monorepo with fixed versions', async () => {
+        await withSandbox(async (sandbox) => {
+          const { project, releasePlan } =
+            await buildProjectWithEmptyRootChangelog(sandbox.directoryPath);
+
+          expect(
+            await validateReleasedChangelogs({
+              project,
+              releasePlan,
+              versioningStrategy: 'fixed',
+              formatter: 'prettier',
+            }),
+          ).toStrictEqual([
+            {
+              packageName: 'root',
+              version: '2.0.0',
+              kind: 'emptyReleaseSection',
+            },
+          ]);
+        });
+      });
+    });
+
+    it('re-throws an error encountered while reading a changelog, other than it not existing', async () => {
+      await withSandbox(async (sandbox) => {
+        const { project, releasePlan } = await buildProjectWithChangelog(
+          sandbox.directoryPath,
+          '',
+        );
+        await fs.promises.rm(project.workspacePackages.a.changelogPath);
+        await fs.promises.mkdir(project.workspacePackages.a.changelogPath);
+
+        await expect(
+          validateReleasedChangelogs({
+            project,
+            releasePlan,
+            versioningStrategy: 'independent',
+            formatter: 'prettier',
+          }),
+        ).rejects.toThrow(
+          `Could not read file '${project.workspacePackages.a.changelogPath}'`,
+        );
+      });
+    });
+  });
+
+  describe('formatChangelogIssues', () => {
+    it('lists the issues, grouped by package', () => {
+      expect(
+        formatChangelogIssues([
+          {
+            packageName: 'a',
+            version: '1.1.0',
+            kind: 'mismatchedVersionHeader',
+            headerVersion: '1.0.0',
+          },
+          {
+            packageName: 'b',
+            version: '0.2.0',
+            kind: 'mismatchedVersionHeader',
+            headerVersion: null,
+          },
+          { packageName: 'c', version: '2.0.0', kind: 'emptyReleaseSection' },
+          {
+            packageName: 'c',
+            version: '2.0.0',
+            kind: 'uncategorizedChanges',
+            descriptions: ['Bump foo', 'Bump bar'],
+          },
+          { packageName: 'c', version: '2.0.0', kind: 'missingCompareLink' },
+        ]),
+      ).toBe(
+        `
+The changelogs of the following packages are not ready to be released:
+
+- a
+  - The newest release section of the changelog is for 1.0.0, but should be for 1.1.0.
+- b
+  - The changelog has no release sections, but should have one for 0.2.0.
+- c
+  - The release section for 2.0.0 does not list any changes.
+  - The release section for 2.0.0 has changes that are still uncategorized: "Bump foo", "Bump bar"
+  - The changelog does not have a link for 2.0.0.
+`.trim(),
+      );
+    });
+
+    it('throws given an unknown kind of issue', () => {
+      expect(() =>
+        formatChangelogIssues([
+          {
+            packageName: 'a',
+            version: '1.1.0',
+            kind: 'somethingElse',
+          } as unknown as ChangelogIssue,
+        ]),
+      ).toThrow('Invalid branch reached');
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import { parseChangelog } from '@metamask/auto-changelog';
+import { assertExhaustive } from '@metamask/utils';
+import { readFile } from './fs.js';
+import { Formatter, VersioningStrategy } from './initial-parameters.js';
+import { isErrorWithCode } from './misc-utils.js';
+import { getFormatter, getReleaseTagPrefixes } from './package.js';
+import { Project } from './project.js';
+import { ReleasePlan } from './release-plan.js';
+
+/**
+ * A problem found in the changelog of a released package which means that the
+ * changelog is not ready to be released.
+ *
+ * - `mismatchedVersionHeader`: The newest release section of the changelog is
+ * not for the new version of the package (`headerVersion` is null if the
+ * changelog has no release sections at all).
+ * - `emptyReleaseSection`: The release section for the new version does not
+ * list any changes.
+ * - `uncategorizedChanges`: The release section for the new version still has
+ * changes under the "Uncategorized" heading.
+ * - `missingCompareLink`: The changelog does not have a link for the new
+ * version at the bottom.
+ */
+export type ChangelogIssue = { packageName: string; version: string } & (
+  | { kind: 'mismatchedVersionHeader'; headerVersion: string | null }
+  | { kind: 'emptyReleaseSection' }
+  | { kind: 'uncategorizedChanges'; descriptions: string[] }
+  | { kind: 'missingCompareLink' }
+);
+
+/**
+ * Checks whether the given changelog has a link reference definition for the
+ * given version, which is how the heading of a release section links to the
+ * changes in that release.
+ *
+ * @param changelogContent - The content of the changelog.
+ * @param version - The version.
+ * @returns Whether the link exists.
+ */
+function hasReleaseLink(changelogContent: string, version: string): boolean {
+  return changelogContent
+    .split('\n')
+    .some((line) => line.startsWith(`[${version}]: `));
+}
+
+/**
+ * Checks the section that was added to the changelog of a package for its new
+ * version.
+ *
+ * @param args - The arguments.
+ * @param args.project - Information about the project.
+ * @param args.package - The released package.
+ * @param args.version - The new version of the package.
+ * @param args.formatter - The formatter to use for formatting the changelog.
+ * @returns The problems found in the changelog, which is empty if the package
+ * does not have a changelog.
+ */
+async function validateReleasedChangelog({
+  project,
+  package: pkg,
+  version,
+  formatter,
+}: {
+  project: Pick<
+    Project,
+    'directoryPath' | 'repositoryUrl' | 'rootPackage' | 'configuration'
+  >;
+  package: ReleasePlan['packages'][number]['package'];
+  version: string;
+  formatter: Formatter;
+}): Promise<ChangelogIssue[]> {
+  let changelogContent;
+
+  try {
+    changelogContent = await readFile(pkg.changelogPath);
+  } catch (error) {
+    if (isErrorWithCode(error) && error.code === 'ENOENT') {
+      return [];
+    }
+
+    throw error;
+  }
+
+  const packageName = pkg.validatedManifest.name;
+  const changelog = parseChangelog({
+    changelogContent,
+    repoUrl: project.repositoryUrl,
+    tagPrefix: getReleaseTagPrefixes(project, pkg)[0],
+    formatter: getFormatter(formatter),
+  });
+  const headerVersion = changelog.getReleases()[0]?.version ?? null;
+
+  if (headerVersion !== version) {
+    return [
+      { packageName, version, kind: 'mismatchedVersionHeader', headerVersion },
+    ];
+  }
+
+  const changes = changelog.getReleaseChanges(version);
+  const uncategorizedChanges = Object.entries(changes).flatMap(
+    ([category, categoryChanges]) =>
+      category === 'Uncategorized' ? categoryChanges : [],
+  );
+
+  return [
+    ...(Object.values(changes).every(
+      (categoryChanges) => categoryChanges.length === 0,
+    )
+      ? [{ packageName, version, kind: 'emptyReleaseSection' as const }]
+      : []),
+    ...(uncategorizedChanges.length > 0
+      ? [
+          {
+            packageName,
+            version,
+            kind: 'uncategorizedChanges' as const,
+            descriptions: uncategorizedChanges.map(
+              ({ description }) => description,
+            ),
+          },
+        ]
+      : []),
+    ...(hasReleaseLink(changelogContent, version)
+      ? []
+      : [{ packageName, version, kind: 'missingCompareLink' as const }]),
+  ];
+}
+
+/**
+ * Checks that the changelogs of the packages in the given release plan are
+ * ready to be released once the plan has been executed.
+ *
+ * In a monorepo with independent versions, the version of the root package
+ * only names the release rather than being released itself, so its changelog
+ * is not checked.
+ *
+ * @param args - The arguments.
+ * @param args.project - Information about the project.
+ * @param args.releasePlan - The release plan that has been executed.
+ * @param args.versioningStrategy - The versioning strategy of the monorepo.
+ * @param args.formatter - The formatter to use for formatting changelogs.
+ * @returns The problems found across all of the changelogs.
+ */
+export async function validateReleasedChangelogs({
+  project,
+  releasePlan,
+  versioningStrategy,
+  formatter,
+}: {
+  project: Pick<
+    Project,
+    'directoryPath' | 'repositoryUrl' | 'rootPackage' | 'configuration'
+  >;
+  releasePlan: ReleasePlan;
+  versioningStrategy: VersioningStrategy;
+  formatter: Formatter;
+}): Promise<ChangelogIssue[]> {
+  const issues = await Promise.all(
+    releasePlan.packages
+      .filter(
+        ({ package: pkg }) =>
+          versioningStrategy === 'fixed' || pkg !== project.rootPackage,
+      )
+      .map(async ({ package: pkg, newVersion }) =>
+        validateReleasedChangelog({
+          project,
+          package: pkg,
+          version: newVersion,
+          formatter,
+        }),
+      ),
+  );
+
+  return issues.flat();
+}
+
+/**
+ * Describes a problem found in the changelog of a released package.
+ *
+ * @param issue - The problem.
+ * @returns The description.
+ */
+function describeChangelogIssue(issue: ChangelogIssue): string {
+  switch (issue.kind) {
+    case 'mismatchedVersionHeader':
+      return issue.headerVersion === null
+        ? `The changelog has no release sections, but should have one for ${issue.version}.`
+        : `The newest release section of the changelog is for ${issue.headerVersion}, but should be for ${issue.version}.`;
+
+    case 'emptyReleaseSection':
+      return `The release section for ${issue.version} does not list any changes.`;
+
+    case 'uncategorizedChanges':
+      return `The release section for ${issue.version} has changes that are still uncategorized: ${issue.descriptions
+        .map((description) => JSON.stringify(description))
+        .join(', ')}`;
+
+    case 'missingCompareLink':
+      return `The changelog does not have a link for ${issue.version}.`;
+
+    default:
+      return assertExhaustive(issue);
+  }
+}
+
+/**
+ * Builds a report of the problems found in the changelogs of the released
+ * packages, grouped by package.
+ *
+ * @param issues - The problems.
+ * @returns The report.
+ */
+export function formatChangelogIssues(issues: ChangelogIssue[]): string {
+  const issuesByPackageName = issues.reduce<Record<string, ChangelogIssue[]>>(
+    (obj, issue) => ({
+      ...obj,
+      [issue.packageName]: [...(obj[issue.packageName] ?? []), issue],
+    }),
+    {},
+  );
+
+  return [
+    'The changelogs of the following packages are not ready to be released:',
+    Object.entries(issuesByPackageName)
+      .map(([packageName, packageIssues]) =>
+        [
+          `- ${packageName}`,
+          ...packageIssues.map(
+            (issue) => `  - ${describeChangelogIssue(issue)}`,
+          ),
+        ].join('\n'),
+      )
+      .join('\n'),
+  ].join('\n\n');
+}
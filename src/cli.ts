@@ -7,6 +7,7 @@ async function cli() {
   await main({
     argv: process.argv,
     cwd: process.cwd(),
+    stdin: process.stdin,
     stdout: process.stdout,
     stderr: process.stderr,
   });
@@ -1,15 +1,44 @@
 import yargs from 'yargs/yargs';
 import { hideBin } from 'yargs/helpers';
+import { WORKFLOW_STEPS } from './workflow-state.js';
+
+/**
+ * The commands that this tool supports. The default command, "release",
+ * prepares a release branch; "tag" creates the tags for a release once it has
+ * been merged.
+ */
+export type Command = 'release' | 'tag';
 
 export type CommandLineArguments = {
+  command: Command;
   projectDirectory: string;
   tempDirectory: string | undefined;
   reset: boolean;
+  restartFrom: string | undefined;
   backport: boolean;
   defaultBranch: string;
   interactive: boolean;
   port: number;
   formatter: string;
+  bump: string | undefined;
+  version: string | undefined;
+  preid: string | undefined;
+  propagate: boolean;
+  versioningStrategy: string | undefined;
+  dryRun: boolean;
+  releaseSpec: string | undefined;
+  applyPlan: string | undefined;
+  writePlan: string | undefined;
+  releaseNotes: string | undefined;
+  allowChangelogIssues: boolean;
+  fetch: boolean;
+  remote: string | undefined;
+  from: string | undefined;
+  push: boolean;
+  openPr: boolean;
+  prLabel: string[];
+  output: string;
+  ref: string;
 };
 
 /**
@@ -22,10 +51,22 @@ export type CommandLineArguments = {
 export async function readCommandLineArguments(
   argv: string[],
 ): Promise<CommandLineArguments> {
-  return await yargs(hideBin(argv))
+  const args = await yargs(hideBin(argv))
+    .version(false)
     .usage(
       'This tool prepares your project for a new release by bumping versions and updating changelogs.',
     )
+    .command('$0', 'Prepares a release branch for a new release.')
+    .command(
+      'tag',
+      'Creates a Git tag for each package released in the given commit (usually the merge commit of a release pull request), along with a tag for the root package, skipping tags that already exist.',
+    )
+    .option('ref', {
+      describe:
+        'The commit to tag, which is compared with its parent to determine which packages were released (tag command only).',
+      default: 'HEAD',
+      type: 'string',
+    })
     .option('project-directory', {
       alias: 'd',
       describe: 'The directory that holds your project.',
@@ -42,6 +83,85 @@ export async function readCommandLineArguments(
       type: 'boolean',
       default: false,
     })
+    .option('restart-from', {
+      describe:
+        'When continuing a previous run that stopped partway through, carries out the given step again, along with every step after it, instead of skipping the steps that were completed (monorepo only).',
+      choices: WORKFLOW_STEPS,
+      type: 'string',
+    })
+    .option('release-spec', {
+      describe:
+        'The path to a release spec to use instead of generating one and opening it in your editor, or "-" to read the release spec (as YAML or JSON) from standard input. Only applies to monorepos.',
+      type: 'string',
+    })
+    .option('apply-plan', {
+      describe:
+        'The path to a release plan written by `--write-plan` to apply instead of a release spec. The plan is only applied if each package in it is still at the version it was at when the plan was made. Only applies to monorepos.',
+      type: 'string',
+    })
+    .option('write-plan', {
+      describe:
+        'When doing a dry run, writes the release plan (the new version of each package) to the given path as JSON, so that it can be reviewed and then applied with `--apply-plan`.',
+      type: 'string',
+    })
+    .option('release-notes', {
+      describe:
+        'The path to which to write notes for the release, collected from the new changelog sections of the released packages and grouped by package, or "-" to print them. Only applies to monorepos.',
+      type: 'string',
+    })
+    .option('allow-changelog-issues', {
+      describe:
+        'Prepares the release even if the new changelog sections of the released packages are not ready to be released (for instance, if they are empty or have uncategorized changes), warning about the problems instead of stopping. Only applies to monorepos.',
+      type: 'boolean',
+      default: false,
+    })
+    .option('fetch', {
+      describe:
+        'Whether to fetch tags from the remote before determining which packages have changed since their latest releases. Pass `--no-fetch` to work offline with the tags that have already been fetched.',
+      type: 'boolean',
+      default: true,
+    })
+    .option('remote', {
+      describe:
+        'The name of the remote from which to fetch tags, such as "upstream" in a fork, and to which to push the release branch. Defaults to the remote that `git fetch` uses when fetching, and to "origin" when pushing.',
+      type: 'string',
+    })
+    .option('from', {
+      describe:
+        'The ref (such as "origin/main") from which to create the release branch, instead of the commit that is checked out. The ref must contain the tag for the latest release.',
+      type: 'string',
+    })
+    .option('push', {
+      describe:
+        'Pushes the release branch to the remote given by `--remote` (or "origin") once the release has been committed.',
+      type: 'boolean',
+      default: false,
+    })
+    .option('open-pr', {
+      describe:
+        'Pushes the release branch and opens a pull request for the release on GitHub, using the token in the GITHUB_TOKEN environment variable. The pull request is opened through the API at GITHUB_API_URL, if it is set.',
+      type: 'boolean',
+      default: false,
+    })
+    .option('pr-label', {
+      describe:
+        'A label to attach to the pull request opened with --open-pr. May be given more than once.',
+      type: 'string',
+      array: true,
+      default: ['release'],
+    })
+    .option('dry-run', {
+      describe:
+        'Prints the release plan (the branch, new versions, changelog changes, and commits) without changing anything in the project.',
+      type: 'boolean',
+      default: false,
+    })
+    .option('output', {
+      describe:
+        'The format in which to report progress. "json" writes a line of JSON to standard out for each event, such as the release branch being created or a commit being made.',
+      choices: ['text', 'json'],
+      default: 'text',
+    })
     .option('backport', {
       describe:
         'Instructs the tool to bump the second part of the version rather than the first for a backport release.',
@@ -72,7 +192,48 @@ export async function readCommandLineArguments(
       choices: ['oxfmt', 'prettier'],
       default: 'prettier',
     })
+    .option('bump', {
+      describe:
+        'The part of the current version to bump for the new release (polyrepo only). The "pre" variants bump to a prerelease version.',
+      choices: [
+        'major',
+        'minor',
+        'patch',
+        'premajor',
+        'preminor',
+        'prepatch',
+        'prerelease',
+      ],
+      type: 'string',
+    })
+    .option('version', {
+      describe:
+        'The exact version to use for the new release, such as "1.2.3" (polyrepo only).',
+      type: 'string',
+    })
+    .option('preid', {
+      describe:
+        'The identifier to use for prerelease versions, such as "rc" (which would result in versions such as "2.0.0-rc.0"). Applies whenever a version is bumped with "premajor", "preminor", "prepatch", or "prerelease".',
+      type: 'string',
+    })
+    .option('propagate', {
+      describe:
+        'Automatically adds the direct and peer dependents of packages released with a major version bump to the release (recursively), giving each at least a patch bump and updating its dependency on the bumped package (monorepo with independent versions only).',
+      type: 'boolean',
+      default: false,
+    })
+    .option('versioning-strategy', {
+      describe:
+        'Whether the workspace packages in a monorepo are versioned independently or all share the same version. Overrides the "versioningStrategy" option in the root package.json.',
+      choices: ['independent', 'fixed'],
+      type: 'string',
+    })
+    .conflicts('bump', 'version')
+    .conflicts('reset', 'restart-from')
+    .conflicts('apply-plan', 'release-spec')
     .help()
     .strict()
     .parse();
+
+  return { ...args, command: args._[0] === 'tag' ? 'tag' : 'release' };
 }
@@ -0,0 +1,86 @@
+import { buildMockPackage, buildMockProject } from '../tests/unit/helpers.js';
+import {
+  findDependencyRangeUpdates,
+  updateDependencyRange,
+} from './dependency-ranges.js';
+
+describe('dependency-ranges', () => {
+  describe('updateDependencyRange', () => {
+    it('keeps a caret range as a caret range', () => {
+      expect(updateDependencyRange('^3.0.0', '4.0.0')).toBe('^4.0.0');
+    });
+
+    it('keeps a tilde range as a tilde range', () => {
+      expect(updateDependencyRange('~3.0.0', '3.1.0')).toBe('~3.1.0');
+    });
+
+    it('keeps an exact version exact', () => {
+      expect(updateDependencyRange('3.0.0', '4.0.0-rc.0')).toBe('4.0.0-rc.0');
+    });
+
+    it('keeps the "workspace:" protocol', () => {
+      expect(updateDependencyRange('workspace:^3.0.0', '4.0.0')).toBe(
+        'workspace:^4.0.0',
+      );
+    });
+
+    it('returns null for a "workspace:" range without a version', () => {
+      expect(updateDependencyRange('workspace:^', '4.0.0')).toBeNull();
+    });
+
+    it('returns null for a range which does not refer to a single version', () => {
+      expect(updateDependencyRange('>=1.0.0 <4.0.0', '4.0.0')).toBeNull();
+    });
+  });
+
+  describe('findDependencyRangeUpdates', () => {
+    it('finds the dependencies and peer dependencies of every workspace package on the released packages whose ranges need to change', () => {
+      const a = buildMockPackage('a', '3.0.0');
+      const b = buildMockPackage('b', '1.0.0');
+      const project = buildMockProject({
+        rootPackage: buildMockPackage('root', '1.0.0'),
+        workspacePackages: {
+          a,
+          b,
+          c: buildMockPackage('c', '1.0.0', {
+            validatedManifest: {
+              dependencies: { a: '^3.0.0', b: '^1.1.0', x: '^1.0.0' },
+              peerDependencies: { a: 'workspace:^' },
+            },
+          }),
+          d: buildMockPackage('d', '1.0.0', {
+            validatedManifest: {
+              peerDependencies: { a: '~3.0.0', root: '^1.0.0' },
+            },
+          }),
+        },
+      });
+
+      expect(
+        findDependencyRangeUpdates(project, {
+          newVersion: '2.0.0',
+          packages: [
+            { package: project.rootPackage, newVersion: '2.0.0' },
+            { package: a, newVersion: '4.0.0' },
+            { package: b, newVersion: '1.1.0' },
+          ],
+        }),
+      ).toStrictEqual([
+        {
+          packageName: 'c',
+          dependencyName: 'a',
+          dependencyType: 'dependencies',
+          previousRange: '^3.0.0',
+          newRange: '^4.0.0',
+        },
+        {
+          packageName: 'd',
+          dependencyName: 'a',
+          dependencyType: 'peerDependencies',
+          previousRange: '~3.0.0',
+          newRange: '~4.0.0',
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { Project } from './project.js';
+import { ReleasePlan } from './release-plan.js';
+import { isValidSemver } from './semver.js';
+
+/**
+ * A change to the range that a workspace package uses to depend on another
+ * workspace package which is being released.
+ *
+ * @property packageName - The name of the package whose manifest lists the
+ * dependency.
+ * @property dependencyName - The name of the package being released.
+ * @property dependencyType - Whether the dependency is listed under
+ * `dependencies` or `peerDependencies`.
+ * @property previousRange - The range before the release.
+ * @property newRange - The range after the release.
+ */
+export type DependencyRangeUpdate = {
+  packageName: string;
+  dependencyName: string;
+  dependencyType: 'dependencies' | 'peerDependencies';
+  previousRange: string;
+  newRange: string;
+};
+
+/**
+ * The types of dependencies whose ranges are kept in sync with the versions of
+ * released packages.
+ */
+const DEPENDENCY_TYPES = ['dependencies', 'peerDependencies'] as const;
+
+/**
+ * Splits a dependency range into an optional `workspace:` protocol, an
+ * optional `^` or `~` operator, and the rest of the range.
+ */
+const DEPENDENCY_RANGE_REGEX =
+  /^(?<protocol>workspace:)?(?<operator>[\^~]?)(?<version>.*)$/u;
+
+/**
+ * Updates a dependency range so that it refers to the given version, keeping
+ * its style: a caret range (e.g. "^1.0.0") stays a caret range, a tilde range
+ * (e.g. "~1.0.0") stays a tilde range, an exact version stays exact, and the
+ * `workspace:` protocol is kept if present.
+ *
+ * Ranges which do not refer to a specific version, such as "workspace:^"
+ * (which Yarn and pnpm replace with the version of the dependency upon
+ * publishing) or ">=1.0.0 <3.0.0", cannot be updated in this way.
+ *
+ * @param range - The dependency range.
+ * @param newVersion - The new version of the dependency.
+ * @returns The updated range, or null if the range cannot be updated.
+ */
+export function updateDependencyRange(
+  range: string,
+  newVersion: string,
+): string | null {
+  // Typecast: The regex matches any string, and every group but `protocol`
+  // always participates in the match.
+  const { protocol, operator, version } = (
+    DEPENDENCY_RANGE_REGEX.exec(range) as RegExpExecArray
+  ).groups as { protocol?: string; operator: string; version: string };
+
+  if (!isValidSemver(version)) {
+    return null;
+  }
+
+  return `${protocol ?? ''}${operator}${newVersion}`;
+}
+
+/**
+ * Determines how the dependency ranges across the workspace packages of a
+ * project need to change so that every package which depends on a package in
+ * the release refers to its new version. This includes packages which are not
+ * being released themselves.
+ *
+ * @param project - Information about the whole project (e.g., names of
+ * packages and where they can found).
+ * @param releasePlan - Compiled instructions on how exactly to update the
+ * project in order to prepare a new release.
+ * @returns The updates, in the order in which the packages that list the
+ * dependencies appear in the project. Ranges which already refer to the new
+ * version, or which cannot be updated (see `updateDependencyRange`), are left
+ * out.
+ */
+export function findDependencyRangeUpdates(
+  project: Project,
+  releasePlan: ReleasePlan,
+): DependencyRangeUpdate[] {
+  const newVersionsByPackageName = releasePlan.packages
+    .filter(({ package: pkg }) => pkg !== project.rootPackage)
+    .reduce<Record<string, string>>(
+      (obj, { package: pkg, newVersion }) => ({
+        ...obj,
+        [pkg.validatedManifest.name]: newVersion,
+      }),
+      {},
+    );
+
+  return Object.values(project.workspacePackages).flatMap((pkg) =>
+    DEPENDENCY_TYPES.flatMap((dependencyType) =>
+      Object.entries(pkg.validatedManifest[dependencyType]).flatMap(
+        ([dependencyName, previousRange]) => {
+          const newVersion = newVersionsByPackageName[dependencyName];
+
+          if (newVersion === undefined) {
+            return [];
+          }
+
+          const newRange = updateDependencyRange(previousRange, newVersion);
+
+          if (newRange === null || newRange === previousRange) {
+            return [];
+          }
+
+          return [
+            {
+              packageName: pkg.validatedManifest.name,
+              dependencyName,
+              dependencyType,
+              previousRange,
+              newRange,
+            },
+          ];
+        },
+      ),
+    ),
+  );
+}
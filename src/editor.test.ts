@@ -1,17 +1,26 @@
 import { when } from 'jest-when';
-import { determineEditor } from './editor.js';
+import { MockWritable } from 'stdio-mock';
+import { determineEditor, waitForUserToEditFile } from './editor.js';
 import * as envModule from './env.js';
 import * as miscUtils from './misc-utils.js';
 
 jest.mock('./env');
-jest.mock('./misc-utils');
+jest.mock('./misc-utils', () => {
+  return {
+    ...jest.requireActual('./misc-utils'),
+    resolveExecutable: jest.fn(),
+    runCommand: jest.fn(),
+  };
+});
 
 describe('editor', () => {
   describe('determineEditor', () => {
     it('returns information about the editor from EDITOR if it resolves to an executable', async () => {
-      jest
-        .spyOn(envModule, 'getEnvironmentVariables')
-        .mockReturnValue({ EDITOR: 'editor' });
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: 'editor',
+        GITHUB_TOKEN: undefined,
+        GITHUB_API_URL: undefined,
+      });
       when(jest.spyOn(miscUtils, 'resolveExecutable'))
         .calledWith('editor')
         .mockResolvedValue('/path/to/resolved-editor');
@@ -23,9 +32,11 @@ describe('editor', () => {
     });
 
     it('falls back to VSCode if it exists and if EDITOR does not point to an executable', async () => {
-      jest
-        .spyOn(envModule, 'getEnvironmentVariables')
-        .mockReturnValue({ EDITOR: 'editor' });
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: 'editor',
+        GITHUB_TOKEN: undefined,
+        GITHUB_API_URL: undefined,
+      });
       when(jest.spyOn(miscUtils, 'resolveExecutable'))
         .calledWith('editor')
         .mockResolvedValue(null)
@@ -39,9 +50,11 @@ describe('editor', () => {
     });
 
     it('returns null if resolving EDITOR returns null and resolving VSCode returns null', async () => {
-      jest
-        .spyOn(envModule, 'getEnvironmentVariables')
-        .mockReturnValue({ EDITOR: 'editor' });
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: 'editor',
+        GITHUB_TOKEN: undefined,
+        GITHUB_API_URL: undefined,
+      });
       when(jest.spyOn(miscUtils, 'resolveExecutable'))
         .calledWith('editor')
         .mockResolvedValue(null)
@@ -52,9 +65,11 @@ describe('editor', () => {
     });
 
     it('returns null if resolving EDITOR returns null and resolving VSCode throws', async () => {
-      jest
-        .spyOn(envModule, 'getEnvironmentVariables')
-        .mockReturnValue({ EDITOR: 'editor' });
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: 'editor',
+        GITHUB_TOKEN: undefined,
+        GITHUB_API_URL: undefined,
+      });
       when(jest.spyOn(miscUtils, 'resolveExecutable'))
         .calledWith('editor')
         .mockResolvedValue(null)
@@ -65,9 +80,11 @@ describe('editor', () => {
     });
 
     it('returns null if resolving EDITOR throws and resolving VSCode returns null', async () => {
-      jest
-        .spyOn(envModule, 'getEnvironmentVariables')
-        .mockReturnValue({ EDITOR: 'editor' });
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: 'editor',
+        GITHUB_TOKEN: undefined,
+        GITHUB_API_URL: undefined,
+      });
       when(jest.spyOn(miscUtils, 'resolveExecutable'))
         .calledWith('editor')
         .mockRejectedValue(new Error('some error'))
@@ -78,9 +95,11 @@ describe('editor', () => {
     });
 
     it('returns null if resolving EDITOR throws and resolving VSCode throws', async () => {
-      jest
-        .spyOn(envModule, 'getEnvironmentVariables')
-        .mockReturnValue({ EDITOR: 'editor' });
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: 'editor',
+        GITHUB_TOKEN: undefined,
+        GITHUB_API_URL: undefined,
+      });
       when(jest.spyOn(miscUtils, 'resolveExecutable'))
         .calledWith('editor')
         .mockRejectedValue(new Error('some error'))
@@ -91,9 +110,11 @@ describe('editor', () => {
     });
 
     it('returns null if EDITOR is unset and resolving VSCode returns null', async () => {
-      jest
-        .spyOn(envModule, 'getEnvironmentVariables')
-        .mockReturnValue({ EDITOR: undefined });
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: undefined,
+        GITHUB_TOKEN: undefined,
+        GITHUB_API_URL: undefined,
+      });
       when(jest.spyOn(miscUtils, 'resolveExecutable'))
         .calledWith('code')
         .mockResolvedValue(null);
@@ -102,9 +123,11 @@ describe('editor', () => {
     });
 
     it('returns null if EDITOR is unset and resolving VSCode throws', async () => {
-      jest
-        .spyOn(envModule, 'getEnvironmentVariables')
-        .mockReturnValue({ EDITOR: undefined });
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: undefined,
+        GITHUB_TOKEN: undefined,
+        GITHUB_API_URL: undefined,
+      });
       when(jest.spyOn(miscUtils, 'resolveExecutable'))
         .calledWith('code')
         .mockRejectedValue(new Error('some error'));
@@ -112,4 +135,83 @@ describe('editor', () => {
       expect(await determineEditor()).toBeNull();
     });
   });
+
+  describe('waitForUserToEditFile', () => {
+    it('waits for the given editor command to complete successfully', async () => {
+      const editor = {
+        path: '/path/to/editor',
+        args: ['arg1', 'arg2'],
+      };
+      const runCommandSpy = jest.spyOn(miscUtils, 'runCommand');
+      when(runCommandSpy)
+        .calledWith('/path/to/editor', ['arg1', 'arg2', '/path/to/file'], {
+          stdio: 'inherit',
+          shell: true,
+        })
+        .mockResolvedValue();
+
+      expect(
+        await waitForUserToEditFile(
+          '/path/to/file',
+          editor,
+          'the file to be edited',
+        ),
+      ).toBeUndefined();
+      expect(runCommandSpy).toHaveBeenCalledTimes(1);
+    });
+
+    it('prints a message to standard out, but then removes it, if the editor command succeeds', async () => {
+      const editor = { path: '/path/to/editor', args: [] };
+      const stdout = new MockWritable();
+      when(jest.spyOn(miscUtils, 'runCommand')).mockResolvedValue();
+
+      await waitForUserToEditFile(
+        '/path/to/file',
+        editor,
+        'the file to be edited',
+        stdout,
+      );
+
+      expect(stdout.data()).toStrictEqual([
+        'Waiting for the file to be edited...',
+        '\r\u001B[K',
+      ]);
+    });
+
+    it('still removes the message printed to standard out when the editor command fails', async () => {
+      const editor = { path: '/path/to/editor', args: [] };
+      const stdout = new MockWritable();
+      jest.spyOn(miscUtils, 'runCommand').mockRejectedValue(new Error('oops'));
+
+      await expect(
+        waitForUserToEditFile(
+          '/path/to/file',
+          editor,
+          'the file to be edited',
+          stdout,
+        ),
+      ).rejects.toThrow(expect.anything());
+
+      expect(stdout.data()).toStrictEqual([
+        'Waiting for the file to be edited...',
+        '\r\u001B[K',
+      ]);
+    });
+
+    it('throws if the given editor command fails', async () => {
+      const editor = { path: '/path/to/editor', args: [] };
+      const error = new Error('oops');
+      jest.spyOn(miscUtils, 'runCommand').mockRejectedValue(error);
+
+      await expect(
+        waitForUserToEditFile('/path/to/file', editor, 'the file to be edited'),
+      ).rejects.toThrow(
+        expect.objectContaining({
+          message:
+            'Encountered an error while waiting for the file to be edited.',
+          cause: error,
+        }),
+      );
+    });
+  });
 });
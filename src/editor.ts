@@ -1,5 +1,11 @@
+import fs, { WriteStream } from 'fs';
 import { getEnvironmentVariables } from './env.js';
-import { debug, resolveExecutable } from './misc-utils.js';
+import {
+  debug,
+  resolveExecutable,
+  runCommand,
+  wrapError,
+} from './misc-utils.js';
 
 /**
  * Information about the editor present on the user's computer.
@@ -54,3 +60,43 @@ export async function determineEditor(): Promise<Editor | null> {
 
   return null;
 }
+
+/**
+ * Launches the given editor to allow the user to edit the given file, printing
+ * a message while waiting for the editor to be closed.
+ *
+ * @param filePath - The path to the file.
+ * @param editor - Information about the editor.
+ * @param description - What the user is waiting for, as in "Waiting for the
+ * release spec to be edited".
+ * @param stdout - A stream that can be used to write to standard out. Defaults
+ * to /dev/null.
+ * @returns A promise that resolves when the user has completed editing the
+ * file, i.e. when the editor process completes.
+ * @throws If the editor process fails.
+ */
+export async function waitForUserToEditFile(
+  filePath: string,
+  editor: Editor,
+  description: string,
+  stdout: Pick<WriteStream, 'write'> = fs.createWriteStream('/dev/null'),
+) {
+  debug(`Opening ${filePath} with editor located at ${editor.path}...`);
+
+  stdout.write(`Waiting for ${description}...`);
+
+  try {
+    await runCommand(editor.path, [...editor.args, filePath], {
+      stdio: 'inherit',
+      shell: true,
+    });
+  } catch (error) {
+    throw wrapError(
+      `Encountered an error while waiting for ${description}.`,
+      error,
+    );
+  } finally {
+    // Clear the previous line
+    stdout.write('\r\u001B[K');
+  }
+}
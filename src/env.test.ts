@@ -16,10 +16,14 @@ describe('env', () => {
 
     it('returns only the environment variables from process.env that we use in this tool', () => {
       process.env.EDITOR = 'editor';
+      process.env.GITHUB_TOKEN = 'token';
+      process.env.GITHUB_API_URL = 'http://localhost:3000';
       process.env.EXTRA = 'extra';
 
       expect(getEnvironmentVariables()).toStrictEqual({
         EDITOR: 'editor',
+        GITHUB_TOKEN: 'token',
+        GITHUB_API_URL: 'http://localhost:3000',
       });
     });
   });
@@ -1,5 +1,7 @@
 type Env = {
   EDITOR: string | undefined;
+  GITHUB_TOKEN: string | undefined;
+  GITHUB_API_URL: string | undefined;
 };
 
 /**
@@ -9,12 +11,14 @@ type Env = {
  * this tool needs to access, whether their values are defined or not.
  */
 export function getEnvironmentVariables(): Env {
-  return ['EDITOR'].reduce(
+  return ['EDITOR', 'GITHUB_TOKEN', 'GITHUB_API_URL'].reduce(
     (object, key) => {
       return { ...object, [key]: process.env[key] };
     },
     {
       EDITOR: undefined,
+      GITHUB_TOKEN: undefined,
+      GITHUB_API_URL: undefined,
     },
   );
 }
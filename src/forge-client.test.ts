@@ -0,0 +1,471 @@
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import express from 'express';
+import {
+  createGitHubForgeClient,
+  DEFAULT_GITHUB_API_URL,
+  determineForgeClient,
+  getGitHubRepository,
+} from './forge-client.js';
+import * as envModule from './env.js';
+
+jest.mock('./env');
+
+type ReceivedRequest = {
+  method: string;
+  path: string;
+  query: unknown;
+  headers: Record<string, unknown>;
+  body: unknown;
+};
+
+/**
+ * Starts a server which stands in for the GitHub REST API, recording the
+ * requests it receives.
+ *
+ * @param respond - Produces the status and body of the response to a request.
+ * A body which is a string is sent as is, and anything else is sent as JSON.
+ * @returns The URL of the server, the requests it has received, and a function
+ * which stops it.
+ */
+async function startMockGitHubServer(
+  respond: (request: ReceivedRequest) => { status: number; body: unknown },
+): Promise<{
+  apiUrl: string;
+  requests: ReceivedRequest[];
+  stop: () => Promise<void>;
+}> {
+  const requests: ReceivedRequest[] = [];
+  const app = express();
+  app.use(express.json());
+  app.use((req, res) => {
+    const request = {
+      method: req.method,
+      path: req.path,
+      query: req.query,
+      headers: req.headers,
+      body: req.body,
+    };
+    requests.push(request);
+    const { status, body } = respond(request);
+
+    if (typeof body === 'string') {
+      res.status(status).send(body);
+    } else {
+      res.status(status).json(body);
+    }
+  });
+
+  const server = await new Promise<Server>((resolve) => {
+    const startedServer = app.listen(0, '127.0.0.1', () =>
+      resolve(startedServer),
+    );
+  });
+  // Typecast: The server is listening on a TCP port.
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    apiUrl: `http://127.0.0.1:${port}`,
+    requests,
+    stop: async () =>
+      await new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+describe('forge-client', () => {
+  describe('getGitHubRepository', () => {
+    it('returns the owner and name of the repository', () => {
+      expect(
+        getGitHubRepository('https://github.com/example-org/example-repo'),
+      ).toStrictEqual({ owner: 'example-org', name: 'example-repo' });
+    });
+
+    it('ignores a ".git" suffix', () => {
+      expect(
+        getGitHubRepository('https://github.com/example-org/example-repo.git'),
+      ).toStrictEqual({ owner: 'example-org', name: 'example-repo' });
+    });
+
+    it('throws if the URL does not refer to a repository on GitHub', () => {
+      expect(() =>
+        getGitHubRepository('https://gitlab.com/example-org/example-repo'),
+      ).toThrow(
+        'Could not open a pull request, as the repository URL "https://gitlab.com/example-org/example-repo" does not refer to a repository on GitHub.',
+      );
+    });
+  });
+
+  describe('createGitHubForgeClient', () => {
+    describe('openPullRequest', () => {
+      it('opens a pull request, attaches the labels to it, and returns its number and URL', async () => {
+        const server = await startMockGitHubServer(({ method, path }) =>
+          method === 'POST' && path.endsWith('/pulls')
+            ? {
+                status: 201,
+                body: {
+                  number: 42,
+                  html_url:
+                    'https://github.com/example-org/example-repo/pull/42',
+                },
+              }
+            : { status: 200, body: [] },
+        );
+
+        try {
+          const client = createGitHubForgeClient({
+            token: 'some-token',
+            apiUrl: `${server.apiUrl}/`,
+          });
+
+          const pullRequest = await client.openPullRequest({
+            repositoryUrl: 'https://github.com/example-org/example-repo',
+            head: 'release/2.0.0',
+            base: 'main',
+            title: 'Release 2.0.0',
+            body: '# Release 2.0.0\n',
+            labels: ['release', 'team-a'],
+          });
+
+          expect(pullRequest).toStrictEqual({
+            number: 42,
+            url: 'https://github.com/example-org/example-repo/pull/42',
+          });
+          expect(server.requests).toStrictEqual([
+            {
+              method: 'GET',
+              path: '/repos/example-org/example-repo/pulls',
+              query: {
+                head: 'example-org:release/2.0.0',
+                base: 'main',
+                state: 'open',
+              },
+              headers: expect.objectContaining({
+                authorization: 'Bearer some-token',
+              }),
+              body: {},
+            },
+            {
+              method: 'POST',
+              path: '/repos/example-org/example-repo/pulls',
+              query: {},
+              headers: expect.objectContaining({
+                accept: 'application/vnd.github+json',
+                authorization: 'Bearer some-token',
+                'x-github-api-version': '2022-11-28',
+              }),
+              body: {
+                title: 'Release 2.0.0',
+                head: 'release/2.0.0',
+                base: 'main',
+                body: '# Release 2.0.0\n',
+              },
+            },
+            {
+              method: 'POST',
+              path: '/repos/example-org/example-repo/issues/42/labels',
+              query: {},
+              headers: expect.objectContaining({
+                authorization: 'Bearer some-token',
+              }),
+              body: { labels: ['release', 'team-a'] },
+            },
+          ]);
+        } finally {
+          await server.stop();
+        }
+      });
+
+      it('labels the pull request that is already open for the branch instead of opening another', async () => {
+        const server = await startMockGitHubServer(({ method }) =>
+          method === 'GET'
+            ? {
+                status: 200,
+                body: [
+                  {
+                    number: 42,
+                    html_url:
+                      'https://github.com/example-org/example-repo/pull/42',
+                  },
+                ],
+              }
+            : { status: 200, body: [] },
+        );
+
+        try {
+          const client = createGitHubForgeClient({
+            token: 'some-token',
+            apiUrl: server.apiUrl,
+          });
+
+          const pullRequest = await client.openPullRequest({
+            repositoryUrl: 'https://github.com/example-org/example-repo',
+            head: 'release/2.0.0',
+            base: 'main',
+            title: 'Release 2.0.0',
+            body: '# Release 2.0.0\n',
+            labels: ['release'],
+          });
+
+          expect(pullRequest).toStrictEqual({
+            number: 42,
+            url: 'https://github.com/example-org/example-repo/pull/42',
+          });
+          expect(
+            server.requests.map(({ method, path }) => `${method} ${path}`),
+          ).toStrictEqual([
+            'GET /repos/example-org/example-repo/pulls',
+            'POST /repos/example-org/example-repo/issues/42/labels',
+          ]);
+        } finally {
+          await server.stop();
+        }
+      });
+
+      it('does not attach labels if none are given', async () => {
+        const server = await startMockGitHubServer(({ method }) =>
+          method === 'GET'
+            ? { status: 200, body: [] }
+            : {
+                status: 201,
+                body: {
+                  number: 42,
+                  html_url:
+                    'https://github.com/example-org/example-repo/pull/42',
+                },
+              },
+        );
+
+        try {
+          const client = createGitHubForgeClient({
+            token: 'some-token',
+            apiUrl: server.apiUrl,
+          });
+
+          await client.openPullRequest({
+            repositoryUrl: 'https://github.com/example-org/example-repo',
+            head: 'release/2.0.0',
+            base: 'main',
+            title: 'Release 2.0.0',
+            body: '',
+            labels: [],
+          });
+
+          expect(server.requests).toHaveLength(2);
+        } finally {
+          await server.stop();
+        }
+      });
+
+      it('throws with the message from GitHub if the pull request cannot be opened', async () => {
+        const server = await startMockGitHubServer(({ method }) =>
+          method === 'GET'
+            ? { status: 200, body: [] }
+            : { status: 422, body: { message: 'Validation Failed' } },
+        );
+
+        try {
+          const client = createGitHubForgeClient({
+            token: 'some-token',
+            apiUrl: server.apiUrl,
+          });
+
+          await expect(
+            client.openPullRequest({
+              repositoryUrl: 'https://github.com/example-org/example-repo',
+              head: 'release/2.0.0',
+              base: 'main',
+              title: 'Release 2.0.0',
+              body: '',
+              labels: [],
+            }),
+          ).rejects.toThrow(
+            'GitHub responded to POST /repos/example-org/example-repo/pulls with 422 Unprocessable Entity: Validation Failed',
+          );
+        } finally {
+          await server.stop();
+        }
+      });
+
+      it('throws without a message if GitHub does not respond with one in JSON', async () => {
+        const server = await startMockGitHubServer(() => ({
+          status: 404,
+          body: 'Not Found',
+        }));
+
+        try {
+          const client = createGitHubForgeClient({
+            token: 'some-token',
+            apiUrl: server.apiUrl,
+          });
+
+          await expect(
+            client.openPullRequest({
+              repositoryUrl: 'https://github.com/example-org/example-repo',
+              head: 'release/2.0.0',
+              base: 'main',
+              title: 'Release 2.0.0',
+              body: '',
+              labels: [],
+            }),
+          ).rejects.toThrow(
+            /^GitHub responded to GET \/repos\/example-org\/example-repo\/pulls\?head=example-org%3Arelease%2F2\.0\.0&base=main&state=open with 404 Not Found$/u,
+          );
+        } finally {
+          await server.stop();
+        }
+      });
+
+      it('throws if GitHub does not respond with a list of pull requests when looking for an open one', async () => {
+        const server = await startMockGitHubServer(() => ({
+          status: 200,
+          body: {},
+        }));
+
+        try {
+          const client = createGitHubForgeClient({
+            token: 'some-token',
+            apiUrl: server.apiUrl,
+          });
+
+          await expect(
+            client.openPullRequest({
+              repositoryUrl: 'https://github.com/example-org/example-repo',
+              head: 'release/2.0.0',
+              base: 'main',
+              title: 'Release 2.0.0',
+              body: '',
+              labels: [],
+            }),
+          ).rejects.toThrow(
+            'GitHub did not respond with a list of pull requests when looking for one for release/2.0.0.',
+          );
+        } finally {
+          await server.stop();
+        }
+      });
+
+      it('throws if GitHub does not respond with a pull request', async () => {
+        const server = await startMockGitHubServer(({ method }) =>
+          method === 'GET'
+            ? { status: 200, body: [] }
+            : { status: 201, body: { number: 42 } },
+        );
+
+        try {
+          const client = createGitHubForgeClient({
+            token: 'some-token',
+            apiUrl: server.apiUrl,
+          });
+
+          await expect(
+            client.openPullRequest({
+              repositoryUrl: 'https://github.com/example-org/example-repo',
+              head: 'release/2.0.0',
+              base: 'main',
+              title: 'Release 2.0.0',
+              body: '',
+              labels: [],
+            }),
+          ).rejects.toThrow(
+            'GitHub did not respond with a pull request when opening one for release/2.0.0.',
+          );
+        } finally {
+          await server.stop();
+        }
+      });
+    });
+  });
+
+  describe('determineForgeClient', () => {
+    it('returns a client for the GitHub REST API if GITHUB_TOKEN is set', async () => {
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: undefined,
+        GITHUB_TOKEN: 'some-token',
+        GITHUB_API_URL: undefined,
+      });
+      const fetchSpy = jest
+        .spyOn(global, 'fetch')
+        .mockResolvedValueOnce(new Response(JSON.stringify([])))
+        .mockResolvedValueOnce(
+          new Response(
+            JSON.stringify({
+              number: 42,
+              html_url: 'https://github.com/example-org/example-repo/pull/42',
+            }),
+            { status: 201 },
+          ),
+        );
+
+      const client = determineForgeClient();
+      await client?.openPullRequest({
+        repositoryUrl: 'https://github.com/example-org/example-repo',
+        head: 'release/2.0.0',
+        base: 'main',
+        title: 'Release 2.0.0',
+        body: '',
+        labels: [],
+      });
+
+      expect(fetchSpy).toHaveBeenLastCalledWith(
+        `${DEFAULT_GITHUB_API_URL}/repos/example-org/example-repo/pulls`,
+        expect.anything(),
+      );
+    });
+
+    it('returns a client for the API at GITHUB_API_URL if it is set', async () => {
+      const server = await startMockGitHubServer(({ method }) =>
+        method === 'GET'
+          ? { status: 200, body: [] }
+          : {
+              status: 201,
+              body: {
+                number: 42,
+                html_url: 'https://github.com/example-org/example-repo/pull/42',
+              },
+            },
+      );
+
+      try {
+        jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+          EDITOR: undefined,
+          GITHUB_TOKEN: 'some-token',
+          GITHUB_API_URL: server.apiUrl,
+        });
+
+        const client = determineForgeClient();
+        await client?.openPullRequest({
+          repositoryUrl: 'https://github.com/example-org/example-repo',
+          head: 'release/2.0.0',
+          base: 'main',
+          title: 'Release 2.0.0',
+          body: '',
+          labels: [],
+        });
+
+        expect(server.requests).toHaveLength(2);
+      } finally {
+        await server.stop();
+      }
+    });
+
+    it('returns null if GITHUB_TOKEN is not set', () => {
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: undefined,
+        GITHUB_TOKEN: undefined,
+        GITHUB_API_URL: undefined,
+      });
+
+      expect(determineForgeClient()).toBeNull();
+    });
+
+    it('returns null if GITHUB_TOKEN is empty', () => {
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: undefined,
+        GITHUB_TOKEN: '',
+        GITHUB_API_URL: '',
+      });
+
+      expect(determineForgeClient()).toBeNull();
+    });
+  });
+});
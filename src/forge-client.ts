@@ -0,0 +1,199 @@
+import { getEnvironmentVariables } from './env.js';
+import { debug, isObject } from './misc-utils.js';
+
+/**
+ * The URL of the GitHub REST API.
+ */
+export const DEFAULT_GITHUB_API_URL = 'https://api.github.com';
+
+/**
+ * A pull request that has been opened.
+ *
+ * @property number - The number of the pull request.
+ * @property url - The URL of the page for the pull request.
+ */
+export type PullRequest = {
+  number: number;
+  url: string;
+};
+
+/**
+ * The details of a pull request to open.
+ *
+ * @property repositoryUrl - The HTTPS URL of the repository, e.g.
+ * `https://github.com/OrganizationName/RepositoryName`.
+ * @property head - The name of the branch which holds the changes.
+ * @property base - The name of the branch into which to merge the changes.
+ * @property title - The title of the pull request.
+ * @property body - The description of the pull request, in Markdown.
+ * @property labels - The labels to attach to the pull request.
+ */
+export type PullRequestOptions = {
+  repositoryUrl: string;
+  head: string;
+  base: string;
+  title: string;
+  body: string;
+  labels: string[];
+};
+
+/**
+ * A client for the service which hosts the repository (a "forge", such as
+ * GitHub), through which pull requests are opened.
+ *
+ * @property openPullRequest - Opens a pull request with the given details, or
+ * labels the one that is already open for the same branch.
+ */
+export type ForgeClient = {
+  openPullRequest(options: PullRequestOptions): Promise<PullRequest>;
+};
+
+/**
+ * Extracts the owner and name of a repository on GitHub from its URL.
+ *
+ * @param repositoryUrl - The HTTPS URL of the repository, e.g.
+ * `https://github.com/OrganizationName/RepositoryName`.
+ * @returns The owner and name of the repository.
+ * @throws If the URL does not refer to a repository on GitHub.
+ */
+export function getGitHubRepository(repositoryUrl: string): {
+  owner: string;
+  name: string;
+} {
+  const match = repositoryUrl.match(
+    /^https:\/\/github\.com\/([^/]+)\/([^/]+?)(?:\.git)?\/?$/u,
+  );
+
+  if (match === null) {
+    throw new Error(
+      `Could not open a pull request, as the repository URL "${repositoryUrl}" does not refer to a repository on GitHub.`,
+    );
+  }
+
+  return { owner: match[1], name: match[2] };
+}
+
+/**
+ * Builds a client which opens pull requests through the GitHub REST API.
+ *
+ * @param args - The arguments.
+ * @param args.token - The token with which to authenticate to GitHub.
+ * @param args.apiUrl - The URL of the API. Defaults to the GitHub REST API, but
+ * may point to a GitHub Enterprise Server or to a local mock server.
+ * @returns The client.
+ */
+export function createGitHubForgeClient({
+  token,
+  apiUrl = DEFAULT_GITHUB_API_URL,
+}: {
+  token: string;
+  apiUrl?: string;
+}): ForgeClient {
+  const request = async (
+    method: string,
+    requestPath: string,
+    body?: Record<string, unknown>,
+  ): Promise<unknown> => {
+    const url = `${apiUrl.replace(/\/+$/u, '')}${requestPath}`;
+    debug(`Sending ${method} request to ${url}...`);
+
+    const response = await fetch(url, {
+      method,
+      headers: {
+        Accept: 'application/vnd.github+json',
+        Authorization: `Bearer ${token}`,
+        'Content-Type': 'application/json',
+        'User-Agent': '@metamask/create-release-branch',
+        'X-GitHub-Api-Version': '2022-11-28',
+      },
+      ...(body === undefined ? {} : { body: JSON.stringify(body) }),
+    });
+    const responseBody: unknown = await response.json().catch(() => null);
+
+    if (!response.ok) {
+      const message =
+        isObject(responseBody) && typeof responseBody.message === 'string'
+          ? `: ${responseBody.message}`
+          : '';
+      throw new Error(
+        `GitHub responded to ${method} ${requestPath} with ${response.status} ${response.statusText}${message}`,
+      );
+    }
+
+    return responseBody;
+  };
+
+  return {
+    async openPullRequest({ repositoryUrl, head, base, title, body, labels }) {
+      const { owner, name } = getGitHubRepository(repositoryUrl);
+      // A previous run may have opened the pull request but failed to label
+      // it. GitHub refuses to open a second pull request for the same branch,
+      // so the existing one is labeled instead.
+      const openPullRequests = await request(
+        'GET',
+        `/repos/${owner}/${name}/pulls?${new URLSearchParams({
+          head: `${owner}:${head}`,
+          base,
+          state: 'open',
+        }).toString()}`,
+      );
+
+      if (!Array.isArray(openPullRequests)) {
+        throw new Error(
+          `GitHub did not respond with a list of pull requests when looking for one for ${head}.`,
+        );
+      }
+
+      const pullRequest: unknown =
+        openPullRequests.length > 0
+          ? openPullRequests[0]
+          : await request('POST', `/repos/${owner}/${name}/pulls`, {
+              title,
+              head,
+              base,
+              body,
+            });
+
+      if (
+        !isObject(pullRequest) ||
+        typeof pullRequest.number !== 'number' ||
+        typeof pullRequest.html_url !== 'string'
+      ) {
+        throw new Error(
+          `GitHub did not respond with a pull request when opening one for ${head}.`,
+        );
+      }
+
+      if (labels.length > 0) {
+        await request(
+          'POST',
+          `/repos/${owner}/${name}/issues/${pullRequest.number}/labels`,
+          { labels },
+        );
+      }
+
+      return { number: pullRequest.number, url: pullRequest.html_url };
+    },
+  };
+}
+
+/**
+ * Builds the client for the forge which hosts the repository, as configured by
+ * the `GITHUB_TOKEN` environment variable (and, optionally, `GITHUB_API_URL`).
+ *
+ * @returns The client, or null if no token is available.
+ */
+export function determineForgeClient(): ForgeClient | null {
+  const { GITHUB_TOKEN, GITHUB_API_URL } = getEnvironmentVariables();
+
+  if (GITHUB_TOKEN === undefined || GITHUB_TOKEN === '') {
+    return null;
+  }
+
+  return createGitHubForgeClient({
+    token: GITHUB_TOKEN,
+    ...(GITHUB_API_URL === undefined || GITHUB_API_URL === ''
+      ? {}
+      : { apiUrl: GITHUB_API_URL }),
+  });
+}
@@ -1,11 +1,13 @@
 import fs from 'fs';
 import path from 'path';
+import { Readable } from 'stream';
 import { rimraf } from 'rimraf';
 import { when } from 'jest-when';
 import * as actionUtils from '@metamask/action-utils';
 import { withSandbox } from '../tests/helpers.js';
 import {
   readFile,
+  readStream,
   writeFile,
   readJsonObjectFile,
   writeJsonFile,
@@ -44,6 +46,32 @@ describe('fs', () => {
     });
   });
 
+  describe('readStream', () => {
+    it('reads the contents of the given stream as a UTF-8-encoded string', async () => {
+      const stream = Readable.from([
+        Buffer.from('some '),
+        Buffer.from('content 😄'),
+      ]);
+
+      expect(await readStream(stream)).toBe('some content 😄');
+    });
+
+    it('re-throws any error that occurs as a new error that points to the original', async () => {
+      const stream = new Readable({
+        read() {
+          this.destroy(new Error('oops'));
+        },
+      });
+
+      await expect(readStream(stream)).rejects.toThrow(
+        expect.objectContaining({
+          message: 'Could not read from stream',
+          cause: expect.objectContaining({ message: 'oops' }),
+        }),
+      );
+    });
+  });
+
   describe('writeFile', () => {
     it('writes the given data to the given file', async () => {
       await withSandbox(async (sandbox) => {
@@ -11,6 +11,12 @@ import { wrapError, isErrorWithCode } from './misc-utils.js';
  */
 export type WriteStreamLike = Pick<fs.WriteStream, 'write'>;
 
+/**
+ * Represents a readable stream, such as that represented by `process.stdin`,
+ * or a fake one provided in tests.
+ */
+export type ReadStreamLike = AsyncIterable<string | Buffer>;
+
 /**
  * Reads the file at the given path, assuming its content is encoded as UTF-8.
  *
@@ -26,6 +32,28 @@ export async function readFile(filePath: string): Promise<string> {
   }
 }
 
+/**
+ * Reads everything from the given stream until it ends, assuming its content is
+ * encoded as UTF-8.
+ *
+ * @param stream - The stream, such as `process.stdin`.
+ * @returns The content of the stream.
+ * @throws An error with a stack trace if reading fails in any way.
+ */
+export async function readStream(stream: ReadStreamLike): Promise<string> {
+  const chunks: Buffer[] = [];
+
+  try {
+    for await (const chunk of stream) {
+      chunks.push(Buffer.from(chunk));
+    }
+  } catch (error) {
+    throw wrapError('Could not read from stream', error);
+  }
+
+  return Buffer.concat(chunks).toString('utf8');
+}
+
 /**
  * Writes content to the file at the given path.
  *
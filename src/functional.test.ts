@@ -113,7 +113,7 @@ describe('create-release-branch (functional)', () => {
       );
     });
 
-    it('bumps the backport part of the root package and updates the versions of the specified packages according to the release spec if --backport is provided', async () => {
+    it('creates the release branch from the tag of the release that a backport follows, cherry-picks the selected commits, bumps the backport part of the root package, and updates the versions of the specified packages according to the release spec if --backport is provided', async () => {
       await withMonorepoProjectEnvironment(
         {
           packages: {
@@ -148,6 +148,7 @@ describe('create-release-branch (functional)', () => {
           },
         },
         async (environment) => {
+          await environment.runCommand('git', ['tag', 'v1.0.0']);
           await environment.updateJsonFile('package.json', {
             scripts: {
               foo: 'bar',
@@ -174,6 +175,8 @@ describe('create-release-branch (functional)', () => {
             },
           });
 
+          await environment.createCommit('Add scripts');
+
           await environment.runTool({
             args: ['--backport'],
             releaseSpecification: {
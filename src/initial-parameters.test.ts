@@ -1,20 +1,45 @@
 import os from 'os';
 import path from 'path';
 import { when } from 'jest-when';
+import { SemVer } from 'semver';
 import {
   buildMockProject,
   buildMockPackage,
   createNoopWriteStream,
 } from '../tests/unit/helpers.js';
-import { determineInitialParameters } from './initial-parameters.js';
+import {
+  determineInitialParameters,
+  InitialParameters,
+} from './initial-parameters.js';
 import * as commandLineArgumentsModule from './command-line-arguments.js';
 import * as envModule from './env.js';
 import * as projectModule from './project.js';
+import { DEFAULT_RELEASE_BRANCH_NAME_TEMPLATE } from './release-branch-name-template.js';
+import { DEFAULT_TAG_NAME_TEMPLATES } from './tag-name-template.js';
 
 jest.mock('./command-line-arguments');
 jest.mock('./env');
 jest.mock('./project');
 
+/**
+ * Calls `determineInitialParameters`, ensuring that it returns the parameters
+ * for preparing a release rather than those for the "tag" command.
+ *
+ * @param args - The arguments to `determineInitialParameters`.
+ * @returns The initial parameters.
+ */
+async function determineReleaseParameters(
+  args: Parameters<typeof determineInitialParameters>[0],
+): Promise<InitialParameters> {
+  const initialParameters = await determineInitialParameters(args);
+
+  if (initialParameters.command !== 'release') {
+    throw new Error('Expected the parameters for preparing a release.');
+  }
+
+  return initialParameters;
+}
+
 describe('initial-parameters', () => {
   describe('determineInitialParameters', () => {
     beforeEach(() => {
@@ -31,40 +56,136 @@ describe('initial-parameters', () => {
       when(jest.spyOn(commandLineArgumentsModule, 'readCommandLineArguments'))
         .calledWith(['arg1', 'arg2'])
         .mockResolvedValue({
+          command: 'release',
           projectDirectory: '/path/to/project',
           tempDirectory: '/path/to/temp',
           reset: true,
+          restartFrom: undefined,
           backport: false,
           defaultBranch: 'main',
           interactive: false,
           port: 3000,
           formatter: 'prettier',
+          bump: undefined,
+          version: undefined,
+          preid: undefined,
+          propagate: false,
+          versioningStrategy: undefined,
+          dryRun: false,
+          releaseSpec: undefined,
+          applyPlan: undefined,
+          writePlan: undefined,
+          releaseNotes: undefined,
+          allowChangelogIssues: false,
+          fetch: true,
+          remote: undefined,
+          from: undefined,
+          push: false,
+          openPr: false,
+          prLabel: ['release'],
+          output: 'text',
+          ref: 'HEAD',
         });
-      jest
-        .spyOn(envModule, 'getEnvironmentVariables')
-        .mockReturnValue({ EDITOR: undefined });
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: undefined,
+        GITHUB_TOKEN: undefined,
+        GITHUB_API_URL: undefined,
+      });
       when(jest.spyOn(projectModule, 'readProject'))
-        .calledWith('/path/to/project', { stderr })
+        .calledWith('/path/to/project', {
+          stderr,
+          fetchTags: true,
+          remote: null,
+        })
         .mockResolvedValue(project);
 
-      const initialParameters = await determineInitialParameters({
+      const initialParameters = await determineReleaseParameters({
         argv: ['arg1', 'arg2'],
         cwd: '/path/to/somewhere',
         stderr,
       });
 
       expect(initialParameters).toStrictEqual({
+        command: 'release',
         project,
         tempDirectoryPath: '/path/to/temp',
         reset: true,
+        restartFrom: null,
         releaseType: 'ordinary',
         defaultBranch: 'main',
+        baseRef: null,
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
         interactive: false,
         port: 3000,
         formatter: 'prettier',
+        versionSpecifier: null,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: false,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
       });
     });
 
+    it('returns the parameters for the "tag" command without reading the project, if that command was given', async () => {
+      when(jest.spyOn(commandLineArgumentsModule, 'readCommandLineArguments'))
+        .calledWith(['arg1', 'arg2'])
+        .mockResolvedValue({
+          command: 'tag',
+          projectDirectory: 'project',
+          tempDirectory: undefined,
+          reset: false,
+          restartFrom: undefined,
+          backport: false,
+          defaultBranch: 'main',
+          interactive: false,
+          port: 3000,
+          formatter: 'prettier',
+          bump: undefined,
+          version: undefined,
+          preid: undefined,
+          propagate: false,
+          versioningStrategy: undefined,
+          dryRun: true,
+          releaseSpec: undefined,
+          applyPlan: undefined,
+          writePlan: undefined,
+          releaseNotes: undefined,
+          allowChangelogIssues: false,
+          fetch: true,
+          remote: undefined,
+          from: undefined,
+          push: false,
+          openPr: false,
+          prLabel: ['release'],
+          output: 'text',
+          ref: 'abc123',
+        });
+      const readProjectSpy = jest.spyOn(projectModule, 'readProject');
+
+      const initialParameters = await determineInitialParameters({
+        argv: ['arg1', 'arg2'],
+        cwd: '/path/to/cwd',
+        stderr: createNoopWriteStream(),
+      });
+
+      expect(initialParameters).toStrictEqual({
+        command: 'tag',
+        projectDirectoryPath: '/path/to/cwd/project',
+        revision: 'abc123',
+        dryRun: true,
+        outputFormat: 'text',
+      });
+      expect(readProjectSpy).not.toHaveBeenCalled();
+    });
     it('resolves the given project directory relative to the current working directory', async () => {
       const project = buildMockProject({
         rootPackage: buildMockPackage(),
@@ -73,18 +194,41 @@ describe('initial-parameters', () => {
       when(jest.spyOn(commandLineArgumentsModule, 'readCommandLineArguments'))
         .calledWith(['arg1', 'arg2'])
         .mockResolvedValue({
+          command: 'release',
           projectDirectory: 'project',
           tempDirectory: undefined,
           reset: true,
+          restartFrom: undefined,
           backport: false,
           defaultBranch: 'main',
           interactive: false,
           port: 3000,
           formatter: 'prettier',
+          bump: undefined,
+          version: undefined,
+          preid: undefined,
+          propagate: false,
+          versioningStrategy: undefined,
+          dryRun: false,
+          releaseSpec: undefined,
+          applyPlan: undefined,
+          writePlan: undefined,
+          releaseNotes: undefined,
+          allowChangelogIssues: false,
+          fetch: true,
+          remote: undefined,
+          from: undefined,
+          push: false,
+          openPr: false,
+          prLabel: ['release'],
+          output: 'text',
+          ref: 'HEAD',
         });
-      jest
-        .spyOn(envModule, 'getEnvironmentVariables')
-        .mockReturnValue({ EDITOR: undefined });
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: undefined,
+        GITHUB_TOKEN: undefined,
+        GITHUB_API_URL: undefined,
+      });
       const readProjectSpy = jest
         .spyOn(projectModule, 'readProject')
         .mockResolvedValue(project);
@@ -97,7 +241,70 @@ describe('initial-parameters', () => {
 
       expect(readProjectSpy).toHaveBeenCalledWith('/path/to/cwd/project', {
         stderr,
+        fetchTags: true,
+        remote: null,
+      });
+    });
+
+    it('reads the project without fetching tags if --no-fetch is given, and fetches them from (and pushes the release branch to) the given remote if --remote is given', async () => {
+      const project = buildMockProject({
+        rootPackage: buildMockPackage(),
+      });
+      const stderr = createNoopWriteStream();
+      when(jest.spyOn(commandLineArgumentsModule, 'readCommandLineArguments'))
+        .calledWith(['arg1', 'arg2'])
+        .mockResolvedValue({
+          command: 'release',
+          projectDirectory: 'project',
+          tempDirectory: undefined,
+          reset: true,
+          restartFrom: undefined,
+          backport: false,
+          defaultBranch: 'main',
+          interactive: false,
+          port: 3000,
+          formatter: 'prettier',
+          bump: undefined,
+          version: undefined,
+          preid: undefined,
+          propagate: false,
+          versioningStrategy: undefined,
+          dryRun: false,
+          releaseSpec: undefined,
+          applyPlan: undefined,
+          writePlan: undefined,
+          releaseNotes: undefined,
+          allowChangelogIssues: false,
+          fetch: false,
+          remote: 'upstream',
+          from: undefined,
+          push: false,
+          openPr: false,
+          prLabel: ['release'],
+          output: 'text',
+          ref: 'HEAD',
+        });
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: undefined,
+        GITHUB_TOKEN: undefined,
+        GITHUB_API_URL: undefined,
+      });
+      const readProjectSpy = jest
+        .spyOn(projectModule, 'readProject')
+        .mockResolvedValue(project);
+
+      const initialParameters = await determineInitialParameters({
+        argv: ['arg1', 'arg2'],
+        cwd: '/path/to/cwd',
+        stderr,
+      });
+
+      expect(readProjectSpy).toHaveBeenCalledWith('/path/to/cwd/project', {
+        stderr,
+        fetchTags: false,
+        remote: 'upstream',
       });
+      expect(initialParameters).toMatchObject({ remote: 'upstream' });
     });
 
     it('resolves the given temporary directory relative to the current working directory', async () => {
@@ -106,23 +313,50 @@ describe('initial-parameters', () => {
       when(jest.spyOn(commandLineArgumentsModule, 'readCommandLineArguments'))
         .calledWith(['arg1', 'arg2'])
         .mockResolvedValue({
+          command: 'release',
           projectDirectory: '/path/to/project',
           tempDirectory: 'tmp',
           reset: true,
+          restartFrom: undefined,
           backport: false,
           defaultBranch: 'main',
           interactive: false,
           port: 3000,
           formatter: 'prettier',
+          bump: undefined,
+          version: undefined,
+          preid: undefined,
+          propagate: false,
+          versioningStrategy: undefined,
+          dryRun: false,
+          releaseSpec: undefined,
+          applyPlan: undefined,
+          writePlan: undefined,
+          releaseNotes: undefined,
+          allowChangelogIssues: false,
+          fetch: true,
+          remote: undefined,
+          from: undefined,
+          push: false,
+          openPr: false,
+          prLabel: ['release'],
+          output: 'text',
+          ref: 'HEAD',
         });
-      jest
-        .spyOn(envModule, 'getEnvironmentVariables')
-        .mockReturnValue({ EDITOR: undefined });
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: undefined,
+        GITHUB_TOKEN: undefined,
+        GITHUB_API_URL: undefined,
+      });
       when(jest.spyOn(projectModule, 'readProject'))
-        .calledWith('/path/to/project', { stderr })
+        .calledWith('/path/to/project', {
+          stderr,
+          fetchTags: true,
+          remote: null,
+        })
         .mockResolvedValue(project);
 
-      const initialParameters = await determineInitialParameters({
+      const initialParameters = await determineReleaseParameters({
         argv: ['arg1', 'arg2'],
         cwd: '/path/to/cwd',
         stderr,
@@ -139,23 +373,50 @@ describe('initial-parameters', () => {
       when(jest.spyOn(commandLineArgumentsModule, 'readCommandLineArguments'))
         .calledWith(['arg1', 'arg2'])
         .mockResolvedValue({
+          command: 'release',
           projectDirectory: '/path/to/project',
           tempDirectory: undefined,
           reset: true,
+          restartFrom: undefined,
           backport: false,
           defaultBranch: 'main',
           interactive: false,
           port: 3000,
           formatter: 'prettier',
+          bump: undefined,
+          version: undefined,
+          preid: undefined,
+          propagate: false,
+          versioningStrategy: undefined,
+          dryRun: false,
+          releaseSpec: undefined,
+          applyPlan: undefined,
+          writePlan: undefined,
+          releaseNotes: undefined,
+          allowChangelogIssues: false,
+          fetch: true,
+          remote: undefined,
+          from: undefined,
+          push: false,
+          openPr: false,
+          prLabel: ['release'],
+          output: 'text',
+          ref: 'HEAD',
         });
-      jest
-        .spyOn(envModule, 'getEnvironmentVariables')
-        .mockReturnValue({ EDITOR: undefined });
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: undefined,
+        GITHUB_TOKEN: undefined,
+        GITHUB_API_URL: undefined,
+      });
       when(jest.spyOn(projectModule, 'readProject'))
-        .calledWith('/path/to/project', { stderr })
+        .calledWith('/path/to/project', {
+          stderr,
+          fetchTags: true,
+          remote: null,
+        })
         .mockResolvedValue(project);
 
-      const initialParameters = await determineInitialParameters({
+      const initialParameters = await determineReleaseParameters({
         argv: ['arg1', 'arg2'],
         cwd: '/path/to/cwd',
         stderr,
@@ -172,23 +433,50 @@ describe('initial-parameters', () => {
       when(jest.spyOn(commandLineArgumentsModule, 'readCommandLineArguments'))
         .calledWith(['arg1', 'arg2'])
         .mockResolvedValue({
+          command: 'release',
           projectDirectory: '/path/to/project',
           tempDirectory: '/path/to/temp',
           reset: true,
+          restartFrom: undefined,
           backport: false,
           defaultBranch: 'main',
           interactive: false,
           port: 3000,
           formatter: 'prettier',
+          bump: undefined,
+          version: undefined,
+          preid: undefined,
+          propagate: false,
+          versioningStrategy: undefined,
+          dryRun: false,
+          releaseSpec: undefined,
+          applyPlan: undefined,
+          writePlan: undefined,
+          releaseNotes: undefined,
+          allowChangelogIssues: false,
+          fetch: true,
+          remote: undefined,
+          from: undefined,
+          push: false,
+          openPr: false,
+          prLabel: ['release'],
+          output: 'text',
+          ref: 'HEAD',
         });
-      jest
-        .spyOn(envModule, 'getEnvironmentVariables')
-        .mockReturnValue({ EDITOR: undefined });
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: undefined,
+        GITHUB_TOKEN: undefined,
+        GITHUB_API_URL: undefined,
+      });
       when(jest.spyOn(projectModule, 'readProject'))
-        .calledWith('/path/to/project', { stderr })
+        .calledWith('/path/to/project', {
+          stderr,
+          fetchTags: true,
+          remote: null,
+        })
         .mockResolvedValue(project);
 
-      const initialParameters = await determineInitialParameters({
+      const initialParameters = await determineReleaseParameters({
         argv: ['arg1', 'arg2'],
         cwd: '/path/to/somewhere',
         stderr,
@@ -203,23 +491,50 @@ describe('initial-parameters', () => {
       when(jest.spyOn(commandLineArgumentsModule, 'readCommandLineArguments'))
         .calledWith(['arg1', 'arg2'])
         .mockResolvedValue({
+          command: 'release',
           projectDirectory: '/path/to/project',
           tempDirectory: '/path/to/temp',
           reset: false,
+          restartFrom: undefined,
           backport: false,
           defaultBranch: 'main',
           interactive: false,
           port: 3000,
           formatter: 'prettier',
+          bump: undefined,
+          version: undefined,
+          preid: undefined,
+          propagate: false,
+          versioningStrategy: undefined,
+          dryRun: false,
+          releaseSpec: undefined,
+          applyPlan: undefined,
+          writePlan: undefined,
+          releaseNotes: undefined,
+          allowChangelogIssues: false,
+          fetch: true,
+          remote: undefined,
+          from: undefined,
+          push: false,
+          openPr: false,
+          prLabel: ['release'],
+          output: 'text',
+          ref: 'HEAD',
         });
-      jest
-        .spyOn(envModule, 'getEnvironmentVariables')
-        .mockReturnValue({ EDITOR: undefined });
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: undefined,
+        GITHUB_TOKEN: undefined,
+        GITHUB_API_URL: undefined,
+      });
       when(jest.spyOn(projectModule, 'readProject'))
-        .calledWith('/path/to/project', { stderr })
+        .calledWith('/path/to/project', {
+          stderr,
+          fetchTags: true,
+          remote: null,
+        })
         .mockResolvedValue(project);
 
-      const initialParameters = await determineInitialParameters({
+      const initialParameters = await determineReleaseParameters({
         argv: ['arg1', 'arg2'],
         cwd: '/path/to/somewhere',
         stderr,
@@ -228,29 +543,114 @@ describe('initial-parameters', () => {
       expect(initialParameters.reset).toBe(false);
     });
 
+    it('returns initial parameters including restartFrom, derived from the "--restart-from" command-line argument', async () => {
+      const project = buildMockProject();
+      const stderr = createNoopWriteStream();
+      when(jest.spyOn(commandLineArgumentsModule, 'readCommandLineArguments'))
+        .calledWith(['arg1', 'arg2'])
+        .mockResolvedValue({
+          command: 'release',
+          projectDirectory: '/path/to/project',
+          tempDirectory: '/path/to/temp',
+          reset: false,
+          restartFrom: 'update-lockfile',
+          backport: false,
+          defaultBranch: 'main',
+          interactive: false,
+          port: 3000,
+          formatter: 'prettier',
+          bump: undefined,
+          version: undefined,
+          preid: undefined,
+          propagate: false,
+          versioningStrategy: undefined,
+          dryRun: false,
+          releaseSpec: undefined,
+          applyPlan: undefined,
+          writePlan: undefined,
+          releaseNotes: undefined,
+          allowChangelogIssues: false,
+          fetch: true,
+          remote: undefined,
+          from: undefined,
+          push: false,
+          openPr: false,
+          prLabel: ['release'],
+          output: 'text',
+          ref: 'HEAD',
+        });
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: undefined,
+        GITHUB_TOKEN: undefined,
+        GITHUB_API_URL: undefined,
+      });
+      when(jest.spyOn(projectModule, 'readProject'))
+        .calledWith('/path/to/project', {
+          stderr,
+          fetchTags: true,
+          remote: null,
+        })
+        .mockResolvedValue(project);
+
+      const initialParameters = await determineReleaseParameters({
+        argv: ['arg1', 'arg2'],
+        cwd: '/path/to/somewhere',
+        stderr,
+      });
+
+      expect(initialParameters.restartFrom).toBe('update-lockfile');
+    });
+
     it('returns initial parameters including a releaseType of "backport", derived from a command-line argument of "--backport true"', async () => {
       const project = buildMockProject();
       const stderr = createNoopWriteStream();
       when(jest.spyOn(commandLineArgumentsModule, 'readCommandLineArguments'))
         .calledWith(['arg1', 'arg2'])
         .mockResolvedValue({
+          command: 'release',
           projectDirectory: '/path/to/project',
           tempDirectory: '/path/to/temp',
           reset: false,
+          restartFrom: undefined,
           backport: true,
           defaultBranch: 'main',
           interactive: false,
           port: 3000,
           formatter: 'prettier',
+          bump: undefined,
+          version: undefined,
+          preid: undefined,
+          propagate: false,
+          versioningStrategy: undefined,
+          dryRun: false,
+          releaseSpec: undefined,
+          applyPlan: undefined,
+          writePlan: undefined,
+          releaseNotes: undefined,
+          allowChangelogIssues: false,
+          fetch: true,
+          remote: undefined,
+          from: undefined,
+          push: false,
+          openPr: false,
+          prLabel: ['release'],
+          output: 'text',
+          ref: 'HEAD',
         });
-      jest
-        .spyOn(envModule, 'getEnvironmentVariables')
-        .mockReturnValue({ EDITOR: undefined });
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: undefined,
+        GITHUB_TOKEN: undefined,
+        GITHUB_API_URL: undefined,
+      });
       when(jest.spyOn(projectModule, 'readProject'))
-        .calledWith('/path/to/project', { stderr })
+        .calledWith('/path/to/project', {
+          stderr,
+          fetchTags: true,
+          remote: null,
+        })
         .mockResolvedValue(project);
 
-      const initialParameters = await determineInitialParameters({
+      const initialParameters = await determineReleaseParameters({
         argv: ['arg1', 'arg2'],
         cwd: '/path/to/somewhere',
         stderr,
@@ -265,23 +665,50 @@ describe('initial-parameters', () => {
       when(jest.spyOn(commandLineArgumentsModule, 'readCommandLineArguments'))
         .calledWith(['arg1', 'arg2'])
         .mockResolvedValue({
+          command: 'release',
           projectDirectory: '/path/to/project',
           tempDirectory: '/path/to/temp',
           reset: false,
+          restartFrom: undefined,
           backport: false,
           defaultBranch: 'main',
           interactive: false,
           port: 3000,
           formatter: 'prettier',
+          bump: undefined,
+          version: undefined,
+          preid: undefined,
+          propagate: false,
+          versioningStrategy: undefined,
+          dryRun: false,
+          releaseSpec: undefined,
+          applyPlan: undefined,
+          writePlan: undefined,
+          releaseNotes: undefined,
+          allowChangelogIssues: false,
+          fetch: true,
+          remote: undefined,
+          from: undefined,
+          push: false,
+          openPr: false,
+          prLabel: ['release'],
+          output: 'text',
+          ref: 'HEAD',
         });
-      jest
-        .spyOn(envModule, 'getEnvironmentVariables')
-        .mockReturnValue({ EDITOR: undefined });
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: undefined,
+        GITHUB_TOKEN: undefined,
+        GITHUB_API_URL: undefined,
+      });
       when(jest.spyOn(projectModule, 'readProject'))
-        .calledWith('/path/to/project', { stderr })
+        .calledWith('/path/to/project', {
+          stderr,
+          fetchTags: true,
+          remote: null,
+        })
         .mockResolvedValue(project);
 
-      const initialParameters = await determineInitialParameters({
+      const initialParameters = await determineReleaseParameters({
         argv: ['arg1', 'arg2'],
         cwd: '/path/to/somewhere',
         stderr,
@@ -289,5 +716,963 @@ describe('initial-parameters', () => {
 
       expect(initialParameters.releaseType).toBe('ordinary');
     });
+
+    it('returns initial parameters including a versionSpecifier of the given part to bump, derived from a command-line argument of "--bump"', async () => {
+      const project = buildMockProject();
+      const stderr = createNoopWriteStream();
+      when(jest.spyOn(commandLineArgumentsModule, 'readCommandLineArguments'))
+        .calledWith(['arg1', 'arg2'])
+        .mockResolvedValue({
+          command: 'release',
+          projectDirectory: '/path/to/project',
+          tempDirectory: '/path/to/temp',
+          reset: false,
+          restartFrom: undefined,
+          backport: false,
+          defaultBranch: 'main',
+          interactive: false,
+          port: 3000,
+          formatter: 'prettier',
+          bump: 'minor',
+          version: undefined,
+          preid: undefined,
+          propagate: false,
+          versioningStrategy: undefined,
+          dryRun: false,
+          releaseSpec: undefined,
+          applyPlan: undefined,
+          writePlan: undefined,
+          releaseNotes: undefined,
+          allowChangelogIssues: false,
+          fetch: true,
+          remote: undefined,
+          from: undefined,
+          push: false,
+          openPr: false,
+          prLabel: ['release'],
+          output: 'text',
+          ref: 'HEAD',
+        });
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: undefined,
+        GITHUB_TOKEN: undefined,
+        GITHUB_API_URL: undefined,
+      });
+      when(jest.spyOn(projectModule, 'readProject'))
+        .calledWith('/path/to/project', {
+          stderr,
+          fetchTags: true,
+          remote: null,
+        })
+        .mockResolvedValue(project);
+
+      const initialParameters = await determineReleaseParameters({
+        argv: ['arg1', 'arg2'],
+        cwd: '/path/to/somewhere',
+        stderr,
+      });
+
+      expect(initialParameters.versionSpecifier).toBe('minor');
+    });
+
+    it('returns initial parameters including a versionSpecifier of the given exact version, derived from a command-line argument of "--version"', async () => {
+      const project = buildMockProject();
+      const stderr = createNoopWriteStream();
+      when(jest.spyOn(commandLineArgumentsModule, 'readCommandLineArguments'))
+        .calledWith(['arg1', 'arg2'])
+        .mockResolvedValue({
+          command: 'release',
+          projectDirectory: '/path/to/project',
+          tempDirectory: '/path/to/temp',
+          reset: false,
+          restartFrom: undefined,
+          backport: false,
+          defaultBranch: 'main',
+          interactive: false,
+          port: 3000,
+          formatter: 'prettier',
+          bump: undefined,
+          version: '1.2.3',
+          preid: undefined,
+          propagate: false,
+          versioningStrategy: undefined,
+          dryRun: false,
+          releaseSpec: undefined,
+          applyPlan: undefined,
+          writePlan: undefined,
+          releaseNotes: undefined,
+          allowChangelogIssues: false,
+          fetch: true,
+          remote: undefined,
+          from: undefined,
+          push: false,
+          openPr: false,
+          prLabel: ['release'],
+          output: 'text',
+          ref: 'HEAD',
+        });
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: undefined,
+        GITHUB_TOKEN: undefined,
+        GITHUB_API_URL: undefined,
+      });
+      when(jest.spyOn(projectModule, 'readProject'))
+        .calledWith('/path/to/project', {
+          stderr,
+          fetchTags: true,
+          remote: null,
+        })
+        .mockResolvedValue(project);
+
+      const initialParameters = await determineReleaseParameters({
+        argv: ['arg1', 'arg2'],
+        cwd: '/path/to/somewhere',
+        stderr,
+      });
+
+      expect(initialParameters.versionSpecifier).toStrictEqual(
+        new SemVer('1.2.3'),
+      );
+    });
+
+    it('throws if the command-line argument of "--version" is not a valid version string', async () => {
+      const project = buildMockProject();
+      const stderr = createNoopWriteStream();
+      when(jest.spyOn(commandLineArgumentsModule, 'readCommandLineArguments'))
+        .calledWith(['arg1', 'arg2'])
+        .mockResolvedValue({
+          command: 'release',
+          projectDirectory: '/path/to/project',
+          tempDirectory: '/path/to/temp',
+          reset: false,
+          restartFrom: undefined,
+          backport: false,
+          defaultBranch: 'main',
+          interactive: false,
+          port: 3000,
+          formatter: 'prettier',
+          bump: undefined,
+          version: '1.2',
+          preid: undefined,
+          propagate: false,
+          versioningStrategy: undefined,
+          dryRun: false,
+          releaseSpec: undefined,
+          applyPlan: undefined,
+          writePlan: undefined,
+          releaseNotes: undefined,
+          allowChangelogIssues: false,
+          fetch: true,
+          remote: undefined,
+          from: undefined,
+          push: false,
+          openPr: false,
+          prLabel: ['release'],
+          output: 'text',
+          ref: 'HEAD',
+        });
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: undefined,
+        GITHUB_TOKEN: undefined,
+        GITHUB_API_URL: undefined,
+      });
+      when(jest.spyOn(projectModule, 'readProject'))
+        .calledWith('/path/to/project', {
+          stderr,
+          fetchTags: true,
+          remote: null,
+        })
+        .mockResolvedValue(project);
+
+      await expect(
+        determineInitialParameters({
+          argv: ['arg1', 'arg2'],
+          cwd: '/path/to/somewhere',
+          stderr,
+        }),
+      ).rejects.toThrow(
+        'The value of --version, "1.2", is not a valid version string with major, minor, and patch parts, such as "1.2.3".',
+      );
+    });
+
+    it('returns initial parameters including a prereleaseIdentifier, derived from a command-line argument of "--preid"', async () => {
+      const project = buildMockProject();
+      const stderr = createNoopWriteStream();
+      when(jest.spyOn(commandLineArgumentsModule, 'readCommandLineArguments'))
+        .calledWith(['arg1', 'arg2'])
+        .mockResolvedValue({
+          command: 'release',
+          projectDirectory: '/path/to/project',
+          tempDirectory: '/path/to/temp',
+          reset: false,
+          restartFrom: undefined,
+          backport: false,
+          defaultBranch: 'main',
+          interactive: false,
+          port: 3000,
+          formatter: 'prettier',
+          bump: 'premajor',
+          version: undefined,
+          preid: 'rc',
+          propagate: false,
+          versioningStrategy: undefined,
+          dryRun: false,
+          releaseSpec: undefined,
+          applyPlan: undefined,
+          writePlan: undefined,
+          releaseNotes: undefined,
+          allowChangelogIssues: false,
+          fetch: true,
+          remote: undefined,
+          from: undefined,
+          push: false,
+          openPr: false,
+          prLabel: ['release'],
+          output: 'text',
+          ref: 'HEAD',
+        });
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: undefined,
+        GITHUB_TOKEN: undefined,
+        GITHUB_API_URL: undefined,
+      });
+      when(jest.spyOn(projectModule, 'readProject'))
+        .calledWith('/path/to/project', {
+          stderr,
+          fetchTags: true,
+          remote: null,
+        })
+        .mockResolvedValue(project);
+
+      const initialParameters = await determineReleaseParameters({
+        argv: ['arg1', 'arg2'],
+        cwd: '/path/to/somewhere',
+        stderr,
+      });
+
+      expect(initialParameters.versionSpecifier).toBe('premajor');
+      expect(initialParameters.prereleaseIdentifier).toBe('rc');
+    });
+
+    it('throws if the command-line argument of "--preid" is not a valid prerelease identifier', async () => {
+      const project = buildMockProject();
+      const stderr = createNoopWriteStream();
+      when(jest.spyOn(commandLineArgumentsModule, 'readCommandLineArguments'))
+        .calledWith(['arg1', 'arg2'])
+        .mockResolvedValue({
+          command: 'release',
+          projectDirectory: '/path/to/project',
+          tempDirectory: '/path/to/temp',
+          reset: false,
+          restartFrom: undefined,
+          backport: false,
+          defaultBranch: 'main',
+          interactive: false,
+          port: 3000,
+          formatter: 'prettier',
+          bump: 'premajor',
+          version: undefined,
+          preid: 'rc.1',
+          propagate: false,
+          versioningStrategy: undefined,
+          dryRun: false,
+          releaseSpec: undefined,
+          applyPlan: undefined,
+          writePlan: undefined,
+          releaseNotes: undefined,
+          allowChangelogIssues: false,
+          fetch: true,
+          remote: undefined,
+          from: undefined,
+          push: false,
+          openPr: false,
+          prLabel: ['release'],
+          output: 'text',
+          ref: 'HEAD',
+        });
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: undefined,
+        GITHUB_TOKEN: undefined,
+        GITHUB_API_URL: undefined,
+      });
+      when(jest.spyOn(projectModule, 'readProject'))
+        .calledWith('/path/to/project', {
+          stderr,
+          fetchTags: true,
+          remote: null,
+        })
+        .mockResolvedValue(project);
+
+      await expect(
+        determineInitialParameters({
+          argv: ['arg1', 'arg2'],
+          cwd: '/path/to/somewhere',
+          stderr,
+        }),
+      ).rejects.toThrow(
+        'The value of --preid, "rc.1", is not a valid prerelease identifier. It may only contain letters, numbers, and hyphens, such as "rc".',
+      );
+    });
+
+    it('returns initial parameters including the versioning strategy configured by the project, if "--versioning-strategy" is not given', async () => {
+      const project = buildMockProject({
+        configuration: {
+          versioningStrategy: 'fixed',
+          pathFilters: {},
+          tagNameTemplates: DEFAULT_TAG_NAME_TEMPLATES,
+          releaseBranchNameTemplate: DEFAULT_RELEASE_BRANCH_NAME_TEMPLATE,
+        },
+      });
+      const stderr = createNoopWriteStream();
+      when(jest.spyOn(commandLineArgumentsModule, 'readCommandLineArguments'))
+        .calledWith(['arg1', 'arg2'])
+        .mockResolvedValue({
+          command: 'release',
+          projectDirectory: '/path/to/project',
+          tempDirectory: '/path/to/temp',
+          reset: false,
+          restartFrom: undefined,
+          backport: false,
+          defaultBranch: 'main',
+          interactive: false,
+          port: 3000,
+          formatter: 'prettier',
+          bump: undefined,
+          version: undefined,
+          preid: undefined,
+          propagate: false,
+          versioningStrategy: undefined,
+          dryRun: false,
+          releaseSpec: undefined,
+          applyPlan: undefined,
+          writePlan: undefined,
+          releaseNotes: undefined,
+          allowChangelogIssues: false,
+          fetch: true,
+          remote: undefined,
+          from: undefined,
+          push: false,
+          openPr: false,
+          prLabel: ['release'],
+          output: 'text',
+          ref: 'HEAD',
+        });
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: undefined,
+        GITHUB_TOKEN: undefined,
+        GITHUB_API_URL: undefined,
+      });
+      when(jest.spyOn(projectModule, 'readProject'))
+        .calledWith('/path/to/project', {
+          stderr,
+          fetchTags: true,
+          remote: null,
+        })
+        .mockResolvedValue(project);
+
+      const initialParameters = await determineReleaseParameters({
+        argv: ['arg1', 'arg2'],
+        cwd: '/path/to/somewhere',
+        stderr,
+      });
+
+      expect(initialParameters.versioningStrategy).toBe('fixed');
+    });
+
+    it('returns initial parameters including the versioning strategy given by "--versioning-strategy", overriding the one configured by the project', async () => {
+      const project = buildMockProject({
+        configuration: {
+          versioningStrategy: 'fixed',
+          pathFilters: {},
+          tagNameTemplates: DEFAULT_TAG_NAME_TEMPLATES,
+          releaseBranchNameTemplate: DEFAULT_RELEASE_BRANCH_NAME_TEMPLATE,
+        },
+      });
+      const stderr = createNoopWriteStream();
+      when(jest.spyOn(commandLineArgumentsModule, 'readCommandLineArguments'))
+        .calledWith(['arg1', 'arg2'])
+        .mockResolvedValue({
+          command: 'release',
+          projectDirectory: '/path/to/project',
+          tempDirectory: '/path/to/temp',
+          reset: false,
+          restartFrom: undefined,
+          backport: false,
+          defaultBranch: 'main',
+          interactive: false,
+          port: 3000,
+          formatter: 'prettier',
+          bump: undefined,
+          version: undefined,
+          preid: undefined,
+          propagate: false,
+          versioningStrategy: 'independent',
+          dryRun: false,
+          releaseSpec: undefined,
+          applyPlan: undefined,
+          writePlan: undefined,
+          releaseNotes: undefined,
+          allowChangelogIssues: false,
+          fetch: true,
+          remote: undefined,
+          from: undefined,
+          push: false,
+          openPr: false,
+          prLabel: ['release'],
+          output: 'text',
+          ref: 'HEAD',
+        });
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: undefined,
+        GITHUB_TOKEN: undefined,
+        GITHUB_API_URL: undefined,
+      });
+      when(jest.spyOn(projectModule, 'readProject'))
+        .calledWith('/path/to/project', {
+          stderr,
+          fetchTags: true,
+          remote: null,
+        })
+        .mockResolvedValue(project);
+
+      const initialParameters = await determineReleaseParameters({
+        argv: ['arg1', 'arg2'],
+        cwd: '/path/to/somewhere',
+        stderr,
+      });
+
+      expect(initialParameters.versioningStrategy).toBe('independent');
+    });
+
+    it('returns initial parameters including dryRun: true, derived from a command-line argument of "--dry-run"', async () => {
+      const project = buildMockProject();
+      const stderr = createNoopWriteStream();
+      when(jest.spyOn(commandLineArgumentsModule, 'readCommandLineArguments'))
+        .calledWith(['arg1', 'arg2'])
+        .mockResolvedValue({
+          command: 'release',
+          projectDirectory: '/path/to/project',
+          tempDirectory: '/path/to/temp',
+          reset: false,
+          restartFrom: undefined,
+          backport: false,
+          defaultBranch: 'main',
+          interactive: false,
+          port: 3000,
+          formatter: 'prettier',
+          bump: undefined,
+          version: undefined,
+          preid: undefined,
+          propagate: false,
+          versioningStrategy: undefined,
+          dryRun: true,
+          releaseSpec: undefined,
+          applyPlan: undefined,
+          writePlan: undefined,
+          releaseNotes: undefined,
+          allowChangelogIssues: false,
+          fetch: true,
+          remote: undefined,
+          from: undefined,
+          push: false,
+          openPr: false,
+          prLabel: ['release'],
+          output: 'text',
+          ref: 'HEAD',
+        });
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: undefined,
+        GITHUB_TOKEN: undefined,
+        GITHUB_API_URL: undefined,
+      });
+      when(jest.spyOn(projectModule, 'readProject'))
+        .calledWith('/path/to/project', {
+          stderr,
+          fetchTags: true,
+          remote: null,
+        })
+        .mockResolvedValue(project);
+
+      const initialParameters = await determineReleaseParameters({
+        argv: ['arg1', 'arg2'],
+        cwd: '/path/to/somewhere',
+        stderr,
+      });
+
+      expect(initialParameters.dryRun).toBe(true);
+    });
+
+    it('returns initial parameters including propagate: true, derived from a command-line argument of "--propagate"', async () => {
+      const project = buildMockProject();
+      const stderr = createNoopWriteStream();
+      when(jest.spyOn(commandLineArgumentsModule, 'readCommandLineArguments'))
+        .calledWith(['arg1', 'arg2'])
+        .mockResolvedValue({
+          command: 'release',
+          projectDirectory: '/path/to/project',
+          tempDirectory: '/path/to/temp',
+          reset: false,
+          restartFrom: undefined,
+          backport: false,
+          defaultBranch: 'main',
+          interactive: false,
+          port: 3000,
+          formatter: 'prettier',
+          bump: undefined,
+          version: undefined,
+          preid: undefined,
+          propagate: true,
+          versioningStrategy: undefined,
+          dryRun: false,
+          releaseSpec: undefined,
+          applyPlan: undefined,
+          writePlan: undefined,
+          releaseNotes: undefined,
+          allowChangelogIssues: false,
+          fetch: true,
+          remote: undefined,
+          from: undefined,
+          push: false,
+          openPr: false,
+          prLabel: ['release'],
+          output: 'text',
+          ref: 'HEAD',
+        });
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: undefined,
+        GITHUB_TOKEN: undefined,
+        GITHUB_API_URL: undefined,
+      });
+      when(jest.spyOn(projectModule, 'readProject'))
+        .calledWith('/path/to/project', {
+          stderr,
+          fetchTags: true,
+          remote: null,
+        })
+        .mockResolvedValue(project);
+
+      const initialParameters = await determineReleaseParameters({
+        argv: ['arg1', 'arg2'],
+        cwd: '/path/to/somewhere',
+        stderr,
+      });
+
+      expect(initialParameters.propagate).toBe(true);
+    });
+
+    it('resolves the path given by "--release-spec" relative to the current working directory', async () => {
+      const project = buildMockProject();
+      const stderr = createNoopWriteStream();
+      when(jest.spyOn(commandLineArgumentsModule, 'readCommandLineArguments'))
+        .calledWith(['arg1', 'arg2'])
+        .mockResolvedValue({
+          command: 'release',
+          projectDirectory: '/path/to/project',
+          tempDirectory: '/path/to/temp',
+          reset: false,
+          restartFrom: undefined,
+          backport: false,
+          defaultBranch: 'main',
+          interactive: false,
+          port: 3000,
+          formatter: 'prettier',
+          bump: undefined,
+          version: undefined,
+          preid: undefined,
+          propagate: false,
+          versioningStrategy: undefined,
+          dryRun: false,
+          releaseSpec: 'release-spec.yml',
+          applyPlan: undefined,
+          writePlan: undefined,
+          releaseNotes: undefined,
+          allowChangelogIssues: false,
+          fetch: true,
+          remote: undefined,
+          from: undefined,
+          push: false,
+          openPr: false,
+          prLabel: ['release'],
+          output: 'text',
+          ref: 'HEAD',
+        });
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: undefined,
+        GITHUB_TOKEN: undefined,
+        GITHUB_API_URL: undefined,
+      });
+      when(jest.spyOn(projectModule, 'readProject'))
+        .calledWith('/path/to/project', {
+          stderr,
+          fetchTags: true,
+          remote: null,
+        })
+        .mockResolvedValue(project);
+
+      const initialParameters = await determineReleaseParameters({
+        argv: ['arg1', 'arg2'],
+        cwd: '/path/to/somewhere',
+        stderr,
+      });
+
+      expect(initialParameters.releaseSpecificationPath).toBe(
+        '/path/to/somewhere/release-spec.yml',
+      );
+    });
+
+    it('resolves the paths given by "--apply-plan" and "--write-plan" relative to the current working directory', async () => {
+      const project = buildMockProject();
+      const stderr = createNoopWriteStream();
+      when(jest.spyOn(commandLineArgumentsModule, 'readCommandLineArguments'))
+        .calledWith(['arg1', 'arg2'])
+        .mockResolvedValue({
+          command: 'release',
+          projectDirectory: '/path/to/project',
+          tempDirectory: '/path/to/temp',
+          reset: false,
+          restartFrom: undefined,
+          backport: false,
+          defaultBranch: 'main',
+          interactive: false,
+          port: 3000,
+          formatter: 'prettier',
+          bump: undefined,
+          version: undefined,
+          preid: undefined,
+          propagate: false,
+          versioningStrategy: undefined,
+          dryRun: false,
+          releaseSpec: undefined,
+          applyPlan: 'plan.json',
+          writePlan: 'new-plan.json',
+          releaseNotes: undefined,
+          allowChangelogIssues: false,
+          fetch: true,
+          remote: undefined,
+          from: undefined,
+          push: false,
+          openPr: false,
+          prLabel: ['release'],
+          output: 'text',
+          ref: 'HEAD',
+        });
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: undefined,
+        GITHUB_TOKEN: undefined,
+        GITHUB_API_URL: undefined,
+      });
+      when(jest.spyOn(projectModule, 'readProject'))
+        .calledWith('/path/to/project', {
+          stderr,
+          fetchTags: true,
+          remote: null,
+        })
+        .mockResolvedValue(project);
+
+      const initialParameters = await determineReleaseParameters({
+        argv: ['arg1', 'arg2'],
+        cwd: '/path/to/somewhere',
+        stderr,
+      });
+
+      expect(initialParameters.releasePlanPath).toBe(
+        '/path/to/somewhere/plan.json',
+      );
+      expect(initialParameters.releasePlanOutputPath).toBe(
+        '/path/to/somewhere/new-plan.json',
+      );
+    });
+
+    it('resolves the path given by "--release-notes" relative to the current working directory', async () => {
+      const project = buildMockProject();
+      const stderr = createNoopWriteStream();
+      when(jest.spyOn(commandLineArgumentsModule, 'readCommandLineArguments'))
+        .calledWith(['arg1', 'arg2'])
+        .mockResolvedValue({
+          command: 'release',
+          projectDirectory: '/path/to/project',
+          tempDirectory: '/path/to/temp',
+          reset: false,
+          restartFrom: undefined,
+          backport: false,
+          defaultBranch: 'main',
+          interactive: false,
+          port: 3000,
+          formatter: 'prettier',
+          bump: undefined,
+          version: undefined,
+          preid: undefined,
+          propagate: false,
+          versioningStrategy: undefined,
+          dryRun: false,
+          releaseSpec: undefined,
+          applyPlan: undefined,
+          writePlan: undefined,
+          releaseNotes: 'RELEASE_NOTES.md',
+          allowChangelogIssues: false,
+          fetch: true,
+          remote: undefined,
+          from: undefined,
+          push: false,
+          openPr: false,
+          prLabel: ['release'],
+          output: 'text',
+          ref: 'HEAD',
+        });
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: undefined,
+        GITHUB_TOKEN: undefined,
+        GITHUB_API_URL: undefined,
+      });
+      when(jest.spyOn(projectModule, 'readProject'))
+        .calledWith('/path/to/project', {
+          stderr,
+          fetchTags: true,
+          remote: null,
+        })
+        .mockResolvedValue(project);
+
+      const initialParameters = await determineReleaseParameters({
+        argv: ['arg1', 'arg2'],
+        cwd: '/path/to/somewhere',
+        stderr,
+      });
+
+      expect(initialParameters.releaseNotesPath).toBe(
+        '/path/to/somewhere/RELEASE_NOTES.md',
+      );
+    });
+
+    it('returns initial parameters including a releaseNotesPath of "-", derived from a command-line argument of "--release-notes -"', async () => {
+      const project = buildMockProject();
+      const stderr = createNoopWriteStream();
+      when(jest.spyOn(commandLineArgumentsModule, 'readCommandLineArguments'))
+        .calledWith(['arg1', 'arg2'])
+        .mockResolvedValue({
+          command: 'release',
+          projectDirectory: '/path/to/project',
+          tempDirectory: '/path/to/temp',
+          reset: false,
+          restartFrom: undefined,
+          backport: false,
+          defaultBranch: 'main',
+          interactive: false,
+          port: 3000,
+          formatter: 'prettier',
+          bump: undefined,
+          version: undefined,
+          preid: undefined,
+          propagate: false,
+          versioningStrategy: undefined,
+          dryRun: false,
+          releaseSpec: undefined,
+          applyPlan: undefined,
+          writePlan: undefined,
+          releaseNotes: '-',
+          allowChangelogIssues: false,
+          fetch: true,
+          remote: undefined,
+          from: undefined,
+          push: false,
+          openPr: false,
+          prLabel: ['release'],
+          output: 'text',
+          ref: 'HEAD',
+        });
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: undefined,
+        GITHUB_TOKEN: undefined,
+        GITHUB_API_URL: undefined,
+      });
+      when(jest.spyOn(projectModule, 'readProject'))
+        .calledWith('/path/to/project', {
+          stderr,
+          fetchTags: true,
+          remote: null,
+        })
+        .mockResolvedValue(project);
+
+      const initialParameters = await determineReleaseParameters({
+        argv: ['arg1', 'arg2'],
+        cwd: '/path/to/somewhere',
+        stderr,
+      });
+
+      expect(initialParameters.releaseNotesPath).toBe('-');
+    });
+
+    it('returns initial parameters including a releaseSpecificationPath of "-", derived from a command-line argument of "--release-spec -"', async () => {
+      const project = buildMockProject();
+      const stderr = createNoopWriteStream();
+      when(jest.spyOn(commandLineArgumentsModule, 'readCommandLineArguments'))
+        .calledWith(['arg1', 'arg2'])
+        .mockResolvedValue({
+          command: 'release',
+          projectDirectory: '/path/to/project',
+          tempDirectory: '/path/to/temp',
+          reset: false,
+          restartFrom: undefined,
+          backport: false,
+          defaultBranch: 'main',
+          interactive: false,
+          port: 3000,
+          formatter: 'prettier',
+          bump: undefined,
+          version: undefined,
+          preid: undefined,
+          propagate: false,
+          versioningStrategy: undefined,
+          dryRun: false,
+          releaseSpec: '-',
+          applyPlan: undefined,
+          writePlan: undefined,
+          releaseNotes: undefined,
+          allowChangelogIssues: false,
+          fetch: true,
+          remote: undefined,
+          from: undefined,
+          push: false,
+          openPr: false,
+          prLabel: ['release'],
+          output: 'text',
+          ref: 'HEAD',
+        });
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: undefined,
+        GITHUB_TOKEN: undefined,
+        GITHUB_API_URL: undefined,
+      });
+      when(jest.spyOn(projectModule, 'readProject'))
+        .calledWith('/path/to/project', {
+          stderr,
+          fetchTags: true,
+          remote: null,
+        })
+        .mockResolvedValue(project);
+
+      const initialParameters = await determineReleaseParameters({
+        argv: ['arg1', 'arg2'],
+        cwd: '/path/to/somewhere',
+        stderr,
+      });
+
+      expect(initialParameters.releaseSpecificationPath).toBe('-');
+    });
+
+    it('returns initial parameters including a baseRef, derived from a command-line argument of "--from"', async () => {
+      const project = buildMockProject();
+      const stderr = createNoopWriteStream();
+      when(jest.spyOn(commandLineArgumentsModule, 'readCommandLineArguments'))
+        .calledWith(['arg1', 'arg2'])
+        .mockResolvedValue({
+          command: 'release',
+          projectDirectory: '/path/to/project',
+          tempDirectory: '/path/to/temp',
+          reset: false,
+          restartFrom: undefined,
+          backport: false,
+          defaultBranch: 'main',
+          interactive: false,
+          port: 3000,
+          formatter: 'prettier',
+          bump: undefined,
+          version: undefined,
+          preid: undefined,
+          propagate: false,
+          versioningStrategy: undefined,
+          dryRun: false,
+          releaseSpec: undefined,
+          applyPlan: undefined,
+          writePlan: undefined,
+          releaseNotes: undefined,
+          allowChangelogIssues: false,
+          fetch: true,
+          remote: undefined,
+          from: 'origin/main',
+          push: false,
+          openPr: false,
+          prLabel: ['release'],
+          output: 'text',
+          ref: 'HEAD',
+        });
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: undefined,
+        GITHUB_TOKEN: undefined,
+        GITHUB_API_URL: undefined,
+      });
+      when(jest.spyOn(projectModule, 'readProject'))
+        .calledWith('/path/to/project', {
+          stderr,
+          fetchTags: true,
+          remote: null,
+        })
+        .mockResolvedValue(project);
+
+      const initialParameters = await determineReleaseParameters({
+        argv: ['arg1', 'arg2'],
+        cwd: '/path/to/somewhere',
+        stderr,
+      });
+
+      expect(initialParameters.baseRef).toBe('origin/main');
+    });
+
+    it('returns initial parameters including an outputFormat of "json", derived from a command-line argument of "--output json"', async () => {
+      const project = buildMockProject();
+      const stderr = createNoopWriteStream();
+      when(jest.spyOn(commandLineArgumentsModule, 'readCommandLineArguments'))
+        .calledWith(['arg1', 'arg2'])
+        .mockResolvedValue({
+          command: 'release',
+          projectDirectory: '/path/to/project',
+          tempDirectory: '/path/to/temp',
+          reset: false,
+          restartFrom: undefined,
+          backport: false,
+          defaultBranch: 'main',
+          interactive: false,
+          port: 3000,
+          formatter: 'prettier',
+          bump: undefined,
+          version: undefined,
+          preid: undefined,
+          propagate: false,
+          versioningStrategy: undefined,
+          dryRun: false,
+          releaseSpec: undefined,
+          applyPlan: undefined,
+          writePlan: undefined,
+          releaseNotes: undefined,
+          allowChangelogIssues: false,
+          fetch: true,
+          remote: undefined,
+          from: undefined,
+          push: false,
+          openPr: false,
+          prLabel: ['release'],
+          output: 'json',
+          ref: 'HEAD',
+        });
+      jest.spyOn(envModule, 'getEnvironmentVariables').mockReturnValue({
+        EDITOR: undefined,
+        GITHUB_TOKEN: undefined,
+        GITHUB_API_URL: undefined,
+      });
+      when(jest.spyOn(projectModule, 'readProject'))
+        .calledWith('/path/to/project', {
+          stderr,
+          fetchTags: true,
+          remote: null,
+        })
+        .mockResolvedValue(project);
+
+      const initialParameters = await determineReleaseParameters({
+        argv: ['arg1', 'arg2'],
+        cwd: '/path/to/somewhere',
+        stderr,
+      });
+
+      expect(initialParameters.outputFormat).toBe('json');
+    });
   });
 });
@@ -3,6 +3,14 @@ import path from 'path';
 import { readCommandLineArguments } from './command-line-arguments.js';
 import { WriteStreamLike } from './fs.js';
 import { readProject, Project } from './project.js';
+import {
+  IncrementableVersionParts,
+  STDIN_RELEASE_SPECIFICATION_PATH,
+  VersionSpecifier,
+} from './release-specification.js';
+import { isValidSemver, SemVer } from './semver.js';
+import { STDOUT_RELEASE_NOTES_PATH } from './release-notes.js';
+import { WorkflowStep } from './workflow-state.js';
 
 /**
  * The type of release being created as determined by the parent release.
@@ -15,22 +23,181 @@ import { readProject, Project } from './project.js';
  */
 export type ReleaseType = 'ordinary' | 'backport';
 
+/**
+ * The strategy used to version the workspace packages within a monorepo.
+ *
+ * - With an *independent* strategy, each workspace package has its own
+ * version, and the root package is versioned as "ORDINARY.BACKPORT.0" (see
+ * {@link ReleaseType}).
+ * - With a *fixed* strategy, the root package and every workspace package that
+ * is released share the same version.
+ */
+export type VersioningStrategy = 'independent' | 'fixed';
+
 /**
  * The name of the formatter to use for formatting the changelog.
  */
 export type Formatter = 'oxfmt' | 'prettier';
 
-type InitialParameters = {
+/**
+ * The format in which this tool reports its progress.
+ *
+ * - With *text*, the tool prints human-readable messages.
+ * - With *json*, the tool prints a line of JSON for each event that occurs
+ * (see `WorkflowEvent`).
+ */
+export type OutputFormat = 'text' | 'json';
+
+export type InitialParameters = {
+  command: 'release';
   project: Project;
   tempDirectoryPath: string;
   reset: boolean;
+  restartFrom: WorkflowStep | null;
   releaseType: ReleaseType;
   defaultBranch: string;
+  baseRef: string | null;
+  remote: string | null;
+  push: boolean;
+  openPullRequest: boolean;
+  pullRequestLabels: string[];
   interactive: boolean;
   port: number;
   formatter: Formatter;
+  versionSpecifier: VersionSpecifier | null;
+  prereleaseIdentifier: string | null;
+  propagate: boolean;
+  versioningStrategy: VersioningStrategy;
+  dryRun: boolean;
+  releaseSpecificationPath: string | null;
+  releasePlanPath: string | null;
+  releasePlanOutputPath: string | null;
+  releaseNotesPath: string | null;
+  allowChangelogIssues: boolean;
+  outputFormat: OutputFormat;
 };
 
+/**
+ * The inputs to the "tag" command, which creates the tags for a release once
+ * it has been merged. The project is not read up front, as its packages cannot
+ * be read until their releases are tagged.
+ *
+ * @property projectDirectoryPath - The path to the project directory.
+ * @property revision - The commit to tag.
+ * @property dryRun - Whether to print the tags instead of creating them.
+ * @property outputFormat - The format in which to report the tags.
+ */
+export type TagParameters = {
+  command: 'tag';
+  projectDirectoryPath: string;
+  revision: string;
+  dryRun: boolean;
+  outputFormat: OutputFormat;
+};
+
+/**
+ * Converts the `--bump` or `--version` option given on the command line into a
+ * version specifier for the polyrepo workflow.
+ *
+ * @param args - The arguments to this function.
+ * @param args.bump - The part of the version to bump, if given.
+ * @param args.version - The exact version to release, if given.
+ * @returns The version specifier, or null if neither option was given.
+ * @throws If the given version is not a valid SemVer version string.
+ */
+function readVersionSpecifier({
+  bump,
+  version,
+}: {
+  bump: string | undefined;
+  version: string | undefined;
+}): VersionSpecifier | null {
+  if (version !== undefined) {
+    if (!isValidSemver(version)) {
+      throw new Error(
+        `The value of --version, ${JSON.stringify(
+          version,
+        )}, is not a valid version string with major, minor, and patch parts, such as "1.2.3".`,
+      );
+    }
+
+    return new SemVer(version);
+  }
+
+  if (bump !== undefined) {
+    return bump as IncrementableVersionParts;
+  }
+
+  return null;
+}
+
+/**
+ * Validates the `--preid` option given on the command line.
+ *
+ * @param preid - The identifier to use for prerelease versions, if given.
+ * @returns The prerelease identifier, or null if none was given.
+ * @throws If the given identifier cannot be used in a version string.
+ */
+function readPrereleaseIdentifier(preid: string | undefined): string | null {
+  if (preid === undefined) {
+    return null;
+  }
+
+  if (!/^[0-9A-Za-z-]+$/u.test(preid)) {
+    throw new Error(
+      `The value of --preid, ${JSON.stringify(
+        preid,
+      )}, is not a valid prerelease identifier. It may only contain letters, numbers, and hyphens, such as "rc".`,
+    );
+  }
+
+  return preid;
+}
+
+/**
+ * Resolves the `--release-notes` option given on the command line.
+ *
+ * @param cwd - The directory in which this executable was run.
+ * @param releaseNotes - The path to which to write the release notes, or "-"
+ * to print them, if given.
+ * @returns The absolute path to the release notes, "-" for standard out, or
+ * null if the release notes were not requested.
+ */
+function resolveReleaseNotesPath(
+  cwd: string,
+  releaseNotes: string | undefined,
+): string | null {
+  if (releaseNotes === undefined) {
+    return null;
+  }
+
+  return releaseNotes === STDOUT_RELEASE_NOTES_PATH
+    ? releaseNotes
+    : path.resolve(cwd, releaseNotes);
+}
+
+/**
+ * Resolves the `--release-spec` option given on the command line.
+ *
+ * @param cwd - The directory in which this executable was run.
+ * @param releaseSpec - The path to the release spec, or "-" to read the release
+ * spec from standard input, if given.
+ * @returns The absolute path to the release spec, "-" for standard input, or
+ * null if no release spec was given.
+ */
+function resolveReleaseSpecificationPath(
+  cwd: string,
+  releaseSpec: string | undefined,
+): string | null {
+  if (releaseSpec === undefined) {
+    return null;
+  }
+
+  return releaseSpec === STDIN_RELEASE_SPECIFICATION_PATH
+    ? releaseSpec
+    : path.resolve(cwd, releaseSpec);
+}
+
 /**
  * Reads the inputs given to this tool via `process.argv` and uses them to
  * gather information about the project the tool can use to run.
@@ -39,7 +206,8 @@ type InitialParameters = {
  * @param args.argv - The arguments to this executable.
  * @param args.cwd - The directory in which this executable was run.
  * @param args.stderr - A stream that can be used to write to standard error.
- * @returns The initial parameters.
+ * @returns The initial parameters, or the parameters for the "tag" command if
+ * that command was given.
  */
 export async function determineInitialParameters({
   argv,
@@ -49,11 +217,27 @@ export async function determineInitialParameters({
   argv: string[];
   cwd: string;
   stderr: WriteStreamLike;
-}): Promise<InitialParameters> {
+}): Promise<InitialParameters | TagParameters> {
   const args = await readCommandLineArguments(argv);
-
   const projectDirectoryPath = path.resolve(cwd, args.projectDirectory);
-  const project = await readProject(projectDirectoryPath, { stderr });
+
+  if (args.command === 'tag') {
+    return {
+      command: 'tag',
+      projectDirectoryPath,
+      revision: args.ref,
+      dryRun: args.dryRun,
+      outputFormat: args.output as OutputFormat,
+    };
+  }
+
+  const versionSpecifier = readVersionSpecifier(args);
+  const prereleaseIdentifier = readPrereleaseIdentifier(args.preid);
+  const project = await readProject(projectDirectoryPath, {
+    stderr,
+    fetchTags: args.fetch,
+    remote: args.remote ?? null,
+  });
   const tempDirectoryPath =
     args.tempDirectory === undefined
       ? path.join(
@@ -64,13 +248,39 @@ export async function determineInitialParameters({
       : path.resolve(cwd, args.tempDirectory);
 
   return {
+    command: 'release',
     project,
     tempDirectoryPath,
     reset: args.reset,
+    restartFrom: (args.restartFrom as WorkflowStep | undefined) ?? null,
     defaultBranch: args.defaultBranch,
+    baseRef: args.from ?? null,
+    remote: args.remote ?? null,
+    // A pull request can only be opened for a branch which has been pushed.
+    push: args.push || args.openPr,
+    openPullRequest: args.openPr,
+    pullRequestLabels: args.prLabel,
     releaseType: args.backport ? 'backport' : 'ordinary',
     interactive: args.interactive,
     port: args.port,
     formatter: args.formatter as Formatter,
+    versionSpecifier,
+    prereleaseIdentifier,
+    propagate: args.propagate,
+    versioningStrategy:
+      (args.versioningStrategy as VersioningStrategy | undefined) ??
+      project.configuration.versioningStrategy,
+    dryRun: args.dryRun,
+    releaseSpecificationPath: resolveReleaseSpecificationPath(
+      cwd,
+      args.releaseSpec,
+    ),
+    releasePlanPath:
+      args.applyPlan === undefined ? null : path.resolve(cwd, args.applyPlan),
+    releasePlanOutputPath:
+      args.writePlan === undefined ? null : path.resolve(cwd, args.writePlan),
+    releaseNotesPath: resolveReleaseNotesPath(cwd, args.releaseNotes),
+    allowChangelogIssues: args.allowChangelogIssues,
+    outputFormat: args.output as OutputFormat,
   };
 }
@@ -1,12 +1,21 @@
 import fs from 'fs';
+import { Readable } from 'stream';
+import { MockWritable } from 'stdio-mock';
 import { buildMockProject } from '../tests/unit/helpers.js';
 import { main } from './main.js';
+import * as forgeClientModule from './forge-client.js';
 import * as initialParametersModule from './initial-parameters.js';
 import * as monorepoWorkflowOperations from './monorepo-workflow-operations.js';
+import * as polyrepoWorkflowOperations from './polyrepo-workflow-operations.js';
+import * as tagWorkflowOperations from './tag-workflow-operations.js';
 import * as ui from './ui.js';
+import { IncrementableVersionParts } from './release-specification.js';
 
+jest.mock('./forge-client');
 jest.mock('./initial-parameters');
 jest.mock('./monorepo-workflow-operations');
+jest.mock('./polyrepo-workflow-operations');
+jest.mock('./tag-workflow-operations');
 jest.mock('./ui');
 jest.mock('./dirname', () => ({
   getCurrentDirectoryPath: jest.fn().mockReturnValue('/path/to/somewhere'),
@@ -20,19 +29,38 @@ jest.mock('open', () => ({
 describe('main', () => {
   it('executes the CLI monorepo workflow if the project is a monorepo and interactive is false', async () => {
     const project = buildMockProject({ isMonorepo: true });
+    const stdin = Readable.from([]);
     const stdout = fs.createWriteStream('/dev/null');
     const stderr = fs.createWriteStream('/dev/null');
     jest
       .spyOn(initialParametersModule, 'determineInitialParameters')
       .mockResolvedValue({
+        command: 'release',
         project,
         tempDirectoryPath: '/path/to/temp/directory',
         reset: true,
+        restartFrom: null,
         defaultBranch: 'main',
+        baseRef: null,
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
         releaseType: 'backport',
         interactive: false,
         port: 3000,
         formatter: 'prettier',
+        versionSpecifier: null,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: false,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
       });
     const followMonorepoWorkflowSpy = jest
       .spyOn(monorepoWorkflowOperations, 'followMonorepoWorkflow')
@@ -41,6 +69,7 @@ describe('main', () => {
     await main({
       argv: [],
       cwd: '/path/to/somewhere',
+      stdin,
       stdout,
       stderr,
     });
@@ -48,36 +77,519 @@ describe('main', () => {
     expect(followMonorepoWorkflowSpy).toHaveBeenCalledWith({
       project,
       tempDirectoryPath: '/path/to/temp/directory',
+      providedReleaseSpecificationPath: null,
+      releasePlanPath: null,
+      releasePlanOutputPath: null,
+      releaseNotesPath: null,
+      allowChangelogIssues: false,
       firstRemovingExistingReleaseSpecification: true,
+      restartFrom: null,
       releaseType: 'backport',
       defaultBranch: 'main',
+      baseRef: null,
+      versioningStrategy: 'independent',
+      prereleaseIdentifier: null,
+      propagate: false,
+      dryRun: false,
+      push: false,
+      remote: null,
+      forgeClient: null,
+      pullRequestLabels: ['release'],
       formatter: 'prettier',
+      stdin,
       stdout,
       stderr,
+      reportEvent: expect.any(Function),
     });
   });
 
+  it('executes the tag workflow instead of preparing a release if the "tag" command was given', async () => {
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'tag',
+        projectDirectoryPath: '/path/to/project',
+        revision: 'HEAD',
+        dryRun: true,
+        outputFormat: 'text',
+      });
+    const followTagWorkflowSpy = jest
+      .spyOn(tagWorkflowOperations, 'followTagWorkflow')
+      .mockResolvedValue();
+    const followMonorepoWorkflowSpy = jest.spyOn(
+      monorepoWorkflowOperations,
+      'followMonorepoWorkflow',
+    );
+
+    await main({
+      argv: [],
+      cwd: '/path/to/somewhere',
+      stdin,
+      stdout,
+      stderr,
+    });
+
+    expect(followTagWorkflowSpy).toHaveBeenCalledWith({
+      projectDirectoryPath: '/path/to/project',
+      revision: 'HEAD',
+      dryRun: true,
+      stdout,
+      reportEvent: expect.any(Function),
+    });
+    expect(followMonorepoWorkflowSpy).not.toHaveBeenCalled();
+  });
+
+  it('reports the tags as lines of JSON on stdout for the "tag" command, if outputFormat is "json"', async () => {
+    const stdin = Readable.from([]);
+    const stdout = new MockWritable();
+    const stderr = new MockWritable();
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'tag',
+        projectDirectoryPath: '/path/to/project',
+        revision: 'HEAD',
+        dryRun: false,
+        outputFormat: 'json',
+      });
+    jest
+      .spyOn(tagWorkflowOperations, 'followTagWorkflow')
+      .mockImplementation(async (args) => {
+        args.reportEvent?.({ type: 'tagSkipped', tagName: 'v2.0.0' });
+        args.reportEvent?.({
+          type: 'tagCreated',
+          tagName: 'a@1.1.0',
+          revision: 'HEAD',
+        });
+        args.stdout.write(
+          'Skipping v2.0.0, as it already exists.\nCreated a@1.1.0.\n',
+        );
+      });
+
+    await main({
+      argv: [],
+      cwd: '/path/to/somewhere',
+      stdin,
+      stdout,
+      stderr,
+    });
+
+    expect(stdout.data()).toStrictEqual([
+      `${JSON.stringify({ type: 'tagSkipped', tagName: 'v2.0.0' })}\n`,
+      `${JSON.stringify({
+        type: 'tagCreated',
+        tagName: 'a@1.1.0',
+        revision: 'HEAD',
+      })}\n`,
+      `${JSON.stringify({
+        type: 'message',
+        message: 'Skipping v2.0.0, as it already exists.\nCreated a@1.1.0.',
+      })}\n`,
+    ]);
+  });
+
+  it('reports a failure of the "tag" command as a line of JSON on stdout before rethrowing the error, if outputFormat is "json"', async () => {
+    const stdin = Readable.from([]);
+    const stdout = new MockWritable();
+    const stderr = new MockWritable();
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'tag',
+        projectDirectoryPath: '/path/to/project',
+        revision: 'HEAD',
+        dryRun: false,
+        outputFormat: 'json',
+      });
+    jest
+      .spyOn(tagWorkflowOperations, 'followTagWorkflow')
+      .mockRejectedValue(new Error('oops'));
+
+    await expect(
+      main({
+        argv: [],
+        cwd: '/path/to/somewhere',
+        stdin,
+        stdout,
+        stderr,
+      }),
+    ).rejects.toThrow('oops');
+    expect(stdout.data()).toStrictEqual([
+      `${JSON.stringify({ type: 'failed', message: 'oops' })}\n`,
+    ]);
+  });
+
+  it('passes a fixed versioning strategy on to the CLI monorepo workflow', async () => {
+    const project = buildMockProject({ isMonorepo: true });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: null,
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'ordinary',
+        interactive: false,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: null,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'fixed',
+        dryRun: false,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
+      });
+    const followMonorepoWorkflowSpy = jest
+      .spyOn(monorepoWorkflowOperations, 'followMonorepoWorkflow')
+      .mockResolvedValue();
+
+    await main({
+      argv: [],
+      cwd: '/path/to/somewhere',
+      stdin,
+      stdout,
+      stderr,
+    });
+
+    expect(followMonorepoWorkflowSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ versioningStrategy: 'fixed' }),
+    );
+  });
+
+  it('passes a base ref on to the CLI monorepo workflow', async () => {
+    const project = buildMockProject({ isMonorepo: true });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: 'origin/main',
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'ordinary',
+        interactive: false,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: null,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: false,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
+      });
+    const followMonorepoWorkflowSpy = jest
+      .spyOn(monorepoWorkflowOperations, 'followMonorepoWorkflow')
+      .mockResolvedValue();
+
+    await main({
+      argv: [],
+      cwd: '/path/to/somewhere',
+      stdin,
+      stdout,
+      stderr,
+    });
+
+    expect(followMonorepoWorkflowSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ baseRef: 'origin/main' }),
+    );
+  });
+
+  it('passes the options for pushing the release branch and opening a pull request on to the CLI monorepo workflow', async () => {
+    const project = buildMockProject({ isMonorepo: true });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: null,
+        remote: 'upstream',
+        push: true,
+        openPullRequest: true,
+        pullRequestLabels: ['release', 'team-a'],
+        releaseType: 'ordinary',
+        interactive: false,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: null,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: false,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
+      });
+    const forgeClient = { openPullRequest: jest.fn() };
+    jest
+      .spyOn(forgeClientModule, 'determineForgeClient')
+      .mockReturnValue(forgeClient);
+    const followMonorepoWorkflowSpy = jest
+      .spyOn(monorepoWorkflowOperations, 'followMonorepoWorkflow')
+      .mockResolvedValue();
+
+    await main({
+      argv: [],
+      cwd: '/path/to/somewhere',
+      stdin,
+      stdout,
+      stderr,
+    });
+
+    expect(followMonorepoWorkflowSpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        push: true,
+        remote: 'upstream',
+        forgeClient,
+        pullRequestLabels: ['release', 'team-a'],
+      }),
+    );
+  });
+
+  it('throws if a pull request is to be opened but no GitHub token is available', async () => {
+    const project = buildMockProject({ isMonorepo: true });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: null,
+        remote: null,
+        push: true,
+        openPullRequest: true,
+        pullRequestLabels: ['release', 'team-a'],
+        releaseType: 'ordinary',
+        interactive: false,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: null,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: false,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
+      });
+    jest.spyOn(forgeClientModule, 'determineForgeClient').mockReturnValue(null);
+    const followMonorepoWorkflowSpy = jest
+      .spyOn(monorepoWorkflowOperations, 'followMonorepoWorkflow')
+      .mockResolvedValue();
+
+    await expect(
+      main({
+        argv: [],
+        cwd: '/path/to/somewhere',
+        stdin,
+        stdout,
+        stderr,
+      }),
+    ).rejects.toThrow(
+      'Cannot open a pull request, as the GITHUB_TOKEN environment variable is not set. Please set it to a token which can open pull requests in the repository, or re-run this tool without `--open-pr`.',
+    );
+    expect(followMonorepoWorkflowSpy).not.toHaveBeenCalled();
+  });
+
+  it('does not look for a GitHub token if no pull request is to be opened', async () => {
+    const project = buildMockProject({ isMonorepo: true });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: null,
+        remote: null,
+        push: true,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'ordinary',
+        interactive: false,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: null,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: false,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
+      });
+    const determineForgeClientSpy = jest.spyOn(
+      forgeClientModule,
+      'determineForgeClient',
+    );
+    const followMonorepoWorkflowSpy = jest
+      .spyOn(monorepoWorkflowOperations, 'followMonorepoWorkflow')
+      .mockResolvedValue();
+
+    await main({
+      argv: [],
+      cwd: '/path/to/somewhere',
+      stdin,
+      stdout,
+      stderr,
+    });
+
+    expect(determineForgeClientSpy).not.toHaveBeenCalled();
+    expect(followMonorepoWorkflowSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ push: true, forgeClient: null }),
+    );
+  });
+
+  it('throws if the project is a monorepo that uses fixed versions and interactive is true', async () => {
+    const project = buildMockProject({ isMonorepo: true });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: null,
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'ordinary',
+        interactive: true,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: null,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'fixed',
+        dryRun: false,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
+      });
+    const startUISpy = jest.spyOn(ui, 'startUI').mockResolvedValue();
+
+    await expect(
+      main({
+        argv: [],
+        cwd: '/path/to/somewhere',
+        stdin,
+        stdout,
+        stderr,
+      }),
+    ).rejects.toThrow(
+      'The interactive UI does not support monorepos that use fixed versions. Please re-run this tool without `--interactive`.',
+    );
+    expect(startUISpy).not.toHaveBeenCalled();
+  });
+
   it('executes the interactive UI monorepo workflow if the project is a monorepo and interactive is true', async () => {
     const project = buildMockProject({ isMonorepo: true });
+    const stdin = Readable.from([]);
     const stdout = fs.createWriteStream('/dev/null');
     const stderr = fs.createWriteStream('/dev/null');
     jest
       .spyOn(initialParametersModule, 'determineInitialParameters')
       .mockResolvedValue({
+        command: 'release',
         project,
         tempDirectoryPath: '/path/to/temp/directory',
         reset: true,
+        restartFrom: null,
         defaultBranch: 'main',
+        baseRef: null,
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
         releaseType: 'backport',
         interactive: true,
         port: 3000,
         formatter: 'prettier',
+        versionSpecifier: null,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: false,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
       });
     const startUISpy = jest.spyOn(ui, 'startUI').mockResolvedValue();
 
     await main({
       argv: [],
       cwd: '/path/to/somewhere',
+      stdin,
       stdout,
       stderr,
     });
@@ -88,6 +600,8 @@ describe('main', () => {
       defaultBranch: 'main',
       port: 3000,
       formatter: 'prettier',
+      prereleaseIdentifier: null,
+      propagate: false,
       stdout,
       stderr,
     });
@@ -95,31 +609,1961 @@ describe('main', () => {
 
   it('executes the polyrepo workflow if the project is within a polyrepo', async () => {
     const project = buildMockProject({ isMonorepo: false });
+    const stdin = Readable.from([]);
     const stdout = fs.createWriteStream('/dev/null');
     const stderr = fs.createWriteStream('/dev/null');
     jest
       .spyOn(initialParametersModule, 'determineInitialParameters')
       .mockResolvedValue({
+        command: 'release',
         project,
         tempDirectoryPath: '/path/to/temp/directory',
         reset: false,
+        restartFrom: null,
         defaultBranch: 'main',
-        releaseType: 'backport',
+        baseRef: null,
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'ordinary',
+        interactive: false,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: IncrementableVersionParts.preminor,
+        prereleaseIdentifier: 'rc',
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: false,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
+      });
+    const followMonorepoWorkflowSpy = jest
+      .spyOn(monorepoWorkflowOperations, 'followMonorepoWorkflow')
+      .mockResolvedValue();
+    const followPolyrepoWorkflowSpy = jest
+      .spyOn(polyrepoWorkflowOperations, 'followPolyrepoWorkflow')
+      .mockResolvedValue();
+
+    await main({
+      argv: [],
+      cwd: '/path/to/somewhere',
+      stdin,
+      stdout,
+      stderr,
+    });
+
+    expect(followMonorepoWorkflowSpy).not.toHaveBeenCalled();
+    expect(followPolyrepoWorkflowSpy).toHaveBeenCalledWith({
+      project,
+      versionSpecifier: IncrementableVersionParts.preminor,
+      prereleaseIdentifier: 'rc',
+      baseRef: null,
+      dryRun: false,
+      defaultBranch: 'main',
+      push: false,
+      remote: null,
+      forgeClient: null,
+      pullRequestLabels: ['release'],
+      formatter: 'prettier',
+      stdout,
+      stderr,
+      reportEvent: expect.any(Function),
+    });
+  });
+
+  it('passes a base ref on to the polyrepo workflow', async () => {
+    const project = buildMockProject({ isMonorepo: false });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: 'origin/main',
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'ordinary',
         interactive: false,
         port: 3000,
         formatter: 'prettier',
+        versionSpecifier: IncrementableVersionParts.preminor,
+        prereleaseIdentifier: 'rc',
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: false,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
       });
     const followMonorepoWorkflowSpy = jest
       .spyOn(monorepoWorkflowOperations, 'followMonorepoWorkflow')
       .mockResolvedValue();
+    const followPolyrepoWorkflowSpy = jest
+      .spyOn(polyrepoWorkflowOperations, 'followPolyrepoWorkflow')
+      .mockResolvedValue();
 
     await main({
       argv: [],
       cwd: '/path/to/somewhere',
+      stdin,
       stdout,
       stderr,
     });
 
     expect(followMonorepoWorkflowSpy).not.toHaveBeenCalled();
+    expect(followPolyrepoWorkflowSpy).toHaveBeenCalledWith({
+      project,
+      versionSpecifier: IncrementableVersionParts.preminor,
+      prereleaseIdentifier: 'rc',
+      baseRef: 'origin/main',
+      dryRun: false,
+      defaultBranch: 'main',
+      push: false,
+      remote: null,
+      forgeClient: null,
+      pullRequestLabels: ['release'],
+      formatter: 'prettier',
+      stdout,
+      stderr,
+      reportEvent: expect.any(Function),
+    });
+  });
+
+  it('passes the options for pushing the release branch and opening a pull request on to the polyrepo workflow', async () => {
+    const project = buildMockProject({ isMonorepo: false });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'develop',
+        baseRef: null,
+        remote: null,
+        push: true,
+        openPullRequest: true,
+        pullRequestLabels: ['release', 'team-a'],
+        releaseType: 'ordinary',
+        interactive: false,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: IncrementableVersionParts.major,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: false,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
+      });
+    const forgeClient = { openPullRequest: jest.fn() };
+    jest
+      .spyOn(forgeClientModule, 'determineForgeClient')
+      .mockReturnValue(forgeClient);
+    const followPolyrepoWorkflowSpy = jest
+      .spyOn(polyrepoWorkflowOperations, 'followPolyrepoWorkflow')
+      .mockResolvedValue();
+
+    await main({
+      argv: [],
+      cwd: '/path/to/somewhere',
+      stdin,
+      stdout,
+      stderr,
+    });
+
+    expect(followPolyrepoWorkflowSpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        defaultBranch: 'develop',
+        push: true,
+        forgeClient,
+        pullRequestLabels: ['release', 'team-a'],
+      }),
+    );
+  });
+
+  it('throws if the project is a monorepo, interactive is true, and dryRun is true', async () => {
+    const project = buildMockProject({ isMonorepo: true });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: null,
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'ordinary',
+        interactive: true,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: null,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: true,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
+      });
+    const startUISpy = jest.spyOn(ui, 'startUI').mockResolvedValue();
+
+    await expect(
+      main({
+        argv: [],
+        cwd: '/path/to/somewhere',
+        stdin,
+        stdout,
+        stderr,
+      }),
+    ).rejects.toThrow(
+      'The interactive UI does not support dry runs. Please re-run this tool without `--interactive`.',
+    );
+    expect(startUISpy).not.toHaveBeenCalled();
+  });
+
+  it('passes a provided release spec on to the CLI monorepo workflow', async () => {
+    const project = buildMockProject({ isMonorepo: true });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: null,
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'ordinary',
+        interactive: false,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: null,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: false,
+        releaseSpecificationPath: '-',
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
+      });
+    const followMonorepoWorkflowSpy = jest
+      .spyOn(monorepoWorkflowOperations, 'followMonorepoWorkflow')
+      .mockResolvedValue();
+
+    await main({
+      argv: [],
+      cwd: '/path/to/somewhere',
+      stdin,
+      stdout,
+      stderr,
+    });
+
+    expect(followMonorepoWorkflowSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ providedReleaseSpecificationPath: '-', stdin }),
+    );
+  });
+
+  it('throws if the project is a monorepo, interactive is true, and a release spec is provided', async () => {
+    const project = buildMockProject({ isMonorepo: true });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: null,
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'ordinary',
+        interactive: true,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: null,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: false,
+        releaseSpecificationPath: '/path/to/release-spec.yml',
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
+      });
+    const startUISpy = jest.spyOn(ui, 'startUI').mockResolvedValue();
+
+    await expect(
+      main({
+        argv: [],
+        cwd: '/path/to/somewhere',
+        stdin,
+        stdout,
+        stderr,
+      }),
+    ).rejects.toThrow(
+      'The interactive UI does not support `--release-spec`. Please re-run this tool without `--interactive`.',
+    );
+    expect(startUISpy).not.toHaveBeenCalled();
+  });
+
+  it('throws if the project is within a polyrepo and a release spec is provided', async () => {
+    const project = buildMockProject({ isMonorepo: false });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: null,
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'ordinary',
+        interactive: false,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: IncrementableVersionParts.minor,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: false,
+        releaseSpecificationPath: '/path/to/release-spec.yml',
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
+      });
+    const followPolyrepoWorkflowSpy = jest
+      .spyOn(polyrepoWorkflowOperations, 'followPolyrepoWorkflow')
+      .mockResolvedValue();
+
+    await expect(
+      main({
+        argv: [],
+        cwd: '/path/to/somewhere',
+        stdin,
+        stdout,
+        stderr,
+      }),
+    ).rejects.toThrow(
+      'A release spec is only used to release packages within a monorepo. To release a package within a polyrepo, use `--bump` or `--version` instead.',
+    );
+    expect(followPolyrepoWorkflowSpy).not.toHaveBeenCalled();
+  });
+
+  it('throws if the project is within a polyrepo and propagate is true', async () => {
+    const project = buildMockProject({ isMonorepo: false });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: null,
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'ordinary',
+        interactive: false,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: IncrementableVersionParts.major,
+        prereleaseIdentifier: null,
+        propagate: true,
+        versioningStrategy: 'independent',
+        dryRun: false,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
+      });
+    const followPolyrepoWorkflowSpy = jest
+      .spyOn(polyrepoWorkflowOperations, 'followPolyrepoWorkflow')
+      .mockResolvedValue();
+
+    await expect(
+      main({
+        argv: [],
+        cwd: '/path/to/somewhere',
+        stdin,
+        stdout,
+        stderr,
+      }),
+    ).rejects.toThrow(
+      'There are no dependents to add to the release within a polyrepo, so `--propagate` does not apply. Please re-run this tool without `--propagate`.',
+    );
+    expect(followPolyrepoWorkflowSpy).not.toHaveBeenCalled();
+  });
+
+  it('throws if the project is a monorepo that uses fixed versions and propagate is true', async () => {
+    const project = buildMockProject({ isMonorepo: true });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: null,
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'ordinary',
+        interactive: false,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: null,
+        prereleaseIdentifier: null,
+        propagate: true,
+        versioningStrategy: 'fixed',
+        dryRun: false,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
+      });
+    const followMonorepoWorkflowSpy = jest
+      .spyOn(monorepoWorkflowOperations, 'followMonorepoWorkflow')
+      .mockResolvedValue();
+
+    await expect(
+      main({
+        argv: [],
+        cwd: '/path/to/somewhere',
+        stdin,
+        stdout,
+        stderr,
+      }),
+    ).rejects.toThrow(
+      'Monorepos that use fixed versions release all packages together, so `--propagate` does not apply. Please re-run this tool without `--propagate`.',
+    );
+    expect(followMonorepoWorkflowSpy).not.toHaveBeenCalled();
+  });
+
+  it('throws if the project is a monorepo and a version specifier is given', async () => {
+    const project = buildMockProject({ isMonorepo: true });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: null,
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'ordinary',
+        interactive: false,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: IncrementableVersionParts.major,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: false,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
+      });
+    const followMonorepoWorkflowSpy = jest
+      .spyOn(monorepoWorkflowOperations, 'followMonorepoWorkflow')
+      .mockResolvedValue();
+
+    await expect(
+      main({
+        argv: [],
+        cwd: '/path/to/somewhere',
+        stdin,
+        stdout,
+        stderr,
+      }),
+    ).rejects.toThrow(
+      'The new versions of packages within a monorepo are chosen in the release spec, so `--bump` and `--version` only apply to polyrepos. Please re-run this tool without `--bump` or `--version`.',
+    );
+    expect(followMonorepoWorkflowSpy).not.toHaveBeenCalled();
+  });
+
+  it('throws if the project is a monorepo, interactive is true, and a step to restart from is given', async () => {
+    const project = buildMockProject({ isMonorepo: true });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: 'update-lockfile',
+        defaultBranch: 'main',
+        baseRef: null,
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'ordinary',
+        interactive: true,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: null,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: false,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
+      });
+    const startUISpy = jest.spyOn(ui, 'startUI').mockResolvedValue();
+
+    await expect(
+      main({
+        argv: [],
+        cwd: '/path/to/somewhere',
+        stdin,
+        stdout,
+        stderr,
+      }),
+    ).rejects.toThrow(
+      'The interactive UI does not record its progress, so `--restart-from` does not apply. Please re-run this tool without `--restart-from`.',
+    );
+    expect(startUISpy).not.toHaveBeenCalled();
+  });
+
+  it('throws if the project is within a polyrepo and a step to restart from is given', async () => {
+    const project = buildMockProject({ isMonorepo: false });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: 'commit',
+        defaultBranch: 'main',
+        baseRef: null,
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'ordinary',
+        interactive: false,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: IncrementableVersionParts.major,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: false,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
+      });
+    const followPolyrepoWorkflowSpy = jest
+      .spyOn(polyrepoWorkflowOperations, 'followPolyrepoWorkflow')
+      .mockResolvedValue();
+
+    await expect(
+      main({
+        argv: [],
+        cwd: '/path/to/somewhere',
+        stdin,
+        stdout,
+        stderr,
+      }),
+    ).rejects.toThrow(
+      'The polyrepo workflow does not record its progress, so `--restart-from` does not apply. Please re-run this tool without `--restart-from`.',
+    );
+    expect(followPolyrepoWorkflowSpy).not.toHaveBeenCalled();
+  });
+
+  it('passes a release plan to apply and a path to write the release plan to on to the CLI monorepo workflow', async () => {
+    const project = buildMockProject({ isMonorepo: true });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: null,
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'ordinary',
+        interactive: false,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: null,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: true,
+        releaseSpecificationPath: null,
+        releasePlanPath: '/path/to/plan.json',
+        releasePlanOutputPath: '/path/to/new-plan.json',
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
+      });
+    const followMonorepoWorkflowSpy = jest
+      .spyOn(monorepoWorkflowOperations, 'followMonorepoWorkflow')
+      .mockResolvedValue();
+
+    await main({
+      argv: [],
+      cwd: '/path/to/somewhere',
+      stdin,
+      stdout,
+      stderr,
+    });
+
+    expect(followMonorepoWorkflowSpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        releasePlanPath: '/path/to/plan.json',
+        releasePlanOutputPath: '/path/to/new-plan.json',
+        releaseNotesPath: null,
+        dryRun: true,
+      }),
+    );
+  });
+
+  it('throws if the project is a monorepo, interactive is true, and a release plan is given', async () => {
+    const project = buildMockProject({ isMonorepo: true });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: null,
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'ordinary',
+        interactive: true,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: null,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: false,
+        releaseSpecificationPath: null,
+        releasePlanPath: '/path/to/plan.json',
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
+      });
+    const startUISpy = jest.spyOn(ui, 'startUI').mockResolvedValue();
+
+    await expect(
+      main({
+        argv: [],
+        cwd: '/path/to/somewhere',
+        stdin,
+        stdout,
+        stderr,
+      }),
+    ).rejects.toThrow(
+      'The interactive UI does not support `--apply-plan`. Please re-run this tool without `--interactive`.',
+    );
+    expect(startUISpy).not.toHaveBeenCalled();
+  });
+
+  it('throws if the project is a monorepo, interactive is true, and a path to write the release notes to is given', async () => {
+    const project = buildMockProject({ isMonorepo: true });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: null,
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'ordinary',
+        interactive: true,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: null,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: false,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: '/path/to/RELEASE_NOTES.md',
+        allowChangelogIssues: false,
+        outputFormat: 'text',
+      });
+    const startUISpy = jest.spyOn(ui, 'startUI').mockResolvedValue();
+
+    await expect(
+      main({
+        argv: [],
+        cwd: '/path/to/somewhere',
+        stdin,
+        stdout,
+        stderr,
+      }),
+    ).rejects.toThrow(
+      'The interactive UI does not support `--release-notes`. Please re-run this tool without `--interactive`.',
+    );
+    expect(startUISpy).not.toHaveBeenCalled();
+  });
+
+  it('throws if the project is a monorepo, interactive is true, and a base ref is given', async () => {
+    const project = buildMockProject({ isMonorepo: true });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: 'origin/main',
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'ordinary',
+        interactive: true,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: null,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: false,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
+      });
+    const startUISpy = jest.spyOn(ui, 'startUI').mockResolvedValue();
+
+    await expect(
+      main({
+        argv: [],
+        cwd: '/path/to/somewhere',
+        stdin,
+        stdout,
+        stderr,
+      }),
+    ).rejects.toThrow(
+      'The interactive UI does not support `--from`. Please re-run this tool without `--interactive`.',
+    );
+    expect(startUISpy).not.toHaveBeenCalled();
+  });
+
+  it('throws if the project is a monorepo, interactive is true, and allowChangelogIssues is true', async () => {
+    const project = buildMockProject({ isMonorepo: true });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: null,
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'ordinary',
+        interactive: true,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: null,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: false,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: true,
+        outputFormat: 'text',
+      });
+    const startUISpy = jest.spyOn(ui, 'startUI').mockResolvedValue();
+
+    await expect(
+      main({
+        argv: [],
+        cwd: '/path/to/somewhere',
+        stdin,
+        stdout,
+        stderr,
+      }),
+    ).rejects.toThrow(
+      'The interactive UI does not validate changelogs, so `--allow-changelog-issues` does not apply. Please re-run this tool without `--allow-changelog-issues`.',
+    );
+    expect(startUISpy).not.toHaveBeenCalled();
+  });
+
+  it('throws if the project is a monorepo, dryRun is true, and a path to write the release notes to is given', async () => {
+    const project = buildMockProject({ isMonorepo: true });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: null,
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'ordinary',
+        interactive: false,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: null,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: true,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: '/path/to/RELEASE_NOTES.md',
+        allowChangelogIssues: false,
+        outputFormat: 'text',
+      });
+    const followMonorepoWorkflowSpy = jest
+      .spyOn(monorepoWorkflowOperations, 'followMonorepoWorkflow')
+      .mockResolvedValue();
+
+    await expect(
+      main({
+        argv: [],
+        cwd: '/path/to/somewhere',
+        stdin,
+        stdout,
+        stderr,
+      }),
+    ).rejects.toThrow(
+      'The release notes are collected from the changelogs once the release has been prepared, so `--release-notes` does not apply to dry runs. Please re-run this tool without `--release-notes`.',
+    );
+    expect(followMonorepoWorkflowSpy).not.toHaveBeenCalled();
+  });
+
+  it('throws if the project is a monorepo, dryRun is true, and a base ref is given', async () => {
+    const project = buildMockProject({ isMonorepo: true });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: 'origin/main',
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'ordinary',
+        interactive: false,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: null,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: true,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
+      });
+    const followMonorepoWorkflowSpy = jest
+      .spyOn(monorepoWorkflowOperations, 'followMonorepoWorkflow')
+      .mockResolvedValue();
+
+    await expect(
+      main({
+        argv: [],
+        cwd: '/path/to/somewhere',
+        stdin,
+        stdout,
+        stderr,
+      }),
+    ).rejects.toThrow(
+      'A dry run previews the release from the commit that is checked out, so `--from` does not apply. Please re-run this tool without `--from`.',
+    );
+    expect(followMonorepoWorkflowSpy).not.toHaveBeenCalled();
+  });
+
+  it('throws if the project is a monorepo, interactive is true, and push is true', async () => {
+    const project = buildMockProject({ isMonorepo: true });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: null,
+        remote: null,
+        push: true,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'ordinary',
+        interactive: true,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: null,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: false,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
+      });
+    const startUISpy = jest.spyOn(ui, 'startUI').mockResolvedValue();
+
+    await expect(
+      main({
+        argv: [],
+        cwd: '/path/to/somewhere',
+        stdin,
+        stdout,
+        stderr,
+      }),
+    ).rejects.toThrow(
+      'The interactive UI does not support `--push` or `--open-pr`. Please re-run this tool without `--interactive`.',
+    );
+    expect(startUISpy).not.toHaveBeenCalled();
+  });
+
+  it('throws if the project is a monorepo, dryRun is true, and push is true', async () => {
+    const project = buildMockProject({ isMonorepo: true });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: null,
+        remote: null,
+        push: true,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'ordinary',
+        interactive: false,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: null,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: true,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
+      });
+    const followMonorepoWorkflowSpy = jest
+      .spyOn(monorepoWorkflowOperations, 'followMonorepoWorkflow')
+      .mockResolvedValue();
+
+    await expect(
+      main({
+        argv: [],
+        cwd: '/path/to/somewhere',
+        stdin,
+        stdout,
+        stderr,
+      }),
+    ).rejects.toThrow(
+      'A dry run does not create the release branch, so `--push` and `--open-pr` do not apply. Please re-run this tool without `--push` or `--open-pr`.',
+    );
+    expect(followMonorepoWorkflowSpy).not.toHaveBeenCalled();
+  });
+
+  it('throws if the project is a monorepo, releaseType is "backport", and a base ref is given', async () => {
+    const project = buildMockProject({ isMonorepo: true });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: 'origin/main',
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'backport',
+        interactive: false,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: null,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: false,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
+      });
+    const followMonorepoWorkflowSpy = jest
+      .spyOn(monorepoWorkflowOperations, 'followMonorepoWorkflow')
+      .mockResolvedValue();
+
+    await expect(
+      main({
+        argv: [],
+        cwd: '/path/to/somewhere',
+        stdin,
+        stdout,
+        stderr,
+      }),
+    ).rejects.toThrow(
+      'A backport is prepared from the tag of the release that it follows, so `--from` does not apply. Please re-run this tool without `--from`.',
+    );
+    expect(followMonorepoWorkflowSpy).not.toHaveBeenCalled();
+  });
+
+  it('throws if the project is a monorepo, releaseType is "backport", and a pull request is to be opened', async () => {
+    const project = buildMockProject({ isMonorepo: true });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: null,
+        remote: null,
+        push: true,
+        openPullRequest: true,
+        pullRequestLabels: ['release'],
+        releaseType: 'backport',
+        interactive: false,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: null,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: false,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
+      });
+    const followMonorepoWorkflowSpy = jest
+      .spyOn(monorepoWorkflowOperations, 'followMonorepoWorkflow')
+      .mockResolvedValue();
+
+    await expect(
+      main({
+        argv: [],
+        cwd: '/path/to/somewhere',
+        stdin,
+        stdout,
+        stderr,
+      }),
+    ).rejects.toThrow(
+      'A backport is prepared from the tag of the release that it follows rather than from a branch, so there is no branch into which to merge it, and `--open-pr` does not apply. Please re-run this tool with `--push` instead of `--open-pr`, and open the pull request yourself.',
+    );
+    expect(followMonorepoWorkflowSpy).not.toHaveBeenCalled();
+  });
+
+  it('throws if the project is a monorepo, releaseType is "backport", and dryRun is true', async () => {
+    const project = buildMockProject({ isMonorepo: true });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: null,
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'backport',
+        interactive: false,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: null,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: true,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
+      });
+    const followMonorepoWorkflowSpy = jest
+      .spyOn(monorepoWorkflowOperations, 'followMonorepoWorkflow')
+      .mockResolvedValue();
+
+    await expect(
+      main({
+        argv: [],
+        cwd: '/path/to/somewhere',
+        stdin,
+        stdout,
+        stderr,
+      }),
+    ).rejects.toThrow(
+      'A dry run previews the release from the commit that is checked out, so it cannot preview a backport, which is prepared from the tag of the release that it follows. Please re-run this tool without `--dry-run`.',
+    );
+    expect(followMonorepoWorkflowSpy).not.toHaveBeenCalled();
+  });
+
+  it('throws if the project is a monorepo, releaseType is "backport", and the monorepo uses fixed versions', async () => {
+    const project = buildMockProject({ isMonorepo: true });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: null,
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'backport',
+        interactive: false,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: null,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'fixed',
+        dryRun: false,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
+      });
+    const followMonorepoWorkflowSpy = jest
+      .spyOn(monorepoWorkflowOperations, 'followMonorepoWorkflow')
+      .mockResolvedValue();
+
+    await expect(
+      main({
+        argv: [],
+        cwd: '/path/to/somewhere',
+        stdin,
+        stdout,
+        stderr,
+      }),
+    ).rejects.toThrow(
+      'A backport is prepared from the tag of the release that it follows, as named by the version of the root package in a monorepo that uses independent versions, so `--backport` does not apply to monorepos that use fixed versions. Please re-run this tool without `--backport`.',
+    );
+    expect(followMonorepoWorkflowSpy).not.toHaveBeenCalled();
+  });
+
+  it('throws if the project is a monorepo, releaseType is "backport", and a release plan is given', async () => {
+    const project = buildMockProject({ isMonorepo: true });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: null,
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'backport',
+        interactive: false,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: null,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: false,
+        releaseSpecificationPath: null,
+        releasePlanPath: '/path/to/plan.json',
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
+      });
+    const followMonorepoWorkflowSpy = jest
+      .spyOn(monorepoWorkflowOperations, 'followMonorepoWorkflow')
+      .mockResolvedValue();
+
+    await expect(
+      main({
+        argv: [],
+        cwd: '/path/to/somewhere',
+        stdin,
+        stdout,
+        stderr,
+      }),
+    ).rejects.toThrow(
+      'A backport is prepared from the tag of the release that it follows, which is not determined when a release plan is applied, so `--apply-plan` does not apply. Please re-run this tool without `--apply-plan`.',
+    );
+    expect(followMonorepoWorkflowSpy).not.toHaveBeenCalled();
+  });
+
+  it('throws if the project is within a polyrepo and releaseType is "backport"', async () => {
+    const project = buildMockProject({ isMonorepo: false });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: null,
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'backport',
+        interactive: false,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: IncrementableVersionParts.major,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: false,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
+      });
+    const followPolyrepoWorkflowSpy = jest
+      .spyOn(polyrepoWorkflowOperations, 'followPolyrepoWorkflow')
+      .mockResolvedValue();
+
+    await expect(
+      main({
+        argv: [],
+        cwd: '/path/to/somewhere',
+        stdin,
+        stdout,
+        stderr,
+      }),
+    ).rejects.toThrow(
+      'Backports are only prepared for releases within a monorepo. To release a backport of a package within a polyrepo, check out the release it follows and use `--bump` or `--version` instead.',
+    );
+    expect(followPolyrepoWorkflowSpy).not.toHaveBeenCalled();
+  });
+
+  it('throws if the project is within a polyrepo and a path to write the release notes to is given', async () => {
+    const project = buildMockProject({ isMonorepo: false });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: null,
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'ordinary',
+        interactive: false,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: IncrementableVersionParts.major,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: false,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: '/path/to/RELEASE_NOTES.md',
+        allowChangelogIssues: false,
+        outputFormat: 'text',
+      });
+    const followPolyrepoWorkflowSpy = jest
+      .spyOn(polyrepoWorkflowOperations, 'followPolyrepoWorkflow')
+      .mockResolvedValue();
+
+    await expect(
+      main({
+        argv: [],
+        cwd: '/path/to/somewhere',
+        stdin,
+        stdout,
+        stderr,
+      }),
+    ).rejects.toThrow(
+      'Release notes are only collected for releases within a monorepo. Please re-run this tool without `--release-notes`.',
+    );
+    expect(followPolyrepoWorkflowSpy).not.toHaveBeenCalled();
+  });
+
+  it('throws if the project is within a polyrepo, dryRun is true, and a base ref is given', async () => {
+    const project = buildMockProject({ isMonorepo: false });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: 'origin/main',
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'ordinary',
+        interactive: false,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: IncrementableVersionParts.major,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: true,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
+      });
+    const followPolyrepoWorkflowSpy = jest
+      .spyOn(polyrepoWorkflowOperations, 'followPolyrepoWorkflow')
+      .mockResolvedValue();
+
+    await expect(
+      main({
+        argv: [],
+        cwd: '/path/to/somewhere',
+        stdin,
+        stdout,
+        stderr,
+      }),
+    ).rejects.toThrow(
+      'A dry run previews the release from the commit that is checked out, so `--from` does not apply. Please re-run this tool without `--from`.',
+    );
+    expect(followPolyrepoWorkflowSpy).not.toHaveBeenCalled();
+  });
+
+  it('throws if the project is within a polyrepo, dryRun is true, and push is true', async () => {
+    const project = buildMockProject({ isMonorepo: false });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: null,
+        remote: null,
+        push: true,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'ordinary',
+        interactive: false,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: IncrementableVersionParts.major,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: true,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
+      });
+    const followPolyrepoWorkflowSpy = jest
+      .spyOn(polyrepoWorkflowOperations, 'followPolyrepoWorkflow')
+      .mockResolvedValue();
+
+    await expect(
+      main({
+        argv: [],
+        cwd: '/path/to/somewhere',
+        stdin,
+        stdout,
+        stderr,
+      }),
+    ).rejects.toThrow(
+      'A dry run does not create the release branch, so `--push` and `--open-pr` do not apply. Please re-run this tool without `--push` or `--open-pr`.',
+    );
+    expect(followPolyrepoWorkflowSpy).not.toHaveBeenCalled();
+  });
+
+  it('throws if the project is within a polyrepo and allowChangelogIssues is true', async () => {
+    const project = buildMockProject({ isMonorepo: false });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: null,
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'ordinary',
+        interactive: false,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: IncrementableVersionParts.major,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: false,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: true,
+        outputFormat: 'text',
+      });
+    const followPolyrepoWorkflowSpy = jest
+      .spyOn(polyrepoWorkflowOperations, 'followPolyrepoWorkflow')
+      .mockResolvedValue();
+
+    await expect(
+      main({
+        argv: [],
+        cwd: '/path/to/somewhere',
+        stdin,
+        stdout,
+        stderr,
+      }),
+    ).rejects.toThrow(
+      'Changelogs are only validated for releases within a monorepo, so `--allow-changelog-issues` does not apply. Please re-run this tool without `--allow-changelog-issues`.',
+    );
+    expect(followPolyrepoWorkflowSpy).not.toHaveBeenCalled();
+  });
+
+  it('throws if the project is a monorepo and a path to write the release plan to is given outside of a dry run', async () => {
+    const project = buildMockProject({ isMonorepo: true });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: null,
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'ordinary',
+        interactive: false,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: null,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: false,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: '/path/to/plan.json',
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
+      });
+    const followMonorepoWorkflowSpy = jest
+      .spyOn(monorepoWorkflowOperations, 'followMonorepoWorkflow')
+      .mockResolvedValue();
+
+    await expect(
+      main({
+        argv: [],
+        cwd: '/path/to/somewhere',
+        stdin,
+        stdout,
+        stderr,
+      }),
+    ).rejects.toThrow(
+      'A release plan can only be written in a dry run. Please re-run this tool with `--dry-run`.',
+    );
+    expect(followMonorepoWorkflowSpy).not.toHaveBeenCalled();
+  });
+
+  it('throws if the project is within a polyrepo and a release plan is given', async () => {
+    const project = buildMockProject({ isMonorepo: false });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: null,
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'ordinary',
+        interactive: false,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: IncrementableVersionParts.major,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: false,
+        releaseSpecificationPath: null,
+        releasePlanPath: '/path/to/plan.json',
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'text',
+      });
+    const followPolyrepoWorkflowSpy = jest
+      .spyOn(polyrepoWorkflowOperations, 'followPolyrepoWorkflow')
+      .mockResolvedValue();
+
+    await expect(
+      main({
+        argv: [],
+        cwd: '/path/to/somewhere',
+        stdin,
+        stdout,
+        stderr,
+      }),
+    ).rejects.toThrow(
+      'A release plan is only used to release packages within a monorepo. Please re-run this tool without `--apply-plan` or `--write-plan`.',
+    );
+    expect(followPolyrepoWorkflowSpy).not.toHaveBeenCalled();
+  });
+
+  it('reports each event as a line of JSON on stdout, including text that would otherwise be printed, if outputFormat is "json"', async () => {
+    const project = buildMockProject({
+      directoryPath: '/path/to/project',
+      isMonorepo: true,
+    });
+    const stdin = Readable.from([]);
+    const stdout = new MockWritable();
+    const stderr = new MockWritable();
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: null,
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'ordinary',
+        interactive: false,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: null,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: false,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'json',
+      });
+    jest
+      .spyOn(monorepoWorkflowOperations, 'followMonorepoWorkflow')
+      .mockImplementation(async (args) => {
+        args.stderr.write('a does not seem to have a changelog. Skipping.\n');
+        args.reportEvent?.({
+          type: 'commitCreated',
+          message: 'Update Release 2.0.0',
+        });
+      });
+
+    await main({
+      argv: [],
+      cwd: '/path/to/somewhere',
+      stdin,
+      stdout,
+      stderr,
+    });
+
+    expect(stdout.data()).toStrictEqual([
+      `${JSON.stringify({
+        type: 'projectDetected',
+        directoryPath: '/path/to/project',
+        isMonorepo: true,
+        versioningStrategy: 'independent',
+      })}\n`,
+      `${JSON.stringify({
+        type: 'message',
+        message:
+          'Project appears to have workspaces. Following monorepo workflow.',
+      })}\n`,
+      `${JSON.stringify({
+        type: 'warning',
+        message: 'a does not seem to have a changelog. Skipping.',
+      })}\n`,
+      `${JSON.stringify({
+        type: 'commitCreated',
+        message: 'Update Release 2.0.0',
+      })}\n`,
+    ]);
+    expect(stderr.data()).toStrictEqual([]);
+  });
+
+  it('reports a failure as a line of JSON on stdout before rethrowing the error, if outputFormat is "json"', async () => {
+    const project = buildMockProject({ isMonorepo: false });
+    const stdin = Readable.from([]);
+    const stdout = new MockWritable();
+    const stderr = new MockWritable();
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: null,
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'ordinary',
+        interactive: false,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: IncrementableVersionParts.minor,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: false,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'json',
+      });
+    jest
+      .spyOn(polyrepoWorkflowOperations, 'followPolyrepoWorkflow')
+      .mockRejectedValue(new Error('oops'));
+
+    await expect(
+      main({
+        argv: [],
+        cwd: '/path/to/somewhere',
+        stdin,
+        stdout,
+        stderr,
+      }),
+    ).rejects.toThrow('oops');
+    expect(stdout.data()).toContain(
+      `${JSON.stringify({ type: 'failed', message: 'oops' })}\n`,
+    );
+  });
+
+  it('throws if the project is a monorepo, interactive is true, and outputFormat is "json"', async () => {
+    const project = buildMockProject({ isMonorepo: true });
+    const stdin = Readable.from([]);
+    const stdout = fs.createWriteStream('/dev/null');
+    const stderr = fs.createWriteStream('/dev/null');
+    jest
+      .spyOn(initialParametersModule, 'determineInitialParameters')
+      .mockResolvedValue({
+        command: 'release',
+        project,
+        tempDirectoryPath: '/path/to/temp/directory',
+        reset: false,
+        restartFrom: null,
+        defaultBranch: 'main',
+        baseRef: null,
+        remote: null,
+        push: false,
+        openPullRequest: false,
+        pullRequestLabels: ['release'],
+        releaseType: 'ordinary',
+        interactive: true,
+        port: 3000,
+        formatter: 'prettier',
+        versionSpecifier: null,
+        prereleaseIdentifier: null,
+        propagate: false,
+        versioningStrategy: 'independent',
+        dryRun: false,
+        releaseSpecificationPath: null,
+        releasePlanPath: null,
+        releasePlanOutputPath: null,
+        releaseNotesPath: null,
+        allowChangelogIssues: false,
+        outputFormat: 'json',
+      });
+    const startUISpy = jest.spyOn(ui, 'startUI').mockResolvedValue();
+
+    await expect(
+      main({
+        argv: [],
+        cwd: '/path/to/somewhere',
+        stdin,
+        stdout,
+        stderr,
+      }),
+    ).rejects.toThrow(
+      'The interactive UI does not support JSON output. Please re-run this tool without `--interactive`.',
+    );
+    expect(startUISpy).not.toHaveBeenCalled();
   });
 });
@@ -1,47 +1,392 @@
 import type { WriteStream } from 'fs';
-import { determineInitialParameters } from './initial-parameters.js';
+import { getErrorMessage } from '@metamask/utils';
+import { determineForgeClient, ForgeClient } from './forge-client.js';
+import { ReadStreamLike } from './fs.js';
+import {
+  determineInitialParameters,
+  InitialParameters,
+} from './initial-parameters.js';
 import { followMonorepoWorkflow } from './monorepo-workflow-operations.js';
+import { followPolyrepoWorkflow } from './polyrepo-workflow-operations.js';
+import { followTagWorkflow } from './tag-workflow-operations.js';
 import { startUI } from './ui.js';
+import {
+  createJsonWorkflowEventReporter,
+  createWorkflowEventStream,
+  ReportWorkflowEvent,
+} from './workflow-events.js';
 
 /**
  * The main function for this tool. Designed to not access `process.argv`,
  * `process.env`, `process.cwd()`, `process.stdout`, or `process.stderr`
  * directly so as to be more easily testable.
  *
+ * If the "tag" command was given, the tool creates the tags for a release that
+ * has been merged instead of preparing a new release.
+ *
+ * If JSON output was requested, everything that would otherwise be printed to
+ * standard out or standard error while following a workflow is instead
+ * reported as a line of JSON on standard out, so that the output can be parsed
+ * by other programs.
+ *
  * @param args - The arguments.
  * @param args.argv - The name of this executable and its arguments (as obtained
  * via `process.argv`).
  * @param args.cwd - The directory in which this executable was run.
+ * @param args.stdin - A stream that can be used to read from standard input.
  * @param args.stdout - A stream that can be used to write to standard out.
  * @param args.stderr - A stream that can be used to write to standard error.
  */
 export async function main({
   argv,
   cwd,
+  stdin,
   stdout,
   stderr,
 }: {
   argv: string[];
   cwd: string;
+  stdin: ReadStreamLike;
   stdout: Pick<WriteStream, 'write'>;
   stderr: Pick<WriteStream, 'write'>;
 }) {
-  const {
-    project,
-    tempDirectoryPath,
-    reset,
-    releaseType,
-    defaultBranch,
-    interactive,
-    port,
-    formatter,
-  } = await determineInitialParameters({ argv, cwd, stderr });
+  const parameters = await determineInitialParameters({ argv, cwd, stderr });
+  const isJsonOutput = parameters.outputFormat === 'json';
+  const reportEvent: ReportWorkflowEvent = isJsonOutput
+    ? createJsonWorkflowEventReporter(stdout)
+    : () => undefined;
+  const workflowStdout = isJsonOutput
+    ? createWorkflowEventStream(reportEvent, 'message')
+    : stdout;
+  const workflowStderr = isJsonOutput
+    ? createWorkflowEventStream(reportEvent, 'warning')
+    : stderr;
+
+  try {
+    if (parameters.command === 'tag') {
+      await followTagWorkflow({
+        projectDirectoryPath: parameters.projectDirectoryPath,
+        revision: parameters.revision,
+        dryRun: parameters.dryRun,
+        stdout: workflowStdout,
+        reportEvent,
+      });
+      return;
+    }
+
+    const {
+      project,
+      tempDirectoryPath,
+      reset,
+      restartFrom,
+      releaseType,
+      defaultBranch,
+      baseRef,
+      remote,
+      push,
+      openPullRequest,
+      pullRequestLabels,
+      interactive,
+      port,
+      formatter,
+      versionSpecifier,
+      prereleaseIdentifier,
+      propagate,
+      versioningStrategy,
+      dryRun,
+      releaseSpecificationPath,
+      releasePlanPath,
+      releasePlanOutputPath,
+      releaseNotesPath,
+      allowChangelogIssues,
+    } = parameters;
+
+    await followWorkflow({
+      project,
+      tempDirectoryPath,
+      reset,
+      restartFrom,
+      releaseType,
+      defaultBranch,
+      baseRef,
+      remote,
+      push,
+      openPullRequest,
+      pullRequestLabels,
+      interactive,
+      port,
+      formatter,
+      versionSpecifier,
+      prereleaseIdentifier,
+      propagate,
+      versioningStrategy,
+      dryRun,
+      releaseSpecificationPath,
+      releasePlanPath,
+      releasePlanOutputPath,
+      releaseNotesPath,
+      allowChangelogIssues,
+      isJsonOutput,
+      stdin,
+      stdout: workflowStdout,
+      stderr: workflowStderr,
+      reportEvent,
+    });
+  } catch (error) {
+    reportEvent({ type: 'failed', message: getErrorMessage(error) });
+    throw error;
+  }
+}
+
+/**
+ * Obtains the client through which to open a pull request for the release.
+ *
+ * @param openPullRequest - Whether a pull request was requested.
+ * @returns The client, or null if no pull request was requested.
+ * @throws If a pull request was requested, but there is no token with which
+ * to open it.
+ */
+function getForgeClient(openPullRequest: boolean): ForgeClient | null {
+  if (!openPullRequest) {
+    return null;
+  }
+
+  const forgeClient = determineForgeClient();
+
+  if (forgeClient === null) {
+    throw new Error(
+      'Cannot open a pull request, as the GITHUB_TOKEN environment variable is not set. Please set it to a token which can open pull requests in the repository, or re-run this tool without `--open-pr`.',
+    );
+  }
+
+  return forgeClient;
+}
+
+/**
+ * Follows the workflow that applies to the project.
+ *
+ * @param args - The arguments.
+ * @param args.project - Information about the project.
+ * @param args.tempDirectoryPath - A directory in which to hold the generated
+ * release spec file.
+ * @param args.reset - Whether to remove a release spec left over from a
+ * previous run, along with the record of which steps it completed.
+ * @param args.restartFrom - A step completed in a previous run which should be
+ * carried out again, along with every step after it, or null.
+ * @param args.releaseType - The type of release ("ordinary" or "backport").
+ * @param args.defaultBranch - The name of the default branch in the repository.
+ * @param args.baseRef - The ref from which to create the release branch, or
+ * null to create it from the current commit.
+ * @param args.remote - The name of the remote to which to push the release
+ * branch, or null to push it to "origin".
+ * @param args.push - Whether to push the release branch once the release has
+ * been committed.
+ * @param args.openPullRequest - Whether to open a pull request for the release
+ * once the release branch has been pushed.
+ * @param args.pullRequestLabels - The labels to attach to the pull request.
+ * @param args.interactive - Whether to start the interactive web UI.
+ * @param args.port - The port on which to run the interactive web UI.
+ * @param args.formatter - The formatter to use for formatting changelogs.
+ * @param args.versionSpecifier - How to determine the new version of a
+ * package within a polyrepo.
+ * @param args.prereleaseIdentifier - The identifier that names a prerelease
+ * version (e.g. "rc"), or null.
+ * @param args.propagate - Whether to add the dependents of packages released
+ * with a major version bump to the release automatically.
+ * @param args.versioningStrategy - The versioning strategy of a monorepo.
+ * @param args.dryRun - Whether to print the release plan instead of carrying
+ * it out.
+ * @param args.releaseSpecificationPath - The path to a release spec that has
+ * already been filled out, "-" for standard input, or null.
+ * @param args.releasePlanPath - The path to a release plan to apply, or null.
+ * @param args.releasePlanOutputPath - The path to which to write the release
+ * plan in a dry run, or null.
+ * @param args.releaseNotesPath - The path to which to write the release notes,
+ * "-" to print them, or null.
+ * @param args.allowChangelogIssues - Whether to warn about, rather than stop
+ * at, problems with the new changelog sections of the released packages.
+ * @param args.isJsonOutput - Whether JSON output was requested.
+ * @param args.stdin - A stream that can be used to read from standard input.
+ * @param args.stdout - A stream that can be used to write to standard out.
+ * @param args.stderr - A stream that can be used to write to standard error.
+ * @param args.reportEvent - A function which is called whenever something
+ * notable happens.
+ */
+async function followWorkflow({
+  project,
+  tempDirectoryPath,
+  reset,
+  restartFrom,
+  releaseType,
+  defaultBranch,
+  baseRef,
+  remote,
+  push,
+  openPullRequest,
+  pullRequestLabels,
+  interactive,
+  port,
+  formatter,
+  versionSpecifier,
+  prereleaseIdentifier,
+  propagate,
+  versioningStrategy,
+  dryRun,
+  releaseSpecificationPath,
+  releasePlanPath,
+  releasePlanOutputPath,
+  releaseNotesPath,
+  allowChangelogIssues,
+  isJsonOutput,
+  stdin,
+  stdout,
+  stderr,
+  reportEvent,
+}: Omit<InitialParameters, 'command' | 'outputFormat'> & {
+  isJsonOutput: boolean;
+  stdin: ReadStreamLike;
+  stdout: Pick<WriteStream, 'write'>;
+  stderr: Pick<WriteStream, 'write'>;
+  reportEvent: ReportWorkflowEvent;
+}) {
+  reportEvent({
+    type: 'projectDetected',
+    directoryPath: project.directoryPath,
+    isMonorepo: project.isMonorepo,
+    versioningStrategy,
+  });
 
   if (project.isMonorepo) {
     stdout.write(
       'Project appears to have workspaces. Following monorepo workflow.\n',
     );
 
+    if (interactive && isJsonOutput) {
+      throw new Error(
+        'The interactive UI does not support JSON output. Please re-run this tool without `--interactive`.',
+      );
+    }
+
+    if (interactive && releaseSpecificationPath !== null) {
+      throw new Error(
+        'The interactive UI does not support `--release-spec`. Please re-run this tool without `--interactive`.',
+      );
+    }
+
+    if (interactive && dryRun) {
+      throw new Error(
+        'The interactive UI does not support dry runs. Please re-run this tool without `--interactive`.',
+      );
+    }
+
+    if (interactive && releasePlanPath !== null) {
+      throw new Error(
+        'The interactive UI does not support `--apply-plan`. Please re-run this tool without `--interactive`.',
+      );
+    }
+
+    if (interactive && releaseNotesPath !== null) {
+      throw new Error(
+        'The interactive UI does not support `--release-notes`. Please re-run this tool without `--interactive`.',
+      );
+    }
+
+    if (interactive && allowChangelogIssues) {
+      throw new Error(
+        'The interactive UI does not validate changelogs, so `--allow-changelog-issues` does not apply. Please re-run this tool without `--allow-changelog-issues`.',
+      );
+    }
+
+    if (interactive && versioningStrategy === 'fixed') {
+      throw new Error(
+        'The interactive UI does not support monorepos that use fixed versions. Please re-run this tool without `--interactive`.',
+      );
+    }
+
+    if (interactive && baseRef !== null) {
+      throw new Error(
+        'The interactive UI does not support `--from`. Please re-run this tool without `--interactive`.',
+      );
+    }
+
+    if (interactive && push) {
+      throw new Error(
+        'The interactive UI does not support `--push` or `--open-pr`. Please re-run this tool without `--interactive`.',
+      );
+    }
+
+    if (interactive && restartFrom !== null) {
+      throw new Error(
+        'The interactive UI does not record its progress, so `--restart-from` does not apply. Please re-run this tool without `--restart-from`.',
+      );
+    }
+
+    if (releasePlanOutputPath !== null && !dryRun) {
+      throw new Error(
+        'A release plan can only be written in a dry run. Please re-run this tool with `--dry-run`.',
+      );
+    }
+
+    if (releaseNotesPath !== null && dryRun) {
+      throw new Error(
+        'The release notes are collected from the changelogs once the release has been prepared, so `--release-notes` does not apply to dry runs. Please re-run this tool without `--release-notes`.',
+      );
+    }
+
+    if (baseRef !== null && dryRun) {
+      throw new Error(
+        'A dry run previews the release from the commit that is checked out, so `--from` does not apply. Please re-run this tool without `--from`.',
+      );
+    }
+
+    if (push && dryRun) {
+      throw new Error(
+        'A dry run does not create the release branch, so `--push` and `--open-pr` do not apply. Please re-run this tool without `--push` or `--open-pr`.',
+      );
+    }
+
+    if (releaseType === 'backport' && baseRef !== null) {
+      throw new Error(
+        'A backport is prepared from the tag of the release that it follows, so `--from` does not apply. Please re-run this tool without `--from`.',
+      );
+    }
+
+    if (releaseType === 'backport' && openPullRequest) {
+      throw new Error(
+        'A backport is prepared from the tag of the release that it follows rather than from a branch, so there is no branch into which to merge it, and `--open-pr` does not apply. Please re-run this tool with `--push` instead of `--open-pr`, and open the pull request yourself.',
+      );
+    }
+
+    if (releaseType === 'backport' && dryRun) {
+      throw new Error(
+        'A dry run previews the release from the commit that is checked out, so it cannot preview a backport, which is prepared from the tag of the release that it follows. Please re-run this tool without `--dry-run`.',
+      );
+    }
+
+    if (versionSpecifier !== null) {
+      throw new Error(
+        'The new versions of packages within a monorepo are chosen in the release spec, so `--bump` and `--version` only apply to polyrepos. Please re-run this tool without `--bump` or `--version`.',
+      );
+    }
+
+    if (releaseType === 'backport' && versioningStrategy === 'fixed') {
+      throw new Error(
+        'A backport is prepared from the tag of the release that it follows, as named by the version of the root package in a monorepo that uses independent versions, so `--backport` does not apply to monorepos that use fixed versions. Please re-run this tool without `--backport`.',
+      );
+    }
+
+    if (releaseType === 'backport' && releasePlanPath !== null) {
+      throw new Error(
+        'A backport is prepared from the tag of the release that it follows, which is not determined when a release plan is applied, so `--apply-plan` does not apply. Please re-run this tool without `--apply-plan`.',
+      );
+    }
+
+    if (propagate && versioningStrategy === 'fixed') {
+      throw new Error(
+        'Monorepos that use fixed versions release all packages together, so `--propagate` does not apply. Please re-run this tool without `--propagate`.',
+      );
+    }
+
     if (interactive) {
       await startUI({
         project,
@@ -49,6 +394,8 @@ export async function main({
         defaultBranch,
         port,
         formatter,
+        prereleaseIdentifier,
+        propagate,
         stdout,
         stderr,
       });
@@ -56,17 +403,105 @@ export async function main({
       await followMonorepoWorkflow({
         project,
         tempDirectoryPath,
+        providedReleaseSpecificationPath: releaseSpecificationPath,
+        releasePlanPath,
+        releasePlanOutputPath,
+        releaseNotesPath,
+        allowChangelogIssues,
         firstRemovingExistingReleaseSpecification: reset,
+        restartFrom,
         releaseType,
         defaultBranch,
+        baseRef,
+        versioningStrategy,
+        prereleaseIdentifier,
+        propagate,
+        dryRun,
+        push,
+        remote,
+        forgeClient: getForgeClient(openPullRequest),
+        pullRequestLabels,
         formatter,
+        stdin,
         stdout,
         stderr,
+        reportEvent,
       });
     }
   } else {
+    if (releaseSpecificationPath !== null) {
+      throw new Error(
+        'A release spec is only used to release packages within a monorepo. To release a package within a polyrepo, use `--bump` or `--version` instead.',
+      );
+    }
+
+    if (propagate) {
+      throw new Error(
+        'There are no dependents to add to the release within a polyrepo, so `--propagate` does not apply. Please re-run this tool without `--propagate`.',
+      );
+    }
+
+    if (releasePlanPath !== null || releasePlanOutputPath !== null) {
+      throw new Error(
+        'A release plan is only used to release packages within a monorepo. Please re-run this tool without `--apply-plan` or `--write-plan`.',
+      );
+    }
+
+    if (releaseType === 'backport') {
+      throw new Error(
+        'Backports are only prepared for releases within a monorepo. To release a backport of a package within a polyrepo, check out the release it follows and use `--bump` or `--version` instead.',
+      );
+    }
+
+    if (releaseNotesPath !== null) {
+      throw new Error(
+        'Release notes are only collected for releases within a monorepo. Please re-run this tool without `--release-notes`.',
+      );
+    }
+
+    if (allowChangelogIssues) {
+      throw new Error(
+        'Changelogs are only validated for releases within a monorepo, so `--allow-changelog-issues` does not apply. Please re-run this tool without `--allow-changelog-issues`.',
+      );
+    }
+
+    if (restartFrom !== null) {
+      throw new Error(
+        'The polyrepo workflow does not record its progress, so `--restart-from` does not apply. Please re-run this tool without `--restart-from`.',
+      );
+    }
+
+    if (baseRef !== null && dryRun) {
+      throw new Error(
+        'A dry run previews the release from the commit that is checked out, so `--from` does not apply. Please re-run this tool without `--from`.',
+      );
+    }
+
+    if (push && dryRun) {
+      throw new Error(
+        'A dry run does not create the release branch, so `--push` and `--open-pr` do not apply. Please re-run this tool without `--push` or `--open-pr`.',
+      );
+    }
+
     stdout.write(
       'Project does not appear to have any workspaces. Following polyrepo workflow.\n',
     );
+
+    await followPolyrepoWorkflow({
+      project,
+      versionSpecifier,
+      prereleaseIdentifier,
+      baseRef,
+      dryRun,
+      defaultBranch,
+      push,
+      remote,
+      forgeClient: getForgeClient(openPullRequest),
+      pullRequestLabels,
+      formatter,
+      stdout,
+      stderr,
+      reportEvent,
+    });
   }
 }
@@ -1,25 +1,53 @@
 import fs from 'fs';
 import path from 'path';
+import { Readable } from 'stream';
 import { when } from 'jest-when';
 import { MockWritable } from 'stdio-mock';
 import { withSandbox, Sandbox, isErrorWithCode } from '../tests/helpers.js';
-import { buildMockProject, Require } from '../tests/unit/helpers.js';
+import {
+  buildMockPackage,
+  buildMockProject,
+  Require,
+} from '../tests/unit/helpers.js';
 import { followMonorepoWorkflow } from './monorepo-workflow-operations.js';
+import * as backportModule from './backport.js';
+import * as changelogValidationModule from './changelog-validation.js';
 import * as editorModule from './editor.js';
 import type { Editor } from './editor.js';
 import * as releaseSpecificationModule from './release-specification.js';
 import type { ReleaseSpecification } from './release-specification.js';
+import * as projectModule from './project.js';
+import * as releaseNotesModule from './release-notes.js';
 import * as releasePlanModule from './release-plan.js';
+import * as releasePlanFileModule from './release-plan-file.js';
+import * as releasePlanPreviewModule from './release-plan-preview.js';
+import * as releasePullRequestModule from './release-pull-request.js';
 import type { ReleasePlan } from './release-plan.js';
 import * as repoModule from './repo.js';
+import { SemVer } from './semver.js';
+import * as versionSuggestionModule from './version-suggestion.js';
 import * as yarnCommands from './yarn-commands.js';
 import * as workflowOperations from './workflow-operations.js';
 import { Formatter } from './initial-parameters.js';
+import type { WorkflowStep } from './workflow-state.js';
 
 jest.mock('./editor');
 jest.mock('./release-plan');
-jest.mock('./release-specification');
+jest.mock('./release-plan-preview');
+jest.mock('./release-specification', () => {
+  const actualReleaseSpecificationModule = jest.requireActual(
+    './release-specification',
+  );
+  return {
+    ...jest.createMockFromModule<object>('./release-specification'),
+    ReleaseSpecificationValidationError:
+      actualReleaseSpecificationModule.ReleaseSpecificationValidationError,
+    describeReleaseSpecificationIssue:
+      actualReleaseSpecificationModule.describeReleaseSpecificationIssue,
+  };
+});
 jest.mock('./repo');
+jest.mock('./version-suggestion');
 jest.mock('./yarn-commands.js');
 
 /**
@@ -66,7 +94,9 @@ function getDependencySpies() {
       'validateReleaseSpecification',
     ),
     planReleaseSpy: jest.spyOn(releasePlanModule, 'planRelease'),
-    executeReleasePlanSpy: jest.spyOn(releasePlanModule, 'executeReleasePlan'),
+    executeReleasePlanSpy: jest
+      .spyOn(releasePlanModule, 'executeReleasePlan')
+      .mockResolvedValue([]),
     commitAllChangesSpy: jest.spyOn(repoModule, 'commitAllChanges'),
     fixConstraintsSpy: jest.spyOn(yarnCommands, 'fixConstraints'),
     updateYarnLockfileSpy: jest.spyOn(yarnCommands, 'updateYarnLockfile'),
@@ -210,9 +240,29 @@ async function setupFollowMonorepoWorkflow({
   const project = buildMockProject({ directoryPath: projectDirectoryPath });
   const stdout = new MockWritable();
   const stderr = new MockWritable();
+  const versionSuggestions = {
+    a: {
+      versionSpecifier:
+        releaseSpecificationModule.IncrementableVersionParts.minor,
+      reason: 'the changelog has "Added" entries',
+    },
+  };
+  const backportCommitsSpy = jest
+    .spyOn(backportModule, 'backportCommits')
+    .mockResolvedValue(true);
+  const rereadProjectSpy = jest
+    .spyOn(projectModule, 'rereadProject')
+    .mockResolvedValue(project);
+  jest.spyOn(repoModule, 'revisionExists').mockResolvedValue(true);
+  jest.spyOn(repoModule, 'getBranchNames').mockResolvedValue([]);
   determineEditorSpy.mockResolvedValue(isEditorAvailable ? editor : null);
+  when(
+    jest.spyOn(versionSuggestionModule, 'suggestVersionSpecifiersForMonorepo'),
+  )
+    .calledWith({ project, formatter })
+    .mockResolvedValue(versionSuggestions);
   when(generateReleaseSpecificationTemplateForMonorepoSpy)
-    .calledWith({ project, isEditorAvailable })
+    .calledWith({ project, isEditorAvailable, versionSuggestions })
     .mockResolvedValue('');
 
   if (errorUponEditingReleaseSpec) {
@@ -227,11 +277,19 @@ async function setupFollowMonorepoWorkflow({
 
   if (errorUponValidatingReleaseSpec) {
     when(validateReleaseSpecificationSpy)
-      .calledWith(project, releaseSpecificationPath)
+      .calledWith(project, releaseSpecificationPath, {
+        isGenerated: true,
+        prereleaseIdentifier: null,
+        propagate: false,
+      })
       .mockRejectedValue(errorUponValidatingReleaseSpec);
   } else {
     when(validateReleaseSpecificationSpy)
-      .calledWith(project, releaseSpecificationPath)
+      .calledWith(project, releaseSpecificationPath, {
+        isGenerated: true,
+        prereleaseIdentifier: null,
+        propagate: false,
+      })
       .mockResolvedValue(releaseSpecification);
   }
 
@@ -241,6 +299,7 @@ async function setupFollowMonorepoWorkflow({
         project,
         releaseSpecificationPackages: releaseSpecification.packages,
         newReleaseVersion: releaseVersion,
+        prereleaseIdentifier: null,
       })
       .mockRejectedValue(errorUponPlanningRelease);
   } else {
@@ -249,6 +308,7 @@ async function setupFollowMonorepoWorkflow({
         project,
         releaseSpecificationPackages: releaseSpecification.packages,
         newReleaseVersion: releaseVersion,
+        prereleaseIdentifier: null,
       })
       .mockResolvedValue(releasePlan);
   }
@@ -260,13 +320,18 @@ async function setupFollowMonorepoWorkflow({
   } else {
     when(executeReleasePlanSpy)
       .calledWith(project, releasePlan, formatter, stderr)
-      .mockResolvedValue(undefined);
+      .mockResolvedValue([]);
   }
 
   when(commitAllChangesSpy)
     .calledWith(projectDirectoryPath, '')
     .mockResolvedValue();
 
+  const releaseNotes = { releaseVersion, packages: [] };
+  when(jest.spyOn(releaseNotesModule, 'buildReleaseNotes'))
+    .calledWith({ project, releasePlan, formatter })
+    .mockResolvedValue(releaseNotes);
+
   if (doesReleaseSpecFileExist) {
     await fs.promises.writeFile(
       releaseSpecificationPath,
@@ -278,10 +343,14 @@ async function setupFollowMonorepoWorkflow({
     project,
     projectDirectoryPath,
     formatter,
+    backportCommitsSpy,
+    rereadProjectSpy,
     stdout,
     stderr,
     generateReleaseSpecificationTemplateForMonorepoSpy,
+    versionSuggestions,
     waitForUserToEditReleaseSpecificationSpy,
+    validateReleaseSpecificationSpy,
     releaseSpecification,
     planReleaseSpy,
     executeReleasePlanSpy,
@@ -289,6 +358,7 @@ async function setupFollowMonorepoWorkflow({
     createReleaseBranchSpy,
     releasePlan,
     releaseVersion,
+    releaseNotes,
     releaseSpecificationPath,
     fixConstraintsSpy,
     updateYarnLockfileSpy,
@@ -296,6 +366,108 @@ async function setupFollowMonorepoWorkflow({
   };
 }
 
+/**
+ * Sets up an invocation of `followMonorepoWorkflow` for a project that uses
+ * fixed versions, where the release spec file does not already exist.
+ *
+ * @param args - The arguments.
+ * @param args.sandbox - The sandbox.
+ * @param args.isEditorAvailable - Whether `determineEditor` should return an
+ * editor object.
+ * @param args.isFirstRun - Whether `createReleaseBranchForVersion` should
+ * report that the release branch was newly created.
+ * @param args.releaseVersion - The release version that the validated release
+ * spec will contain.
+ * @param args.prereleaseIdentifier - The prerelease identifier that the
+ * release spec is expected to be validated with.
+ * @returns Mock functions and other data that can be used in tests to make
+ * assertions.
+ */
+function setupFollowFixedMonorepoWorkflow({
+  sandbox,
+  isEditorAvailable = true,
+  isFirstRun = true,
+  releaseVersion = '2.0.0',
+  prereleaseIdentifier = null,
+}: {
+  sandbox: Sandbox;
+  isEditorAvailable?: boolean;
+  isFirstRun?: boolean;
+  releaseVersion?: string;
+  prereleaseIdentifier?: string | null;
+}) {
+  const {
+    determineEditorSpy,
+    createReleaseBranchSpy,
+    generateReleaseSpecificationTemplateForMonorepoSpy,
+    waitForUserToEditReleaseSpecificationSpy,
+    planReleaseSpy,
+    executeReleasePlanSpy,
+    commitAllChangesSpy,
+  } = getDependencySpies();
+  const generateReleaseSpecificationTemplateForFixedMonorepoSpy = jest
+    .spyOn(
+      releaseSpecificationModule,
+      'generateReleaseSpecificationTemplateForFixedMonorepo',
+    )
+    .mockResolvedValue('');
+  const validateFixedReleaseSpecificationSpy = jest.spyOn(
+    releaseSpecificationModule,
+    'validateFixedReleaseSpecification',
+  );
+  const createReleaseBranchForVersionSpy = jest
+    .spyOn(workflowOperations, 'createReleaseBranchForVersion')
+    .mockResolvedValue({
+      version: releaseVersion,
+      branchName: `release/${releaseVersion}`,
+      firstRun: isFirstRun,
+    });
+  const releaseSpecificationPath = path.join(
+    sandbox.directoryPath,
+    'RELEASE_SPEC.yml',
+  );
+  const releaseSpecification = {
+    ...buildMockReleaseSpecification({ path: releaseSpecificationPath }),
+    releaseVersion,
+  };
+  const releasePlan = buildMockReleasePlan({ newVersion: releaseVersion });
+  const projectDirectoryPath = '/path/to/project';
+  const project = buildMockProject({ directoryPath: projectDirectoryPath });
+  const stdout = new MockWritable();
+  const stderr = new MockWritable();
+  determineEditorSpy.mockResolvedValue(
+    isEditorAvailable ? buildMockEditor() : null,
+  );
+  waitForUserToEditReleaseSpecificationSpy.mockResolvedValue();
+  when(validateFixedReleaseSpecificationSpy)
+    .calledWith(project, releaseSpecificationPath, {
+      isGenerated: true,
+      prereleaseIdentifier,
+      propagate: false,
+    })
+    .mockResolvedValue(releaseSpecification);
+  planReleaseSpy.mockResolvedValue(releasePlan);
+  executeReleasePlanSpy.mockResolvedValue([]);
+  commitAllChangesSpy.mockResolvedValue();
+
+  return {
+    project,
+    projectDirectoryPath,
+    stdout,
+    stderr,
+    releaseSpecification,
+    releasePlan,
+    createReleaseBranchSpy,
+    createReleaseBranchForVersionSpy,
+    generateReleaseSpecificationTemplateForMonorepoSpy,
+    generateReleaseSpecificationTemplateForFixedMonorepoSpy,
+    validateFixedReleaseSpecificationSpy,
+    planReleaseSpy,
+    executeReleasePlanSpy,
+    commitAllChangesSpy,
+  };
+}
+
 describe('monorepo-workflow-operations', () => {
   describe('followMonorepoWorkflow', () => {
     describe('when firstRemovingExistingReleaseSpecification is false, the release spec file does not already exist, and an editor is available', () => {
@@ -306,6 +478,7 @@ describe('monorepo-workflow-operations', () => {
               sandbox,
               doesReleaseSpecFileExist: false,
               isEditorAvailable: true,
+              releaseVersion: '2.0.0',
             });
 
           await followMonorepoWorkflow({
@@ -322,6 +495,7 @@ describe('monorepo-workflow-operations', () => {
           expect(createReleaseBranchSpy).toHaveBeenCalledWith({
             project,
             releaseType: 'ordinary',
+            baseRef: null,
           });
         });
       });
@@ -333,6 +507,7 @@ describe('monorepo-workflow-operations', () => {
               sandbox,
               doesReleaseSpecFileExist: false,
               isEditorAvailable: true,
+              releaseVersion: '1.1.0',
             });
 
           await followMonorepoWorkflow({
@@ -349,7 +524,213 @@ describe('monorepo-workflow-operations', () => {
           expect(createReleaseBranchSpy).toHaveBeenCalledWith({
             project,
             releaseType: 'backport',
+            baseRef: 'v1.0.0',
+          });
+        });
+      });
+
+      it('cherry-picks the commits selected by the user onto a backport release branch, then reads the project again before initializing the changelogs', async () => {
+        await withSandbox(async (sandbox) => {
+          const {
+            project,
+            stdout,
+            stderr,
+            backportCommitsSpy,
+            rereadProjectSpy,
+            commitAllChangesSpy,
+            formatter,
+          } = await setupFollowMonorepoWorkflow({
+            sandbox,
+            doesReleaseSpecFileExist: false,
+            isEditorAvailable: true,
+            releaseVersion: '1.1.0',
+          });
+
+          await followMonorepoWorkflow({
+            project,
+            tempDirectoryPath: sandbox.directoryPath,
+            firstRemovingExistingReleaseSpecification: false,
+            releaseType: 'backport',
+            defaultBranch: 'main',
+            formatter,
+            stdout,
+            stderr,
+          });
+
+          expect(backportCommitsSpy).toHaveBeenCalledWith({
+            project,
+            baseTagName: 'v1.0.0',
+            defaultBranch: 'main',
+            backportCommitsPath: path.join(
+              sandbox.directoryPath,
+              'BACKPORT_COMMITS.txt',
+            ),
+            firstRemovingExistingBackportCommits: false,
+            stdout,
+          });
+          expect(rereadProjectSpy).toHaveBeenCalledWith(project, { stderr });
+          expect(backportCommitsSpy.mock.invocationCallOrder[0]).toBeLessThan(
+            rereadProjectSpy.mock.invocationCallOrder[0],
+          );
+          expect(rereadProjectSpy.mock.invocationCallOrder[0]).toBeLessThan(
+            commitAllChangesSpy.mock.invocationCallOrder[0],
+          );
+        });
+      });
+
+      it('stops before initializing the changelogs if the user needs to select the commits to backport and re-run the tool', async () => {
+        await withSandbox(async (sandbox) => {
+          const {
+            project,
+            stdout,
+            stderr,
+            backportCommitsSpy,
+            commitAllChangesSpy,
+            planReleaseSpy,
+            formatter,
+          } = await setupFollowMonorepoWorkflow({
+            sandbox,
+            doesReleaseSpecFileExist: false,
+            isEditorAvailable: true,
+            releaseVersion: '1.1.0',
+          });
+          backportCommitsSpy.mockResolvedValue(false);
+
+          await followMonorepoWorkflow({
+            project,
+            tempDirectoryPath: sandbox.directoryPath,
+            firstRemovingExistingReleaseSpecification: false,
+            releaseType: 'backport',
+            defaultBranch: 'main',
+            formatter,
+            stdout,
+            stderr,
+          });
+
+          expect(commitAllChangesSpy).not.toHaveBeenCalled();
+          expect(planReleaseSpy).not.toHaveBeenCalled();
+          expect(
+            await fileExists(
+              path.join(sandbox.directoryPath, 'RELEASE_STATE.json'),
+            ),
+          ).toBe(true);
+        });
+      });
+
+      it('removes the list of commits to backport once a backport release has been committed', async () => {
+        await withSandbox(async (sandbox) => {
+          const { project, stdout, stderr, formatter } =
+            await setupFollowMonorepoWorkflow({
+              sandbox,
+              doesReleaseSpecFileExist: false,
+              isEditorAvailable: true,
+              releaseVersion: '1.1.0',
+            });
+          const backportCommitsPath = path.join(
+            sandbox.directoryPath,
+            'BACKPORT_COMMITS.txt',
+          );
+          await fs.promises.writeFile(backportCommitsPath, '');
+
+          await followMonorepoWorkflow({
+            project,
+            tempDirectoryPath: sandbox.directoryPath,
+            firstRemovingExistingReleaseSpecification: false,
+            releaseType: 'backport',
+            defaultBranch: 'main',
+            formatter,
+            stdout,
+            stderr,
+          });
+
+          expect(await fileExists(backportCommitsPath)).toBe(false);
+        });
+      });
+
+      it('creates the release branch from the given ref, then reads the project again and uses it for the rest of the workflow', async () => {
+        await withSandbox(async (sandbox) => {
+          const {
+            project,
+            stdout,
+            stderr,
+            createReleaseBranchSpy,
+            planReleaseSpy,
+            formatter,
+          } = await setupFollowMonorepoWorkflow({
+            sandbox,
+            doesReleaseSpecFileExist: false,
+            isEditorAvailable: true,
+            releaseVersion: '2.0.0',
+          });
+          createReleaseBranchSpy.mockResolvedValue({
+            version: '2.0.0',
+            branchName: 'release/2.0.0',
+            firstRun: true,
+          });
+          const rereadProjectInstance = { ...project };
+          const rereadProjectSpy = jest
+            .spyOn(projectModule, 'rereadProject')
+            .mockResolvedValue(rereadProjectInstance);
+          const updateChangelogsForChangedPackagesSpy = jest
+            .spyOn(projectModule, 'updateChangelogsForChangedPackages')
+            .mockResolvedValue();
+
+          await followMonorepoWorkflow({
+            project,
+            tempDirectoryPath: sandbox.directoryPath,
+            firstRemovingExistingReleaseSpecification: false,
+            releaseType: 'ordinary',
+            defaultBranch: 'main',
+            baseRef: 'origin/main',
+            formatter,
+            stdout,
+            stderr,
+          });
+
+          expect(createReleaseBranchSpy).toHaveBeenCalledWith({
+            project,
+            releaseType: 'ordinary',
+            baseRef: 'origin/main',
+          });
+          expect(rereadProjectSpy).toHaveBeenCalledWith(project, { stderr });
+          expect(
+            updateChangelogsForChangedPackagesSpy.mock.calls[0][0].project,
+          ).toBe(rereadProjectInstance);
+          expect(planReleaseSpy.mock.calls[0][0].project).toBe(
+            rereadProjectInstance,
+          );
+        });
+      });
+
+      it('reads the project again even if the release branch was created from the given ref in a previous run, as it may not have been checked out', async () => {
+        await withSandbox(async (sandbox) => {
+          const { project, stdout, stderr, createReleaseBranchSpy, formatter } =
+            await setupFollowMonorepoWorkflow({
+              sandbox,
+              doesReleaseSpecFileExist: false,
+              isEditorAvailable: true,
+              releaseVersion: '2.0.0',
+            });
+          createReleaseBranchSpy.mockResolvedValue({
+            version: '2.0.0',
+            branchName: 'release/2.0.0',
+            firstRun: false,
+          });
+          const rereadProjectSpy = jest.spyOn(projectModule, 'rereadProject');
+
+          await followMonorepoWorkflow({
+            project,
+            tempDirectoryPath: sandbox.directoryPath,
+            firstRemovingExistingReleaseSpecification: false,
+            releaseType: 'ordinary',
+            defaultBranch: 'main',
+            baseRef: 'origin/main',
+            formatter,
+            stdout,
+            stderr,
           });
+
+          expect(rereadProjectSpy).toHaveBeenCalledWith(project, { stderr });
         });
       });
 
@@ -366,6 +747,7 @@ describe('monorepo-workflow-operations', () => {
             sandbox,
             doesReleaseSpecFileExist: false,
             isEditorAvailable: true,
+            releaseVersion: '2.0.0',
           });
 
           await followMonorepoWorkflow({
@@ -383,6 +765,7 @@ describe('monorepo-workflow-operations', () => {
             project,
             releaseSpecificationPackages: releaseSpecification.packages,
             newReleaseVersion: '2.0.0',
+            prereleaseIdentifier: null,
           });
         });
       });
@@ -400,6 +783,7 @@ describe('monorepo-workflow-operations', () => {
             sandbox,
             doesReleaseSpecFileExist: false,
             isEditorAvailable: true,
+            releaseVersion: '1.1.0',
           });
 
           await followMonorepoWorkflow({
@@ -417,6 +801,7 @@ describe('monorepo-workflow-operations', () => {
             project,
             releaseSpecificationPackages: releaseSpecification.packages,
             newReleaseVersion: '1.1.0',
+            prereleaseIdentifier: null,
           });
         });
       });
@@ -444,6 +829,7 @@ describe('monorepo-workflow-operations', () => {
 
           createReleaseBranchSpy.mockResolvedValueOnce({
             version: releaseVersion,
+            branchName: `release/${releaseVersion}`,
             firstRun: true,
           });
 
@@ -462,6 +848,7 @@ describe('monorepo-workflow-operations', () => {
           expect(createReleaseBranchSpy).toHaveBeenLastCalledWith({
             project,
             releaseType: 'ordinary',
+            baseRef: null,
           });
 
           expect(commitAllChangesSpy).toHaveBeenCalledTimes(2);
@@ -493,6 +880,7 @@ describe('monorepo-workflow-operations', () => {
 
           createReleaseBranchSpy.mockResolvedValueOnce({
             version: releaseVersion,
+            branchName: `release/${releaseVersion}`,
             firstRun: false, // It's no longer the first run
           });
 
@@ -511,6 +899,7 @@ describe('monorepo-workflow-operations', () => {
           expect(createReleaseBranchSpy).toHaveBeenLastCalledWith({
             project,
             releaseType: 'ordinary',
+            baseRef: null,
           });
 
           expect(commitAllChangesSpy).toHaveBeenCalledTimes(3);
@@ -845,7 +1234,7 @@ describe('monorepo-workflow-operations', () => {
               stdout,
               stderr,
             }),
-          ).rejects.toThrow(errorUponExecutingReleasePlan);
+          ).rejects.toThrow('Could not prepare the release: oops');
 
           expect(await fileExists(releaseSpecificationPath)).toBe(true);
         });
@@ -1026,6 +1415,7 @@ describe('monorepo-workflow-operations', () => {
             project,
             releaseSpecificationPackages: releaseSpecification.packages,
             newReleaseVersion: '2.0.0',
+            prereleaseIdentifier: null,
           });
         });
       });
@@ -1059,6 +1449,7 @@ describe('monorepo-workflow-operations', () => {
             project,
             releaseSpecificationPackages: releaseSpecification.packages,
             newReleaseVersion: '1.1.0',
+            prereleaseIdentifier: null,
           });
         });
       });
@@ -1256,7 +1647,7 @@ describe('monorepo-workflow-operations', () => {
               stdout,
               stderr,
             }),
-          ).rejects.toThrow(errorUponExecutingReleasePlan);
+          ).rejects.toThrow('Could not prepare the release: oops');
 
           expect(await fileExists(releaseSpecificationPath)).toBe(true);
         });
@@ -1294,6 +1685,7 @@ describe('monorepo-workflow-operations', () => {
             project,
             releaseSpecificationPackages: releaseSpecification.packages,
             newReleaseVersion: '2.0.0',
+            prereleaseIdentifier: null,
           });
         });
       });
@@ -1328,6 +1720,7 @@ describe('monorepo-workflow-operations', () => {
             project,
             releaseSpecificationPackages: releaseSpecification.packages,
             newReleaseVersion: '1.1.0',
+            prereleaseIdentifier: null,
           });
         });
       });
@@ -1651,7 +2044,7 @@ describe('monorepo-workflow-operations', () => {
               stdout,
               stderr,
             }),
-          ).rejects.toThrow(errorUponExecutingReleasePlan);
+          ).rejects.toThrow('Could not prepare the release: oops');
 
           expect(await fileExists(releaseSpecificationPath)).toBe(true);
         });
@@ -1780,6 +2173,7 @@ describe('monorepo-workflow-operations', () => {
             stdout,
             stderr,
             generateReleaseSpecificationTemplateForMonorepoSpy,
+            versionSuggestions,
             formatter,
           } = await setupFollowMonorepoWorkflow({
             sandbox,
@@ -1803,6 +2197,7 @@ describe('monorepo-workflow-operations', () => {
           ).toHaveBeenCalledWith({
             project,
             isEditorAvailable: true,
+            versionSuggestions,
           });
         });
       });
@@ -1837,6 +2232,7 @@ describe('monorepo-workflow-operations', () => {
             project,
             releaseSpecificationPackages: releaseSpecification.packages,
             newReleaseVersion: '2.0.0',
+            prereleaseIdentifier: null,
           });
         });
       });
@@ -1871,6 +2267,7 @@ describe('monorepo-workflow-operations', () => {
             project,
             releaseSpecificationPackages: releaseSpecification.packages,
             newReleaseVersion: '1.1.0',
+            prereleaseIdentifier: null,
           });
         });
       });
@@ -2194,7 +2591,7 @@ describe('monorepo-workflow-operations', () => {
               stdout,
               stderr,
             }),
-          ).rejects.toThrow(errorUponExecutingReleasePlan);
+          ).rejects.toThrow('Could not prepare the release: oops');
 
           expect(await fileExists(releaseSpecificationPath)).toBe(true);
         });
@@ -2209,6 +2606,7 @@ describe('monorepo-workflow-operations', () => {
             stdout,
             stderr,
             generateReleaseSpecificationTemplateForMonorepoSpy,
+            versionSuggestions,
             formatter,
           } = await setupFollowMonorepoWorkflow({
             sandbox,
@@ -2232,6 +2630,7 @@ describe('monorepo-workflow-operations', () => {
           ).toHaveBeenCalledWith({
             project,
             isEditorAvailable: false,
+            versionSuggestions,
           });
         });
       });
@@ -2348,5 +2747,2343 @@ describe('monorepo-workflow-operations', () => {
         });
       });
     });
+
+    describe('when the versioning strategy is "fixed"', () => {
+      it('generates a release spec template for fixed versions and does not create a release branch before the release spec is validated', async () => {
+        await withSandbox(async (sandbox) => {
+          const {
+            project,
+            stdout,
+            stderr,
+            createReleaseBranchSpy,
+            createReleaseBranchForVersionSpy,
+            generateReleaseSpecificationTemplateForMonorepoSpy,
+            generateReleaseSpecificationTemplateForFixedMonorepoSpy,
+            validateFixedReleaseSpecificationSpy,
+          } = setupFollowFixedMonorepoWorkflow({
+            sandbox,
+            isEditorAvailable: false,
+          });
+
+          await followMonorepoWorkflow({
+            project,
+            tempDirectoryPath: sandbox.directoryPath,
+            firstRemovingExistingReleaseSpecification: false,
+            releaseType: 'ordinary',
+            defaultBranch: 'main',
+            versioningStrategy: 'fixed',
+            formatter: 'prettier',
+            stdout,
+            stderr,
+          });
+
+          expect(
+            generateReleaseSpecificationTemplateForFixedMonorepoSpy,
+          ).toHaveBeenCalledWith({ project, isEditorAvailable: false });
+          expect(
+            generateReleaseSpecificationTemplateForMonorepoSpy,
+          ).not.toHaveBeenCalled();
+          expect(validateFixedReleaseSpecificationSpy).not.toHaveBeenCalled();
+          expect(createReleaseBranchSpy).not.toHaveBeenCalled();
+          expect(createReleaseBranchForVersionSpy).not.toHaveBeenCalled();
+        });
+      });
+
+      it('creates a release branch named after the release version in the validated release spec, then plans the release with that version', async () => {
+        await withSandbox(async (sandbox) => {
+          const {
+            project,
+            stdout,
+            stderr,
+            releaseSpecification,
+            createReleaseBranchSpy,
+            createReleaseBranchForVersionSpy,
+            planReleaseSpy,
+          } = setupFollowFixedMonorepoWorkflow({
+            sandbox,
+            releaseVersion: '3.0.0',
+          });
+
+          await followMonorepoWorkflow({
+            project,
+            tempDirectoryPath: sandbox.directoryPath,
+            firstRemovingExistingReleaseSpecification: false,
+            releaseType: 'ordinary',
+            defaultBranch: 'main',
+            versioningStrategy: 'fixed',
+            formatter: 'prettier',
+            stdout,
+            stderr,
+          });
+
+          expect(createReleaseBranchSpy).not.toHaveBeenCalled();
+          expect(createReleaseBranchForVersionSpy).toHaveBeenCalledWith({
+            project,
+            version: '3.0.0',
+            baseRef: null,
+            branchName: null,
+          });
+          expect(planReleaseSpy).toHaveBeenCalledWith({
+            project,
+            releaseSpecificationPackages: releaseSpecification.packages,
+            newReleaseVersion: '3.0.0',
+            prereleaseIdentifier: null,
+          });
+        });
+      });
+
+      it('uses the given prerelease identifier to determine the release version and to plan the release', async () => {
+        await withSandbox(async (sandbox) => {
+          const {
+            project,
+            stdout,
+            stderr,
+            releaseSpecification,
+            createReleaseBranchForVersionSpy,
+            planReleaseSpy,
+          } = setupFollowFixedMonorepoWorkflow({
+            sandbox,
+            releaseVersion: '3.0.0-rc.0',
+            prereleaseIdentifier: 'rc',
+          });
+
+          await followMonorepoWorkflow({
+            project,
+            tempDirectoryPath: sandbox.directoryPath,
+            firstRemovingExistingReleaseSpecification: false,
+            releaseType: 'ordinary',
+            defaultBranch: 'main',
+            versioningStrategy: 'fixed',
+            prereleaseIdentifier: 'rc',
+            formatter: 'prettier',
+            stdout,
+            stderr,
+          });
+
+          expect(createReleaseBranchForVersionSpy).toHaveBeenCalledWith({
+            project,
+            version: '3.0.0-rc.0',
+            baseRef: null,
+            branchName: null,
+          });
+          expect(planReleaseSpy).toHaveBeenCalledWith({
+            project,
+            releaseSpecificationPackages: releaseSpecification.packages,
+            newReleaseVersion: '3.0.0-rc.0',
+            prereleaseIdentifier: 'rc',
+          });
+        });
+      });
+
+      it('should make exactly two commits named after the release version if the release branch is new', async () => {
+        await withSandbox(async (sandbox) => {
+          const {
+            project,
+            projectDirectoryPath,
+            stdout,
+            stderr,
+            commitAllChangesSpy,
+          } = setupFollowFixedMonorepoWorkflow({
+            sandbox,
+            releaseVersion: '3.0.0',
+          });
+
+          await followMonorepoWorkflow({
+            project,
+            tempDirectoryPath: sandbox.directoryPath,
+            firstRemovingExistingReleaseSpecification: false,
+            releaseType: 'ordinary',
+            defaultBranch: 'main',
+            versioningStrategy: 'fixed',
+            formatter: 'prettier',
+            stdout,
+            stderr,
+          });
+
+          expect(commitAllChangesSpy).toHaveBeenCalledTimes(2);
+          expect(commitAllChangesSpy).toHaveBeenNthCalledWith(
+            1,
+            projectDirectoryPath,
+            'Initialize Release 3.0.0',
+          );
+          expect(commitAllChangesSpy).toHaveBeenNthCalledWith(
+            2,
+            projectDirectoryPath,
+            'Update Release 3.0.0',
+          );
+        });
+      });
+
+      it('should only make the release update commit if the release branch already exists', async () => {
+        await withSandbox(async (sandbox) => {
+          const {
+            project,
+            projectDirectoryPath,
+            stdout,
+            stderr,
+            commitAllChangesSpy,
+          } = setupFollowFixedMonorepoWorkflow({
+            sandbox,
+            isFirstRun: false,
+            releaseVersion: '3.0.0',
+          });
+
+          await followMonorepoWorkflow({
+            project,
+            tempDirectoryPath: sandbox.directoryPath,
+            firstRemovingExistingReleaseSpecification: false,
+            releaseType: 'ordinary',
+            defaultBranch: 'main',
+            versioningStrategy: 'fixed',
+            formatter: 'prettier',
+            stdout,
+            stderr,
+          });
+
+          expect(commitAllChangesSpy).toHaveBeenCalledTimes(1);
+          expect(commitAllChangesSpy).toHaveBeenCalledWith(
+            projectDirectoryPath,
+            'Update Release 3.0.0',
+          );
+        });
+      });
+    });
+
+    describe('when dryRun is true', () => {
+      it('prints the release plan, keeping the release spec, instead of creating a branch, executing the release plan, or committing', async () => {
+        await withSandbox(async (sandbox) => {
+          const {
+            project,
+            stdout,
+            stderr,
+            formatter,
+            releasePlan,
+            releaseSpecificationPath,
+            createReleaseBranchSpy,
+            executeReleasePlanSpy,
+            commitAllChangesSpy,
+            fixConstraintsSpy,
+          } = await setupFollowMonorepoWorkflow({
+            sandbox,
+            doesReleaseSpecFileExist: true,
+            releaseVersion: '2.0.0',
+          });
+          const preview = {
+            branchName: 'release/2.0.0',
+            commitMessages: [],
+            packages: [],
+          };
+          const previewReleasePlanSpy = jest
+            .spyOn(releasePlanPreviewModule, 'previewReleasePlan')
+            .mockResolvedValue(preview);
+          jest
+            .spyOn(releasePlanPreviewModule, 'formatReleasePlanPreview')
+            .mockReturnValue('the preview');
+
+          await followMonorepoWorkflow({
+            project,
+            tempDirectoryPath: sandbox.directoryPath,
+            firstRemovingExistingReleaseSpecification: false,
+            releaseType: 'ordinary',
+            defaultBranch: 'main',
+            dryRun: true,
+            formatter,
+            stdout,
+            stderr,
+          });
+
+          expect(previewReleasePlanSpy).toHaveBeenCalledWith({
+            project,
+            releasePlan,
+            branchName: 'release/2.0.0',
+            commitMessages: [
+              'Initialize Release 2.0.0',
+              'Update Release 2.0.0',
+            ],
+            formatter,
+          });
+          expect(stdout.data()).toContain(
+            `the preview\n\nThe release spec has been kept, so re-running this tool without \`--dry-run\` will prepare this release:\n\n${releaseSpecificationPath}\n`,
+          );
+          expect(createReleaseBranchSpy).not.toHaveBeenCalled();
+          expect(executeReleasePlanSpy).not.toHaveBeenCalled();
+          expect(commitAllChangesSpy).not.toHaveBeenCalled();
+          expect(fixConstraintsSpy).not.toHaveBeenCalled();
+          expect(await fileExists(releaseSpecificationPath)).toBe(true);
+        });
+      });
+
+      it('writes the release plan to the given path and says how to apply it', async () => {
+        await withSandbox(async (sandbox) => {
+          const {
+            project,
+            stdout,
+            stderr,
+            formatter,
+            releasePlan,
+            releaseSpecificationPath,
+          } = await setupFollowMonorepoWorkflow({
+            sandbox,
+            doesReleaseSpecFileExist: true,
+            releaseVersion: '2.0.0',
+          });
+          jest
+            .spyOn(releasePlanPreviewModule, 'formatReleasePlanPreview')
+            .mockReturnValue('the preview');
+          const writeReleasePlanFileSpy = jest
+            .spyOn(releasePlanFileModule, 'writeReleasePlanFile')
+            .mockResolvedValue();
+          const releasePlanOutputPath = path.join(
+            sandbox.directoryPath,
+            'plan.json',
+          );
+
+          await followMonorepoWorkflow({
+            project,
+            tempDirectoryPath: sandbox.directoryPath,
+            releasePlanOutputPath,
+            firstRemovingExistingReleaseSpecification: false,
+            releaseType: 'ordinary',
+            defaultBranch: 'main',
+            dryRun: true,
+            formatter,
+            stdout,
+            stderr,
+          });
+
+          expect(writeReleasePlanFileSpy).toHaveBeenCalledWith(
+            releasePlanOutputPath,
+            project,
+            releasePlan,
+          );
+          expect(stdout.data()).toContain(
+            `the preview\n\nThe release spec has been kept, so re-running this tool without \`--dry-run\` will prepare this release:\n\n${releaseSpecificationPath}\n\nThe release plan has been written to the following file, so running this tool with \`--apply-plan\` and this path will prepare this release:\n\n${releasePlanOutputPath}\n`,
+          );
+        });
+      });
+
+      it('does not create a release branch or commit anything for a project that uses fixed versions', async () => {
+        await withSandbox(async (sandbox) => {
+          const {
+            project,
+            stdout,
+            stderr,
+            createReleaseBranchForVersionSpy,
+            planReleaseSpy,
+            executeReleasePlanSpy,
+            commitAllChangesSpy,
+          } = setupFollowFixedMonorepoWorkflow({
+            sandbox,
+            releaseVersion: '3.0.0',
+          });
+          jest
+            .spyOn(releasePlanPreviewModule, 'formatReleasePlanPreview')
+            .mockReturnValue('the preview');
+
+          await followMonorepoWorkflow({
+            project,
+            tempDirectoryPath: sandbox.directoryPath,
+            firstRemovingExistingReleaseSpecification: false,
+            releaseType: 'ordinary',
+            defaultBranch: 'main',
+            versioningStrategy: 'fixed',
+            dryRun: true,
+            formatter: 'prettier',
+            stdout,
+            stderr,
+          });
+
+          expect(planReleaseSpy).toHaveBeenCalledWith(
+            expect.objectContaining({ newReleaseVersion: '3.0.0' }),
+          );
+          expect(createReleaseBranchForVersionSpy).not.toHaveBeenCalled();
+          expect(executeReleasePlanSpy).not.toHaveBeenCalled();
+          expect(commitAllChangesSpy).not.toHaveBeenCalled();
+        });
+      });
+    });
+
+    describe('when propagate is true', () => {
+      it('validates the release spec with bumps propagated, lists the packages that were added, adds them to the generated release spec, and plans the release so that dependency ranges are updated', async () => {
+        await withSandbox(async (sandbox) => {
+          const {
+            project,
+            stdout,
+            stderr,
+            formatter,
+            releaseSpecification,
+            releaseSpecificationPath,
+            releasePlan,
+            executeReleasePlanSpy,
+          } = await setupFollowMonorepoWorkflow({
+            sandbox,
+            doesReleaseSpecFileExist: true,
+            releaseVersion: '2.0.0',
+          });
+          const propagatedPackages = { b: ['a'], c: ['a', 'b'] };
+          when(
+            jest.spyOn(
+              releaseSpecificationModule,
+              'validateReleaseSpecification',
+            ),
+          )
+            .calledWith(project, releaseSpecificationPath, {
+              isGenerated: true,
+              prereleaseIdentifier: null,
+              propagate: true,
+            })
+            .mockResolvedValue({ ...releaseSpecification, propagatedPackages });
+          when(
+            jest.spyOn(
+              releaseSpecificationModule,
+              'addPropagatedPackagesToReleaseSpecification',
+            ),
+          )
+            .calledWith('some release specification', propagatedPackages)
+            .mockReturnValue('some updated release specification');
+          const planReleaseSpy = jest
+            .spyOn(releasePlanModule, 'planRelease')
+            .mockResolvedValue(releasePlan);
+
+          await followMonorepoWorkflow({
+            project,
+            tempDirectoryPath: sandbox.directoryPath,
+            firstRemovingExistingReleaseSpecification: false,
+            releaseType: 'ordinary',
+            defaultBranch: 'main',
+            propagate: true,
+            formatter,
+            stdout,
+            stderr,
+          });
+
+          expect(stdout.data()).toContain(
+            'The following packages have been added to the release with a patch bump, as they depend on packages that are being released with a major version bump (or on other packages added in this way):\n\n- b (depends on a)\n- c (depends on a, b)\n',
+          );
+          expect(planReleaseSpy).toHaveBeenCalledWith({
+            project,
+            releaseSpecificationPackages: releaseSpecification.packages,
+            newReleaseVersion: '2.0.0',
+            prereleaseIdentifier: null,
+          });
+          expect(executeReleasePlanSpy).toHaveBeenCalledWith(
+            project,
+            releasePlan,
+            formatter,
+            stderr,
+          );
+        });
+      });
+
+      it('keeps the release spec with the added packages in a dry run', async () => {
+        await withSandbox(async (sandbox) => {
+          const {
+            project,
+            stdout,
+            stderr,
+            formatter,
+            releaseSpecification,
+            releaseSpecificationPath,
+            releasePlan,
+          } = await setupFollowMonorepoWorkflow({
+            sandbox,
+            doesReleaseSpecFileExist: true,
+          });
+          const propagatedPackages = { b: ['a'] };
+          when(
+            jest.spyOn(
+              releaseSpecificationModule,
+              'validateReleaseSpecification',
+            ),
+          )
+            .calledWith(project, releaseSpecificationPath, {
+              isGenerated: true,
+              prereleaseIdentifier: null,
+              propagate: true,
+            })
+            .mockResolvedValue({ ...releaseSpecification, propagatedPackages });
+          when(
+            jest.spyOn(
+              releaseSpecificationModule,
+              'addPropagatedPackagesToReleaseSpecification',
+            ),
+          )
+            .calledWith('some release specification', propagatedPackages)
+            .mockReturnValue('some updated release specification');
+          jest
+            .spyOn(releasePlanModule, 'planRelease')
+            .mockResolvedValue(releasePlan);
+          jest
+            .spyOn(releasePlanPreviewModule, 'formatReleasePlanPreview')
+            .mockReturnValue('the preview');
+
+          await followMonorepoWorkflow({
+            project,
+            tempDirectoryPath: sandbox.directoryPath,
+            firstRemovingExistingReleaseSpecification: false,
+            releaseType: 'ordinary',
+            defaultBranch: 'main',
+            propagate: true,
+            dryRun: true,
+            formatter,
+            stdout,
+            stderr,
+          });
+
+          expect(
+            await fs.promises.readFile(releaseSpecificationPath, 'utf8'),
+          ).toBe('some updated release specification');
+        });
+      });
+
+      it('does not change a release spec that was provided', async () => {
+        await withSandbox(async (sandbox) => {
+          const {
+            project,
+            stdout,
+            stderr,
+            formatter,
+            releaseSpecification,
+            releasePlan,
+          } = await setupFollowMonorepoWorkflow({
+            sandbox,
+            doesReleaseSpecFileExist: false,
+          });
+          const providedReleaseSpecificationPath = path.join(
+            sandbox.directoryPath,
+            'my-release-spec.yml',
+          );
+          await fs.promises.writeFile(
+            providedReleaseSpecificationPath,
+            'some release specification',
+          );
+          when(
+            jest.spyOn(
+              releaseSpecificationModule,
+              'validateReleaseSpecification',
+            ),
+          )
+            .calledWith(project, providedReleaseSpecificationPath, {
+              isGenerated: false,
+              prereleaseIdentifier: null,
+              propagate: true,
+            })
+            .mockResolvedValue({
+              ...releaseSpecification,
+              propagatedPackages: { b: ['a'] },
+            });
+          jest
+            .spyOn(releasePlanModule, 'planRelease')
+            .mockResolvedValue(releasePlan);
+          const addPropagatedPackagesToReleaseSpecificationSpy = jest.spyOn(
+            releaseSpecificationModule,
+            'addPropagatedPackagesToReleaseSpecification',
+          );
+
+          await followMonorepoWorkflow({
+            project,
+            tempDirectoryPath: sandbox.directoryPath,
+            providedReleaseSpecificationPath,
+            firstRemovingExistingReleaseSpecification: false,
+            releaseType: 'ordinary',
+            defaultBranch: 'main',
+            propagate: true,
+            formatter,
+            stdout,
+            stderr,
+          });
+
+          expect(
+            addPropagatedPackagesToReleaseSpecificationSpy,
+          ).not.toHaveBeenCalled();
+          expect(
+            await fs.promises.readFile(
+              providedReleaseSpecificationPath,
+              'utf8',
+            ),
+          ).toBe('some release specification');
+        });
+      });
+    });
+
+    describe('when a release spec is provided', () => {
+      it('validates the release spec at the given path without generating a template or opening an editor, and does not remove it afterward', async () => {
+        await withSandbox(async (sandbox) => {
+          const {
+            project,
+            stdout,
+            stderr,
+            formatter,
+            releaseSpecification,
+            generateReleaseSpecificationTemplateForMonorepoSpy,
+            waitForUserToEditReleaseSpecificationSpy,
+            executeReleasePlanSpy,
+            releasePlan,
+          } = await setupFollowMonorepoWorkflow({
+            sandbox,
+            doesReleaseSpecFileExist: false,
+            isEditorAvailable: true,
+            releaseVersion: '2.0.0',
+          });
+          const providedReleaseSpecificationPath = path.join(
+            sandbox.directoryPath,
+            'my-release-spec.yml',
+          );
+          await fs.promises.writeFile(
+            providedReleaseSpecificationPath,
+            'some release specification',
+          );
+          const validateReleaseSpecificationSpy = jest.spyOn(
+            releaseSpecificationModule,
+            'validateReleaseSpecification',
+          );
+          when(validateReleaseSpecificationSpy)
+            .calledWith(project, providedReleaseSpecificationPath, {
+              isGenerated: false,
+              prereleaseIdentifier: null,
+              propagate: false,
+            })
+            .mockResolvedValue(releaseSpecification);
+
+          await followMonorepoWorkflow({
+            project,
+            tempDirectoryPath: sandbox.directoryPath,
+            providedReleaseSpecificationPath,
+            firstRemovingExistingReleaseSpecification: false,
+            releaseType: 'ordinary',
+            defaultBranch: 'main',
+            formatter,
+            stdout,
+            stderr,
+          });
+
+          expect(
+            generateReleaseSpecificationTemplateForMonorepoSpy,
+          ).not.toHaveBeenCalled();
+          expect(
+            waitForUserToEditReleaseSpecificationSpy,
+          ).not.toHaveBeenCalled();
+          expect(executeReleasePlanSpy).toHaveBeenCalledWith(
+            project,
+            releasePlan,
+            formatter,
+            stderr,
+          );
+          expect(await fileExists(providedReleaseSpecificationPath)).toBe(true);
+        });
+      });
+
+      it('reads the release spec from standard input if the given path is "-"', async () => {
+        await withSandbox(async (sandbox) => {
+          const {
+            project,
+            stdout,
+            stderr,
+            formatter,
+            releaseSpecification,
+            executeReleasePlanSpy,
+            releasePlan,
+          } = await setupFollowMonorepoWorkflow({
+            sandbox,
+            doesReleaseSpecFileExist: false,
+            releaseVersion: '2.0.0',
+          });
+          const validateReleaseSpecificationSpy = jest.spyOn(
+            releaseSpecificationModule,
+            'validateReleaseSpecification',
+          );
+          when(validateReleaseSpecificationSpy)
+            .calledWith(project, '-', {
+              isGenerated: false,
+              prereleaseIdentifier: null,
+              propagate: false,
+              contents: 'packages:\n  a: major\n',
+            })
+            .mockResolvedValue(releaseSpecification);
+
+          await followMonorepoWorkflow({
+            project,
+            tempDirectoryPath: sandbox.directoryPath,
+            providedReleaseSpecificationPath: '-',
+            firstRemovingExistingReleaseSpecification: false,
+            releaseType: 'ordinary',
+            defaultBranch: 'main',
+            formatter,
+            stdin: Readable.from(['packages:\n', '  a: major\n']),
+            stdout,
+            stderr,
+          });
+
+          expect(executeReleasePlanSpy).toHaveBeenCalledWith(
+            project,
+            releasePlan,
+            formatter,
+            stderr,
+          );
+        });
+      });
+
+      it('throws if the given path is "-" but standard input is not available', async () => {
+        await withSandbox(async (sandbox) => {
+          const { project, stdout, stderr, formatter } =
+            await setupFollowMonorepoWorkflow({
+              sandbox,
+              doesReleaseSpecFileExist: false,
+            });
+
+          await expect(
+            followMonorepoWorkflow({
+              project,
+              tempDirectoryPath: sandbox.directoryPath,
+              providedReleaseSpecificationPath: '-',
+              firstRemovingExistingReleaseSpecification: false,
+              releaseType: 'ordinary',
+              defaultBranch: 'main',
+              formatter,
+              stdout,
+              stderr,
+            }),
+          ).rejects.toThrow(
+            'Cannot read the release spec from standard input, as it is not available.',
+          );
+        });
+      });
+
+      it('does not mention keeping the release spec in a dry run', async () => {
+        await withSandbox(async (sandbox) => {
+          const { project, stdout, stderr, formatter, releaseSpecification } =
+            await setupFollowMonorepoWorkflow({
+              sandbox,
+              doesReleaseSpecFileExist: false,
+              releaseVersion: '2.0.0',
+            });
+          const providedReleaseSpecificationPath = path.join(
+            sandbox.directoryPath,
+            'my-release-spec.yml',
+          );
+          when(
+            jest.spyOn(
+              releaseSpecificationModule,
+              'validateReleaseSpecification',
+            ),
+          )
+            .calledWith(project, providedReleaseSpecificationPath, {
+              isGenerated: false,
+              prereleaseIdentifier: null,
+              propagate: false,
+            })
+            .mockResolvedValue(releaseSpecification);
+          jest
+            .spyOn(releasePlanPreviewModule, 'formatReleasePlanPreview')
+            .mockReturnValue('the preview');
+
+          await followMonorepoWorkflow({
+            project,
+            tempDirectoryPath: sandbox.directoryPath,
+            providedReleaseSpecificationPath,
+            firstRemovingExistingReleaseSpecification: false,
+            releaseType: 'ordinary',
+            defaultBranch: 'main',
+            dryRun: true,
+            formatter,
+            stdout,
+            stderr,
+          });
+
+          expect(stdout.data()).toStrictEqual(['the preview\n']);
+        });
+      });
+    });
+
+    describe('when a release plan is provided', () => {
+      it('creates the release branch for the planned version, then executes the plan instead of asking for a release spec', async () => {
+        await withSandbox(async (sandbox) => {
+          const {
+            project,
+            stdout,
+            stderr,
+            formatter,
+            releasePlan,
+            createReleaseBranchSpy,
+            waitForUserToEditReleaseSpecificationSpy,
+            validateReleaseSpecificationSpy,
+            planReleaseSpy,
+            executeReleasePlanSpy,
+            commitAllChangesSpy,
+          } = await setupFollowMonorepoWorkflow({
+            sandbox,
+            doesReleaseSpecFileExist: false,
+            isEditorAvailable: true,
+            releaseVersion: '2.0.0',
+          });
+          const a = buildMockPackage('a');
+          project.workspacePackages = { a };
+          const releasePlanPath = path.join(sandbox.directoryPath, 'plan.json');
+          when(jest.spyOn(releasePlanFileModule, 'readReleasePlanFile'))
+            .calledWith(releasePlanPath, project)
+            .mockResolvedValue({
+              newVersion: '2.0.0',
+              packages: [
+                { package: project.rootPackage, newVersion: '2.0.0' },
+                { package: a, newVersion: '1.1.0' },
+              ],
+            });
+          const createReleaseBranchForVersionSpy = jest
+            .spyOn(workflowOperations, 'createReleaseBranchForVersion')
+            .mockResolvedValue({
+              version: '2.0.0',
+              branchName: 'release/2.0.0',
+              firstRun: true,
+            });
+          when(planReleaseSpy)
+            .calledWith({
+              project,
+              releaseSpecificationPackages: { a: new SemVer('1.1.0') },
+              newReleaseVersion: '2.0.0',
+              prereleaseIdentifier: null,
+            })
+            .mockResolvedValue(releasePlan);
+
+          await followMonorepoWorkflow({
+            project,
+            tempDirectoryPath: sandbox.directoryPath,
+            releasePlanPath,
+            firstRemovingExistingReleaseSpecification: false,
+            releaseType: 'ordinary',
+            defaultBranch: 'main',
+            formatter,
+            stdout,
+            stderr,
+          });
+
+          expect(createReleaseBranchSpy).not.toHaveBeenCalled();
+          expect(createReleaseBranchForVersionSpy).toHaveBeenCalledWith({
+            project,
+            version: '2.0.0',
+            baseRef: null,
+            branchName: null,
+          });
+          expect(
+            waitForUserToEditReleaseSpecificationSpy,
+          ).not.toHaveBeenCalled();
+          expect(validateReleaseSpecificationSpy).not.toHaveBeenCalled();
+          expect(executeReleasePlanSpy).toHaveBeenCalledWith(
+            project,
+            releasePlan,
+            formatter,
+            stderr,
+          );
+          expect(commitAllChangesSpy).toHaveBeenLastCalledWith(
+            project.directoryPath,
+            'Update Release 2.0.0',
+          );
+        });
+      });
+
+      it('does not create the release branch if the project no longer matches the release plan', async () => {
+        await withSandbox(async (sandbox) => {
+          const { project, stdout, stderr, formatter, createReleaseBranchSpy } =
+            await setupFollowMonorepoWorkflow({
+              sandbox,
+              doesReleaseSpecFileExist: false,
+            });
+          const releasePlanPath = path.join(sandbox.directoryPath, 'plan.json');
+          jest
+            .spyOn(releasePlanFileModule, 'readReleasePlanFile')
+            .mockRejectedValue(new Error('The project no longer matches'));
+          const createReleaseBranchForVersionSpy = jest.spyOn(
+            workflowOperations,
+            'createReleaseBranchForVersion',
+          );
+
+          await expect(
+            followMonorepoWorkflow({
+              project,
+              tempDirectoryPath: sandbox.directoryPath,
+              releasePlanPath,
+              firstRemovingExistingReleaseSpecification: false,
+              releaseType: 'ordinary',
+              defaultBranch: 'main',
+              formatter,
+              stdout,
+              stderr,
+            }),
+          ).rejects.toThrow('The project no longer matches');
+
+          expect(createReleaseBranchSpy).not.toHaveBeenCalled();
+          expect(createReleaseBranchForVersionSpy).not.toHaveBeenCalled();
+        });
+      });
+    });
+
+    describe('when a step fails while preparing the release', () => {
+      it('restores the files changed by that step, lists them in the error, and does not commit or remove the release spec', async () => {
+        await withSandbox(async (sandbox) => {
+          const {
+            project,
+            stdout,
+            stderr,
+            formatter,
+            releaseSpecificationPath,
+            fixConstraintsSpy,
+            updateYarnLockfileSpy,
+            commitAllChangesSpy,
+          } = await setupFollowMonorepoWorkflow({
+            sandbox,
+            doesReleaseSpecFileExist: false,
+            isEditorAvailable: true,
+            releaseVersion: '2.0.0',
+          });
+          const manifestPath = path.join(sandbox.directoryPath, 'package.json');
+          const lockfilePath = path.join(sandbox.directoryPath, 'yarn.lock');
+          await fs.promises.writeFile(manifestPath, '{"version":"1.0.0"}');
+          jest
+            .spyOn(projectModule, 'getReleaseFilePaths')
+            .mockReturnValue([manifestPath, lockfilePath]);
+          fixConstraintsSpy.mockImplementation(async () => {
+            await fs.promises.writeFile(manifestPath, '{"version":"2.0.0"}');
+          });
+          updateYarnLockfileSpy.mockImplementation(async () => {
+            await fs.promises.writeFile(lockfilePath, 'some lockfile');
+            throw new Error('yarn install failed');
+          });
+
+          await expect(
+            followMonorepoWorkflow({
+              project,
+              tempDirectoryPath: sandbox.directoryPath,
+              firstRemovingExistingReleaseSpecification: false,
+              releaseType: 'ordinary',
+              defaultBranch: 'main',
+              formatter,
+              stdout,
+              stderr,
+            }),
+          ).rejects.toThrow(
+            `Could not prepare the release: yarn install failed\n\nThe following files have been restored to the state they were in before the release was prepared:\n\n- ${path.relative(
+              project.directoryPath,
+              lockfilePath,
+            )}`,
+          );
+
+          expect(await fs.promises.readFile(manifestPath, 'utf8')).toBe(
+            '{"version":"2.0.0"}',
+          );
+          expect(await fileExists(lockfilePath)).toBe(false);
+          expect(await fileExists(releaseSpecificationPath)).toBe(true);
+          expect(commitAllChangesSpy).not.toHaveBeenCalledWith(
+            project.directoryPath,
+            'Update Release 2.0.0',
+          );
+        });
+      });
+
+      it('continues from the step that failed when re-run', async () => {
+        await withSandbox(async (sandbox) => {
+          const {
+            project,
+            stdout,
+            stderr,
+            formatter,
+            releaseSpecificationPath,
+            createReleaseBranchSpy,
+            validateReleaseSpecificationSpy,
+            executeReleasePlanSpy,
+            fixConstraintsSpy,
+            updateYarnLockfileSpy,
+            commitAllChangesSpy,
+          } = await setupFollowMonorepoWorkflow({
+            sandbox,
+            doesReleaseSpecFileExist: false,
+            isEditorAvailable: true,
+            releaseVersion: '2.0.0',
+          });
+          const createReleaseBranchForVersionSpy = jest
+            .spyOn(workflowOperations, 'createReleaseBranchForVersion')
+            .mockResolvedValue({
+              version: '2.0.0',
+              branchName: 'release/2.0.0',
+              firstRun: false,
+            });
+          createReleaseBranchSpy.mockResolvedValue({
+            version: '2.0.0',
+            branchName: 'release/2.0.0',
+            firstRun: true,
+          });
+          updateYarnLockfileSpy.mockRejectedValueOnce(
+            new Error('yarn install failed'),
+          );
+          const run = async () =>
+            await followMonorepoWorkflow({
+              project,
+              tempDirectoryPath: sandbox.directoryPath,
+              firstRemovingExistingReleaseSpecification: false,
+              releaseType: 'ordinary',
+              defaultBranch: 'main',
+              formatter,
+              stdout,
+              stderr,
+            });
+
+          await expect(run()).rejects.toThrow(
+            'Could not prepare the release: yarn install failed',
+          );
+          await run();
+
+          expect(stdout.data()).toContain(
+            'Picking back up from previous run, where the following steps were completed: create-release-branch, initialize-changelogs, validate-release-spec, execute-release-plan, fix-constraints.\n',
+          );
+          expect(createReleaseBranchSpy).toHaveBeenCalledTimes(1);
+          expect(createReleaseBranchForVersionSpy).toHaveBeenCalledWith({
+            project,
+            version: '2.0.0',
+            baseRef: null,
+            branchName: 'release/2.0.0',
+          });
+          expect(validateReleaseSpecificationSpy).toHaveBeenCalledTimes(1);
+          expect(executeReleasePlanSpy).toHaveBeenCalledTimes(1);
+          expect(fixConstraintsSpy).toHaveBeenCalledTimes(1);
+          expect(updateYarnLockfileSpy).toHaveBeenCalledTimes(2);
+          expect(commitAllChangesSpy).toHaveBeenCalledTimes(2);
+          expect(commitAllChangesSpy).toHaveBeenLastCalledWith(
+            project.directoryPath,
+            'Update Release 2.0.0',
+          );
+          expect(await fileExists(releaseSpecificationPath)).toBe(false);
+          expect(
+            await fileExists(
+              path.join(sandbox.directoryPath, 'RELEASE_STATE.json'),
+            ),
+          ).toBe(false);
+        });
+      });
+
+      it('resumes on the release branch created by the previous run even if the date has changed since', async () => {
+        await withSandbox(async (sandbox) => {
+          const {
+            project,
+            stdout,
+            stderr,
+            formatter,
+            createReleaseBranchSpy,
+            updateYarnLockfileSpy,
+          } = await setupFollowMonorepoWorkflow({
+            sandbox,
+            doesReleaseSpecFileExist: false,
+            isEditorAvailable: true,
+            releaseVersion: '2.0.0',
+          });
+          project.configuration.releaseBranchNameTemplate =
+            'release/{date}-{version}';
+          createReleaseBranchSpy.mockResolvedValue({
+            version: '2.0.0',
+            branchName: 'release/2024-03-04-2.0.0',
+            firstRun: true,
+          });
+          jest
+            .spyOn(repoModule, 'getCurrentBranchName')
+            .mockResolvedValue('main');
+          when(jest.spyOn(repoModule, 'branchExists'))
+            .calledWith(project.directoryPath, 'release/2024-03-04-2.0.0')
+            .mockResolvedValue(true);
+          const runGitCommandWithinSpy = jest.spyOn(
+            repoModule,
+            'runGitCommandWithin',
+          );
+          updateYarnLockfileSpy.mockRejectedValueOnce(
+            new Error('yarn install failed'),
+          );
+          const run = async () =>
+            await followMonorepoWorkflow({
+              project,
+              tempDirectoryPath: sandbox.directoryPath,
+              firstRemovingExistingReleaseSpecification: false,
+              releaseType: 'ordinary',
+              defaultBranch: 'main',
+              formatter,
+              stdout,
+              stderr,
+            });
+
+          await expect(run()).rejects.toThrow(
+            'Could not prepare the release: yarn install failed',
+          );
+          await run();
+
+          expect(createReleaseBranchSpy).toHaveBeenCalledTimes(1);
+          expect(runGitCommandWithinSpy).toHaveBeenCalledWith(
+            project.directoryPath,
+            'checkout',
+            ['release/2024-03-04-2.0.0'],
+          );
+          expect(runGitCommandWithinSpy).not.toHaveBeenCalledWith(
+            project.directoryPath,
+            'checkout',
+            expect.arrayContaining(['-b']),
+          );
+        });
+      });
+
+      it('throws if a release spec or plan is given when re-run after the previous run already determined which packages to release', async () => {
+        await withSandbox(async (sandbox) => {
+          const {
+            project,
+            stdout,
+            stderr,
+            formatter,
+            createReleaseBranchSpy,
+            executeReleasePlanSpy,
+            updateYarnLockfileSpy,
+          } = await setupFollowMonorepoWorkflow({
+            sandbox,
+            doesReleaseSpecFileExist: false,
+            isEditorAvailable: true,
+            releaseVersion: '2.0.0',
+          });
+          createReleaseBranchSpy.mockResolvedValue({
+            version: '2.0.0',
+            branchName: 'release/2.0.0',
+            firstRun: true,
+          });
+          updateYarnLockfileSpy.mockRejectedValueOnce(
+            new Error('yarn install failed'),
+          );
+          const run = async (
+            options: {
+              providedReleaseSpecificationPath?: string;
+              releasePlanPath?: string;
+            } = {},
+          ) =>
+            await followMonorepoWorkflow({
+              project,
+              tempDirectoryPath: sandbox.directoryPath,
+              firstRemovingExistingReleaseSpecification: false,
+              releaseType: 'ordinary',
+              defaultBranch: 'main',
+              formatter,
+              stdout,
+              stderr,
+              ...options,
+            });
+
+          await expect(run()).rejects.toThrow(
+            'Could not prepare the release: yarn install failed',
+          );
+
+          await expect(
+            run({
+              providedReleaseSpecificationPath: path.join(
+                sandbox.directoryPath,
+                'spec.yml',
+              ),
+            }),
+          ).rejects.toThrow(
+            'A previous run has already determined which packages to release, so the release spec given with `--release-spec` would be ignored. Please re-run this tool with `--reset` to start over with it, or without `--release-spec` to pick back up from the previous run.',
+          );
+          await expect(
+            run({
+              releasePlanPath: path.join(sandbox.directoryPath, 'plan.json'),
+            }),
+          ).rejects.toThrow(
+            'A previous run has already determined which packages to release, so the release plan given with `--apply-plan` would be ignored. Please re-run this tool with `--reset` to start over with it, or without `--apply-plan` to pick back up from the previous run.',
+          );
+          expect(executeReleasePlanSpy).toHaveBeenCalledTimes(1);
+          expect(updateYarnLockfileSpy).toHaveBeenCalledTimes(1);
+        });
+      });
+
+      it('only commits the changes when re-run if committing them failed', async () => {
+        await withSandbox(async (sandbox) => {
+          const {
+            project,
+            stdout,
+            stderr,
+            formatter,
+            createReleaseBranchSpy,
+            executeReleasePlanSpy,
+            updateYarnLockfileSpy,
+            commitAllChangesSpy,
+          } = await setupFollowMonorepoWorkflow({
+            sandbox,
+            doesReleaseSpecFileExist: false,
+            isEditorAvailable: true,
+            releaseVersion: '2.0.0',
+          });
+          jest
+            .spyOn(workflowOperations, 'createReleaseBranchForVersion')
+            .mockResolvedValue({
+              version: '2.0.0',
+              branchName: 'release/2.0.0',
+              firstRun: false,
+            });
+          createReleaseBranchSpy.mockResolvedValue({
+            version: '2.0.0',
+            branchName: 'release/2.0.0',
+            firstRun: false,
+          });
+          when(commitAllChangesSpy)
+            .calledWith(project.directoryPath, 'Update Release 2.0.0')
+            .mockRejectedValueOnce(new Error('git commit failed'));
+          const run = async () =>
+            await followMonorepoWorkflow({
+              project,
+              tempDirectoryPath: sandbox.directoryPath,
+              firstRemovingExistingReleaseSpecification: false,
+              releaseType: 'ordinary',
+              defaultBranch: 'main',
+              formatter,
+              stdout,
+              stderr,
+            });
+
+          await expect(run()).rejects.toThrow('git commit failed');
+          await run();
+
+          expect(executeReleasePlanSpy).toHaveBeenCalledTimes(1);
+          expect(updateYarnLockfileSpy).toHaveBeenCalledTimes(1);
+          expect(commitAllChangesSpy).toHaveBeenCalledTimes(2);
+        });
+      });
+
+      it('carries out the given step and every step after it again if asked to restart from that step', async () => {
+        await withSandbox(async (sandbox) => {
+          const {
+            project,
+            stdout,
+            stderr,
+            formatter,
+            createReleaseBranchSpy,
+            validateReleaseSpecificationSpy,
+            executeReleasePlanSpy,
+            fixConstraintsSpy,
+            updateYarnLockfileSpy,
+          } = await setupFollowMonorepoWorkflow({
+            sandbox,
+            doesReleaseSpecFileExist: false,
+            isEditorAvailable: true,
+            releaseVersion: '2.0.0',
+          });
+          jest
+            .spyOn(workflowOperations, 'createReleaseBranchForVersion')
+            .mockResolvedValue({
+              version: '2.0.0',
+              branchName: 'release/2.0.0',
+              firstRun: false,
+            });
+          createReleaseBranchSpy.mockResolvedValue({
+            version: '2.0.0',
+            branchName: 'release/2.0.0',
+            firstRun: true,
+          });
+          updateYarnLockfileSpy.mockRejectedValueOnce(
+            new Error('yarn install failed'),
+          );
+          const run = async (restartFrom: WorkflowStep | null) =>
+            await followMonorepoWorkflow({
+              project,
+              tempDirectoryPath: sandbox.directoryPath,
+              firstRemovingExistingReleaseSpecification: false,
+              restartFrom,
+              releaseType: 'ordinary',
+              defaultBranch: 'main',
+              formatter,
+              stdout,
+              stderr,
+            });
+
+          await expect(run(null)).rejects.toThrow(
+            'Could not prepare the release: yarn install failed',
+          );
+          await run('execute-release-plan');
+
+          expect(stdout.data()).toContain(
+            'Picking back up from previous run, where the following steps were completed: create-release-branch, initialize-changelogs, validate-release-spec.\n',
+          );
+          expect(validateReleaseSpecificationSpy).toHaveBeenCalledTimes(1);
+          expect(executeReleasePlanSpy).toHaveBeenCalledTimes(2);
+          expect(fixConstraintsSpy).toHaveBeenCalledTimes(2);
+          expect(updateYarnLockfileSpy).toHaveBeenCalledTimes(2);
+        });
+      });
+
+      it('restores the files changed by executing the release plan before executing it again if asked to restart from that step, so that packages are not bumped twice', async () => {
+        await withSandbox(async (sandbox) => {
+          const {
+            stdout,
+            stderr,
+            formatter,
+            releaseSpecification,
+            createReleaseBranchSpy,
+            generateReleaseSpecificationTemplateForMonorepoSpy,
+            validateReleaseSpecificationSpy,
+            planReleaseSpy,
+            executeReleasePlanSpy,
+            updateYarnLockfileSpy,
+            rereadProjectSpy,
+          } = await setupFollowMonorepoWorkflow({
+            sandbox,
+            doesReleaseSpecFileExist: false,
+            isEditorAvailable: true,
+            releaseVersion: '2.0.0',
+          });
+          const actualReleasePlanModule =
+            jest.requireActual<typeof releasePlanModule>('./release-plan');
+          const projectDirectoryPath = path.join(
+            sandbox.directoryPath,
+            'project',
+          );
+          const packageDirectoryPath = path.join(
+            projectDirectoryPath,
+            'packages',
+            'a',
+          );
+          const manifestPath = path.join(packageDirectoryPath, 'package.json');
+          await fs.promises.mkdir(packageDirectoryPath, { recursive: true });
+          await fs.promises.writeFile(
+            path.join(projectDirectoryPath, 'package.json'),
+            JSON.stringify({ name: 'root', version: '1.0.0' }),
+          );
+          await fs.promises.writeFile(
+            manifestPath,
+            JSON.stringify({ name: 'a', version: '1.0.0' }),
+          );
+
+          const readPackage = async (name: string, directoryPath: string) => {
+            const manifest = JSON.parse(
+              await fs.promises.readFile(
+                path.join(directoryPath, 'package.json'),
+                'utf8',
+              ),
+            );
+            return buildMockPackage(name, manifest.version, {
+              directoryPath,
+              unvalidatedManifest: manifest,
+            });
+          };
+
+          // The project is read as it is on disk, as it would be by the tool.
+          const readProject = async () =>
+            buildMockProject({
+              directoryPath: projectDirectoryPath,
+              rootPackage: await readPackage('root', projectDirectoryPath),
+              workspacePackages: {
+                a: await readPackage('a', packageDirectoryPath),
+              },
+            });
+          rereadProjectSpy.mockImplementation(readProject);
+          jest
+            .spyOn(workflowOperations, 'createReleaseBranchForVersion')
+            .mockResolvedValue({
+              version: '2.0.0',
+              branchName: 'release/2.0.0',
+              firstRun: false,
+            });
+          createReleaseBranchSpy.mockResolvedValue({
+            version: '2.0.0',
+            branchName: 'release/2.0.0',
+            firstRun: false,
+          });
+          generateReleaseSpecificationTemplateForMonorepoSpy.mockResolvedValue(
+            '',
+          );
+          validateReleaseSpecificationSpy.mockResolvedValue({
+            ...releaseSpecification,
+            packages: {
+              a: releaseSpecificationModule.IncrementableVersionParts.major,
+            },
+          });
+          planReleaseSpy.mockImplementation(
+            actualReleasePlanModule.planRelease,
+          );
+          jest
+            .spyOn(releaseSpecificationModule, 'incrementVersion')
+            .mockImplementation(
+              jest.requireActual<typeof releaseSpecificationModule>(
+                './release-specification',
+              ).incrementVersion,
+            );
+          executeReleasePlanSpy.mockImplementation(
+            actualReleasePlanModule.executeReleasePlan,
+          );
+          jest
+            .spyOn(releaseNotesModule, 'buildReleaseNotes')
+            .mockResolvedValue({ releaseVersion: '2.0.0', packages: [] });
+          updateYarnLockfileSpy.mockRejectedValueOnce(
+            new Error('yarn install failed'),
+          );
+          const run = async (restartFrom: WorkflowStep | null) =>
+            await followMonorepoWorkflow({
+              project: await readProject(),
+              tempDirectoryPath: sandbox.directoryPath,
+              firstRemovingExistingReleaseSpecification: false,
+              restartFrom,
+              releaseType: 'ordinary',
+              defaultBranch: 'main',
+              formatter,
+              stdout,
+              stderr,
+            });
+
+          await expect(run(null)).rejects.toThrow(
+            'Could not prepare the release: yarn install failed',
+          );
+          await run('execute-release-plan');
+
+          expect(executeReleasePlanSpy).toHaveBeenCalledTimes(2);
+          expect(
+            JSON.parse(await fs.promises.readFile(manifestPath, 'utf8')),
+          ).toStrictEqual({ name: 'a', version: '2.0.0' });
+          expect(stdout.data()).toContain(
+            `The following files have been restored to the state they were in before the release plan was last executed:\n\n- package.json\n- ${path.join('packages', 'a', 'package.json')}\n`,
+          );
+        });
+      });
+
+      it('throws if asked to restart from a step when there is no record of a previous run', async () => {
+        await withSandbox(async (sandbox) => {
+          const { project, stdout, stderr, formatter, createReleaseBranchSpy } =
+            await setupFollowMonorepoWorkflow({
+              sandbox,
+              doesReleaseSpecFileExist: false,
+            });
+
+          await expect(
+            followMonorepoWorkflow({
+              project,
+              tempDirectoryPath: sandbox.directoryPath,
+              firstRemovingExistingReleaseSpecification: false,
+              restartFrom: 'update-lockfile',
+              releaseType: 'ordinary',
+              defaultBranch: 'main',
+              formatter,
+              stdout,
+              stderr,
+            }),
+          ).rejects.toThrow(
+            'Cannot restart from "update-lockfile", as there is no record of a previous run. Please re-run this tool without `--restart-from`.',
+          );
+          expect(createReleaseBranchSpy).not.toHaveBeenCalled();
+        });
+      });
+
+      it('forgets what the previous run accomplished if firstRemovingExistingReleaseSpecification is true', async () => {
+        await withSandbox(async (sandbox) => {
+          const {
+            project,
+            stdout,
+            stderr,
+            formatter,
+            createReleaseBranchSpy,
+            validateReleaseSpecificationSpy,
+            updateYarnLockfileSpy,
+          } = await setupFollowMonorepoWorkflow({
+            sandbox,
+            doesReleaseSpecFileExist: false,
+            isEditorAvailable: true,
+            releaseVersion: '2.0.0',
+          });
+          createReleaseBranchSpy.mockResolvedValue({
+            version: '2.0.0',
+            branchName: 'release/2.0.0',
+            firstRun: true,
+          });
+          updateYarnLockfileSpy.mockRejectedValueOnce(
+            new Error('yarn install failed'),
+          );
+          const run = async (
+            firstRemovingExistingReleaseSpecification: boolean,
+          ) =>
+            await followMonorepoWorkflow({
+              project,
+              tempDirectoryPath: sandbox.directoryPath,
+              firstRemovingExistingReleaseSpecification,
+              releaseType: 'ordinary',
+              defaultBranch: 'main',
+              formatter,
+              stdout,
+              stderr,
+            });
+
+          await expect(run(false)).rejects.toThrow(
+            'Could not prepare the release: yarn install failed',
+          );
+          await run(true);
+
+          expect(stdout.data().join('')).not.toContain(
+            'Picking back up from previous run',
+          );
+          expect(createReleaseBranchSpy).toHaveBeenCalledTimes(2);
+          expect(validateReleaseSpecificationSpy).toHaveBeenCalledTimes(2);
+        });
+      });
+    });
+
+    describe('when the package manager does not support constraints or deduplication', () => {
+      it('only updates the lockfile', async () => {
+        await withSandbox(async (sandbox) => {
+          const {
+            project,
+            stdout,
+            stderr,
+            formatter,
+            fixConstraintsSpy,
+            deduplicateDependenciesSpy,
+            commitAllChangesSpy,
+          } = await setupFollowMonorepoWorkflow({
+            sandbox,
+            doesReleaseSpecFileExist: false,
+            isEditorAvailable: true,
+            releaseVersion: '2.0.0',
+          });
+          const updateLockfile = jest.fn();
+          project.packageManager = {
+            name: 'npm',
+            lockfileName: 'package-lock.json',
+            listWorkspaceDirectories: jest.fn(),
+            updateLockfile,
+          };
+
+          await followMonorepoWorkflow({
+            project,
+            tempDirectoryPath: sandbox.directoryPath,
+            firstRemovingExistingReleaseSpecification: false,
+            releaseType: 'ordinary',
+            defaultBranch: 'main',
+            formatter,
+            stdout,
+            stderr,
+          });
+
+          expect(updateLockfile).toHaveBeenCalledWith(project.directoryPath);
+          expect(fixConstraintsSpy).not.toHaveBeenCalled();
+          expect(deduplicateDependenciesSpy).not.toHaveBeenCalled();
+          expect(commitAllChangesSpy).toHaveBeenLastCalledWith(
+            project.directoryPath,
+            'Update Release 2.0.0',
+          );
+        });
+      });
+    });
+
+    describe('when releaseNotesPath is given', () => {
+      it('writes the release notes once the changes have been committed', async () => {
+        await withSandbox(async (sandbox) => {
+          const {
+            project,
+            stdout,
+            stderr,
+            formatter,
+            releaseNotes,
+            commitAllChangesSpy,
+          } = await setupFollowMonorepoWorkflow({
+            sandbox,
+            doesReleaseSpecFileExist: false,
+            isEditorAvailable: true,
+            releaseVersion: '2.0.0',
+          });
+          const calls: string[] = [];
+          when(commitAllChangesSpy)
+            .calledWith(project.directoryPath, 'Update Release 2.0.0')
+            .mockImplementation(async () => {
+              calls.push('commit');
+            });
+          const writeReleaseNotesSpy = jest
+            .spyOn(releaseNotesModule, 'writeReleaseNotes')
+            .mockImplementation(async () => {
+              calls.push('write-release-notes');
+            });
+          const releaseNotesPath = path.join(
+            sandbox.directoryPath,
+            'RELEASE_NOTES.md',
+          );
+
+          await followMonorepoWorkflow({
+            project,
+            tempDirectoryPath: sandbox.directoryPath,
+            firstRemovingExistingReleaseSpecification: false,
+            releaseType: 'ordinary',
+            defaultBranch: 'main',
+            formatter,
+            releaseNotesPath,
+            stdout,
+            stderr,
+          });
+
+          expect(calls).toStrictEqual(['commit', 'write-release-notes']);
+          expect(writeReleaseNotesSpy).toHaveBeenCalledWith({
+            releaseNotes,
+            releaseNotesPath,
+            stdout,
+          });
+        });
+      });
+
+      it('does not write the release notes if a step before the commit fails', async () => {
+        await withSandbox(async (sandbox) => {
+          const { project, stdout, stderr, formatter, updateYarnLockfileSpy } =
+            await setupFollowMonorepoWorkflow({
+              sandbox,
+              doesReleaseSpecFileExist: false,
+              isEditorAvailable: true,
+              releaseVersion: '2.0.0',
+            });
+          updateYarnLockfileSpy.mockRejectedValue(
+            new Error('yarn install failed'),
+          );
+          const writeReleaseNotesSpy = jest.spyOn(
+            releaseNotesModule,
+            'writeReleaseNotes',
+          );
+
+          await expect(
+            followMonorepoWorkflow({
+              project,
+              tempDirectoryPath: sandbox.directoryPath,
+              firstRemovingExistingReleaseSpecification: false,
+              releaseType: 'ordinary',
+              defaultBranch: 'main',
+              formatter,
+              releaseNotesPath: path.join(
+                sandbox.directoryPath,
+                'RELEASE_NOTES.md',
+              ),
+              stdout,
+              stderr,
+            }),
+          ).rejects.toThrow('yarn install failed');
+
+          expect(writeReleaseNotesSpy).not.toHaveBeenCalled();
+        });
+      });
+
+      it('throws if the release notes were not recorded in a previous run', async () => {
+        await withSandbox(async (sandbox) => {
+          const {
+            project,
+            stdout,
+            stderr,
+            formatter,
+            createReleaseBranchSpy,
+            commitAllChangesSpy,
+          } = await setupFollowMonorepoWorkflow({
+            sandbox,
+            doesReleaseSpecFileExist: false,
+            isEditorAvailable: true,
+            releaseVersion: '2.0.0',
+          });
+          jest
+            .spyOn(workflowOperations, 'createReleaseBranchForVersion')
+            .mockResolvedValue({
+              version: '2.0.0',
+              branchName: 'release/2.0.0',
+              firstRun: false,
+            });
+          createReleaseBranchSpy.mockResolvedValue({
+            version: '2.0.0',
+            branchName: 'release/2.0.0',
+            firstRun: false,
+          });
+          when(commitAllChangesSpy)
+            .calledWith(project.directoryPath, 'Update Release 2.0.0')
+            .mockRejectedValueOnce(new Error('git commit failed'));
+          const writeReleaseNotesSpy = jest.spyOn(
+            releaseNotesModule,
+            'writeReleaseNotes',
+          );
+          const run = async () =>
+            await followMonorepoWorkflow({
+              project,
+              tempDirectoryPath: sandbox.directoryPath,
+              firstRemovingExistingReleaseSpecification: false,
+              releaseType: 'ordinary',
+              defaultBranch: 'main',
+              formatter,
+              releaseNotesPath: path.join(
+                sandbox.directoryPath,
+                'RELEASE_NOTES.md',
+              ),
+              stdout,
+              stderr,
+            });
+
+          await expect(run()).rejects.toThrow('git commit failed');
+          // Simulate a record made before release notes were kept.
+          const statePath = path.join(
+            sandbox.directoryPath,
+            'RELEASE_STATE.json',
+          );
+          const { releaseNotes: _releaseNotes, ...state } = JSON.parse(
+            await fs.promises.readFile(statePath, 'utf8'),
+          );
+          await fs.promises.writeFile(statePath, JSON.stringify(state));
+
+          await expect(run()).rejects.toThrow(
+            'Cannot write the release notes, as they were not recorded when the release plan was executed. Please re-run this tool with `--restart-from execute-release-plan` to record them.',
+          );
+          expect(writeReleaseNotesSpy).not.toHaveBeenCalled();
+        });
+      });
+    });
+
+    describe('when push is true or a forge client is given', () => {
+      it('does not push the release branch or open a pull request by default', async () => {
+        await withSandbox(async (sandbox) => {
+          const { project, stdout, stderr, formatter } =
+            await setupFollowMonorepoWorkflow({
+              sandbox,
+              doesReleaseSpecFileExist: false,
+              isEditorAvailable: true,
+              releaseVersion: '2.0.0',
+            });
+          jest
+            .spyOn(workflowOperations, 'createReleaseBranchForVersion')
+            .mockResolvedValue({
+              version: '2.0.0',
+              branchName: 'release/2.0.0',
+              firstRun: false,
+            });
+          const pushReleaseBranchSpy = jest.spyOn(
+            releasePullRequestModule,
+            'pushReleaseBranch',
+          );
+          const openReleasePullRequestSpy = jest.spyOn(
+            releasePullRequestModule,
+            'openReleasePullRequest',
+          );
+
+          await followMonorepoWorkflow({
+            project,
+            tempDirectoryPath: sandbox.directoryPath,
+            firstRemovingExistingReleaseSpecification: false,
+            releaseType: 'ordinary',
+            defaultBranch: 'main',
+            formatter,
+            stdout,
+            stderr,
+          });
+
+          expect(pushReleaseBranchSpy).not.toHaveBeenCalled();
+          expect(openReleasePullRequestSpy).not.toHaveBeenCalled();
+        });
+      });
+
+      it('pushes the release branch and then opens a pull request built from the release notes, once the changes have been committed', async () => {
+        await withSandbox(async (sandbox) => {
+          const {
+            project,
+            stdout,
+            stderr,
+            formatter,
+            releaseNotes,
+            commitAllChangesSpy,
+          } = await setupFollowMonorepoWorkflow({
+            sandbox,
+            doesReleaseSpecFileExist: false,
+            isEditorAvailable: true,
+            releaseVersion: '2.0.0',
+          });
+          jest
+            .spyOn(workflowOperations, 'createReleaseBranchForVersion')
+            .mockResolvedValue({
+              version: '2.0.0',
+              branchName: 'release/2.0.0',
+              firstRun: false,
+            });
+          const forgeClient = { openPullRequest: jest.fn() };
+          const calls: string[] = [];
+          when(commitAllChangesSpy)
+            .calledWith(project.directoryPath, 'Update Release 2.0.0')
+            .mockImplementation(async () => {
+              calls.push('commit');
+            });
+          const pushReleaseBranchSpy = jest
+            .spyOn(releasePullRequestModule, 'pushReleaseBranch')
+            .mockImplementation(async () => {
+              calls.push('push');
+              return 'release/2.0.0';
+            });
+          const openReleasePullRequestSpy = jest
+            .spyOn(releasePullRequestModule, 'openReleasePullRequest')
+            .mockImplementation(async () => {
+              calls.push('open-pull-request');
+            });
+
+          await followMonorepoWorkflow({
+            project,
+            tempDirectoryPath: sandbox.directoryPath,
+            firstRemovingExistingReleaseSpecification: false,
+            releaseType: 'ordinary',
+            defaultBranch: 'develop',
+            push: true,
+            remote: 'upstream',
+            forgeClient,
+            pullRequestLabels: ['release', 'team-a'],
+            formatter,
+            stdout,
+            stderr,
+          });
+
+          expect(calls).toStrictEqual(['commit', 'push', 'open-pull-request']);
+          expect(pushReleaseBranchSpy).toHaveBeenCalledWith({
+            project,
+            remote: 'upstream',
+            stdout,
+            reportEvent: expect.any(Function),
+          });
+          expect(openReleasePullRequestSpy).toHaveBeenCalledWith({
+            project,
+            forgeClient,
+            defaultBranch: 'develop',
+            releaseNotes,
+            labels: ['release', 'team-a'],
+            stdout,
+            reportEvent: expect.any(Function),
+          });
+        });
+      });
+
+      it('only retries pushing the release branch and opening the pull request when re-run if pushing failed', async () => {
+        await withSandbox(async (sandbox) => {
+          const {
+            project,
+            stdout,
+            stderr,
+            formatter,
+            releaseNotes,
+            createReleaseBranchSpy,
+            executeReleasePlanSpy,
+            commitAllChangesSpy,
+          } = await setupFollowMonorepoWorkflow({
+            sandbox,
+            doesReleaseSpecFileExist: false,
+            isEditorAvailable: true,
+            releaseVersion: '2.0.0',
+          });
+          jest
+            .spyOn(workflowOperations, 'createReleaseBranchForVersion')
+            .mockResolvedValue({
+              version: '2.0.0',
+              branchName: 'release/2.0.0',
+              firstRun: false,
+            });
+          createReleaseBranchSpy.mockResolvedValue({
+            version: '2.0.0',
+            branchName: 'release/2.0.0',
+            firstRun: false,
+          });
+          const forgeClient = { openPullRequest: jest.fn() };
+          const pushReleaseBranchSpy = jest
+            .spyOn(releasePullRequestModule, 'pushReleaseBranch')
+            .mockRejectedValueOnce(new Error('git push failed'))
+            .mockResolvedValue('release/2.0.0');
+          const openReleasePullRequestSpy = jest
+            .spyOn(releasePullRequestModule, 'openReleasePullRequest')
+            .mockResolvedValue();
+          const run = async () =>
+            await followMonorepoWorkflow({
+              project,
+              tempDirectoryPath: sandbox.directoryPath,
+              firstRemovingExistingReleaseSpecification: false,
+              releaseType: 'ordinary',
+              defaultBranch: 'main',
+              push: true,
+              forgeClient,
+              formatter,
+              stdout,
+              stderr,
+            });
+
+          await expect(run()).rejects.toThrow('git push failed');
+          await run();
+
+          expect(executeReleasePlanSpy).toHaveBeenCalledTimes(1);
+          expect(commitAllChangesSpy).toHaveBeenCalledTimes(1);
+          expect(commitAllChangesSpy).toHaveBeenCalledWith(
+            project.directoryPath,
+            'Update Release 2.0.0',
+          );
+          expect(pushReleaseBranchSpy).toHaveBeenCalledTimes(2);
+          expect(openReleasePullRequestSpy).toHaveBeenCalledTimes(1);
+          expect(openReleasePullRequestSpy).toHaveBeenCalledWith(
+            expect.objectContaining({ releaseNotes, labels: ['release'] }),
+          );
+          expect(
+            await fileExists(
+              path.join(sandbox.directoryPath, 'RELEASE_STATE.json'),
+            ),
+          ).toBe(false);
+        });
+      });
+
+      it('only retries opening the pull request when re-run if opening it failed', async () => {
+        await withSandbox(async (sandbox) => {
+          const {
+            project,
+            stdout,
+            stderr,
+            formatter,
+            createReleaseBranchSpy,
+            commitAllChangesSpy,
+          } = await setupFollowMonorepoWorkflow({
+            sandbox,
+            doesReleaseSpecFileExist: false,
+            isEditorAvailable: true,
+            releaseVersion: '2.0.0',
+          });
+          jest
+            .spyOn(workflowOperations, 'createReleaseBranchForVersion')
+            .mockResolvedValue({
+              version: '2.0.0',
+              branchName: 'release/2.0.0',
+              firstRun: false,
+            });
+          createReleaseBranchSpy.mockResolvedValue({
+            version: '2.0.0',
+            branchName: 'release/2.0.0',
+            firstRun: false,
+          });
+          const forgeClient = { openPullRequest: jest.fn() };
+          const pushReleaseBranchSpy = jest
+            .spyOn(releasePullRequestModule, 'pushReleaseBranch')
+            .mockResolvedValue('release/2.0.0');
+          const openReleasePullRequestSpy = jest
+            .spyOn(releasePullRequestModule, 'openReleasePullRequest')
+            .mockRejectedValueOnce(new Error('GitHub is down'))
+            .mockResolvedValue();
+          const run = async () =>
+            await followMonorepoWorkflow({
+              project,
+              tempDirectoryPath: sandbox.directoryPath,
+              firstRemovingExistingReleaseSpecification: false,
+              releaseType: 'ordinary',
+              defaultBranch: 'main',
+              push: true,
+              forgeClient,
+              formatter,
+              stdout,
+              stderr,
+            });
+
+          await expect(run()).rejects.toThrow('GitHub is down');
+          await run();
+
+          expect(commitAllChangesSpy).toHaveBeenCalledTimes(1);
+          expect(commitAllChangesSpy).toHaveBeenCalledWith(
+            project.directoryPath,
+            'Update Release 2.0.0',
+          );
+          expect(pushReleaseBranchSpy).toHaveBeenCalledTimes(1);
+          expect(openReleasePullRequestSpy).toHaveBeenCalledTimes(2);
+        });
+      });
+
+      it('throws if the release notes were not recorded in a previous run', async () => {
+        await withSandbox(async (sandbox) => {
+          const { project, stdout, stderr, formatter, createReleaseBranchSpy } =
+            await setupFollowMonorepoWorkflow({
+              sandbox,
+              doesReleaseSpecFileExist: false,
+              isEditorAvailable: true,
+              releaseVersion: '2.0.0',
+            });
+          jest
+            .spyOn(workflowOperations, 'createReleaseBranchForVersion')
+            .mockResolvedValue({
+              version: '2.0.0',
+              branchName: 'release/2.0.0',
+              firstRun: false,
+            });
+          createReleaseBranchSpy.mockResolvedValue({
+            version: '2.0.0',
+            branchName: 'release/2.0.0',
+            firstRun: false,
+          });
+          jest
+            .spyOn(releasePullRequestModule, 'pushReleaseBranch')
+            .mockRejectedValueOnce(new Error('git push failed'))
+            .mockResolvedValue('release/2.0.0');
+          const openReleasePullRequestSpy = jest.spyOn(
+            releasePullRequestModule,
+            'openReleasePullRequest',
+          );
+          const run = async () =>
+            await followMonorepoWorkflow({
+              project,
+              tempDirectoryPath: sandbox.directoryPath,
+              firstRemovingExistingReleaseSpecification: false,
+              releaseType: 'ordinary',
+              defaultBranch: 'main',
+              push: true,
+              forgeClient: { openPullRequest: jest.fn() },
+              formatter,
+              stdout,
+              stderr,
+            });
+
+          await expect(run()).rejects.toThrow('git push failed');
+          // Simulate a record made before release notes were kept.
+          const statePath = path.join(
+            sandbox.directoryPath,
+            'RELEASE_STATE.json',
+          );
+          const { releaseNotes: _releaseNotes, ...state } = JSON.parse(
+            await fs.promises.readFile(statePath, 'utf8'),
+          );
+          await fs.promises.writeFile(statePath, JSON.stringify(state));
+
+          await expect(run()).rejects.toThrow(
+            'Cannot open a pull request for the release, as the notes for the release were not recorded when the release plan was executed. Please open the pull request yourself.',
+          );
+          expect(openReleasePullRequestSpy).not.toHaveBeenCalled();
+        });
+      });
+    });
+
+    describe('when the changelogs of the released packages are not ready to be released', () => {
+      const changelogIssues = [
+        {
+          packageName: 'a',
+          version: '1.1.0',
+          kind: 'emptyReleaseSection' as const,
+        },
+      ];
+
+      it('does not commit the changes, listing the problems, if allowChangelogIssues is false', async () => {
+        await withSandbox(async (sandbox) => {
+          const {
+            project,
+            stdout,
+            stderr,
+            formatter,
+            releasePlan,
+            commitAllChangesSpy,
+          } = await setupFollowMonorepoWorkflow({
+            sandbox,
+            doesReleaseSpecFileExist: false,
+            isEditorAvailable: true,
+            releaseVersion: '2.0.0',
+          });
+          when(
+            jest.spyOn(changelogValidationModule, 'validateReleasedChangelogs'),
+          )
+            .calledWith({
+              project,
+              releasePlan,
+              versioningStrategy: 'independent',
+              formatter,
+            })
+            .mockResolvedValue(changelogIssues);
+
+          await expect(
+            followMonorepoWorkflow({
+              project,
+              tempDirectoryPath: sandbox.directoryPath,
+              firstRemovingExistingReleaseSpecification: false,
+              releaseType: 'ordinary',
+              defaultBranch: 'main',
+              formatter,
+              stdout,
+              stderr,
+            }),
+          ).rejects.toThrow(
+            'Could not prepare the release: The changelogs of the following packages are not ready to be released:\n\n- a\n  - The release section for 1.1.0 does not list any changes.\n\nPlease fix these issues in the "Unreleased" section of each changelog and re-run this tool, or re-run this tool with `--allow-changelog-issues` to release anyway.',
+          );
+          expect(commitAllChangesSpy).not.toHaveBeenCalledWith(
+            project.directoryPath,
+            'Update Release 2.0.0',
+          );
+        });
+      });
+
+      it('commits the changes, warning about the problems, if allowChangelogIssues is true', async () => {
+        await withSandbox(async (sandbox) => {
+          const {
+            project,
+            stdout,
+            stderr,
+            formatter,
+            releasePlan,
+            commitAllChangesSpy,
+          } = await setupFollowMonorepoWorkflow({
+            sandbox,
+            doesReleaseSpecFileExist: false,
+            isEditorAvailable: true,
+            releaseVersion: '2.0.0',
+          });
+          when(
+            jest.spyOn(changelogValidationModule, 'validateReleasedChangelogs'),
+          )
+            .calledWith({
+              project,
+              releasePlan,
+              versioningStrategy: 'independent',
+              formatter,
+            })
+            .mockResolvedValue(changelogIssues);
+
+          await followMonorepoWorkflow({
+            project,
+            tempDirectoryPath: sandbox.directoryPath,
+            firstRemovingExistingReleaseSpecification: false,
+            releaseType: 'ordinary',
+            defaultBranch: 'main',
+            formatter,
+            allowChangelogIssues: true,
+            stdout,
+            stderr,
+          });
+
+          expect(commitAllChangesSpy).toHaveBeenCalledWith(
+            project.directoryPath,
+            'Update Release 2.0.0',
+          );
+          expect(stderr.data()).toContain(
+            'Warning: The changelogs of the following packages are not ready to be released:\n\n- a\n  - The release section for 1.1.0 does not list any changes.\n',
+          );
+        });
+      });
+    });
+
+    describe('when reporting events', () => {
+      it('reports the creation of the release branch, the release plan, and each commit', async () => {
+        await withSandbox(async (sandbox) => {
+          const { project, stdout, stderr, formatter } =
+            await setupFollowMonorepoWorkflow({
+              sandbox,
+              doesReleaseSpecFileExist: false,
+              isEditorAvailable: true,
+              releaseVersion: '2.0.0',
+            });
+          const reportEvent = jest.fn();
+
+          await followMonorepoWorkflow({
+            project,
+            tempDirectoryPath: sandbox.directoryPath,
+            firstRemovingExistingReleaseSpecification: false,
+            releaseType: 'ordinary',
+            defaultBranch: 'main',
+            formatter,
+            stdout,
+            stderr,
+            reportEvent,
+          });
+
+          expect(reportEvent.mock.calls).toStrictEqual([
+            [
+              {
+                type: 'releaseBranchCreated',
+                branchName: 'release/2.0.0',
+                version: '2.0.0',
+              },
+            ],
+            [{ type: 'commitCreated', message: 'Initialize Release 2.0.0' }],
+            [{ type: 'releasePlanned', newVersion: '2.0.0', packages: [] }],
+            [{ type: 'commitCreated', message: 'Update Release 2.0.0' }],
+          ]);
+        });
+      });
+
+      it('lists and reports each dependency range that was updated', async () => {
+        await withSandbox(async (sandbox) => {
+          const { project, stdout, stderr, formatter } =
+            await setupFollowMonorepoWorkflow({
+              sandbox,
+              doesReleaseSpecFileExist: false,
+              isEditorAvailable: true,
+              releaseVersion: '2.0.0',
+            });
+          const dependencyRangeUpdates = [
+            {
+              packageName: 'b',
+              dependencyName: 'a',
+              dependencyType: 'dependencies' as const,
+              previousRange: '^1.0.0',
+              newRange: '^2.0.0',
+            },
+            {
+              packageName: 'c',
+              dependencyName: 'a',
+              dependencyType: 'peerDependencies' as const,
+              previousRange: 'workspace:~1.0.0',
+              newRange: 'workspace:~2.0.0',
+            },
+          ];
+          jest
+            .spyOn(releasePlanModule, 'executeReleasePlan')
+            .mockResolvedValue(dependencyRangeUpdates);
+          const reportEvent = jest.fn();
+
+          await followMonorepoWorkflow({
+            project,
+            tempDirectoryPath: sandbox.directoryPath,
+            firstRemovingExistingReleaseSpecification: false,
+            releaseType: 'ordinary',
+            defaultBranch: 'main',
+            formatter,
+            stdout,
+            stderr,
+            reportEvent,
+          });
+
+          expect(stdout.data()).toContain(
+            'The following dependency ranges have been updated to refer to the new versions of the packages being released:\n\n- b: dependencies.a ^1.0.0 -> ^2.0.0\n- c: peerDependencies.a workspace:~1.0.0 -> workspace:~2.0.0\n',
+          );
+          expect(reportEvent).toHaveBeenCalledWith({
+            type: 'dependencyRangeUpdated',
+            ...dependencyRangeUpdates[0],
+          });
+          expect(reportEvent).toHaveBeenCalledWith({
+            type: 'dependencyRangeUpdated',
+            ...dependencyRangeUpdates[1],
+          });
+        });
+      });
+
+      it('reports that the release branch was resumed if it already existed for a monorepo with fixed versions', async () => {
+        await withSandbox(async (sandbox) => {
+          const { project, stdout, stderr } = setupFollowFixedMonorepoWorkflow({
+            sandbox,
+            isFirstRun: false,
+            releaseVersion: '3.0.0',
+          });
+          const reportEvent = jest.fn();
+
+          await followMonorepoWorkflow({
+            project,
+            tempDirectoryPath: sandbox.directoryPath,
+            firstRemovingExistingReleaseSpecification: false,
+            releaseType: 'ordinary',
+            defaultBranch: 'main',
+            versioningStrategy: 'fixed',
+            formatter: 'prettier',
+            stdout,
+            stderr,
+            reportEvent,
+          });
+
+          expect(reportEvent.mock.calls).toStrictEqual([
+            [
+              {
+                type: 'releaseBranchResumed',
+                branchName: 'release/3.0.0',
+                version: '3.0.0',
+              },
+            ],
+            [{ type: 'releasePlanned', newVersion: '3.0.0', packages: [] }],
+            [{ type: 'commitCreated', message: 'Update Release 3.0.0' }],
+          ]);
+        });
+      });
+
+      it('reports the release plan in a dry run', async () => {
+        await withSandbox(async (sandbox) => {
+          const { project, stdout, stderr, formatter } =
+            await setupFollowMonorepoWorkflow({
+              sandbox,
+              doesReleaseSpecFileExist: true,
+              releaseVersion: '2.0.0',
+            });
+          const reportEvent = jest.fn();
+
+          await followMonorepoWorkflow({
+            project,
+            tempDirectoryPath: sandbox.directoryPath,
+            firstRemovingExistingReleaseSpecification: false,
+            releaseType: 'ordinary',
+            defaultBranch: 'main',
+            dryRun: true,
+            formatter,
+            stdout,
+            stderr,
+            reportEvent,
+          });
+
+          expect(reportEvent.mock.calls).toStrictEqual([
+            [{ type: 'releasePlanned', newVersion: '2.0.0', packages: [] }],
+          ]);
+        });
+      });
+
+      it('reports the issues found in the release spec before rethrowing the validation error', async () => {
+        await withSandbox(async (sandbox) => {
+          const releaseSpecificationPath = path.join(
+            sandbox.directoryPath,
+            'RELEASE_SPEC.yml',
+          );
+          const errorUponValidatingReleaseSpec =
+            new releaseSpecificationModule.ReleaseSpecificationValidationError(
+              'Your release spec could not be processed',
+              releaseSpecificationPath,
+              [{ kind: 'unknownPackage', packageName: 'b', lineNumber: 2 }],
+            );
+          const { project, stdout, stderr, formatter } =
+            await setupFollowMonorepoWorkflow({
+              sandbox,
+              doesReleaseSpecFileExist: true,
+              errorUponValidatingReleaseSpec,
+              releaseVersion: '2.0.0',
+            });
+          const reportEvent = jest.fn();
+
+          await expect(
+            followMonorepoWorkflow({
+              project,
+              tempDirectoryPath: sandbox.directoryPath,
+              firstRemovingExistingReleaseSpecification: false,
+              releaseType: 'ordinary',
+              defaultBranch: 'main',
+              dryRun: true,
+              formatter,
+              stdout,
+              stderr,
+              reportEvent,
+            }),
+          ).rejects.toThrow(errorUponValidatingReleaseSpec);
+
+          expect(reportEvent).toHaveBeenCalledWith({
+            type: 'releaseSpecificationInvalid',
+            path: releaseSpecificationPath,
+            issues: [
+              {
+                kind: 'unknownPackage',
+                packageName: 'b',
+                lineNumber: 2,
+                message: '"b" is not a package in the project',
+              },
+            ],
+          });
+        });
+      });
+
+      it('does not report other errors thrown while validating the release spec', async () => {
+        await withSandbox(async (sandbox) => {
+          const { project, stdout, stderr, formatter } =
+            await setupFollowMonorepoWorkflow({
+              sandbox,
+              doesReleaseSpecFileExist: true,
+              errorUponValidatingReleaseSpec: new Error('oops'),
+              releaseVersion: '2.0.0',
+            });
+          const reportEvent = jest.fn();
+
+          await expect(
+            followMonorepoWorkflow({
+              project,
+              tempDirectoryPath: sandbox.directoryPath,
+              firstRemovingExistingReleaseSpecification: false,
+              releaseType: 'ordinary',
+              defaultBranch: 'main',
+              dryRun: true,
+              formatter,
+              stdout,
+              stderr,
+              reportEvent,
+            }),
+          ).rejects.toThrow('oops');
+
+          expect(reportEvent).not.toHaveBeenCalled();
+        });
+      });
+    });
   });
 });
@@ -3,29 +3,302 @@ import path from 'path';
 import {
   ensureDirectoryPathExists,
   fileExists,
+  ReadStreamLike,
+  readFile,
+  readStream,
   removeFile,
   writeFile,
 } from './fs.js';
+import {
+  formatChangelogIssues,
+  validateReleasedChangelogs,
+} from './changelog-validation.js';
+import { backportCommits, getBackportBaseTagName } from './backport.js';
 import { determineEditor } from './editor.js';
-import { Formatter, ReleaseType } from './initial-parameters.js';
+import { ForgeClient } from './forge-client.js';
+import {
+  Formatter,
+  ReleaseType,
+  VersioningStrategy,
+} from './initial-parameters.js';
 import {
+  getReleaseFilePaths,
   Project,
+  rereadProject,
   updateChangelogsForChangedPackages,
   restoreChangelogsForSkippedPackages,
 } from './project.js';
 import { planRelease, executeReleasePlan } from './release-plan.js';
+import {
+  readReleasePlanFile,
+  writeReleasePlanFile,
+} from './release-plan-file.js';
+import {
+  formatReleasePlanPreview,
+  previewReleasePlan,
+} from './release-plan-preview.js';
 import { commitAllChanges } from './repo.js';
 import {
+  addPropagatedPackagesToReleaseSpecification,
+  generateReleaseSpecificationTemplateForFixedMonorepo,
   generateReleaseSpecificationTemplateForMonorepo,
+  ReleaseSpecification,
+  ReleaseSpecificationValidationError,
+  ReleaseSpecificationValidationOptions,
+  STDIN_RELEASE_SPECIFICATION_PATH,
   waitForUserToEditReleaseSpecification,
+  validateFixedReleaseSpecification,
   validateReleaseSpecification,
 } from './release-specification.js';
-import { createReleaseBranch } from './workflow-operations.js';
 import {
-  deduplicateDependencies,
-  fixConstraints,
-  updateYarnLockfile,
-} from './yarn-commands.js';
+  buildReleaseNotes,
+  ReleaseNotes,
+  writeReleaseNotes,
+} from './release-notes.js';
+import {
+  DEFAULT_PULL_REQUEST_LABELS,
+  openReleasePullRequest,
+  pushReleaseBranch,
+} from './release-pull-request.js';
+import { SemVer } from './semver.js';
+import { suggestVersionSpecifiersForMonorepo } from './version-suggestion.js';
+import {
+  buildReleaseBranchEvent,
+  buildReleasePlannedEvent,
+  buildReleaseSpecificationInvalidEvent,
+  ReportWorkflowEvent,
+} from './workflow-events.js';
+import {
+  createReleaseBranch,
+  createReleaseBranchForVersion,
+  getNewReleaseVersion,
+  getReleaseBranchName,
+} from './workflow-operations.js';
+import {
+  FileSnapshot,
+  findChangedFileSnapshots,
+  restoreFileSnapshots,
+  takeFileSnapshots,
+  withRollback,
+} from './rollback.js';
+import {
+  INITIAL_WORKFLOW_STATE,
+  readWorkflowState,
+  removeWorkflowState,
+  restartWorkflowFrom,
+  WorkflowState,
+  WorkflowStep,
+  writeWorkflowState,
+} from './workflow-state.js';
+
+/**
+ * Obtains the release spec for a monorepo, either from the path or stream
+ * provided, or by generating a template and waiting for the user to fill it
+ * out, then validates it.
+ *
+ * @param args - The arguments to this function.
+ * @param args.project - Information about the project.
+ * @param args.releaseSpecificationPath - The path to the release spec, or "-"
+ * to read it from standard input.
+ * @param args.isReleaseSpecificationGenerated - Whether the release spec is
+ * generated by this tool (as opposed to provided by the user).
+ * @param args.firstRemovingExistingReleaseSpecification - Whether to generate
+ * a new release spec even if one exists from a previous run.
+ * @param args.tempDirectoryPath - A directory in which to hold the generated
+ * release spec file.
+ * @param args.isFixed - Whether the monorepo uses fixed versions.
+ * @param args.prereleaseIdentifier - The identifier that names a prerelease
+ * version (e.g. "rc").
+ * @param args.propagate - Whether to add the dependents of packages released
+ * with a major version bump to the release automatically.
+ * @param args.formatter - The formatter to use for formatting the changelog.
+ * @param args.stdin - A stream that can be used to read from standard input.
+ * @param args.stdout - A stream that can be used to write to standard out.
+ * @param args.reportEvent - A function which is called whenever something
+ * notable happens.
+ * @returns The packages in the release spec along with the release version (if
+ * the monorepo uses fixed versions), or null if the user needs to edit the
+ * generated release spec and re-run this tool.
+ */
+async function readReleaseSpecification({
+  project,
+  releaseSpecificationPath,
+  isReleaseSpecificationGenerated,
+  firstRemovingExistingReleaseSpecification,
+  tempDirectoryPath,
+  isFixed,
+  prereleaseIdentifier,
+  propagate,
+  formatter,
+  stdin,
+  stdout,
+  reportEvent,
+}: {
+  project: Project;
+  releaseSpecificationPath: string;
+  isReleaseSpecificationGenerated: boolean;
+  firstRemovingExistingReleaseSpecification: boolean;
+  tempDirectoryPath: string;
+  isFixed: boolean;
+  prereleaseIdentifier: string | null;
+  propagate: boolean;
+  formatter: Formatter;
+  stdin: ReadStreamLike | undefined;
+  stdout: Pick<WriteStream, 'write'>;
+  reportEvent: ReportWorkflowEvent;
+}): Promise<{
+  packages: ReleaseSpecification['packages'];
+  releaseVersion?: string;
+} | null> {
+  const validationOptions: ReleaseSpecificationValidationOptions = {
+    isGenerated: isReleaseSpecificationGenerated,
+    prereleaseIdentifier,
+    propagate,
+  };
+
+  if (releaseSpecificationPath === STDIN_RELEASE_SPECIFICATION_PATH) {
+    if (stdin === undefined) {
+      throw new Error(
+        'Cannot read the release spec from standard input, as it is not available.',
+      );
+    }
+
+    validationOptions.contents = await readStream(stdin);
+  } else if (isReleaseSpecificationGenerated) {
+    if (
+      !firstRemovingExistingReleaseSpecification &&
+      (await fileExists(releaseSpecificationPath))
+    ) {
+      stdout.write(
+        'Release spec already exists. Picking back up from previous run.\n',
+      );
+    } else {
+      const editor = await determineEditor();
+
+      const releaseSpecificationTemplate = isFixed
+        ? await generateReleaseSpecificationTemplateForFixedMonorepo({
+            project,
+            isEditorAvailable: editor !== null,
+          })
+        : await generateReleaseSpecificationTemplateForMonorepo({
+            project,
+            isEditorAvailable: editor !== null,
+            versionSuggestions: await suggestVersionSpecifiersForMonorepo({
+              project,
+              formatter,
+            }),
+          });
+      await ensureDirectoryPathExists(tempDirectoryPath);
+      await writeFile(releaseSpecificationPath, releaseSpecificationTemplate);
+
+      if (!editor) {
+        stdout.write(
+          `${[
+            'A template has been generated that specifies this release. Please open the following file in your editor of choice, then re-run this tool:',
+            `${releaseSpecificationPath}`,
+          ].join('\n\n')}\n`,
+        );
+        return null;
+      }
+
+      try {
+        await waitForUserToEditReleaseSpecification(
+          releaseSpecificationPath,
+          editor,
+        );
+      } catch (error) {
+        await removeFile(releaseSpecificationPath);
+        throw error;
+      }
+    }
+  }
+
+  try {
+    if (isFixed) {
+      const releaseSpecification = await validateFixedReleaseSpecification(
+        project,
+        releaseSpecificationPath,
+        validationOptions,
+      );
+      return {
+        packages: releaseSpecification.packages,
+        releaseVersion: releaseSpecification.releaseVersion,
+      };
+    }
+
+    const releaseSpecification = await validateReleaseSpecification(
+      project,
+      releaseSpecificationPath,
+      validationOptions,
+    );
+    const propagatedPackages = releaseSpecification.propagatedPackages ?? {};
+
+    if (Object.keys(propagatedPackages).length > 0) {
+      stdout.write(
+        `${[
+          'The following packages have been added to the release with a patch bump, as they depend on packages that are being released with a major version bump (or on other packages added in this way):',
+          Object.entries(propagatedPackages)
+            .map(
+              ([packageName, dependencyNames]) =>
+                `- ${packageName} (depends on ${dependencyNames.join(', ')})`,
+            )
+            .join('\n'),
+        ].join('\n\n')}\n`,
+      );
+
+      if (isReleaseSpecificationGenerated) {
+        await writeFile(
+          releaseSpecificationPath,
+          addPropagatedPackagesToReleaseSpecification(
+            await readFile(releaseSpecificationPath),
+            propagatedPackages,
+          ),
+        );
+      }
+    }
+
+    return { packages: releaseSpecification.packages };
+  } catch (error) {
+    if (error instanceof ReleaseSpecificationValidationError) {
+      reportEvent(buildReleaseSpecificationInvalidEvent(error));
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * Reads a release plan written by an earlier dry run, checking that the
+ * project still matches it, and converts it to the information that would
+ * otherwise be obtained from a release spec.
+ *
+ * @param releasePlanPath - The path to the release plan.
+ * @param project - Information about the project.
+ * @returns The workspace packages in the release plan, each with its exact new
+ * version, along with the release version.
+ */
+async function readReleasePlanAsReleaseSpecification(
+  releasePlanPath: string,
+  project: Project,
+): Promise<{
+  packages: ReleaseSpecification['packages'];
+  releaseVersion: string;
+}> {
+  const releasePlan = await readReleasePlanFile(releasePlanPath, project);
+
+  return {
+    packages: releasePlan.packages
+      .filter(({ package: pkg }) => pkg !== project.rootPackage)
+      .reduce<ReleaseSpecification['packages']>(
+        (obj, { package: pkg, newVersion }) => ({
+          ...obj,
+          [pkg.validatedManifest.name]: new SemVer(newVersion),
+        }),
+        {},
+      ),
+    releaseVersion: releasePlan.newVersion,
+  };
+}
 
 /**
  * For a monorepo, the process works like this:
@@ -46,120 +319,624 @@ import {
  * commit that includes the changes, then create a branch using the current date
  * as the name.
  *
+ * The tool records each step it completes (see `WORKFLOW_STEPS`) in a file in
+ * the temporary directory, so that if a step fails, re-running the tool
+ * continues from that step. If a step which changes the project fails, the
+ * files it changed are restored first, and the error lists them. The record is
+ * removed once the changes have been committed.
+ *
+ * If the project uses fixed versions, the release spec instead asks for a
+ * single version specifier that applies to the root package and every listed
+ * workspace package, and the release branch is only created (and named after
+ * the new version) once the release spec has been validated.
+ *
+ * For a backport, the release branch is instead created from the tag of the
+ * latest release in the current release line (`<ordinary>.<backport>.0`). The
+ * tool then lists the commits made to the default branch since that release so
+ * that the user can select the ones to cherry-pick onto the release branch,
+ * much like the release spec. The packages that have changed, and therefore
+ * the release spec, are then determined from the release branch.
+ *
+ * The release branch can also be created from a given ref (such as
+ * `origin/main`) rather than the commit which is checked out, in which case the
+ * tool first checks that the ref exists and contains the tag for the latest
+ * release, then reads the project again once the branch has been created.
+ *
+ * Alternatively, a release spec that has already been filled out can be provided
+ * as a file or via standard input, in which case no template is generated and
+ * no editor is opened.
+ *
+ * Instead of a release spec, a release plan written by an earlier dry run can
+ * be applied. The plan is only applied if each package in it is still at the
+ * version it was at when the plan was made, and since the plan determines the
+ * release version, the release branch is only created once it has been read,
+ * as with fixed versions.
+ *
+ * Once the release plan has been executed, the tool checks that the new
+ * section in the changelog of each released package is ready to be released.
+ * If it is not, the changes are rolled back and the tool lists the problems,
+ * unless they are allowed, in which case it only warns about them.
+ *
+ * Once the changes have been committed, the release branch can be pushed, and
+ * a pull request for the release can be opened, through a client for the forge
+ * which hosts the repository. The title and description of the pull request
+ * are built from the release plan and the new sections of the changelogs, which
+ * are recorded when the release plan is executed so that, if pushing or
+ * opening the pull request fails, re-running the tool only retries that step.
+ *
+ * In a dry run, the tool still asks for a release spec, but instead of creating
+ * a branch, updating packages, and committing the changes, it prints what it
+ * would have done. The release spec is kept so that the same release can then
+ * be prepared for real, and the release plan can also be written to a file so
+ * that it can be applied later. Nothing is recorded about a dry run.
+ *
  * @param args - The arguments to this function.
  * @param args.project - Information about the project.
  * @param args.tempDirectoryPath - A directory in which to hold the generated
- * release spec file.
+ * release spec file and the record of completed steps.
+ * @param args.providedReleaseSpecificationPath - The path to a release spec
+ * that has already been filled out, or "-" to read it from standard input. If
+ * null, a release spec is generated for the user to edit.
+ * @param args.releasePlanPath - The path to a release plan to apply instead of
+ * a release spec, or null.
+ * @param args.releasePlanOutputPath - The path to which to write the release
+ * plan in a dry run, or null.
+ * @param args.releaseNotesPath - The path to which to write notes for the
+ * release, collected from the new sections of the changelogs of the released
+ * packages once the release plan has been executed and written once the
+ * changes have been committed, "-" to print them, or null.
+ * @param args.allowChangelogIssues - Whether to carry on (with a warning)
+ * rather than stop if the new sections of the changelogs of the released
+ * packages are not ready to be released.
  * @param args.firstRemovingExistingReleaseSpecification - Sometimes it's
  * possible for a release specification that was created in a previous run to
- * stick around (due to an error). This will ensure that the file is removed
- * first.
+ * stick around (due to an error). This will ensure that the file, along with
+ * the record of which steps were completed, is removed first.
+ * @param args.restartFrom - A step that was completed in a previous run which
+ * should be carried out again, along with every step completed after it.
  * @param args.releaseType - The type of release ("ordinary" or "backport"),
- * which affects how the version is bumped.
+ * which affects how the version is bumped and, unless the release version is
+ * planned up front, where the release branch is created from.
  * @param args.defaultBranch - The name of the default branch in the repository.
+ * @param args.baseRef - The ref from which to create the release branch, or
+ * null to create it from the current commit.
+ * @param args.versioningStrategy - Whether the workspace packages are released
+ * with their own versions ("independent") or all share the version of the root
+ * package ("fixed").
+ * @param args.prereleaseIdentifier - The identifier that names a prerelease
+ * version (e.g. "rc"), used for packages which are bumped to a prerelease.
+ * @param args.propagate - Whether to add the direct and peer dependents of
+ * packages released with a major version bump to the release automatically
+ * (and so on, recursively), giving each a patch bump. The added packages are
+ * listed, and if the release spec was generated, they are also added to it.
+ * Only applies to a monorepo with independent versions.
+ * @param args.dryRun - Whether to print the release plan instead of carrying
+ * it out.
+ * @param args.push - Whether to push the release branch once the changes have
+ * been committed.
+ * @param args.remote - The name of the remote to which to push the release
+ * branch, or null to push it to "origin".
+ * @param args.forgeClient - The client through which to open a pull request
+ * for the release once the release branch has been pushed, or null to not open
+ * one.
+ * @param args.pullRequestLabels - The labels to attach to the pull request.
  * @param args.formatter - The formatter to use for formatting the changelog.
+ * @param args.stdin - A stream that can be used to read from standard input.
  * @param args.stdout - A stream that can be used to write to standard out.
  * @param args.stderr - A stream that can be used to write to standard error.
+ * @param args.reportEvent - A function which is called whenever something
+ * notable happens, such as the release branch being created or a commit being
+ * made.
  */
 export async function followMonorepoWorkflow({
-  project,
+  project: initialProject,
   tempDirectoryPath,
+  providedReleaseSpecificationPath = null,
+  releasePlanPath = null,
+  releasePlanOutputPath = null,
+  releaseNotesPath = null,
+  allowChangelogIssues = false,
   firstRemovingExistingReleaseSpecification,
+  restartFrom = null,
   releaseType,
   defaultBranch,
+  baseRef = null,
+  versioningStrategy = 'independent',
+  prereleaseIdentifier = null,
+  propagate = false,
+  dryRun = false,
+  push = false,
+  remote = null,
+  forgeClient = null,
+  pullRequestLabels = DEFAULT_PULL_REQUEST_LABELS,
   formatter,
+  stdin,
   stdout,
   stderr,
+  reportEvent = () => undefined,
 }: {
   project: Project;
   tempDirectoryPath: string;
+  providedReleaseSpecificationPath?: string | null;
+  releasePlanPath?: string | null;
+  releasePlanOutputPath?: string | null;
+  releaseNotesPath?: string | null;
+  allowChangelogIssues?: boolean;
   firstRemovingExistingReleaseSpecification: boolean;
+  restartFrom?: WorkflowStep | null;
   releaseType: ReleaseType;
   defaultBranch: string;
+  baseRef?: string | null;
+  versioningStrategy?: VersioningStrategy;
+  prereleaseIdentifier?: string | null;
+  propagate?: boolean;
+  dryRun?: boolean;
+  push?: boolean;
+  remote?: string | null;
+  forgeClient?: ForgeClient | null;
+  pullRequestLabels?: string[];
   formatter: Formatter;
+  stdin?: ReadStreamLike;
   stdout: Pick<WriteStream, 'write'>;
   stderr: Pick<WriteStream, 'write'>;
+  reportEvent?: ReportWorkflowEvent;
 }) {
-  const { version: newReleaseVersion, firstRun } = await createReleaseBranch({
-    project,
-    releaseType,
-  });
-
-  if (firstRun) {
-    await updateChangelogsForChangedPackages({ project, formatter, stderr });
-    await commitAllChanges(
-      project.directoryPath,
-      `Initialize Release ${newReleaseVersion}`,
-    );
+  let project = initialProject;
+  const isFixed = versioningStrategy === 'fixed';
+  const isReleaseVersionPlanned = isFixed || releasePlanPath !== null;
+  let state = INITIAL_WORKFLOW_STATE;
+
+  if (!dryRun) {
+    if (firstRemovingExistingReleaseSpecification) {
+      await removeWorkflowState(tempDirectoryPath);
+    }
+
+    const previousState = await readWorkflowState(tempDirectoryPath);
+
+    if (previousState === null && restartFrom !== null) {
+      throw new Error(
+        `Cannot restart from "${restartFrom}", as there is no record of a previous run. Please re-run this tool without \`--restart-from\`.`,
+      );
+    }
+
+    if (previousState !== null) {
+      state =
+        restartFrom === null
+          ? previousState
+          : restartWorkflowFrom(previousState, restartFrom);
+    }
+
+    // The packages to release are read from the record rather than from the
+    // release spec or plan once known, so one given now would be ignored.
+    if (
+      state.releaseSpecificationPackages !== null &&
+      (providedReleaseSpecificationPath !== null || releasePlanPath !== null)
+    ) {
+      const option =
+        releasePlanPath === null ? '--release-spec' : '--apply-plan';
+      throw new Error(
+        `A previous run has already determined which packages to release, so the ${
+          releasePlanPath === null ? 'release spec' : 'release plan'
+        } given with \`${option}\` would be ignored. Please re-run this tool with \`--reset\` to start over with it, or without \`${option}\` to pick back up from the previous run.`,
+      );
+    }
+
+    if (state.completedSteps.length > 0) {
+      stdout.write(
+        `Picking back up from previous run, where the following steps were completed: ${state.completedSteps.join(
+          ', ',
+        )}.\n`,
+      );
+    }
   }
 
-  const releaseSpecificationPath = path.join(
+  const isCompleted = (step: WorkflowStep) =>
+    state.completedSteps.includes(step);
+
+  const completeStep = async (
+    step: WorkflowStep,
+    updates: Partial<Omit<WorkflowState, 'completedSteps'>> = {},
+  ) => {
+    state = {
+      ...state,
+      ...updates,
+      completedSteps: [...state.completedSteps, step],
+    };
+    await ensureDirectoryPathExists(tempDirectoryPath);
+    await writeWorkflowState(tempDirectoryPath, state);
+  };
+
+  const backportBaseTagName =
+    releaseType === 'backport' && !isReleaseVersionPlanned
+      ? getBackportBaseTagName(project)
+      : null;
+  const releaseBaseRef = backportBaseTagName ?? baseRef;
+  const backportCommitsPath = path.join(
     tempDirectoryPath,
-    'RELEASE_SPEC.yml',
+    'BACKPORT_COMMITS.txt',
   );
 
-  if (
-    !firstRemovingExistingReleaseSpecification &&
-    (await fileExists(releaseSpecificationPath))
-  ) {
-    stdout.write(
-      'Release spec already exists. Picking back up from previous run.\n',
-    );
+  const initializeReleaseBranch = async (releaseBranch: {
+    version: string;
+    branchName: string;
+    firstRun: boolean;
+  }) => {
+    const isResuming = isCompleted('create-release-branch');
+    reportEvent(buildReleaseBranchEvent(releaseBranch));
+
+    if (!isResuming) {
+      await completeStep('create-release-branch', {
+        releaseVersion: releaseBranch.version,
+        releaseBranchName: releaseBranch.branchName,
+      });
+    }
+
+    const isInitializing =
+      !isCompleted('initialize-changelogs') &&
+      // If the branch already existed before the state of the workflow was
+      // recorded, then the changelogs have already been initialized.
+      (releaseBranch.firstRun || isResuming);
+
+    if (isInitializing && backportBaseTagName !== null) {
+      const areCommitsBackported = await backportCommits({
+        project: initialProject,
+        baseTagName: backportBaseTagName,
+        defaultBranch,
+        backportCommitsPath,
+        firstRemovingExistingBackportCommits:
+          firstRemovingExistingReleaseSpecification,
+        stdout,
+      });
+
+      if (!areCommitsBackported) {
+        return false;
+      }
+    }
+
+    if (releaseBaseRef !== null) {
+      // The packages are read as they are on the release branch rather than as
+      // they were in the commit which was checked out before.
+      project = await rereadProject(initialProject, { stderr });
+    }
+
+    if (!isCompleted('initialize-changelogs')) {
+      if (isInitializing) {
+        const commitMessage = `Initialize Release ${releaseBranch.version}`;
+        await updateChangelogsForChangedPackages({
+          project,
+          formatter,
+          stderr,
+        });
+        await commitAllChanges(project.directoryPath, commitMessage);
+        reportEvent({ type: 'commitCreated', message: commitMessage });
+      }
+
+      await completeStep('initialize-changelogs');
+    }
+
+    return true;
+  };
+
+  let newReleaseVersion: string | undefined;
+
+  if (!isReleaseVersionPlanned && dryRun) {
+    newReleaseVersion = getNewReleaseVersion({ project, releaseType });
+  } else if (!isReleaseVersionPlanned) {
+    const releaseBranch =
+      state.releaseVersion === null
+        ? await createReleaseBranch({
+            project,
+            releaseType,
+            baseRef: releaseBaseRef,
+          })
+        : await createReleaseBranchForVersion({
+            project,
+            version: state.releaseVersion,
+            baseRef: releaseBaseRef,
+            branchName: state.releaseBranchName,
+          });
+    newReleaseVersion = releaseBranch.version;
+
+    if (!(await initializeReleaseBranch(releaseBranch))) {
+      return;
+    }
+  }
+
+  const isReleaseSpecificationGenerated =
+    providedReleaseSpecificationPath === null && releasePlanPath === null;
+  const releaseSpecificationPath =
+    providedReleaseSpecificationPath ??
+    path.join(tempDirectoryPath, 'RELEASE_SPEC.yml');
+  let packages: ReleaseSpecification['packages'];
+
+  if (state.releaseSpecificationPackages === null) {
+    const releaseSpecification =
+      releasePlanPath === null
+        ? await readReleaseSpecification({
+            project,
+            releaseSpecificationPath,
+            isReleaseSpecificationGenerated,
+            firstRemovingExistingReleaseSpecification,
+            tempDirectoryPath,
+            isFixed,
+            prereleaseIdentifier,
+            propagate,
+            formatter,
+            stdin,
+            stdout,
+            reportEvent,
+          })
+        : await readReleasePlanAsReleaseSpecification(releasePlanPath, project);
+
+    if (releaseSpecification === null) {
+      return;
+    }
+
+    packages = releaseSpecification.packages;
+    newReleaseVersion =
+      releaseSpecification.releaseVersion ?? newReleaseVersion;
   } else {
-    const editor = await determineEditor();
+    packages = state.releaseSpecificationPackages;
+    // Typecast: The release version is always recorded by the time the release
+    // spec has been validated.
+    newReleaseVersion = state.releaseVersion as string;
+  }
+
+  // Typecast: The version is determined either before or after the release
+  // spec is validated, depending on the versioning strategy.
+  const releaseVersion = newReleaseVersion as string;
 
-    const releaseSpecificationTemplate =
-      await generateReleaseSpecificationTemplateForMonorepo({
+  if (!dryRun && !isCompleted('validate-release-spec')) {
+    await completeStep('validate-release-spec', {
+      releaseVersion,
+      releaseSpecificationPackages: packages,
+    });
+  }
+
+  if (isReleaseVersionPlanned && !dryRun) {
+    await initializeReleaseBranch(
+      await createReleaseBranchForVersion({
         project,
-        isEditorAvailable: editor !== null,
-      });
-    await ensureDirectoryPathExists(tempDirectoryPath);
-    await writeFile(releaseSpecificationPath, releaseSpecificationTemplate);
+        version: releaseVersion,
+        baseRef: releaseBaseRef,
+        branchName: state.releaseBranchName,
+      }),
+    );
+  }
+
+  if (dryRun) {
+    const releasePlan = await planRelease({
+      project,
+      releaseSpecificationPackages: packages,
+      newReleaseVersion: releaseVersion,
+      prereleaseIdentifier,
+    });
+    reportEvent(buildReleasePlannedEvent(releasePlan));
+    const preview = await previewReleasePlan({
+      project,
+      releasePlan,
+      branchName: getReleaseBranchName(project, releaseVersion),
+      commitMessages: [
+        `Initialize Release ${releaseVersion}`,
+        `Update Release ${releaseVersion}`,
+      ],
+      formatter,
+    });
 
-    if (!editor) {
+    if (releasePlanOutputPath !== null) {
+      await writeReleasePlanFile(releasePlanOutputPath, project, releasePlan);
+    }
+
+    stdout.write(
+      `${[
+        formatReleasePlanPreview(preview),
+        ...(isReleaseSpecificationGenerated
+          ? [
+              'The release spec has been kept, so re-running this tool without `--dry-run` will prepare this release:',
+              releaseSpecificationPath,
+            ]
+          : []),
+        ...(releasePlanOutputPath === null
+          ? []
+          : [
+              'The release plan has been written to the following file, so running this tool with `--apply-plan` and this path will prepare this release:',
+              releasePlanOutputPath,
+            ]),
+      ].join('\n\n')}\n`,
+    );
+    return;
+  }
+
+  const rollbackOptions = {
+    projectDirectoryPath: project.directoryPath,
+    filePaths: getReleaseFilePaths(project),
+  };
+
+  // If the release plan has been executed before, in a run that is being
+  // restarted, the files it changed are restored before it is executed again,
+  // as otherwise the packages would be bumped twice.
+  const restoreReleaseFiles = async (releaseFileSnapshots: FileSnapshot[]) => {
+    const restoredFilePaths = await restoreFileSnapshots(releaseFileSnapshots);
+    state = { ...state, releaseFileSnapshots: null };
+    await writeWorkflowState(tempDirectoryPath, state);
+
+    if (restoredFilePaths.length > 0) {
       stdout.write(
         `${[
-          'A template has been generated that specifies this release. Please open the following file in your editor of choice, then re-run this tool:',
-          `${releaseSpecificationPath}`,
+          'The following files have been restored to the state they were in before the release plan was last executed:',
+          restoredFilePaths
+            .map(
+              (filePath) =>
+                `- ${path.relative(rollbackOptions.projectDirectoryPath, filePath)}`,
+            )
+            .join('\n'),
         ].join('\n\n')}\n`,
       );
-      return;
+      project = await rereadProject(initialProject, { stderr });
     }
+  };
 
-    try {
-      await waitForUserToEditReleaseSpecification(
-        releaseSpecificationPath,
-        editor,
+  if (!isCompleted('execute-release-plan')) {
+    if (state.releaseFileSnapshots !== null) {
+      await restoreReleaseFiles(state.releaseFileSnapshots);
+    }
+
+    let releaseNotes: ReleaseNotes | null = null;
+    const releaseFileSnapshots = await takeFileSnapshots(
+      rollbackOptions.filePaths,
+    );
+    const releasePlan = await planRelease({
+      project,
+      releaseSpecificationPackages: packages,
+      newReleaseVersion: releaseVersion,
+      prereleaseIdentifier,
+    });
+    reportEvent(buildReleasePlannedEvent(releasePlan));
+
+    await withRollback(rollbackOptions, async () => {
+      await restoreChangelogsForSkippedPackages({
+        project,
+        releaseSpecificationPackages: packages,
+        defaultBranch,
+      });
+
+      const dependencyRangeUpdates = await executeReleasePlan(
+        project,
+        releasePlan,
+        formatter,
+        stderr,
       );
-    } catch (error) {
+
+      if (dependencyRangeUpdates.length > 0) {
+        stdout.write(
+          `${[
+            'The following dependency ranges have been updated to refer to the new versions of the packages being released:',
+            dependencyRangeUpdates
+              .map(
+                ({
+                  packageName,
+                  dependencyType,
+                  dependencyName,
+                  previousRange,
+                  newRange,
+                }) =>
+                  `- ${packageName}: ${dependencyType}.${dependencyName} ${previousRange} -> ${newRange}`,
+              )
+              .join('\n'),
+          ].join('\n\n')}\n`,
+        );
+        dependencyRangeUpdates.forEach((dependencyRangeUpdate) => {
+          reportEvent({
+            type: 'dependencyRangeUpdated',
+            ...dependencyRangeUpdate,
+          });
+        });
+      }
+
+      const changelogIssues = await validateReleasedChangelogs({
+        project,
+        releasePlan,
+        versioningStrategy,
+        formatter,
+      });
+
+      if (changelogIssues.length > 0 && !allowChangelogIssues) {
+        throw new Error(
+          `${formatChangelogIssues(
+            changelogIssues,
+          )}\n\nPlease fix these issues in the "Unreleased" section of each changelog and re-run this tool, or re-run this tool with \`--allow-changelog-issues\` to release anyway.`,
+        );
+      }
+
+      if (changelogIssues.length > 0) {
+        stderr.write(`Warning: ${formatChangelogIssues(changelogIssues)}\n`);
+      }
+
+      releaseNotes = await buildReleaseNotes({
+        project,
+        releasePlan,
+        formatter,
+      });
+    });
+    await completeStep('execute-release-plan', {
+      releaseNotes,
+      releaseFileSnapshots:
+        await findChangedFileSnapshots(releaseFileSnapshots),
+    });
+  }
+
+  if (!isCompleted('fix-constraints')) {
+    await withRollback(rollbackOptions, async () => {
+      await project.packageManager.fixConstraints?.(project.directoryPath);
+    });
+    await completeStep('fix-constraints');
+  }
+
+  if (!isCompleted('update-lockfile')) {
+    await withRollback(rollbackOptions, async () => {
+      await project.packageManager.updateLockfile(project.directoryPath);
+      await project.packageManager.deduplicateDependencies?.(
+        project.directoryPath,
+      );
+    });
+    await completeStep('update-lockfile');
+  }
+
+  if (!isCompleted('commit')) {
+    if (isReleaseSpecificationGenerated) {
       await removeFile(releaseSpecificationPath);
-      throw error;
     }
+
+    if (backportBaseTagName !== null) {
+      await removeFile(backportCommitsPath);
+    }
+
+    const commitMessage = `Update Release ${releaseVersion}`;
+    await commitAllChanges(project.directoryPath, commitMessage);
+    reportEvent({ type: 'commitCreated', message: commitMessage });
+    await completeStep('commit');
   }
 
-  const { packages } = await validateReleaseSpecification(
-    project,
-    releaseSpecificationPath,
-  );
+  // The release notes are written once the changes have been committed, so that
+  // they are not included in the commit if they are written to a file within
+  // the project, and are not left behind if a step before then fails.
+  if (releaseNotesPath !== null) {
+    if (state.releaseNotes === null) {
+      throw new Error(
+        'Cannot write the release notes, as they were not recorded when the release plan was executed. Please re-run this tool with `--restart-from execute-release-plan` to record them.',
+      );
+    }
 
-  await restoreChangelogsForSkippedPackages({
-    project,
-    releaseSpecificationPackages: packages,
-    defaultBranch,
-  });
-
-  const releasePlan = await planRelease({
-    project,
-    releaseSpecificationPackages: packages,
-    newReleaseVersion,
-  });
-  await executeReleasePlan(project, releasePlan, formatter, stderr);
-  await removeFile(releaseSpecificationPath);
-  await fixConstraints(project.directoryPath);
-  await updateYarnLockfile(project.directoryPath);
-  await deduplicateDependencies(project.directoryPath);
-  await commitAllChanges(
-    project.directoryPath,
-    `Update Release ${newReleaseVersion}`,
-  );
+    await writeReleaseNotes({
+      releaseNotes: state.releaseNotes,
+      releaseNotesPath,
+      stdout,
+    });
+  }
+
+  if (push && !isCompleted('push-release-branch')) {
+    await pushReleaseBranch({ project, remote, stdout, reportEvent });
+    await completeStep('push-release-branch');
+  }
+
+  if (forgeClient !== null && !isCompleted('open-pull-request')) {
+    if (state.releaseNotes === null) {
+      throw new Error(
+        'Cannot open a pull request for the release, as the notes for the release were not recorded when the release plan was executed. Please open the pull request yourself.',
+      );
+    }
+
+    await openReleasePullRequest({
+      project,
+      forgeClient,
+      defaultBranch,
+      releaseNotes: state.releaseNotes,
+      labels: pullRequestLabels,
+      stdout,
+      reportEvent,
+    });
+    await completeStep('open-pull-request');
+  }
+
+  await removeWorkflowState(tempDirectoryPath);
 }
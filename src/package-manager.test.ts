@@ -0,0 +1,309 @@
+import fs from 'fs';
+import path from 'path';
+import { when } from 'jest-when';
+import * as actionUtils from '@metamask/action-utils';
+import { withSandbox } from '../tests/helpers.js';
+import { buildMockManifest } from '../tests/unit/helpers.js';
+import {
+  PackageManager,
+  detectPackageManager,
+  npmPackageManager,
+  pnpmPackageManager,
+  updateDependencies,
+  yarnPackageManager,
+} from './package-manager.js';
+import * as miscUtils from './misc-utils.js';
+import * as yarnCommands from './yarn-commands.js';
+
+jest.mock('./misc-utils', () => ({
+  ...jest.requireActual('./misc-utils'),
+  runCommand: jest.fn(),
+}));
+jest.mock('./yarn-commands');
+jest.mock('@metamask/action-utils', () => ({
+  ...jest.requireActual('@metamask/action-utils'),
+  getWorkspaceLocations: jest.fn(),
+}));
+
+describe('package-manager', () => {
+  describe('yarnPackageManager', () => {
+    it('lists workspaces via the "workspaces" field of the root manifest, recursively', async () => {
+      when(jest.spyOn(actionUtils, 'getWorkspaceLocations'))
+        .calledWith(['packages/*'], '/path/to/project', true)
+        .mockResolvedValue(['packages/a', 'packages/b']);
+
+      expect(
+        await yarnPackageManager.listWorkspaceDirectories(
+          '/path/to/project',
+          buildMockManifest({ workspaces: ['packages/*'] }),
+        ),
+      ).toStrictEqual(['packages/a', 'packages/b']);
+    });
+
+    it('updates the lockfile, fixes constraints, and deduplicates dependencies using Yarn', async () => {
+      await yarnPackageManager.updateLockfile('/path/to/project');
+      await yarnPackageManager.fixConstraints?.('/path/to/project');
+      await yarnPackageManager.deduplicateDependencies?.('/path/to/project');
+
+      expect(yarnCommands.updateYarnLockfile).toHaveBeenCalledWith(
+        '/path/to/project',
+      );
+      expect(yarnCommands.fixConstraints).toHaveBeenCalledWith(
+        '/path/to/project',
+      );
+      expect(yarnCommands.deduplicateDependencies).toHaveBeenCalledWith(
+        '/path/to/project',
+      );
+    });
+  });
+
+  describe('npmPackageManager', () => {
+    it('lists workspaces via the "workspaces" field of the root manifest, recursively', async () => {
+      when(jest.spyOn(actionUtils, 'getWorkspaceLocations'))
+        .calledWith(['packages/*'], '/path/to/project', true)
+        .mockResolvedValue(['packages/a']);
+
+      expect(
+        await npmPackageManager.listWorkspaceDirectories(
+          '/path/to/project',
+          buildMockManifest({ workspaces: ['packages/*'] }),
+        ),
+      ).toStrictEqual(['packages/a']);
+    });
+
+    it('runs "npm install --package-lock-only" to update the lockfile', async () => {
+      await npmPackageManager.updateLockfile('/path/to/project');
+
+      expect(miscUtils.runCommand).toHaveBeenCalledWith(
+        'npm',
+        ['install', '--package-lock-only'],
+        { cwd: '/path/to/project' },
+      );
+    });
+
+    it('runs "npm dedupe --package-lock-only --ignore-scripts" to deduplicate dependencies', async () => {
+      await npmPackageManager.deduplicateDependencies?.('/path/to/project');
+
+      expect(miscUtils.runCommand).toHaveBeenCalledWith(
+        'npm',
+        ['dedupe', '--package-lock-only', '--ignore-scripts'],
+        { cwd: '/path/to/project' },
+      );
+    });
+
+    it('does not support constraints', () => {
+      expect(npmPackageManager.fixConstraints).toBeUndefined();
+    });
+  });
+
+  describe('pnpmPackageManager', () => {
+    it('lists workspaces via the "packages" field of pnpm-workspace.yaml, leaving out those matched by negated patterns', async () => {
+      await withSandbox(async (sandbox) => {
+        await fs.promises.writeFile(
+          path.join(sandbox.directoryPath, 'pnpm-workspace.yaml'),
+          'packages:\n  - packages/*\n  - tools/*\n  - "!packages/internal"\n',
+        );
+        when(jest.spyOn(actionUtils, 'getWorkspaceLocations'))
+          .calledWith(['packages/*', 'tools/*'], sandbox.directoryPath)
+          .mockResolvedValue(['packages/a', 'packages/internal', 'tools/build'])
+          .calledWith(['packages/internal'], sandbox.directoryPath)
+          .mockResolvedValue(['packages/internal']);
+
+        expect(
+          await pnpmPackageManager.listWorkspaceDirectories(
+            sandbox.directoryPath,
+            buildMockManifest(),
+          ),
+        ).toStrictEqual(['packages/a', 'tools/build']);
+      });
+    });
+
+    it('lists no workspaces if pnpm-workspace.yaml does not exist', async () => {
+      await withSandbox(async (sandbox) => {
+        jest.spyOn(actionUtils, 'getWorkspaceLocations').mockResolvedValue([]);
+
+        expect(
+          await pnpmPackageManager.listWorkspaceDirectories(
+            sandbox.directoryPath,
+            buildMockManifest(),
+          ),
+        ).toStrictEqual([]);
+        expect(actionUtils.getWorkspaceLocations).toHaveBeenCalledWith(
+          [],
+          sandbox.directoryPath,
+        );
+      });
+    });
+
+    it('lists no workspaces if pnpm-workspace.yaml does not have a "packages" field', async () => {
+      await withSandbox(async (sandbox) => {
+        await fs.promises.writeFile(
+          path.join(sandbox.directoryPath, 'pnpm-workspace.yaml'),
+          'onlyBuiltDependencies:\n  - esbuild\n',
+        );
+        jest.spyOn(actionUtils, 'getWorkspaceLocations').mockResolvedValue([]);
+
+        expect(
+          await pnpmPackageManager.listWorkspaceDirectories(
+            sandbox.directoryPath,
+            buildMockManifest(),
+          ),
+        ).toStrictEqual([]);
+      });
+    });
+
+    it('throws if the "packages" field of pnpm-workspace.yaml is not an array of strings', async () => {
+      await withSandbox(async (sandbox) => {
+        const workspaceFilePath = path.join(
+          sandbox.directoryPath,
+          'pnpm-workspace.yaml',
+        );
+        await fs.promises.writeFile(
+          workspaceFilePath,
+          'packages: packages/*\n',
+        );
+
+        await expect(
+          pnpmPackageManager.listWorkspaceDirectories(
+            sandbox.directoryPath,
+            buildMockManifest(),
+          ),
+        ).rejects.toThrow(
+          `The value of "packages" in '${workspaceFilePath}' must be an array of strings.`,
+        );
+      });
+    });
+
+    it('runs "pnpm install --lockfile-only --no-frozen-lockfile" to update the lockfile', async () => {
+      await pnpmPackageManager.updateLockfile('/path/to/project');
+
+      expect(miscUtils.runCommand).toHaveBeenCalledWith(
+        'pnpm',
+        ['install', '--lockfile-only', '--no-frozen-lockfile'],
+        { cwd: '/path/to/project' },
+      );
+    });
+
+    it('runs "pnpm dedupe" to deduplicate dependencies', async () => {
+      await pnpmPackageManager.deduplicateDependencies?.('/path/to/project');
+
+      expect(miscUtils.runCommand).toHaveBeenCalledWith('pnpm', ['dedupe'], {
+        cwd: '/path/to/project',
+      });
+    });
+  });
+
+  describe('detectPackageManager', () => {
+    it('uses the "packageManager" field of the root manifest if present', async () => {
+      await withSandbox(async (sandbox) => {
+        await fs.promises.writeFile(
+          path.join(sandbox.directoryPath, 'yarn.lock'),
+          '',
+        );
+
+        expect(
+          await detectPackageManager(sandbox.directoryPath, {
+            packageManager: 'pnpm@8.15.0',
+          }),
+        ).toBe(pnpmPackageManager);
+      });
+    });
+
+    it('throws if the "packageManager" field names an unsupported package manager', async () => {
+      await expect(
+        detectPackageManager('/path/to/project', {
+          packageManager: 'bun@1.0.0',
+        }),
+      ).rejects.toThrow(
+        'The package manager "bun@1.0.0" (given via "packageManager" in the root package.json) is not supported. Please use Yarn, npm, or pnpm.',
+      );
+    });
+
+    it('throws if the "packageManager" field names a property that every object has', async () => {
+      await expect(
+        detectPackageManager('/path/to/project', {
+          packageManager: 'toString@1.0.0',
+        }),
+      ).rejects.toThrow(
+        'The package manager "toString@1.0.0" (given via "packageManager" in the root package.json) is not supported. Please use Yarn, npm, or pnpm.',
+      );
+    });
+
+    it.each([
+      ['yarn.lock', yarnPackageManager],
+      ['package-lock.json', npmPackageManager],
+      ['pnpm-lock.yaml', pnpmPackageManager],
+    ])(
+      'infers the package manager from %s if the "packageManager" field is not present',
+      async (lockfileName, expectedPackageManager) => {
+        await withSandbox(async (sandbox) => {
+          await fs.promises.writeFile(
+            path.join(sandbox.directoryPath, lockfileName),
+            '',
+          );
+
+          expect(await detectPackageManager(sandbox.directoryPath, {})).toBe(
+            expectedPackageManager,
+          );
+        });
+      },
+    );
+
+    it('falls back to Yarn if there is no lockfile', async () => {
+      await withSandbox(async (sandbox) => {
+        expect(await detectPackageManager(sandbox.directoryPath, {})).toBe(
+          yarnPackageManager,
+        );
+      });
+    });
+  });
+
+  describe('updateDependencies', () => {
+    it('fixes constraints, updates the lockfile, and then deduplicates dependencies', async () => {
+      const calls: string[] = [];
+      const packageManager: PackageManager = {
+        name: 'yarn',
+        lockfileName: 'yarn.lock',
+        listWorkspaceDirectories: jest.fn(),
+        fixConstraints: async (directoryPath) => {
+          calls.push(`fixConstraints ${directoryPath}`);
+        },
+        updateLockfile: async (directoryPath) => {
+          calls.push(`updateLockfile ${directoryPath}`);
+        },
+        deduplicateDependencies: async (directoryPath) => {
+          calls.push(`deduplicateDependencies ${directoryPath}`);
+        },
+      };
+
+      await updateDependencies({
+        packageManager,
+        directoryPath: '/path/to/project',
+      });
+
+      expect(calls).toStrictEqual([
+        'fixConstraints /path/to/project',
+        'updateLockfile /path/to/project',
+        'deduplicateDependencies /path/to/project',
+      ]);
+    });
+
+    it('only updates the lockfile if the package manager does not support any other steps', async () => {
+      const packageManager: PackageManager = {
+        name: 'npm',
+        lockfileName: 'package-lock.json',
+        listWorkspaceDirectories: jest.fn(),
+        updateLockfile: jest.fn(),
+      };
+
+      await updateDependencies({
+        packageManager,
+        directoryPath: '/path/to/project',
+      });
+
+      expect(packageManager.updateLockfile).toHaveBeenCalledWith(
+        '/path/to/project',
+      );
+    });
+  });
+});
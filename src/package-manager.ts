@@ -0,0 +1,255 @@
+import path from 'path';
+import { getWorkspaceLocations } from '@metamask/action-utils';
+import YAML from 'yaml';
+import { fileExists, readFile } from './fs.js';
+import { debug, hasProperty, isObject, runCommand } from './misc-utils.js';
+import {
+  PackageManifestFieldNames,
+  UnvalidatedPackageManifest,
+  ValidatedPackageManifest,
+} from './package-manifest.js';
+import {
+  deduplicateDependencies,
+  fixConstraints,
+  updateYarnLockfile,
+} from './yarn-commands.js';
+
+/**
+ * The package managers that this tool knows how to work with.
+ */
+export type PackageManagerName = 'yarn' | 'npm' | 'pnpm';
+
+/**
+ * Encapsulates the operations that differ from one package manager to another.
+ *
+ * @property name - The name of the package manager.
+ * @property lockfileName - The name of the lockfile that the package manager
+ * writes to the project directory.
+ * @property listWorkspaceDirectories - Resolves the directories of the
+ * workspace packages in the project, relative to the project directory.
+ * @property updateLockfile - Updates the lockfile after the manifests of
+ * packages in the project have changed.
+ * @property fixConstraints - Fixes any unmet constraints across the project
+ * before the lockfile is updated (if supported by the package manager).
+ * @property deduplicateDependencies - Deduplicates dependencies after the
+ * lockfile is updated (if supported by the package manager).
+ */
+export type PackageManager = {
+  name: PackageManagerName;
+  lockfileName: string;
+  listWorkspaceDirectories(
+    projectDirectoryPath: string,
+    rootPackageManifest: ValidatedPackageManifest,
+  ): Promise<string[]>;
+  updateLockfile(projectDirectoryPath: string): Promise<void>;
+  fixConstraints?(projectDirectoryPath: string): Promise<void>;
+  deduplicateDependencies?(projectDirectoryPath: string): Promise<void>;
+};
+
+/**
+ * Yarn, which lists workspaces via the `workspaces` field of the root
+ * `package.json` and supports constraints.
+ */
+export const yarnPackageManager: PackageManager = {
+  name: 'yarn',
+  lockfileName: 'yarn.lock',
+  async listWorkspaceDirectories(projectDirectoryPath, rootPackageManifest) {
+    return await getWorkspaceLocations(
+      rootPackageManifest[PackageManifestFieldNames.Workspaces],
+      projectDirectoryPath,
+      true,
+    );
+  },
+  async updateLockfile(projectDirectoryPath) {
+    await updateYarnLockfile(projectDirectoryPath);
+  },
+  async fixConstraints(projectDirectoryPath) {
+    await fixConstraints(projectDirectoryPath);
+  },
+  async deduplicateDependencies(projectDirectoryPath) {
+    await deduplicateDependencies(projectDirectoryPath);
+  },
+};
+
+/**
+ * npm, which lists workspaces via the `workspaces` field of the root
+ * `package.json`.
+ */
+export const npmPackageManager: PackageManager = {
+  name: 'npm',
+  lockfileName: 'package-lock.json',
+  async listWorkspaceDirectories(projectDirectoryPath, rootPackageManifest) {
+    return await getWorkspaceLocations(
+      rootPackageManifest[PackageManifestFieldNames.Workspaces],
+      projectDirectoryPath,
+      true,
+    );
+  },
+  async updateLockfile(projectDirectoryPath) {
+    debug('Installing dependencies...');
+    await runCommand('npm', ['install', '--package-lock-only'], {
+      cwd: projectDirectoryPath,
+    });
+  },
+  async deduplicateDependencies(projectDirectoryPath) {
+    debug('Deduplicating dependencies...');
+    await runCommand(
+      'npm',
+      ['dedupe', '--package-lock-only', '--ignore-scripts'],
+      { cwd: projectDirectoryPath },
+    );
+  },
+};
+
+/**
+ * pnpm, which lists workspaces via the `packages` field of
+ * `pnpm-workspace.yaml`.
+ */
+export const pnpmPackageManager: PackageManager = {
+  name: 'pnpm',
+  lockfileName: 'pnpm-lock.yaml',
+  async listWorkspaceDirectories(projectDirectoryPath) {
+    const patterns = await readPnpmWorkspacePatterns(projectDirectoryPath);
+    const includedPatterns = patterns.filter(
+      (pattern) => !pattern.startsWith('!'),
+    );
+    const excludedPatterns = patterns
+      .filter((pattern) => pattern.startsWith('!'))
+      .map((pattern) => pattern.slice(1));
+    const excludedDirectories = await getWorkspaceLocations(
+      excludedPatterns,
+      projectDirectoryPath,
+    );
+
+    return (
+      await getWorkspaceLocations(includedPatterns, projectDirectoryPath)
+    ).filter((directory) => !excludedDirectories.includes(directory));
+  },
+  async updateLockfile(projectDirectoryPath) {
+    debug('Installing dependencies...');
+    await runCommand(
+      'pnpm',
+      ['install', '--lockfile-only', '--no-frozen-lockfile'],
+      { cwd: projectDirectoryPath },
+    );
+  },
+  async deduplicateDependencies(projectDirectoryPath) {
+    debug('Deduplicating dependencies...');
+    await runCommand('pnpm', ['dedupe'], {
+      cwd: projectDirectoryPath,
+    });
+  },
+};
+
+/**
+ * The package managers this tool supports, by name, in the order in which
+ * their lockfiles are checked when detecting the package manager.
+ */
+const PACKAGE_MANAGERS: Record<PackageManagerName, PackageManager> = {
+  yarn: yarnPackageManager,
+  npm: npmPackageManager,
+  pnpm: pnpmPackageManager,
+};
+
+/**
+ * Reads the workspace patterns listed in the `pnpm-workspace.yaml` file of a
+ * project.
+ *
+ * @param projectDirectoryPath - The path to the project directory.
+ * @returns The patterns, or an empty array if the file does not exist or does
+ * not list any.
+ * @throws If the `packages` field in the file is not an array of strings.
+ */
+async function readPnpmWorkspacePatterns(
+  projectDirectoryPath: string,
+): Promise<string[]> {
+  const workspaceFilePath = path.join(
+    projectDirectoryPath,
+    'pnpm-workspace.yaml',
+  );
+
+  if (!(await fileExists(workspaceFilePath))) {
+    return [];
+  }
+
+  const workspaceFile = YAML.parse(await readFile(workspaceFilePath));
+
+  if (!isObject(workspaceFile) || workspaceFile.packages === undefined) {
+    return [];
+  }
+
+  if (
+    !Array.isArray(workspaceFile.packages) ||
+    !workspaceFile.packages.every((pattern) => typeof pattern === 'string')
+  ) {
+    throw new Error(
+      `The value of "packages" in '${workspaceFilePath}' must be an array of strings.`,
+    );
+  }
+
+  return workspaceFile.packages;
+}
+
+/**
+ * Determines which package manager a project uses. The `packageManager` field
+ * of the root `package.json` takes precedence; otherwise the package manager
+ * is inferred from the lockfile in the project directory, falling back to Yarn
+ * if there is none.
+ *
+ * @param projectDirectoryPath - The path to the project directory.
+ * @param rootPackageManifest - The manifest of the root package.
+ * @returns The package manager.
+ * @throws If the `packageManager` field names a package manager which is not
+ * supported.
+ */
+export async function detectPackageManager(
+  projectDirectoryPath: string,
+  rootPackageManifest: UnvalidatedPackageManifest,
+): Promise<PackageManager> {
+  const { packageManager } = rootPackageManifest;
+
+  if (typeof packageManager === 'string') {
+    const name = packageManager.split('@')[0];
+
+    if (!hasProperty(PACKAGE_MANAGERS, name)) {
+      throw new Error(
+        `The package manager "${packageManager}" (given via "packageManager" in the root package.json) is not supported. Please use Yarn, npm, or pnpm.`,
+      );
+    }
+
+    // Typecast: We've just checked that this is a supported package manager.
+    return PACKAGE_MANAGERS[name as PackageManagerName];
+  }
+
+  for (const candidate of Object.values(PACKAGE_MANAGERS)) {
+    if (
+      await fileExists(path.join(projectDirectoryPath, candidate.lockfileName))
+    ) {
+      return candidate;
+    }
+  }
+
+  return yarnPackageManager;
+}
+
+/**
+ * Brings the lockfile of a project up to date after the manifests of its
+ * packages have changed. Unmet constraints are fixed beforehand and
+ * dependencies are deduplicated afterward, if the package manager supports
+ * doing so.
+ *
+ * @param args - The arguments.
+ * @param args.packageManager - The package manager that the project uses.
+ * @param args.directoryPath - The path to the project directory.
+ */
+export async function updateDependencies({
+  packageManager,
+  directoryPath,
+}: {
+  packageManager: PackageManager;
+  directoryPath: string;
+}): Promise<void> {
+  await packageManager.fixConstraints?.(directoryPath);
+  await packageManager.updateLockfile(directoryPath);
+  await packageManager.deduplicateDependencies?.(directoryPath);
+}
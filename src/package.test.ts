@@ -19,9 +19,13 @@ import {
   getFormatter,
   readMonorepoRootPackage,
   readMonorepoWorkspacePackage,
+  readReleasedChangelogChanges,
+  readUnreleasedChangelogChanges,
   updatePackage,
   updatePackageChangelog,
+  updatePackageDependencyRanges,
 } from './package.js';
+import { DEFAULT_TAG_NAME_TEMPLATES } from './tag-name-template.js';
 import * as fsModule from './fs.js';
 import * as packageManifestModule from './package-manifest.js';
 import * as repoModule from './repo.js';
@@ -60,6 +64,7 @@ describe('package', () => {
         packageDirectoryPath: '/path/to/package',
         projectDirectoryPath: '/path/to/project',
         projectTagNames: [],
+        tagNameTemplates: DEFAULT_TAG_NAME_TEMPLATES,
       });
 
       expect(pkg).toMatchObject({
@@ -83,6 +88,7 @@ describe('package', () => {
         packageDirectoryPath: '/path/to/package',
         projectDirectoryPath: '/path/to/project',
         projectTagNames: [],
+        tagNameTemplates: DEFAULT_TAG_NAME_TEMPLATES,
       });
 
       expect(pkg).toMatchObject({
@@ -100,14 +106,15 @@ describe('package', () => {
             version: new SemVer('1.0.0'),
           }),
         });
-      when(jest.spyOn(repoModule, 'hasChangesInDirectorySinceGitTag'))
+      when(jest.spyOn(repoModule, 'getFilesChangedInDirectorySinceGitTag'))
         .calledWith('/path/to/project', '/path/to/package', 'v1.0.0')
-        .mockResolvedValue(true);
+        .mockResolvedValue(['src/index.ts']);
 
       const pkg = await readMonorepoRootPackage({
         packageDirectoryPath: '/path/to/package',
         projectDirectoryPath: '/path/to/project',
         projectTagNames: ['v1.0.0'],
+        tagNameTemplates: DEFAULT_TAG_NAME_TEMPLATES,
       });
 
       expect(pkg).toMatchObject({
@@ -124,14 +131,15 @@ describe('package', () => {
             version: new SemVer('1.0.0'),
           }),
         });
-      when(jest.spyOn(repoModule, 'hasChangesInDirectorySinceGitTag'))
+      when(jest.spyOn(repoModule, 'getFilesChangedInDirectorySinceGitTag'))
         .calledWith('/path/to/project', '/path/to/package', 'v1.0.0')
-        .mockResolvedValue(false);
+        .mockResolvedValue([]);
 
       const pkg = await readMonorepoRootPackage({
         packageDirectoryPath: '/path/to/package',
         projectDirectoryPath: '/path/to/project',
         projectTagNames: ['v1.0.0'],
+        tagNameTemplates: DEFAULT_TAG_NAME_TEMPLATES,
       });
 
       expect(pkg).toMatchObject({
@@ -153,6 +161,7 @@ describe('package', () => {
         packageDirectoryPath: '/path/to/package',
         projectDirectoryPath: '/path/to/project',
         projectTagNames: [],
+        tagNameTemplates: DEFAULT_TAG_NAME_TEMPLATES,
       });
 
       expect(pkg).toMatchObject({
@@ -160,6 +169,82 @@ describe('package', () => {
       });
     });
 
+    it('records the tag matching the current version as the tag for the latest release', async () => {
+      jest
+        .spyOn(packageManifestModule, 'readPackageManifest')
+        .mockResolvedValue({
+          unvalidated: {},
+          validated: buildMockManifest({
+            version: new SemVer('1.0.0'),
+          }),
+        });
+      jest
+        .spyOn(repoModule, 'getFilesChangedInDirectorySinceGitTag')
+        .mockResolvedValue(['src/index.ts']);
+
+      const pkg = await readMonorepoRootPackage({
+        packageDirectoryPath: '/path/to/package',
+        projectDirectoryPath: '/path/to/project',
+        projectTagNames: ['v1.0.0'],
+        tagNameTemplates: DEFAULT_TAG_NAME_TEMPLATES,
+      });
+
+      expect(pkg).toMatchObject({
+        latestReleaseTagName: 'v1.0.0',
+      });
+    });
+
+    it('looks for a tag named according to the given template for the root package', async () => {
+      jest
+        .spyOn(packageManifestModule, 'readPackageManifest')
+        .mockResolvedValue({
+          unvalidated: {},
+          validated: buildMockManifest({
+            name: 'root',
+            version: new SemVer('1.0.0'),
+          }),
+        });
+      jest
+        .spyOn(repoModule, 'getFilesChangedInDirectorySinceGitTag')
+        .mockResolvedValue([]);
+
+      const pkg = await readMonorepoRootPackage({
+        packageDirectoryPath: '/path/to/package',
+        projectDirectoryPath: '/path/to/project',
+        projectTagNames: ['v1.0.0', 'release-1.0.0'],
+        tagNameTemplates: {
+          ...DEFAULT_TAG_NAME_TEMPLATES,
+          root: `release-\${version}`,
+        },
+      });
+
+      expect(pkg).toMatchObject({
+        latestReleaseTagName: 'release-1.0.0',
+      });
+    });
+
+    it('does not record a tag for the latest release if the project has no tags', async () => {
+      jest
+        .spyOn(packageManifestModule, 'readPackageManifest')
+        .mockResolvedValue({
+          unvalidated: {},
+          validated: buildMockManifest({
+            version: new SemVer('1.0.0'),
+          }),
+        });
+
+      const pkg = await readMonorepoRootPackage({
+        packageDirectoryPath: '/path/to/package',
+        projectDirectoryPath: '/path/to/project',
+        projectTagNames: [],
+        tagNameTemplates: DEFAULT_TAG_NAME_TEMPLATES,
+      });
+
+      expect(pkg).toMatchObject({
+        latestReleaseTagName: null,
+      });
+    });
+
     it('throws if a tag matching the current version does not exist', async () => {
       jest
         .spyOn(packageManifestModule, 'readPackageManifest')
@@ -170,14 +255,15 @@ describe('package', () => {
             version: new SemVer('1.0.0'),
           }),
         });
-      when(jest.spyOn(repoModule, 'hasChangesInDirectorySinceGitTag'))
+      when(jest.spyOn(repoModule, 'getFilesChangedInDirectorySinceGitTag'))
         .calledWith('/path/to/project', '/path/to/package', 'v1.0.0')
-        .mockResolvedValue(true);
+        .mockResolvedValue(['src/index.ts']);
 
       const promiseForPkg = readMonorepoRootPackage({
         packageDirectoryPath: '/path/to/package',
         projectDirectoryPath: '/path/to/project',
         projectTagNames: ['some-tag'],
+        tagNameTemplates: DEFAULT_TAG_NAME_TEMPLATES,
       });
 
       await expect(promiseForPkg).rejects.toThrow(
@@ -204,6 +290,8 @@ describe('package', () => {
         projectTagNames: [],
         rootPackageName: 'root-package',
         rootPackageVersion: new SemVer('5.0.0'),
+        pathFilters: {},
+        tagNameTemplates: DEFAULT_TAG_NAME_TEMPLATES,
         stderr,
       });
 
@@ -231,6 +319,8 @@ describe('package', () => {
         projectTagNames: [],
         rootPackageName: 'root-package',
         rootPackageVersion: new SemVer('5.0.0'),
+        pathFilters: {},
+        tagNameTemplates: DEFAULT_TAG_NAME_TEMPLATES,
         stderr,
       });
 
@@ -251,13 +341,13 @@ describe('package', () => {
             version: new SemVer('1.0.0'),
           }),
         });
-      when(jest.spyOn(repoModule, 'hasChangesInDirectorySinceGitTag'))
+      when(jest.spyOn(repoModule, 'getFilesChangedInDirectorySinceGitTag'))
         .calledWith(
           '/path/to/project',
           '/path/to/package',
           '@scope/workspace-package@1.0.0',
         )
-        .mockResolvedValue(true);
+        .mockResolvedValue(['src/index.ts']);
 
       const pkg = await readMonorepoWorkspacePackage({
         packageDirectoryPath: '/path/to/package',
@@ -265,6 +355,8 @@ describe('package', () => {
         projectTagNames: ['@scope/workspace-package@1.0.0'],
         rootPackageName: 'root-package',
         rootPackageVersion: new SemVer('5.0.0'),
+        pathFilters: {},
+        tagNameTemplates: DEFAULT_TAG_NAME_TEMPLATES,
         stderr,
       });
 
@@ -284,13 +376,13 @@ describe('package', () => {
             version: new SemVer('1.0.0'),
           }),
         });
-      when(jest.spyOn(repoModule, 'hasChangesInDirectorySinceGitTag'))
+      when(jest.spyOn(repoModule, 'getFilesChangedInDirectorySinceGitTag'))
         .calledWith(
           '/path/to/project',
           '/path/to/package',
           '@scope/workspace-package@1.0.0',
         )
-        .mockResolvedValue(false);
+        .mockResolvedValue([]);
 
       const pkg = await readMonorepoWorkspacePackage({
         packageDirectoryPath: '/path/to/package',
@@ -298,6 +390,8 @@ describe('package', () => {
         projectTagNames: ['@scope/workspace-package@1.0.0'],
         rootPackageName: 'root-package',
         rootPackageVersion: new SemVer('5.0.0'),
+        pathFilters: {},
+        tagNameTemplates: DEFAULT_TAG_NAME_TEMPLATES,
         stderr,
       });
 
@@ -317,9 +411,9 @@ describe('package', () => {
             version: new SemVer('1.0.0'),
           }),
         });
-      when(jest.spyOn(repoModule, 'hasChangesInDirectorySinceGitTag'))
+      when(jest.spyOn(repoModule, 'getFilesChangedInDirectorySinceGitTag'))
         .calledWith('/path/to/project', '/path/to/package', 'v5.0.0')
-        .mockResolvedValue(true);
+        .mockResolvedValue(['src/index.ts']);
 
       const pkg = await readMonorepoWorkspacePackage({
         packageDirectoryPath: '/path/to/package',
@@ -327,6 +421,8 @@ describe('package', () => {
         projectTagNames: ['v5.0.0'],
         rootPackageName: 'root-package',
         rootPackageVersion: new SemVer('5.0.0'),
+        pathFilters: {},
+        tagNameTemplates: DEFAULT_TAG_NAME_TEMPLATES,
         stderr,
       });
 
@@ -345,9 +441,9 @@ describe('package', () => {
             version: new SemVer('1.0.0'),
           }),
         });
-      when(jest.spyOn(repoModule, 'hasChangesInDirectorySinceGitTag'))
+      when(jest.spyOn(repoModule, 'getFilesChangedInDirectorySinceGitTag'))
         .calledWith('/path/to/project', '/path/to/package', 'v5.0.0')
-        .mockResolvedValue(false);
+        .mockResolvedValue([]);
 
       const pkg = await readMonorepoWorkspacePackage({
         packageDirectoryPath: '/path/to/package',
@@ -355,6 +451,8 @@ describe('package', () => {
         projectTagNames: ['v5.0.0'],
         rootPackageName: 'root-package',
         rootPackageVersion: new SemVer('5.0.0'),
+        pathFilters: {},
+        tagNameTemplates: DEFAULT_TAG_NAME_TEMPLATES,
         stderr,
       });
 
@@ -380,11 +478,118 @@ describe('package', () => {
         projectTagNames: [],
         rootPackageName: 'root-package',
         rootPackageVersion: new SemVer('5.0.0'),
+        pathFilters: {},
+        tagNameTemplates: DEFAULT_TAG_NAME_TEMPLATES,
+        stderr,
+      });
+
+      expect(pkg).toMatchObject({
+        hasChangesSinceLatestRelease: true,
+        latestReleaseTagName: null,
+      });
+    });
+
+    it("records the tag matching 'v' + the root package version as the tag for the latest release if a tag matching the package name + version does not exist", async () => {
+      const stderr = createNoopWriteStream();
+      jest
+        .spyOn(packageManifestModule, 'readPackageManifest')
+        .mockResolvedValue({
+          unvalidated: {},
+          validated: buildMockManifest({
+            name: '@scope/workspace-package',
+            version: new SemVer('1.0.0'),
+          }),
+        });
+      jest
+        .spyOn(repoModule, 'getFilesChangedInDirectorySinceGitTag')
+        .mockResolvedValue(['src/index.ts']);
+
+      const pkg = await readMonorepoWorkspacePackage({
+        packageDirectoryPath: '/path/to/package',
+        projectDirectoryPath: '/path/to/project',
+        projectTagNames: ['v5.0.0'],
+        rootPackageName: 'root-package',
+        rootPackageVersion: new SemVer('5.0.0'),
+        pathFilters: {},
+        tagNameTemplates: DEFAULT_TAG_NAME_TEMPLATES,
+        stderr,
+      });
+
+      expect(pkg).toMatchObject({
+        latestReleaseTagName: 'v5.0.0',
+      });
+    });
+
+    it('records the files that have changed since the latest release, leaving out those that the path filter for the package makes irrelevant', async () => {
+      const stderr = createNoopWriteStream();
+      jest
+        .spyOn(packageManifestModule, 'readPackageManifest')
+        .mockResolvedValue({
+          unvalidated: {},
+          validated: buildMockManifest({
+            name: '@scope/workspace-package',
+            version: new SemVer('1.0.0'),
+          }),
+        });
+      when(jest.spyOn(repoModule, 'getFilesChangedInDirectorySinceGitTag'))
+        .calledWith(
+          '/path/to/project',
+          '/path/to/package',
+          '@scope/workspace-package@1.0.0',
+        )
+        .mockResolvedValue(['src/index.ts', 'src/index.test.ts', 'README.md']);
+
+      const pkg = await readMonorepoWorkspacePackage({
+        packageDirectoryPath: '/path/to/package',
+        projectDirectoryPath: '/path/to/project',
+        projectTagNames: ['@scope/workspace-package@1.0.0'],
+        rootPackageName: 'root-package',
+        rootPackageVersion: new SemVer('5.0.0'),
+        pathFilters: { '*': { include: [], ignore: ['*.test.ts', '*.md'] } },
+        tagNameTemplates: DEFAULT_TAG_NAME_TEMPLATES,
         stderr,
       });
 
       expect(pkg).toMatchObject({
         hasChangesSinceLatestRelease: true,
+        changedFilePaths: ['src/index.ts'],
+      });
+    });
+
+    it('does not flag the package as having been changed since its latest release if only files that the path filter for the package makes irrelevant have changed', async () => {
+      const stderr = createNoopWriteStream();
+      jest
+        .spyOn(packageManifestModule, 'readPackageManifest')
+        .mockResolvedValue({
+          unvalidated: {},
+          validated: buildMockManifest({
+            name: '@scope/workspace-package',
+            version: new SemVer('1.0.0'),
+          }),
+        });
+      jest
+        .spyOn(repoModule, 'getFilesChangedInDirectorySinceGitTag')
+        .mockResolvedValue(['tsconfig.json', 'src/index.test.ts']);
+
+      const pkg = await readMonorepoWorkspacePackage({
+        packageDirectoryPath: '/path/to/package',
+        projectDirectoryPath: '/path/to/project',
+        projectTagNames: ['@scope/workspace-package@1.0.0'],
+        rootPackageName: 'root-package',
+        rootPackageVersion: new SemVer('5.0.0'),
+        pathFilters: {
+          '@scope/workspace-package': {
+            include: ['src/**'],
+            ignore: ['**/*.test.ts'],
+          },
+        },
+        tagNameTemplates: DEFAULT_TAG_NAME_TEMPLATES,
+        stderr,
+      });
+
+      expect(pkg).toMatchObject({
+        hasChangesSinceLatestRelease: false,
+        changedFilePaths: [],
       });
     });
 
@@ -399,6 +604,9 @@ describe('package', () => {
             version: new SemVer('1.0.0'),
           }),
         });
+      jest
+        .spyOn(repoModule, 'getFilesChangedInDirectorySinceGitTag')
+        .mockResolvedValue([]);
 
       await readMonorepoWorkspacePackage({
         packageDirectoryPath: '/path/to/package',
@@ -406,6 +614,8 @@ describe('package', () => {
         projectTagNames: ['v5.0.0'],
         rootPackageName: 'root-package',
         rootPackageVersion: new SemVer('5.0.0'),
+        pathFilters: {},
+        tagNameTemplates: DEFAULT_TAG_NAME_TEMPLATES,
         stderr,
       });
 
@@ -432,6 +642,8 @@ describe('package', () => {
         projectTagNames: ['some-tag'],
         rootPackageName: 'root-package',
         rootPackageVersion: new SemVer('5.0.0'),
+        pathFilters: {},
+        tagNameTemplates: DEFAULT_TAG_NAME_TEMPLATES,
         stderr,
       });
 
@@ -441,15 +653,44 @@ describe('package', () => {
         ),
       );
     });
+    it('looks for tags named according to the given templates, referring to them if neither exists', async () => {
+      const stderr = createNoopWriteStream();
+      when(jest.spyOn(packageManifestModule, 'readPackageManifest'))
+        .calledWith('/path/to/package/package.json')
+        .mockResolvedValue({
+          unvalidated: {},
+          validated: buildMockManifest({
+            name: '@scope/workspace-package',
+            version: new SemVer('1.0.0'),
+          }),
+        });
+
+      const promise = readMonorepoWorkspacePackage({
+        packageDirectoryPath: '/path/to/package',
+        projectDirectoryPath: '/path/to/project',
+        projectTagNames: ['@scope/workspace-package@1.0.0', 'v5.0.0'],
+        rootPackageName: 'root-package',
+        rootPackageVersion: new SemVer('5.0.0'),
+        pathFilters: {},
+        tagNameTemplates: {
+          root: `release-\${version}`,
+          workspace: `\${unscopedName}-v\${version}`,
+        },
+        stderr,
+      });
+
+      await expect(promise).rejects.toThrow(
+        new Error(
+          'The current release of workspace package @scope/workspace-package, 1.0.0, has no corresponding Git tag "workspace-package-v1.0.0", and the current release of root package root-package, 5.0.0, has no tag "release-5.0.0". Hence, this tool is unable to know whether the workspace package changed and should be included in this release. You will need to create tags for both of these packages in order to proceed.',
+        ),
+      );
+    });
   });
 
   describe('updatePackage', () => {
     it('writes the planned version to the planned package', async () => {
       await withSandbox(async (sandbox) => {
-        const project = {
-          directoryPath: '/path/to/project',
-          repositoryUrl: 'https://repo.url',
-        };
+        const project = buildMockProject();
         const manifestPath = path.join(sandbox.directoryPath, 'package.json');
         const packageReleasePlan = {
           package: buildMockPackage({
@@ -476,6 +717,65 @@ describe('package', () => {
       });
     });
 
+    it('writes the given ranges of dependencies and peer dependencies to the planned package, leaving other fields alone', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject();
+        const manifestPath = path.join(sandbox.directoryPath, 'package.json');
+        const packageReleasePlan = {
+          package: buildMockPackage({
+            directoryPath: sandbox.directoryPath,
+            manifestPath,
+            unvalidatedManifest: {
+              name: 'foo',
+              version: '1.2.3',
+              description: 'A package',
+              dependencies: { a: '^1.0.0', x: '^1.0.0' },
+              peerDependencies: { b: '^1.0.0' },
+            },
+            validatedManifest: buildMockManifest({
+              dependencies: { a: '^1.0.0', x: '^1.0.0' },
+              peerDependencies: { b: '^1.0.0' },
+            }),
+            changelogPath: path.join(sandbox.directoryPath, 'CHANGELOG.md'),
+          }),
+          newVersion: '1.2.4',
+        };
+
+        await updatePackage({
+          project,
+          packageReleasePlan,
+          dependencyRangeUpdates: [
+            {
+              packageName: 'foo',
+              dependencyName: 'a',
+              dependencyType: 'dependencies',
+              previousRange: '^1.0.0',
+              newRange: '^2.0.0',
+            },
+            {
+              packageName: 'foo',
+              dependencyName: 'b',
+              dependencyType: 'peerDependencies',
+              previousRange: '^1.0.0',
+              newRange: '^3.0.0',
+            },
+          ],
+          formatter: 'prettier',
+        });
+
+        const newManifest = JSON.parse(
+          await fs.promises.readFile(manifestPath, 'utf8'),
+        );
+        expect(newManifest).toStrictEqual({
+          name: 'foo',
+          version: '1.2.4',
+          description: 'A package',
+          dependencies: { a: '^2.0.0', x: '^1.0.0' },
+          peerDependencies: { b: '^3.0.0' },
+        });
+      });
+    });
+
     it('migrates all unreleased changes to a release section', async () => {
       await withSandbox(async (sandbox) => {
         const project = buildMockProject({
@@ -543,7 +843,7 @@ describe('package', () => {
       });
     });
 
-    it('migrates all unreleased changes to a release section with Oxfmt', async () => {
+    it('migrates all unreleased changes to a release section for a prerelease version', async () => {
       await withSandbox(async (sandbox) => {
         const project = buildMockProject({
           repositoryUrl: 'https://repo.url',
@@ -556,7 +856,7 @@ describe('package', () => {
             validatedManifest: buildMockManifest(),
             changelogPath,
           }),
-          newVersion: '2.0.0',
+          newVersion: '2.0.0-rc.0',
         };
 
         await fs.promises.writeFile(
@@ -570,7 +870,7 @@ describe('package', () => {
             ### Changed
             - Something else
 
-            [Unreleased]: https://repo.url/compare/package@2.0.0...HEAD
+            [Unreleased]: https://repo.url/compare/package@1.0.0...HEAD
             [1.0.0]: https://repo.url/releases/tag/package@1.0.0
           `),
         );
@@ -578,7 +878,7 @@ describe('package', () => {
         await updatePackage({
           project,
           packageReleasePlan,
-          formatter: 'oxfmt',
+          formatter: 'prettier',
         });
 
         const newChangelogContent = await fs.promises.readFile(
@@ -587,34 +887,35 @@ describe('package', () => {
         );
 
         expect(newChangelogContent).toBe(
-          normalizeMultilineString(`
-            # Changelog
-            All notable changes to this project will be documented in this file.
-
-            The format is based on [Keep a Changelog](https://keepachangelog.com/en/1.0.0/),
-            and this project adheres to [Semantic Versioning](https://semver.org/spec/v2.0.0.html).
-
+          buildChangelog(`
             ## [Unreleased]
 
-            ## [2.0.0]
+            ## [2.0.0-rc.0]
+
             ### Uncategorized
+
             - Add isNewFunction ([#2](https://repo.url/compare/package/pull/2))
 
             ## [1.0.0] - 2020-01-01
+
             ### Changed
+
             - Something else
 
-            [Unreleased]: https://repo.url/compare/package@2.0.0...HEAD
-            [2.0.0]: https://repo.url/compare/package@1.0.0...package@2.0.0
+            [Unreleased]: https://repo.url/compare/package@2.0.0-rc.0...HEAD
+            [2.0.0-rc.0]: https://repo.url/compare/package@1.0.0...package@2.0.0-rc.0
             [1.0.0]: https://repo.url/releases/tag/package@1.0.0
           `),
         );
       });
     });
 
-    it("throws if reading the package's changelog fails in an unexpected way", async () => {
+    it('migrates all unreleased changes to a release section, linking to "v"-prefixed tags for the root package', async () => {
       await withSandbox(async (sandbox) => {
-        const project = buildMockProject();
+        const project = buildMockProject({
+          directoryPath: sandbox.directoryPath,
+          repositoryUrl: 'https://repo.url',
+        });
         const changelogPath = path.join(sandbox.directoryPath, 'CHANGELOG.md');
         const packageReleasePlan = {
           package: buildMockPackage({
@@ -625,41 +926,216 @@ describe('package', () => {
           }),
           newVersion: '2.0.0',
         };
-        jest.spyOn(fsModule, 'readFile').mockRejectedValue(new Error('oops'));
 
-        await expect(
-          updatePackage({ project, packageReleasePlan, formatter: 'prettier' }),
-        ).rejects.toThrow('oops');
-      });
-    });
+        await fs.promises.writeFile(
+          changelogPath,
+          buildChangelog(`
+            ## [Unreleased]
+            ### Uncategorized
+            - Add isNewFunction ([#2](https://repo.url/pull/2))
 
-    it('does not throw but merely prints a warning if the package does not have a changelog', async () => {
-      await withSandbox(async (sandbox) => {
-        const project = buildMockProject();
-        const changelogPath = path.join(sandbox.directoryPath, 'CHANGELOG.md');
-        const packageReleasePlan = {
-          package: buildMockPackage({
-            directoryPath: sandbox.directoryPath,
-            manifestPath: path.join(sandbox.directoryPath, 'package.json'),
-            validatedManifest: buildMockManifest(),
-            changelogPath,
-          }),
-          newVersion: '2.0.0',
-        };
+            ## [1.0.0] - 2020-01-01
+            ### Changed
+            - Something else
 
-        const result = await updatePackage({
+            [Unreleased]: https://repo.url/compare/v1.0.0...HEAD
+            [1.0.0]: https://repo.url/releases/tag/v1.0.0
+          `),
+        );
+
+        await updatePackage({
           project,
           packageReleasePlan,
           formatter: 'prettier',
         });
 
-        expect(result).toBeUndefined();
-      });
-    });
-  });
-
-  describe('updatePackageChangelog', () => {
-    it('updates the changelog of the package if requested to do so and if the package has one', async () => {
+        const newChangelogContent = await fs.promises.readFile(
+          changelogPath,
+          'utf8',
+        );
+
+        expect(newChangelogContent).toBe(
+          buildChangelog(`
+            ## [Unreleased]
+
+            ## [2.0.0]
+
+            ### Uncategorized
+
+            - Add isNewFunction ([#2](https://repo.url/pull/2))
+
+            ## [1.0.0] - 2020-01-01
+
+            ### Changed
+
+            - Something else
+
+            [Unreleased]: https://repo.url/compare/v2.0.0...HEAD
+            [2.0.0]: https://repo.url/compare/v1.0.0...v2.0.0
+            [1.0.0]: https://repo.url/releases/tag/v1.0.0
+          `),
+        );
+      });
+    });
+
+    it('migrates all unreleased changes to a release section with Oxfmt', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject({
+          repositoryUrl: 'https://repo.url',
+        });
+        const changelogPath = path.join(sandbox.directoryPath, 'CHANGELOG.md');
+        const packageReleasePlan = {
+          package: buildMockPackage({
+            directoryPath: sandbox.directoryPath,
+            manifestPath: path.join(sandbox.directoryPath, 'package.json'),
+            validatedManifest: buildMockManifest(),
+            changelogPath,
+          }),
+          newVersion: '2.0.0',
+        };
+
+        await fs.promises.writeFile(
+          changelogPath,
+          buildChangelog(`
+            ## [Unreleased]
+            ### Uncategorized
+            - Add isNewFunction ([#2](https://repo.url/compare/package/pull/2))
+
+            ## [1.0.0] - 2020-01-01
+            ### Changed
+            - Something else
+
+            [Unreleased]: https://repo.url/compare/package@2.0.0...HEAD
+            [1.0.0]: https://repo.url/releases/tag/package@1.0.0
+          `),
+        );
+
+        await updatePackage({
+          project,
+          packageReleasePlan,
+          formatter: 'oxfmt',
+        });
+
+        const newChangelogContent = await fs.promises.readFile(
+          changelogPath,
+          'utf8',
+        );
+
+        expect(newChangelogContent).toBe(
+          normalizeMultilineString(`
+            # Changelog
+            All notable changes to this project will be documented in this file.
+
+            The format is based on [Keep a Changelog](https://keepachangelog.com/en/1.0.0/),
+            and this project adheres to [Semantic Versioning](https://semver.org/spec/v2.0.0.html).
+
+            ## [Unreleased]
+
+            ## [2.0.0]
+            ### Uncategorized
+            - Add isNewFunction ([#2](https://repo.url/compare/package/pull/2))
+
+            ## [1.0.0] - 2020-01-01
+            ### Changed
+            - Something else
+
+            [Unreleased]: https://repo.url/compare/package@2.0.0...HEAD
+            [2.0.0]: https://repo.url/compare/package@1.0.0...package@2.0.0
+            [1.0.0]: https://repo.url/releases/tag/package@1.0.0
+          `),
+        );
+      });
+    });
+
+    it("throws if reading the package's changelog fails in an unexpected way", async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject();
+        const changelogPath = path.join(sandbox.directoryPath, 'CHANGELOG.md');
+        const packageReleasePlan = {
+          package: buildMockPackage({
+            directoryPath: sandbox.directoryPath,
+            manifestPath: path.join(sandbox.directoryPath, 'package.json'),
+            validatedManifest: buildMockManifest(),
+            changelogPath,
+          }),
+          newVersion: '2.0.0',
+        };
+        jest.spyOn(fsModule, 'readFile').mockRejectedValue(new Error('oops'));
+
+        await expect(
+          updatePackage({ project, packageReleasePlan, formatter: 'prettier' }),
+        ).rejects.toThrow('oops');
+      });
+    });
+
+    it('does not throw but merely prints a warning if the package does not have a changelog', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject();
+        const changelogPath = path.join(sandbox.directoryPath, 'CHANGELOG.md');
+        const packageReleasePlan = {
+          package: buildMockPackage({
+            directoryPath: sandbox.directoryPath,
+            manifestPath: path.join(sandbox.directoryPath, 'package.json'),
+            validatedManifest: buildMockManifest(),
+            changelogPath,
+          }),
+          newVersion: '2.0.0',
+        };
+
+        const result = await updatePackage({
+          project,
+          packageReleasePlan,
+          formatter: 'prettier',
+        });
+
+        expect(result).toBeUndefined();
+      });
+    });
+  });
+
+  describe('updatePackageDependencyRanges', () => {
+    it('writes the given ranges of dependencies and peer dependencies to the package, leaving its version alone', async () => {
+      await withSandbox(async (sandbox) => {
+        const manifestPath = path.join(sandbox.directoryPath, 'package.json');
+        const pkg = buildMockPackage({
+          manifestPath,
+          unvalidatedManifest: {
+            name: 'foo',
+            version: '1.2.3',
+            dependencies: { a: '1.0.0' },
+          },
+          validatedManifest: buildMockManifest({
+            dependencies: { a: '1.0.0' },
+          }),
+        });
+
+        await updatePackageDependencyRanges({
+          package: pkg,
+          dependencyRangeUpdates: [
+            {
+              packageName: 'foo',
+              dependencyName: 'a',
+              dependencyType: 'dependencies',
+              previousRange: '1.0.0',
+              newRange: '2.0.0',
+            },
+          ],
+        });
+
+        const newManifest = JSON.parse(
+          await fs.promises.readFile(manifestPath, 'utf8'),
+        );
+        expect(newManifest).toStrictEqual({
+          name: 'foo',
+          version: '1.2.3',
+          dependencies: { a: '2.0.0' },
+        });
+      });
+    });
+  });
+
+  describe('updatePackageChangelog', () => {
+    it('updates the changelog of the package if requested to do so and if the package has one', async () => {
       await withSandbox(async (sandbox) => {
         const stderr = createNoopWriteStream();
         const project = buildMockProject({
@@ -699,6 +1175,97 @@ describe('package', () => {
       });
     });
 
+    it('looks for tags named according to the templates for workspace packages and for the root package', async () => {
+      await withSandbox(async (sandbox) => {
+        const stderr = createNoopWriteStream();
+        const project = buildMockProject({
+          repositoryUrl: 'https://repo.url',
+          rootPackage: buildMockPackage('root'),
+          configuration: {
+            versioningStrategy: 'independent',
+            pathFilters: {},
+            tagNameTemplates: {
+              root: `\${name}-release-\${version}`,
+              workspace: `\${unscopedName}-v\${version}`,
+            },
+            releaseBranchNameTemplate: 'release/{version}',
+          },
+        });
+        const changelogPath = path.join(sandbox.directoryPath, 'CHANGELOG.md');
+        const pkg = buildMockPackage({
+          directoryPath: sandbox.directoryPath,
+          manifestPath: path.join(sandbox.directoryPath, 'package.json'),
+          validatedManifest: buildMockManifest({ name: '@scope/package' }),
+          changelogPath,
+        });
+        when(jest.spyOn(autoChangelog, 'updateChangelog'))
+          .calledWith({
+            changelogContent: 'existing changelog',
+            isReleaseCandidate: false,
+            projectRootDirectory: sandbox.directoryPath,
+            repoUrl: 'https://repo.url',
+            tagPrefixes: ['package-v', 'root-release-'],
+            formatter: expect.any(Function),
+          })
+          .mockResolvedValue('new changelog');
+        await fs.promises.writeFile(changelogPath, 'existing changelog');
+
+        await updatePackageChangelog({
+          project,
+          package: pkg,
+          formatter: 'prettier',
+          stderr,
+        });
+
+        const newChangelogContent = await fs.promises.readFile(
+          changelogPath,
+          'utf8',
+        );
+        expect(newChangelogContent).toBe('new changelog');
+      });
+    });
+
+    it('only looks for tags with a "v" prefix when updating the changelog of the root package', async () => {
+      await withSandbox(async (sandbox) => {
+        const stderr = createNoopWriteStream();
+        const project = buildMockProject({
+          directoryPath: sandbox.directoryPath,
+          repositoryUrl: 'https://repo.url',
+        });
+        const changelogPath = path.join(sandbox.directoryPath, 'CHANGELOG.md');
+        const pkg = buildMockPackage({
+          directoryPath: sandbox.directoryPath,
+          manifestPath: path.join(sandbox.directoryPath, 'package.json'),
+          validatedManifest: buildMockManifest(),
+          changelogPath,
+        });
+        when(jest.spyOn(autoChangelog, 'updateChangelog'))
+          .calledWith({
+            changelogContent: 'existing changelog',
+            isReleaseCandidate: false,
+            projectRootDirectory: sandbox.directoryPath,
+            repoUrl: 'https://repo.url',
+            tagPrefixes: ['v'],
+            formatter: expect.any(Function),
+          })
+          .mockResolvedValue('new changelog');
+        await fs.promises.writeFile(changelogPath, 'existing changelog');
+
+        await updatePackageChangelog({
+          project,
+          package: pkg,
+          formatter: 'prettier',
+          stderr,
+        });
+
+        const newChangelogContent = await fs.promises.readFile(
+          changelogPath,
+          'utf8',
+        );
+        expect(newChangelogContent).toBe('new changelog');
+      });
+    });
+
     it('does not update the changelog if updateChangelog returns nothing', async () => {
       await withSandbox(async (sandbox) => {
         const stderr = createNoopWriteStream();
@@ -791,6 +1358,287 @@ describe('package', () => {
     });
   });
 
+  describe('readUnreleasedChangelogChanges', () => {
+    it('returns the descriptions of the unreleased changes in the changelog, grouped by category, without modifying the changelog', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject({
+          repositoryUrl: 'https://repo.url',
+        });
+        const changelogPath = path.join(sandbox.directoryPath, 'CHANGELOG.md');
+        const pkg = buildMockPackage({
+          directoryPath: sandbox.directoryPath,
+          validatedManifest: buildMockManifest(),
+          changelogPath,
+        });
+        const changelogContent = buildChangelog(`
+          ## [Unreleased]
+          ### Added
+          - Add isNewFunction
+
+          ### Fixed
+          - Fix isOldFunction
+
+          [Unreleased]: https://repo.url/compare/package@1.0.0...HEAD
+        `);
+        await fs.promises.writeFile(changelogPath, changelogContent);
+
+        const changes = await readUnreleasedChangelogChanges({
+          project,
+          package: pkg,
+          includingNewCommits: false,
+          formatter: 'prettier',
+        });
+
+        expect(changes).toStrictEqual({
+          Added: ['Add isNewFunction'],
+          Fixed: ['Fix isOldFunction'],
+        });
+        expect(autoChangelog.updateChangelog).not.toHaveBeenCalled();
+        expect(await fs.promises.readFile(changelogPath, 'utf8')).toBe(
+          changelogContent,
+        );
+      });
+    });
+
+    it('includes the changes that would be added for new commits, if requested, without modifying the changelog', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject({
+          repositoryUrl: 'https://repo.url',
+        });
+        const changelogPath = path.join(sandbox.directoryPath, 'CHANGELOG.md');
+        const pkg = buildMockPackage({
+          directoryPath: sandbox.directoryPath,
+          validatedManifest: buildMockManifest(),
+          changelogPath,
+        });
+        const changelogContent = buildChangelog(`
+          ## [Unreleased]
+
+          [Unreleased]: https://repo.url/compare/package@1.0.0...HEAD
+        `);
+        when(jest.spyOn(autoChangelog, 'updateChangelog'))
+          .calledWith({
+            changelogContent,
+            isReleaseCandidate: false,
+            projectRootDirectory: sandbox.directoryPath,
+            repoUrl: 'https://repo.url',
+            tagPrefixes: ['package@', 'v'],
+            formatter: expect.any(Function),
+          })
+          .mockResolvedValue(
+            buildChangelog(`
+              ## [Unreleased]
+              ### Uncategorized
+              - Add isNewFunction
+
+              [Unreleased]: https://repo.url/compare/package@1.0.0...HEAD
+            `),
+          );
+        await fs.promises.writeFile(changelogPath, changelogContent);
+
+        const changes = await readUnreleasedChangelogChanges({
+          project,
+          package: pkg,
+          includingNewCommits: true,
+          formatter: 'prettier',
+        });
+
+        expect(changes).toStrictEqual({
+          Uncategorized: ['Add isNewFunction'],
+        });
+        expect(await fs.promises.readFile(changelogPath, 'utf8')).toBe(
+          changelogContent,
+        );
+      });
+    });
+
+    it('uses the existing changelog if there are no new commits to add', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject({
+          repositoryUrl: 'https://repo.url',
+        });
+        const changelogPath = path.join(sandbox.directoryPath, 'CHANGELOG.md');
+        const pkg = buildMockPackage({
+          directoryPath: sandbox.directoryPath,
+          validatedManifest: buildMockManifest(),
+          changelogPath,
+        });
+        jest
+          .spyOn(autoChangelog, 'updateChangelog')
+          .mockResolvedValue(undefined);
+        await fs.promises.writeFile(
+          changelogPath,
+          buildChangelog(`
+            ## [Unreleased]
+            ### Changed
+            - Change something
+
+            [Unreleased]: https://repo.url/compare/package@1.0.0...HEAD
+          `),
+        );
+
+        const changes = await readUnreleasedChangelogChanges({
+          project,
+          package: pkg,
+          includingNewCommits: true,
+          formatter: 'prettier',
+        });
+
+        expect(changes).toStrictEqual({
+          Changed: ['Change something'],
+        });
+      });
+    });
+
+    it('returns null if the package does not have a changelog', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject();
+        const pkg = buildMockPackage({
+          directoryPath: sandbox.directoryPath,
+          changelogPath: path.join(sandbox.directoryPath, 'CHANGELOG.md'),
+        });
+
+        const changes = await readUnreleasedChangelogChanges({
+          project,
+          package: pkg,
+          includingNewCommits: true,
+          formatter: 'prettier',
+        });
+
+        expect(changes).toBeNull();
+      });
+    });
+
+    it('re-throws any error that occurs when reading the changelog, other than it not existing', async () => {
+      const project = buildMockProject();
+      const pkg = buildMockPackage();
+      jest.spyOn(fsModule, 'readFile').mockRejectedValue(new Error('oops'));
+
+      await expect(
+        readUnreleasedChangelogChanges({
+          project,
+          package: pkg,
+          includingNewCommits: false,
+          formatter: 'prettier',
+        }),
+      ).rejects.toThrow('oops');
+    });
+  });
+
+  describe('readReleasedChangelogChanges', () => {
+    it('returns the descriptions of the changes in the section of the changelog for the given version, grouped by category', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject({
+          repositoryUrl: 'https://repo.url',
+        });
+        const changelogPath = path.join(sandbox.directoryPath, 'CHANGELOG.md');
+        const pkg = buildMockPackage({
+          directoryPath: sandbox.directoryPath,
+          validatedManifest: buildMockManifest(),
+          changelogPath,
+        });
+        await fs.promises.writeFile(
+          changelogPath,
+          buildChangelog(`
+            ## [Unreleased]
+
+            ## [2.0.0]
+            ### Added
+            - Add isNewFunction
+
+            ### Fixed
+            - Fix isOldFunction
+
+            ## [1.0.0]
+            ### Added
+            - Initial release
+
+            [Unreleased]: https://repo.url/compare/package@2.0.0...HEAD
+            [2.0.0]: https://repo.url/compare/package@1.0.0...package@2.0.0
+            [1.0.0]: https://repo.url/releases/tag/package@1.0.0
+          `),
+        );
+
+        const changes = await readReleasedChangelogChanges({
+          project,
+          package: pkg,
+          version: '2.0.0',
+          formatter: 'prettier',
+        });
+
+        expect(changes).toStrictEqual({
+          Added: ['Add isNewFunction'],
+          Fixed: ['Fix isOldFunction'],
+        });
+      });
+    });
+
+    it('returns no changes if the changelog does not have a section for the given version', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject({
+          repositoryUrl: 'https://repo.url',
+        });
+        const changelogPath = path.join(sandbox.directoryPath, 'CHANGELOG.md');
+        const pkg = buildMockPackage({
+          directoryPath: sandbox.directoryPath,
+          validatedManifest: buildMockManifest(),
+          changelogPath,
+        });
+        await fs.promises.writeFile(
+          changelogPath,
+          buildChangelog(`
+            ## [Unreleased]
+
+            [Unreleased]: https://repo.url/compare/package@1.0.0...HEAD
+          `),
+        );
+
+        const changes = await readReleasedChangelogChanges({
+          project,
+          package: pkg,
+          version: '2.0.0',
+          formatter: 'prettier',
+        });
+
+        expect(changes).toStrictEqual({});
+      });
+    });
+
+    it('returns null if the package does not have a changelog', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject();
+        const pkg = buildMockPackage({
+          directoryPath: sandbox.directoryPath,
+          changelogPath: path.join(sandbox.directoryPath, 'CHANGELOG.md'),
+        });
+
+        const changes = await readReleasedChangelogChanges({
+          project,
+          package: pkg,
+          version: '2.0.0',
+          formatter: 'prettier',
+        });
+
+        expect(changes).toBeNull();
+      });
+    });
+
+    it('re-throws any error that occurs when reading the changelog, other than it not existing', async () => {
+      const project = buildMockProject();
+      const pkg = buildMockPackage();
+      jest.spyOn(fsModule, 'readFile').mockRejectedValue(new Error('oops'));
+
+      await expect(
+        readReleasedChangelogChanges({
+          project,
+          package: pkg,
+          version: '2.0.0',
+          formatter: 'prettier',
+        }),
+      ).rejects.toThrow('oops');
+    });
+  });
+
   describe('getFormatter', () => {
     it('returns the Oxfmt formatter', async () => {
       const formatter = await getFormatter('oxfmt');
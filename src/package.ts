@@ -5,9 +5,11 @@ import {
   oxfmt,
   parseChangelog,
   prettier,
+  ReleaseChanges,
   updateChangelog,
 } from '@metamask/auto-changelog';
 import { assertExhaustive } from '@metamask/utils';
+import type { DependencyRangeUpdate } from './dependency-ranges.js';
 import { WriteStreamLike, readFile, writeFile, writeJsonFile } from './fs.js';
 import { isErrorWithCode } from './misc-utils.js';
 import {
@@ -17,8 +19,18 @@ import {
 } from './package-manifest.js';
 import { Project } from './project.js';
 import { PackageReleasePlan } from './release-plan.js';
-import { hasChangesInDirectorySinceGitTag } from './repo.js';
+import {
+  filterReleaseRelevantFilePaths,
+  getPathFilterForPackage,
+  PathFilter,
+} from './path-filter.js';
+import { getFilesChangedInDirectorySinceGitTag } from './repo.js';
 import { SemVer } from './semver.js';
+import {
+  fillTagNameTemplate,
+  getTagNamePrefix,
+  TagNameTemplates,
+} from './tag-name-template.js';
 import { Formatter } from './initial-parameters.js';
 
 const MANIFEST_FILE_NAME = 'package.json';
@@ -33,6 +45,13 @@ const CHANGELOG_FILE_NAME = 'CHANGELOG.md';
  * @property manifest - The data extracted from the manifest.
  * @property changelogPath - The path to the changelog file (which may or may
  * not exist).
+ * @property hasChangesSinceLatestRelease - Whether any of the files in the
+ * package that are relevant to its releases have changed since its latest
+ * release (always true if the project has no tags).
+ * @property changedFilePaths - The paths to the relevant files that have
+ * changed since the latest release, relative to the package directory.
+ * @property latestReleaseTagName - The name of the Git tag which marks the
+ * latest release of the package, or null if the project has no tags.
  */
 export type Package = {
   directoryPath: string;
@@ -41,33 +60,89 @@ export type Package = {
   validatedManifest: ValidatedPackageManifest;
   changelogPath: string;
   hasChangesSinceLatestRelease: boolean;
+  changedFilePaths: string[];
+  latestReleaseTagName: string | null;
 };
 
 /**
- * Generates the possible Git tag name for the root package of a monorepo. The
- * only tag name in use at this time is "v" + the package version.
+ * Generates the Git tag name for a release of the root package of a monorepo
+ * (or the only package of a polyrepo).
  *
+ * @param packageName - The name of the package.
  * @param packageVersion - The version of the package.
- * @returns An array of possible release tag names.
+ * @param tagNameTemplates - The templates for the tag names in the project.
+ * @returns The release tag name.
  */
-function generateMonorepoRootPackageReleaseTagName(packageVersion: string) {
-  return `v${packageVersion}`;
+export function generateMonorepoRootPackageReleaseTagName(
+  packageName: string,
+  packageVersion: string,
+  tagNameTemplates: TagNameTemplates,
+) {
+  return fillTagNameTemplate(
+    tagNameTemplates.root,
+    packageName,
+    packageVersion,
+  );
 }
 
 /**
- * Generates a possible Git tag name for the workspace package of a monorepo.
- * Accounts for changes to `action-publish-release`, which going forward will
- * generate tags for workspace packages in `PACKAGE_NAME@MAJOR.MINOR.PATCH`.
+ * Generates the Git tag name for a release of a workspace package of a
+ * monorepo.
  *
  * @param packageName - The name of the package.
  * @param packageVersion - The version of the package.
- * @returns An array of possible release tag names.
+ * @param tagNameTemplates - The templates for the tag names in the project.
+ * @returns The release tag name.
  */
-function generateMonorepoWorkspacePackageReleaseTagName(
+export function generateMonorepoWorkspacePackageReleaseTagName(
   packageName: string,
   packageVersion: string,
+  tagNameTemplates: TagNameTemplates,
 ) {
-  return `${packageName}@${packageVersion}`;
+  return fillTagNameTemplate(
+    tagNameTemplates.workspace,
+    packageName,
+    packageVersion,
+  );
+}
+
+/**
+ * Determines the prefixes of the Git tags that may be used to mark releases of
+ * the given package, in order of preference. The root package of a project is
+ * always tagged according to the template for the root package, whereas a
+ * workspace package may be tagged according to either the template for
+ * workspace packages or (for older releases) the template for the root
+ * package.
+ *
+ * @param project - The project.
+ * @param project.directoryPath - The path to the project directory.
+ * @param project.rootPackage - The root package of the project.
+ * @param project.configuration - The options for this tool.
+ * @param pkg - A particular package in the project.
+ * @returns The tag prefixes.
+ */
+export function getReleaseTagPrefixes(
+  {
+    directoryPath,
+    rootPackage,
+    configuration,
+  }: Pick<Project, 'directoryPath' | 'rootPackage' | 'configuration'>,
+  pkg: Package,
+): [string, ...string[]] {
+  const { tagNameTemplates } = configuration;
+  const rootPackagePrefix = getTagNamePrefix(
+    tagNameTemplates.root,
+    rootPackage.validatedManifest.name,
+  );
+
+  if (pkg.directoryPath === directoryPath) {
+    return [rootPackagePrefix];
+  }
+
+  return [
+    getTagNamePrefix(tagNameTemplates.workspace, pkg.validatedManifest.name),
+    rootPackagePrefix,
+  ];
 }
 
 /**
@@ -77,16 +152,20 @@ function generateMonorepoWorkspacePackageReleaseTagName(
  * @param args.packageDirectoryPath - The path to a package within a project.
  * @param args.projectDirectoryPath - The path to the project directory.
  * @param args.projectTagNames - The tag names across the whole project.
+ * @param args.tagNameTemplates - The templates for the tag names in the
+ * project.
  * @returns Information about the package.
  */
 export async function readMonorepoRootPackage({
   packageDirectoryPath,
   projectDirectoryPath,
   projectTagNames,
+  tagNameTemplates,
 }: {
   packageDirectoryPath: string;
   projectDirectoryPath: string;
   projectTagNames: string[];
+  tagNameTemplates: TagNameTemplates;
 }): Promise<Package> {
   const manifestPath = path.join(packageDirectoryPath, MANIFEST_FILE_NAME);
   const changelogPath = path.join(packageDirectoryPath, CHANGELOG_FILE_NAME);
@@ -94,7 +173,9 @@ export async function readMonorepoRootPackage({
     await readPackageManifest(manifestPath);
   const expectedTagNameForLatestRelease =
     generateMonorepoRootPackageReleaseTagName(
+      validatedManifest.name,
       validatedManifest.version.toString(),
+      tagNameTemplates,
     );
   const matchingTagNameForLatestRelease = projectTagNames.find(
     (tagName) => tagName === expectedTagNameForLatestRelease,
@@ -114,10 +195,10 @@ export async function readMonorepoRootPackage({
     );
   }
 
-  const hasChangesSinceLatestRelease =
+  const changedFilePaths =
     matchingTagNameForLatestRelease === undefined
-      ? true
-      : await hasChangesInDirectorySinceGitTag(
+      ? []
+      : await getFilesChangedInDirectorySinceGitTag(
           projectDirectoryPath,
           packageDirectoryPath,
           expectedTagNameForLatestRelease,
@@ -129,7 +210,11 @@ export async function readMonorepoRootPackage({
     validatedManifest,
     unvalidatedManifest,
     changelogPath,
-    hasChangesSinceLatestRelease,
+    hasChangesSinceLatestRelease:
+      matchingTagNameForLatestRelease === undefined ||
+      changedFilePaths.length > 0,
+    changedFilePaths,
+    latestReleaseTagName: matchingTagNameForLatestRelease ?? null,
   };
 }
 
@@ -144,6 +229,10 @@ export async function readMonorepoRootPackage({
  * monorepo to which this package belongs.
  * @param args.projectDirectoryPath - The path to the project directory.
  * @param args.projectTagNames - The tag names across the whole project.
+ * @param args.pathFilters - The patterns which determine which files are
+ * relevant to the releases of each package in the project, by package name.
+ * @param args.tagNameTemplates - The templates for the tag names in the
+ * project.
  * @param args.stderr - A stream that can be used to write to standard error.
  * @returns Information about the package.
  */
@@ -153,6 +242,8 @@ export async function readMonorepoWorkspacePackage({
   rootPackageVersion,
   projectDirectoryPath,
   projectTagNames,
+  pathFilters,
+  tagNameTemplates,
   stderr,
 }: {
   packageDirectoryPath: string;
@@ -160,6 +251,8 @@ export async function readMonorepoWorkspacePackage({
   rootPackageVersion: SemVer;
   projectDirectoryPath: string;
   projectTagNames: string[];
+  pathFilters: Record<string, PathFilter>;
+  tagNameTemplates: TagNameTemplates;
   stderr: WriteStreamLike;
 }): Promise<Package> {
   const manifestPath = path.join(packageDirectoryPath, MANIFEST_FILE_NAME);
@@ -170,9 +263,14 @@ export async function readMonorepoWorkspacePackage({
     generateMonorepoWorkspacePackageReleaseTagName(
       validatedManifest.name,
       validatedManifest.version.toString(),
+      tagNameTemplates,
     );
   const expectedTagNameForRootPackageLatestRelease =
-    generateMonorepoRootPackageReleaseTagName(rootPackageVersion.toString());
+    generateMonorepoRootPackageReleaseTagName(
+      rootPackageName,
+      rootPackageVersion.toString(),
+      tagNameTemplates,
+    );
   const matchingTagNameForWorkspacePackageLatestRelease = projectTagNames.find(
     (tagName) => tagName === expectedTagNameForWorkspacePackageLatestRelease,
   );
@@ -217,13 +315,16 @@ export async function readMonorepoWorkspacePackage({
     );
   }
 
-  const hasChangesSinceLatestRelease =
+  const changedFilePaths =
     matchingTagNameForLatestRelease === undefined
-      ? true
-      : await hasChangesInDirectorySinceGitTag(
-          projectDirectoryPath,
-          packageDirectoryPath,
-          matchingTagNameForLatestRelease,
+      ? []
+      : filterReleaseRelevantFilePaths(
+          await getFilesChangedInDirectorySinceGitTag(
+            projectDirectoryPath,
+            packageDirectoryPath,
+            matchingTagNameForLatestRelease,
+          ),
+          getPathFilterForPackage(pathFilters, validatedManifest.name),
         );
 
   return {
@@ -232,7 +333,11 @@ export async function readMonorepoWorkspacePackage({
     validatedManifest,
     unvalidatedManifest,
     changelogPath,
-    hasChangesSinceLatestRelease,
+    hasChangesSinceLatestRelease:
+      matchingTagNameForLatestRelease === undefined ||
+      changedFilePaths.length > 0,
+    changedFilePaths,
+    latestReleaseTagName: matchingTagNameForLatestRelease ?? null,
   };
 }
 
@@ -272,13 +377,16 @@ export function getFormatter(
  * @returns The result of writing to the changelog.
  */
 export async function migrateUnreleasedChangelogChangesToRelease({
-  project: { repositoryUrl },
+  project,
   package: pkg,
   version,
   formatter,
   stderr,
 }: {
-  project: Pick<Project, 'directoryPath' | 'repositoryUrl'>;
+  project: Pick<
+    Project,
+    'directoryPath' | 'repositoryUrl' | 'rootPackage' | 'configuration'
+  >;
   package: Package;
   version: string;
   formatter: Formatter;
@@ -301,8 +409,8 @@ export async function migrateUnreleasedChangelogChangesToRelease({
 
   const changelog = parseChangelog({
     changelogContent,
-    repoUrl: repositoryUrl,
-    tagPrefix: `${pkg.validatedManifest.name}@`,
+    repoUrl: project.repositoryUrl,
+    tagPrefix: getReleaseTagPrefixes(project, pkg)[0],
     formatter: getFormatter(formatter),
   });
 
@@ -324,12 +432,15 @@ export async function migrateUnreleasedChangelogChangesToRelease({
  * @returns The result of writing to the changelog.
  */
 export async function updatePackageChangelog({
-  project: { repositoryUrl },
+  project,
   package: pkg,
   formatter,
   stderr,
 }: {
-  project: Pick<Project, 'directoryPath' | 'repositoryUrl'>;
+  project: Pick<
+    Project,
+    'directoryPath' | 'repositoryUrl' | 'rootPackage' | 'configuration'
+  >;
   package: Package;
   formatter: Formatter;
   stderr: Pick<WriteStream, 'write'>;
@@ -356,8 +467,8 @@ export async function updatePackageChangelog({
     // is not determined at this stage of the process.
     isReleaseCandidate: false,
     projectRootDirectory: pkg.directoryPath,
-    repoUrl: repositoryUrl,
-    tagPrefixes: [`${pkg.validatedManifest.name}@`, 'v'],
+    repoUrl: project.repositoryUrl,
+    tagPrefixes: getReleaseTagPrefixes(project, pkg),
     formatter: getFormatter(formatter),
   });
 
@@ -370,9 +481,172 @@ export async function updatePackageChangelog({
   }
 }
 
+/**
+ * Reads the changes listed in the Unreleased section of the changelog of the
+ * given package without modifying the changelog. Optionally includes the
+ * changes that `updatePackageChangelog` would add based on the commits made
+ * since the latest release.
+ *
+ * @param args - The arguments.
+ * @param args.project - The project.
+ * @param args.package - A particular package in the project.
+ * @param args.includingNewCommits - Whether to include changes for commits
+ * which have not yet been added to the changelog.
+ * @param args.formatter - The formatter to use for formatting the changelog.
+ * @returns The descriptions of the unreleased changes, grouped by category, or
+ * null if the package does not have a changelog.
+ */
+export async function readUnreleasedChangelogChanges({
+  project,
+  package: pkg,
+  includingNewCommits,
+  formatter,
+}: {
+  project: Pick<
+    Project,
+    'directoryPath' | 'repositoryUrl' | 'rootPackage' | 'configuration'
+  >;
+  package: Package;
+  includingNewCommits: boolean;
+  formatter: Formatter;
+}): Promise<Record<string, string[]> | null> {
+  let changelogContent;
+
+  try {
+    changelogContent = await readFile(pkg.changelogPath);
+  } catch (error) {
+    if (isErrorWithCode(error) && error.code === 'ENOENT') {
+      return null;
+    }
+
+    throw error;
+  }
+
+  const tagPrefixes = getReleaseTagPrefixes(project, pkg);
+
+  if (includingNewCommits) {
+    const newChangelogContent = await updateChangelog({
+      changelogContent,
+      isReleaseCandidate: false,
+      projectRootDirectory: pkg.directoryPath,
+      repoUrl: project.repositoryUrl,
+      tagPrefixes,
+      formatter: getFormatter(formatter),
+    });
+    changelogContent = newChangelogContent ?? changelogContent;
+  }
+
+  const changelog = parseChangelog({
+    changelogContent,
+    repoUrl: project.repositoryUrl,
+    tagPrefix: tagPrefixes[0],
+    formatter: getFormatter(formatter),
+  });
+
+  return describeChanges(changelog.getUnreleasedChanges());
+}
+
+/**
+ * Reads the changes listed in the section of the changelog of the given
+ * package for the given version, such as the section created when the package
+ * is updated for a release.
+ *
+ * @param args - The arguments.
+ * @param args.project - The project.
+ * @param args.package - A particular package in the project.
+ * @param args.version - The version whose changes to read.
+ * @param args.formatter - The formatter to use for formatting the changelog.
+ * @returns The descriptions of the changes, grouped by category (which is
+ * empty if the changelog has no section for the version), or null if the
+ * package does not have a changelog.
+ */
+export async function readReleasedChangelogChanges({
+  project,
+  package: pkg,
+  version,
+  formatter,
+}: {
+  project: Pick<
+    Project,
+    'directoryPath' | 'repositoryUrl' | 'rootPackage' | 'configuration'
+  >;
+  package: Package;
+  version: string;
+  formatter: Formatter;
+}): Promise<Record<string, string[]> | null> {
+  let changelogContent;
+
+  try {
+    changelogContent = await readFile(pkg.changelogPath);
+  } catch (error) {
+    if (isErrorWithCode(error) && error.code === 'ENOENT') {
+      return null;
+    }
+
+    throw error;
+  }
+
+  const changelog = parseChangelog({
+    changelogContent,
+    repoUrl: project.repositoryUrl,
+    tagPrefix: getReleaseTagPrefixes(project, pkg)[0],
+    formatter: getFormatter(formatter),
+  });
+
+  return describeChanges(changelog.getReleaseChanges(version) ?? {});
+}
+
+/**
+ * Reduces the changes in a section of a changelog to their descriptions.
+ *
+ * @param changes - The changes, grouped by category.
+ * @returns The descriptions of the changes, grouped by category.
+ */
+function describeChanges(changes: ReleaseChanges): Record<string, string[]> {
+  return Object.entries(changes).reduce<Record<string, string[]>>(
+    (obj, [category, categoryChanges]) => {
+      return {
+        ...obj,
+        [category]: categoryChanges.map((change) => change.description),
+      };
+    },
+    {},
+  );
+}
+
+/**
+ * Builds the `dependencies` and `peerDependencies` fields of a manifest with
+ * the given range updates applied. Fields that would not change are left out.
+ *
+ * @param manifest - The validated manifest of the package.
+ * @param dependencyRangeUpdates - The changes to make to the ranges of the
+ * package's dependencies.
+ * @returns The updated fields.
+ */
+function buildUpdatedDependencyFields(
+  manifest: ValidatedPackageManifest,
+  dependencyRangeUpdates: DependencyRangeUpdate[],
+): Partial<
+  Record<'dependencies' | 'peerDependencies', Record<string, string>>
+> {
+  return dependencyRangeUpdates.reduce<
+    Partial<Record<'dependencies' | 'peerDependencies', Record<string, string>>>
+  >(
+    (fields, { dependencyType, dependencyName, newRange }) => ({
+      ...fields,
+      [dependencyType]: {
+        ...(fields[dependencyType] ?? manifest[dependencyType]),
+        [dependencyName]: newRange,
+      },
+    }),
+    {},
+  );
+}
+
 /**
  * Updates the package by replacing the `version` field in the manifest
- * according to the one in the given release plan. Also updates the
+ * according to the one in the given release plan, along with the ranges of any
+ * dependencies or peer dependencies which need to change. Also updates the
  * changelog by migrating changes in the Unreleased section to the section
  * representing the new version.
  *
@@ -380,6 +654,9 @@ export async function updatePackageChangelog({
  * @param args.project - The project.
  * @param args.packageReleasePlan - The release plan for a particular package in the
  * project.
+ * @param args.dependencyRangeUpdates - The changes to make to the ranges of
+ * the package's dependencies on other packages in the release. Defaults to
+ * none.
  * @param args.formatter - The formatter to use for formatting the changelog.
  * @param args.stderr - A stream that can be used to write to standard error.
  * Defaults to /dev/null.
@@ -387,11 +664,16 @@ export async function updatePackageChangelog({
 export async function updatePackage({
   project,
   packageReleasePlan,
+  dependencyRangeUpdates = [],
   formatter,
   stderr = fs.createWriteStream('/dev/null'),
 }: {
-  project: Pick<Project, 'directoryPath' | 'repositoryUrl'>;
+  project: Pick<
+    Project,
+    'directoryPath' | 'repositoryUrl' | 'rootPackage' | 'configuration'
+  >;
   packageReleasePlan: PackageReleasePlan;
+  dependencyRangeUpdates?: DependencyRangeUpdate[];
   formatter: Formatter;
   stderr?: Pick<WriteStream, 'write'>;
 }): Promise<void> {
@@ -400,6 +682,10 @@ export async function updatePackage({
   await writeJsonFile(pkg.manifestPath, {
     ...pkg.unvalidatedManifest,
     version: newVersion,
+    ...buildUpdatedDependencyFields(
+      pkg.validatedManifest,
+      dependencyRangeUpdates,
+    ),
   });
 
   await migrateUnreleasedChangelogChangesToRelease({
@@ -410,3 +696,28 @@ export async function updatePackage({
     version: newVersion,
   });
 }
+
+/**
+ * Updates the ranges of the dependencies or peer dependencies of a package
+ * which is not being released itself, but which depends on packages that are.
+ *
+ * @param args - The arguments.
+ * @param args.package - The package.
+ * @param args.dependencyRangeUpdates - The changes to make to the ranges of
+ * the package's dependencies.
+ */
+export async function updatePackageDependencyRanges({
+  package: pkg,
+  dependencyRangeUpdates,
+}: {
+  package: Package;
+  dependencyRangeUpdates: DependencyRangeUpdate[];
+}): Promise<void> {
+  await writeJsonFile(pkg.manifestPath, {
+    ...pkg.unvalidatedManifest,
+    ...buildUpdatedDependencyFields(
+      pkg.validatedManifest,
+      dependencyRangeUpdates,
+    ),
+  });
+}
@@ -0,0 +1,111 @@
+import {
+  filterReleaseRelevantFilePaths,
+  getPathFilterForPackage,
+} from './path-filter.js';
+
+describe('path-filter', () => {
+  describe('getPathFilterForPackage', () => {
+    it('returns the path filter for the given package', () => {
+      expect(
+        getPathFilterForPackage(
+          {
+            '*': { include: [], ignore: ['*.md'] },
+            a: { include: ['src/**'], ignore: [] },
+          },
+          'a',
+        ),
+      ).toStrictEqual({ include: ['src/**'], ignore: [] });
+    });
+
+    it('returns the default path filter if the given package does not have one of its own', () => {
+      expect(
+        getPathFilterForPackage(
+          {
+            '*': { include: [], ignore: ['*.md'] },
+            a: { include: ['src/**'], ignore: [] },
+          },
+          'b',
+        ),
+      ).toStrictEqual({ include: [], ignore: ['*.md'] });
+    });
+
+    it('returns a path filter which treats every file as relevant if there is no default path filter', () => {
+      expect(getPathFilterForPackage({}, 'a')).toStrictEqual({
+        include: [],
+        ignore: [],
+      });
+    });
+  });
+
+  describe('filterReleaseRelevantFilePaths', () => {
+    const filePaths = [
+      'README.md',
+      'docs/guide.md',
+      'package.json',
+      'tsconfig.json',
+      'src/index.ts',
+      'src/index.test.ts',
+      'src/utils/a.ts',
+      'src/utils/a.test.ts',
+      'src/utils/b.ts',
+    ];
+
+    it('returns every file if the path filter has no patterns', () => {
+      expect(
+        filterReleaseRelevantFilePaths(filePaths, { include: [], ignore: [] }),
+      ).toStrictEqual(filePaths);
+    });
+
+    it('matches a pattern without a slash against the name of a file in any directory', () => {
+      expect(
+        filterReleaseRelevantFilePaths(filePaths, {
+          include: [],
+          ignore: ['*.md', '*.test.ts'],
+        }),
+      ).toStrictEqual([
+        'package.json',
+        'tsconfig.json',
+        'src/index.ts',
+        'src/utils/a.ts',
+        'src/utils/b.ts',
+      ]);
+    });
+
+    it('matches a pattern with a slash against the whole path, where "**" matches any number of directories', () => {
+      expect(
+        filterReleaseRelevantFilePaths(filePaths, {
+          include: ['src/**', '/package.json'],
+          ignore: ['src/**/*.test.ts'],
+        }),
+      ).toStrictEqual([
+        'package.json',
+        'src/index.ts',
+        'src/utils/a.ts',
+        'src/utils/b.ts',
+      ]);
+    });
+
+    it('matches "*" and "?" within a single directory only', () => {
+      expect(
+        filterReleaseRelevantFilePaths(filePaths, {
+          include: ['src/*.ts', 'src/utils/?.ts'],
+          ignore: [],
+        }),
+      ).toStrictEqual([
+        'src/index.ts',
+        'src/index.test.ts',
+        'src/utils/a.ts',
+        'src/utils/b.ts',
+      ]);
+    });
+
+    it('treats characters that are special in regular expressions literally', () => {
+      expect(
+        filterReleaseRelevantFilePaths(['a.b', 'axb', '(c)+'], {
+          include: ['a.b', '(c)+'],
+          ignore: [],
+        }),
+      ).toStrictEqual(['a.b', '(c)+']);
+    });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Patterns which determine which of the files in a package are relevant to its
+ * releases, so that changes to other files (such as tests or documentation) do
+ * not mark the package as changed.
+ *
+ * Each pattern is matched against the path of a file relative to the package
+ * directory. `*` matches any characters other than `/`, `?` matches one such
+ * character, and `**` matches any number of directories. A pattern without a
+ * `/` matches the name of a file in any directory.
+ *
+ * @property include - The patterns that a file must match (any of) in order to
+ * be relevant. If empty, every file is relevant unless it is ignored.
+ * @property ignore - The patterns that make a file irrelevant if it matches any
+ * of them.
+ */
+export type PathFilter = {
+  include: string[];
+  ignore: string[];
+};
+
+/**
+ * The key under which a path filter that applies to every package without a
+ * path filter of its own is specified.
+ */
+export const DEFAULT_PATH_FILTER_KEY = '*';
+
+/**
+ * The path filter which treats every file as relevant.
+ */
+export const EMPTY_PATH_FILTER: PathFilter = { include: [], ignore: [] };
+
+/**
+ * Escapes the characters in the given string that have a special meaning
+ * within a regular expression.
+ *
+ * @param string - The string.
+ * @returns The escaped string.
+ */
+function escapeRegExp(string: string): string {
+  return string.replace(/[.+^${}()|[\]\\]/gu, '\\$&');
+}
+
+/**
+ * Converts a glob pattern (see `PathFilter`) to a regular expression.
+ *
+ * @param pattern - The glob pattern.
+ * @returns The regular expression.
+ */
+function convertGlobToRegExp(pattern: string): RegExp {
+  const anchoredPattern = pattern.includes('/')
+    ? pattern.replace(/^\//u, '')
+    : `**/${pattern}`;
+  const source = anchoredPattern
+    .split(/(\*\*\/|\*\*|\*|\?)/u)
+    .map((part) => {
+      switch (part) {
+        case '**/':
+          return '(?:.*/)?';
+        case '**':
+          return '.*';
+        case '*':
+          return '[^/]*';
+        case '?':
+          return '[^/]';
+        default:
+          return escapeRegExp(part);
+      }
+    })
+    .join('');
+
+  return new RegExp(`^${source}$`, 'u');
+}
+
+/**
+ * Determines whether the given file matches any of the given glob patterns.
+ *
+ * @param filePath - The path to the file, relative to the package directory.
+ * @param patterns - The glob patterns.
+ * @returns Whether the file matches.
+ */
+function matchesAnyPattern(filePath: string, patterns: string[]): boolean {
+  return patterns.some((pattern) =>
+    convertGlobToRegExp(pattern).test(filePath),
+  );
+}
+
+/**
+ * Picks the path filter that applies to the given package.
+ *
+ * @param pathFilters - The path filters for the project, by package name,
+ * including the default filter (if any) under `DEFAULT_PATH_FILTER_KEY`.
+ * @param packageName - The name of the package.
+ * @returns The filter for the package, or the default filter if it does not
+ * have one of its own.
+ */
+export function getPathFilterForPackage(
+  pathFilters: Record<string, PathFilter>,
+  packageName: string,
+): PathFilter {
+  return (
+    pathFilters[packageName] ??
+    pathFilters[DEFAULT_PATH_FILTER_KEY] ??
+    EMPTY_PATH_FILTER
+  );
+}
+
+/**
+ * Removes the files that are not relevant to the releases of a package from
+ * the given list.
+ *
+ * @param filePaths - The paths to the files, relative to the package directory.
+ * @param pathFilter - The path filter for the package.
+ * @param pathFilter.include - The patterns that a relevant file must match.
+ * @param pathFilter.ignore - The patterns that make a file irrelevant.
+ * @returns The paths to the relevant files.
+ */
+export function filterReleaseRelevantFilePaths(
+  filePaths: string[],
+  { include, ignore }: PathFilter,
+): string[] {
+  return filePaths.filter(
+    (filePath) =>
+      (include.length === 0 || matchesAnyPattern(filePath, include)) &&
+      !matchesAnyPattern(filePath, ignore),
+  );
+}
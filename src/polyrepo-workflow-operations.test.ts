@@ -0,0 +1,665 @@
+import { MockWritable } from 'stdio-mock';
+import { SemVer } from 'semver';
+import { buildMockPackage, buildMockProject } from '../tests/unit/helpers.js';
+import { followPolyrepoWorkflow } from './polyrepo-workflow-operations.js';
+import { IncrementableVersionParts } from './release-specification.js';
+import * as packageModule from './package.js';
+import * as projectModule from './project.js';
+import * as releaseNotesModule from './release-notes.js';
+import * as releasePlanPreviewModule from './release-plan-preview.js';
+import * as releasePullRequestModule from './release-pull-request.js';
+import * as repoModule from './repo.js';
+import * as workflowOperations from './workflow-operations.js';
+
+jest.mock('./package');
+jest.mock('./release-plan-preview');
+jest.mock('./release-pull-request');
+jest.mock('./repo');
+jest.mock('./workflow-operations', () => ({
+  ...jest.requireActual('./workflow-operations'),
+  createReleaseBranchForVersion: jest.fn(),
+}));
+
+/**
+ * Mocks the dependencies for `followPolyrepoWorkflow`.
+ *
+ * @param args - The arguments.
+ * @param args.isFirstRun - Whether `createReleaseBranchForVersion` should
+ * report that the release branch was newly created.
+ * @param args.currentBranchName - The name of the branch that is checked out
+ * before the release branch is created.
+ * @param args.headCommitSubject - The subject of the commit that is checked out.
+ * @returns The corresponding mock functions for each of the dependencies.
+ */
+function setupFollowPolyrepoWorkflow({
+  isFirstRun = true,
+  currentBranchName = 'main',
+  headCommitSubject = 'Some commit',
+}: {
+  isFirstRun?: boolean;
+  currentBranchName?: string;
+  headCommitSubject?: string;
+} = {}) {
+  const project = buildMockProject({
+    directoryPath: '/path/to/project',
+    rootPackage: buildMockPackage('root', '1.2.3', {
+      directoryPath: '/path/to/project',
+    }),
+  });
+  const stdout = new MockWritable();
+  const stderr = new MockWritable();
+  const createReleaseBranchForVersionSpy = jest
+    .spyOn(workflowOperations, 'createReleaseBranchForVersion')
+    .mockImplementation(async ({ version }) => ({
+      version,
+      branchName: `release/${version}`,
+      firstRun: isFirstRun,
+    }));
+  const updatePackageChangelogSpy = jest.spyOn(
+    packageModule,
+    'updatePackageChangelog',
+  );
+  const updatePackageSpy = jest.spyOn(packageModule, 'updatePackage');
+  const commitAllChangesSpy = jest.spyOn(repoModule, 'commitAllChanges');
+  jest
+    .spyOn(repoModule, 'getCurrentBranchName')
+    .mockResolvedValue(currentBranchName);
+  jest
+    .spyOn(repoModule, 'getHeadCommitSubject')
+    .mockResolvedValue(headCommitSubject);
+
+  return {
+    project,
+    stdout,
+    stderr,
+    createReleaseBranchForVersionSpy,
+    updatePackageChangelogSpy,
+    updatePackageSpy,
+    commitAllChangesSpy,
+  };
+}
+
+describe('polyrepo-workflow-operations', () => {
+  describe('followPolyrepoWorkflow', () => {
+    it('creates a release branch named after the bumped version', async () => {
+      const { project, stdout, stderr, createReleaseBranchForVersionSpy } =
+        setupFollowPolyrepoWorkflow();
+
+      await followPolyrepoWorkflow({
+        project,
+        versionSpecifier: IncrementableVersionParts.minor,
+        formatter: 'prettier',
+        stdout,
+        stderr,
+      });
+
+      expect(createReleaseBranchForVersionSpy).toHaveBeenCalledWith({
+        project,
+        version: '1.3.0',
+        baseRef: null,
+      });
+    });
+
+    it('creates a release branch named after the exact version, if given', async () => {
+      const { project, stdout, stderr, createReleaseBranchForVersionSpy } =
+        setupFollowPolyrepoWorkflow();
+
+      await followPolyrepoWorkflow({
+        project,
+        versionSpecifier: new SemVer('3.0.0'),
+        formatter: 'prettier',
+        stdout,
+        stderr,
+      });
+
+      expect(createReleaseBranchForVersionSpy).toHaveBeenCalledWith({
+        project,
+        version: '3.0.0',
+        baseRef: null,
+      });
+    });
+
+    it('creates a release branch named after the prerelease version, using the given prerelease identifier', async () => {
+      const { project, stdout, stderr, createReleaseBranchForVersionSpy } =
+        setupFollowPolyrepoWorkflow();
+
+      await followPolyrepoWorkflow({
+        project,
+        versionSpecifier: IncrementableVersionParts.preminor,
+        prereleaseIdentifier: 'beta',
+        formatter: 'prettier',
+        stdout,
+        stderr,
+      });
+
+      expect(createReleaseBranchForVersionSpy).toHaveBeenCalledWith({
+        project,
+        version: '1.3.0-beta.0',
+        baseRef: null,
+      });
+    });
+
+    it('updates the changelog, then the version and changelog release section, of the root package', async () => {
+      const {
+        project,
+        stdout,
+        stderr,
+        updatePackageChangelogSpy,
+        updatePackageSpy,
+      } = setupFollowPolyrepoWorkflow();
+
+      await followPolyrepoWorkflow({
+        project,
+        versionSpecifier: IncrementableVersionParts.major,
+        formatter: 'oxfmt',
+        stdout,
+        stderr,
+      });
+
+      expect(updatePackageChangelogSpy).toHaveBeenCalledWith({
+        project,
+        package: project.rootPackage,
+        formatter: 'oxfmt',
+        stderr,
+      });
+      expect(updatePackageSpy).toHaveBeenCalledWith({
+        project,
+        packageReleasePlan: {
+          package: project.rootPackage,
+          newVersion: '2.0.0',
+        },
+        formatter: 'oxfmt',
+        stderr,
+      });
+      expect(
+        updatePackageChangelogSpy.mock.invocationCallOrder[0],
+      ).toBeLessThan(updatePackageSpy.mock.invocationCallOrder[0]);
+    });
+
+    it('creates the release branch from the given ref, then updates the root package as it is on the release branch', async () => {
+      const {
+        project,
+        stdout,
+        stderr,
+        createReleaseBranchForVersionSpy,
+        updatePackageChangelogSpy,
+        updatePackageSpy,
+        commitAllChangesSpy,
+      } = setupFollowPolyrepoWorkflow();
+      const rereadProjectInstance = buildMockProject({
+        directoryPath: '/path/to/project',
+        rootPackage: buildMockPackage('root', '1.2.3', {
+          directoryPath: '/path/to/project',
+        }),
+      });
+      const rereadProjectSpy = jest
+        .spyOn(projectModule, 'rereadProject')
+        .mockResolvedValue(rereadProjectInstance);
+
+      await followPolyrepoWorkflow({
+        project,
+        versionSpecifier: IncrementableVersionParts.major,
+        baseRef: 'origin/main',
+        formatter: 'prettier',
+        stdout,
+        stderr,
+      });
+
+      expect(createReleaseBranchForVersionSpy).toHaveBeenCalledWith({
+        project,
+        version: '2.0.0',
+        baseRef: 'origin/main',
+      });
+      expect(rereadProjectSpy).toHaveBeenCalledWith(project, { stderr });
+      expect(updatePackageChangelogSpy).toHaveBeenCalledWith({
+        project: rereadProjectInstance,
+        package: rereadProjectInstance.rootPackage,
+        formatter: 'prettier',
+        stderr,
+      });
+      expect(updatePackageSpy).toHaveBeenCalledWith({
+        project: rereadProjectInstance,
+        packageReleasePlan: {
+          package: rereadProjectInstance.rootPackage,
+          newVersion: '2.0.0',
+        },
+        formatter: 'prettier',
+        stderr,
+      });
+      expect(commitAllChangesSpy).toHaveBeenCalledWith(
+        '/path/to/project',
+        'Update Release 2.0.0',
+      );
+    });
+
+    it('does not read the project again if the release branch is created from the current commit', async () => {
+      const { project, stdout, stderr } = setupFollowPolyrepoWorkflow();
+      const rereadProjectSpy = jest.spyOn(projectModule, 'rereadProject');
+
+      await followPolyrepoWorkflow({
+        project,
+        versionSpecifier: IncrementableVersionParts.major,
+        formatter: 'prettier',
+        stdout,
+        stderr,
+      });
+
+      expect(rereadProjectSpy).not.toHaveBeenCalled();
+    });
+
+    it('commits the changes, naming the commit after the new version', async () => {
+      const { project, stdout, stderr, commitAllChangesSpy } =
+        setupFollowPolyrepoWorkflow();
+
+      await followPolyrepoWorkflow({
+        project,
+        versionSpecifier: IncrementableVersionParts.patch,
+        formatter: 'prettier',
+        stdout,
+        stderr,
+      });
+
+      expect(commitAllChangesSpy).toHaveBeenCalledTimes(1);
+      expect(commitAllChangesSpy).toHaveBeenCalledWith(
+        '/path/to/project',
+        'Update Release 1.2.4',
+      );
+    });
+
+    it('does not push the release branch or open a pull request by default', async () => {
+      const { project, stdout, stderr } = setupFollowPolyrepoWorkflow();
+      const pushReleaseBranchSpy = jest.spyOn(
+        releasePullRequestModule,
+        'pushReleaseBranch',
+      );
+      const openReleasePullRequestSpy = jest.spyOn(
+        releasePullRequestModule,
+        'openReleasePullRequest',
+      );
+
+      await followPolyrepoWorkflow({
+        project,
+        versionSpecifier: IncrementableVersionParts.patch,
+        formatter: 'prettier',
+        stdout,
+        stderr,
+      });
+
+      expect(pushReleaseBranchSpy).not.toHaveBeenCalled();
+      expect(openReleasePullRequestSpy).not.toHaveBeenCalled();
+    });
+
+    it('pushes the release branch and opens a pull request built from the release notes, once the changes have been committed', async () => {
+      const { project, stdout, stderr, commitAllChangesSpy } =
+        setupFollowPolyrepoWorkflow();
+      const releaseNotes = {
+        releaseVersion: '1.2.4',
+        packages: [],
+      };
+      const buildReleaseNotesSpy = jest
+        .spyOn(releaseNotesModule, 'buildReleaseNotes')
+        .mockResolvedValue(releaseNotes);
+      const pushReleaseBranchSpy = jest
+        .spyOn(releasePullRequestModule, 'pushReleaseBranch')
+        .mockResolvedValue('release/1.2.4');
+      const openReleasePullRequestSpy = jest
+        .spyOn(releasePullRequestModule, 'openReleasePullRequest')
+        .mockResolvedValue();
+      const forgeClient = { openPullRequest: jest.fn() };
+
+      await followPolyrepoWorkflow({
+        project,
+        versionSpecifier: IncrementableVersionParts.patch,
+        defaultBranch: 'develop',
+        push: true,
+        remote: 'upstream',
+        forgeClient,
+        pullRequestLabels: ['release', 'team-a'],
+        formatter: 'prettier',
+        stdout,
+        stderr,
+      });
+
+      expect(buildReleaseNotesSpy).toHaveBeenCalledWith({
+        project,
+        releasePlan: expect.objectContaining({ newVersion: '1.2.4' }),
+        formatter: 'prettier',
+      });
+      expect(pushReleaseBranchSpy).toHaveBeenCalledWith({
+        project,
+        remote: 'upstream',
+        stdout,
+        reportEvent: expect.any(Function),
+      });
+      expect(openReleasePullRequestSpy).toHaveBeenCalledWith({
+        project,
+        forgeClient,
+        defaultBranch: 'develop',
+        releaseNotes,
+        labels: ['release', 'team-a'],
+        stdout,
+        reportEvent: expect.any(Function),
+      });
+      expect(commitAllChangesSpy.mock.invocationCallOrder[0]).toBeLessThan(
+        pushReleaseBranchSpy.mock.invocationCallOrder[0],
+      );
+      expect(pushReleaseBranchSpy.mock.invocationCallOrder[0]).toBeLessThan(
+        openReleasePullRequestSpy.mock.invocationCallOrder[0],
+      );
+    });
+
+    it('does not update or commit anything if the release branch already exists', async () => {
+      const {
+        project,
+        stdout,
+        stderr,
+        updatePackageChangelogSpy,
+        updatePackageSpy,
+        commitAllChangesSpy,
+      } = setupFollowPolyrepoWorkflow({
+        isFirstRun: false,
+        headCommitSubject: 'Update Release 1.2.4',
+      });
+
+      await followPolyrepoWorkflow({
+        project,
+        versionSpecifier: IncrementableVersionParts.patch,
+        formatter: 'prettier',
+        stdout,
+        stderr,
+      });
+
+      expect(updatePackageChangelogSpy).not.toHaveBeenCalled();
+      expect(updatePackageSpy).not.toHaveBeenCalled();
+      expect(commitAllChangesSpy).not.toHaveBeenCalled();
+      expect(stdout.data()).toStrictEqual([
+        'The release branch for 1.2.4 already exists, so there is nothing left to do.\n',
+      ]);
+    });
+
+    it('only pushes the release branch and opens a pull request if the release branch already exists and the changes have been committed to it', async () => {
+      const {
+        project,
+        stdout,
+        stderr,
+        updatePackageChangelogSpy,
+        updatePackageSpy,
+        commitAllChangesSpy,
+      } = setupFollowPolyrepoWorkflow({
+        isFirstRun: false,
+        headCommitSubject: 'Update Release 1.2.4',
+      });
+      const releaseNotes = { releaseVersion: '1.2.4', packages: [] };
+      jest
+        .spyOn(releaseNotesModule, 'buildReleaseNotes')
+        .mockResolvedValue(releaseNotes);
+      const pushReleaseBranchSpy = jest
+        .spyOn(releasePullRequestModule, 'pushReleaseBranch')
+        .mockResolvedValue('release/1.2.4');
+      const openReleasePullRequestSpy = jest
+        .spyOn(releasePullRequestModule, 'openReleasePullRequest')
+        .mockResolvedValue();
+
+      await followPolyrepoWorkflow({
+        project,
+        versionSpecifier: IncrementableVersionParts.patch,
+        push: true,
+        forgeClient: { openPullRequest: jest.fn() },
+        formatter: 'prettier',
+        stdout,
+        stderr,
+      });
+
+      expect(updatePackageChangelogSpy).not.toHaveBeenCalled();
+      expect(updatePackageSpy).not.toHaveBeenCalled();
+      expect(commitAllChangesSpy).not.toHaveBeenCalled();
+      expect(pushReleaseBranchSpy).toHaveBeenCalledTimes(1);
+      expect(openReleasePullRequestSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ releaseNotes }),
+      );
+      expect(stdout.data()).toStrictEqual([
+        'The changes for 1.2.4 have already been committed to release/1.2.4, so the tool will pick back up from there.\n',
+      ]);
+    });
+
+    it('throws if the release branch already exists but the changes have not been committed to it', async () => {
+      const { project, stdout, stderr, commitAllChangesSpy } =
+        setupFollowPolyrepoWorkflow({ isFirstRun: false });
+
+      await expect(
+        followPolyrepoWorkflow({
+          project,
+          versionSpecifier: IncrementableVersionParts.patch,
+          push: true,
+          formatter: 'prettier',
+          stdout,
+          stderr,
+        }),
+      ).rejects.toThrow(
+        'The release branch release/1.2.4 already exists, but the changes for 1.2.4 have not been committed to it, so a previous run may have failed partway through. Please switch to another branch, delete release/1.2.4, and re-run this tool to start over.',
+      );
+      expect(commitAllChangesSpy).not.toHaveBeenCalled();
+    });
+
+    it('throws if the release branch for the current version is checked out and the changes have been committed to it', async () => {
+      const { project, stdout, stderr, createReleaseBranchForVersionSpy } =
+        setupFollowPolyrepoWorkflow({
+          currentBranchName: 'release/1.2.3',
+          headCommitSubject: 'Update Release 1.2.3',
+        });
+
+      await expect(
+        followPolyrepoWorkflow({
+          project,
+          versionSpecifier: IncrementableVersionParts.patch,
+          push: true,
+          formatter: 'prettier',
+          stdout,
+          stderr,
+        }),
+      ).rejects.toThrow(
+        'The release of 1.2.3 has already been committed to release/1.2.3, which is checked out. To push it or open a pull request for it, switch back to the branch from which it was created and re-run this tool with the same options.',
+      );
+      expect(createReleaseBranchForVersionSpy).not.toHaveBeenCalled();
+    });
+
+    it('throws if a release branch for the current version created on an earlier day is checked out and the changes have been committed to it', async () => {
+      const { project, stdout, stderr, createReleaseBranchForVersionSpy } =
+        setupFollowPolyrepoWorkflow({
+          currentBranchName: 'release/2024-03-04-1.2.3',
+          headCommitSubject: 'Update Release 1.2.3',
+        });
+      project.configuration.releaseBranchNameTemplate =
+        'release/{date}-{version}';
+
+      await expect(
+        followPolyrepoWorkflow({
+          project,
+          versionSpecifier: IncrementableVersionParts.patch,
+          push: true,
+          formatter: 'prettier',
+          stdout,
+          stderr,
+        }),
+      ).rejects.toThrow(
+        'The release of 1.2.3 has already been committed to release/2024-03-04-1.2.3, which is checked out.',
+      );
+      expect(createReleaseBranchForVersionSpy).not.toHaveBeenCalled();
+    });
+
+    it('throws if no version specifier is given', async () => {
+      const { project, stdout, stderr, createReleaseBranchForVersionSpy } =
+        setupFollowPolyrepoWorkflow();
+
+      await expect(
+        followPolyrepoWorkflow({
+          project,
+          versionSpecifier: null,
+          formatter: 'prettier',
+          stdout,
+          stderr,
+        }),
+      ).rejects.toThrow(
+        'To release a package within a polyrepo, you must specify the new version, either with `--bump` ("major", "minor", "patch", "premajor", "preminor", "prepatch", or "prerelease") or with `--version` (a version string with major, minor, and patch parts, such as "1.2.3").',
+      );
+      expect(createReleaseBranchForVersionSpy).not.toHaveBeenCalled();
+    });
+
+    it('throws if the exact version given is not greater than the current version', async () => {
+      const { project, stdout, stderr, createReleaseBranchForVersionSpy } =
+        setupFollowPolyrepoWorkflow();
+
+      await expect(
+        followPolyrepoWorkflow({
+          project,
+          versionSpecifier: new SemVer('1.2.3'),
+          formatter: 'prettier',
+          stdout,
+          stderr,
+        }),
+      ).rejects.toThrow(
+        'Could not release root at version 1.2.3, as it is not greater than the current version 1.2.3.',
+      );
+      expect(createReleaseBranchForVersionSpy).not.toHaveBeenCalled();
+    });
+
+    it('prints the release plan instead of creating a branch, updating the package, or committing if dryRun is true', async () => {
+      const {
+        project,
+        stdout,
+        stderr,
+        createReleaseBranchForVersionSpy,
+        updatePackageChangelogSpy,
+        updatePackageSpy,
+        commitAllChangesSpy,
+      } = setupFollowPolyrepoWorkflow();
+      const preview = {
+        branchName: 'release/1.3.0',
+        commitMessages: ['Update Release 1.3.0'],
+        packages: [],
+      };
+      const previewReleasePlanSpy = jest
+        .spyOn(releasePlanPreviewModule, 'previewReleasePlan')
+        .mockResolvedValue(preview);
+      jest
+        .spyOn(releasePlanPreviewModule, 'formatReleasePlanPreview')
+        .mockReturnValue('the preview');
+
+      await followPolyrepoWorkflow({
+        project,
+        versionSpecifier: IncrementableVersionParts.minor,
+        dryRun: true,
+        formatter: 'prettier',
+        stdout,
+        stderr,
+      });
+
+      expect(previewReleasePlanSpy).toHaveBeenCalledWith({
+        project,
+        releasePlan: {
+          newVersion: '1.3.0',
+          packages: [{ package: project.rootPackage, newVersion: '1.3.0' }],
+        },
+        branchName: 'release/1.3.0',
+        commitMessages: ['Update Release 1.3.0'],
+        formatter: 'prettier',
+      });
+      expect(stdout.data()).toStrictEqual(['the preview\n']);
+      expect(createReleaseBranchForVersionSpy).not.toHaveBeenCalled();
+      expect(updatePackageChangelogSpy).not.toHaveBeenCalled();
+      expect(updatePackageSpy).not.toHaveBeenCalled();
+      expect(commitAllChangesSpy).not.toHaveBeenCalled();
+    });
+
+    it('reports the creation of the release branch, the release plan, and the commit', async () => {
+      const { project, stdout, stderr } = setupFollowPolyrepoWorkflow();
+      const reportEvent = jest.fn();
+
+      await followPolyrepoWorkflow({
+        project,
+        versionSpecifier: IncrementableVersionParts.minor,
+        formatter: 'prettier',
+        stdout,
+        stderr,
+        reportEvent,
+      });
+
+      expect(reportEvent.mock.calls).toStrictEqual([
+        [
+          {
+            type: 'releaseBranchCreated',
+            branchName: 'release/1.3.0',
+            version: '1.3.0',
+          },
+        ],
+        [
+          {
+            type: 'releasePlanned',
+            newVersion: '1.3.0',
+            packages: [
+              { name: 'root', currentVersion: '1.2.3', newVersion: '1.3.0' },
+            ],
+          },
+        ],
+        [{ type: 'commitCreated', message: 'Update Release 1.3.0' }],
+      ]);
+    });
+
+    it('only reports that the release branch was resumed if it already exists', async () => {
+      const { project, stdout, stderr } = setupFollowPolyrepoWorkflow({
+        isFirstRun: false,
+        headCommitSubject: 'Update Release 1.3.0',
+      });
+      const reportEvent = jest.fn();
+
+      await followPolyrepoWorkflow({
+        project,
+        versionSpecifier: IncrementableVersionParts.minor,
+        formatter: 'prettier',
+        stdout,
+        stderr,
+        reportEvent,
+      });
+
+      expect(reportEvent.mock.calls).toStrictEqual([
+        [
+          {
+            type: 'releaseBranchResumed',
+            branchName: 'release/1.3.0',
+            version: '1.3.0',
+          },
+        ],
+      ]);
+    });
+
+    it('reports the release plan in a dry run', async () => {
+      const { project, stdout, stderr } = setupFollowPolyrepoWorkflow();
+      jest
+        .spyOn(releasePlanPreviewModule, 'formatReleasePlanPreview')
+        .mockReturnValue('the preview');
+      const reportEvent = jest.fn();
+
+      await followPolyrepoWorkflow({
+        project,
+        versionSpecifier: IncrementableVersionParts.minor,
+        dryRun: true,
+        formatter: 'prettier',
+        stdout,
+        stderr,
+        reportEvent,
+      });
+
+      expect(reportEvent.mock.calls).toStrictEqual([
+        [
+          {
+            type: 'releasePlanned',
+            newVersion: '1.3.0',
+            packages: [
+              { name: 'root', currentVersion: '1.2.3', newVersion: '1.3.0' },
+            ],
+          },
+        ],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,256 @@
+import type { WriteStream } from 'fs';
+import { ForgeClient } from './forge-client.js';
+import { Formatter } from './initial-parameters.js';
+import { updatePackage, updatePackageChangelog } from './package.js';
+import { Project, rereadProject } from './project.js';
+import { buildReleaseNotes } from './release-notes.js';
+import { matchesReleaseBranchNameTemplate } from './release-branch-name-template.js';
+import { ReleasePlan } from './release-plan.js';
+import {
+  DEFAULT_PULL_REQUEST_LABELS,
+  openReleasePullRequest,
+  pushReleaseBranch,
+} from './release-pull-request.js';
+import { incrementVersion, VersionSpecifier } from './release-specification.js';
+import {
+  formatReleasePlanPreview,
+  previewReleasePlan,
+} from './release-plan-preview.js';
+import {
+  commitAllChanges,
+  getCurrentBranchName,
+  getHeadCommitSubject,
+} from './repo.js';
+import { SemVer } from './semver.js';
+import {
+  buildReleaseBranchEvent,
+  buildReleasePlannedEvent,
+  ReportWorkflowEvent,
+} from './workflow-events.js';
+import {
+  createReleaseBranchForVersion,
+  getReleaseBranchName,
+} from './workflow-operations.js';
+
+/**
+ * For a polyrepo, the process works like this:
+ *
+ * - The tool determines the new version of the package, either by bumping the
+ * major, minor, or patch part of the current version (optionally to a
+ * prerelease) or by using the exact version given by the user.
+ * - The tool then creates a branch named after the new version (from the given
+ * ref, if any) and switches to it.
+ * - On that branch, the tool adds the commits which have been made since the
+ * Git tag for the current version to the Unreleased section of the changelog,
+ * updates the version in the manifest, and moves the unreleased changes into a
+ * new section for the new version.
+ * - Finally, the tool creates a Git commit that includes the changes.
+ *
+ * The release branch can then be pushed, and a pull request for the release
+ * can be opened, through a client for the forge which hosts the repository.
+ *
+ * If the release branch already exists (even if its name refers to an earlier
+ * date than today's), the tool only continues if the changes have already been
+ * committed to it, in which case it goes on to push the
+ * branch and open the pull request, if asked to. This allows the tool to be
+ * re-run from the branch on which it was first run if either of those steps
+ * fails.
+ *
+ * In a dry run, the tool stops after determining the new version and instead
+ * prints what it would have done.
+ *
+ * @param args - The arguments to this function.
+ * @param args.project - Information about the project.
+ * @param args.versionSpecifier - How to determine the new version of the
+ * package, either by bumping a part of the current version or by setting the
+ * version exactly.
+ * @param args.prereleaseIdentifier - The identifier that names a prerelease
+ * version (e.g. "rc"), used if the version is bumped to a prerelease.
+ * @param args.baseRef - The ref from which to create the release branch, or
+ * null to create it from the current commit.
+ * @param args.dryRun - Whether to print the release plan instead of carrying
+ * it out.
+ * @param args.defaultBranch - The name of the default branch in the
+ * repository, into which the pull request for the release is to be merged.
+ * @param args.push - Whether to push the release branch once the changes have
+ * been committed.
+ * @param args.remote - The name of the remote to which to push the release
+ * branch, or null to push it to "origin".
+ * @param args.forgeClient - The client through which to open a pull request
+ * for the release once the release branch has been pushed, or null to not open
+ * one.
+ * @param args.pullRequestLabels - The labels to attach to the pull request.
+ * @param args.formatter - The formatter to use for formatting the changelog.
+ * @param args.stdout - A stream that can be used to write to standard out.
+ * @param args.stderr - A stream that can be used to write to standard error.
+ * @param args.reportEvent - A function which is called whenever something
+ * notable happens, such as the release branch being created or a commit being
+ * made.
+ * @throws If no version specifier was given or if it would not result in a
+ * greater version than the current one.
+ */
+export async function followPolyrepoWorkflow({
+  project: initialProject,
+  versionSpecifier,
+  prereleaseIdentifier = null,
+  baseRef = null,
+  dryRun = false,
+  defaultBranch = 'main',
+  push = false,
+  remote = null,
+  forgeClient = null,
+  pullRequestLabels = DEFAULT_PULL_REQUEST_LABELS,
+  formatter,
+  stdout,
+  stderr,
+  reportEvent = () => undefined,
+}: {
+  project: Project;
+  versionSpecifier: VersionSpecifier | null;
+  prereleaseIdentifier?: string | null;
+  baseRef?: string | null;
+  dryRun?: boolean;
+  defaultBranch?: string;
+  push?: boolean;
+  remote?: string | null;
+  forgeClient?: ForgeClient | null;
+  pullRequestLabels?: string[];
+  formatter: Formatter;
+  stdout: Pick<WriteStream, 'write'>;
+  stderr: Pick<WriteStream, 'write'>;
+  reportEvent?: ReportWorkflowEvent;
+}) {
+  let project = initialProject;
+  let { rootPackage } = project;
+  const currentVersion = rootPackage.validatedManifest.version;
+
+  if (versionSpecifier === null) {
+    throw new Error(
+      'To release a package within a polyrepo, you must specify the new version, either with `--bump` ("major", "minor", "patch", "premajor", "preminor", "prepatch", or "prerelease") or with `--version` (a version string with major, minor, and patch parts, such as "1.2.3").',
+    );
+  }
+
+  const currentBranchName = await getCurrentBranchName(project.directoryPath);
+
+  if (
+    matchesReleaseBranchNameTemplate(
+      project.configuration.releaseBranchNameTemplate,
+      currentVersion.toString(),
+      currentBranchName,
+    ) &&
+    (await getHeadCommitSubject(project.directoryPath)) ===
+      `Update Release ${currentVersion.toString()}`
+  ) {
+    throw new Error(
+      `The release of ${currentVersion.toString()} has already been committed to ${currentBranchName}, which is checked out. To push it or open a pull request for it, switch back to the branch from which it was created and re-run this tool with the same options.`,
+    );
+  }
+
+  const newVersion =
+    versionSpecifier instanceof SemVer
+      ? versionSpecifier.toString()
+      : incrementVersion(
+          currentVersion,
+          versionSpecifier,
+          prereleaseIdentifier,
+        ).toString();
+
+  if (currentVersion.compare(newVersion) >= 0) {
+    throw new Error(
+      `Could not release ${rootPackage.validatedManifest.name} at version ${newVersion}, as it is not greater than the current version ${currentVersion.toString()}.`,
+    );
+  }
+
+  let releasePlan: ReleasePlan = {
+    newVersion,
+    packages: [{ package: rootPackage, newVersion }],
+  };
+
+  if (dryRun) {
+    reportEvent(buildReleasePlannedEvent(releasePlan));
+    const preview = await previewReleasePlan({
+      project,
+      releasePlan,
+      branchName: getReleaseBranchName(project, newVersion),
+      commitMessages: [`Update Release ${newVersion}`],
+      formatter,
+    });
+    stdout.write(`${formatReleasePlanPreview(preview)}\n`);
+    return;
+  }
+
+  const releaseBranch = await createReleaseBranchForVersion({
+    project,
+    version: newVersion,
+    baseRef,
+  });
+  reportEvent(buildReleaseBranchEvent(releaseBranch));
+  const commitMessage = `Update Release ${newVersion}`;
+
+  if (releaseBranch.firstRun) {
+    if (baseRef !== null) {
+      // The package is updated as it is on the release branch rather than as
+      // it was in the commit which was checked out before.
+      project = await rereadProject(project, { stderr });
+      rootPackage = project.rootPackage;
+      releasePlan = {
+        newVersion,
+        packages: [{ package: rootPackage, newVersion }],
+      };
+    }
+
+    reportEvent(buildReleasePlannedEvent(releasePlan));
+    await updatePackageChangelog({
+      project,
+      package: rootPackage,
+      formatter,
+      stderr,
+    });
+    await updatePackage({
+      project,
+      packageReleasePlan: { package: rootPackage, newVersion },
+      formatter,
+      stderr,
+    });
+
+    await commitAllChanges(project.directoryPath, commitMessage);
+    reportEvent({ type: 'commitCreated', message: commitMessage });
+  } else {
+    if ((await getHeadCommitSubject(project.directoryPath)) !== commitMessage) {
+      throw new Error(
+        `The release branch ${releaseBranch.branchName} already exists, but the changes for ${newVersion} have not been committed to it, so a previous run may have failed partway through. Please switch to another branch, delete ${releaseBranch.branchName}, and re-run this tool to start over.`,
+      );
+    }
+
+    if (!push && forgeClient === null) {
+      stdout.write(
+        `The release branch for ${newVersion} already exists, so there is nothing left to do.\n`,
+      );
+      return;
+    }
+
+    stdout.write(
+      `The changes for ${newVersion} have already been committed to ${releaseBranch.branchName}, so the tool will pick back up from there.\n`,
+    );
+  }
+
+  if (push) {
+    await pushReleaseBranch({ project, remote, stdout, reportEvent });
+  }
+
+  if (forgeClient !== null) {
+    await openReleasePullRequest({
+      project,
+      forgeClient,
+      defaultBranch,
+      releaseNotes: await buildReleaseNotes({
+        project,
+        releasePlan,
+        formatter,
+      }),
+      labels: pullRequestLabels,
+      stdout,
+      reportEvent,
+    });
+  }
+}
@@ -0,0 +1,310 @@
+import fs from 'fs';
+import path from 'path';
+import { withSandbox } from '../tests/helpers.js';
+import { readProjectConfiguration } from './project-configuration.js';
+import { DEFAULT_RELEASE_BRANCH_NAME_TEMPLATE } from './release-branch-name-template.js';
+import { DEFAULT_TAG_NAME_TEMPLATES } from './tag-name-template.js';
+
+describe('project-configuration', () => {
+  describe('readProjectConfiguration', () => {
+    it('uses an independent versioning strategy if the manifest has no "create-release-branch" field', async () => {
+      expect(
+        await readProjectConfiguration(
+          { name: 'root', version: '1.0.0' },
+          '/path/to/project',
+        ),
+      ).toStrictEqual({
+        versioningStrategy: 'independent',
+        pathFilters: {},
+        tagNameTemplates: DEFAULT_TAG_NAME_TEMPLATES,
+        releaseBranchNameTemplate: DEFAULT_RELEASE_BRANCH_NAME_TEMPLATE,
+      });
+    });
+
+    it('uses an independent versioning strategy if "create-release-branch" does not specify one', async () => {
+      expect(
+        await readProjectConfiguration(
+          { name: 'root', version: '1.0.0', 'create-release-branch': {} },
+          '/path/to/project',
+        ),
+      ).toStrictEqual({
+        versioningStrategy: 'independent',
+        pathFilters: {},
+        tagNameTemplates: DEFAULT_TAG_NAME_TEMPLATES,
+        releaseBranchNameTemplate: DEFAULT_RELEASE_BRANCH_NAME_TEMPLATE,
+      });
+    });
+
+    it('reads a fixed versioning strategy from "create-release-branch.versioningStrategy"', async () => {
+      expect(
+        await readProjectConfiguration(
+          {
+            name: 'root',
+            version: '1.0.0',
+            'create-release-branch': { versioningStrategy: 'fixed' },
+          },
+          '/path/to/project',
+        ),
+      ).toStrictEqual({
+        versioningStrategy: 'fixed',
+        pathFilters: {},
+        tagNameTemplates: DEFAULT_TAG_NAME_TEMPLATES,
+        releaseBranchNameTemplate: DEFAULT_RELEASE_BRANCH_NAME_TEMPLATE,
+      });
+    });
+
+    it('throws if "create-release-branch" is not an object', async () => {
+      await expect(
+        readProjectConfiguration(
+          { name: 'root', version: '1.0.0', 'create-release-branch': 'fixed' },
+          '/path/to/project',
+        ),
+      ).rejects.toThrow(
+        'The value of "create-release-branch" in the manifest located at "/path/to/project" must be an object (if present)',
+      );
+    });
+
+    it('throws if "create-release-branch.versioningStrategy" is not a known versioning strategy', async () => {
+      await expect(
+        readProjectConfiguration(
+          {
+            name: 'root',
+            version: '1.0.0',
+            'create-release-branch': { versioningStrategy: 'lockstep' },
+          },
+          '/path/to/project',
+        ),
+      ).rejects.toThrow(
+        'The value of "create-release-branch.versioningStrategy" in the manifest located at "/path/to/project" must be "independent" or "fixed" (if present)',
+      );
+    });
+
+    it('reads the path filters from "create-release-branch.pathFilters", filling in missing patterns', async () => {
+      expect(
+        await readProjectConfiguration(
+          {
+            name: 'root',
+            version: '1.0.0',
+            'create-release-branch': {
+              pathFilters: {
+                '*': { ignore: ['*.md'] },
+                a: { include: ['src/**'] },
+              },
+            },
+          },
+          '/path/to/project',
+        ),
+      ).toStrictEqual({
+        versioningStrategy: 'independent',
+        pathFilters: {
+          '*': { include: [], ignore: ['*.md'] },
+          a: { include: ['src/**'], ignore: [] },
+        },
+        tagNameTemplates: DEFAULT_TAG_NAME_TEMPLATES,
+        releaseBranchNameTemplate: DEFAULT_RELEASE_BRANCH_NAME_TEMPLATE,
+      });
+    });
+
+    it.each([
+      [
+        '"create-release-branch.pathFilters" is not an object',
+        { pathFilters: ['src/**'] },
+        'The value of "create-release-branch.pathFilters" in the manifest located at "/path/to/project" must be an object whose keys are package names (or "*") (if present)',
+      ],
+      [
+        'a path filter is not an object',
+        { pathFilters: { a: 'src/**' } },
+        'The value of "create-release-branch.pathFilters.a" in the manifest located at "/path/to/project" must be an object',
+      ],
+      [
+        'the "include" patterns of a path filter are not an array of strings',
+        { pathFilters: { a: { include: 'src/**' } } },
+        'The value of "create-release-branch.pathFilters.a.include" in the manifest located at "/path/to/project" must be an array of glob patterns (if present)',
+      ],
+      [
+        'the "ignore" patterns of a path filter are not an array of strings',
+        { pathFilters: { a: { ignore: [1] } } },
+        'The value of "create-release-branch.pathFilters.a.ignore" in the manifest located at "/path/to/project" must be an array of glob patterns (if present)',
+      ],
+    ])('throws if %s', async (_description, configuration, message) => {
+      await expect(
+        readProjectConfiguration(
+          {
+            name: 'root',
+            version: '1.0.0',
+            'create-release-branch': configuration,
+          },
+          '/path/to/project',
+        ),
+      ).rejects.toThrow(message);
+    });
+
+    it('reads the tag name templates from "create-release-branch.tagNameTemplates", using the default template for any that are missing', async () => {
+      expect(
+        await readProjectConfiguration(
+          {
+            name: 'root',
+            version: '1.0.0',
+            'create-release-branch': {
+              tagNameTemplates: { workspace: `\${unscopedName}-v\${version}` },
+            },
+          },
+          '/path/to/project',
+        ),
+      ).toStrictEqual({
+        versioningStrategy: 'independent',
+        pathFilters: {},
+        tagNameTemplates: {
+          root: DEFAULT_TAG_NAME_TEMPLATES.root,
+          workspace: `\${unscopedName}-v\${version}`,
+        },
+        releaseBranchNameTemplate: DEFAULT_RELEASE_BRANCH_NAME_TEMPLATE,
+      });
+    });
+
+    it('throws if "create-release-branch.tagNameTemplates" is not an object', async () => {
+      await expect(
+        readProjectConfiguration(
+          {
+            name: 'root',
+            version: '1.0.0',
+            'create-release-branch': { tagNameTemplates: 'v' },
+          },
+          '/path/to/project',
+        ),
+      ).rejects.toThrow(
+        'The value of "create-release-branch.tagNameTemplates" in the manifest located at "/path/to/project" must be an object (if present)',
+      );
+    });
+
+    it.each([
+      ['is not a string', 1],
+      ['does not refer to the version', 'release'],
+      ['does not end with the version', `\${version}-release`],
+      ['refers to the version more than once', `\${version}-\${version}`],
+      ['refers to an unknown placeholder', `\${scope}-\${version}`],
+    ])('throws if a tag name template %s', async (_description, template) => {
+      await expect(
+        readProjectConfiguration(
+          {
+            name: 'root',
+            version: '1.0.0',
+            'create-release-branch': {
+              tagNameTemplates: { root: template },
+            },
+          },
+          '/path/to/project',
+        ),
+      ).rejects.toThrow(
+        `The value of "create-release-branch.tagNameTemplates.root" in the manifest located at "/path/to/project" must be a string which ends with "\${version}" and which otherwise only refers to "\${name}" or "\${unscopedName}" (if present)`,
+      );
+    });
+
+    it('reads the release branch name template from "create-release-branch.releaseBranchNameTemplate"', async () => {
+      expect(
+        await readProjectConfiguration(
+          {
+            name: 'root',
+            version: '1.0.0',
+            'create-release-branch': {
+              releaseBranchNameTemplate: 'rc/{date}-{version}',
+            },
+          },
+          '/path/to/project',
+        ),
+      ).toStrictEqual({
+        versioningStrategy: 'independent',
+        pathFilters: {},
+        tagNameTemplates: DEFAULT_TAG_NAME_TEMPLATES,
+        releaseBranchNameTemplate: 'rc/{date}-{version}',
+      });
+    });
+
+    it.each([
+      ['is not a string', 1],
+      ['does not refer to the version', 'release/{date}'],
+      ['refers to an unknown placeholder', 'release/{name}-{version}'],
+    ])(
+      'throws if "create-release-branch.releaseBranchNameTemplate" %s',
+      async (_description, template) => {
+        await expect(
+          readProjectConfiguration(
+            {
+              name: 'root',
+              version: '1.0.0',
+              'create-release-branch': { releaseBranchNameTemplate: template },
+            },
+            '/path/to/project',
+          ),
+        ).rejects.toThrow(
+          'The value of "create-release-branch.releaseBranchNameTemplate" in the manifest located at "/path/to/project" must be a string which refers to "{version}" and which otherwise only refers to "{date}" (if present)',
+        );
+      },
+    );
+
+    it('reads the options from a ".create-release-branch.json" file in the given directory instead, if it exists', async () => {
+      await withSandbox(async (sandbox) => {
+        await fs.promises.writeFile(
+          path.join(sandbox.directoryPath, '.create-release-branch.json'),
+          JSON.stringify({
+            versioningStrategy: 'fixed',
+            pathFilters: { '*': { ignore: ['*.md'] } },
+          }),
+        );
+
+        expect(
+          await readProjectConfiguration(
+            { name: 'root', version: '1.0.0' },
+            sandbox.directoryPath,
+          ),
+        ).toStrictEqual({
+          versioningStrategy: 'fixed',
+          pathFilters: { '*': { include: [], ignore: ['*.md'] } },
+          tagNameTemplates: DEFAULT_TAG_NAME_TEMPLATES,
+          releaseBranchNameTemplate: DEFAULT_RELEASE_BRANCH_NAME_TEMPLATE,
+        });
+      });
+    });
+
+    it('refers to the ".create-release-branch.json" file if an option within it is invalid', async () => {
+      await withSandbox(async (sandbox) => {
+        const configurationFilePath = path.join(
+          sandbox.directoryPath,
+          '.create-release-branch.json',
+        );
+        await fs.promises.writeFile(
+          configurationFilePath,
+          JSON.stringify({ versioningStrategy: 'lockstep' }),
+        );
+
+        await expect(
+          readProjectConfiguration(
+            { name: 'root', version: '1.0.0' },
+            sandbox.directoryPath,
+          ),
+        ).rejects.toThrow(
+          `The value of "versioningStrategy" in the configuration file located at "${configurationFilePath}" must be "independent" or "fixed" (if present)`,
+        );
+      });
+    });
+
+    it('throws if options are specified both in "create-release-branch" and in a ".create-release-branch.json" file', async () => {
+      await withSandbox(async (sandbox) => {
+        const configurationFilePath = path.join(
+          sandbox.directoryPath,
+          '.create-release-branch.json',
+        );
+        await fs.promises.writeFile(configurationFilePath, '{}');
+
+        await expect(
+          readProjectConfiguration(
+            { name: 'root', version: '1.0.0', 'create-release-branch': {} },
+            sandbox.directoryPath,
+          ),
+        ).rejects.toThrow(
+          `Options for this tool may be specified either in the "create-release-branch" field of the manifest located at "${sandbox.directoryPath}" or in "${configurationFilePath}", but not both.`,
+        );
+      });
+    });
+  });
+});
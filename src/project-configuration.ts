@@ -0,0 +1,308 @@
+import path from 'path';
+import { isPlainObject } from '@metamask/utils';
+import { fileExists, readJsonObjectFile } from './fs.js';
+import { VersioningStrategy } from './initial-parameters.js';
+import { UnvalidatedPackageManifest } from './package-manifest.js';
+import { PathFilter } from './path-filter.js';
+import {
+  DEFAULT_RELEASE_BRANCH_NAME_TEMPLATE,
+  isReleaseBranchNameTemplate,
+} from './release-branch-name-template.js';
+import {
+  DEFAULT_TAG_NAME_TEMPLATES,
+  isTagNameTemplate,
+  TagNameTemplates,
+} from './tag-name-template.js';
+
+/**
+ * The name of the field in the root `package.json` of a project under which
+ * options for this tool may be specified.
+ */
+const CONFIGURATION_FIELD_NAME = 'create-release-branch';
+
+/**
+ * The name of the file in the root directory of a project in which options for
+ * this tool may be specified instead of the root `package.json`.
+ */
+export const CONFIGURATION_FILE_NAME = '.create-release-branch.json';
+
+/**
+ * The versioning strategies that this tool supports.
+ */
+const VERSIONING_STRATEGIES: VersioningStrategy[] = ['independent', 'fixed'];
+
+/**
+ * Options for this tool which may be specified by a project.
+ *
+ * @property versioningStrategy - Whether the workspace packages within the
+ * project are released with their own versions ("independent") or all share
+ * the version of the root package ("fixed").
+ * @property pathFilters - The patterns which determine which files are relevant
+ * to the releases of each package, by package name, along with the patterns
+ * which apply to every other package (under "*").
+ * @property tagNameTemplates - The templates for the names of the tags which
+ * mark releases of the root package and of workspace packages.
+ * @property releaseBranchNameTemplate - The template for the name of the branch
+ * on which a release is prepared.
+ */
+export type ProjectConfiguration = {
+  versioningStrategy: VersioningStrategy;
+  pathFilters: Record<string, PathFilter>;
+  tagNameTemplates: TagNameTemplates;
+  releaseBranchNameTemplate: string;
+};
+
+/**
+ * Where the options for this tool were read from.
+ *
+ * @property description - Describes the file that holds the options.
+ * @property fieldName - The name of the field in the file under which the
+ * options are specified, or null if they make up the whole file.
+ */
+type ConfigurationSource = {
+  description: string;
+  fieldName: string | null;
+};
+
+/**
+ * Constructs a validation error message for an option within the
+ * configuration.
+ *
+ * @param source - Where the configuration was read from.
+ * @param optionName - The name of the option, or null to refer to the
+ * configuration as a whole.
+ * @param verbPhrase - Either the fact that the option is invalid or an
+ * explanation for why it is invalid.
+ * @returns The error message.
+ */
+function buildProjectConfigurationValidationErrorMessage(
+  source: ConfigurationSource,
+  optionName: string | null,
+  verbPhrase: string,
+) {
+  const fieldPath = [source.fieldName, optionName]
+    .filter((part) => part !== null)
+    .join('.');
+  return `The value of "${fieldPath}" in ${source.description} ${verbPhrase}`;
+}
+
+/**
+ * Type guard to ensure that the given value is a known versioning strategy.
+ *
+ * @param value - The value to check.
+ * @returns Whether the value is "independent" or "fixed".
+ */
+function isVersioningStrategy(value: unknown): value is VersioningStrategy {
+  return VERSIONING_STRATEGIES.includes(value as VersioningStrategy);
+}
+
+/**
+ * Type guard to ensure that the given value is a list of strings.
+ *
+ * @param value - The value to check.
+ * @returns Whether the value is an array of strings.
+ */
+function isStringArray(value: unknown): value is string[] {
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === 'string')
+  );
+}
+
+/**
+ * Validates the path filters within the configuration, filling in defaults for
+ * any patterns that are not specified.
+ *
+ * @param pathFilters - The value of the `pathFilters` option.
+ * @param source - Where the configuration was read from.
+ * @returns The path filters, by package name.
+ * @throws If the option is not an object mapping package names to path
+ * filters, or if any of the path filters are invalid.
+ */
+function readPathFilters(
+  pathFilters: unknown,
+  source: ConfigurationSource,
+): Record<string, PathFilter> {
+  if (!isPlainObject(pathFilters)) {
+    throw new Error(
+      buildProjectConfigurationValidationErrorMessage(
+        source,
+        'pathFilters',
+        'must be an object whose keys are package names (or "*") (if present)',
+      ),
+    );
+  }
+
+  return Object.entries(pathFilters).reduce<Record<string, PathFilter>>(
+    (obj, [packageName, pathFilter]) => {
+      if (!isPlainObject(pathFilter)) {
+        throw new Error(
+          buildProjectConfigurationValidationErrorMessage(
+            source,
+            `pathFilters.${packageName}`,
+            'must be an object',
+          ),
+        );
+      }
+
+      const { include = [], ignore = [] } = pathFilter;
+
+      if (!isStringArray(include)) {
+        throw new Error(
+          buildProjectConfigurationValidationErrorMessage(
+            source,
+            `pathFilters.${packageName}.include`,
+            'must be an array of glob patterns (if present)',
+          ),
+        );
+      }
+
+      if (!isStringArray(ignore)) {
+        throw new Error(
+          buildProjectConfigurationValidationErrorMessage(
+            source,
+            `pathFilters.${packageName}.ignore`,
+            'must be an array of glob patterns (if present)',
+          ),
+        );
+      }
+
+      return { ...obj, [packageName]: { include, ignore } };
+    },
+    {},
+  );
+}
+
+/**
+ * Validates the tag name templates within the configuration, filling in the
+ * default template for any kind of package that does not have one.
+ *
+ * @param tagNameTemplates - The value of the `tagNameTemplates` option.
+ * @param source - Where the configuration was read from.
+ * @returns The tag name templates.
+ * @throws If the option is not an object, or if any of the templates are
+ * invalid.
+ */
+function readTagNameTemplates(
+  tagNameTemplates: unknown,
+  source: ConfigurationSource,
+): TagNameTemplates {
+  if (!isPlainObject(tagNameTemplates)) {
+    throw new Error(
+      buildProjectConfigurationValidationErrorMessage(
+        source,
+        'tagNameTemplates',
+        'must be an object (if present)',
+      ),
+    );
+  }
+
+  // Typecast: The keys of the default templates are the kinds of packages.
+  const kinds = Object.keys(
+    DEFAULT_TAG_NAME_TEMPLATES,
+  ) as (keyof TagNameTemplates)[];
+
+  return kinds.reduce<TagNameTemplates>((obj, kind) => {
+    const template = tagNameTemplates[kind] ?? DEFAULT_TAG_NAME_TEMPLATES[kind];
+
+    if (!isTagNameTemplate(template)) {
+      throw new Error(
+        buildProjectConfigurationValidationErrorMessage(
+          source,
+          `tagNameTemplates.${kind}`,
+          `must be a string which ends with "\${version}" and which otherwise only refers to "\${name}" or "\${unscopedName}" (if present)`,
+        ),
+      );
+    }
+
+    return { ...obj, [kind]: template };
+  }, DEFAULT_TAG_NAME_TEMPLATES);
+}
+
+/**
+ * Reads the options for this tool from the `create-release-branch` field
+ * within the manifest of the root package of a project, or from a
+ * `.create-release-branch.json` file next to it, filling in defaults for any
+ * options that are not specified.
+ *
+ * @param manifest - The manifest object for the root package.
+ * @param parentDirectory - The directory in which the manifest lives.
+ * @returns The configuration for the project.
+ * @throws If the options are specified in both places, if the field is present
+ * but is not an object, or if any of the options are invalid.
+ */
+export async function readProjectConfiguration(
+  manifest: UnvalidatedPackageManifest,
+  parentDirectory: string,
+): Promise<ProjectConfiguration> {
+  const configurationFilePath = path.join(
+    parentDirectory,
+    CONFIGURATION_FILE_NAME,
+  );
+  const hasConfigurationFile = await fileExists(configurationFilePath);
+
+  if (
+    hasConfigurationFile &&
+    manifest[CONFIGURATION_FIELD_NAME] !== undefined
+  ) {
+    throw new Error(
+      `Options for this tool may be specified either in the "${CONFIGURATION_FIELD_NAME}" field of the manifest located at "${parentDirectory}" or in "${configurationFilePath}", but not both.`,
+    );
+  }
+
+  const source: ConfigurationSource = hasConfigurationFile
+    ? {
+        description: `the configuration file located at "${configurationFilePath}"`,
+        fieldName: null,
+      }
+    : {
+        description: `the manifest located at "${parentDirectory}"`,
+        fieldName: CONFIGURATION_FIELD_NAME,
+      };
+  const configuration = hasConfigurationFile
+    ? await readJsonObjectFile(configurationFilePath)
+    : (manifest[CONFIGURATION_FIELD_NAME] ?? {});
+
+  if (!isPlainObject(configuration)) {
+    throw new Error(
+      buildProjectConfigurationValidationErrorMessage(
+        source,
+        null,
+        'must be an object (if present)',
+      ),
+    );
+  }
+
+  const {
+    versioningStrategy = 'independent',
+    pathFilters = {},
+    tagNameTemplates = {},
+    releaseBranchNameTemplate = DEFAULT_RELEASE_BRANCH_NAME_TEMPLATE,
+  } = configuration;
+
+  if (!isVersioningStrategy(versioningStrategy)) {
+    throw new Error(
+      buildProjectConfigurationValidationErrorMessage(
+        source,
+        'versioningStrategy',
+        'must be "independent" or "fixed" (if present)',
+      ),
+    );
+  }
+
+  if (!isReleaseBranchNameTemplate(releaseBranchNameTemplate)) {
+    throw new Error(
+      buildProjectConfigurationValidationErrorMessage(
+        source,
+        'releaseBranchNameTemplate',
+        'must be a string which refers to "{version}" and which otherwise only refers to "{date}" (if present)',
+      ),
+    );
+  }
+
+  return {
+    versioningStrategy,
+    pathFilters: readPathFilters(pathFilters, source),
+    tagNameTemplates: readTagNameTemplates(tagNameTemplates, source),
+    releaseBranchNameTemplate,
+  };
+}
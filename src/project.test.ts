@@ -2,6 +2,7 @@ import { mkdir } from 'fs/promises';
 import path from 'path';
 import { when } from 'jest-when';
 import { SemVer } from 'semver';
+import { MockWritable } from 'stdio-mock';
 import * as actionUtils from '@metamask/action-utils';
 import { withProtectedProcessEnv, withSandbox } from '../tests/helpers.js';
 import {
@@ -11,15 +12,21 @@ import {
 } from '../tests/unit/helpers.js';
 import * as miscUtils from './misc-utils.js';
 import {
+  getReleaseFilePaths,
   getValidRepositoryUrl,
   readProject,
+  rereadProject,
   restoreChangelogsForSkippedPackages,
   updateChangelogsForChangedPackages,
 } from './project.js';
 import * as packageModule from './package.js';
+import * as packageManifestModule from './package-manifest.js';
 import * as repoModule from './repo.js';
 import * as fs from './fs.js';
+import { npmPackageManager, yarnPackageManager } from './package-manager.js';
 import { IncrementableVersionParts } from './release-specification.js';
+import { DEFAULT_RELEASE_BRANCH_NAME_TEMPLATE } from './release-branch-name-template.js';
+import { DEFAULT_TAG_NAME_TEMPLATES } from './tag-name-template.js';
 
 jest.mock('./package');
 jest.mock('./repo');
@@ -67,13 +74,20 @@ describe('project', () => {
         const projectTagNames = ['tag1', 'tag2', 'tag3'];
         const stderr = createNoopWriteStream();
         when(jest.spyOn(repoModule, 'getTagNames'))
-          .calledWith(projectDirectoryPath)
+          .calledWith(projectDirectoryPath, { fetchTags: true, remote: null })
           .mockResolvedValue(projectTagNames);
+        when(jest.spyOn(packageManifestModule, 'readPackageManifest'))
+          .calledWith(path.join(projectDirectoryPath, 'package.json'))
+          .mockResolvedValue({
+            unvalidated: rootPackage.unvalidatedManifest,
+            validated: rootPackage.validatedManifest,
+          });
         when(jest.spyOn(packageModule, 'readMonorepoRootPackage'))
           .calledWith({
             packageDirectoryPath: projectDirectoryPath,
             projectDirectoryPath,
             projectTagNames,
+            tagNameTemplates: DEFAULT_TAG_NAME_TEMPLATES,
           })
           .mockResolvedValue(rootPackage);
         when(
@@ -90,6 +104,8 @@ describe('project', () => {
             rootPackageVersion,
             projectDirectoryPath,
             projectTagNames,
+            pathFilters: {},
+            tagNameTemplates: DEFAULT_TAG_NAME_TEMPLATES,
             stderr,
           })
           .mockResolvedValue(workspacePackages.a)
@@ -104,6 +120,8 @@ describe('project', () => {
             rootPackageVersion,
             projectDirectoryPath,
             projectTagNames,
+            pathFilters: {},
+            tagNameTemplates: DEFAULT_TAG_NAME_TEMPLATES,
             stderr,
           })
           .mockResolvedValue(workspacePackages.b);
@@ -126,7 +144,135 @@ describe('project', () => {
             ordinaryNumber: 4,
             backportNumber: 38,
           },
+          configuration: {
+            versioningStrategy: 'independent',
+            pathFilters: {},
+            tagNameTemplates: DEFAULT_TAG_NAME_TEMPLATES,
+            releaseBranchNameTemplate: DEFAULT_RELEASE_BRANCH_NAME_TEMPLATE,
+          },
+          packageManager: yarnPackageManager,
+        });
+      });
+    });
+    it('reads the tags without fetching them, warning that they may be out of date, if fetchTags is false', async () => {
+      await withSandbox(async (sandbox) => {
+        const projectDirectoryPath = sandbox.directoryPath;
+        const rootPackage = buildMockPackage('root', '1.0.0', {
+          directoryPath: projectDirectoryPath,
+          unvalidatedManifest: {
+            repository: 'https://github.com/some-org/some-repo',
+          },
+        });
+        const stderr = new MockWritable();
+        const getTagNamesSpy = jest
+          .spyOn(repoModule, 'getTagNames')
+          .mockResolvedValue(['v1.0.0']);
+        jest
+          .spyOn(packageManifestModule, 'readPackageManifest')
+          .mockResolvedValue({
+            unvalidated: rootPackage.unvalidatedManifest,
+            validated: rootPackage.validatedManifest,
+          });
+        jest
+          .spyOn(packageModule, 'readMonorepoRootPackage')
+          .mockResolvedValue(rootPackage);
+        jest.spyOn(actionUtils, 'getWorkspaceLocations').mockResolvedValue([]);
+
+        await readProject(projectDirectoryPath, {
+          stderr,
+          fetchTags: false,
+          remote: 'upstream',
+        });
+
+        expect(getTagNamesSpy).toHaveBeenCalledWith(projectDirectoryPath, {
+          fetchTags: false,
+          remote: 'upstream',
+        });
+        expect(stderr.data()).toStrictEqual([
+          'Warning: Tags were not fetched from the remote, so they may be out of date. Releases tagged since the tags were last fetched will not be detected, so some packages may appear to have changed when they have not. Re-run this tool without `--no-fetch` to fetch the latest tags.\n',
+        ]);
+      });
+    });
+    it('reads the packages using the tag name templates given in the options for this tool', async () => {
+      await withSandbox(async (sandbox) => {
+        const projectDirectoryPath = sandbox.directoryPath;
+        const tagNameTemplates = {
+          root: `release-\${version}`,
+          workspace: `\${unscopedName}-v\${version}`,
+        };
+        const rootPackage = buildMockPackage('root', '1.0.0', {
+          directoryPath: projectDirectoryPath,
+          unvalidatedManifest: {
+            repository: 'https://github.com/some-org/some-repo',
+            'create-release-branch': { tagNameTemplates },
+          },
+        });
+        jest.spyOn(repoModule, 'getTagNames').mockResolvedValue([]);
+        jest
+          .spyOn(packageManifestModule, 'readPackageManifest')
+          .mockResolvedValue({
+            unvalidated: rootPackage.unvalidatedManifest,
+            validated: rootPackage.validatedManifest,
+          });
+        const readMonorepoRootPackageSpy = jest
+          .spyOn(packageModule, 'readMonorepoRootPackage')
+          .mockResolvedValue(rootPackage);
+        jest.spyOn(actionUtils, 'getWorkspaceLocations').mockResolvedValue([]);
+
+        const project = await readProject(projectDirectoryPath, {
+          stderr: createNoopWriteStream(),
+        });
+
+        expect(readMonorepoRootPackageSpy).toHaveBeenCalledWith(
+          expect.objectContaining({ tagNameTemplates }),
+        );
+        expect(project.configuration.tagNameTemplates).toStrictEqual(
+          tagNameTemplates,
+        );
+      });
+    });
+  });
+
+  describe('rereadProject', () => {
+    it('reads the project again using the tags that have already been fetched, after forgetting the cached diffs', async () => {
+      await withSandbox(async (sandbox) => {
+        const projectDirectoryPath = sandbox.directoryPath;
+        const rootPackage = buildMockPackage('root', '2.0.0', {
+          directoryPath: projectDirectoryPath,
+          unvalidatedManifest: {
+            repository: 'https://github.com/some-org/some-repo',
+          },
+        });
+        const stderr = new MockWritable();
+        const forgetFilesChangedSinceGitTagsSpy = jest.spyOn(
+          repoModule,
+          'forgetFilesChangedSinceGitTags',
+        );
+        const getTagNamesSpy = jest
+          .spyOn(repoModule, 'getTagNames')
+          .mockResolvedValue(['v1.0.0']);
+        jest
+          .spyOn(packageManifestModule, 'readPackageManifest')
+          .mockResolvedValue({
+            unvalidated: rootPackage.unvalidatedManifest,
+            validated: rootPackage.validatedManifest,
+          });
+        jest
+          .spyOn(packageModule, 'readMonorepoRootPackage')
+          .mockResolvedValue(rootPackage);
+        jest.spyOn(actionUtils, 'getWorkspaceLocations').mockResolvedValue([]);
+
+        const project = await rereadProject(
+          buildMockProject({ directoryPath: projectDirectoryPath }),
+          { stderr },
+        );
+
+        expect(forgetFilesChangedSinceGitTagsSpy).toHaveBeenCalled();
+        expect(getTagNamesSpy).toHaveBeenCalledWith(projectDirectoryPath, {
+          fetchTags: false,
         });
+        expect(project.rootPackage).toBe(rootPackage);
+        expect(stderr.data()).toStrictEqual([]);
       });
     });
   });
@@ -195,6 +341,31 @@ describe('project', () => {
     });
   });
 
+  describe('getReleaseFilePaths', () => {
+    it('lists the manifest and changelog of the root package and every workspace package, as well as the lockfile', () => {
+      const project = buildMockProject({
+        directoryPath: '/path/to/project',
+        rootPackage: buildMockPackage('root', {
+          directoryPath: '/path/to/project',
+        }),
+        workspacePackages: {
+          a: buildMockPackage('a', {
+            directoryPath: '/path/to/project/packages/a',
+          }),
+        },
+        packageManager: npmPackageManager,
+      });
+
+      expect(getReleaseFilePaths(project)).toStrictEqual([
+        '/path/to/project/package.json',
+        '/path/to/project/CHANGELOG.md',
+        '/path/to/project/packages/a/package.json',
+        '/path/to/project/packages/a/CHANGELOG.md',
+        '/path/to/project/package-lock.json',
+      ]);
+    });
+  });
+
   describe('restoreChangelogsForSkippedPackages', () => {
     it('should reset changelog for packages with changes not included in release', async () => {
       const project = buildMockProject({
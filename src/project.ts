@@ -1,6 +1,5 @@
 import { WriteStream } from 'fs';
-import { resolve } from 'path';
-import { getWorkspaceLocations } from '@metamask/action-utils';
+import path, { resolve } from 'path';
 import { isPlainObject } from '@metamask/utils';
 import { WriteStreamLike, fileExists } from './fs.js';
 import {
@@ -9,13 +8,22 @@ import {
   readMonorepoWorkspacePackage,
   updatePackageChangelog,
 } from './package.js';
-import { getTagNames, restoreFiles } from './repo.js';
+import {
+  forgetFilesChangedSinceGitTags,
+  getTagNames,
+  restoreFiles,
+} from './repo.js';
 import { SemVer } from './semver.js';
 import {
-  PackageManifestFieldNames,
+  readPackageManifest,
   UnvalidatedPackageManifest,
 } from './package-manifest.js';
+import { PackageManager, detectPackageManager } from './package-manager.js';
 import { ReleaseSpecification } from './release-specification.js';
+import {
+  ProjectConfiguration,
+  readProjectConfiguration,
+} from './project-configuration.js';
 import {
   convertToHttpsGitHubRepositoryUrl,
   getStdoutFromCommand,
@@ -50,6 +58,9 @@ type ReleaseVersion = {
  * project is a monorepo).
  * @property workspacePackages - Information about packages that are referenced
  * via workspaces (assuming that the project is a monorepo).
+ * @property configuration - Options for this tool specified in the root
+ * `package.json`.
+ * @property packageManager - The package manager that the project uses.
  */
 export type Project = {
   directoryPath: string;
@@ -58,6 +69,8 @@ export type Project = {
   workspacePackages: Record<string, Package>;
   isMonorepo: boolean;
   releaseVersion: ReleaseVersion;
+  configuration: ProjectConfiguration;
+  packageManager: PackageManager;
 };
 
 /**
@@ -77,26 +90,33 @@ function examineReleaseVersion(packageVersion: SemVer): ReleaseVersion {
 }
 
 /**
- * Collects information about a monorepo — its root package as well as any
- * packages within workspaces specified via the root `package.json`.
+ * Collects information about a project given the names of its tags (see
+ * `readProject`).
  *
  * @param projectDirectoryPath - The path to the project.
  * @param args - Additional arguments.
+ * @param args.tagNames - The tag names across the whole project.
  * @param args.stderr - A stream that can be used to write to standard error.
  * @returns An object that represents information about the project.
- * @throws if the project does not contain a root `package.json` (polyrepo and
- * monorepo) or if any of the workspaces specified in the root `package.json` do
- * not have `package.json`s (monorepo only).
  */
-export async function readProject(
+async function readProjectWithTagNames(
   projectDirectoryPath: string,
-  { stderr }: { stderr: WriteStreamLike },
+  { tagNames, stderr }: { tagNames: string[]; stderr: WriteStreamLike },
 ): Promise<Project> {
-  const tagNames = await getTagNames(projectDirectoryPath);
+  // The options for this tool determine how release tags are named, so they
+  // must be read before the root package.
+  const { unvalidated: unvalidatedRootManifest } = await readPackageManifest(
+    path.join(projectDirectoryPath, 'package.json'),
+  );
+  const configuration = await readProjectConfiguration(
+    unvalidatedRootManifest,
+    projectDirectoryPath,
+  );
   const rootPackage = await readMonorepoRootPackage({
     packageDirectoryPath: projectDirectoryPath,
     projectDirectoryPath,
     projectTagNames: tagNames,
+    tagNameTemplates: configuration.tagNameTemplates,
   });
   const repositoryUrl = await getValidRepositoryUrl(
     rootPackage.unvalidatedManifest,
@@ -105,11 +125,14 @@ export async function readProject(
   const releaseVersion = examineReleaseVersion(
     rootPackage.validatedManifest.version,
   );
+  const packageManager = await detectPackageManager(
+    projectDirectoryPath,
+    rootPackage.unvalidatedManifest,
+  );
 
-  const workspaceDirectories = await getWorkspaceLocations(
-    rootPackage.validatedManifest[PackageManifestFieldNames.Workspaces],
+  const workspaceDirectories = await packageManager.listWorkspaceDirectories(
     projectDirectoryPath,
-    true,
+    rootPackage.validatedManifest,
   );
 
   const workspacePackages = (
@@ -121,6 +144,8 @@ export async function readProject(
           rootPackageVersion: rootPackage.validatedManifest.version,
           projectDirectoryPath,
           projectTagNames: tagNames,
+          pathFilters: configuration.pathFilters,
+          tagNameTemplates: configuration.tagNameTemplates,
           stderr,
         });
       }),
@@ -141,9 +166,76 @@ export async function readProject(
     workspacePackages,
     isMonorepo,
     releaseVersion,
+    configuration,
+    packageManager,
   };
 }
 
+/**
+ * Collects information about a monorepo — its root package as well as any
+ * packages within workspaces specified via the root `package.json` (or, for
+ * pnpm, via `pnpm-workspace.yaml`).
+ *
+ * @param projectDirectoryPath - The path to the project.
+ * @param args - Additional arguments.
+ * @param args.stderr - A stream that can be used to write to standard error.
+ * @param args.fetchTags - Whether to fetch tags from the remote before reading
+ * them. If not, a warning is printed, as the tags may be out of date.
+ * @param args.remote - The name of the remote from which to fetch tags, or null
+ * to use the default remote.
+ * @returns An object that represents information about the project.
+ * @throws if the project does not contain a root `package.json` (polyrepo and
+ * monorepo), if the options for this tool within the root `package.json` are
+ * invalid, if the package manager is not supported, or if any of the
+ * workspaces specified in the root `package.json` do not have `package.json`s
+ * (monorepo only).
+ */
+export async function readProject(
+  projectDirectoryPath: string,
+  {
+    stderr,
+    fetchTags = true,
+    remote = null,
+  }: { stderr: WriteStreamLike; fetchTags?: boolean; remote?: string | null },
+): Promise<Project> {
+  if (!fetchTags) {
+    stderr.write(
+      'Warning: Tags were not fetched from the remote, so they may be out of date. Releases tagged since the tags were last fetched will not be detected, so some packages may appear to have changed when they have not. Re-run this tool without `--no-fetch` to fetch the latest tags.\n',
+    );
+  }
+
+  const tagNames = await getTagNames(projectDirectoryPath, {
+    fetchTags,
+    remote,
+  });
+
+  return await readProjectWithTagNames(projectDirectoryPath, {
+    tagNames,
+    stderr,
+  });
+}
+
+/**
+ * Collects information about a project again once a different commit has been
+ * checked out (for instance, after creating the release branch from a
+ * different ref), using the tags that have already been fetched.
+ *
+ * @param project - The project.
+ * @param project.directoryPath - The path to the project.
+ * @param args - Additional arguments.
+ * @param args.stderr - A stream that can be used to write to standard error.
+ * @returns An object that represents information about the project.
+ */
+export async function rereadProject(
+  { directoryPath }: Pick<Project, 'directoryPath'>,
+  { stderr }: { stderr: WriteStreamLike },
+): Promise<Project> {
+  forgetFilesChangedSinceGitTags();
+  const tagNames = await getTagNames(directoryPath, { fetchTags: false });
+
+  return await readProjectWithTagNames(directoryPath, { tagNames, stderr });
+}
+
 /**
  * Returns the https-prefixed GitHub repository URL for the project, so that we
  * know how to construct links to releases inside of the changelog.
@@ -200,6 +292,29 @@ export async function getValidRepositoryUrl(
   return convertToHttpsGitHubRepositoryUrl(gitConfigUrl);
 }
 
+/**
+ * Lists the files in a project that preparing a release may change: the
+ * manifest and changelog of the root package and of every workspace package,
+ * as well as the lockfile.
+ *
+ * @param project - The project.
+ * @returns The paths to the files.
+ */
+export function getReleaseFilePaths(
+  project: Pick<
+    Project,
+    'directoryPath' | 'rootPackage' | 'workspacePackages' | 'packageManager'
+  >,
+): string[] {
+  return [
+    ...[
+      project.rootPackage,
+      ...Object.values(project.workspacePackages),
+    ].flatMap((pkg) => [pkg.manifestPath, pkg.changelogPath]),
+    resolve(project.directoryPath, project.packageManager.lockfileName),
+  ];
+}
+
 /**
  * Updates the changelog files of all packages that have changes since latest release to include those changes.
  *
@@ -216,7 +331,11 @@ export async function updateChangelogsForChangedPackages({
 }: {
   project: Pick<
     Project,
-    'directoryPath' | 'repositoryUrl' | 'workspacePackages'
+    | 'directoryPath'
+    | 'repositoryUrl'
+    | 'rootPackage'
+    | 'workspacePackages'
+    | 'configuration'
   >;
   formatter: Formatter;
   stderr: Pick<WriteStream, 'write'>;
@@ -254,7 +373,11 @@ export async function restoreChangelogsForSkippedPackages({
 }: {
   project: Pick<
     Project,
-    'directoryPath' | 'repositoryUrl' | 'workspacePackages'
+    | 'directoryPath'
+    | 'repositoryUrl'
+    | 'rootPackage'
+    | 'workspacePackages'
+    | 'configuration'
   >;
   releaseSpecificationPackages: ReleaseSpecification['packages'];
   defaultBranch: string;
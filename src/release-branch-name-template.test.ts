@@ -0,0 +1,78 @@
+import {
+  DEFAULT_RELEASE_BRANCH_NAME_TEMPLATE,
+  fillReleaseBranchNameTemplate,
+  isReleaseBranchNameTemplate,
+  matchesReleaseBranchNameTemplate,
+} from './release-branch-name-template.js';
+
+describe('release-branch-name-template', () => {
+  describe('isReleaseBranchNameTemplate', () => {
+    it.each([
+      DEFAULT_RELEASE_BRANCH_NAME_TEMPLATE,
+      'rc/{date}-{version}',
+      '{version}',
+    ])('returns true for "%s"', (template) => {
+      expect(isReleaseBranchNameTemplate(template)).toBe(true);
+    });
+
+    it.each([
+      ['a value which is not a string', 1],
+      ['a template which does not refer to the version', 'release/{date}'],
+      [
+        'a template which refers to an unknown placeholder',
+        'release/{name}-{version}',
+      ],
+    ])('returns false for %s', (_description, value) => {
+      expect(isReleaseBranchNameTemplate(value)).toBe(false);
+    });
+  });
+
+  describe('fillReleaseBranchNameTemplate', () => {
+    it('fills in the version of the release', () => {
+      expect(
+        fillReleaseBranchNameTemplate(
+          DEFAULT_RELEASE_BRANCH_NAME_TEMPLATE,
+          '1.2.3',
+          new Date('2024-03-04T12:00:00.000Z'),
+        ),
+      ).toBe('release/1.2.3');
+    });
+
+    it('fills in the given date in UTC', () => {
+      expect(
+        fillReleaseBranchNameTemplate(
+          'rc/{date}-{version}',
+          '1.2.3',
+          new Date('2024-03-04T23:59:59.000Z'),
+        ),
+      ).toBe('rc/2024-03-04-1.2.3');
+    });
+  });
+
+  describe('matchesReleaseBranchNameTemplate', () => {
+    it.each([
+      [DEFAULT_RELEASE_BRANCH_NAME_TEMPLATE, 'release/1.2.3'],
+      ['rc/{date}-{version}', 'rc/2024-03-04-1.2.3'],
+      ['rc/{date}-{version}', 'rc/2025-12-31-1.2.3'],
+    ])('returns true if "%s" produces "%s"', (template, branchName) => {
+      expect(
+        matchesReleaseBranchNameTemplate(template, '1.2.3', branchName),
+      ).toBe(true);
+    });
+
+    it.each([
+      [DEFAULT_RELEASE_BRANCH_NAME_TEMPLATE, 'release/1.2.4'],
+      [DEFAULT_RELEASE_BRANCH_NAME_TEMPLATE, 'release/1x2x3'],
+      [DEFAULT_RELEASE_BRANCH_NAME_TEMPLATE, 'release/1.2.3-rc.0'],
+      ['rc/{date}-{version}', 'rc/today-1.2.3'],
+      ['rc/{date}-{version}', 'rc/1.2.3'],
+    ])(
+      'returns false if "%s" does not produce "%s"',
+      (template, branchName) => {
+        expect(
+          matchesReleaseBranchNameTemplate(template, '1.2.3', branchName),
+        ).toBe(false);
+      },
+    );
+  });
+});
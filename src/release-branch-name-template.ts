@@ -0,0 +1,116 @@
+/**
+ * The template for the name of a release branch that this tool has always
+ * used.
+ */
+export const DEFAULT_RELEASE_BRANCH_NAME_TEMPLATE = 'release/{version}';
+
+/**
+ * Matches a placeholder within a release branch name template.
+ */
+const PLACEHOLDER_REGEX = /\{([^}]*)\}/gu;
+
+/**
+ * The names of the placeholders that may be used in a release branch name
+ * template.
+ */
+const PLACEHOLDER_NAMES = ['version', 'date'];
+
+/**
+ * Matches a date filled in for the `{date}` placeholder.
+ */
+const DATE_PATTERN = '\\d{4}-\\d{2}-\\d{2}';
+
+/**
+ * Type guard to ensure that the given value is a release branch name template
+ * which refers to the version of the release (so that each release gets its
+ * own branch) and otherwise only uses known placeholders.
+ *
+ * @param value - The value to check.
+ * @returns Whether the value is a valid release branch name template.
+ */
+export function isReleaseBranchNameTemplate(value: unknown): value is string {
+  if (typeof value !== 'string') {
+    return false;
+  }
+
+  const placeholderNames = Array.from(
+    value.matchAll(PLACEHOLDER_REGEX),
+    (match) => match[1],
+  );
+
+  return (
+    placeholderNames.includes('version') &&
+    placeholderNames.every((placeholderName) =>
+      PLACEHOLDER_NAMES.includes(placeholderName),
+    )
+  );
+}
+
+/**
+ * Fills in the given release branch name template. `{version}` is replaced
+ * with the version of the release, and `{date}` is replaced with the given date
+ * (in UTC) in the form "YYYY-MM-DD".
+ *
+ * @param template - The release branch name template.
+ * @param version - The version of the release.
+ * @param date - The date on which the release is prepared.
+ * @returns The name of the release branch.
+ */
+export function fillReleaseBranchNameTemplate(
+  template: string,
+  version: string,
+  date: Date,
+): string {
+  const values: Record<string, string> = {
+    version,
+    date: date.toISOString().slice(0, 'YYYY-MM-DD'.length),
+  };
+
+  return template.replace(
+    PLACEHOLDER_REGEX,
+    (_match, placeholderName) => values[placeholderName],
+  );
+}
+
+/**
+ * Escapes the characters in the given string that have a special meaning in a
+ * regular expression.
+ *
+ * @param string - The string to escape.
+ * @returns The escaped string.
+ */
+function escapeRegExp(string: string): string {
+  return string.replace(/[.*+?^${}()|[\]\\]/gu, '\\$&');
+}
+
+/**
+ * Checks whether the given branch name is the name that the given release
+ * branch name template produces for the given version, on any date. This
+ * allows a release branch to be recognized even if it was created on an
+ * earlier day than today.
+ *
+ * @param template - The release branch name template.
+ * @param version - The version of the release.
+ * @param branchName - The name of the branch to check.
+ * @returns Whether the template produces the branch name for the version.
+ */
+export function matchesReleaseBranchNameTemplate(
+  template: string,
+  version: string,
+  branchName: string,
+): boolean {
+  const patterns: Record<string, string> = {
+    version: escapeRegExp(version),
+    date: DATE_PATTERN,
+  };
+  // Splitting on the placeholders leaves the text between them at even indices
+  // and the names of the placeholders at odd indices.
+  const source = template
+    .split(PLACEHOLDER_REGEX)
+    .map((part, index) =>
+      index % 2 === 0 ? escapeRegExp(part) : patterns[part],
+    )
+    .join('');
+
+  return new RegExp(`^${source}$`, 'u').test(branchName);
+}
@@ -0,0 +1,207 @@
+import fs from 'fs';
+import path from 'path';
+import { when } from 'jest-when';
+import { MockWritable } from 'stdio-mock';
+import { withSandbox } from '../tests/helpers.js';
+import { buildMockPackage, buildMockProject } from '../tests/unit/helpers.js';
+import {
+  buildReleaseNotes,
+  formatReleaseNotes,
+  writeReleaseNotes,
+} from './release-notes.js';
+import * as packageModule from './package.js';
+
+jest.mock('./package', () => ({
+  ...jest.requireActual('./package'),
+  readReleasedChangelogChanges: jest.fn(),
+}));
+
+/**
+ * Builds a monorepo whose root package does not have a changelog and whose
+ * workspace packages "a" (released before) and "b" (never released) do.
+ *
+ * @returns The mock project, along with a release plan for it.
+ */
+function buildProjectWithReleasePlan() {
+  const rootPackage = buildMockPackage('root', '1.0.0', {
+    directoryPath: '/path/to/project',
+  });
+  const a = buildMockPackage('a', '1.0.0', {
+    directoryPath: '/path/to/project/packages/a',
+    latestReleaseTagName: 'a@1.0.0',
+  });
+  const b = buildMockPackage('b', '0.1.0', {
+    directoryPath: '/path/to/project/packages/b',
+  });
+  const project = buildMockProject({
+    directoryPath: '/path/to/project',
+    repositoryUrl: 'https://github.com/example-org/example-repo',
+    isMonorepo: true,
+    rootPackage,
+    workspacePackages: { a, b },
+  });
+  const releasePlan = {
+    newVersion: '2.0.0',
+    packages: [
+      { package: rootPackage, newVersion: '2.0.0' },
+      { package: a, newVersion: '1.1.0' },
+      { package: b, newVersion: '0.2.0' },
+    ],
+  };
+  when(jest.spyOn(packageModule, 'readReleasedChangelogChanges'))
+    .calledWith({
+      project,
+      package: rootPackage,
+      version: '2.0.0',
+      formatter: 'prettier',
+    })
+    .mockResolvedValue(null)
+    .calledWith({
+      project,
+      package: a,
+      version: '1.1.0',
+      formatter: 'prettier',
+    })
+    .mockResolvedValue({ Added: ['Add foo', 'Add bar'], Fixed: ['Fix baz'] })
+    .calledWith({
+      project,
+      package: b,
+      version: '0.2.0',
+      formatter: 'prettier',
+    })
+    .mockResolvedValue({});
+
+  return { project, releasePlan };
+}
+
+describe('release-notes', () => {
+  describe('buildReleaseNotes', () => {
+    it('collects the new changelog section of each released package that has a changelog, along with its version transition and compare URL', async () => {
+      const { project, releasePlan } = buildProjectWithReleasePlan();
+
+      expect(
+        await buildReleaseNotes({
+          project,
+          releasePlan,
+          formatter: 'prettier',
+        }),
+      ).toStrictEqual({
+        releaseVersion: '2.0.0',
+        packages: [
+          {
+            name: 'a',
+            previousVersion: '1.0.0',
+            newVersion: '1.1.0',
+            compareUrl:
+              'https://github.com/example-org/example-repo/compare/a@1.0.0...a@1.1.0',
+            changes: { Added: ['Add foo', 'Add bar'], Fixed: ['Fix baz'] },
+          },
+          {
+            name: 'b',
+            previousVersion: '0.1.0',
+            newVersion: '0.2.0',
+            compareUrl: null,
+            changes: {},
+          },
+        ],
+      });
+    });
+  });
+
+  describe('formatReleaseNotes', () => {
+    it('lists the changes for each package, grouped by category, under the release version', () => {
+      expect(
+        formatReleaseNotes({
+          releaseVersion: '2.0.0',
+          packages: [
+            {
+              name: 'a',
+              previousVersion: '1.0.0',
+              newVersion: '1.1.0',
+              compareUrl: 'https://repo.url/compare/a@1.0.0...a@1.1.0',
+              changes: { Added: ['Add foo', 'Add bar'], Fixed: ['Fix baz'] },
+            },
+            {
+              name: 'b',
+              previousVersion: '0.1.0',
+              newVersion: '0.2.0',
+              compareUrl: null,
+              changes: {},
+            },
+          ],
+        }),
+      ).toBe(
+        `
+# Release 2.0.0
+
+## a (1.0.0 -> 1.1.0)
+
+[Compare changes](https://repo.url/compare/a@1.0.0...a@1.1.0)
+
+### Added
+
+- Add foo
+- Add bar
+
+### Fixed
+
+- Fix baz
+
+## b (0.1.0 -> 0.2.0)
+
+No changes are listed for this release.
+`.trimStart(),
+      );
+    });
+  });
+
+  describe('writeReleaseNotes', () => {
+    const releaseNotes = {
+      releaseVersion: '2.0.0',
+      packages: [
+        {
+          name: 'a',
+          previousVersion: '1.0.0',
+          newVersion: '1.1.0',
+          compareUrl: null,
+          changes: { Added: ['Add foo'] },
+        },
+      ],
+    };
+
+    it('writes the release notes to the given file and says where they are', async () => {
+      await withSandbox(async (sandbox) => {
+        const releaseNotesPath = path.join(
+          sandbox.directoryPath,
+          'RELEASE_NOTES.md',
+        );
+        const stdout = new MockWritable();
+
+        await writeReleaseNotes({
+          releaseNotes,
+          releaseNotesPath,
+          stdout,
+        });
+
+        expect(await fs.promises.readFile(releaseNotesPath, 'utf8')).toBe(
+          formatReleaseNotes(releaseNotes),
+        );
+        expect(stdout.data()).toStrictEqual([
+          `The release notes have been written to the following file:\n\n${releaseNotesPath}\n`,
+        ]);
+      });
+    });
+
+    it('prints the release notes if the path is "-"', async () => {
+      const stdout = new MockWritable();
+
+      await writeReleaseNotes({
+        releaseNotes,
+        releaseNotesPath: '-',
+        stdout,
+      });
+
+      expect(stdout.data()).toStrictEqual([formatReleaseNotes(releaseNotes)]);
+    });
+  });
+});
@@ -0,0 +1,171 @@
+import type { WriteStream } from 'fs';
+import { writeFile } from './fs.js';
+import { Formatter } from './initial-parameters.js';
+import {
+  getReleaseTagPrefixes,
+  readReleasedChangelogChanges,
+} from './package.js';
+import { Project } from './project.js';
+import { ReleasePlan } from './release-plan.js';
+
+/**
+ * The value given in place of a path to the release notes in order to print
+ * them to standard out.
+ */
+export const STDOUT_RELEASE_NOTES_PATH = '-';
+
+/**
+ * The notes for a package that has been released.
+ *
+ * @property name - The name of the package.
+ * @property previousVersion - The version of the package before the release.
+ * @property newVersion - The version of the package after the release.
+ * @property compareUrl - The URL of the page that compares the latest release
+ * of the package with the new release, or null if the package has not been
+ * released before.
+ * @property changes - The descriptions of the changes in the new section of
+ * the changelog of the package, grouped by category.
+ */
+export type PackageReleaseNotes = {
+  name: string;
+  previousVersion: string;
+  newVersion: string;
+  compareUrl: string | null;
+  changes: Record<string, string[]>;
+};
+
+/**
+ * The notes for a release, collected from the changelogs of the packages that
+ * were released.
+ *
+ * @property releaseVersion - The version of the release.
+ * @property packages - The notes for each released package which has a
+ * changelog.
+ */
+export type ReleaseNotes = {
+  releaseVersion: string;
+  packages: PackageReleaseNotes[];
+};
+
+/**
+ * Collects the sections that were added to the changelogs of the packages in
+ * the given release plan once it has been executed.
+ *
+ * @param args - The arguments.
+ * @param args.project - Information about the project.
+ * @param args.releasePlan - The release plan that has been executed.
+ * @param args.formatter - The formatter to use for formatting changelogs.
+ * @returns The release notes.
+ */
+export async function buildReleaseNotes({
+  project,
+  releasePlan,
+  formatter,
+}: {
+  project: Pick<
+    Project,
+    'directoryPath' | 'repositoryUrl' | 'rootPackage' | 'configuration'
+  >;
+  releasePlan: ReleasePlan;
+  formatter: Formatter;
+}): Promise<ReleaseNotes> {
+  const packages = await Promise.all(
+    releasePlan.packages.map(
+      async ({
+        package: pkg,
+        newVersion,
+      }): Promise<PackageReleaseNotes | null> => {
+        const changes = await readReleasedChangelogChanges({
+          project,
+          package: pkg,
+          version: newVersion,
+          formatter,
+        });
+
+        if (changes === null) {
+          return null;
+        }
+
+        const newTagName = `${getReleaseTagPrefixes(project, pkg)[0]}${newVersion}`;
+
+        return {
+          name: pkg.validatedManifest.name,
+          previousVersion: pkg.validatedManifest.version.toString(),
+          newVersion,
+          compareUrl:
+            pkg.latestReleaseTagName === null
+              ? null
+              : `${project.repositoryUrl}/compare/${pkg.latestReleaseTagName}...${newTagName}`,
+          changes,
+        };
+      },
+    ),
+  );
+
+  return {
+    releaseVersion: releasePlan.newVersion,
+    packages: packages.filter(
+      (packageReleaseNotes): packageReleaseNotes is PackageReleaseNotes =>
+        packageReleaseNotes !== null,
+    ),
+  };
+}
+
+/**
+ * Formats release notes as Markdown, suitable for the description of a pull
+ * request for the release.
+ *
+ * @param releaseNotes - The release notes.
+ * @returns The Markdown.
+ */
+export function formatReleaseNotes(releaseNotes: ReleaseNotes): string {
+  return `${[
+    `# Release ${releaseNotes.releaseVersion}`,
+    ...releaseNotes.packages.flatMap((packageReleaseNotes) => {
+      const categories = Object.entries(packageReleaseNotes.changes);
+
+      return [
+        `## ${packageReleaseNotes.name} (${packageReleaseNotes.previousVersion} -> ${packageReleaseNotes.newVersion})`,
+        ...(packageReleaseNotes.compareUrl === null
+          ? []
+          : [`[Compare changes](${packageReleaseNotes.compareUrl})`]),
+        ...(categories.length === 0
+          ? ['No changes are listed for this release.']
+          : categories.flatMap(([category, descriptions]) => [
+              `### ${category}`,
+              descriptions.map((description) => `- ${description}`).join('\n'),
+            ])),
+      ];
+    }),
+  ].join('\n\n')}\n`;
+}
+
+/**
+ * Writes the given release notes to the given file, or prints them.
+ *
+ * @param args - The arguments.
+ * @param args.releaseNotes - The release notes.
+ * @param args.releaseNotesPath - The path to which to write the release notes,
+ * or "-" to print them to standard out.
+ * @param args.stdout - A stream that can be used to write to standard out.
+ */
+export async function writeReleaseNotes({
+  releaseNotes,
+  releaseNotesPath,
+  stdout,
+}: {
+  releaseNotes: ReleaseNotes;
+  releaseNotesPath: string;
+  stdout: Pick<WriteStream, 'write'>;
+}): Promise<void> {
+  const formattedReleaseNotes = formatReleaseNotes(releaseNotes);
+
+  if (releaseNotesPath === STDOUT_RELEASE_NOTES_PATH) {
+    stdout.write(formattedReleaseNotes);
+  } else {
+    await writeFile(releaseNotesPath, formattedReleaseNotes);
+    stdout.write(
+      `The release notes have been written to the following file:\n\n${releaseNotesPath}\n`,
+    );
+  }
+}
@@ -0,0 +1,168 @@
+import fs from 'fs';
+import path from 'path';
+import { withSandbox } from '../tests/helpers.js';
+import { buildMockPackage, buildMockProject } from '../tests/unit/helpers.js';
+import {
+  readReleasePlanFile,
+  serializeReleasePlan,
+  writeReleasePlanFile,
+} from './release-plan-file.js';
+
+/**
+ * Builds a monorepo with a root package and two workspace packages for use in
+ * tests.
+ *
+ * @param args - The arguments.
+ * @param args.versionOfA - The current version of workspace package "a".
+ * @returns The mock project.
+ */
+function buildProject({ versionOfA = '1.0.0' } = {}) {
+  return buildMockProject({
+    directoryPath: '/path/to/project',
+    isMonorepo: true,
+    rootPackage: buildMockPackage('root', '1.0.0', {
+      directoryPath: '/path/to/project',
+    }),
+    workspacePackages: {
+      a: buildMockPackage('a', versionOfA, {
+        directoryPath: '/path/to/project/packages/a',
+      }),
+      b: buildMockPackage('b', '0.1.0', {
+        directoryPath: '/path/to/project/packages/b',
+      }),
+    },
+  });
+}
+
+describe('release-plan-file', () => {
+  describe('serializeReleasePlan', () => {
+    it('records the root version along with the name, manifest path, and old and new versions of each package', () => {
+      const project = buildProject();
+
+      expect(
+        serializeReleasePlan(project, {
+          newVersion: '2.0.0',
+          packages: [
+            { package: project.rootPackage, newVersion: '2.0.0' },
+            { package: project.workspacePackages.a, newVersion: '1.1.0' },
+          ],
+        }),
+      ).toStrictEqual({
+        formatVersion: 1,
+        rootVersion: '2.0.0',
+        packages: [
+          {
+            name: 'root',
+            manifestPath: 'package.json',
+            oldVersion: '1.0.0',
+            newVersion: '2.0.0',
+          },
+          {
+            name: 'a',
+            manifestPath: 'packages/a/package.json',
+            oldVersion: '1.0.0',
+            newVersion: '1.1.0',
+          },
+        ],
+      });
+    });
+  });
+
+  describe('readReleasePlanFile', () => {
+    it('returns the release plan written by writeReleasePlanFile if the project still matches it', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildProject();
+        const releasePlanPath = path.join(sandbox.directoryPath, 'plan.json');
+        const releasePlan = {
+          newVersion: '2.0.0',
+          packages: [
+            { package: project.rootPackage, newVersion: '2.0.0' },
+            { package: project.workspacePackages.a, newVersion: '1.1.0' },
+          ],
+        };
+
+        await writeReleasePlanFile(releasePlanPath, project, releasePlan);
+
+        expect(
+          await readReleasePlanFile(releasePlanPath, project),
+        ).toStrictEqual(releasePlan);
+      });
+    });
+
+    it.each([
+      ['is not valid JSON', 'not json'],
+      ['is not an object', '[]'],
+      [
+        'has a package with an invalid new version',
+        '{"formatVersion":1,"rootVersion":"2.0.0","packages":[{"name":"a","manifestPath":"packages/a/package.json","oldVersion":"1.0.0","newVersion":"foo"}]}',
+      ],
+    ])('throws if the release plan %s', async (_description, content) => {
+      await withSandbox(async (sandbox) => {
+        const releasePlanPath = path.join(sandbox.directoryPath, 'plan.json');
+        await fs.promises.writeFile(releasePlanPath, content);
+
+        await expect(
+          readReleasePlanFile(releasePlanPath, buildProject()),
+        ).rejects.toThrow(
+          `The release plan at '${releasePlanPath}' is not in the expected format.`,
+        );
+      });
+    });
+
+    it('throws if the release plan uses a format version that is not supported', async () => {
+      await withSandbox(async (sandbox) => {
+        const releasePlanPath = path.join(sandbox.directoryPath, 'plan.json');
+        await fs.promises.writeFile(
+          releasePlanPath,
+          JSON.stringify({
+            formatVersion: 2,
+            rootVersion: '2.0.0',
+            packages: [],
+          }),
+        );
+
+        await expect(
+          readReleasePlanFile(releasePlanPath, buildProject()),
+        ).rejects.toThrow(
+          `The release plan at '${releasePlanPath}' uses format version 2, but this tool only supports format version 1.`,
+        );
+      });
+    });
+
+    it('throws, listing every problem, if the project no longer matches the release plan', async () => {
+      await withSandbox(async (sandbox) => {
+        const releasePlanPath = path.join(sandbox.directoryPath, 'plan.json');
+        await fs.promises.writeFile(
+          releasePlanPath,
+          JSON.stringify({
+            formatVersion: 1,
+            rootVersion: '2.0.0',
+            packages: [
+              {
+                name: 'a',
+                manifestPath: 'a/package.json',
+                oldVersion: '1.0.0',
+                newVersion: '1.1.0',
+              },
+              {
+                name: 'c',
+                manifestPath: 'packages/c/package.json',
+                oldVersion: '1.0.0',
+                newVersion: '2.0.0',
+              },
+            ],
+          }),
+        );
+
+        await expect(
+          readReleasePlanFile(
+            releasePlanPath,
+            buildProject({ versionOfA: '1.1.0' }),
+          ),
+        ).rejects.toThrow(
+          `The project no longer matches the release plan at '${releasePlanPath}':\n\n- The manifest of "a" was at 'a/package.json', but is now at 'packages/a/package.json'.\n- "a" was at version 1.0.0, but is now at version 1.1.0.\n- The package "c" is no longer in the project.\n- The root package "root" is not in the release plan.\n\nPlease make a new release plan.`,
+        );
+      });
+    });
+  });
+});
@@ -0,0 +1,214 @@
+import path from 'path';
+import { readFile, writeFile } from './fs.js';
+import { isObject } from './misc-utils.js';
+import { Package } from './package.js';
+import { Project } from './project.js';
+import { PackageReleasePlan, ReleasePlan } from './release-plan.js';
+import { isValidSemver } from './semver.js';
+
+/**
+ * The version of the format of release plan files written by this tool. This
+ * is increased whenever the format changes in a way that older versions of
+ * this tool would not understand.
+ */
+export const RELEASE_PLAN_FORMAT_VERSION = 1;
+
+/**
+ * How a package is recorded in a release plan file.
+ *
+ * @property name - The name of the package.
+ * @property manifestPath - The path to the manifest of the package, relative
+ * to the project directory.
+ * @property oldVersion - The version of the package when the plan was made.
+ * @property newVersion - The version that the package is to be released with.
+ */
+export type SerializedPackageReleasePlan = {
+  name: string;
+  manifestPath: string;
+  oldVersion: string;
+  newVersion: string;
+};
+
+/**
+ * How a release plan is recorded in a release plan file.
+ *
+ * @property formatVersion - The version of the format of the file (see
+ * `RELEASE_PLAN_FORMAT_VERSION`).
+ * @property rootVersion - The new version of the root package, which names the
+ * release.
+ * @property packages - The packages to release, starting with the root
+ * package.
+ */
+export type SerializedReleasePlan = {
+  formatVersion: typeof RELEASE_PLAN_FORMAT_VERSION;
+  rootVersion: string;
+  packages: SerializedPackageReleasePlan[];
+};
+
+/**
+ * Converts a release plan to a form that can be stored as JSON and applied
+ * later.
+ *
+ * @param project - Information about the project.
+ * @param releasePlan - The release plan.
+ * @returns The serialized release plan.
+ */
+export function serializeReleasePlan(
+  project: Pick<Project, 'directoryPath'>,
+  releasePlan: ReleasePlan,
+): SerializedReleasePlan {
+  return {
+    formatVersion: RELEASE_PLAN_FORMAT_VERSION,
+    rootVersion: releasePlan.newVersion,
+    packages: releasePlan.packages.map(({ package: pkg, newVersion }) => ({
+      name: pkg.validatedManifest.name,
+      manifestPath: path.relative(project.directoryPath, pkg.manifestPath),
+      oldVersion: pkg.validatedManifest.version.toString(),
+      newVersion,
+    })),
+  };
+}
+
+/**
+ * Writes a release plan to a file as JSON.
+ *
+ * @param releasePlanPath - The path to the file.
+ * @param project - Information about the project.
+ * @param releasePlan - The release plan.
+ */
+export async function writeReleasePlanFile(
+  releasePlanPath: string,
+  project: Pick<Project, 'directoryPath'>,
+  releasePlan: ReleasePlan,
+): Promise<void> {
+  await writeFile(
+    releasePlanPath,
+    `${JSON.stringify(serializeReleasePlan(project, releasePlan), null, 2)}\n`,
+  );
+}
+
+/**
+ * Checks whether the given value is a package recorded in a release plan file.
+ *
+ * @param value - The value to check.
+ * @returns Whether the value has the expected shape.
+ */
+function isSerializedPackageReleasePlan(
+  value: unknown,
+): value is SerializedPackageReleasePlan {
+  return (
+    isObject(value) &&
+    typeof value.name === 'string' &&
+    typeof value.manifestPath === 'string' &&
+    typeof value.oldVersion === 'string' &&
+    typeof value.newVersion === 'string' &&
+    isValidSemver(value.newVersion)
+  );
+}
+
+/**
+ * Reads a release plan file written by `writeReleasePlanFile`, checking that
+ * the project still matches the plan: that each package in the plan is still
+ * in the project, with its manifest where it was, and is still at the version
+ * it was at when the plan was made.
+ *
+ * @param releasePlanPath - The path to the file.
+ * @param project - Information about the project.
+ * @returns The release plan.
+ * @throws If the file is not a release plan in the expected format, or if the
+ * project no longer matches it.
+ */
+export async function readReleasePlanFile(
+  releasePlanPath: string,
+  project: Pick<Project, 'directoryPath' | 'rootPackage' | 'workspacePackages'>,
+): Promise<ReleasePlan> {
+  let serializedReleasePlan: unknown;
+
+  try {
+    serializedReleasePlan = JSON.parse(await readFile(releasePlanPath));
+  } catch {
+    serializedReleasePlan = null;
+  }
+
+  if (
+    !isObject(serializedReleasePlan) ||
+    typeof serializedReleasePlan.rootVersion !== 'string' ||
+    !Array.isArray(serializedReleasePlan.packages) ||
+    !serializedReleasePlan.packages.every(isSerializedPackageReleasePlan)
+  ) {
+    throw new Error(
+      `The release plan at '${releasePlanPath}' is not in the expected format.`,
+    );
+  }
+
+  if (serializedReleasePlan.formatVersion !== RELEASE_PLAN_FORMAT_VERSION) {
+    throw new Error(
+      `The release plan at '${releasePlanPath}' uses format version ${String(
+        serializedReleasePlan.formatVersion,
+      )}, but this tool only supports format version ${RELEASE_PLAN_FORMAT_VERSION}.`,
+    );
+  }
+
+  const rootPackageName = project.rootPackage.validatedManifest.name;
+  const findPackage = (name: string): Package | undefined =>
+    name === rootPackageName
+      ? project.rootPackage
+      : project.workspacePackages[name];
+  const problems = serializedReleasePlan.packages.flatMap(
+    ({ name, manifestPath, oldVersion }) => {
+      const pkg = findPackage(name);
+
+      if (pkg === undefined) {
+        return [`The package "${name}" is no longer in the project.`];
+      }
+
+      const currentManifestPath = path.relative(
+        project.directoryPath,
+        pkg.manifestPath,
+      );
+      const currentVersion = pkg.validatedManifest.version.toString();
+
+      return [
+        ...(currentManifestPath === manifestPath
+          ? []
+          : [
+              `The manifest of "${name}" was at '${manifestPath}', but is now at '${currentManifestPath}'.`,
+            ]),
+        ...(currentVersion === oldVersion
+          ? []
+          : [
+              `"${name}" was at version ${oldVersion}, but is now at version ${currentVersion}.`,
+            ]),
+      ];
+    },
+  );
+
+  if (
+    !serializedReleasePlan.packages.some(({ name }) => name === rootPackageName)
+  ) {
+    problems.push(
+      `The root package "${rootPackageName}" is not in the release plan.`,
+    );
+  }
+
+  if (problems.length > 0) {
+    throw new Error(
+      [
+        `The project no longer matches the release plan at '${releasePlanPath}':`,
+        problems.map((problem) => `- ${problem}`).join('\n'),
+        'Please make a new release plan.',
+      ].join('\n\n'),
+    );
+  }
+
+  return {
+    newVersion: serializedReleasePlan.rootVersion,
+    packages: serializedReleasePlan.packages.map(
+      ({ name, newVersion }): PackageReleasePlan => ({
+        // Typecast: We've just checked that every package is in the project.
+        package: findPackage(name) as Package,
+        newVersion,
+      }),
+    ),
+  };
+}
@@ -0,0 +1,177 @@
+import { when } from 'jest-when';
+import { buildMockPackage, buildMockProject } from '../tests/unit/helpers.js';
+import {
+  formatReleasePlanPreview,
+  previewReleasePlan,
+} from './release-plan-preview.js';
+import * as packageModule from './package.js';
+
+jest.mock('./package');
+
+describe('release-plan-preview', () => {
+  describe('previewReleasePlan', () => {
+    it('describes the new version and the unreleased changelog changes of each package in the release plan', async () => {
+      const rootPackage = buildMockPackage('root', '1.0.0', {
+        hasChangesSinceLatestRelease: true,
+      });
+      const a = buildMockPackage('a', '1.0.0', {
+        hasChangesSinceLatestRelease: true,
+      });
+      const b = buildMockPackage('b', '0.1.0', {
+        hasChangesSinceLatestRelease: false,
+      });
+      const project = buildMockProject({
+        isMonorepo: true,
+        rootPackage,
+        workspacePackages: { a, b },
+      });
+      when(jest.spyOn(packageModule, 'readUnreleasedChangelogChanges'))
+        .calledWith({
+          project,
+          package: rootPackage,
+          includingNewCommits: false,
+          formatter: 'prettier',
+        })
+        .mockResolvedValue(null)
+        .calledWith({
+          project,
+          package: a,
+          includingNewCommits: true,
+          formatter: 'prettier',
+        })
+        .mockResolvedValue({ Added: ['Add isNewFunction'] })
+        .calledWith({
+          project,
+          package: b,
+          includingNewCommits: false,
+          formatter: 'prettier',
+        })
+        .mockResolvedValue({});
+
+      const preview = await previewReleasePlan({
+        project,
+        releasePlan: {
+          newVersion: '2.0.0',
+          packages: [
+            { package: rootPackage, newVersion: '2.0.0' },
+            { package: a, newVersion: '1.1.0' },
+            { package: b, newVersion: '0.1.1' },
+          ],
+        },
+        branchName: 'release/2.0.0',
+        commitMessages: ['Initialize Release 2.0.0', 'Update Release 2.0.0'],
+        formatter: 'prettier',
+      });
+
+      expect(preview).toStrictEqual({
+        branchName: 'release/2.0.0',
+        commitMessages: ['Initialize Release 2.0.0', 'Update Release 2.0.0'],
+        packages: [
+          {
+            name: 'root',
+            currentVersion: '1.0.0',
+            newVersion: '2.0.0',
+            changelogChanges: null,
+          },
+          {
+            name: 'a',
+            currentVersion: '1.0.0',
+            newVersion: '1.1.0',
+            changelogChanges: { Added: ['Add isNewFunction'] },
+          },
+          {
+            name: 'b',
+            currentVersion: '0.1.0',
+            newVersion: '0.1.1',
+            changelogChanges: {},
+          },
+        ],
+      });
+    });
+
+    it('includes changes for new commits in the changelog of the root package of a polyrepo', async () => {
+      const rootPackage = buildMockPackage('root', '1.0.0', {
+        hasChangesSinceLatestRelease: true,
+      });
+      const project = buildMockProject({ isMonorepo: false, rootPackage });
+      const readUnreleasedChangelogChangesSpy = jest
+        .spyOn(packageModule, 'readUnreleasedChangelogChanges')
+        .mockResolvedValue({});
+
+      await previewReleasePlan({
+        project,
+        releasePlan: {
+          newVersion: '1.0.1',
+          packages: [{ package: rootPackage, newVersion: '1.0.1' }],
+        },
+        branchName: 'release/1.0.1',
+        commitMessages: ['Update Release 1.0.1'],
+        formatter: 'prettier',
+      });
+
+      expect(readUnreleasedChangelogChangesSpy).toHaveBeenCalledWith({
+        project,
+        package: rootPackage,
+        includingNewCommits: true,
+        formatter: 'prettier',
+      });
+    });
+  });
+
+  describe('formatReleasePlanPreview', () => {
+    it('lists the release branch, the version and changelog changes of each package, and the commits', () => {
+      const text = formatReleasePlanPreview({
+        branchName: 'release/2.0.0',
+        commitMessages: ['Initialize Release 2.0.0', 'Update Release 2.0.0'],
+        packages: [
+          {
+            name: 'root',
+            currentVersion: '1.0.0',
+            newVersion: '2.0.0',
+            changelogChanges: null,
+          },
+          {
+            name: 'a',
+            currentVersion: '1.0.0',
+            newVersion: '1.1.0',
+            changelogChanges: {
+              Added: ['Add isNewFunction'],
+              Fixed: ['Fix isOldFunction', 'Fix another function'],
+            },
+          },
+          {
+            name: 'b',
+            currentVersion: '0.1.0',
+            newVersion: '0.1.1',
+            changelogChanges: {},
+          },
+        ],
+      });
+
+      expect(text).toBe(
+        `
+Dry run: no changes have been made. The tool would:
+
+Create the branch: release/2.0.0
+
+Update the following packages:
+- root: 1.0.0 → 2.0.0
+  (no changelog)
+- a: 1.0.0 → 1.1.0
+  Changelog: moving from Unreleased to 1.1.0:
+    Added:
+      - Add isNewFunction
+    Fixed:
+      - Fix isOldFunction
+      - Fix another function
+- b: 0.1.0 → 0.1.1
+  Changelog: no changes to move to 0.1.1
+
+Make the following commits:
+- Initialize Release 2.0.0
+- Update Release 2.0.0
+`.trim(),
+      );
+    });
+  });
+});
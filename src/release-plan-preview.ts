@@ -0,0 +1,131 @@
+import { Formatter } from './initial-parameters.js';
+import { readUnreleasedChangelogChanges } from './package.js';
+import { Project } from './project.js';
+import { ReleasePlan } from './release-plan.js';
+
+/**
+ * A description of how a package would be updated for a release.
+ *
+ * @property name - The name of the package.
+ * @property currentVersion - The version of the package before the release.
+ * @property newVersion - The version of the package after the release.
+ * @property changelogChanges - The descriptions of the changes, grouped by
+ * category, that would be moved from the Unreleased section of the changelog
+ * into a section for the new version, or null if the package does not have a
+ * changelog.
+ */
+export type PackageReleasePlanPreview = {
+  name: string;
+  currentVersion: string;
+  newVersion: string;
+  changelogChanges: Record<string, string[]> | null;
+};
+
+/**
+ * A description of everything that the tool would do to prepare a release,
+ * without having done any of it.
+ *
+ * @property branchName - The name of the release branch.
+ * @property commitMessages - The messages of the commits that would be made.
+ * @property packages - How each package would be updated.
+ */
+export type ReleasePlanPreview = {
+  branchName: string;
+  commitMessages: string[];
+  packages: PackageReleasePlanPreview[];
+};
+
+/**
+ * Gathers information about how the given release plan would update the
+ * project, without writing anything to the project.
+ *
+ * @param args - The arguments.
+ * @param args.project - Information about the whole project (e.g., names of
+ * packages and where they can found).
+ * @param args.releasePlan - Compiled instructions on how exactly to update the
+ * project in order to prepare a new release.
+ * @param args.branchName - The name of the release branch.
+ * @param args.commitMessages - The messages of the commits that would be made.
+ * @param args.formatter - The formatter to use for formatting changelogs.
+ * @returns The preview of the release plan.
+ */
+export async function previewReleasePlan({
+  project,
+  releasePlan,
+  branchName,
+  commitMessages,
+  formatter,
+}: {
+  project: Project;
+  releasePlan: ReleasePlan;
+  branchName: string;
+  commitMessages: string[];
+  formatter: Formatter;
+}): Promise<ReleasePlanPreview> {
+  const packages = await Promise.all(
+    releasePlan.packages.map(async ({ package: pkg, newVersion }) => {
+      // The changelog of the root package of a monorepo is never populated
+      // with new commits, as it does not represent a published package.
+      const isChangelogPopulated =
+        pkg.hasChangesSinceLatestRelease &&
+        !(project.isMonorepo && pkg === project.rootPackage);
+      const changelogChanges = await readUnreleasedChangelogChanges({
+        project,
+        package: pkg,
+        includingNewCommits: isChangelogPopulated,
+        formatter,
+      });
+
+      return {
+        name: pkg.validatedManifest.name,
+        currentVersion: pkg.validatedManifest.version.toString(),
+        newVersion,
+        changelogChanges,
+      };
+    }),
+  );
+
+  return { branchName, commitMessages, packages };
+}
+
+/**
+ * Renders a preview of a release plan as human-readable text.
+ *
+ * @param preview - The preview of the release plan.
+ * @returns The text to show to the user.
+ */
+export function formatReleasePlanPreview(preview: ReleasePlanPreview): string {
+  const packageLines = preview.packages.flatMap(
+    ({ name, currentVersion, newVersion, changelogChanges }) => {
+      const lines = [`- ${name}: ${currentVersion} → ${newVersion}`];
+
+      if (changelogChanges === null) {
+        lines.push('  (no changelog)');
+      } else if (Object.keys(changelogChanges).length === 0) {
+        lines.push(`  Changelog: no changes to move to ${newVersion}`);
+      } else {
+        lines.push(
+          `  Changelog: moving from Unreleased to ${newVersion}:`,
+          ...Object.entries(changelogChanges).flatMap(
+            ([category, descriptions]) => [
+              `    ${category}:`,
+              ...descriptions.map((description) => `      - ${description}`),
+            ],
+          ),
+        );
+      }
+
+      return lines;
+    },
+  );
+
+  return [
+    'Dry run: no changes have been made. The tool would:',
+    `Create the branch: ${preview.branchName}`,
+    ['Update the following packages:', ...packageLines].join('\n'),
+    [
+      'Make the following commits:',
+      ...preview.commitMessages.map((message) => `- ${message}`),
+    ].join('\n'),
+  ].join('\n\n');
+}
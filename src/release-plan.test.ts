@@ -160,6 +160,43 @@ describe('release-plan-utils', () => {
         ],
       });
     });
+
+    it('names prerelease versions after the given prerelease identifier', async () => {
+      const project = buildMockProject({
+        rootPackage: buildMockPackage('root', '1.0.0'),
+        workspacePackages: {
+          a: buildMockPackage('a', '1.0.0'),
+          b: buildMockPackage('b', '2.0.0-rc.0'),
+        },
+      });
+      const releasePlan = await planRelease({
+        project,
+        releaseSpecificationPackages: {
+          a: IncrementableVersionParts.premajor,
+          b: IncrementableVersionParts.prerelease,
+        },
+        newReleaseVersion: '2.0.0',
+        prereleaseIdentifier: 'rc',
+      });
+
+      expect(releasePlan).toMatchObject({
+        newVersion: '2.0.0',
+        packages: [
+          {
+            package: project.rootPackage,
+            newVersion: '2.0.0',
+          },
+          {
+            package: project.workspacePackages.a,
+            newVersion: '2.0.0-rc.0',
+          },
+          {
+            package: project.workspacePackages.b,
+            newVersion: '2.0.0-rc.1',
+          },
+        ],
+      });
+    });
   });
 
   describe('executeReleasePlan', () => {
@@ -186,15 +223,81 @@ describe('release-plan-utils', () => {
       expect(updatePackageSpy).toHaveBeenNthCalledWith(1, {
         project,
         packageReleasePlan: releasePlan.packages[0],
+        dependencyRangeUpdates: [],
         formatter: 'prettier',
         stderr,
       });
       expect(updatePackageSpy).toHaveBeenNthCalledWith(2, {
         project,
         packageReleasePlan: releasePlan.packages[1],
+        dependencyRangeUpdates: [],
+        formatter: 'prettier',
+        stderr,
+      });
+    });
+
+    it('updates the ranges that released and unreleased workspace packages use to depend on released packages, returning the updates', async () => {
+      const a = buildMockPackage('a', '1.0.0');
+      const b = buildMockPackage('b', '1.0.0', {
+        validatedManifest: { dependencies: { a: '^1.0.0' } },
+      });
+      const c = buildMockPackage('c', '1.0.0', {
+        validatedManifest: { peerDependencies: { a: '~1.0.0' } },
+      });
+      const d = buildMockPackage('d', '1.0.0');
+      const project = buildMockProject({
+        rootPackage: buildMockPackage('root', '1.0.0'),
+        workspacePackages: { a, b, c, d },
+      });
+      const releasePlan = {
+        newVersion: '2.0.0',
+        packages: [
+          { package: project.rootPackage, newVersion: '2.0.0' },
+          { package: a, newVersion: '2.0.0' },
+          { package: b, newVersion: '1.0.1' },
+        ],
+      };
+      const stderr = fs.createWriteStream('/dev/null');
+      const updatePackageSpy = jest.spyOn(packageUtils, 'updatePackage');
+      const updatePackageDependencyRangesSpy = jest.spyOn(
+        packageUtils,
+        'updatePackageDependencyRanges',
+      );
+      const bUpdate = {
+        packageName: 'b',
+        dependencyName: 'a',
+        dependencyType: 'dependencies',
+        previousRange: '^1.0.0',
+        newRange: '^2.0.0',
+      };
+      const cUpdate = {
+        packageName: 'c',
+        dependencyName: 'a',
+        dependencyType: 'peerDependencies',
+        previousRange: '~1.0.0',
+        newRange: '~2.0.0',
+      };
+
+      const dependencyRangeUpdates = await executeReleasePlan(
+        project,
+        releasePlan,
+        'prettier',
+        stderr,
+      );
+
+      expect(dependencyRangeUpdates).toStrictEqual([bUpdate, cUpdate]);
+      expect(updatePackageSpy).toHaveBeenCalledWith({
+        project,
+        packageReleasePlan: releasePlan.packages[2],
+        dependencyRangeUpdates: [bUpdate],
         formatter: 'prettier',
         stderr,
       });
+      expect(updatePackageDependencyRangesSpy).toHaveBeenCalledTimes(1);
+      expect(updatePackageDependencyRangesSpy).toHaveBeenCalledWith({
+        package: c,
+        dependencyRangeUpdates: [cUpdate],
+      });
     });
   });
 });
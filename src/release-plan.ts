@@ -1,9 +1,20 @@
 import { WriteStream } from 'fs';
-import { SemVer } from 'semver';
+import { SemVer } from './semver.js';
 import { debug } from './misc-utils.js';
-import { Package, updatePackage } from './package.js';
+import {
+  DependencyRangeUpdate,
+  findDependencyRangeUpdates,
+} from './dependency-ranges.js';
+import {
+  Package,
+  updatePackage,
+  updatePackageDependencyRanges,
+} from './package.js';
 import { Project } from './project.js';
-import { ReleaseSpecification } from './release-specification.js';
+import {
+  incrementVersion,
+  ReleaseSpecification,
+} from './release-specification.js';
 import { Formatter } from './initial-parameters.js';
 
 /**
@@ -51,16 +62,20 @@ export type PackageReleasePlan = {
  * @param args.releaseSpecificationPackages - A parsed version of the release spec
  * entered by the user.
  * @param args.newReleaseVersion - The new release version.
+ * @param args.prereleaseIdentifier - The identifier that names a prerelease
+ * version (e.g. "rc"), used for packages which are bumped to a prerelease.
  * @returns A promise for information about the new release.
  */
 export async function planRelease({
   project,
   releaseSpecificationPackages,
   newReleaseVersion,
+  prereleaseIdentifier = null,
 }: {
   project: Project;
   releaseSpecificationPackages: ReleaseSpecification['packages'];
   newReleaseVersion: string;
+  prereleaseIdentifier?: string | null;
 }): Promise<ReleasePlan> {
   const rootReleasePlan: PackageReleasePlan = {
     package: project.rootPackage,
@@ -76,7 +91,11 @@ export async function planRelease({
     const newVersion =
       versionSpecifier instanceof SemVer
         ? versionSpecifier
-        : new SemVer(currentVersion.toString()).inc(versionSpecifier);
+        : incrementVersion(
+            currentVersion,
+            versionSpecifier,
+            prereleaseIdentifier,
+          );
 
     return {
       package: pkg,
@@ -92,6 +111,9 @@ export async function planRelease({
 
 /**
  * Bumps versions of packages within the monorepo according to the release plan.
+ * Also updates the ranges that workspace packages (whether or not they are
+ * being released) use to depend on the released packages, so that they refer
+ * to the new versions.
  *
  * @param project - Information about the whole project (e.g., names of packages
  * and where they can found).
@@ -99,24 +121,54 @@ export async function planRelease({
  * project in order to prepare a new release.
  * @param formatter - The formatter to use for formatting the changelog.
  * @param stderr - A stream that can be used to write to standard error.
+ * @returns The changes made to dependency ranges.
  */
 export async function executeReleasePlan(
   project: Project,
   releasePlan: ReleasePlan,
   formatter: Formatter,
   stderr: Pick<WriteStream, 'write'>,
-) {
-  await Promise.all(
-    releasePlan.packages.map(async (workspaceReleasePlan) => {
+): Promise<DependencyRangeUpdate[]> {
+  const dependencyRangeUpdates = findDependencyRangeUpdates(
+    project,
+    releasePlan,
+  );
+  const findDependencyRangeUpdatesForPackage = (pkg: Package) =>
+    dependencyRangeUpdates.filter(
+      ({ packageName }) => packageName === pkg.validatedManifest.name,
+    );
+  const releasedPackages = releasePlan.packages.map(({ package: pkg }) => pkg);
+  const unreleasedDependents = Object.values(project.workspacePackages).filter(
+    (pkg) =>
+      !releasedPackages.includes(pkg) &&
+      findDependencyRangeUpdatesForPackage(pkg).length > 0,
+  );
+
+  await Promise.all([
+    ...releasePlan.packages.map(async (workspaceReleasePlan) => {
       debug(
         `Updating package ${workspaceReleasePlan.package.validatedManifest.name}...`,
       );
       await updatePackage({
         project,
         packageReleasePlan: workspaceReleasePlan,
+        dependencyRangeUpdates: findDependencyRangeUpdatesForPackage(
+          workspaceReleasePlan.package,
+        ),
         formatter,
         stderr,
       });
     }),
-  );
+    ...unreleasedDependents.map(async (pkg) => {
+      debug(
+        `Updating dependency ranges of package ${pkg.validatedManifest.name}...`,
+      );
+      await updatePackageDependencyRanges({
+        package: pkg,
+        dependencyRangeUpdates: findDependencyRangeUpdatesForPackage(pkg),
+      });
+    }),
+  ]);
+
+  return dependencyRangeUpdates;
 }
@@ -0,0 +1,159 @@
+import { MockWritable } from 'stdio-mock';
+import { buildMockProject } from '../tests/unit/helpers.js';
+import {
+  buildReleasePullRequest,
+  openReleasePullRequest,
+  pushReleaseBranch,
+} from './release-pull-request.js';
+import * as repoModule from './repo.js';
+
+jest.mock('./repo');
+
+const releaseNotes = {
+  releaseVersion: '2.0.0',
+  packages: [
+    {
+      name: 'a',
+      previousVersion: '1.0.0',
+      newVersion: '1.1.0',
+      compareUrl: null,
+      changes: { Added: ['Add foo'] },
+    },
+  ],
+};
+
+describe('release-pull-request', () => {
+  describe('buildReleasePullRequest', () => {
+    it('titles the pull request after the release and describes it with the release notes', () => {
+      expect(buildReleasePullRequest(releaseNotes)).toStrictEqual({
+        title: 'Release 2.0.0',
+        body: `
+# Release 2.0.0
+
+## a (1.0.0 -> 1.1.0)
+
+### Added
+
+- Add foo
+`.trimStart(),
+      });
+    });
+  });
+
+  describe('pushReleaseBranch', () => {
+    it('pushes the current branch to origin if no remote is given and reports it', async () => {
+      const project = buildMockProject({
+        directoryPath: '/path/to/project',
+      });
+      const stdout = new MockWritable();
+      const reportEvent = jest.fn();
+      jest
+        .spyOn(repoModule, 'getCurrentBranchName')
+        .mockResolvedValue('release/2.0.0');
+      const pushBranchSpy = jest.spyOn(repoModule, 'pushBranch');
+
+      const branchName = await pushReleaseBranch({
+        project,
+        remote: null,
+        stdout,
+        reportEvent,
+      });
+
+      expect(branchName).toBe('release/2.0.0');
+      expect(pushBranchSpy).toHaveBeenCalledWith(
+        '/path/to/project',
+        'origin',
+        'release/2.0.0',
+      );
+      expect(stdout.data()).toStrictEqual([
+        'The release branch release/2.0.0 has been pushed to origin.\n',
+      ]);
+      expect(reportEvent).toHaveBeenCalledWith({
+        type: 'releaseBranchPushed',
+        branchName: 'release/2.0.0',
+        remote: 'origin',
+      });
+    });
+
+    it('pushes the current branch to the given remote and reports it', async () => {
+      const project = buildMockProject({
+        directoryPath: '/path/to/project',
+      });
+      const stdout = new MockWritable();
+      const reportEvent = jest.fn();
+      jest
+        .spyOn(repoModule, 'getCurrentBranchName')
+        .mockResolvedValue('release/2.0.0');
+      const pushBranchSpy = jest.spyOn(repoModule, 'pushBranch');
+
+      const branchName = await pushReleaseBranch({
+        project,
+        remote: 'upstream',
+        stdout,
+        reportEvent,
+      });
+
+      expect(branchName).toBe('release/2.0.0');
+      expect(pushBranchSpy).toHaveBeenCalledWith(
+        '/path/to/project',
+        'upstream',
+        'release/2.0.0',
+      );
+      expect(stdout.data()).toStrictEqual([
+        'The release branch release/2.0.0 has been pushed to upstream.\n',
+      ]);
+      expect(reportEvent).toHaveBeenCalledWith({
+        type: 'releaseBranchPushed',
+        branchName: 'release/2.0.0',
+        remote: 'upstream',
+      });
+    });
+  });
+
+  describe('openReleasePullRequest', () => {
+    it('opens a pull request from the current branch into the default branch and reports it', async () => {
+      const project = buildMockProject({
+        directoryPath: '/path/to/project',
+        repositoryUrl: 'https://github.com/example-org/example-repo',
+      });
+      const forgeClient = {
+        openPullRequest: jest.fn().mockResolvedValue({
+          number: 42,
+          url: 'https://github.com/example-org/example-repo/pull/42',
+        }),
+      };
+      const stdout = new MockWritable();
+      const reportEvent = jest.fn();
+      jest
+        .spyOn(repoModule, 'getCurrentBranchName')
+        .mockResolvedValue('release/2.0.0');
+
+      await openReleasePullRequest({
+        project,
+        forgeClient,
+        defaultBranch: 'develop',
+        releaseNotes,
+        labels: ['release', 'team-a'],
+        stdout,
+        reportEvent,
+      });
+
+      expect(forgeClient.openPullRequest).toHaveBeenCalledWith({
+        repositoryUrl: 'https://github.com/example-org/example-repo',
+        head: 'release/2.0.0',
+        base: 'develop',
+        title: 'Release 2.0.0',
+        body: buildReleasePullRequest(releaseNotes).body,
+        labels: ['release', 'team-a'],
+      });
+      expect(stdout.data()).toStrictEqual([
+        'A pull request for the release has been opened:\n\nhttps://github.com/example-org/example-repo/pull/42\n',
+      ]);
+      expect(reportEvent).toHaveBeenCalledWith({
+        type: 'pullRequestOpened',
+        number: 42,
+        url: 'https://github.com/example-org/example-repo/pull/42',
+      });
+    });
+  });
+});
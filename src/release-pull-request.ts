@@ -0,0 +1,124 @@
+import type { WriteStream } from 'fs';
+import { ForgeClient } from './forge-client.js';
+import { Project } from './project.js';
+import { formatReleaseNotes, ReleaseNotes } from './release-notes.js';
+import { getCurrentBranchName, pushBranch } from './repo.js';
+import { ReportWorkflowEvent } from './workflow-events.js';
+
+/**
+ * The remote to which the release branch is pushed unless another is given.
+ */
+export const DEFAULT_RELEASE_BRANCH_REMOTE = 'origin';
+
+/**
+ * The labels attached to the pull request for a release unless others are
+ * given.
+ */
+export const DEFAULT_PULL_REQUEST_LABELS = ['release'];
+
+/**
+ * Builds the title and description of the pull request for a release from the
+ * notes for the release, which list the new version of each released package
+ * along with the new section of its changelog.
+ *
+ * @param releaseNotes - The notes for the release.
+ * @returns The title and description of the pull request.
+ */
+export function buildReleasePullRequest(releaseNotes: ReleaseNotes): {
+  title: string;
+  body: string;
+} {
+  return {
+    title: `Release ${releaseNotes.releaseVersion}`,
+    body: formatReleaseNotes(releaseNotes),
+  };
+}
+
+/**
+ * Pushes the release branch, which must be checked out, to the remote.
+ *
+ * @param args - The arguments.
+ * @param args.project - Information about the project.
+ * @param args.remote - The name of the remote to which to push the release
+ * branch, or null to push it to "origin".
+ * @param args.stdout - A stream that can be used to write to standard out.
+ * @param args.reportEvent - A function which is called whenever something
+ * notable happens.
+ * @returns The name of the release branch.
+ */
+export async function pushReleaseBranch({
+  project,
+  remote,
+  stdout,
+  reportEvent,
+}: {
+  project: Pick<Project, 'directoryPath'>;
+  remote: string | null;
+  stdout: Pick<WriteStream, 'write'>;
+  reportEvent: ReportWorkflowEvent;
+}): Promise<string> {
+  const branchName = await getCurrentBranchName(project.directoryPath);
+  const pushRemote = remote ?? DEFAULT_RELEASE_BRANCH_REMOTE;
+  await pushBranch(project.directoryPath, pushRemote, branchName);
+  stdout.write(
+    `The release branch ${branchName} has been pushed to ${pushRemote}.\n`,
+  );
+  reportEvent({
+    type: 'releaseBranchPushed',
+    branchName,
+    remote: pushRemote,
+  });
+  return branchName;
+}
+
+/**
+ * Opens a pull request to merge the release branch, which must be checked out
+ * and pushed, into the default branch.
+ *
+ * @param args - The arguments.
+ * @param args.project - Information about the project.
+ * @param args.forgeClient - The client through which to open the pull request.
+ * @param args.defaultBranch - The name of the default branch in the repository.
+ * @param args.releaseNotes - The notes for the release, from which the title
+ * and description of the pull request are built.
+ * @param args.labels - The labels to attach to the pull request.
+ * @param args.stdout - A stream that can be used to write to standard out.
+ * @param args.reportEvent - A function which is called whenever something
+ * notable happens.
+ */
+export async function openReleasePullRequest({
+  project,
+  forgeClient,
+  defaultBranch,
+  releaseNotes,
+  labels,
+  stdout,
+  reportEvent,
+}: {
+  project: Pick<Project, 'directoryPath' | 'repositoryUrl'>;
+  forgeClient: ForgeClient;
+  defaultBranch: string;
+  releaseNotes: ReleaseNotes;
+  labels: string[];
+  stdout: Pick<WriteStream, 'write'>;
+  reportEvent: ReportWorkflowEvent;
+}): Promise<void> {
+  const branchName = await getCurrentBranchName(project.directoryPath);
+  const { title, body } = buildReleasePullRequest(releaseNotes);
+  const pullRequest = await forgeClient.openPullRequest({
+    repositoryUrl: project.repositoryUrl,
+    head: branchName,
+    base: defaultBranch,
+    title,
+    body,
+    labels,
+  });
+  stdout.write(
+    `A pull request for the release has been opened:\n\n${pullRequest.url}\n`,
+  );
+  reportEvent({
+    type: 'pullRequestOpened',
+    number: pullRequest.number,
+    url: pullRequest.url,
+  });
+}
@@ -1,24 +1,26 @@
 import fs from 'fs';
 import path from 'path';
-import { when } from 'jest-when';
 import { MockWritable } from 'stdio-mock';
 import YAML from 'yaml';
 import { SemVer } from 'semver';
 import { withSandbox } from '../tests/helpers.js';
 import { buildMockProject, buildMockPackage } from '../tests/unit/helpers.js';
 import {
+  addPropagatedPackagesToReleaseSpecification,
+  describeReleaseSpecificationIssue,
+  generateReleaseSpecificationTemplateForFixedMonorepo,
   generateReleaseSpecificationTemplateForMonorepo,
+  IncrementableVersionParts,
+  incrementVersion,
+  propagateMajorBumps,
+  ReleaseSpecificationIssue,
+  ReleaseSpecificationValidationError,
   waitForUserToEditReleaseSpecification,
+  validateAllPackageEntries,
+  validateFixedReleaseSpecification,
   validateReleaseSpecification,
 } from './release-specification.js';
-import * as miscUtils from './misc-utils.js';
-
-jest.mock('./misc-utils', () => {
-  return {
-    ...jest.requireActual('./misc-utils'),
-    runCommand: jest.fn(),
-  };
-});
+import * as editorModule from './editor.js';
 
 describe('release-specification', () => {
   describe('generateReleaseSpecificationTemplateForMonorepo', () => {
@@ -50,8 +52,8 @@ describe('release-specification', () => {
 # receive.
 #
 # By default, all packages which have changed since their latest release are
-# listed here. You can choose not to publish a package by removing it from this
-# list.
+# listed here, except for private packages, which are not published. You can
+# choose not to publish a package by removing it from this list.
 #
 # For each package you *do* want to release, you will need to specify how that
 # version should be changed depending on the impact of the changes that will go
@@ -67,6 +69,12 @@ describe('release-specification', () => {
 # - "major" (if you want to bump the major part of the package's version)
 # - "minor" (if you want to bump the minor part of the package's version)
 # - "patch" (if you want to bump the patch part of the package's version)
+# - "premajor", "preminor", or "prepatch" (if you want to release a prerelease
+#   of the next major, minor, or patch version of the package, e.g.
+#   "2.0.0-rc.0")
+# - "prerelease" (if you want to release the next prerelease of a package that
+#   is already at a prerelease version, e.g. going from "2.0.0-rc.0" to
+#   "2.0.0-rc.1")
 # - an exact version with major, minor, and patch parts (e.g. "1.2.3")
 #
 # When you're finished, save this file and close it. The tool will update the
@@ -80,6 +88,28 @@ packages:
       );
     });
 
+    it('leaves out private packages, even if they have been changed', async () => {
+      const project = buildMockProject({
+        rootPackage: buildMockPackage('monorepo'),
+        workspacePackages: {
+          a: buildMockPackage('a', {
+            hasChangesSinceLatestRelease: true,
+          }),
+          b: buildMockPackage('b', {
+            hasChangesSinceLatestRelease: true,
+            validatedManifest: { private: true },
+          }),
+        },
+      });
+
+      const template = await generateReleaseSpecificationTemplateForMonorepo({
+        project,
+        isEditorAvailable: true,
+      });
+
+      expect(template).toMatch(/\n\npackages:\n {2}a: null\n$/u);
+    });
+
     it('throws if no packages have been changed', async () => {
       const project = buildMockProject({
         rootPackage: buildMockPackage('monorepo'),
@@ -128,8 +158,8 @@ packages:
 # receive.
 #
 # By default, all packages which have changed since their latest release are
-# listed here. You can choose not to publish a package by removing it from this
-# list.
+# listed here, except for private packages, which are not published. You can
+# choose not to publish a package by removing it from this list.
 #
 # For each package you *do* want to release, you will need to specify how that
 # version should be changed depending on the impact of the changes that will go
@@ -145,6 +175,12 @@ packages:
 # - "major" (if you want to bump the major part of the package's version)
 # - "minor" (if you want to bump the minor part of the package's version)
 # - "patch" (if you want to bump the patch part of the package's version)
+# - "premajor", "preminor", or "prepatch" (if you want to release a prerelease
+#   of the next major, minor, or patch version of the package, e.g.
+#   "2.0.0-rc.0")
+# - "prerelease" (if you want to release the next prerelease of a package that
+#   is already at a prerelease version, e.g. going from "2.0.0-rc.0" to
+#   "2.0.0-rc.1")
 # - an exact version with major, minor, and patch parts (e.g. "1.2.3")
 #
 # When you're finished, save this file and then run create-release-branch again.
@@ -157,112 +193,196 @@ packages:
 `.trimStart(),
       );
     });
-  });
+    it('fills in suggested version specifiers, explaining each one, if given', async () => {
+      const project = buildMockProject({
+        rootPackage: buildMockPackage('monorepo'),
+        workspacePackages: {
+          a: buildMockPackage('a', {
+            hasChangesSinceLatestRelease: true,
+          }),
+          b: buildMockPackage('b', {
+            hasChangesSinceLatestRelease: true,
+          }),
+        },
+      });
 
-  describe('waitForUserToEditReleaseSpecification', () => {
-    it('waits for the given editor command to complete successfully', async () => {
-      const releaseSpecificationPath = '/path/to/release-spec';
-      const editor = {
-        path: '/path/to/editor',
-        args: ['arg1', 'arg2'],
-      };
-      when(jest.spyOn(miscUtils, 'runCommand'))
-        .calledWith(
-          '/path/to/editor',
-          ['arg1', 'arg2', releaseSpecificationPath],
-          {
-            stdio: 'inherit',
-            shell: true,
+      const template = await generateReleaseSpecificationTemplateForMonorepo({
+        project,
+        isEditorAvailable: true,
+        versionSuggestions: {
+          a: {
+            versionSpecifier: IncrementableVersionParts.minor,
+            reason: 'the changelog has "Added" entries',
           },
-        )
-        .mockResolvedValue();
+        },
+      });
 
-      expect(
-        await waitForUserToEditReleaseSpecification(
-          releaseSpecificationPath,
-          editor,
-        ),
-      ).toBeUndefined();
+      expect(template).toStrictEqual(
+        `
+# This file (called the "release spec") allows you to specify which packages you
+# want to include in this release along with the new versions they should
+# receive.
+#
+# By default, all packages which have changed since their latest release are
+# listed here, except for private packages, which are not published. You can
+# choose not to publish a package by removing it from this list.
+#
+# For each package you *do* want to release, you will need to specify how that
+# version should be changed depending on the impact of the changes that will go
+# into the release. To help you make this decision, all of the changes have been
+# automatically added to the changelog for the package. This has been done
+# in a new commit, so you can keep this file open, run \`git show\` in the
+# terminal, review the set of changes, then return to this file to specify the
+# version.
+#
+# A version specifier (the value that goes after each package in the list below)
+# can be one of the following:
+#
+# - "major" (if you want to bump the major part of the package's version)
+# - "minor" (if you want to bump the minor part of the package's version)
+# - "patch" (if you want to bump the patch part of the package's version)
+# - "premajor", "preminor", or "prepatch" (if you want to release a prerelease
+#   of the next major, minor, or patch version of the package, e.g.
+#   "2.0.0-rc.0")
+# - "prerelease" (if you want to release the next prerelease of a package that
+#   is already at a prerelease version, e.g. going from "2.0.0-rc.0" to
+#   "2.0.0-rc.1")
+# - an exact version with major, minor, and patch parts (e.g. "1.2.3")
+#
+# To save you some time, version specifiers have been suggested for some of the
+# packages based on the categories of the entries in their changelogs and the
+# Conventional Commits prefixes (such as "feat:" or "fix:") of the commits made
+# to them. The reason for each suggestion is given next to it. Please review
+# these suggestions carefully before accepting them.
+#
+# When you're finished, save this file and close it. The tool will update the
+# versions of the packages you've listed and will move the changelog entries to
+# a new section.
+
+packages:
+  a: minor # suggested because the changelog has "Added" entries
+  b: null
+`.trimStart(),
+      );
     });
+    it('lists the files that changed in each package above it, up to a limit, pointing them out in the instructions', async () => {
+      const project = buildMockProject({
+        rootPackage: buildMockPackage('monorepo'),
+        workspacePackages: {
+          a: buildMockPackage('a', {
+            hasChangesSinceLatestRelease: true,
+            changedFilePaths: ['src/index.ts', 'package.json'],
+          }),
+          b: buildMockPackage('b', {
+            hasChangesSinceLatestRelease: true,
+            changedFilePaths: [
+              'src/a.ts',
+              'src/b.ts',
+              'src/c.ts',
+              'src/d.ts',
+              'src/e.ts',
+              'src/f.ts',
+              'src/g.ts',
+            ],
+          }),
+          c: buildMockPackage('c', {
+            hasChangesSinceLatestRelease: true,
+          }),
+        },
+      });
 
-    it('prints a message to standard out, but then removes it, if the editor command succeeds', async () => {
-      const releaseSpecificationPath = '/path/to/release-spec';
-      const editor = { path: '/path/to/editor', args: [] };
-      const stdout = new MockWritable();
-      when(jest.spyOn(miscUtils, 'runCommand')).mockResolvedValue();
+      const template = await generateReleaseSpecificationTemplateForMonorepo({
+        project,
+        isEditorAvailable: true,
+      });
 
-      await waitForUserToEditReleaseSpecification(
-        releaseSpecificationPath,
-        editor,
-        stdout,
+      expect(template).toContain(
+        '# choose not to publish a package by removing it from this list. The files that\n# changed in each package are listed above it.\n',
       );
+      expect(template).toMatch(
+        /\n\npackages:\n {2}# changed: src\/index\.ts, package\.json\n {2}a: null\n {2}# changed: src\/a\.ts, src\/b\.ts, src\/c\.ts, src\/d\.ts, src\/e\.ts \(and 2 more\)\n {2}b: null\n {2}c: null\n$/u,
+      );
+    });
 
-      expect(stdout.data()).toStrictEqual([
-        'Waiting for the release spec to be edited...',
-        '\r\u001B[K',
-      ]);
+    it('does not point out the changed files in the instructions if none are listed above any package', async () => {
+      const project = buildMockProject({
+        rootPackage: buildMockPackage('monorepo'),
+        workspacePackages: {
+          a: buildMockPackage('a', {
+            hasChangesSinceLatestRelease: true,
+          }),
+        },
+      });
+
+      const template = await generateReleaseSpecificationTemplateForMonorepo({
+        project,
+        isEditorAvailable: true,
+      });
+
+      expect(template).not.toContain('# changed:');
+      expect(template).not.toContain('The files that');
+      expect(template).toContain(
+        '# choose not to publish a package by removing it from this list.\n#\n',
+      );
     });
+  });
 
-    it('still removes the message printed to standard out when the editor command fails', async () => {
-      const releaseSpecificationPath = '/path/to/release-spec';
-      const editor = {
-        path: '/path/to/editor',
-        args: ['arg1', 'arg2'],
-      };
-      const stdout = new MockWritable();
-      when(jest.spyOn(miscUtils, 'runCommand'))
-        .calledWith(
-          '/path/to/editor',
-          ['arg1', 'arg2', releaseSpecificationPath],
-          {
-            stdio: 'inherit',
-            shell: true,
-          },
-        )
-        .mockRejectedValue(new Error('oops'));
+  describe('incrementVersion', () => {
+    it('bumps the given part of the version', () => {
+      expect(
+        incrementVersion(new SemVer('1.2.3'), IncrementableVersionParts.minor),
+      ).toStrictEqual(new SemVer('1.3.0'));
+    });
 
-      try {
-        await waitForUserToEditReleaseSpecification(
-          releaseSpecificationPath,
-          editor,
-          stdout,
-        );
-      } catch {
-        // ignore any error that occurs
-      }
+    it('names a prerelease version after the given prerelease identifier', () => {
+      expect(
+        incrementVersion(
+          new SemVer('1.2.3'),
+          IncrementableVersionParts.premajor,
+          'rc',
+        ),
+      ).toStrictEqual(new SemVer('2.0.0-rc.0'));
+    });
 
-      expect(stdout.data()).toStrictEqual([
-        'Waiting for the release spec to be edited...',
-        '\r\u001B[K',
-      ]);
+    it('bumps the number of a version which is already a prerelease', () => {
+      expect(
+        incrementVersion(
+          new SemVer('2.0.0-rc.0'),
+          IncrementableVersionParts.prerelease,
+          'rc',
+        ),
+      ).toStrictEqual(new SemVer('2.0.0-rc.1'));
     });
 
-    it('throws if the given editor command fails', async () => {
-      const releaseSpecificationPath = '/path/to/release-spec';
-      const editor = {
-        path: '/path/to/editor',
-        args: ['arg1', 'arg2'],
-      };
-      const error = new Error('oops');
-      when(jest.spyOn(miscUtils, 'runCommand'))
-        .calledWith(
-          '/path/to/editor',
-          ['arg1', 'arg2', releaseSpecificationPath],
-          {
-            stdio: 'inherit',
-            shell: true,
-          },
-        )
-        .mockRejectedValue(error);
+    it('leaves out the prerelease identifier if none is given', () => {
+      expect(
+        incrementVersion(
+          new SemVer('1.2.3'),
+          IncrementableVersionParts.prepatch,
+        ),
+      ).toStrictEqual(new SemVer('1.2.4-0'));
+    });
+  });
 
-      await expect(
-        waitForUserToEditReleaseSpecification(releaseSpecificationPath, editor),
-      ).rejects.toThrow(
-        expect.objectContaining({
-          message:
-            'Encountered an error while waiting for the release spec to be edited.',
-          cause: error,
-        }),
+  describe('waitForUserToEditReleaseSpecification', () => {
+    it('waits for the release spec to be edited in the given editor', async () => {
+      const editor = { path: '/path/to/editor', args: [] };
+      const stdout = new MockWritable();
+      const waitForUserToEditFileSpy = jest
+        .spyOn(editorModule, 'waitForUserToEditFile')
+        .mockResolvedValue();
+
+      await waitForUserToEditReleaseSpecification(
+        '/path/to/release-spec',
+        editor,
+        stdout,
+      );
+
+      expect(waitForUserToEditFileSpy).toHaveBeenCalledWith(
+        '/path/to/release-spec',
+        editor,
+        'the release spec to be edited',
+        stdout,
       );
     });
   });
@@ -311,6 +431,52 @@ packages:
       });
     });
 
+    it('accepts version specifiers which bump packages to prerelease versions', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject({
+          workspacePackages: {
+            a: buildMockPackage('a'),
+            b: buildMockPackage('b'),
+            c: buildMockPackage('c'),
+            d: buildMockPackage('d'),
+            e: buildMockPackage('e'),
+          },
+        });
+        const releaseSpecificationPath = path.join(
+          sandbox.directoryPath,
+          'release-spec',
+        );
+        await fs.promises.writeFile(
+          releaseSpecificationPath,
+          YAML.stringify({
+            packages: {
+              a: 'premajor',
+              b: 'preminor',
+              c: 'prepatch',
+              d: 'prerelease',
+              e: '2.0.0-rc.1',
+            },
+          }),
+        );
+
+        const releaseSpecification = await validateReleaseSpecification(
+          project,
+          releaseSpecificationPath,
+        );
+
+        expect(releaseSpecification).toStrictEqual({
+          packages: {
+            a: 'premajor',
+            b: 'preminor',
+            c: 'prepatch',
+            d: 'prerelease',
+            e: new SemVer('2.0.0-rc.1'),
+          },
+          path: releaseSpecificationPath,
+        });
+      });
+    });
+
     it('removes packages from the release spec which have "null" as their version specifier', async () => {
       await withSandbox(async (sandbox) => {
         const project = buildMockProject({
@@ -389,6 +555,68 @@ packages:
       });
     });
 
+    it('validates the given contents instead of reading the release spec file, if provided', async () => {
+      const project = buildMockProject({
+        workspacePackages: {
+          a: buildMockPackage('a'),
+        },
+      });
+
+      const releaseSpecification = await validateReleaseSpecification(
+        project,
+        '-',
+        {
+          contents: JSON.stringify({ packages: { a: 'major' } }),
+          isGenerated: false,
+        },
+      );
+
+      expect(releaseSpecification).toStrictEqual({
+        packages: {
+          a: 'major',
+        },
+        path: '-',
+      });
+    });
+
+    it('asks the user to fix the release spec they provided, referring to the file, if the release spec was not generated', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject();
+        const releaseSpecificationPath = path.join(
+          sandbox.directoryPath,
+          'release-spec',
+        );
+        await fs.promises.writeFile(
+          releaseSpecificationPath,
+          YAML.stringify({ packages: { x: 'major' } }),
+        );
+
+        await expect(
+          validateReleaseSpecification(project, releaseSpecificationPath, {
+            isGenerated: false,
+          }),
+        ).rejects.toThrow(
+          new RegExp(
+            `\\n\\nOnce you've fixed the release spec, re-run this tool\\.\\n\\n${releaseSpecificationPath}$`,
+            'u',
+          ),
+        );
+      });
+    });
+
+    it('asks the user to fix the release spec they provided, without referring to a file, if the release spec was read from standard input', async () => {
+      const project = buildMockProject();
+
+      await expect(
+        validateReleaseSpecification(project, '-', {
+          contents: YAML.stringify({ packages: { x: 'major' } }),
+          isGenerated: false,
+        }),
+      ).rejects.toThrow(
+        /\* Line 2: "x" is not a package in the project\n {2}> 2 \| {3}x: major\n {6}\| {3}\^\n\nOnce you've fixed the release spec, re-run this tool\.$/u,
+      );
+    });
+
     it('throws if the release spec cannot be parsed as valid YAML', async () => {
       await withSandbox(async (sandbox) => {
         const project = buildMockProject();
@@ -481,7 +709,11 @@ packages:
             [
               '^Your release spec could not be processed due to the following issues:\n',
               '\\* Line 2: "foo" is not a package in the project',
+              '  > 2 \\|   foo: major',
+              '      \\|   \\^',
               '\\* Line 3: "bar" is not a package in the project',
+              '  > 3 \\|   bar: minor',
+              '      \\|   \\^',
             ].join('\n'),
             'u',
           ),
@@ -489,12 +721,11 @@ packages:
       });
     });
 
-    it('throws if any one of the values in the "packages" object is an invalid version specifier', async () => {
+    it('throws a ReleaseSpecificationValidationError which lists the kind, line number, and column number of each issue', async () => {
       await withSandbox(async (sandbox) => {
         const project = buildMockProject({
           workspacePackages: {
             a: buildMockPackage('a'),
-            b: buildMockPackage('b'),
           },
         });
         const releaseSpecificationPath = path.join(
@@ -505,34 +736,209 @@ packages:
           releaseSpecificationPath,
           YAML.stringify({
             packages: {
-              a: 'asdflksdaf',
-              b: '1.2...3.',
+              foo: 'major',
+              a: 'asdf',
             },
           }),
         );
 
-        await expect(
-          validateReleaseSpecification(project, releaseSpecificationPath),
-        ).rejects.toThrow(
-          new RegExp(
-            [
-              '^Your release spec could not be processed due to the following issues:\n',
-              '\\* Line 2: "asdflksdaf" is not a valid version specifier for package "a"',
-              '          \\(must be "major", "minor", or "patch"; or a version string with major, minor, and patch parts, such as "1\\.2\\.3"\\)',
-              '\\* Line 3: "1.2\\.\\.\\.3\\." is not a valid version specifier for package "b"',
-              '          \\(must be "major", "minor", or "patch"; or a version string with major, minor, and patch parts, such as "1\\.2\\.3"\\)',
-            ].join('\n'),
-            'u',
-          ),
+        const promise = validateReleaseSpecification(
+          project,
+          releaseSpecificationPath,
+        );
+
+        await expect(promise).rejects.toBeInstanceOf(
+          ReleaseSpecificationValidationError,
         );
+        await expect(promise).rejects.toMatchObject({
+          path: releaseSpecificationPath,
+          issues: [
+            {
+              kind: 'unknownPackage',
+              packageName: 'foo',
+              lineNumber: 2,
+              columnNumber: 3,
+            },
+            {
+              kind: 'invalidVersionSpecifier',
+              packageName: 'a',
+              versionSpecifier: 'asdf',
+              lineNumber: 3,
+              columnNumber: 6,
+            },
+          ],
+        });
       });
     });
 
-    it('throws if any one of the values in the "packages" object is a version string that matches the current version of the package', async () => {
-      await withSandbox(async (sandbox) => {
-        const project = buildMockProject({
-          workspacePackages: {
-            a: buildMockPackage('a', '1.2.3'),
+    it('locates each issue by where the offending package name or version specifier appears, regardless of comments, blank lines, or flow-style collections', async () => {
+      const project = buildMockProject({
+        workspacePackages: {
+          a: buildMockPackage('a', '1.0.0'),
+          b: buildMockPackage('b', '1.0.0'),
+        },
+      });
+      const contents = [
+        '# This is a comment',
+        '',
+        'packages:',
+        '  # Another comment',
+        '  a: asdf',
+        '',
+        '  ? foo',
+      ].join('\n');
+
+      await expect(
+        validateReleaseSpecification(project, '-', {
+          contents,
+          isGenerated: false,
+        }),
+      ).rejects.toMatchObject({
+        issues: [
+          {
+            kind: 'invalidVersionSpecifier',
+            packageName: 'a',
+            lineNumber: 5,
+            columnNumber: 6,
+          },
+          {
+            kind: 'unknownPackage',
+            packageName: 'foo',
+            lineNumber: 7,
+            columnNumber: 5,
+          },
+        ],
+      });
+      await expect(
+        validateReleaseSpecification(project, '-', {
+          contents: 'packages: { a: major,\n  b: 1.0.0 }',
+          isGenerated: false,
+        }),
+      ).rejects.toMatchObject({
+        issues: [
+          {
+            kind: 'versionNotGreater',
+            packageName: 'b',
+            lineNumber: 2,
+            columnNumber: 6,
+          },
+        ],
+      });
+    });
+
+    it('does not locate issues with packages if the "packages" object is not written out in the release spec', async () => {
+      const project = buildMockProject();
+
+      await expect(
+        validateReleaseSpecification(project, '-', {
+          contents: 'base: &base\n  x: major\npackages: *base',
+          isGenerated: false,
+        }),
+      ).rejects.toMatchObject({
+        message: expect.stringMatching(
+          /\n\* "x" is not a package in the project\n\n/u,
+        ),
+        issues: [{ kind: 'unknownPackage', packageName: 'x' }],
+      });
+    });
+
+    it('includes the missing packages and a fix which skips them in the issues of the ReleaseSpecificationValidationError', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject({
+          workspacePackages: {
+            a: buildMockPackage('a', {
+              hasChangesSinceLatestRelease: true,
+            }),
+            b: buildMockPackage('b', {
+              hasChangesSinceLatestRelease: true,
+              validatedManifest: {
+                peerDependencies: {
+                  a: '1.0.0',
+                },
+              },
+            }),
+          },
+        });
+        const releaseSpecificationPath = path.join(
+          sandbox.directoryPath,
+          'release-spec',
+        );
+        await fs.promises.writeFile(
+          releaseSpecificationPath,
+          YAML.stringify({
+            packages: {
+              a: 'major',
+            },
+          }),
+        );
+
+        await expect(
+          validateReleaseSpecification(project, releaseSpecificationPath),
+        ).rejects.toMatchObject({
+          issues: [
+            {
+              kind: 'missingPeerDependents',
+              packageName: 'a',
+              dependentNames: ['b'],
+              suggestedFix: {
+                packages: {
+                  b: 'intentionally-skip',
+                },
+              },
+            },
+          ],
+        });
+      });
+    });
+
+    it('throws if any one of the values in the "packages" object is an invalid version specifier', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject({
+          workspacePackages: {
+            a: buildMockPackage('a'),
+            b: buildMockPackage('b'),
+          },
+        });
+        const releaseSpecificationPath = path.join(
+          sandbox.directoryPath,
+          'release-spec',
+        );
+        await fs.promises.writeFile(
+          releaseSpecificationPath,
+          YAML.stringify({
+            packages: {
+              a: 'asdflksdaf',
+              b: '1.2...3.',
+            },
+          }),
+        );
+
+        await expect(
+          validateReleaseSpecification(project, releaseSpecificationPath),
+        ).rejects.toThrow(
+          new RegExp(
+            [
+              '^Your release spec could not be processed due to the following issues:\n',
+              '\\* Line 2: "asdflksdaf" is not a valid version specifier for package "a"',
+              '          \\(must be "major", "minor", "patch", "premajor", "preminor", "prepatch", or "prerelease"; or a version string with major, minor, and patch parts, such as "1\\.2\\.3"\\)',
+              '  > 2 \\|   a: asdflksdaf',
+              '      \\|      \\^',
+              '\\* Line 3: "1.2\\.\\.\\.3\\." is not a valid version specifier for package "b"',
+              '          \\(must be "major", "minor", "patch", "premajor", "preminor", "prepatch", or "prerelease"; or a version string with major, minor, and patch parts, such as "1\\.2\\.3"\\)',
+              '  > 3 \\|   b: 1\\.2\\.\\.\\.3\\.',
+              '      \\|      \\^',
+            ].join('\n'),
+            'u',
+          ),
+        );
+      });
+    });
+
+    it('throws if any one of the values in the "packages" object is a version string that matches the current version of the package', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject({
+          workspacePackages: {
+            a: buildMockPackage('a', '1.2.3'),
             b: buildMockPackage('b', '4.5.6'),
           },
         });
@@ -558,8 +964,12 @@ Your release spec could not be processed due to the following issues:
 
 * Line 2: "1.2.3" is not a valid version specifier for package "a"
           ("a" is already at version "1.2.3")
+  > 2 |   a: 1.2.3
+      |      ^
 * Line 3: "4.5.6" is not a valid version specifier for package "b"
           ("b" is already at version "4.5.6")
+  > 3 |   b: 4.5.6
+      |      ^
 `.trim(),
         );
       });
@@ -595,8 +1005,12 @@ Your release spec could not be processed due to the following issues:
 
 * Line 2: "1.2.2" is not a valid version specifier for package "a"
           ("a" is at a greater version "1.2.3")
+  > 2 |   a: 1.2.2
+      |      ^
 * Line 3: "4.5.5" is not a valid version specifier for package "b"
           ("b" is at a greater version "4.5.6")
+  > 3 |   b: 4.5.5
+      |      ^
 `.trim(),
         );
       });
@@ -657,6 +1071,67 @@ ${releaseSpecificationPath}
       });
     });
 
+    it('throws if there are any packages in the release with a major version bump using the word "premajor" or a literal prerelease version, but any of their direct dependents are not listed in the release', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject({
+          workspacePackages: {
+            a: buildMockPackage('a', '1.0.0'),
+            b: buildMockPackage('b', '1.0.0', {
+              validatedManifest: {
+                dependencies: {
+                  a: '1.0.0',
+                },
+              },
+            }),
+            c: buildMockPackage('c', '1.0.0'),
+            d: buildMockPackage('d', '1.0.0', {
+              validatedManifest: {
+                dependencies: {
+                  c: '1.0.0',
+                },
+              },
+            }),
+          },
+        });
+        const releaseSpecificationPath = path.join(
+          sandbox.directoryPath,
+          'release-spec',
+        );
+        await fs.promises.writeFile(
+          releaseSpecificationPath,
+          YAML.stringify({
+            packages: {
+              a: 'premajor',
+              c: '2.0.0-rc.0',
+            },
+          }),
+        );
+
+        const promise = validateReleaseSpecification(
+          project,
+          releaseSpecificationPath,
+        );
+
+        await expect(promise).rejects.toThrow(
+          ReleaseSpecificationValidationError,
+        );
+        await expect(promise).rejects.toMatchObject({
+          issues: [
+            expect.objectContaining({
+              kind: 'missingDependents',
+              packageName: 'a',
+              dependentNames: ['b'],
+            }),
+            expect.objectContaining({
+              kind: 'missingDependents',
+              packageName: 'c',
+              dependentNames: ['d'],
+            }),
+          ],
+        });
+      });
+    });
+
     it('throws if there are any packages in the release with a major version bump using the word "major", but any of their peer dependents are not listed in the release, even if they have no changes', async () => {
       await withSandbox(async (sandbox) => {
         const project = buildMockProject({
@@ -2071,5 +2546,797 @@ ${releaseSpecificationPath}
         });
       });
     });
+
+    it('adds the direct and peer dependents of packages released with a major version bump to the release with a patch bump, recursively, if propagate is true', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject({
+          workspacePackages: {
+            a: buildMockPackage('a', '1.0.0'),
+            b: buildMockPackage('b', '1.0.0', {
+              validatedManifest: {
+                dependencies: {
+                  a: '^1.0.0',
+                },
+              },
+            }),
+            c: buildMockPackage('c', '1.0.0', {
+              validatedManifest: {
+                peerDependencies: {
+                  b: '^1.0.0',
+                },
+              },
+            }),
+            d: buildMockPackage('d', '1.0.0', {
+              validatedManifest: {
+                dependencies: {
+                  a: '^1.0.0',
+                },
+              },
+            }),
+          },
+        });
+        const releaseSpecificationPath = path.join(
+          sandbox.directoryPath,
+          'release-spec',
+        );
+        await fs.promises.writeFile(
+          releaseSpecificationPath,
+          YAML.stringify({
+            packages: {
+              a: 'major',
+              d: 'intentionally-skip',
+            },
+          }),
+        );
+
+        const releaseSpecification = await validateReleaseSpecification(
+          project,
+          releaseSpecificationPath,
+          { propagate: true },
+        );
+
+        expect(releaseSpecification).toStrictEqual({
+          packages: {
+            a: IncrementableVersionParts.major,
+            b: IncrementableVersionParts.patch,
+            c: IncrementableVersionParts.patch,
+          },
+          path: releaseSpecificationPath,
+          propagatedPackages: {
+            b: ['a'],
+            c: ['b'],
+          },
+        });
+      });
+    });
+  });
+
+  describe('validateAllPackageEntries', () => {
+    it('does not locate issues if the locations of the package entries are not given', () => {
+      const project = buildMockProject();
+
+      expect(validateAllPackageEntries(project, { x: 'major' })).toStrictEqual([
+        { kind: 'unknownPackage', packageName: 'x' },
+      ]);
+    });
+    it('reports private packages which are listed with a version specifier, but not those which are skipped', () => {
+      const project = buildMockProject({
+        workspacePackages: {
+          a: buildMockPackage('a', { validatedManifest: { private: true } }),
+          b: buildMockPackage('b', { validatedManifest: { private: true } }),
+          c: buildMockPackage('c', { validatedManifest: { private: true } }),
+        },
+      });
+
+      expect(
+        validateAllPackageEntries(project, {
+          a: 'minor',
+          b: 'intentionally-skip',
+          c: null,
+        }),
+      ).toStrictEqual([{ kind: 'privatePackage', packageName: 'a' }]);
+    });
+
+    it('does not require private dependents or dependencies to be listed, as they cannot be released', () => {
+      const project = buildMockProject({
+        workspacePackages: {
+          a: buildMockPackage('a', '1.0.0', {
+            validatedManifest: { dependencies: { c: '^1.0.0' } },
+          }),
+          b: buildMockPackage('b', {
+            validatedManifest: {
+              private: true,
+              dependencies: { a: '^1.0.0' },
+              peerDependencies: { a: '^1.0.0' },
+            },
+          }),
+          c: buildMockPackage('c', {
+            hasChangesSinceLatestRelease: true,
+            validatedManifest: { private: true },
+          }),
+        },
+      });
+
+      expect(validateAllPackageEntries(project, { a: 'major' })).toStrictEqual(
+        [],
+      );
+    });
+  });
+
+  describe('propagateMajorBumps', () => {
+    it('lists every package in the release that each added dependent depends on', () => {
+      const project = buildMockProject({
+        workspacePackages: {
+          a: buildMockPackage('a', '1.0.0'),
+          b: buildMockPackage('b', '1.0.0', {
+            validatedManifest: {
+              dependencies: {
+                a: '^1.0.0',
+              },
+            },
+          }),
+          c: buildMockPackage('c', '1.0.0', {
+            validatedManifest: {
+              dependencies: {
+                a: '^1.0.0',
+              },
+              peerDependencies: {
+                a: '^1.0.0',
+                b: '^1.0.0',
+              },
+            },
+          }),
+        },
+      });
+
+      expect(propagateMajorBumps(project, { a: '2.0.0' })).toStrictEqual({
+        packages: {
+          a: '2.0.0',
+          b: 'patch',
+          c: 'patch',
+        },
+        propagatedPackages: {
+          b: ['a'],
+          c: ['a', 'b'],
+        },
+      });
+    });
+
+    it('does not add anything for packages which are not released with a major version bump or which are not in the project', () => {
+      const project = buildMockProject({
+        workspacePackages: {
+          a: buildMockPackage('a', '1.0.0'),
+          b: buildMockPackage('b', '1.0.0', {
+            validatedManifest: {
+              dependencies: {
+                a: '^1.0.0',
+              },
+            },
+          }),
+        },
+      });
+
+      expect(
+        propagateMajorBumps(project, { a: 'minor', x: 'major' }),
+      ).toStrictEqual({
+        packages: { a: 'minor', x: 'major' },
+        propagatedPackages: {},
+      });
+    });
+    it('does not add private dependents, as they cannot be released', () => {
+      const project = buildMockProject({
+        workspacePackages: {
+          a: buildMockPackage('a', '1.0.0'),
+          b: buildMockPackage('b', '1.0.0', {
+            validatedManifest: {
+              private: true,
+              dependencies: {
+                a: '^1.0.0',
+              },
+            },
+          }),
+        },
+      });
+
+      expect(propagateMajorBumps(project, { a: 'major' })).toStrictEqual({
+        packages: { a: 'major' },
+        propagatedPackages: {},
+      });
+    });
+  });
+
+  describe('addPropagatedPackagesToReleaseSpecification', () => {
+    it('adds each package to the release spec with a patch bump, noting which packages it depends on, and keeps existing comments', () => {
+      const releaseSpecificationContents = [
+        '# Some instructions',
+        '',
+        'packages:',
+        '  a: major # suggested because of something',
+        '  b: null',
+        '',
+      ].join('\n');
+
+      expect(
+        addPropagatedPackagesToReleaseSpecification(
+          releaseSpecificationContents,
+          { b: ['a'], c: ['a', 'b'] },
+        ),
+      ).toBe(
+        [
+          '# Some instructions',
+          '',
+          'packages:',
+          '  a: major # suggested because of something',
+          '  b: patch # added automatically because it depends on a',
+          '  c: patch # added automatically because it depends on a, b',
+          '',
+        ].join('\n'),
+      );
+    });
+  });
+
+  describe('describeReleaseSpecificationIssue', () => {
+    it('describes a package which is at a greater version than the one it would be released at', () => {
+      expect(
+        describeReleaseSpecificationIssue({
+          kind: 'versionNotGreater',
+          packageName: 'a',
+          version: '1.0.0',
+          currentVersion: '2.0.0',
+          isReleaseVersion: false,
+        }),
+      ).toStrictEqual([
+        '"1.0.0" is not a valid version specifier for package "a"',
+        '("a" is at a greater version "2.0.0")',
+      ]);
+    });
+
+    it('describes a private package', () => {
+      expect(
+        describeReleaseSpecificationIssue({
+          kind: 'privatePackage',
+          packageName: 'a',
+        }),
+      ).toStrictEqual([
+        '"a" is a private package, so it cannot be released',
+        '(private packages are not published, so please remove it from the release spec)',
+      ]);
+    });
+
+    it('throws given an unknown kind of issue', () => {
+      expect(() =>
+        describeReleaseSpecificationIssue({
+          kind: 'somethingElse',
+        } as unknown as ReleaseSpecificationIssue),
+      ).toThrow('Invalid branch reached');
+    });
+  });
+
+  describe('generateReleaseSpecificationTemplateForFixedMonorepo', () => {
+    it('returns a YAML-encoded string which has the release version and a list of all workspace packages in the project which have been changed since their latest releases', async () => {
+      const project = buildMockProject({
+        rootPackage: buildMockPackage('monorepo', '2.0.0'),
+        workspacePackages: {
+          a: buildMockPackage('a', {
+            hasChangesSinceLatestRelease: true,
+          }),
+          b: buildMockPackage('b', {
+            hasChangesSinceLatestRelease: false,
+          }),
+          c: buildMockPackage('c', {
+            hasChangesSinceLatestRelease: true,
+          }),
+        },
+      });
+
+      const template =
+        await generateReleaseSpecificationTemplateForFixedMonorepo({
+          project,
+          isEditorAvailable: true,
+        });
+
+      expect(template).toStrictEqual(
+        `
+# This file (called the "release spec") allows you to specify the version of
+# this release along with the packages you want to include in it. Because this
+# project uses fixed versions, the root package and every package you include
+# will receive the same version.
+#
+# By default, all packages which have changed since their latest release are
+# listed here, except for private packages, which are not published. You can
+# choose not to publish a package by removing it from this list.
+#
+# The version specifier (the value that goes after \`releaseVersion\` below) is
+# applied to the current version of the root package (2.0.0) and can be
+# one of the following:
+#
+# - "major" (if you want to bump the major part of the version)
+# - "minor" (if you want to bump the minor part of the version)
+# - "patch" (if you want to bump the patch part of the version)
+# - "premajor", "preminor", or "prepatch" (if you want to release a prerelease
+#   of the next major, minor, or patch version, e.g. "2.0.0-rc.0")
+# - "prerelease" (if you want to release the next prerelease of a version which
+#   is already a prerelease, e.g. going from "2.0.0-rc.0" to "2.0.0-rc.1")
+# - an exact version with major, minor, and patch parts (e.g. "1.2.3")
+#
+# When you're finished, save this file and close it. The tool will update the
+# versions of the root package and the packages you've listed and will move the
+# changelog entries to a new section.
+
+releaseVersion: null
+packages:
+  - a
+  - c
+`.trimStart(),
+      );
+    });
+
+    it('leaves out private packages, even if they have been changed', async () => {
+      const project = buildMockProject({
+        rootPackage: buildMockPackage('monorepo', '2.0.0'),
+        workspacePackages: {
+          a: buildMockPackage('a', {
+            hasChangesSinceLatestRelease: true,
+          }),
+          b: buildMockPackage('b', {
+            hasChangesSinceLatestRelease: true,
+            validatedManifest: { private: true },
+          }),
+        },
+      });
+
+      const template =
+        await generateReleaseSpecificationTemplateForFixedMonorepo({
+          project,
+          isEditorAvailable: true,
+        });
+
+      expect(template).toMatch(
+        /\n\nreleaseVersion: null\npackages:\n {2}- a\n$/u,
+      );
+    });
+
+    it('lists the files that changed in each package above it, pointing them out in the instructions', async () => {
+      const project = buildMockProject({
+        rootPackage: buildMockPackage('monorepo', '2.0.0'),
+        workspacePackages: {
+          a: buildMockPackage('a', {
+            hasChangesSinceLatestRelease: true,
+            changedFilePaths: ['src/index.ts'],
+          }),
+          b: buildMockPackage('b', {
+            hasChangesSinceLatestRelease: true,
+          }),
+        },
+      });
+
+      const template =
+        await generateReleaseSpecificationTemplateForFixedMonorepo({
+          project,
+          isEditorAvailable: true,
+        });
+
+      expect(template).toContain(
+        '# choose not to publish a package by removing it from this list. The files that\n# changed in each package are listed above it.\n',
+      );
+      expect(template).toMatch(
+        /\n\nreleaseVersion: null\npackages:\n {2}# changed: src\/index\.ts\n {2}- a\n {2}- b\n$/u,
+      );
+    });
+
+    it('throws if no packages have been changed', async () => {
+      const project = buildMockProject({
+        rootPackage: buildMockPackage('monorepo'),
+        workspacePackages: {
+          a: buildMockPackage('a', {
+            hasChangesSinceLatestRelease: false,
+          }),
+        },
+      });
+
+      await expect(
+        generateReleaseSpecificationTemplateForFixedMonorepo({
+          project,
+          isEditorAvailable: true,
+        }),
+      ).rejects.toThrow(
+        'Could not generate release specification: There are no packages that have changed since their latest release.',
+      );
+    });
+
+    it('adjusts the instructions slightly if an editor is not available', async () => {
+      const project = buildMockProject({
+        rootPackage: buildMockPackage('monorepo'),
+        workspacePackages: {
+          a: buildMockPackage('a', {
+            hasChangesSinceLatestRelease: true,
+          }),
+        },
+      });
+
+      const template =
+        await generateReleaseSpecificationTemplateForFixedMonorepo({
+          project,
+          isEditorAvailable: false,
+        });
+
+      expect(template).toContain(
+        `
+# When you're finished, save this file and then run create-release-branch again.
+# The tool will update the versions of the root package and the packages you've
+# listed and will move the changelog entries to a new section.
+`.trim(),
+      );
+    });
+  });
+
+  describe('validateFixedReleaseSpecification', () => {
+    it('reads the release spec file and returns the release version along with each listed package mapped to it', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject({
+          rootPackage: buildMockPackage('monorepo', '1.0.0'),
+          workspacePackages: {
+            a: buildMockPackage('a', '1.0.0'),
+            b: buildMockPackage('b', '0.5.0'),
+            c: buildMockPackage('c', '1.0.0'),
+          },
+        });
+        const releaseSpecificationPath = path.join(
+          sandbox.directoryPath,
+          'release-spec',
+        );
+        await fs.promises.writeFile(
+          releaseSpecificationPath,
+          YAML.stringify({ releaseVersion: 'minor', packages: ['a', 'b'] }),
+        );
+
+        const releaseSpecification = await validateFixedReleaseSpecification(
+          project,
+          releaseSpecificationPath,
+        );
+
+        expect(releaseSpecification).toStrictEqual({
+          releaseVersion: '1.1.0',
+          packages: {
+            a: new SemVer('1.1.0'),
+            b: new SemVer('1.1.0'),
+          },
+          path: releaseSpecificationPath,
+        });
+      });
+    });
+
+    it('uses the given prerelease identifier if the release version is bumped to a prerelease', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject({
+          rootPackage: buildMockPackage('monorepo', '1.0.0'),
+          workspacePackages: {
+            a: buildMockPackage('a', '1.0.0'),
+          },
+        });
+        const releaseSpecificationPath = path.join(
+          sandbox.directoryPath,
+          'release-spec',
+        );
+        await fs.promises.writeFile(
+          releaseSpecificationPath,
+          YAML.stringify({ releaseVersion: 'premajor', packages: ['a'] }),
+        );
+
+        const releaseSpecification = await validateFixedReleaseSpecification(
+          project,
+          releaseSpecificationPath,
+          { prereleaseIdentifier: 'rc' },
+        );
+
+        expect(releaseSpecification).toStrictEqual({
+          releaseVersion: '2.0.0-rc.0',
+          packages: {
+            a: new SemVer('2.0.0-rc.0'),
+          },
+          path: releaseSpecificationPath,
+        });
+      });
+    });
+
+    it('accepts an exact version as the release version', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject({
+          rootPackage: buildMockPackage('monorepo', '1.0.0'),
+          workspacePackages: {
+            a: buildMockPackage('a', '1.0.0'),
+          },
+        });
+        const releaseSpecificationPath = path.join(
+          sandbox.directoryPath,
+          'release-spec',
+        );
+        await fs.promises.writeFile(
+          releaseSpecificationPath,
+          YAML.stringify({ releaseVersion: '3.0.0', packages: ['a'] }),
+        );
+
+        const releaseSpecification = await validateFixedReleaseSpecification(
+          project,
+          releaseSpecificationPath,
+        );
+
+        expect(releaseSpecification).toStrictEqual({
+          releaseVersion: '3.0.0',
+          packages: {
+            a: new SemVer('3.0.0'),
+          },
+          path: releaseSpecificationPath,
+        });
+      });
+    });
+
+    it('throws if the release spec cannot be parsed as valid YAML', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject();
+        const releaseSpecificationPath = path.join(
+          sandbox.directoryPath,
+          'release-spec',
+        );
+        await fs.promises.writeFile(releaseSpecificationPath, 'foo: "bar');
+
+        await expect(
+          validateFixedReleaseSpecification(project, releaseSpecificationPath),
+        ).rejects.toThrow(
+          /^Your release spec does not appear to be valid YAML\.\n/u,
+        );
+      });
+    });
+
+    it('throws if the release spec does not hold an object', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject();
+        const releaseSpecificationPath = path.join(
+          sandbox.directoryPath,
+          'release-spec',
+        );
+        await fs.promises.writeFile(
+          releaseSpecificationPath,
+          YAML.stringify(12345),
+        );
+
+        await expect(
+          validateFixedReleaseSpecification(project, releaseSpecificationPath),
+        ).rejects.toThrow(
+          /^Your release spec could not be processed because it needs to be an object with `releaseVersion` and `packages` properties/u,
+        );
+      });
+    });
+
+    it('throws if the release spec does not have a "releaseVersion" property', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject();
+        const releaseSpecificationPath = path.join(
+          sandbox.directoryPath,
+          'release-spec',
+        );
+        await fs.promises.writeFile(
+          releaseSpecificationPath,
+          YAML.stringify({ packages: ['a'] }),
+        );
+
+        await expect(
+          validateFixedReleaseSpecification(project, releaseSpecificationPath),
+        ).rejects.toThrow(
+          /^Your release spec could not be processed because it needs to be an object with `releaseVersion` and `packages` properties/u,
+        );
+      });
+    });
+
+    it('throws if the "packages" property of the release spec is not an array', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject();
+        const releaseSpecificationPath = path.join(
+          sandbox.directoryPath,
+          'release-spec',
+        );
+        await fs.promises.writeFile(
+          releaseSpecificationPath,
+          YAML.stringify({ releaseVersion: 'major', packages: { a: 'major' } }),
+        );
+
+        await expect(
+          validateFixedReleaseSpecification(project, releaseSpecificationPath),
+        ).rejects.toThrow(
+          /^Your release spec could not be processed because it needs to be an object with `releaseVersion` and `packages` properties/u,
+        );
+      });
+    });
+
+    it('throws if the release version is not a valid version specifier', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject({
+          workspacePackages: {
+            a: buildMockPackage('a'),
+          },
+        });
+        const releaseSpecificationPath = path.join(
+          sandbox.directoryPath,
+          'release-spec',
+        );
+        await fs.promises.writeFile(
+          releaseSpecificationPath,
+          YAML.stringify({ releaseVersion: null, packages: ['a'] }),
+        );
+
+        await expect(
+          validateFixedReleaseSpecification(project, releaseSpecificationPath),
+        ).rejects.toThrow(
+          `
+Your release spec could not be processed due to the following issues:
+
+* Line 1: null is not a valid version specifier for the release
+          (must be "major", "minor", "patch", "premajor", "preminor", "prepatch", or "prerelease"; or a version string with major, minor, and patch parts, such as "1.2.3")
+  > 1 | releaseVersion: null
+      |                 ^
+`.trim(),
+        );
+      });
+    });
+
+    it('throws if the release version is a version string that is not greater than the current version of the root package', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject({
+          rootPackage: buildMockPackage('monorepo', '2.0.0'),
+          workspacePackages: {
+            a: buildMockPackage('a', '1.0.0'),
+          },
+        });
+        const releaseSpecificationPath = path.join(
+          sandbox.directoryPath,
+          'release-spec',
+        );
+        await fs.promises.writeFile(
+          releaseSpecificationPath,
+          YAML.stringify({ releaseVersion: '1.5.0', packages: ['a'] }),
+        );
+
+        await expect(
+          validateFixedReleaseSpecification(project, releaseSpecificationPath),
+        ).rejects.toThrow(
+          `
+Your release spec could not be processed due to the following issues:
+
+* Line 1: "1.5.0" is not a valid version specifier for the release
+          (the root package is already at version "2.0.0")
+  > 1 | releaseVersion: 1.5.0
+      |                 ^
+`.trim(),
+        );
+      });
+    });
+
+    it('throws if any of the packages do not match the names of any workspace packages', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject({
+          workspacePackages: {
+            a: buildMockPackage('a'),
+          },
+        });
+        const releaseSpecificationPath = path.join(
+          sandbox.directoryPath,
+          'release-spec',
+        );
+        await fs.promises.writeFile(
+          releaseSpecificationPath,
+          YAML.stringify({ releaseVersion: 'major', packages: ['a', 'x'] }),
+        );
+
+        await expect(
+          validateFixedReleaseSpecification(project, releaseSpecificationPath),
+        ).rejects.toThrow(
+          `
+Your release spec could not be processed due to the following issues:
+
+* Line 4: "x" is not a package in the project
+  > 4 |   - x
+      |     ^
+`.trim(),
+        );
+      });
+    });
+
+    it('throws if any of the packages are private', async () => {
+      const project = buildMockProject({
+        workspacePackages: {
+          a: buildMockPackage('a'),
+          b: buildMockPackage('b', { validatedManifest: { private: true } }),
+        },
+      });
+
+      await expect(
+        validateFixedReleaseSpecification(project, '-', {
+          contents: 'releaseVersion: major\npackages: [a, b]',
+          isGenerated: false,
+        }),
+      ).rejects.toMatchObject({
+        issues: [
+          {
+            kind: 'privatePackage',
+            packageName: 'b',
+            lineNumber: 2,
+            columnNumber: 15,
+          },
+        ],
+      });
+    });
+
+    it('locates each issue by where the offending package name appears, even if the packages are written in a flow-style collection', async () => {
+      const project = buildMockProject({
+        workspacePackages: {
+          a: buildMockPackage('a'),
+        },
+      });
+
+      await expect(
+        validateFixedReleaseSpecification(project, '-', {
+          contents: 'releaseVersion: major\npackages: [a, x]',
+          isGenerated: false,
+        }),
+      ).rejects.toMatchObject({
+        issues: [
+          {
+            kind: 'unknownPackage',
+            packageName: 'x',
+            lineNumber: 2,
+            columnNumber: 15,
+          },
+        ],
+      });
+    });
+
+    it('does not locate issues with packages if the "packages" array is not written out in the release spec', async () => {
+      const project = buildMockProject();
+
+      await expect(
+        validateFixedReleaseSpecification(project, '-', {
+          contents: 'base: &base [x]\nreleaseVersion: major\npackages: *base',
+          isGenerated: false,
+        }),
+      ).rejects.toMatchObject({
+        message: expect.stringMatching(
+          /\n\* "x" is not a package in the project\n\n/u,
+        ),
+        issues: [{ kind: 'unknownPackage', packageName: 'x' }],
+      });
+    });
+
+    it('throws if any of the packages are already at a version that is not less than the release version', async () => {
+      await withSandbox(async (sandbox) => {
+        const project = buildMockProject({
+          rootPackage: buildMockPackage('monorepo', '1.0.0'),
+          workspacePackages: {
+            a: buildMockPackage('a', '1.0.0'),
+            b: buildMockPackage('b', '1.1.0'),
+          },
+        });
+        const releaseSpecificationPath = path.join(
+          sandbox.directoryPath,
+          'release-spec',
+        );
+        await fs.promises.writeFile(
+          releaseSpecificationPath,
+          YAML.stringify({ releaseVersion: 'minor', packages: ['a', 'b'] }),
+        );
+
+        await expect(
+          validateFixedReleaseSpecification(project, releaseSpecificationPath),
+        ).rejects.toThrow(
+          `
+Your release spec could not be processed due to the following issues:
+
+* Line 4: "b" cannot be released at version "1.1.0"
+          ("b" is already at version "1.1.0", which is not less than the version of the release)
+  > 4 |   - b
+      |     ^
+`.trim(),
+        );
+      });
+    });
   });
 });
@@ -1,34 +1,72 @@
-import fs, { WriteStream } from 'fs';
-import YAML from 'yaml';
+import type { WriteStream } from 'fs';
+import YAML, {
+  isMap,
+  isNode,
+  isSeq,
+  LineCounter,
+  type ParsedNode,
+  type Scalar,
+  type YAMLMap,
+  type YAMLSeq,
+} from 'yaml';
 import { diff } from 'semver';
-import { Editor } from './editor.js';
+import { assertExhaustive } from '@metamask/utils';
+import { Editor, waitForUserToEditFile } from './editor.js';
 import { readFile } from './fs.js';
-import {
-  debug,
-  hasProperty,
-  wrapError,
-  isObject,
-  runCommand,
-} from './misc-utils.js';
+import { hasProperty, wrapError, isObject } from './misc-utils.js';
 import { Project } from './project.js';
 import { isValidSemver, semver, SemVer } from './semver.js';
 import { Package } from './package.js';
+import type { VersionSuggestion } from './version-suggestion.js';
 
 /**
  * The SemVer-compatible parts of a version string that can be bumped by this
  * tool.
+ *
+ * - `major`, `minor`, and `patch` bump the corresponding part of the version
+ * to produce a stable version.
+ * - `premajor`, `preminor`, and `prepatch` do the same, but produce the first
+ * prerelease of that version (e.g. "2.0.0-rc.0").
+ * - `prerelease` bumps the prerelease number of a version which is already a
+ * prerelease (e.g. from "2.0.0-rc.0" to "2.0.0-rc.1"), or produces the first
+ * prerelease of the next patch version otherwise.
  */
 export enum IncrementableVersionParts {
   major = 'major',
   minor = 'minor',
   patch = 'patch',
+  premajor = 'premajor',
+  preminor = 'preminor',
+  prepatch = 'prepatch',
+  prerelease = 'prerelease',
 }
 
 /**
  * Describes how to update the version for a package, either by bumping a part
  * of the version or by setting that version exactly.
  */
-type VersionSpecifier = IncrementableVersionParts | SemVer;
+export type VersionSpecifier = IncrementableVersionParts | SemVer;
+
+/**
+ * Bumps a part of the given version.
+ *
+ * @param version - The version to bump.
+ * @param versionPart - The part of the version to bump.
+ * @param prereleaseIdentifier - The identifier that names a prerelease version
+ * (e.g. "rc" in "2.0.0-rc.0"), or null to leave it out (e.g. "2.0.0-0"). Only
+ * used when bumping to a prerelease version.
+ * @returns The bumped version.
+ */
+export function incrementVersion(
+  version: SemVer,
+  versionPart: IncrementableVersionParts,
+  prereleaseIdentifier: string | null = null,
+): SemVer {
+  return new SemVer(version.toString()).inc(
+    versionPart,
+    prereleaseIdentifier ?? undefined,
+  );
+}
 
 /**
  * User-provided instructions for how to update this project in order to prepare
@@ -36,15 +74,263 @@ type VersionSpecifier = IncrementableVersionParts | SemVer;
  *
  * @property packages - A mapping of package names to version specifiers.
  * @property path - The path to the original release specification file.
+ * @property propagatedPackages - The packages that were added to the release
+ * automatically because they depend on packages being released with a major
+ * version bump, mapped to the names of those packages. Only present if bumps
+ * were propagated.
  */
 export type ReleaseSpecification = {
   packages: Record<string, VersionSpecifier>;
   path: string;
+  propagatedPackages?: Record<string, string[]>;
 };
 
+/**
+ * User-provided instructions for how to update a monorepo with fixed versions
+ * in order to prepare it for a new release.
+ *
+ * @property releaseVersion - The version that the root package and all of the
+ * listed packages will share.
+ * @property packages - A mapping of package names to the release version.
+ * @property path - The path to the original release specification file.
+ */
+export type FixedReleaseSpecification = ReleaseSpecification & {
+  releaseVersion: string;
+};
+
+/**
+ * Options for validating a release spec.
+ *
+ * @property contents - The contents of the release spec, if they have already
+ * been read (for instance, from standard input). If omitted, the release spec
+ * file is read.
+ * @property isGenerated - Whether the release spec was generated by this tool
+ * and will be retained for the user to fix if it is invalid, as opposed to
+ * being provided by the user. Defaults to true.
+ * @property prereleaseIdentifier - The identifier that names a prerelease
+ * version, used to determine the release version of a monorepo with fixed
+ * versions if it is bumped to a prerelease. Defaults to null.
+ * @property propagate - Whether to add the direct and peer dependents of
+ * packages being released with a major version bump to the release
+ * automatically (see `propagateMajorBumps`) rather than asking the user to add
+ * them. Only applies to a monorepo with independent versions. Defaults to
+ * false.
+ */
+export type ReleaseSpecificationValidationOptions = {
+  contents?: string;
+  isGenerated?: boolean;
+  prereleaseIdentifier?: string | null;
+  propagate?: boolean;
+};
+
+/**
+ * A position within a release spec.
+ *
+ * @property lineNumber - The line number, starting from 1.
+ * @property columnNumber - The column number, starting from 1.
+ */
+export type ReleaseSpecificationLocation = {
+  lineNumber: number;
+  columnNumber: number;
+};
+
+/**
+ * Where an entry in the `packages` of a release spec appears within the file.
+ *
+ * @property key - The position of the name of the package, if known.
+ * @property value - The position of the version specifier or directive, if
+ * known.
+ */
+export type PackageEntryLocation = {
+  key: ReleaseSpecificationLocation | undefined;
+  value: ReleaseSpecificationLocation | undefined;
+};
+
+/**
+ * A change to the `packages` of a release spec which would resolve a problem
+ * with it.
+ *
+ * @property packages - The entries to add to (or replace within) `packages`.
+ */
+export type ReleaseSpecificationFix = {
+  packages: Record<string, typeof INTENTIONALLY_SKIP_PACKAGE_DIRECTIVE>;
+};
+
+/**
+ * A problem found while validating a release spec.
+ *
+ * - `unknownPackage`: The release spec lists a package that does not exist.
+ * - `privatePackage`: The release spec includes a package which is marked as
+ * private, and so cannot be published.
+ * - `invalidVersionSpecifier`: The version specifier given for a package (or,
+ * if `packageName` is null, for the release as a whole) is not recognized.
+ * - `versionNotGreater`: The version that a package would be released at is
+ * not greater than its current version. If `isReleaseVersion` is true, the
+ * version is the one shared by the release as a whole (which, if `packageName`
+ * is null, is being compared to the version of the root package).
+ * - `missingDependents`: A package is being released with a major version
+ * bump, but packages which list it under `dependencies` are not.
+ * - `missingPeerDependents`: A package is being released with a major version
+ * bump, but packages which list it under `peerDependencies` are not.
+ * - `missingDependencies`: A package is being released, but its dependencies
+ * which have unreleased changes are not.
+ *
+ * Problems with missing packages come with a suggested fix, which is to
+ * explicitly skip the missing packages.
+ *
+ * @property lineNumber - The line in the release spec to which the problem
+ * pertains, if known.
+ * @property columnNumber - The column within that line at which the offending
+ * key or value starts, if known.
+ */
+export type ReleaseSpecificationIssue = Partial<ReleaseSpecificationLocation> &
+  (
+    | { kind: 'unknownPackage'; packageName: string }
+    | { kind: 'privatePackage'; packageName: string }
+    | {
+        kind: 'invalidVersionSpecifier';
+        packageName: string | null;
+        versionSpecifier: unknown;
+      }
+    | {
+        kind: 'versionNotGreater';
+        packageName: string | null;
+        version: string;
+        currentVersion: string;
+        isReleaseVersion: boolean;
+      }
+    | {
+        kind: 'missingDependents' | 'missingPeerDependents';
+        packageName: string;
+        dependentNames: string[];
+        suggestedFix: ReleaseSpecificationFix;
+      }
+    | {
+        kind: 'missingDependencies';
+        packageName: string;
+        dependencyNames: string[];
+        suggestedFix: ReleaseSpecificationFix;
+      }
+  );
+
+/**
+ * The categories of problems that can be found while validating a release
+ * spec.
+ */
+export type ReleaseSpecificationIssueKind = ReleaseSpecificationIssue['kind'];
+
+/**
+ * The error thrown when a release spec could be parsed but has problems that
+ * the user needs to fix.
+ */
+export class ReleaseSpecificationValidationError extends Error {
+  /**
+   * The path to the release spec file.
+   */
+  path: string;
+
+  /**
+   * The problems found.
+   */
+  issues: ReleaseSpecificationIssue[];
+
+  /**
+   * Constructs a ReleaseSpecificationValidationError.
+   *
+   * @param message - The message, which lists all of the problems.
+   * @param path - The path to the release spec file.
+   * @param issues - The problems found.
+   */
+  constructor(
+    message: string,
+    path: string,
+    issues: ReleaseSpecificationIssue[],
+  ) {
+    super(message);
+    this.name = 'ReleaseSpecificationValidationError';
+    this.path = path;
+    this.issues = issues;
+  }
+}
+
 const SKIP_PACKAGE_DIRECTIVE = null;
 const INTENTIONALLY_SKIP_PACKAGE_DIRECTIVE = 'intentionally-skip';
 
+/**
+ * Version bumps which indicate breaking changes, requiring the dependents of
+ * the bumped package to be released alongside it.
+ */
+const MAJOR_VERSION_BUMPS: (string | null)[] = ['major', 'premajor'];
+
+/**
+ * The value given in place of a path to the release spec in order to read the
+ * release spec from standard input.
+ */
+export const STDIN_RELEASE_SPECIFICATION_PATH = '-';
+
+/**
+ * Finds the workspace packages which have changed since their latest release
+ * and can be published, that is, which are not marked as private.
+ *
+ * @param workspacePackages - The workspace packages in the project.
+ * @returns The changed public packages.
+ */
+function findChangedPublicWorkspacePackages(
+  workspacePackages: Record<string, Package>,
+): Package[] {
+  return Object.values(workspacePackages).filter(
+    (pkg) => pkg.hasChangesSinceLatestRelease && !pkg.validatedManifest.private,
+  );
+}
+
+/**
+ * The maximum number of changed files to list for each package in a release
+ * spec template.
+ */
+const MAX_LISTED_CHANGED_FILE_PATHS = 5;
+
+/**
+ * Builds a comment which lists the files that have changed in the given
+ * package since its latest release, so that the user can see why the package
+ * is included in a release spec template.
+ *
+ * @param pkg - The package.
+ * @returns The comment, or null if no changed files were recorded for the
+ * package (e.g. because it has not been released before).
+ */
+function describeChangedFilePaths(pkg: Package): string | null {
+  const { changedFilePaths } = pkg;
+
+  if (changedFilePaths.length === 0) {
+    return null;
+  }
+
+  const listedFilePaths = changedFilePaths
+    .slice(0, MAX_LISTED_CHANGED_FILE_PATHS)
+    .join(', ');
+  const remainingCount =
+    changedFilePaths.length - MAX_LISTED_CHANGED_FILE_PATHS;
+
+  return remainingCount > 0
+    ? ` changed: ${listedFilePaths} (and ${remainingCount} more)`
+    : ` changed: ${listedFilePaths}`;
+}
+
+/**
+ * Builds the sentence in the instructions of a release spec that points to the
+ * files listed above each package, as long as there are any to point to.
+ *
+ * @param packages - The packages listed in the release spec.
+ * @returns The sentence, preceded by a space, or an empty string if none of
+ * the packages has any changed files listed.
+ */
+function buildChangedFilePathsInstructions(packages: Package[]): string {
+  return packages.some((pkg) => describeChangedFilePaths(pkg) !== null)
+    ? ` The files that
+# changed in each package are listed above it.`
+    : '';
+}
+
 /**
  * Generates a skeleton for a release specification, which describes how a
  * project should be updated.
@@ -53,15 +339,33 @@ const INTENTIONALLY_SKIP_PACKAGE_DIRECTIVE = 'intentionally-skip';
  * @param args.project - Information about the project.
  * @param args.isEditorAvailable - Whether or not an executable can be found on
  * the user's computer to edit the release spec once it is generated.
+ * @param args.versionSuggestions - Version specifiers to fill in for packages
+ * ahead of time, keyed by package name. Each one is accompanied by a comment
+ * explaining why it was suggested. Packages without a suggestion are left
+ * blank.
  * @returns The release specification template.
  */
 export async function generateReleaseSpecificationTemplateForMonorepo({
   project: { workspacePackages },
   isEditorAvailable,
+  versionSuggestions = {},
 }: {
   project: Project;
   isEditorAvailable: boolean;
+  versionSuggestions?: Record<string, VersionSuggestion>;
 }) {
+  const changedWorkspacePackages =
+    findChangedPublicWorkspacePackages(workspacePackages);
+
+  if (changedWorkspacePackages.length === 0) {
+    throw new Error(
+      'Could not generate release specification: There are no packages that have changed since their latest release.',
+    );
+  }
+
+  const changedFilePathsInstructions = buildChangedFilePathsInstructions(
+    changedWorkspacePackages,
+  );
   const afterEditingInstructions = isEditorAvailable
     ? `
 # When you're finished, save this file and close it. The tool will update the
@@ -72,14 +376,25 @@ export async function generateReleaseSpecificationTemplateForMonorepo({
 # The tool will update the versions of the packages you've listed and will move
 # the changelog entries to a new section.`.trim();
 
+  const suggestionInstructions =
+    Object.keys(versionSuggestions).length > 0
+      ? `
+# To save you some time, version specifiers have been suggested for some of the
+# packages based on the categories of the entries in their changelogs and the
+# Conventional Commits prefixes (such as "feat:" or "fix:") of the commits made
+# to them. The reason for each suggestion is given next to it. Please review
+# these suggestions carefully before accepting them.
+#`
+      : '';
+
   const instructions = `
 # This file (called the "release spec") allows you to specify which packages you
 # want to include in this release along with the new versions they should
 # receive.
 #
 # By default, all packages which have changed since their latest release are
-# listed here. You can choose not to publish a package by removing it from this
-# list.
+# listed here, except for private packages, which are not published. You can
+# choose not to publish a package by removing it from this list.${changedFilePathsInstructions}
 #
 # For each package you *do* want to release, you will need to specify how that
 # version should be changed depending on the impact of the changes that will go
@@ -95,26 +410,157 @@ export async function generateReleaseSpecificationTemplateForMonorepo({
 # - "major" (if you want to bump the major part of the package's version)
 # - "minor" (if you want to bump the minor part of the package's version)
 # - "patch" (if you want to bump the patch part of the package's version)
+# - "premajor", "preminor", or "prepatch" (if you want to release a prerelease
+#   of the next major, minor, or patch version of the package, e.g.
+#   "2.0.0-rc.0")
+# - "prerelease" (if you want to release the next prerelease of a package that
+#   is already at a prerelease version, e.g. going from "2.0.0-rc.0" to
+#   "2.0.0-rc.1")
 # - an exact version with major, minor, and patch parts (e.g. "1.2.3")
-#
+#${suggestionInstructions}
 ${afterEditingInstructions}
   `.trim();
 
-  const changedWorkspacePackages = Object.values(workspacePackages).filter(
-    (pkg) => pkg.hasChangesSinceLatestRelease,
+  const packages = changedWorkspacePackages.reduce((obj, pkg) => {
+    return {
+      ...obj,
+      [pkg.validatedManifest.name]:
+        versionSuggestions[pkg.validatedManifest.name]?.versionSpecifier ??
+        SKIP_PACKAGE_DIRECTIVE,
+    };
+  }, {});
+  const document = new YAML.Document({ packages });
+  // Typecast: We know that `packages` is an object, so it will be a map.
+  const packagesNode = document.get('packages') as YAMLMap<Scalar, Scalar>;
+  packagesNode.items.forEach(({ key, value }) => {
+    const changedFilePathsComment = describeChangedFilePaths(
+      workspacePackages[String(key.value)],
+    );
+    const suggestion = versionSuggestions[String(key.value)];
+
+    if (changedFilePathsComment !== null) {
+      key.commentBefore = changedFilePathsComment;
+    }
+
+    if (suggestion !== undefined && value !== null) {
+      value.comment = ` suggested because ${suggestion.reason}`;
+    }
+  });
+
+  return [instructions, document.toString()].join('\n\n');
+}
+
+/**
+ * Adds the packages that were added to a release automatically because they
+ * depend on packages being released with a major version bump (see
+ * `propagateMajorBumps`) to the release spec, so that the user can see which
+ * entries were added and why.
+ *
+ * @param releaseSpecificationContents - The contents of the release spec.
+ * @param propagatedPackages - The packages that were added to the release,
+ * mapped to the names of the packages in the release that they depend on.
+ * @returns The updated contents of the release spec.
+ */
+export function addPropagatedPackagesToReleaseSpecification(
+  releaseSpecificationContents: string,
+  propagatedPackages: Record<string, string[]>,
+): string {
+  const document = YAML.parseDocument(releaseSpecificationContents);
+
+  Object.entries(propagatedPackages).forEach(
+    ([packageName, dependencyNames]) => {
+      const value = document.createNode(IncrementableVersionParts.patch);
+      value.comment = ` added automatically because it depends on ${dependencyNames.join(', ')}`;
+      document.setIn(['packages', packageName], value);
+    },
   );
 
+  return document.toString();
+}
+
+/**
+ * Generates a skeleton for a release specification for a monorepo with fixed
+ * versions, which describes the version to release and the packages to release
+ * under it.
+ *
+ * @param args - The set of arguments to this function.
+ * @param args.project - Information about the project.
+ * @param args.isEditorAvailable - Whether or not an executable can be found on
+ * the user's computer to edit the release spec once it is generated.
+ * @returns The release specification template.
+ */
+export async function generateReleaseSpecificationTemplateForFixedMonorepo({
+  project: { rootPackage, workspacePackages },
+  isEditorAvailable,
+}: {
+  project: Project;
+  isEditorAvailable: boolean;
+}) {
+  const changedWorkspacePackages =
+    findChangedPublicWorkspacePackages(workspacePackages);
+
   if (changedWorkspacePackages.length === 0) {
     throw new Error(
       'Could not generate release specification: There are no packages that have changed since their latest release.',
     );
   }
 
-  const packages = changedWorkspacePackages.reduce((obj, pkg) => {
-    return { ...obj, [pkg.validatedManifest.name]: SKIP_PACKAGE_DIRECTIVE };
-  }, {});
+  const changedFilePathsInstructions = buildChangedFilePathsInstructions(
+    changedWorkspacePackages,
+  );
+  const afterEditingInstructions = isEditorAvailable
+    ? `
+# When you're finished, save this file and close it. The tool will update the
+# versions of the root package and the packages you've listed and will move the
+# changelog entries to a new section.`.trim()
+    : `
+# When you're finished, save this file and then run create-release-branch again.
+# The tool will update the versions of the root package and the packages you've
+# listed and will move the changelog entries to a new section.`.trim();
+
+  const instructions = `
+# This file (called the "release spec") allows you to specify the version of
+# this release along with the packages you want to include in it. Because this
+# project uses fixed versions, the root package and every package you include
+# will receive the same version.
+#
+# By default, all packages which have changed since their latest release are
+# listed here, except for private packages, which are not published. You can
+# choose not to publish a package by removing it from this list.${changedFilePathsInstructions}
+#
+# The version specifier (the value that goes after \`releaseVersion\` below) is
+# applied to the current version of the root package (${rootPackage.validatedManifest.version.toString()}) and can be
+# one of the following:
+#
+# - "major" (if you want to bump the major part of the version)
+# - "minor" (if you want to bump the minor part of the version)
+# - "patch" (if you want to bump the patch part of the version)
+# - "premajor", "preminor", or "prepatch" (if you want to release a prerelease
+#   of the next major, minor, or patch version, e.g. "2.0.0-rc.0")
+# - "prerelease" (if you want to release the next prerelease of a version which
+#   is already a prerelease, e.g. going from "2.0.0-rc.0" to "2.0.0-rc.1")
+# - an exact version with major, minor, and patch parts (e.g. "1.2.3")
+#
+${afterEditingInstructions}
+  `.trim();
+
+  const document = new YAML.Document({
+    releaseVersion: SKIP_PACKAGE_DIRECTIVE,
+    packages: changedWorkspacePackages.map((pkg) => pkg.validatedManifest.name),
+  });
+  // Typecast: We know that `packages` is an array, so it will be a sequence.
+  const packagesNode = document.get('packages') as YAMLSeq<Scalar>;
+  packagesNode.items.forEach((item, index) => {
+    const changedFilePathsComment = describeChangedFilePaths(
+      changedWorkspacePackages[index],
+    );
+
+    if (changedFilePathsComment !== null) {
+      item.commentBefore = changedFilePathsComment;
+    }
+  });
 
-  return [instructions, YAML.stringify({ packages })].join('\n\n');
+  return [instructions, document.toString()].join('\n\n');
 }
 
 /**
@@ -131,40 +577,14 @@ ${afterEditingInstructions}
 export async function waitForUserToEditReleaseSpecification(
   releaseSpecificationPath: string,
   editor: Editor,
-  stdout: Pick<WriteStream, 'write'> = fs.createWriteStream('/dev/null'),
+  stdout?: Pick<WriteStream, 'write'>,
 ) {
-  let caughtError: unknown;
-
-  debug(
-    `Opening release spec file ${releaseSpecificationPath} with editor located at ${editor.path}...`,
-  );
-
-  const promiseForEditorCommand = runCommand(
-    editor.path,
-    [...editor.args, releaseSpecificationPath],
-    {
-      stdio: 'inherit',
-      shell: true,
-    },
+  await waitForUserToEditFile(
+    releaseSpecificationPath,
+    editor,
+    'the release spec to be edited',
+    stdout,
   );
-
-  stdout.write('Waiting for the release spec to be edited...');
-
-  try {
-    await promiseForEditorCommand;
-  } catch (error) {
-    caughtError = error;
-  }
-
-  // Clear the previous line
-  stdout.write('\r\u001B[K');
-
-  if (caughtError) {
-    throw wrapError(
-      'Encountered an error while waiting for the release spec to be edited.',
-      caughtError,
-    );
-  }
 }
 
 /**
@@ -195,7 +615,9 @@ export function findWorkspaceDependentNamesOfType(
 
 /**
  * Finds all workspace packages that list the package in a particular
- * "dependencies" section but are missing from the release spec.
+ * "dependencies" section but are missing from the release spec. Private
+ * packages are not included, as they cannot be released; the ranges they use to
+ * depend on released packages are updated regardless.
  *
  * @param project - The project containing workspace packages.
  * @param packageName - The name of the package to find dependents for.
@@ -217,13 +639,17 @@ export function findMissingWorkspaceDependentNamesOfType(
   );
 
   return dependentNames.filter((dependentName) => {
-    return !unvalidatedReleaseSpecificationPackages[dependentName];
+    return (
+      !project.workspacePackages[dependentName].validatedManifest.private &&
+      !unvalidatedReleaseSpecificationPackages[dependentName]
+    );
   });
 }
 
 /**
  * Finds all workspace packages that are direct or peer dependencies of the
- * given package and have changes since their latest release.
+ * given package and have changes since their latest release, except for
+ * private packages, which cannot be released.
  *
  * @param project - The project containing workspace packages.
  * @param changedPackage - The package to find dependencies for.
@@ -242,6 +668,7 @@ function findMissingUnreleasedDependencies(
   }).filter((dependency) => {
     return (
       project.workspacePackages[dependency]?.hasChangesSinceLatestRelease &&
+      !project.workspacePackages[dependency].validatedManifest.private &&
       !unvalidatedReleaseSpecificationPackages[dependency]
     );
   });
@@ -268,16 +695,7 @@ export function findCandidateDependentsOfTypeForMajorBump(
   unvalidatedReleaseSpecificationPackages: Record<string, string | null>,
   type: 'dependencies' | 'peerDependencies',
 ): string[] {
-  const changedPackage = project.workspacePackages[packageName];
-
-  if (
-    versionSpecifierOrDirective === 'major' ||
-    (isValidSemver(versionSpecifierOrDirective) &&
-      diff(
-        changedPackage.validatedManifest.version,
-        versionSpecifierOrDirective,
-      ) === 'major')
-  ) {
+  if (isMajorBump(project, packageName, versionSpecifierOrDirective)) {
     return findMissingWorkspaceDependentNamesOfType(
       project,
       packageName,
@@ -289,6 +707,147 @@ export function findCandidateDependentsOfTypeForMajorBump(
   return [];
 }
 
+/**
+ * Determines whether the given version specifier or directive in a release
+ * spec would release a package with a new major version.
+ *
+ * @param project - Information about the whole project (e.g., names of packages
+ * and where they can found).
+ * @param packageName - The name of the package.
+ * @param versionSpecifierOrDirective - The version specifier or directive for
+ * the package.
+ * @returns True if the package would be released with a major version bump,
+ * false otherwise.
+ */
+function isMajorBump(
+  project: Project,
+  packageName: string,
+  versionSpecifierOrDirective: string | null,
+): boolean {
+  const changedPackage = project.workspacePackages[packageName];
+
+  return (
+    MAJOR_VERSION_BUMPS.includes(versionSpecifierOrDirective) ||
+    (isValidSemver(versionSpecifierOrDirective) &&
+      MAJOR_VERSION_BUMPS.includes(
+        diff(
+          changedPackage.validatedManifest.version,
+          versionSpecifierOrDirective,
+        ),
+      ))
+  );
+}
+
+/**
+ * Adds the direct and peer dependents of each package being released with a
+ * major version bump to the release, so that they pick up the new version.
+ * This happens recursively: the dependents of any package added this way are
+ * added too. Each dependent which is not already listed is released with a
+ * patch bump; dependents which are listed (including those which are
+ * intentionally skipped) are left alone, as are private dependents, which
+ * cannot be released.
+ *
+ * @param project - Information about the whole project (e.g., names of packages
+ * and where they can found).
+ * @param unvalidatedReleaseSpecificationPackages - The packages in the release
+ * specification.
+ * @returns The packages in the release specification along with the added
+ * dependents, as well as the added dependents mapped to the names of the
+ * packages in the release that they depend on.
+ */
+export function propagateMajorBumps(
+  project: Project,
+  unvalidatedReleaseSpecificationPackages: Record<string, string | null>,
+): {
+  packages: Record<string, string | null>;
+  propagatedPackages: Record<string, string[]>;
+} {
+  const propagate = (
+    packageNames: string[],
+    result: {
+      packages: Record<string, string | null>;
+      propagatedPackages: Record<string, string[]>;
+    },
+  ): typeof result => {
+    if (packageNames.length === 0) {
+      return result;
+    }
+
+    const updatedResult = packageNames.reduce((currentResult, packageName) => {
+      return [
+        ...findWorkspaceDependentNamesOfType(
+          project,
+          packageName,
+          'dependencies',
+        ),
+        ...findWorkspaceDependentNamesOfType(
+          project,
+          packageName,
+          'peerDependencies',
+        ),
+      ]
+        .filter(
+          (dependentName) =>
+            !project.workspacePackages[dependentName].validatedManifest.private,
+        )
+        .reduce((innerResult, dependentName) => {
+          const propagatedFrom = innerResult.propagatedPackages[dependentName];
+
+          if (propagatedFrom !== undefined) {
+            return propagatedFrom.includes(packageName)
+              ? innerResult
+              : {
+                  ...innerResult,
+                  propagatedPackages: {
+                    ...innerResult.propagatedPackages,
+                    [dependentName]: [...propagatedFrom, packageName],
+                  },
+                };
+          }
+
+          if (innerResult.packages[dependentName]) {
+            return innerResult;
+          }
+
+          return {
+            packages: {
+              ...innerResult.packages,
+              [dependentName]: IncrementableVersionParts.patch,
+            },
+            propagatedPackages: {
+              ...innerResult.propagatedPackages,
+              [dependentName]: [packageName],
+            },
+          };
+        }, currentResult);
+    }, result);
+
+    return propagate(
+      Object.keys(updatedResult.propagatedPackages).filter(
+        (dependentName) =>
+          result.propagatedPackages[dependentName] === undefined,
+      ),
+      updatedResult,
+    );
+  };
+
+  return propagate(
+    Object.keys(unvalidatedReleaseSpecificationPackages).filter(
+      (packageName) =>
+        project.workspacePackages[packageName] !== undefined &&
+        isMajorBump(
+          project,
+          packageName,
+          unvalidatedReleaseSpecificationPackages[packageName],
+        ),
+    ),
+    {
+      packages: unvalidatedReleaseSpecificationPackages,
+      propagatedPackages: {},
+    },
+  );
+}
+
 /**
  * For a package being included in the release, finds all direct peer or
  * dependencies that have changes since their last release but have not been
@@ -329,26 +888,41 @@ export function findCandidateDependencies(
  * @param project - Information about the whole project (e.g., names of packages
  * and where they can found).
  * @param unvalidatedReleaseSpecificationPackages - The packages in the release specification.
- * @param indexOfFirstUsableLine - The index of the first non-comment, non-whitespace line
- * in the release spec.
+ * @param packageEntryLocations - Where each package entry appears within the
+ * release spec, if known.
  * @returns An array of validation errors, if any.
  */
 export function validateAllPackageEntries(
   project: Project,
   unvalidatedReleaseSpecificationPackages: Record<string, string | null>,
-  indexOfFirstUsableLine: number,
-): { message: string | string[]; lineNumber?: number }[] {
-  const errors: { message: string | string[]; lineNumber?: number }[] = [];
+  packageEntryLocations: Record<string, PackageEntryLocation> = {},
+): ReleaseSpecificationIssue[] {
+  const errors: ReleaseSpecificationIssue[] = [];
 
   Object.entries(unvalidatedReleaseSpecificationPackages).forEach(
-    ([changedPackageName, versionSpecifierOrDirective], index) => {
-      const lineNumber = indexOfFirstUsableLine + index + 2;
+    ([changedPackageName, versionSpecifierOrDirective]) => {
+      const keyLocation = packageEntryLocations[changedPackageName]?.key;
+      const valueLocation =
+        packageEntryLocations[changedPackageName]?.value ?? keyLocation;
       const changedPackage = project.workspacePackages[changedPackageName];
 
       if (changedPackage === undefined) {
         errors.push({
-          message: `${JSON.stringify(changedPackageName)} is not a package in the project`,
-          lineNumber,
+          kind: 'unknownPackage',
+          packageName: changedPackageName,
+          ...keyLocation,
+        });
+      }
+
+      if (
+        changedPackage?.validatedManifest.private &&
+        versionSpecifierOrDirective !== SKIP_PACKAGE_DIRECTIVE &&
+        versionSpecifierOrDirective !== INTENTIONALLY_SKIP_PACKAGE_DIRECTIVE
+      ) {
+        errors.push({
+          kind: 'privatePackage',
+          packageName: changedPackageName,
+          ...keyLocation,
         });
       }
 
@@ -359,36 +933,27 @@ export function validateAllPackageEntries(
         !isValidSemver(versionSpecifierOrDirective)
       ) {
         errors.push({
-          message: [
-            `${JSON.stringify(versionSpecifierOrDirective)} is not a valid version specifier for package "${changedPackageName}"`,
-            `(must be "major", "minor", or "patch"; or a version string with major, minor, and patch parts, such as "1.2.3")`,
-          ],
-          lineNumber,
+          kind: 'invalidVersionSpecifier',
+          packageName: changedPackageName,
+          versionSpecifier: versionSpecifierOrDirective,
+          ...valueLocation,
         });
       }
 
-      if (isValidSemver(versionSpecifierOrDirective)) {
-        const comparison = new SemVer(versionSpecifierOrDirective).compare(
+      if (
+        isValidSemver(versionSpecifierOrDirective) &&
+        new SemVer(versionSpecifierOrDirective).compare(
           changedPackage.validatedManifest.version,
-        );
-
-        if (comparison === 0) {
-          errors.push({
-            message: [
-              `${JSON.stringify(versionSpecifierOrDirective)} is not a valid version specifier for package "${changedPackageName}"`,
-              `("${changedPackageName}" is already at version "${versionSpecifierOrDirective}")`,
-            ],
-            lineNumber,
-          });
-        } else if (comparison < 0) {
-          errors.push({
-            message: [
-              `${JSON.stringify(versionSpecifierOrDirective)} is not a valid version specifier for package "${changedPackageName}"`,
-              `("${changedPackageName}" is at a greater version "${project.workspacePackages[changedPackageName].validatedManifest.version}")`,
-            ],
-            lineNumber,
-          });
-        }
+        ) <= 0
+      ) {
+        errors.push({
+          kind: 'versionNotGreater',
+          packageName: changedPackageName,
+          version: versionSpecifierOrDirective,
+          currentVersion: changedPackage.validatedManifest.version.toString(),
+          isReleaseVersion: false,
+          ...valueLocation,
+        });
       }
 
       const missingDirectDependentNames =
@@ -402,27 +967,10 @@ export function validateAllPackageEntries(
 
       if (missingDirectDependentNames.length > 0) {
         errors.push({
-          message: [
-            `The following direct dependents of package '${changedPackageName}', which is being released with a major version bump, are missing from the release spec.`,
-            missingDirectDependentNames
-              .map((dependent) => `  - ${dependent}`)
-              .join('\n'),
-            `  Consider including them in the release spec so that the dependency tree of consuming projects can be kept small.`,
-            `  If you do not want to do this, then list it with a directive of "intentionally-skip". For example:`,
-            YAML.stringify({
-              packages: missingDirectDependentNames.reduce(
-                (object, dependent) => ({
-                  ...object,
-                  [dependent]: INTENTIONALLY_SKIP_PACKAGE_DIRECTIVE,
-                }),
-                {},
-              ),
-            })
-              .trim()
-              .split('\n')
-              .map((line) => `    ${line}`)
-              .join('\n'),
-          ].join('\n\n'),
+          kind: 'missingDependents',
+          packageName: changedPackageName,
+          dependentNames: missingDirectDependentNames,
+          suggestedFix: buildFixToSkipPackages(missingDirectDependentNames),
         });
       }
 
@@ -437,27 +985,10 @@ export function validateAllPackageEntries(
 
       if (missingPeerDependentNames.length > 0) {
         errors.push({
-          message: [
-            `The following dependents of package '${changedPackageName}', which is being released with a major version bump, are missing from the release spec.`,
-            missingPeerDependentNames
-              .map((dependent) => `  - ${dependent}`)
-              .join('\n'),
-            `  Consider including them in the release spec so that they are compatible with the new '${changedPackageName}' version.`,
-            `  If you are ABSOLUTELY SURE these packages are safe to omit, however, and want to postpone the release of a package, then list it with a directive of "intentionally-skip". For example:`,
-            YAML.stringify({
-              packages: missingPeerDependentNames.reduce(
-                (object, dependent) => ({
-                  ...object,
-                  [dependent]: INTENTIONALLY_SKIP_PACKAGE_DIRECTIVE,
-                }),
-                {},
-              ),
-            })
-              .trim()
-              .split('\n')
-              .map((line) => `    ${line}`)
-              .join('\n'),
-          ].join('\n\n'),
+          kind: 'missingPeerDependents',
+          packageName: changedPackageName,
+          dependentNames: missingPeerDependentNames,
+          suggestedFix: buildFixToSkipPackages(missingPeerDependentNames),
         });
       }
 
@@ -470,27 +1001,10 @@ export function validateAllPackageEntries(
 
       if (missingDependencies.length > 0) {
         errors.push({
-          message: [
-            `The following packages, which are dependencies or peer dependencies of the package '${changedPackageName}' being released, are missing from the release spec.`,
-            missingDependencies
-              .map((dependency) => `  - ${dependency}`)
-              .join('\n'),
-            `  These packages may have changes that '${changedPackageName}' relies upon. Consider including them in the release spec.`,
-            `  If you are ABSOLUTELY SURE these packages are safe to omit, however, and want to postpone the release of a package, then list it with a directive of "intentionally-skip". For example:`,
-            YAML.stringify({
-              packages: missingDependencies.reduce(
-                (object, dependency) => ({
-                  ...object,
-                  [dependency]: INTENTIONALLY_SKIP_PACKAGE_DIRECTIVE,
-                }),
-                {},
-              ),
-            })
-              .trim()
-              .split('\n')
-              .map((line) => `    ${line}`)
-              .join('\n'),
-          ].join('\n\n'),
+          kind: 'missingDependencies',
+          packageName: changedPackageName,
+          dependencyNames: missingDependencies,
+          suggestedFix: buildFixToSkipPackages(missingDependencies),
         });
       }
     },
@@ -499,6 +1013,377 @@ export function validateAllPackageEntries(
   return errors;
 }
 
+/**
+ * Reads the contents of a release spec, unless they have already been read.
+ *
+ * @param releaseSpecificationPath - The path to the release spec file.
+ * @param options - Options for validating the release spec.
+ * @param options.contents - The contents of the release spec, if they have
+ * already been read (e.g. from standard input).
+ * @returns The contents of the release spec.
+ */
+async function readReleaseSpecification(
+  releaseSpecificationPath: string,
+  { contents }: ReleaseSpecificationValidationOptions,
+) {
+  return contents ?? (await readFile(releaseSpecificationPath));
+}
+
+/**
+ * Builds the text that is appended to every error message produced while
+ * validating a release spec.
+ *
+ * @param releaseSpecificationPath - The path to the release spec file.
+ * @param options - Options for validating the release spec.
+ * @param options.contents - The contents of the release spec, if they were
+ * not read from the file.
+ * @param options.isGenerated - Whether the release spec was generated by this
+ * tool (as opposed to provided by the user).
+ * @returns The afterword.
+ */
+function buildAfterwordForAllErrorMessages(
+  releaseSpecificationPath: string,
+  { contents, isGenerated = true }: ReleaseSpecificationValidationOptions,
+) {
+  if (isGenerated) {
+    return [
+      "The release spec file has been retained for you to edit again and make the necessary fixes. Once you've done this, re-run this tool.",
+      releaseSpecificationPath,
+    ].join('\n\n');
+  }
+
+  const message = "Once you've fixed the release spec, re-run this tool.";
+  return contents === undefined
+    ? [message, releaseSpecificationPath].join('\n\n')
+    : message;
+}
+
+/**
+ * A release spec which has been parsed as YAML.
+ *
+ * @property value - The data within the release spec.
+ * @property document - The syntax tree of the release spec, which records where
+ * each key and value appears within the file.
+ * @property lineCounter - Used to convert offsets within the file into line
+ * and column numbers.
+ */
+type ParsedReleaseSpecification = {
+  value: unknown;
+  document: YAML.Document.Parsed;
+  lineCounter: LineCounter;
+};
+
+/**
+ * Parses the contents of a release spec as YAML.
+ *
+ * @param releaseSpecificationContents - The contents of the release spec file.
+ * @param afterwordForAllErrorMessages - The text to append to the error message
+ * if parsing fails.
+ * @returns The parsed release spec.
+ * @throws If the release spec is not valid YAML.
+ */
+function parseReleaseSpecification(
+  releaseSpecificationContents: string,
+  afterwordForAllErrorMessages: string,
+): ParsedReleaseSpecification {
+  const lineCounter = new LineCounter();
+  const document = YAML.parseDocument(releaseSpecificationContents, {
+    lineCounter,
+  });
+
+  if (document.errors.length > 0) {
+    throw wrapError(
+      [
+        'Your release spec does not appear to be valid YAML.',
+        afterwordForAllErrorMessages,
+      ].join('\n\n'),
+      document.errors[0],
+    );
+  }
+
+  return { value: document.toJS(), document, lineCounter };
+}
+
+/**
+ * Finds where a node in the syntax tree of a release spec starts.
+ *
+ * @param node - The node (which may be missing, if the corresponding key or
+ * value is absent).
+ * @param lineCounter - Used to convert offsets within the file into line and
+ * column numbers.
+ * @returns The position of the node, or undefined if it is not known.
+ */
+function locateNode(
+  node: unknown,
+  lineCounter: LineCounter,
+): ReleaseSpecificationLocation | undefined {
+  if (!isNode(node)) {
+    return undefined;
+  }
+
+  // Typecast: Nodes parsed from a file always know where they are in it.
+  const { line, col } = lineCounter.linePos((node as ParsedNode).range[0]);
+  return { lineNumber: line, columnNumber: col };
+}
+
+/**
+ * Finds where the name and version specifier of each package listed under
+ * `packages` appear within a release spec.
+ *
+ * @param parsedReleaseSpecification - The parsed release spec.
+ * @param parsedReleaseSpecification.document - The syntax tree of the release
+ * spec.
+ * @param parsedReleaseSpecification.lineCounter - Used to convert offsets
+ * within the file into line and column numbers.
+ * @returns The locations of the package entries, keyed by package name.
+ */
+function findPackageEntryLocations({
+  document,
+  lineCounter,
+}: ParsedReleaseSpecification): Record<string, PackageEntryLocation> {
+  const packagesNode = document.get('packages', true);
+
+  if (!isMap(packagesNode)) {
+    return {};
+  }
+
+  return packagesNode.items.reduce<Record<string, PackageEntryLocation>>(
+    (locations, { key, value }) => ({
+      ...locations,
+      [String(key)]: {
+        key: locateNode(key, lineCounter),
+        value: locateNode(value, lineCounter),
+      },
+    }),
+    {},
+  );
+}
+
+/**
+ * Builds an excerpt of a release spec which shows the line at the given
+ * position and points to the column.
+ *
+ * @param releaseSpecificationContents - The contents of the release spec file.
+ * @param location - The position within the release spec.
+ * @param location.lineNumber - The line to show.
+ * @param location.columnNumber - The column to point to.
+ * @returns The lines of the excerpt.
+ */
+function buildCodeFrame(
+  releaseSpecificationContents: string,
+  { lineNumber, columnNumber }: ReleaseSpecificationLocation,
+): string[] {
+  const line = releaseSpecificationContents.split(/\r?\n/u)[lineNumber - 1];
+  const gutter = String(lineNumber);
+
+  return [
+    `> ${gutter} | ${line}`.trimEnd(),
+    `  ${' '.repeat(gutter.length)} | ${' '.repeat(columnNumber - 1)}^`,
+  ];
+}
+
+/**
+ * Builds the fix for a release spec which is missing packages that should be
+ * considered for the release.
+ *
+ * @param packageNames - The names of the missing packages.
+ * @returns A fix which lists each package with the "intentionally-skip"
+ * directive.
+ */
+function buildFixToSkipPackages(
+  packageNames: string[],
+): ReleaseSpecificationFix {
+  return {
+    packages: packageNames.reduce(
+      (object, packageName) => ({
+        ...object,
+        [packageName]: INTENTIONALLY_SKIP_PACKAGE_DIRECTIVE,
+      }),
+      {},
+    ),
+  };
+}
+
+/**
+ * Builds the part of the description of a problem with missing packages that
+ * lists those packages and explains how to add them or skip them.
+ *
+ * @param packageNames - The names of the missing packages.
+ * @param suggestedFix - The fix which would skip the missing packages.
+ * @param explanation - Why the packages should be considered for the release.
+ * @param skipInstructions - How to skip the packages instead.
+ * @returns The lines of the description.
+ */
+function describeMissingPackages(
+  packageNames: string[],
+  suggestedFix: ReleaseSpecificationFix,
+  explanation: string,
+  skipInstructions: string,
+) {
+  return [
+    packageNames.map((packageName) => `  - ${packageName}`).join('\n'),
+    `  ${explanation}`,
+    `  ${skipInstructions} For example:`,
+    YAML.stringify(suggestedFix)
+      .trim()
+      .split('\n')
+      .map((line) => `    ${line}`)
+      .join('\n'),
+  ];
+}
+
+/**
+ * Describes a problem found while validating a release spec in a way that a
+ * user can understand.
+ *
+ * @param issue - The problem.
+ * @returns The description, which may be split across multiple lines.
+ */
+export function describeReleaseSpecificationIssue(
+  issue: ReleaseSpecificationIssue,
+): string | string[] {
+  switch (issue.kind) {
+    case 'unknownPackage':
+      return `${JSON.stringify(
+        issue.packageName,
+      )} is not a package in the project`;
+
+    case 'privatePackage':
+      return [
+        `"${issue.packageName}" is a private package, so it cannot be released`,
+        '(private packages are not published, so please remove it from the release spec)',
+      ];
+
+    case 'invalidVersionSpecifier':
+      return [
+        issue.packageName === null
+          ? `${JSON.stringify(
+              issue.versionSpecifier,
+            )} is not a valid version specifier for the release`
+          : `${JSON.stringify(
+              issue.versionSpecifier,
+            )} is not a valid version specifier for package "${
+              issue.packageName
+            }"`,
+        `(must be "major", "minor", "patch", "premajor", "preminor", "prepatch", or "prerelease"; or a version string with major, minor, and patch parts, such as "1.2.3")`,
+      ];
+
+    case 'versionNotGreater':
+      if (issue.packageName === null) {
+        return [
+          `${JSON.stringify(
+            issue.version,
+          )} is not a valid version specifier for the release`,
+          `(the root package is already at version "${issue.currentVersion}")`,
+        ];
+      }
+
+      if (issue.isReleaseVersion) {
+        return [
+          `"${issue.packageName}" cannot be released at version "${issue.version}"`,
+          `("${issue.packageName}" is already at version "${issue.currentVersion}", which is not less than the version of the release)`,
+        ];
+      }
+
+      return [
+        `${JSON.stringify(
+          issue.version,
+        )} is not a valid version specifier for package "${issue.packageName}"`,
+        new SemVer(issue.version).compare(issue.currentVersion) === 0
+          ? `("${issue.packageName}" is already at version "${issue.version}")`
+          : `("${issue.packageName}" is at a greater version "${issue.currentVersion}")`,
+      ];
+
+    case 'missingDependents':
+      return [
+        `The following direct dependents of package '${issue.packageName}', which is being released with a major version bump, are missing from the release spec.`,
+        ...describeMissingPackages(
+          issue.dependentNames,
+          issue.suggestedFix,
+          'Consider including them in the release spec so that the dependency tree of consuming projects can be kept small.',
+          'If you do not want to do this, then list it with a directive of "intentionally-skip".',
+        ),
+      ].join('\n\n');
+
+    case 'missingPeerDependents':
+      return [
+        `The following dependents of package '${issue.packageName}', which is being released with a major version bump, are missing from the release spec.`,
+        ...describeMissingPackages(
+          issue.dependentNames,
+          issue.suggestedFix,
+          `Consider including them in the release spec so that they are compatible with the new '${issue.packageName}' version.`,
+          'If you are ABSOLUTELY SURE these packages are safe to omit, however, and want to postpone the release of a package, then list it with a directive of "intentionally-skip".',
+        ),
+      ].join('\n\n');
+
+    case 'missingDependencies':
+      return [
+        `The following packages, which are dependencies or peer dependencies of the package '${issue.packageName}' being released, are missing from the release spec.`,
+        ...describeMissingPackages(
+          issue.dependencyNames,
+          issue.suggestedFix,
+          `These packages may have changes that '${issue.packageName}' relies upon. Consider including them in the release spec.`,
+          'If you are ABSOLUTELY SURE these packages are safe to omit, however, and want to postpone the release of a package, then list it with a directive of "intentionally-skip".',
+        ),
+      ].join('\n\n');
+
+    default:
+      return assertExhaustive(issue);
+  }
+}
+
+/**
+ * Builds an error message that lists all of the problems found while
+ * validating a release spec.
+ *
+ * @param errors - The problems found.
+ * @param afterwordForAllErrorMessages - The text to append to the error
+ * message.
+ * @param releaseSpecificationContents - The contents of the release spec
+ * file, used to show the line to which each problem pertains.
+ * @returns The error message.
+ */
+function buildValidationErrorMessage(
+  errors: ReleaseSpecificationIssue[],
+  afterwordForAllErrorMessages: string,
+  releaseSpecificationContents: string,
+) {
+  return [
+    'Your release spec could not be processed due to the following issues:',
+    errors
+      .flatMap((error) => {
+        const itemPrefix = '* ';
+        const lineNumberPrefix =
+          error.lineNumber === undefined ? '' : `Line ${error.lineNumber}: `;
+        const codeFrame =
+          error.lineNumber === undefined || error.columnNumber === undefined
+            ? []
+            : buildCodeFrame(releaseSpecificationContents, {
+                lineNumber: error.lineNumber,
+                columnNumber: error.columnNumber,
+              }).map((line) => `${' '.repeat(itemPrefix.length)}${line}`);
+
+        const message = describeReleaseSpecificationIssue(error);
+
+        if (Array.isArray(message)) {
+          return [
+            `${itemPrefix}${lineNumberPrefix}${message[0]}`,
+            ...message.slice(1).map((line) => {
+              const indentedLineLength =
+                itemPrefix.length + lineNumberPrefix.length + line.length;
+              return line.padStart(indentedLineLength, ' ');
+            }),
+            ...codeFrame,
+          ];
+        }
+
+        return [`${itemPrefix}${lineNumberPrefix}${message}`, ...codeFrame];
+      })
+      .join('\n'),
+    afterwordForAllErrorMessages,
+  ].join('\n\n');
+}
+
 /**
  * Looks over the release spec that the user has edited to ensure that:
  *
@@ -508,45 +1393,38 @@ export function validateAllPackageEntries(
  * @param project - Information about the whole project (e.g., names of packages
  * and where they can found).
  * @param releaseSpecificationPath - The path to the release spec file.
+ * @param options - Options for validating the release spec.
  * @returns The validated release spec.
- * @throws If there are any issues with the file.
+ * @throws If there are any issues with the file. Problems with the individual
+ * entries are described by a `ReleaseSpecificationValidationError`.
  */
 export async function validateReleaseSpecification(
   project: Project,
   releaseSpecificationPath: string,
+  options: ReleaseSpecificationValidationOptions = {},
 ): Promise<ReleaseSpecification> {
-  const releaseSpecificationContents = await readFile(releaseSpecificationPath);
-  const indexOfFirstUsableLine = releaseSpecificationContents
-    .split('\n')
-    .findIndex((line) => !/^#|[ ]+/u.test(line));
-
-  let unvalidatedReleaseSpecification: {
+  const releaseSpecificationContents = await readReleaseSpecification(
+    releaseSpecificationPath,
+    options,
+  );
+  const afterwordForAllErrorMessages = buildAfterwordForAllErrorMessages(
+    releaseSpecificationPath,
+    options,
+  );
+  const parsedReleaseSpecification = parseReleaseSpecification(
+    releaseSpecificationContents,
+    afterwordForAllErrorMessages,
+  );
+  const unvalidatedReleaseSpecification = parsedReleaseSpecification.value as {
     packages: Record<string, string | null>;
   };
 
-  const afterwordForAllErrorMessages = [
-    "The release spec file has been retained for you to edit again and make the necessary fixes. Once you've done this, re-run this tool.",
-    releaseSpecificationPath,
-  ].join('\n\n');
-
-  try {
-    unvalidatedReleaseSpecification = YAML.parse(releaseSpecificationContents);
-  } catch (error) {
-    throw wrapError(
-      [
-        'Your release spec does not appear to be valid YAML.',
-        afterwordForAllErrorMessages,
-      ].join('\n\n'),
-      error,
-    );
-  }
-
   if (
     !isObject(unvalidatedReleaseSpecification) ||
     unvalidatedReleaseSpecification.packages === undefined
   ) {
     const message = [
-      `Your release spec could not be processed because it needs to be an object with a \`packages\` property. The value of \`packages\` must itself be an object, where each key is a workspace package in the project and each value is a version specifier ("major", "minor", or "patch"; or a version string with major, minor, and patch parts, such as "1.2.3").`,
+      `Your release spec could not be processed because it needs to be an object with a \`packages\` property. The value of \`packages\` must itself be an object, where each key is a workspace package in the project and each value is a version specifier ("major", "minor", "patch", "premajor", "preminor", "prepatch", or "prerelease"; or a version string with major, minor, and patch parts, such as "1.2.3").`,
       `Here is the parsed version of the file you provided:`,
       JSON.stringify(unvalidatedReleaseSpecification, null, 2),
       afterwordForAllErrorMessages,
@@ -554,48 +1432,35 @@ export async function validateReleaseSpecification(
     throw new Error(message);
   }
 
+  const { packages: unvalidatedPackages, propagatedPackages } =
+    options.propagate
+      ? propagateMajorBumps(project, unvalidatedReleaseSpecification.packages)
+      : {
+          packages: unvalidatedReleaseSpecification.packages,
+          propagatedPackages: undefined,
+        };
+
   const errors = validateAllPackageEntries(
     project,
-    unvalidatedReleaseSpecification.packages,
-    indexOfFirstUsableLine,
+    unvalidatedPackages,
+    findPackageEntryLocations(parsedReleaseSpecification),
   );
 
   if (errors.length > 0) {
-    const message = [
-      'Your release spec could not be processed due to the following issues:',
-      errors
-        .flatMap((error) => {
-          const itemPrefix = '* ';
-
-          if (error.lineNumber === undefined) {
-            return `${itemPrefix}${error.message}`;
-          }
-
-          const lineNumberPrefix = `Line ${error.lineNumber}: `;
-
-          if (Array.isArray(error.message)) {
-            return [
-              `${itemPrefix}${lineNumberPrefix}${error.message[0]}`,
-              ...error.message.slice(1).map((line) => {
-                const indentedLineLength =
-                  itemPrefix.length + lineNumberPrefix.length + line.length;
-                return line.padStart(indentedLineLength, ' ');
-              }),
-            ];
-          }
-
-          return `${itemPrefix}${lineNumberPrefix}${error.message}`;
-        })
-        .join('\n'),
-      afterwordForAllErrorMessages,
-    ].join('\n\n');
-    throw new Error(message);
+    throw new ReleaseSpecificationValidationError(
+      buildValidationErrorMessage(
+        errors,
+        afterwordForAllErrorMessages,
+        releaseSpecificationContents,
+      ),
+      releaseSpecificationPath,
+      errors,
+    );
   }
 
-  const packages = Object.keys(unvalidatedReleaseSpecification.packages).reduce(
+  const packages = Object.keys(unvalidatedPackages).reduce(
     (obj, packageName) => {
-      const versionSpecifierOrDirective =
-        unvalidatedReleaseSpecification.packages[packageName];
+      const versionSpecifierOrDirective = unvalidatedPackages[packageName];
 
       if (
         versionSpecifierOrDirective !== SKIP_PACKAGE_DIRECTIVE &&
@@ -628,5 +1493,177 @@ export async function validateReleaseSpecification(
     {} as ReleaseSpecification['packages'],
   );
 
-  return { packages, path: releaseSpecificationPath };
+  return {
+    packages,
+    path: releaseSpecificationPath,
+    ...(propagatedPackages !== undefined && { propagatedPackages }),
+  };
+}
+
+/**
+ * Looks over the release spec for a monorepo with fixed versions that the user
+ * has edited to ensure that:
+ *
+ * 1. the version specifier for the release is valid and results in a version
+ * greater than the current version of the root package;
+ * 2. the names of all packages match those within the project; and
+ * 3. the current versions of all packages are less than the release version,
+ * so that they can all share it.
+ *
+ * @param project - Information about the whole project (e.g., names of packages
+ * and where they can found).
+ * @param releaseSpecificationPath - The path to the release spec file.
+ * @param options - Options for validating the release spec.
+ * @returns The validated release spec, where each listed package is mapped to
+ * the release version.
+ * @throws If there are any issues with the file. Problems with the individual
+ * entries are described by a `ReleaseSpecificationValidationError`.
+ */
+export async function validateFixedReleaseSpecification(
+  project: Project,
+  releaseSpecificationPath: string,
+  options: ReleaseSpecificationValidationOptions = {},
+): Promise<FixedReleaseSpecification> {
+  const releaseSpecificationContents = await readReleaseSpecification(
+    releaseSpecificationPath,
+    options,
+  );
+  const afterwordForAllErrorMessages = buildAfterwordForAllErrorMessages(
+    releaseSpecificationPath,
+    options,
+  );
+  const parsedReleaseSpecification = parseReleaseSpecification(
+    releaseSpecificationContents,
+    afterwordForAllErrorMessages,
+  );
+  const unvalidatedReleaseSpecification = parsedReleaseSpecification.value as {
+    releaseVersion: unknown;
+    packages: unknown[];
+  };
+
+  if (
+    !isObject(unvalidatedReleaseSpecification) ||
+    !hasProperty(unvalidatedReleaseSpecification, 'releaseVersion') ||
+    !Array.isArray(unvalidatedReleaseSpecification.packages)
+  ) {
+    const message = [
+      `Your release spec could not be processed because it needs to be an object with \`releaseVersion\` and \`packages\` properties. The value of \`releaseVersion\` must be a version specifier ("major", "minor", "patch", "premajor", "preminor", "prepatch", or "prerelease"; or a version string with major, minor, and patch parts, such as "1.2.3"), and the value of \`packages\` must be an array, where each item is the name of a workspace package in the project.`,
+      `Here is the parsed version of the file you provided:`,
+      JSON.stringify(unvalidatedReleaseSpecification, null, 2),
+      afterwordForAllErrorMessages,
+    ].join('\n\n');
+    throw new Error(message);
+  }
+
+  const errors: ReleaseSpecificationIssue[] = [];
+  const { releaseVersion: versionSpecifier, packages: packageNames } =
+    unvalidatedReleaseSpecification;
+  const currentVersion = project.rootPackage.validatedManifest.version;
+  const { document, lineCounter } = parsedReleaseSpecification;
+  const releaseVersionLocation = locateNode(
+    document.get('releaseVersion', true),
+    lineCounter,
+  );
+  const packagesNode = document.get('packages', true);
+  const packageLocations = isSeq(packagesNode)
+    ? packagesNode.items.map((item) => locateNode(item, lineCounter))
+    : [];
+  let releaseVersion: SemVer | null = null;
+
+  if (
+    Object.values(IncrementableVersionParts).includes(
+      // Typecast: It doesn't matter what type versionSpecifier is as we are
+      // checking for inclusion.
+      versionSpecifier as any,
+    )
+  ) {
+    releaseVersion = incrementVersion(
+      currentVersion,
+      // Typecast: We know what this is as we've checked it above.
+      versionSpecifier as IncrementableVersionParts,
+      options.prereleaseIdentifier,
+    );
+  } else if (isValidSemver(versionSpecifier)) {
+    releaseVersion = new SemVer(versionSpecifier);
+
+    if (releaseVersion.compare(currentVersion) <= 0) {
+      errors.push({
+        kind: 'versionNotGreater',
+        packageName: null,
+        version: releaseVersion.toString(),
+        currentVersion: currentVersion.toString(),
+        isReleaseVersion: true,
+        ...releaseVersionLocation,
+      });
+    }
+  } else {
+    errors.push({
+      kind: 'invalidVersionSpecifier',
+      packageName: null,
+      versionSpecifier,
+      ...releaseVersionLocation,
+    });
+  }
+
+  packageNames.forEach((packageName, index) => {
+    const pkg = project.workspacePackages[packageName as string];
+    const packageLocation = packageLocations[index];
+
+    if (pkg === undefined) {
+      errors.push({
+        kind: 'unknownPackage',
+        packageName: packageName as string,
+        ...packageLocation,
+      });
+    } else if (pkg.validatedManifest.private) {
+      errors.push({
+        kind: 'privatePackage',
+        packageName: pkg.validatedManifest.name,
+        ...packageLocation,
+      });
+    } else if (
+      releaseVersion !== null &&
+      releaseVersion.compare(pkg.validatedManifest.version) <= 0
+    ) {
+      errors.push({
+        kind: 'versionNotGreater',
+        packageName: pkg.validatedManifest.name,
+        version: releaseVersion.toString(),
+        currentVersion: pkg.validatedManifest.version.toString(),
+        isReleaseVersion: true,
+        ...packageLocation,
+      });
+    }
+  });
+
+  if (errors.length > 0) {
+    throw new ReleaseSpecificationValidationError(
+      buildValidationErrorMessage(
+        errors,
+        afterwordForAllErrorMessages,
+        releaseSpecificationContents,
+      ),
+      releaseSpecificationPath,
+      errors,
+    );
+  }
+
+  // Typecast: We know that the release version has been determined as there
+  // would have been an error otherwise.
+  const validatedReleaseVersion = releaseVersion as SemVer;
+  const packages = packageNames.reduce<ReleaseSpecification['packages']>(
+    (obj, packageName) => {
+      return {
+        ...obj,
+        [packageName as string]: validatedReleaseVersion,
+      };
+    },
+    {},
+  );
+
+  return {
+    releaseVersion: validatedReleaseVersion.toString(),
+    packages,
+    path: releaseSpecificationPath,
+  };
 }
@@ -2,10 +2,23 @@ import { when } from 'jest-when';
 import {
   commitAllChanges,
   getTagNames,
-  hasChangesInDirectorySinceGitTag,
+  getFilesChangedInDirectorySinceGitTag,
+  getCommitMessagesInDirectorySinceGitTag,
   getCurrentBranchName,
+  getHeadCommitSubject,
   branchExists,
+  getBranchNames,
   restoreFiles,
+  tagExists,
+  revisionExists,
+  revisionContainsTag,
+  createAnnotatedTag,
+  readFileAtRevision,
+  forgetFilesChangedSinceGitTags,
+  listCommitsBetweenRevisions,
+  getCherryPickedCommitHashes,
+  cherryPickCommits,
+  pushBranch,
 } from './repo.js';
 import * as miscUtils from './misc-utils.js';
 
@@ -49,6 +62,52 @@ describe('repo', () => {
       ]);
     });
 
+    it('fetches tags from the default remote first', async () => {
+      const runCommandSpy = jest.spyOn(miscUtils, 'runCommand');
+      when(jest.spyOn(miscUtils, 'getLinesFromCommand'))
+        .calledWith('git', ['tag', '--sort=version:refname', '--merged'], {
+          cwd: '/path/to/repo',
+        })
+        .mockResolvedValue(['tag1']);
+
+      await getTagNames('/path/to/repo');
+
+      expect(runCommandSpy).toHaveBeenCalledWith('git', ['fetch', '--tags'], {
+        cwd: '/path/to/repo',
+      });
+    });
+
+    it('fetches tags from the given remote first', async () => {
+      const runCommandSpy = jest.spyOn(miscUtils, 'runCommand');
+      when(jest.spyOn(miscUtils, 'getLinesFromCommand'))
+        .calledWith('git', ['tag', '--sort=version:refname', '--merged'], {
+          cwd: '/path/to/repo',
+        })
+        .mockResolvedValue(['tag1']);
+
+      await getTagNames('/path/to/repo', { remote: 'upstream' });
+
+      expect(runCommandSpy).toHaveBeenCalledWith(
+        'git',
+        ['fetch', 'upstream', '--tags'],
+        { cwd: '/path/to/repo' },
+      );
+    });
+
+    it('does not fetch tags if fetchTags is false', async () => {
+      const runCommandSpy = jest.spyOn(miscUtils, 'runCommand');
+      when(jest.spyOn(miscUtils, 'getLinesFromCommand'))
+        .calledWith('git', ['tag', '--sort=version:refname', '--merged'], {
+          cwd: '/path/to/repo',
+        })
+        .mockResolvedValue(['tag1', 'tag2']);
+
+      expect(
+        await getTagNames('/path/to/repo', { fetchTags: false }),
+      ).toStrictEqual(['tag1', 'tag2']);
+      expect(runCommandSpy).not.toHaveBeenCalled();
+    });
+
     it('returns an empty array if the repo has no tags as long as it was not cloned shallowly', async () => {
       when(jest.spyOn(miscUtils, 'getLinesFromCommand'))
         .calledWith('git', ['tag', '--sort=version:refname', '--merged'], {
@@ -99,37 +158,42 @@ describe('repo', () => {
     });
   });
 
-  describe('hasChangesInDirectorySinceGitTag', () => {
-    it('returns true if "git diff" includes any files within the given directory, for the first call', async () => {
+  describe('getFilesChangedInDirectorySinceGitTag', () => {
+    it('returns the files within the given directory that "git diff" includes, relative to the directory, for the first call', async () => {
       when(jest.spyOn(miscUtils, 'getLinesFromCommand'))
         .calledWith('git', ['diff', 'v1.0.0', 'HEAD', '--name-only'], {
           cwd: '/path/to/repo',
         })
-        .mockResolvedValue(['file1', 'subdirectory/file1']);
+        .mockResolvedValue([
+          'file1',
+          'subdirectory/file1',
+          'subdirectory/src/file2',
+          'subdirectory-2/file1',
+        ]);
 
-      const hasChanges = await hasChangesInDirectorySinceGitTag(
+      const changedFilePaths = await getFilesChangedInDirectorySinceGitTag(
         '/path/to/repo',
         '/path/to/repo/subdirectory',
         'v1.0.0',
       );
 
-      expect(hasChanges).toBe(true);
+      expect(changedFilePaths).toStrictEqual(['file1', 'src/file2']);
     });
 
-    it('returns false if "git diff" does not include any files within the given directory, for the first call', async () => {
+    it('returns an empty array if "git diff" does not include any files within the given directory, for the first call', async () => {
       when(jest.spyOn(miscUtils, 'getLinesFromCommand'))
         .calledWith('git', ['diff', 'v2.0.0', 'HEAD', '--name-only'], {
           cwd: '/path/to/repo',
         })
         .mockResolvedValue(['file1', 'file2']);
 
-      const hasChanges = await hasChangesInDirectorySinceGitTag(
+      const changedFilePaths = await getFilesChangedInDirectorySinceGitTag(
         '/path/to/repo',
         '/path/to/repo/subdirectory',
         'v2.0.0',
       );
 
-      expect(hasChanges).toBe(false);
+      expect(changedFilePaths).toStrictEqual([]);
     });
 
     it('only runs "git diff" once when called more than once for the same tag name (even for a different subdirectory)', async () => {
@@ -137,12 +201,12 @@ describe('repo', () => {
         .spyOn(miscUtils, 'getLinesFromCommand')
         .mockResolvedValue([]);
 
-      await hasChangesInDirectorySinceGitTag(
+      await getFilesChangedInDirectorySinceGitTag(
         '/path/to/repo',
         '/path/to/repo/subdirectory1',
         'v3.0.0',
       );
-      await hasChangesInDirectorySinceGitTag(
+      await getFilesChangedInDirectorySinceGitTag(
         '/path/to/repo',
         '/path/to/repo/subdirectory2',
         'v3.0.0',
@@ -150,6 +214,81 @@ describe('repo', () => {
 
       expect(getLinesFromCommandSpy).toHaveBeenCalledTimes(1);
     });
+
+    it('runs "git diff" again for the same tag name once the cached diffs have been forgotten', async () => {
+      const getLinesFromCommandSpy = jest
+        .spyOn(miscUtils, 'getLinesFromCommand')
+        .mockResolvedValue([]);
+
+      await getFilesChangedInDirectorySinceGitTag(
+        '/path/to/repo',
+        '/path/to/repo/subdirectory',
+        'v4.0.0',
+      );
+      forgetFilesChangedSinceGitTags();
+      await getFilesChangedInDirectorySinceGitTag(
+        '/path/to/repo',
+        '/path/to/repo/subdirectory',
+        'v4.0.0',
+      );
+
+      expect(getLinesFromCommandSpy).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('getCommitMessagesInDirectorySinceGitTag', () => {
+    it('returns the messages of the commits which changed files within the given directory since the given tag', async () => {
+      when(jest.spyOn(miscUtils, 'getStdoutFromCommand'))
+        .calledWith(
+          'git',
+          [
+            'log',
+            '--format=%B%x00',
+            'v1.0.0..HEAD',
+            '--',
+            '/path/to/repo/subdirectory',
+          ],
+          { cwd: '/path/to/repo' },
+        )
+        .mockResolvedValue(
+          'feat: Add something\n\nMore details\n\0\nfix: Fix something\n\0\n',
+        );
+
+      const commitMessages = await getCommitMessagesInDirectorySinceGitTag(
+        '/path/to/repo',
+        '/path/to/repo/subdirectory',
+        'v1.0.0',
+      );
+
+      expect(commitMessages).toStrictEqual([
+        'feat: Add something\n\nMore details',
+        'fix: Fix something',
+      ]);
+    });
+
+    it('returns the messages of all commits which changed files within the given directory if no tag is given', async () => {
+      when(jest.spyOn(miscUtils, 'getStdoutFromCommand'))
+        .calledWith(
+          'git',
+          [
+            'log',
+            '--format=%B%x00',
+            'HEAD',
+            '--',
+            '/path/to/repo/subdirectory',
+          ],
+          { cwd: '/path/to/repo' },
+        )
+        .mockResolvedValue('Initial commit\n\0\n');
+
+      const commitMessages = await getCommitMessagesInDirectorySinceGitTag(
+        '/path/to/repo',
+        '/path/to/repo/subdirectory',
+        null,
+      );
+
+      expect(commitMessages).toStrictEqual(['Initial commit']);
+    });
   });
 
   describe('getCurrentBranchName', () => {
@@ -177,6 +316,25 @@ describe('repo', () => {
     });
   });
 
+  describe('getHeadCommitSubject', () => {
+    it('gets the subject of the commit that is checked out', async () => {
+      const getStdoutFromCommandSpy = jest.spyOn(
+        miscUtils,
+        'getStdoutFromCommand',
+      );
+
+      when(getStdoutFromCommandSpy)
+        .calledWith('git', ['log', '-1', '--format=%s'], {
+          cwd: '/path/to/project',
+        })
+        .mockResolvedValue('Update Release 1.1.1');
+
+      const subject = await getHeadCommitSubject('/path/to/project');
+
+      expect(subject).toBe('Update Release 1.1.1');
+    });
+  });
+
   describe('branchExists', () => {
     it('returns true when specified branch name exists', async () => {
       const releaseBranchName = 'release/1.0.0';
@@ -203,6 +361,255 @@ describe('repo', () => {
     });
   });
 
+  describe('getBranchNames', () => {
+    it('returns the names of the local branches', async () => {
+      when(jest.spyOn(miscUtils, 'getLinesFromCommand'))
+        .calledWith('git', ['branch', '--list', '--format=%(refname:short)'], {
+          cwd: '/path/to/repo',
+        })
+        .mockResolvedValue(['main', 'release/1.0.0']);
+
+      expect(await getBranchNames('/path/to/repo')).toStrictEqual([
+        'main',
+        'release/1.0.0',
+      ]);
+    });
+  });
+
+  describe('tagExists', () => {
+    it('returns true when specified tag name exists', async () => {
+      const getLinesFromCommandSpy = jest
+        .spyOn(miscUtils, 'getLinesFromCommand')
+        .mockResolvedValue(['abc123']);
+
+      expect(await tagExists('/path/to/repo', 'v1.0.0')).toBe(true);
+      expect(getLinesFromCommandSpy).toHaveBeenCalledWith(
+        'git',
+        ['rev-parse', '--verify', '--quiet', 'refs/tags/v1.0.0'],
+        { cwd: '/path/to/repo' },
+      );
+    });
+
+    it("returns false when specified tag name doesn't exist", async () => {
+      when(jest.spyOn(miscUtils, 'getLinesFromCommand'))
+        .calledWith(
+          'git',
+          ['rev-parse', '--verify', '--quiet', 'refs/tags/v1.0.0'],
+          { cwd: '/path/to/repo' },
+        )
+        .mockRejectedValue(Object.assign(new Error('failed'), { exitCode: 1 }));
+
+      expect(await tagExists('/path/to/repo', 'v1.0.0')).toBe(false);
+    });
+
+    it('re-throws an error encountered while looking up the tag, other than it not existing', async () => {
+      const error = Object.assign(new Error('not a git repository'), {
+        exitCode: 128,
+      });
+      when(jest.spyOn(miscUtils, 'getLinesFromCommand'))
+        .calledWith(
+          'git',
+          ['rev-parse', '--verify', '--quiet', 'refs/tags/v1.0.0'],
+          { cwd: '/path/to/repo' },
+        )
+        .mockRejectedValue(error);
+
+      await expect(tagExists('/path/to/repo', 'v1.0.0')).rejects.toThrow(error);
+    });
+  });
+
+  describe('revisionExists', () => {
+    it('returns true when the given revision refers to a commit', async () => {
+      when(jest.spyOn(miscUtils, 'getLinesFromCommand'))
+        .calledWith(
+          'git',
+          ['rev-parse', '--revs-only', 'origin/main^{commit}'],
+          {
+            cwd: '/path/to/repo',
+          },
+        )
+        .mockResolvedValue(['abc123']);
+
+      expect(await revisionExists('/path/to/repo', 'origin/main')).toBe(true);
+    });
+
+    it('returns false when the given revision does not refer to a commit', async () => {
+      when(jest.spyOn(miscUtils, 'getLinesFromCommand'))
+        .calledWith(
+          'git',
+          ['rev-parse', '--revs-only', 'origin/main^{commit}'],
+          {
+            cwd: '/path/to/repo',
+          },
+        )
+        .mockResolvedValue([]);
+
+      expect(await revisionExists('/path/to/repo', 'origin/main')).toBe(false);
+    });
+  });
+
+  describe('revisionContainsTag', () => {
+    it('returns true when the given tag is merged into the given revision', async () => {
+      when(jest.spyOn(miscUtils, 'getLinesFromCommand'))
+        .calledWith(
+          'git',
+          ['tag', '--merged', 'origin/main', '--list', 'v1.0.0'],
+          { cwd: '/path/to/repo' },
+        )
+        .mockResolvedValue(['v1.0.0']);
+
+      expect(
+        await revisionContainsTag('/path/to/repo', 'v1.0.0', 'origin/main'),
+      ).toBe(true);
+    });
+
+    it('returns false when the given tag is not merged into the given revision', async () => {
+      when(jest.spyOn(miscUtils, 'getLinesFromCommand'))
+        .calledWith(
+          'git',
+          ['tag', '--merged', 'origin/main', '--list', 'v1.0.0'],
+          { cwd: '/path/to/repo' },
+        )
+        .mockResolvedValue([]);
+
+      expect(
+        await revisionContainsTag('/path/to/repo', 'v1.0.0', 'origin/main'),
+      ).toBe(false);
+    });
+  });
+
+  describe('createAnnotatedTag', () => {
+    it('creates an annotated tag for the given commit, using the tag name as the message', async () => {
+      const runCommandSpy = jest.spyOn(miscUtils, 'runCommand');
+
+      await createAnnotatedTag('/path/to/repo', 'a@1.0.0', 'HEAD');
+
+      expect(runCommandSpy).toHaveBeenCalledWith(
+        'git',
+        ['tag', '--annotate', 'a@1.0.0', '--message', 'a@1.0.0', 'HEAD'],
+        { cwd: '/path/to/repo' },
+      );
+    });
+  });
+
+  describe('readFileAtRevision', () => {
+    it('returns the contents of the file at the given commit', async () => {
+      when(jest.spyOn(miscUtils, 'getLinesFromCommand'))
+        .calledWith(
+          'git',
+          ['ls-tree', '--name-only', 'HEAD^', '--', 'packages/a/package.json'],
+          { cwd: '/path/to/repo' },
+        )
+        .mockResolvedValue(['packages/a/package.json']);
+      when(jest.spyOn(miscUtils, 'getStdoutFromCommand'))
+        .calledWith('git', ['show', 'HEAD^:packages/a/package.json'], {
+          cwd: '/path/to/repo',
+        })
+        .mockResolvedValue('{"name":"a"}');
+
+      expect(
+        await readFileAtRevision(
+          '/path/to/repo',
+          'HEAD^',
+          'packages/a/package.json',
+        ),
+      ).toBe('{"name":"a"}');
+    });
+
+    it('returns null if the file did not exist at the given commit', async () => {
+      when(jest.spyOn(miscUtils, 'getLinesFromCommand'))
+        .calledWith(
+          'git',
+          ['ls-tree', '--name-only', 'HEAD^', '--', 'packages/a/package.json'],
+          { cwd: '/path/to/repo' },
+        )
+        .mockResolvedValue([]);
+
+      expect(
+        await readFileAtRevision(
+          '/path/to/repo',
+          'HEAD^',
+          'packages/a/package.json',
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe('listCommitsBetweenRevisions', () => {
+    it('returns the hash and subject of each non-merge commit reachable from the given revision but not the base revision, oldest first', async () => {
+      when(jest.spyOn(miscUtils, 'getLinesFromCommand'))
+        .calledWith(
+          'git',
+          ['log', '--reverse', '--no-merges', '--format=%H %s', 'v1.0.0..main'],
+          { cwd: '/path/to/repo' },
+        )
+        .mockResolvedValue(['abc123 Fix something', 'def456 Add a thing']);
+
+      expect(
+        await listCommitsBetweenRevisions('/path/to/repo', 'v1.0.0', 'main'),
+      ).toStrictEqual([
+        { hash: 'abc123', subject: 'Fix something' },
+        { hash: 'def456', subject: 'Add a thing' },
+      ]);
+    });
+  });
+
+  describe('getCherryPickedCommitHashes', () => {
+    it('returns the hashes of the commits that the commits since the given revision were cherry-picked from', async () => {
+      when(jest.spyOn(miscUtils, 'getStdoutFromCommand'))
+        .calledWith('git', ['log', '--format=%B', 'v1.0.0..HEAD'], {
+          cwd: '/path/to/repo',
+        })
+        .mockResolvedValue(
+          [
+            'Add a thing',
+            '',
+            '(cherry picked from commit def456)',
+            '',
+            'Update changelogs',
+            '',
+            'Fix something',
+            '',
+            'Some details (cherry picked from commit 000000)',
+            '',
+            '(cherry picked from commit abc123)',
+          ].join('\n'),
+        );
+
+      expect(
+        await getCherryPickedCommitHashes('/path/to/repo', 'v1.0.0'),
+      ).toStrictEqual(['def456', 'abc123']);
+    });
+  });
+
+  describe('cherryPickCommits', () => {
+    it('cherry-picks the given commits, noting the original commit in each message', async () => {
+      const runCommandSpy = jest.spyOn(miscUtils, 'runCommand');
+
+      await cherryPickCommits('/path/to/repo', ['abc123', 'def456']);
+
+      expect(runCommandSpy).toHaveBeenCalledWith(
+        'git',
+        ['cherry-pick', '-x', 'abc123', 'def456'],
+        { cwd: '/path/to/repo' },
+      );
+    });
+  });
+
+  describe('pushBranch', () => {
+    it('pushes the given branch to the given remote, setting it as the upstream', async () => {
+      const runCommandSpy = jest.spyOn(miscUtils, 'runCommand');
+
+      await pushBranch('/path/to/repo', 'origin', 'release/1.0.0');
+
+      expect(runCommandSpy).toHaveBeenCalledWith(
+        'git',
+        ['push', '--set-upstream', 'origin', 'release/1.0.0'],
+        { cwd: '/path/to/repo' },
+      );
+    });
+  });
+
   describe('restoreFiles', () => {
     it('should call runCommand with the correct arguments', async () => {
       const getStdoutFromCommandSpy = jest.spyOn(
@@ -1,4 +1,5 @@
 import path from 'path';
+import { isObject } from '@metamask/utils';
 import {
   runCommand,
   getStdoutFromCommand,
@@ -156,6 +157,20 @@ export function getCurrentBranchName(repositoryDirectoryPath: string) {
   ]);
 }
 
+/**
+ * Retrieves the subject (the first line of the message) of the commit that is
+ * checked out in a git repository.
+ *
+ * @param repositoryDirectoryPath - The file system path to the git repository.
+ * @returns The subject of the commit at HEAD.
+ */
+export function getHeadCommitSubject(repositoryDirectoryPath: string) {
+  return getStdoutFromGitCommandWithin(repositoryDirectoryPath, 'log', [
+    '-1',
+    '--format=%s',
+  ]);
+}
+
 /**
  * Restores specific files in a git repository to their state at the common ancestor commit
  * of the current HEAD and the repository's default branch.
@@ -206,19 +221,178 @@ export async function branchExists(
   return branchNames.length > 0;
 }
 
+/**
+ * Retrieves the names of the local branches in the given git repository.
+ *
+ * @param repositoryDirectoryPath - The file system path to the git repository.
+ * @returns A promise for the names of the branches.
+ */
+export async function getBranchNames(repositoryDirectoryPath: string) {
+  return await getLinesFromGitCommandWithin(repositoryDirectoryPath, 'branch', [
+    '--list',
+    '--format=%(refname:short)',
+  ]);
+}
+
+/**
+ * Checks if a specific tag exists in the given git repository. The tag is
+ * looked up by its full ref rather than listed, as `git tag --list` would
+ * treat the name as a pattern.
+ *
+ * @param repositoryDirectoryPath - The file system path to the git repository.
+ * @param tagName - The name of the tag to check for existence.
+ * @returns A promise that resolves to `true` if the tag exists, `false` otherwise.
+ * @throws An execa error object if the ref could not be looked up for another
+ * reason.
+ */
+export async function tagExists(
+  repositoryDirectoryPath: string,
+  tagName: string,
+) {
+  try {
+    await getLinesFromGitCommandWithin(repositoryDirectoryPath, 'rev-parse', [
+      '--verify',
+      '--quiet',
+      `refs/tags/${tagName}`,
+    ]);
+    return true;
+  } catch (error) {
+    // `--quiet` makes `git rev-parse --verify` exit with 1, without printing
+    // anything, if the ref does not exist.
+    if (isObject(error) && error.exitCode === 1) {
+      return false;
+    }
+
+    throw error;
+  }
+}
+
+/**
+ * Checks whether the given revision (such as a branch, a tag, or a commit)
+ * refers to a commit in the given git repository.
+ *
+ * @param repositoryDirectoryPath - The file system path to the git repository.
+ * @param revision - The revision to check for existence.
+ * @returns A promise that resolves to `true` if the revision exists, `false`
+ * otherwise.
+ */
+export async function revisionExists(
+  repositoryDirectoryPath: string,
+  revision: string,
+) {
+  const commitIds = await getLinesFromGitCommandWithin(
+    repositoryDirectoryPath,
+    'rev-parse',
+    ['--revs-only', `${revision}^{commit}`],
+  );
+  return commitIds.length > 0;
+}
+
+/**
+ * Checks whether the given tag points to the given revision or to one of its
+ * ancestors in the given git repository.
+ *
+ * @param repositoryDirectoryPath - The file system path to the git repository.
+ * @param tagName - The name of the tag.
+ * @param revision - The revision which may contain the tag.
+ * @returns A promise that resolves to `true` if the revision contains the tag,
+ * `false` otherwise.
+ */
+export async function revisionContainsTag(
+  repositoryDirectoryPath: string,
+  tagName: string,
+  revision: string,
+) {
+  const tagNames = await getLinesFromGitCommandWithin(
+    repositoryDirectoryPath,
+    'tag',
+    ['--merged', revision, '--list', tagName],
+  );
+  return tagNames.length > 0;
+}
+
+/**
+ * Creates an annotated tag in the given git repository, using the name of the
+ * tag as its message.
+ *
+ * @param repositoryDirectoryPath - The file system path to the git repository.
+ * @param tagName - The name of the tag to create.
+ * @param revision - The commit to tag (e.g. "HEAD").
+ */
+export async function createAnnotatedTag(
+  repositoryDirectoryPath: string,
+  tagName: string,
+  revision: string,
+) {
+  await runGitCommandWithin(repositoryDirectoryPath, 'tag', [
+    '--annotate',
+    tagName,
+    '--message',
+    tagName,
+    revision,
+  ]);
+}
+
+/**
+ * Reads the contents of a file as it was at the given commit.
+ *
+ * @param repositoryDirectoryPath - The file system path to the git repository.
+ * @param revision - The commit at which to read the file (e.g. "HEAD^").
+ * @param filePath - The path to the file, relative to the repository root.
+ * @returns The contents of the file, or null if the file did not exist at the
+ * given commit.
+ */
+export async function readFileAtRevision(
+  repositoryDirectoryPath: string,
+  revision: string,
+  filePath: string,
+): Promise<string | null> {
+  const matchingFilePaths = await getLinesFromGitCommandWithin(
+    repositoryDirectoryPath,
+    'ls-tree',
+    ['--name-only', revision, '--', filePath],
+  );
+
+  if (matchingFilePaths.length === 0) {
+    return null;
+  }
+
+  return await getStdoutFromCommand(
+    'git',
+    ['show', `${revision}:${filePath}`],
+    {
+      cwd: repositoryDirectoryPath,
+    },
+  );
+}
+
 /**
  * Retrieves the names of the tags in the given repo, sorted by ascending
- * semantic version order. As this fetches tags from the remote first, you are
- * advised to only run this once.
+ * semantic version order. As this fetches tags from the remote first (unless
+ * told not to), you are advised to only run this once.
  *
  * @param repositoryDirectoryPath - The path to the repository directory.
+ * @param options - The options.
+ * @param options.fetchTags - Whether to fetch tags from the remote before
+ * listing them.
+ * @param options.remote - The name of the remote from which to fetch tags, or
+ * null to use the default remote.
  * @returns The names of the tags.
  * @throws If no tags are found and the local git history is incomplete.
  */
 export async function getTagNames(
   repositoryDirectoryPath: string,
+  {
+    fetchTags = true,
+    remote = null,
+  }: { fetchTags?: boolean; remote?: string | null } = {},
 ): Promise<string[]> {
-  await runGitCommandWithin(repositoryDirectoryPath, 'fetch', ['--tags']);
+  if (fetchTags) {
+    await runGitCommandWithin(repositoryDirectoryPath, 'fetch', [
+      ...(remote === null ? [] : [remote]),
+      '--tags',
+    ]);
+  }
 
   const tagNames = await getLinesFromGitCommandWithin(
     repositoryDirectoryPath,
@@ -244,21 +418,140 @@ export async function getTagNames(
 }
 
 /**
- * Calculates whether there have been any commits in the given repo since the
- * given tag that include changes to any of the files within the given
- * subdirectory within that repo. The result is cached so that multiple calls
- * using the same tag name do not re-request the diff.
+ * A commit, identified by its hash and summarized by its subject (the first
+ * line of its message).
+ *
+ * @property hash - The full hash of the commit.
+ * @property subject - The subject of the commit.
+ */
+export type Commit = {
+  hash: string;
+  subject: string;
+};
+
+/**
+ * Lists the commits (other than merge commits) which are reachable from the
+ * given revision but not from the given base revision, oldest first.
+ *
+ * @param repositoryDirectoryPath - The file system path to the git repository.
+ * @param baseRevision - The revision whose commits are excluded.
+ * @param revision - The revision whose commits are listed.
+ * @returns A promise that resolves to the commits.
+ */
+export async function listCommitsBetweenRevisions(
+  repositoryDirectoryPath: string,
+  baseRevision: string,
+  revision: string,
+): Promise<Commit[]> {
+  const lines = await getLinesFromGitCommandWithin(
+    repositoryDirectoryPath,
+    'log',
+    [
+      '--reverse',
+      '--no-merges',
+      '--format=%H %s',
+      `${baseRevision}..${revision}`,
+    ],
+  );
+
+  return lines.map((line) => {
+    const [hash, ...subjectWords] = line.split(' ');
+    return { hash, subject: subjectWords.join(' ') };
+  });
+}
+
+/**
+ * Finds the commits which have been cherry-picked (with `git cherry-pick -x`)
+ * since the given revision, by reading the line that such a cherry-pick adds to
+ * the message of each new commit.
+ *
+ * @param repositoryDirectoryPath - The file system path to the git repository.
+ * @param baseRevision - The revision after which to look for cherry-picks.
+ * @returns A promise that resolves to the hashes of the original commits.
+ */
+export async function getCherryPickedCommitHashes(
+  repositoryDirectoryPath: string,
+  baseRevision: string,
+): Promise<string[]> {
+  const stdout = await getStdoutFromCommand(
+    'git',
+    ['log', '--format=%B', `${baseRevision}..HEAD`],
+    { cwd: repositoryDirectoryPath },
+  );
+
+  return Array.from(
+    stdout.matchAll(/^\(cherry picked from commit ([0-9a-f]+)\)$/gmu),
+    (match) => match[1],
+  );
+}
+
+/**
+ * Applies the changes introduced by the given commits to the current branch,
+ * creating a new commit for each. The message of each new commit notes the
+ * commit it was cherry-picked from.
+ *
+ * @param repositoryDirectoryPath - The file system path to the git repository.
+ * @param commitHashes - The hashes of the commits to cherry-pick, in the order
+ * in which to apply them.
+ * @throws An execa error object if a commit cannot be applied (for instance,
+ * because of a conflict).
+ */
+export async function cherryPickCommits(
+  repositoryDirectoryPath: string,
+  commitHashes: string[],
+): Promise<void> {
+  await runGitCommandWithin(repositoryDirectoryPath, 'cherry-pick', [
+    '-x',
+    ...commitHashes,
+  ]);
+}
+
+/**
+ * Pushes the given branch to the given remote, setting the remote branch as
+ * the upstream of the local branch.
+ *
+ * @param repositoryDirectoryPath - The file system path to the git repository.
+ * @param remote - The name of the remote.
+ * @param branchName - The name of the branch.
+ */
+export async function pushBranch(
+  repositoryDirectoryPath: string,
+  remote: string,
+  branchName: string,
+): Promise<void> {
+  await runGitCommandWithin(repositoryDirectoryPath, 'push', [
+    '--set-upstream',
+    remote,
+    branchName,
+  ]);
+}
+
+/**
+ * Discards the diffs cached by `getFilesChangedInDirectorySinceGitTag`. They
+ * are only valid for the commit that was checked out when they were requested,
+ * so they must be discarded once a different commit is checked out.
+ */
+export function forgetFilesChangedSinceGitTags() {
+  for (const tagName of Object.keys(CHANGED_FILE_PATHS_BY_TAG_NAME)) {
+    delete CHANGED_FILE_PATHS_BY_TAG_NAME[tagName];
+  }
+}
+
+/**
+ * Lists the files within the given subdirectory of the given repo that have
+ * changed in any of the commits since the given tag. The diff is cached so that
+ * multiple calls using the same tag name do not re-request it.
  *
  * @param repositoryDirectoryPath - The path to the repository directory.
  * @param subdirectoryPath - The path to a subdirectory within the repository.
  * @param tagName - The name of a tag in the repository.
- * @returns True or false, depending on the result.
+ * @returns The paths to the changed files, relative to the subdirectory.
  */
-export async function hasChangesInDirectorySinceGitTag(
+export async function getFilesChangedInDirectorySinceGitTag(
   repositoryDirectoryPath: string,
   subdirectoryPath: string,
   tagName: string,
-): Promise<boolean> {
+): Promise<string[]> {
   if (!(tagName in CHANGED_FILE_PATHS_BY_TAG_NAME)) {
     const changedFilePaths = await getFilesChangedSince(
       repositoryDirectoryPath,
@@ -271,7 +564,40 @@ export async function hasChangesInDirectorySinceGitTag(
     }
   }
 
-  return CHANGED_FILE_PATHS_BY_TAG_NAME[tagName].some((filePath) => {
-    return filePath.startsWith(subdirectoryPath);
-  });
+  return CHANGED_FILE_PATHS_BY_TAG_NAME[tagName]
+    .filter((filePath) => filePath.startsWith(`${subdirectoryPath}/`))
+    .map((filePath) => path.relative(subdirectoryPath, filePath));
+}
+
+/**
+ * Retrieves the full messages of the commits in the given repo which include
+ * changes to any of the files within the given subdirectory, starting from the
+ * commit after the given tag (or from the first commit, if there is no tag).
+ *
+ * @param repositoryDirectoryPath - The path to the repository directory.
+ * @param subdirectoryPath - The path to a subdirectory within the repository.
+ * @param tagName - The name of a tag in the repository, or null.
+ * @returns The commit messages, most recent first.
+ */
+export async function getCommitMessagesInDirectorySinceGitTag(
+  repositoryDirectoryPath: string,
+  subdirectoryPath: string,
+  tagName: string | null,
+): Promise<string[]> {
+  const stdout = await getStdoutFromCommand(
+    'git',
+    [
+      'log',
+      '--format=%B%x00',
+      tagName === null ? 'HEAD' : `${tagName}..HEAD`,
+      '--',
+      subdirectoryPath,
+    ],
+    { cwd: repositoryDirectoryPath },
+  );
+
+  return stdout
+    .split('\0')
+    .map((message) => message.trim())
+    .filter((message) => message !== '');
 }
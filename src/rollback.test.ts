@@ -0,0 +1,163 @@
+import fs from 'fs';
+import path from 'path';
+import { withSandbox } from '../tests/helpers.js';
+import {
+  findChangedFileSnapshots,
+  ReleaseRolledBackError,
+  restoreFileSnapshots,
+  takeFileSnapshots,
+  withRollback,
+} from './rollback.js';
+
+describe('rollback', () => {
+  describe('takeFileSnapshots', () => {
+    it('records the content of each file, or null if it does not exist, once per path', async () => {
+      await withSandbox(async (sandbox) => {
+        const existingFilePath = path.join(sandbox.directoryPath, 'a.txt');
+        const missingFilePath = path.join(sandbox.directoryPath, 'b.txt');
+        await fs.promises.writeFile(existingFilePath, 'some content');
+
+        expect(
+          await takeFileSnapshots([
+            existingFilePath,
+            missingFilePath,
+            existingFilePath,
+          ]),
+        ).toStrictEqual([
+          { filePath: existingFilePath, content: 'some content' },
+          { filePath: missingFilePath, content: null },
+        ]);
+      });
+    });
+  });
+
+  describe('findChangedFileSnapshots', () => {
+    it('returns the snapshots of the files whose content has changed since', async () => {
+      await withSandbox(async (sandbox) => {
+        const changedFilePath = path.join(sandbox.directoryPath, 'a.txt');
+        const createdFilePath = path.join(sandbox.directoryPath, 'b.txt');
+        const unchangedFilePath = path.join(sandbox.directoryPath, 'c.txt');
+        await fs.promises.writeFile(changedFilePath, 'new content');
+        await fs.promises.writeFile(createdFilePath, 'new content');
+        await fs.promises.writeFile(unchangedFilePath, 'some content');
+
+        expect(
+          await findChangedFileSnapshots([
+            { filePath: changedFilePath, content: 'original content' },
+            { filePath: createdFilePath, content: null },
+            { filePath: unchangedFilePath, content: 'some content' },
+          ]),
+        ).toStrictEqual([
+          { filePath: changedFilePath, content: 'original content' },
+          { filePath: createdFilePath, content: null },
+        ]);
+      });
+    });
+  });
+
+  describe('restoreFileSnapshots', () => {
+    it('rewrites changed files, removes files that did not exist, leaves unchanged files alone, and returns the paths of the files it restored', async () => {
+      await withSandbox(async (sandbox) => {
+        const changedFilePath = path.join(sandbox.directoryPath, 'a.txt');
+        const createdFilePath = path.join(sandbox.directoryPath, 'b.txt');
+        const unchangedFilePath = path.join(sandbox.directoryPath, 'c.txt');
+        await fs.promises.writeFile(changedFilePath, 'new content');
+        await fs.promises.writeFile(createdFilePath, 'new content');
+        await fs.promises.writeFile(unchangedFilePath, 'some content');
+
+        const restoredFilePaths = await restoreFileSnapshots([
+          { filePath: changedFilePath, content: 'original content' },
+          { filePath: createdFilePath, content: null },
+          { filePath: unchangedFilePath, content: 'some content' },
+        ]);
+
+        expect(restoredFilePaths).toStrictEqual([
+          changedFilePath,
+          createdFilePath,
+        ]);
+        expect(await fs.promises.readFile(changedFilePath, 'utf8')).toBe(
+          'original content',
+        );
+        await expect(fs.promises.stat(createdFilePath)).rejects.toMatchObject({
+          code: 'ENOENT',
+        });
+      });
+    });
+  });
+
+  describe('withRollback', () => {
+    it('returns what the given function returns, leaving the files it changed alone', async () => {
+      await withSandbox(async (sandbox) => {
+        const filePath = path.join(sandbox.directoryPath, 'a.txt');
+        await fs.promises.writeFile(filePath, 'original content');
+
+        const result = await withRollback(
+          {
+            projectDirectoryPath: sandbox.directoryPath,
+            filePaths: [filePath],
+          },
+          async () => {
+            await fs.promises.writeFile(filePath, 'new content');
+            return 'some result';
+          },
+        );
+
+        expect(result).toBe('some result');
+        expect(await fs.promises.readFile(filePath, 'utf8')).toBe(
+          'new content',
+        );
+      });
+    });
+
+    it('restores the files if the given function throws, then throws an error which lists the restored files relative to the project directory', async () => {
+      await withSandbox(async (sandbox) => {
+        const filePath = path.join(sandbox.directoryPath, 'packages', 'a.txt');
+        const error = new Error('oops');
+        await fs.promises.mkdir(path.dirname(filePath));
+        await fs.promises.writeFile(filePath, 'original content');
+
+        const promise = withRollback(
+          {
+            projectDirectoryPath: sandbox.directoryPath,
+            filePaths: [filePath],
+          },
+          async () => {
+            await fs.promises.writeFile(filePath, 'new content');
+            throw error;
+          },
+        );
+
+        await expect(promise).rejects.toThrow(
+          new ReleaseRolledBackError(['packages/a.txt'], error),
+        );
+        await expect(promise).rejects.toMatchObject({
+          message:
+            'Could not prepare the release: oops\n\nThe following files have been restored to the state they were in before the release was prepared:\n\n- packages/a.txt',
+          rolledBackFilePaths: ['packages/a.txt'],
+          cause: error,
+        });
+        expect(await fs.promises.readFile(filePath, 'utf8')).toBe(
+          'original content',
+        );
+      });
+    });
+
+    it('says that there was nothing to roll back if the given function throws before changing any files', async () => {
+      await withSandbox(async (sandbox) => {
+        await expect(
+          withRollback(
+            {
+              projectDirectoryPath: sandbox.directoryPath,
+              filePaths: [path.join(sandbox.directoryPath, 'a.txt')],
+            },
+            async () => {
+              throw new Error('oops');
+            },
+          ),
+        ).rejects.toThrow(
+          'Could not prepare the release: oops\n\nNo files had been changed yet, so there was nothing to roll back.',
+        );
+      });
+    });
+  });
+});
@@ -0,0 +1,149 @@
+import path from 'path';
+import { ErrorWithCause } from 'pony-cause';
+import { getErrorMessage } from '@metamask/utils';
+import { fileExists, readFile, removeFile, writeFile } from './fs.js';
+
+/**
+ * The content of a file at the point before the tool started to change it.
+ *
+ * @property filePath - The path to the file.
+ * @property content - The content of the file, or null if the file did not
+ * exist.
+ */
+export type FileSnapshot = {
+  filePath: string;
+  content: string | null;
+};
+
+/**
+ * An error thrown when a step in preparing a release fails, once the files
+ * that had been changed up to that point have been restored.
+ */
+export class ReleaseRolledBackError extends ErrorWithCause<unknown> {
+  /**
+   * The paths to the files that were restored, relative to the project
+   * directory.
+   */
+  rolledBackFilePaths: string[];
+
+  /**
+   * Constructs a ReleaseRolledBackError.
+   *
+   * @param rolledBackFilePaths - The paths to the files that were restored,
+   * relative to the project directory.
+   * @param cause - The error that caused the release to be rolled back.
+   */
+  constructor(rolledBackFilePaths: string[], cause: unknown) {
+    const summary =
+      rolledBackFilePaths.length > 0
+        ? [
+            'The following files have been restored to the state they were in before the release was prepared:',
+            rolledBackFilePaths.map((filePath) => `- ${filePath}`).join('\n'),
+          ].join('\n\n')
+        : 'No files had been changed yet, so there was nothing to roll back.';
+    super(
+      `Could not prepare the release: ${getErrorMessage(cause)}\n\n${summary}`,
+      { cause },
+    );
+    this.name = 'ReleaseRolledBackError';
+    this.rolledBackFilePaths = rolledBackFilePaths;
+  }
+}
+
+/**
+ * Records the content of the given files.
+ *
+ * @param filePaths - The paths to the files.
+ * @returns A snapshot of each file.
+ */
+export async function takeFileSnapshots(
+  filePaths: string[],
+): Promise<FileSnapshot[]> {
+  return await Promise.all(
+    [...new Set(filePaths)].map(async (filePath) => ({
+      filePath,
+      content: (await fileExists(filePath)) ? await readFile(filePath) : null,
+    })),
+  );
+}
+
+/**
+ * Finds the snapshots of the files whose content has changed since the
+ * snapshots were taken.
+ *
+ * @param snapshots - The snapshots.
+ * @returns The snapshots of the changed files.
+ */
+export async function findChangedFileSnapshots(
+  snapshots: FileSnapshot[],
+): Promise<FileSnapshot[]> {
+  const currentSnapshots = await takeFileSnapshots(
+    snapshots.map(({ filePath }) => filePath),
+  );
+  return snapshots.filter(
+    (snapshot, index) => snapshot.content !== currentSnapshots[index].content,
+  );
+}
+
+/**
+ * Restores the given files to the content recorded in their snapshots. Files
+ * which did not exist when the snapshot was taken are removed, and files which
+ * have not changed are left alone.
+ *
+ * @param snapshots - The snapshots to restore.
+ * @returns The paths to the files that were changed in order to restore them.
+ */
+export async function restoreFileSnapshots(
+  snapshots: FileSnapshot[],
+): Promise<string[]> {
+  const changedSnapshots = await findChangedFileSnapshots(snapshots);
+
+  await Promise.all(
+    changedSnapshots.map(async ({ filePath, content }) => {
+      if (content === null) {
+        await removeFile(filePath);
+      } else {
+        await writeFile(filePath, content);
+      }
+    }),
+  );
+
+  return changedSnapshots.map(({ filePath }) => filePath);
+}
+
+/**
+ * Runs the given function, which is expected to change some of the given
+ * files. If the function throws, the files are restored to their original
+ * content before the error is rethrown, so that a failure partway through
+ * does not leave the project half-modified.
+ *
+ * @param args - The arguments.
+ * @param args.projectDirectoryPath - The path to the project directory.
+ * @param args.filePaths - The paths to all of the files that the function may
+ * change.
+ * @param fn - The function to run.
+ * @returns What the function returns.
+ * @throws A ReleaseRolledBackError wrapping the error thrown by the function,
+ * which lists the files that were restored.
+ */
+export async function withRollback<T>(
+  {
+    projectDirectoryPath,
+    filePaths,
+  }: { projectDirectoryPath: string; filePaths: string[] },
+  fn: () => Promise<T>,
+): Promise<T> {
+  const snapshots = await takeFileSnapshots(filePaths);
+
+  try {
+    return await fn();
+  } catch (error) {
+    const restoredFilePaths = await restoreFileSnapshots(snapshots);
+    throw new ReleaseRolledBackError(
+      restoredFilePaths.map((filePath) =>
+        path.relative(projectDirectoryPath, filePath),
+      ),
+      error,
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import {
+  DEFAULT_TAG_NAME_TEMPLATES,
+  fillTagNameTemplate,
+  getTagNamePrefix,
+  isTagNameTemplate,
+} from './tag-name-template.js';
+
+describe('tag-name-template', () => {
+  describe('isTagNameTemplate', () => {
+    it.each([
+      DEFAULT_TAG_NAME_TEMPLATES.root,
+      DEFAULT_TAG_NAME_TEMPLATES.workspace,
+      `release-\${version}`,
+      `\${unscopedName}-v\${version}`,
+    ])('returns true for "%s"', (template) => {
+      expect(isTagNameTemplate(template)).toBe(true);
+    });
+
+    it.each([
+      ['a value which is not a string', 1],
+      ['a template which does not refer to the version', `\${name}`],
+      ['a template which does not end with the version', `v\${version}-x`],
+      [
+        'a template which refers to the version more than once',
+        `\${version}-\${version}`,
+      ],
+      ['a template which refers to an unknown placeholder', `\${x}\${version}`],
+    ])('returns false for %s', (_description, value) => {
+      expect(isTagNameTemplate(value)).toBe(false);
+    });
+  });
+
+  describe('getTagNamePrefix', () => {
+    it('fills in the name of the package, leaving off the version', () => {
+      expect(
+        getTagNamePrefix(DEFAULT_TAG_NAME_TEMPLATES.workspace, '@scope/a'),
+      ).toBe('@scope/a@');
+    });
+
+    it('fills in the name of the package without its scope', () => {
+      expect(
+        getTagNamePrefix(`\${unscopedName}-v\${version}`, '@scope/a'),
+      ).toBe('a-v');
+    });
+  });
+
+  describe('fillTagNameTemplate', () => {
+    it('fills in the name and version of the package', () => {
+      expect(
+        fillTagNameTemplate(
+          `\${unscopedName}-v\${version}`,
+          '@scope/a',
+          '1.2.3',
+        ),
+      ).toBe('a-v1.2.3');
+    });
+
+    it('works with templates which do not refer to the package', () => {
+      expect(
+        fillTagNameTemplate(DEFAULT_TAG_NAME_TEMPLATES.root, 'root', '1.2.3'),
+      ).toBe('v1.2.3');
+    });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Templates for the names of the Git tags which mark releases of the packages
+ * in a project. A template may refer to the name of the package (`${name}`),
+ * the name of the package without its scope (`${unscopedName}`), and the
+ * version of the package (`${version}`), which must come at the end so that
+ * the changelog can link each release to its tag.
+ *
+ * @property root - The template for tags of the root package.
+ * @property workspace - The template for tags of workspace packages.
+ */
+export type TagNameTemplates = {
+  root: string;
+  workspace: string;
+};
+
+/**
+ * The templates for the tag names that this tool has always used: "v" + the
+ * version for the root package, and the package name + "@" + the version for
+ * workspace packages.
+ */
+export const DEFAULT_TAG_NAME_TEMPLATES: TagNameTemplates = {
+  // eslint-disable-next-line no-template-curly-in-string
+  root: 'v${version}',
+  // eslint-disable-next-line no-template-curly-in-string
+  workspace: '${name}@${version}',
+};
+
+/**
+ * Matches a placeholder within a tag name template.
+ */
+const PLACEHOLDER_REGEX = /\$\{([^}]*)\}/gu;
+
+/**
+ * The names of the placeholders that may be used in a tag name template.
+ */
+const PLACEHOLDER_NAMES = ['name', 'unscopedName', 'version'];
+
+/**
+ * Type guard to ensure that the given value is a tag name template which only
+ * uses known placeholders and which ends with the version (and does not refer
+ * to it anywhere else).
+ *
+ * @param value - The value to check.
+ * @returns Whether the value is a valid tag name template.
+ */
+export function isTagNameTemplate(value: unknown): value is string {
+  if (typeof value !== 'string') {
+    return false;
+  }
+
+  const placeholderNames = Array.from(
+    value.matchAll(PLACEHOLDER_REGEX),
+    (match) => match[1],
+  );
+
+  return (
+    placeholderNames.every((placeholderName) =>
+      PLACEHOLDER_NAMES.includes(placeholderName),
+    ) &&
+    placeholderNames.filter((placeholderName) => placeholderName === 'version')
+      .length === 1 &&
+    value.endsWith(`\${version}`)
+  );
+}
+
+/**
+ * Fills in the given tag name template for the given package, leaving off the
+ * version. This is the prefix that `@metamask/auto-changelog` expects.
+ *
+ * @param template - The tag name template.
+ * @param packageName - The name of the package.
+ * @returns The tag name prefix.
+ */
+export function getTagNamePrefix(
+  template: string,
+  packageName: string,
+): string {
+  const values: Record<string, string> = {
+    name: packageName,
+    unscopedName: packageName.replace(/^@[^/]+\//u, ''),
+  };
+
+  return template
+    .slice(0, template.lastIndexOf(`\${version}`))
+    .replace(PLACEHOLDER_REGEX, (_match, placeholderName) => {
+      return values[placeholderName];
+    });
+}
+
+/**
+ * Fills in the given tag name template for the given release of a package.
+ *
+ * @param template - The tag name template.
+ * @param packageName - The name of the package.
+ * @param packageVersion - The version of the package.
+ * @returns The tag name.
+ */
+export function fillTagNameTemplate(
+  template: string,
+  packageName: string,
+  packageVersion: string,
+): string {
+  return `${getTagNamePrefix(template, packageName)}${packageVersion}`;
+}
@@ -0,0 +1,265 @@
+import { MockWritable } from 'stdio-mock';
+import { buildMockManifest } from '../tests/unit/helpers.js';
+import { followTagWorkflow } from './tag-workflow-operations.js';
+import * as packageManagerModule from './package-manager.js';
+import * as packageManifestModule from './package-manifest.js';
+import * as repoModule from './repo.js';
+
+jest.mock('./package-manager');
+jest.mock('./repo');
+
+/**
+ * Mocks the dependencies for `followTagWorkflow` for a monorepo with the
+ * workspace packages "a", "b", and "c".
+ *
+ * @param args - The arguments.
+ * @param args.manifests - The manifests of the packages in the project, by
+ * commit and then by path.
+ * @param args.existingTagNames - The tags which already exist.
+ * @param args.unvalidatedRootManifest - The manifest of the root package as it
+ * is currently checked out.
+ * @returns The corresponding mock functions for each of the dependencies.
+ */
+function setupFollowTagWorkflow({
+  manifests,
+  existingTagNames = [],
+  unvalidatedRootManifest = {},
+}: {
+  manifests: Record<string, Record<string, { name: string; version: string }>>;
+  existingTagNames?: string[];
+  unvalidatedRootManifest?: Record<string, unknown>;
+}) {
+  const stdout = new MockWritable();
+  jest.spyOn(packageManifestModule, 'readPackageManifest').mockResolvedValue({
+    unvalidated: unvalidatedRootManifest,
+    validated: buildMockManifest(),
+  });
+  jest.spyOn(packageManagerModule, 'detectPackageManager').mockResolvedValue({
+    name: 'yarn',
+    lockfileName: 'yarn.lock',
+    listWorkspaceDirectories: jest
+      .fn()
+      .mockResolvedValue(['packages/a', 'packages/b', 'packages/c']),
+    updateLockfile: jest.fn(),
+  });
+  jest
+    .spyOn(repoModule, 'readFileAtRevision')
+    .mockImplementation(
+      async (_repositoryDirectoryPath, revision, filePath) => {
+        const manifest = manifests[revision]?.[filePath];
+        return manifest === undefined ? null : JSON.stringify(manifest);
+      },
+    );
+  jest
+    .spyOn(repoModule, 'tagExists')
+    .mockImplementation(async (_repositoryDirectoryPath, tagName) =>
+      existingTagNames.includes(tagName),
+    );
+  const createAnnotatedTagSpy = jest.spyOn(repoModule, 'createAnnotatedTag');
+
+  return { stdout, createAnnotatedTagSpy };
+}
+
+describe('tag-workflow-operations', () => {
+  describe('followTagWorkflow', () => {
+    const manifests = {
+      'HEAD^': {
+        'package.json': { name: 'root', version: '1.0.0' },
+        'packages/a/package.json': { name: 'a', version: '1.0.0' },
+        'packages/b/package.json': { name: 'b', version: '1.0.0' },
+        'packages/c/package.json': { name: 'c', version: '0.0.1' },
+      },
+      HEAD: {
+        'package.json': { name: 'root', version: '2.0.0' },
+        'packages/a/package.json': { name: 'a', version: '1.1.0' },
+        'packages/b/package.json': { name: 'b', version: '1.0.0' },
+        'packages/c/package.json': { name: 'c', version: '0.1.0' },
+      },
+    };
+
+    it('creates a tag for the root package and for each workspace package whose version changed in the given commit', async () => {
+      const { stdout, createAnnotatedTagSpy } = setupFollowTagWorkflow({
+        manifests,
+      });
+
+      await followTagWorkflow({
+        projectDirectoryPath: '/path/to/project',
+        revision: 'HEAD',
+        stdout,
+      });
+
+      expect(createAnnotatedTagSpy.mock.calls).toStrictEqual([
+        ['/path/to/project', 'v2.0.0', 'HEAD'],
+        ['/path/to/project', 'a@1.1.0', 'HEAD'],
+        ['/path/to/project', 'c@0.1.0', 'HEAD'],
+      ]);
+      expect(stdout.data()).toStrictEqual([
+        'Created v2.0.0.\nCreated a@1.1.0.\nCreated c@0.1.0.\n',
+      ]);
+    });
+
+    it('names the tags according to the templates given in the options for this tool', async () => {
+      const { stdout, createAnnotatedTagSpy } = setupFollowTagWorkflow({
+        manifests,
+        unvalidatedRootManifest: {
+          'create-release-branch': {
+            tagNameTemplates: {
+              root: `release-\${version}`,
+              workspace: `\${unscopedName}-v\${version}`,
+            },
+          },
+        },
+      });
+
+      await followTagWorkflow({
+        projectDirectoryPath: '/path/to/project',
+        revision: 'HEAD',
+        stdout,
+      });
+
+      expect(createAnnotatedTagSpy.mock.calls).toStrictEqual([
+        ['/path/to/project', 'release-2.0.0', 'HEAD'],
+        ['/path/to/project', 'a-v1.1.0', 'HEAD'],
+        ['/path/to/project', 'c-v0.1.0', 'HEAD'],
+      ]);
+    });
+
+    it('skips tags that already exist', async () => {
+      const { stdout, createAnnotatedTagSpy } = setupFollowTagWorkflow({
+        manifests,
+        existingTagNames: ['v2.0.0', 'a@1.1.0'],
+      });
+
+      await followTagWorkflow({
+        projectDirectoryPath: '/path/to/project',
+        revision: 'HEAD',
+        stdout,
+      });
+
+      expect(createAnnotatedTagSpy.mock.calls).toStrictEqual([
+        ['/path/to/project', 'c@0.1.0', 'HEAD'],
+      ]);
+      expect(stdout.data()).toStrictEqual([
+        'Skipping v2.0.0, as it already exists.\nSkipping a@1.1.0, as it already exists.\nCreated c@0.1.0.\n',
+      ]);
+    });
+
+    it('prints the tags it would create instead of creating them if dryRun is true', async () => {
+      const { stdout, createAnnotatedTagSpy } = setupFollowTagWorkflow({
+        manifests,
+        existingTagNames: ['v2.0.0'],
+      });
+
+      await followTagWorkflow({
+        projectDirectoryPath: '/path/to/project',
+        revision: 'HEAD',
+        dryRun: true,
+        stdout,
+      });
+
+      expect(createAnnotatedTagSpy).not.toHaveBeenCalled();
+      expect(stdout.data()).toStrictEqual([
+        'Skipping v2.0.0, as it already exists.\nWould create a@1.1.0.\nWould create c@0.1.0.\n',
+      ]);
+    });
+
+    it('does not create a tag for a workspace package that was added in the given commit', async () => {
+      const { stdout, createAnnotatedTagSpy } = setupFollowTagWorkflow({
+        manifests: {
+          'HEAD^': {
+            'package.json': { name: 'root', version: '1.0.0' },
+            'packages/a/package.json': { name: 'a', version: '1.0.0' },
+          },
+          HEAD: {
+            'package.json': { name: 'root', version: '2.0.0' },
+            'packages/a/package.json': { name: 'a', version: '1.1.0' },
+            'packages/b/package.json': { name: 'b', version: '1.0.0' },
+          },
+        },
+      });
+
+      await followTagWorkflow({
+        projectDirectoryPath: '/path/to/project',
+        revision: 'HEAD',
+        stdout,
+      });
+
+      expect(createAnnotatedTagSpy.mock.calls).toStrictEqual([
+        ['/path/to/project', 'v2.0.0', 'HEAD'],
+        ['/path/to/project', 'a@1.1.0', 'HEAD'],
+      ]);
+      expect(stdout.data()).toStrictEqual([
+        'Created v2.0.0.\nCreated a@1.1.0.\n',
+      ]);
+    });
+
+    it('reports each tag that is created or skipped', async () => {
+      const { stdout } = setupFollowTagWorkflow({
+        manifests,
+        existingTagNames: ['v2.0.0'],
+      });
+      const reportEvent = jest.fn();
+
+      await followTagWorkflow({
+        projectDirectoryPath: '/path/to/project',
+        revision: 'HEAD',
+        stdout,
+        reportEvent,
+      });
+
+      expect(reportEvent.mock.calls).toStrictEqual([
+        [{ type: 'tagSkipped', tagName: 'v2.0.0' }],
+        [{ type: 'tagCreated', tagName: 'a@1.1.0', revision: 'HEAD' }],
+        [{ type: 'tagCreated', tagName: 'c@0.1.0', revision: 'HEAD' }],
+      ]);
+    });
+
+    it('does not report the tags it would create if dryRun is true', async () => {
+      const { stdout } = setupFollowTagWorkflow({ manifests });
+      const reportEvent = jest.fn();
+
+      await followTagWorkflow({
+        projectDirectoryPath: '/path/to/project',
+        revision: 'HEAD',
+        dryRun: true,
+        stdout,
+        reportEvent,
+      });
+
+      expect(reportEvent).not.toHaveBeenCalled();
+    });
+
+    it('does not create any tags if no package versions changed in the given commit', async () => {
+      const { stdout, createAnnotatedTagSpy } = setupFollowTagWorkflow({
+        manifests: { 'HEAD^': manifests['HEAD^'], HEAD: manifests['HEAD^'] },
+      });
+
+      await followTagWorkflow({
+        projectDirectoryPath: '/path/to/project',
+        revision: 'HEAD',
+        stdout,
+      });
+
+      expect(createAnnotatedTagSpy).not.toHaveBeenCalled();
+      expect(stdout.data()).toStrictEqual([
+        'No package versions changed in HEAD, so there is nothing to tag.\n',
+      ]);
+    });
+
+    it('throws if the project does not have a root manifest in the given commit', async () => {
+      const { stdout } = setupFollowTagWorkflow({
+        manifests: { 'HEAD^': manifests['HEAD^'] },
+      });
+
+      await expect(
+        followTagWorkflow({
+          projectDirectoryPath: '/path/to/project',
+          revision: 'HEAD',
+          stdout,
+        }),
+      ).rejects.toThrow(
+        'The project does not have a root package.json in HEAD, so there is nothing to tag.',
+      );
+    });
+  });
+});
@@ -0,0 +1,233 @@
+import type { WriteStream } from 'fs';
+import path from 'path';
+import {
+  generateMonorepoRootPackageReleaseTagName,
+  generateMonorepoWorkspacePackageReleaseTagName,
+} from './package.js';
+import { detectPackageManager } from './package-manager.js';
+import {
+  readPackageManifest,
+  readPackageManifestNameField,
+  readPackageManifestVersionField,
+} from './package-manifest.js';
+import { readProjectConfiguration } from './project-configuration.js';
+import { createAnnotatedTag, readFileAtRevision, tagExists } from './repo.js';
+import { ReportWorkflowEvent } from './workflow-events.js';
+
+/**
+ * The name and version of a package as recorded in its manifest at a
+ * particular commit.
+ *
+ * @property name - The name of the package.
+ * @property version - The version of the package.
+ */
+type PackageAtRevision = {
+  name: string;
+  version: string;
+};
+
+/**
+ * Reads the name and version of a package from its manifest as it was at the
+ * given commit.
+ *
+ * @param projectDirectoryPath - The path to the project directory.
+ * @param revision - The commit at which to read the manifest.
+ * @param packageDirectoryPath - The path to the package directory, relative to
+ * the project directory.
+ * @returns The name and version of the package, or null if the package did not
+ * exist at the given commit.
+ */
+async function readPackageAtRevision(
+  projectDirectoryPath: string,
+  revision: string,
+  packageDirectoryPath: string,
+): Promise<PackageAtRevision | null> {
+  const manifestContent = await readFileAtRevision(
+    projectDirectoryPath,
+    revision,
+    path.join(packageDirectoryPath, 'package.json'),
+  );
+
+  if (manifestContent === null) {
+    return null;
+  }
+
+  const manifest = JSON.parse(manifestContent);
+  const parentDirectory = path.join(projectDirectoryPath, packageDirectoryPath);
+
+  return {
+    name: readPackageManifestNameField(manifest, parentDirectory),
+    version: readPackageManifestVersionField(
+      manifest,
+      parentDirectory,
+    ).toString(),
+  };
+}
+
+/**
+ * Determines the package that was released in the given commit, if any, by
+ * comparing the version of the package with its version in the parent of the
+ * commit. A package that was added in the given commit has not been released
+ * yet, as its manifest only starts out at a version.
+ *
+ * @param projectDirectoryPath - The path to the project directory.
+ * @param revision - The commit that may have released the package.
+ * @param packageDirectoryPath - The path to the package directory, relative to
+ * the project directory.
+ * @returns The name and new version of the package, or null if it did not
+ * exist in both the given commit and its parent or its version did not change.
+ */
+async function readReleasedPackage(
+  projectDirectoryPath: string,
+  revision: string,
+  packageDirectoryPath: string,
+): Promise<PackageAtRevision | null> {
+  const pkg = await readPackageAtRevision(
+    projectDirectoryPath,
+    revision,
+    packageDirectoryPath,
+  );
+  const previousPkg = await readPackageAtRevision(
+    projectDirectoryPath,
+    `${revision}^`,
+    packageDirectoryPath,
+  );
+
+  if (
+    pkg === null ||
+    previousPkg === null ||
+    pkg.version === previousPkg.version
+  ) {
+    return null;
+  }
+
+  return pkg;
+}
+
+/**
+ * Creates the Git tags for a release once the pull request for it has been
+ * merged. The process works like this:
+ *
+ * - The tool compares the version of each package in the given commit (usually
+ * the merge commit for the release) with its version in the parent of that
+ * commit. The packages are those listed in the workspaces of the project as it
+ * is currently checked out; packages added in the given commit are left out.
+ * - The tool then creates an annotated tag for every workspace package whose
+ * version changed (by default, "PACKAGE_NAME@VERSION"), along with the tag for
+ * the root package (by default, "v" + VERSION), pointing at the given commit.
+ * The tag names follow the templates configured for the project.
+ * - Tags which already exist are skipped, so that the tool can be run again
+ * safely.
+ *
+ * In a dry run, the tool prints the tags it would have created instead.
+ *
+ * @param args - The arguments to this function.
+ * @param args.projectDirectoryPath - The path to the project directory.
+ * @param args.revision - The commit to tag.
+ * @param args.dryRun - Whether to print the tags instead of creating them.
+ * @param args.stdout - A stream that can be used to write to standard out.
+ * @param args.reportEvent - A function which is called whenever a tag is
+ * created or skipped.
+ */
+export async function followTagWorkflow({
+  projectDirectoryPath,
+  revision,
+  dryRun = false,
+  stdout,
+  reportEvent = () => undefined,
+}: {
+  projectDirectoryPath: string;
+  revision: string;
+  dryRun?: boolean;
+  stdout: Pick<WriteStream, 'write'>;
+  reportEvent?: ReportWorkflowEvent;
+}) {
+  const rootManifest = await readPackageManifest(
+    path.join(projectDirectoryPath, 'package.json'),
+  );
+  const packageManager = await detectPackageManager(
+    projectDirectoryPath,
+    rootManifest.unvalidated,
+  );
+  const workspaceDirectories = await packageManager.listWorkspaceDirectories(
+    projectDirectoryPath,
+    rootManifest.validated,
+  );
+  const { tagNameTemplates } = await readProjectConfiguration(
+    rootManifest.unvalidated,
+    projectDirectoryPath,
+  );
+
+  const rootPackage = await readPackageAtRevision(
+    projectDirectoryPath,
+    revision,
+    '.',
+  );
+  const previousRootPackage = await readPackageAtRevision(
+    projectDirectoryPath,
+    `${revision}^`,
+    '.',
+  );
+
+  if (rootPackage === null) {
+    throw new Error(
+      `The project does not have a root package.json in ${revision}, so there is nothing to tag.`,
+    );
+  }
+
+  const releasedWorkspacePackages = (
+    await Promise.all(
+      workspaceDirectories.map(async (workspaceDirectory) => {
+        return await readReleasedPackage(
+          projectDirectoryPath,
+          revision,
+          workspaceDirectory,
+        );
+      }),
+    )
+  ).filter((pkg): pkg is PackageAtRevision => pkg !== null);
+
+  if (
+    rootPackage.version === previousRootPackage?.version &&
+    releasedWorkspacePackages.length === 0
+  ) {
+    stdout.write(
+      `No package versions changed in ${revision}, so there is nothing to tag.\n`,
+    );
+    return;
+  }
+
+  const tagNames = [
+    generateMonorepoRootPackageReleaseTagName(
+      rootPackage.name,
+      rootPackage.version,
+      tagNameTemplates,
+    ),
+    ...releasedWorkspacePackages.map(({ name, version }) =>
+      generateMonorepoWorkspacePackageReleaseTagName(
+        name,
+        version,
+        tagNameTemplates,
+      ),
+    ),
+  ];
+
+  const messages = await Promise.all(
+    tagNames.map(async (tagName) => {
+      if (await tagExists(projectDirectoryPath, tagName)) {
+        reportEvent({ type: 'tagSkipped', tagName });
+        return `Skipping ${tagName}, as it already exists.`;
+      }
+
+      if (dryRun) {
+        return `Would create ${tagName}.`;
+      }
+
+      await createAnnotatedTag(projectDirectoryPath, tagName, revision);
+      reportEvent({ type: 'tagCreated', tagName, revision });
+      return `Created ${tagName}.`;
+    }),
+  );
+
+  stdout.write(`${messages.join('\n')}\n`);
+}
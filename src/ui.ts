@@ -4,28 +4,27 @@ import express from 'express';
 import open from 'open';
 
 import {
+  getReleaseFilePaths,
   restoreChangelogsForSkippedPackages,
   updateChangelogsForChangedPackages,
   type Project,
 } from './project.js';
 import { Package } from './package.js';
 import {
+  describeReleaseSpecificationIssue,
   findWorkspaceDependentNamesOfType,
-  findCandidateDependencies,
-  findCandidateDependentsOfTypeForMajorBump,
   IncrementableVersionParts,
+  propagateMajorBumps,
   ReleaseSpecification,
   validateAllPackageEntries,
 } from './release-specification.js';
+import { hasProperty } from './misc-utils.js';
 import { createReleaseBranch } from './workflow-operations.js';
 import { commitAllChanges } from './repo.js';
 import { SemVer, semver } from './semver.js';
 import { executeReleasePlan, planRelease } from './release-plan.js';
-import {
-  deduplicateDependencies,
-  fixConstraints,
-  updateYarnLockfile,
-} from './yarn-commands.js';
+import { updateDependencies } from './package-manager.js';
+import { withRollback } from './rollback.js';
 import { readFile } from './fs.js';
 import { getCurrentDirectoryPath } from './dirname.js';
 import { Formatter } from './initial-parameters.js';
@@ -38,6 +37,8 @@ type UIOptions = {
   defaultBranch: string;
   port: number;
   formatter: Formatter;
+  prereleaseIdentifier: string | null;
+  propagate: boolean;
   stdout: Pick<WriteStream, 'write'>;
   stderr: Pick<WriteStream, 'write'>;
 };
@@ -51,6 +52,10 @@ type UIOptions = {
  * @param options.defaultBranch - The default branch name.
  * @param options.port - The port number for the server.
  * @param options.formatter - The formatter to use for formatting the changelog.
+ * @param options.prereleaseIdentifier - The identifier that names a prerelease
+ * version (e.g. "rc").
+ * @param options.propagate - Whether to add the dependents of packages
+ * released with a major version bump to the release automatically.
  * @param options.stdout - The stdout stream.
  * @param options.stderr - The stderr stream.
  */
@@ -60,6 +65,8 @@ export async function startUI({
   defaultBranch,
   port,
   formatter,
+  prereleaseIdentifier,
+  propagate,
   stdout,
   stderr,
 }: UIOptions): Promise<void> {
@@ -80,6 +87,8 @@ export async function startUI({
     project,
     defaultBranch,
     formatter,
+    prereleaseIdentifier,
+    propagate,
     stderr,
     version: newReleaseVersion,
     closeServer: () => {
@@ -124,6 +133,10 @@ export async function startUI({
  * @param options.project - The project object.
  * @param options.defaultBranch - The default branch name.
  * @param options.formatter - The formatter to use for formatting the changelog.
+ * @param options.prereleaseIdentifier - The identifier that names a prerelease
+ * version (e.g. "rc").
+ * @param options.propagate - Whether to add the dependents of packages
+ * released with a major version bump to the release automatically.
  * @param options.stderr - The stderr stream.
  * @param options.version - The release version.
  * @param options.closeServer - The function to close the server.
@@ -133,6 +146,8 @@ function createApp({
   project,
   defaultBranch,
   formatter,
+  prereleaseIdentifier,
+  propagate,
   stderr,
   version,
   closeServer,
@@ -140,15 +155,33 @@ function createApp({
   project: Project;
   defaultBranch: string;
   formatter: Formatter;
+  prereleaseIdentifier: string | null;
+  propagate: boolean;
   stderr: Pick<WriteStream, 'write'>;
   version: string;
   closeServer: () => void;
 }): express.Application {
   const app = express();
 
+  /**
+   * Adds the dependents of packages selected for a major version bump to the
+   * selections if bumps are being propagated.
+   *
+   * @param selections - The version specifiers selected for each package.
+   * @returns The updated selections.
+   */
+  const propagateSelections = (
+    selections: Record<string, string | null>,
+  ): Record<string, string | null> =>
+    propagate ? propagateMajorBumps(project, selections).packages : selections;
+
   app.use(express.static(UI_BUILD_DIR));
   app.use(express.json());
 
+  app.get('/api/settings', (_req, res) => {
+    res.json({ prereleaseIdentifier, propagate });
+  });
+
   app.get('/api/packages', (req, res) => {
     const { majorBumps } = req.query;
 
@@ -173,16 +206,34 @@ function createApp({
       ),
     );
 
+    const { propagatedPackages } = propagate
+      ? propagateMajorBumps(
+          project,
+          Object.fromEntries(
+            majorBumpsArray.map((majorBump) => [
+              majorBump,
+              IncrementableVersionParts.major,
+            ]),
+          ),
+        )
+      : { propagatedPackages: {} as Record<string, string[]> };
+
     const pkgs = Object.values(project.workspacePackages).filter(
       (pkg) =>
         pkg.hasChangesSinceLatestRelease ||
         requiredDirectDependentNames.has(pkg.validatedManifest.name) ||
-        requiredPeerDependentNames.has(pkg.validatedManifest.name),
+        requiredPeerDependentNames.has(pkg.validatedManifest.name) ||
+        hasProperty(propagatedPackages, pkg.validatedManifest.name),
     );
 
     const packages = pkgs.map((pkg) => ({
       name: pkg.validatedManifest.name,
       version: pkg.validatedManifest.version.version,
+      isPrivate: pkg.validatedManifest.private,
+      changedFilePaths: pkg.changedFilePaths,
+      ...(hasProperty(propagatedPackages, pkg.validatedManifest.name) && {
+        propagatedFrom: propagatedPackages[pkg.validatedManifest.name],
+      }),
     }));
 
     res.json(packages);
@@ -209,57 +260,51 @@ function createApp({
     '/api/check-packages',
     async (req: express.Request, res: express.Response): Promise<void> => {
       try {
-        const releasedPackages: Record<string, string | null> = req.body;
-
-        const errors = Object.entries(releasedPackages).reduce(
-          (map, [changedPackageName, versionSpecifierOrDirective]) => {
-            const changedPackage =
-              project.workspacePackages[changedPackageName];
-
-            const missingDirectDependentNames =
-              findCandidateDependentsOfTypeForMajorBump(
-                project,
-                changedPackageName,
-                versionSpecifierOrDirective,
-                releasedPackages,
-                'dependencies',
-              );
-
-            const missingPeerDependentNames =
-              findCandidateDependentsOfTypeForMajorBump(
-                project,
-                changedPackageName,
-                versionSpecifierOrDirective,
-                releasedPackages,
-                'peerDependencies',
-              );
-
-            const missingDependencies = findCandidateDependencies(
-              project,
-              changedPackage,
-              versionSpecifierOrDirective,
-              releasedPackages,
-            );
-
-            if (
-              missingDirectDependentNames.length === 0 &&
-              missingPeerDependentNames.length === 0 &&
-              missingDependencies.length === 0
-            ) {
-              return map;
-            }
+        const releasedPackages = propagateSelections(req.body);
 
-            return {
-              ...map,
-              [changedPackageName]: {
-                missingDirectDependentNames,
-                missingPeerDependentNames,
-                missingDependencies,
-              },
-            };
-          },
-          {},
-        );
+        const errors = validateAllPackageEntries(
+          project,
+          releasedPackages,
+        ).reduce<
+          Record<
+            string,
+            {
+              missingDirectDependentNames: string[];
+              missingPeerDependentNames: string[];
+              missingDependencies: string[];
+            }
+          >
+        >((map, issue) => {
+          if (
+            issue.kind !== 'missingDependents' &&
+            issue.kind !== 'missingPeerDependents' &&
+            issue.kind !== 'missingDependencies'
+          ) {
+            return map;
+          }
+
+          const packageErrors = map[issue.packageName] ?? {
+            missingDirectDependentNames: [],
+            missingPeerDependentNames: [],
+            missingDependencies: [],
+          };
+
+          return {
+            ...map,
+            [issue.packageName]: {
+              ...packageErrors,
+              ...(issue.kind === 'missingDependents' && {
+                missingDirectDependentNames: issue.dependentNames,
+              }),
+              ...(issue.kind === 'missingPeerDependents' && {
+                missingPeerDependentNames: issue.dependentNames,
+              }),
+              ...(issue.kind === 'missingDependencies' && {
+                missingDependencies: issue.dependencyNames,
+              }),
+            },
+          };
+        }, {});
 
         if (Object.keys(errors).length > 0) {
           res.json({
@@ -281,14 +326,17 @@ function createApp({
     '/api/release',
     async (req: express.Request, res: express.Response): Promise<void> => {
       try {
-        const releasedPackages: Record<string, string | null> = req.body;
+        const releasedPackages = propagateSelections(req.body);
 
-        const errors = validateAllPackageEntries(project, releasedPackages, 0);
+        const errors = validateAllPackageEntries(project, releasedPackages);
 
         if (errors.length > 0) {
           res.json({
             status: 'error',
-            errors,
+            errors: errors.map((issue) => ({
+              ...issue,
+              message: describeReleaseSpecificationIssue(issue),
+            })),
           });
           return;
         }
@@ -325,21 +373,28 @@ function createApp({
           {} as ReleaseSpecification['packages'],
         );
 
-        await restoreChangelogsForSkippedPackages({
-          project,
-          releaseSpecificationPackages,
-          defaultBranch,
-        });
-
         const releasePlan = await planRelease({
           project,
           releaseSpecificationPackages,
           newReleaseVersion: version,
+          prereleaseIdentifier,
         });
-        await executeReleasePlan(project, releasePlan, formatter, stderr);
-        await fixConstraints(project.directoryPath);
-        await updateYarnLockfile(project.directoryPath);
-        await deduplicateDependencies(project.directoryPath);
+
+        await withRollback(
+          {
+            projectDirectoryPath: project.directoryPath,
+            filePaths: getReleaseFilePaths(project),
+          },
+          async () => {
+            await restoreChangelogsForSkippedPackages({
+              project,
+              releaseSpecificationPackages,
+              defaultBranch,
+            });
+            await executeReleasePlan(project, releasePlan, formatter, stderr);
+            await updateDependencies(project);
+          },
+        );
         await commitAllChanges(
           project.directoryPath,
           `Update Release ${version}`,
@@ -99,11 +99,32 @@ function App() {
     new Set(),
   );
   const [showCheckboxes, setShowCheckboxes] = useState(false);
+  const [prereleaseIdentifier, setPrereleaseIdentifier] = useState<
+    string | null
+  >(null);
   const previousPackages = useRef<Set<string>>(new Set());
 
+  useEffect(() => {
+    fetch('/api/settings')
+      .then((res) => {
+        if (!res.ok) {
+          throw new Error(`Received ${res.status}`);
+        }
+
+        return res.json();
+      })
+      .then((data: { prereleaseIdentifier: string | null }) => {
+        setPrereleaseIdentifier(data.prereleaseIdentifier);
+      })
+      .catch((err) => {
+        setError(err.message);
+        console.error('Error fetching settings:', err);
+      });
+  }, []);
+
   useEffect(() => {
     const majorBumps = Object.entries(selections)
-      .filter(([_, type]) => type === 'major')
+      .filter(([_, type]) => type === 'major' || type === 'premajor')
       .map(([pkgName]) => pkgName);
 
     fetch(`/api/packages?majorBumps=${majorBumps.join(',')}`)
@@ -435,6 +456,7 @@ function App() {
             changelogs={changelogs}
             isSelected={selectedPackages.has(pkg.name)}
             showCheckbox={showCheckboxes}
+            prereleaseIdentifier={prereleaseIdentifier}
             onSelectionChange={handleSelectionChange}
             onCustomVersionChange={handleCustomVersionChange}
             onFetchChangelog={fetchChangelog}
@@ -2,7 +2,7 @@ import { SemVer } from 'semver';
 import { Markdown } from './Markdown.js';
 import { VersionSelector } from './VersionSelector.js';
 import { DependencyErrorSection } from './DependencyErrorSection.js';
-import { Package, ReleaseType } from './types.js';
+import { INCREMENTABLE_RELEASE_TYPES, Package, ReleaseType } from './types.js';
 
 type PackageItemProps = {
   pkg: Package;
@@ -20,6 +20,7 @@ type PackageItemProps = {
   changelogs: Record<string, string>;
   isSelected: boolean;
   showCheckbox: boolean;
+  prereleaseIdentifier: string | null;
   onSelectionChange: (packageName: string, value: ReleaseType | '') => void;
   onCustomVersionChange: (packageName: string, version: string) => void;
   onFetchChangelog: (packageName: string) => Promise<void>;
@@ -47,6 +48,8 @@ type PackageItemProps = {
  * actions).
  * @param props.showCheckbox - Whether a checkbox should be shown next to the
  * package name (for bulk actions).
+ * @param props.prereleaseIdentifier - The identifier that names a prerelease
+ * version (e.g. "rc"), used to show the new version of a prerelease.
  * @param props.onSelectionChange - Callback called when the version selector
  * for the package is changed.
  * @param props.onCustomVersionChange - Callback called when a custom version is
@@ -69,6 +72,7 @@ export function PackageItem({
   changelogs,
   isSelected,
   showCheckbox,
+  prereleaseIdentifier,
   onSelectionChange,
   onCustomVersionChange,
   onFetchChangelog,
@@ -105,23 +109,48 @@ export function PackageItem({
           </div>
         )}
         <div className="flex-1">
-          <h2 className="text-xl font-semibold">{pkg.name}</h2>
+          <h2 className="text-xl font-semibold">
+            {pkg.name}
+            {pkg.isPrivate && (
+              <span className="ml-2 rounded bg-gray-200 px-2 py-0.5 text-sm font-normal text-gray-700">
+                Private
+              </span>
+            )}
+          </h2>
+          {pkg.isPrivate && (
+            <p className="text-gray-600">
+              This package is private, so it will not be published. It cannot be
+              included in the release.
+            </p>
+          )}
           <div className="flex items-center justify-between">
             <div>
               <p className="text-gray-600">Current version: {pkg.version}</p>
+              {pkg.changedFilePaths.length > 0 && (
+                <p className="text-gray-600 text-sm">
+                  Changed files: {pkg.changedFilePaths.join(', ')}
+                </p>
+              )}
+              {pkg.propagatedFrom && !selections[pkg.name] && (
+                <p className="text-blue-700">
+                  Added automatically with a patch bump, as it depends on{' '}
+                  {pkg.propagatedFrom.join(', ')}
+                </p>
+              )}
               {selections[pkg.name] &&
                 selections[pkg.name] !== 'intentionally-skip' &&
                 selections[pkg.name] !== 'custom' &&
                 !versionErrors[pkg.name] && (
                   <p className="text-yellow-700">
                     New version:{' '}
-                    {['patch', 'minor', 'major'].includes(selections[pkg.name])
+                    {INCREMENTABLE_RELEASE_TYPES.includes(selections[pkg.name])
                       ? new SemVer(pkg.version)
                           .inc(
                             selections[pkg.name] as Exclude<
                               ReleaseType,
                               'intentionally-skip' | 'custom' | string
                             >,
+                            prereleaseIdentifier ?? undefined,
                           )
                           .toString()
                       : selections[pkg.name]}
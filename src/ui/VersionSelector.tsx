@@ -1,4 +1,8 @@
-import { RELEASE_TYPE_OPTIONS, ReleaseType } from './types.js';
+import {
+  INCREMENTABLE_RELEASE_TYPES,
+  RELEASE_TYPE_OPTIONS,
+  ReleaseType,
+} from './types.js';
 
 type VersionSelectorProps = {
   packageName: string;
@@ -51,9 +55,7 @@ export function VersionSelector({
         <option value="custom">Custom Version</option>
         {selection &&
           ![
-            'major',
-            'minor',
-            'patch',
+            ...INCREMENTABLE_RELEASE_TYPES,
             'intentionally-skip',
             'custom',
             '',
@@ -2,6 +2,10 @@ export type ReleaseType =
   | 'major'
   | 'minor'
   | 'patch'
+  | 'premajor'
+  | 'preminor'
+  | 'prepatch'
+  | 'prerelease'
   | 'intentionally-skip'
   | 'custom'
   | string;
@@ -9,11 +13,28 @@ export type ReleaseType =
 export type Package = {
   name: string;
   version: string;
+  isPrivate: boolean;
+  changedFilePaths: string[];
+  propagatedFrom?: string[];
 };
 
 export const RELEASE_TYPE_OPTIONS = [
   { label: 'Major', value: 'major' },
   { label: 'Minor', value: 'minor' },
   { label: 'Patch', value: 'patch' },
+  { label: 'Premajor', value: 'premajor' },
+  { label: 'Preminor', value: 'preminor' },
+  { label: 'Prepatch', value: 'prepatch' },
+  { label: 'Prerelease', value: 'prerelease' },
   { label: 'Skip', value: 'intentionally-skip' },
 ] as const;
+
+export const INCREMENTABLE_RELEASE_TYPES: string[] = [
+  'major',
+  'minor',
+  'patch',
+  'premajor',
+  'preminor',
+  'prepatch',
+  'prerelease',
+];
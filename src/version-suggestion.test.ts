@@ -0,0 +1,251 @@
+import { when } from 'jest-when';
+import { buildMockPackage, buildMockProject } from '../tests/unit/helpers.js';
+import {
+  suggestVersionSpecifier,
+  suggestVersionSpecifierFromChangelogChanges,
+  suggestVersionSpecifierFromCommitMessages,
+  suggestVersionSpecifiersForMonorepo,
+} from './version-suggestion.js';
+import * as packageModule from './package.js';
+import * as repoModule from './repo.js';
+
+jest.mock('./package');
+jest.mock('./repo');
+
+describe('version-suggestion', () => {
+  describe('suggestVersionSpecifierFromChangelogChanges', () => {
+    it('suggests a major bump if any entry is marked as a breaking change', () => {
+      expect(
+        suggestVersionSpecifierFromChangelogChanges({
+          Added: ['Add isNewFunction'],
+          Changed: ['**BREAKING:** Rename isOldFunction'],
+        }),
+      ).toStrictEqual({
+        versionSpecifier: 'major',
+        reason:
+          'the changelog lists a breaking change ("**BREAKING:** Rename isOldFunction")',
+      });
+    });
+
+    it('suggests a major bump if there are "Removed" entries', () => {
+      expect(
+        suggestVersionSpecifierFromChangelogChanges({
+          Added: ['Add isNewFunction'],
+          Removed: ['Remove isOldFunction'],
+        }),
+      ).toStrictEqual({
+        versionSpecifier: 'major',
+        reason: 'the changelog has "Removed" entries',
+      });
+    });
+
+    it('suggests a minor bump if there are "Added", "Changed", or "Deprecated" entries', () => {
+      expect(
+        suggestVersionSpecifierFromChangelogChanges({
+          Deprecated: ['Deprecate isOldFunction'],
+          Fixed: ['Fix isOtherFunction'],
+        }),
+      ).toStrictEqual({
+        versionSpecifier: 'minor',
+        reason: 'the changelog has "Deprecated" entries',
+      });
+    });
+
+    it('suggests a patch bump if there are only "Fixed" or "Security" entries', () => {
+      expect(
+        suggestVersionSpecifierFromChangelogChanges({
+          Fixed: ['Fix isOldFunction'],
+          Security: ['Sanitize input to isOtherFunction'],
+        }),
+      ).toStrictEqual({
+        versionSpecifier: 'patch',
+        reason: 'the changelog only has "Fixed" and "Security" entries',
+      });
+    });
+
+    it('does not suggest anything if there are uncategorized entries alongside fixes', () => {
+      expect(
+        suggestVersionSpecifierFromChangelogChanges({
+          Fixed: ['Fix isOldFunction'],
+          Uncategorized: ['Do something'],
+        }),
+      ).toBeNull();
+    });
+
+    it('does not suggest anything if there are no entries', () => {
+      expect(suggestVersionSpecifierFromChangelogChanges({})).toBeNull();
+    });
+  });
+
+  describe('suggestVersionSpecifierFromCommitMessages', () => {
+    it('suggests a major bump if a commit is marked as a breaking change in its header', () => {
+      expect(
+        suggestVersionSpecifierFromCommitMessages([
+          'feat: Add isNewFunction',
+          'refactor(controller)!: Rename isOldFunction',
+        ]),
+      ).toStrictEqual({
+        versionSpecifier: 'major',
+        reason:
+          'the commit "refactor(controller)!: Rename isOldFunction" is a breaking change',
+      });
+    });
+
+    it('suggests a major bump if a commit is marked as a breaking change in its footer', () => {
+      expect(
+        suggestVersionSpecifierFromCommitMessages([
+          'fix: Change isOldFunction\n\nBREAKING CHANGE: isOldFunction now throws',
+        ]),
+      ).toStrictEqual({
+        versionSpecifier: 'major',
+        reason: 'the commit "fix: Change isOldFunction" is a breaking change',
+      });
+    });
+
+    it('suggests a minor bump for the first "feat" commit if there are no breaking changes', () => {
+      expect(
+        suggestVersionSpecifierFromCommitMessages([
+          'fix: Fix isOldFunction',
+          'Feat: Add isNewFunction',
+          'feat: Add isOtherFunction',
+        ]),
+      ).toStrictEqual({
+        versionSpecifier: 'minor',
+        reason: 'the commit "Feat: Add isNewFunction" adds a feature',
+      });
+    });
+
+    it('suggests a patch bump if there are only "fix" or "perf" commits', () => {
+      expect(
+        suggestVersionSpecifierFromCommitMessages([
+          'perf: Speed up isOldFunction',
+          'fix: Fix isOldFunction',
+        ]),
+      ).toStrictEqual({
+        versionSpecifier: 'patch',
+        reason: 'the commit "perf: Speed up isOldFunction" is a fix',
+      });
+    });
+
+    it('does not suggest anything if no commits indicate the impact of their changes', () => {
+      expect(
+        suggestVersionSpecifierFromCommitMessages([
+          'chore: Update dependencies',
+          'Initialize Release 2.0.0',
+        ]),
+      ).toBeNull();
+    });
+  });
+
+  describe('suggestVersionSpecifier', () => {
+    it('goes with the changelog or the commits, whichever calls for the more significant bump', async () => {
+      const project = buildMockProject();
+      const pkg = buildMockPackage('a', {
+        directoryPath: '/path/to/project/packages/a',
+        latestReleaseTagName: 'a@1.0.0',
+      });
+      when(jest.spyOn(packageModule, 'readUnreleasedChangelogChanges'))
+        .calledWith({
+          project,
+          package: pkg,
+          includingNewCommits: false,
+          formatter: 'prettier',
+        })
+        .mockResolvedValue({ Fixed: ['Fix isOldFunction'] });
+      when(jest.spyOn(repoModule, 'getCommitMessagesInDirectorySinceGitTag'))
+        .calledWith(
+          '/path/to/project',
+          '/path/to/project/packages/a',
+          'a@1.0.0',
+        )
+        .mockResolvedValue(['feat: Add isNewFunction']);
+
+      expect(
+        await suggestVersionSpecifier({
+          project,
+          package: pkg,
+          formatter: 'prettier',
+        }),
+      ).toStrictEqual({
+        versionSpecifier: 'minor',
+        reason: 'the commit "feat: Add isNewFunction" adds a feature',
+      });
+    });
+
+    it('prefers the changelog if it calls for the same bump as the commits', async () => {
+      const project = buildMockProject();
+      const pkg = buildMockPackage('a');
+      jest
+        .spyOn(packageModule, 'readUnreleasedChangelogChanges')
+        .mockResolvedValue({ Added: ['Add isNewFunction'] });
+      jest
+        .spyOn(repoModule, 'getCommitMessagesInDirectorySinceGitTag')
+        .mockResolvedValue(['feat: Add isNewFunction']);
+
+      expect(
+        await suggestVersionSpecifier({
+          project,
+          package: pkg,
+          formatter: 'prettier',
+        }),
+      ).toStrictEqual({
+        versionSpecifier: 'minor',
+        reason: 'the changelog has "Added" entries',
+      });
+    });
+
+    it('relies on the commits alone if the package has no changelog', async () => {
+      const project = buildMockProject();
+      const pkg = buildMockPackage('a');
+      jest
+        .spyOn(packageModule, 'readUnreleasedChangelogChanges')
+        .mockResolvedValue(null);
+      jest
+        .spyOn(repoModule, 'getCommitMessagesInDirectorySinceGitTag')
+        .mockResolvedValue(['fix: Fix isOldFunction']);
+
+      expect(
+        await suggestVersionSpecifier({
+          project,
+          package: pkg,
+          formatter: 'prettier',
+        }),
+      ).toStrictEqual({
+        versionSpecifier: 'patch',
+        reason: 'the commit "fix: Fix isOldFunction" is a fix',
+      });
+    });
+  });
+
+  describe('suggestVersionSpecifiersForMonorepo', () => {
+    it('suggests version specifiers for the workspace packages which have changed since their latest release, leaving out those for which nothing could be suggested', async () => {
+      const a = buildMockPackage('a', { hasChangesSinceLatestRelease: true });
+      const b = buildMockPackage('b', { hasChangesSinceLatestRelease: true });
+      const c = buildMockPackage('c', { hasChangesSinceLatestRelease: false });
+      const project = buildMockProject({
+        isMonorepo: true,
+        workspacePackages: { a, b, c },
+      });
+      when(jest.spyOn(packageModule, 'readUnreleasedChangelogChanges'))
+        .calledWith(expect.objectContaining({ package: a }))
+        .mockResolvedValue({ Added: ['Add isNewFunction'] })
+        .calledWith(expect.objectContaining({ package: b }))
+        .mockResolvedValue({ Uncategorized: ['Do something'] });
+      jest
+        .spyOn(repoModule, 'getCommitMessagesInDirectorySinceGitTag')
+        .mockResolvedValue([]);
+
+      expect(
+        await suggestVersionSpecifiersForMonorepo({
+          project,
+          formatter: 'prettier',
+        }),
+      ).toStrictEqual({
+        a: {
+          versionSpecifier: 'minor',
+          reason: 'the changelog has "Added" entries',
+        },
+      });
+    });
+  });
+});
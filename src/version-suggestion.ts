@@ -0,0 +1,279 @@
+import { Formatter } from './initial-parameters.js';
+import { Package, readUnreleasedChangelogChanges } from './package.js';
+import { Project } from './project.js';
+import { IncrementableVersionParts } from './release-specification.js';
+import { getCommitMessagesInDirectorySinceGitTag } from './repo.js';
+
+/**
+ * A version specifier which is likely to be appropriate for a package, given
+ * the changes that have been made to it since its latest release.
+ *
+ * @property versionSpecifier - The suggested version specifier.
+ * @property reason - Why the version specifier was suggested.
+ */
+export type VersionSuggestion = {
+  versionSpecifier: IncrementableVersionParts;
+  reason: string;
+};
+
+/**
+ * The version specifiers that may be suggested, from least to most
+ * significant.
+ */
+const VERSION_SPECIFIERS_BY_SIGNIFICANCE = [
+  IncrementableVersionParts.patch,
+  IncrementableVersionParts.minor,
+  IncrementableVersionParts.major,
+];
+
+/**
+ * Changelog categories whose entries call for a minor version bump.
+ */
+const MINOR_CHANGELOG_CATEGORIES = ['Added', 'Changed', 'Deprecated'];
+
+/**
+ * Changelog categories whose entries only call for a patch version bump.
+ */
+const PATCH_CHANGELOG_CATEGORIES = ['Fixed', 'Security'];
+
+/**
+ * Matches the header of a commit message which follows the Conventional
+ * Commits specification (e.g. "feat(scope)!: Add something").
+ */
+const CONVENTIONAL_COMMIT_HEADER_REGEX =
+  /^(?<type>[a-z]+)(?:\([^)]*\))?(?<breaking>!)?:/iu;
+
+/**
+ * Matches a footer of a commit message which follows the Conventional Commits
+ * specification and marks the commit as a breaking change.
+ */
+const CONVENTIONAL_COMMIT_BREAKING_CHANGE_FOOTER_REGEX =
+  /^BREAKING[ -]CHANGE:/mu;
+
+/**
+ * Picks the suggestion with the most significant version specifier out of the
+ * given suggestions. If several suggestions share that version specifier, the
+ * first one wins.
+ *
+ * @param suggestions - The suggestions (or null, where nothing could be
+ * suggested).
+ * @returns The most significant suggestion, or null if there are none.
+ */
+function chooseMostSignificantSuggestion(
+  suggestions: (VersionSuggestion | null)[],
+): VersionSuggestion | null {
+  return suggestions.reduce<VersionSuggestion | null>(
+    (mostSignificantSuggestion, suggestion) => {
+      if (
+        suggestion === null ||
+        (mostSignificantSuggestion !== null &&
+          VERSION_SPECIFIERS_BY_SIGNIFICANCE.indexOf(
+            suggestion.versionSpecifier,
+          ) <=
+            VERSION_SPECIFIERS_BY_SIGNIFICANCE.indexOf(
+              mostSignificantSuggestion.versionSpecifier,
+            ))
+      ) {
+        return mostSignificantSuggestion;
+      }
+
+      return suggestion;
+    },
+    null,
+  );
+}
+
+/**
+ * Suggests a version specifier based on the entries in the Unreleased section
+ * of a changelog: a breaking change or a removal calls for a major bump, an
+ * addition, change, or deprecation calls for a minor bump, and fixes alone
+ * call for a patch bump.
+ *
+ * @param changes - The descriptions of the unreleased changes, grouped by
+ * category.
+ * @returns The suggestion, or null if the changelog does not give enough
+ * information (for instance, if it only has uncategorized entries).
+ */
+export function suggestVersionSpecifierFromChangelogChanges(
+  changes: Record<string, string[]>,
+): VersionSuggestion | null {
+  const categories = Object.keys(changes).filter(
+    (category) => changes[category].length > 0,
+  );
+  const breakingChange = Object.values(changes)
+    .flat()
+    .find((description) => /\bBREAKING\b/u.test(description));
+
+  if (breakingChange !== undefined) {
+    return {
+      versionSpecifier: IncrementableVersionParts.major,
+      reason: `the changelog lists a breaking change ("${breakingChange}")`,
+    };
+  }
+
+  if (categories.includes('Removed')) {
+    return {
+      versionSpecifier: IncrementableVersionParts.major,
+      reason: 'the changelog has "Removed" entries',
+    };
+  }
+
+  const minorCategory = MINOR_CHANGELOG_CATEGORIES.find((category) =>
+    categories.includes(category),
+  );
+
+  if (minorCategory !== undefined) {
+    return {
+      versionSpecifier: IncrementableVersionParts.minor,
+      reason: `the changelog has "${minorCategory}" entries`,
+    };
+  }
+
+  if (
+    categories.length > 0 &&
+    categories.every((category) =>
+      PATCH_CHANGELOG_CATEGORIES.includes(category),
+    )
+  ) {
+    return {
+      versionSpecifier: IncrementableVersionParts.patch,
+      reason: `the changelog only has ${categories
+        .map((category) => `"${category}"`)
+        .join(' and ')} entries`,
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Suggests a version specifier based on the Conventional Commits prefixes of
+ * the given commit messages: a commit marked as a breaking change calls for a
+ * major bump, a "feat" commit calls for a minor bump, and a "fix" or "perf"
+ * commit calls for a patch bump.
+ *
+ * @param commitMessages - The full messages of the commits.
+ * @returns The suggestion, or null if none of the commits follow the
+ * Conventional Commits specification in a way that indicates the impact of the
+ * change.
+ */
+export function suggestVersionSpecifierFromCommitMessages(
+  commitMessages: string[],
+): VersionSuggestion | null {
+  return chooseMostSignificantSuggestion(
+    commitMessages.map((commitMessage) => {
+      const [header] = commitMessage.split('\n');
+      const match = header.match(CONVENTIONAL_COMMIT_HEADER_REGEX);
+
+      if (match?.groups === undefined) {
+        return null;
+      }
+
+      if (
+        match.groups.breaking !== undefined ||
+        CONVENTIONAL_COMMIT_BREAKING_CHANGE_FOOTER_REGEX.test(commitMessage)
+      ) {
+        return {
+          versionSpecifier: IncrementableVersionParts.major,
+          reason: `the commit "${header}" is a breaking change`,
+        };
+      }
+
+      const type = match.groups.type.toLowerCase();
+
+      if (type === 'feat') {
+        return {
+          versionSpecifier: IncrementableVersionParts.minor,
+          reason: `the commit "${header}" adds a feature`,
+        };
+      }
+
+      if (type === 'fix' || type === 'perf') {
+        return {
+          versionSpecifier: IncrementableVersionParts.patch,
+          reason: `the commit "${header}" is a fix`,
+        };
+      }
+
+      return null;
+    }),
+  );
+}
+
+/**
+ * Suggests a version specifier for the given package by looking at both the
+ * Unreleased section of its changelog and the commits which have changed it
+ * since its latest release, going with whichever calls for the more
+ * significant version bump.
+ *
+ * @param args - The arguments.
+ * @param args.project - The project.
+ * @param args.package - A particular package in the project.
+ * @param args.formatter - The formatter to use for formatting the changelog.
+ * @returns The suggestion, or null if nothing could be suggested.
+ */
+export async function suggestVersionSpecifier({
+  project,
+  package: pkg,
+  formatter,
+}: {
+  project: Project;
+  package: Package;
+  formatter: Formatter;
+}): Promise<VersionSuggestion | null> {
+  const changelogChanges = await readUnreleasedChangelogChanges({
+    project,
+    package: pkg,
+    includingNewCommits: false,
+    formatter,
+  });
+  const commitMessages = await getCommitMessagesInDirectorySinceGitTag(
+    project.directoryPath,
+    pkg.directoryPath,
+    pkg.latestReleaseTagName,
+  );
+
+  return chooseMostSignificantSuggestion([
+    changelogChanges === null
+      ? null
+      : suggestVersionSpecifierFromChangelogChanges(changelogChanges),
+    suggestVersionSpecifierFromCommitMessages(commitMessages),
+  ]);
+}
+
+/**
+ * Suggests a version specifier for each workspace package in a monorepo which
+ * has changed since its latest release.
+ *
+ * @param args - The arguments.
+ * @param args.project - The project.
+ * @param args.formatter - The formatter to use for formatting changelogs.
+ * @returns The suggestions, keyed by package name. Packages for which nothing
+ * could be suggested are left out.
+ */
+export async function suggestVersionSpecifiersForMonorepo({
+  project,
+  formatter,
+}: {
+  project: Project;
+  formatter: Formatter;
+}): Promise<Record<string, VersionSuggestion>> {
+  const changedPackages = Object.values(project.workspacePackages).filter(
+    ({ hasChangesSinceLatestRelease }) => hasChangesSinceLatestRelease,
+  );
+  const suggestions = await Promise.all(
+    changedPackages.map((pkg) =>
+      suggestVersionSpecifier({ project, package: pkg, formatter }),
+    ),
+  );
+
+  return changedPackages.reduce<Record<string, VersionSuggestion>>(
+    (obj, pkg, index) => {
+      const suggestion = suggestions[index];
+      return suggestion === null
+        ? obj
+        : { ...obj, [pkg.validatedManifest.name]: suggestion };
+    },
+    {},
+  );
+}
@@ -0,0 +1,151 @@
+import { MockWritable } from 'stdio-mock';
+import { buildMockPackage } from '../tests/unit/helpers.js';
+import { ReleaseSpecificationValidationError } from './release-specification.js';
+import {
+  buildReleaseBranchEvent,
+  buildReleasePlannedEvent,
+  buildReleaseSpecificationInvalidEvent,
+  createJsonWorkflowEventReporter,
+  createWorkflowEventStream,
+} from './workflow-events.js';
+
+describe('workflow-events', () => {
+  describe('createJsonWorkflowEventReporter', () => {
+    it('returns a function that writes each event to the given stream as a line of JSON', () => {
+      const stdout = new MockWritable();
+      const reportEvent = createJsonWorkflowEventReporter(stdout);
+
+      reportEvent({ type: 'commitCreated', message: 'Update Release 1.0.0' });
+
+      expect(stdout.data()).toStrictEqual([
+        '{"type":"commitCreated","message":"Update Release 1.0.0"}\n',
+      ]);
+    });
+  });
+
+  describe('createWorkflowEventStream', () => {
+    it('returns a stream that reports each string written to it as an event of the given type, without surrounding whitespace', () => {
+      const reportEvent = jest.fn();
+      const stream = createWorkflowEventStream(reportEvent, 'warning');
+
+      stream.write('Something happened.\n');
+
+      expect(reportEvent).toHaveBeenCalledWith({
+        type: 'warning',
+        message: 'Something happened.',
+      });
+    });
+
+    it('decodes buffers written to the stream as UTF-8', () => {
+      const reportEvent = jest.fn();
+      const stream = createWorkflowEventStream(reportEvent, 'message');
+
+      stream.write(Buffer.from('Something happened.\n'));
+
+      expect(reportEvent).toHaveBeenCalledWith({
+        type: 'message',
+        message: 'Something happened.',
+      });
+    });
+
+    it('does not report text that consists only of whitespace', () => {
+      const reportEvent = jest.fn();
+      const stream = createWorkflowEventStream(reportEvent, 'message');
+
+      stream.write('\r\n');
+
+      expect(reportEvent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('buildReleaseBranchEvent', () => {
+    it('builds a releaseBranchCreated event if the release branch was newly created', () => {
+      expect(
+        buildReleaseBranchEvent({
+          version: '2.0.0',
+          branchName: 'release/2.0.0',
+          firstRun: true,
+        }),
+      ).toStrictEqual({
+        type: 'releaseBranchCreated',
+        branchName: 'release/2.0.0',
+        version: '2.0.0',
+      });
+    });
+
+    it('builds a releaseBranchResumed event if the release branch already existed', () => {
+      expect(
+        buildReleaseBranchEvent({
+          version: '2.0.0',
+          branchName: 'release/2.0.0',
+          firstRun: false,
+        }),
+      ).toStrictEqual({
+        type: 'releaseBranchResumed',
+        branchName: 'release/2.0.0',
+        version: '2.0.0',
+      });
+    });
+  });
+
+  describe('buildReleaseSpecificationInvalidEvent', () => {
+    it('lists the issues with the release spec along with a description of each, joining multi-line descriptions', () => {
+      const error = new ReleaseSpecificationValidationError(
+        'Your release spec could not be processed',
+        '/path/to/release-spec.yml',
+        [
+          { kind: 'unknownPackage', packageName: 'b', lineNumber: 2 },
+          {
+            kind: 'invalidVersionSpecifier',
+            packageName: null,
+            versionSpecifier: 'asdf',
+          },
+        ],
+      );
+
+      expect(buildReleaseSpecificationInvalidEvent(error)).toStrictEqual({
+        type: 'releaseSpecificationInvalid',
+        path: '/path/to/release-spec.yml',
+        issues: [
+          {
+            kind: 'unknownPackage',
+            packageName: 'b',
+            lineNumber: 2,
+            message: '"b" is not a package in the project',
+          },
+          {
+            kind: 'invalidVersionSpecifier',
+            packageName: null,
+            versionSpecifier: 'asdf',
+            message:
+              '"asdf" is not a valid version specifier for the release\n(must be "major", "minor", "patch", "premajor", "preminor", "prepatch", or "prerelease"; or a version string with major, minor, and patch parts, such as "1.2.3")',
+          },
+        ],
+      });
+    });
+  });
+
+  describe('buildReleasePlannedEvent', () => {
+    it('lists the current and new version of each package in the release plan', () => {
+      const a = buildMockPackage('a', '1.0.0');
+      const b = buildMockPackage('b', '0.1.0');
+
+      expect(
+        buildReleasePlannedEvent({
+          newVersion: '2.0.0',
+          packages: [
+            { package: a, newVersion: '1.1.0' },
+            { package: b, newVersion: '0.1.1' },
+          ],
+        }),
+      ).toStrictEqual({
+        type: 'releasePlanned',
+        newVersion: '2.0.0',
+        packages: [
+          { name: 'a', currentVersion: '1.0.0', newVersion: '1.1.0' },
+          { name: 'b', currentVersion: '0.1.0', newVersion: '0.1.1' },
+        ],
+      });
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import { DependencyRangeUpdate } from './dependency-ranges.js';
+import { WriteStreamLike } from './fs.js';
+import { VersioningStrategy } from './initial-parameters.js';
+import { ReleasePlan } from './release-plan.js';
+import {
+  describeReleaseSpecificationIssue,
+  ReleaseSpecificationIssue,
+  ReleaseSpecificationValidationError,
+} from './release-specification.js';
+
+/**
+ * A problem found while validating a release spec, as reported in a
+ * `releaseSpecificationInvalid` event. Includes all of the data that describes
+ * the problem (such as the names of the packages involved and, where
+ * applicable, a suggested fix) in addition to a human-readable description.
+ *
+ * @property message - A human-readable description of the problem.
+ */
+export type ReportedReleaseSpecificationIssue = ReleaseSpecificationIssue & {
+  message: string;
+};
+
+/**
+ * Something notable that happened while the tool was running, reported in a
+ * form that can be consumed by other programs.
+ *
+ * - `message` and `warning` carry text that would otherwise have been printed
+ * to standard out or standard error, respectively.
+ * - `projectDetected` is reported once the project has been read.
+ * - `releaseBranchCreated` and `releaseBranchResumed` are reported once the
+ * tool has switched to the release branch, depending on whether the branch had
+ * to be created.
+ * - `releaseSpecificationInvalid` is reported if the release spec has problems
+ * that the user needs to fix.
+ * - `releasePlanned` is reported once the new versions of all packages are
+ * known.
+ * - `dependencyRangeUpdated` is reported for each range that a workspace
+ * package uses to depend on a released package which has been updated to refer
+ * to its new version.
+ * - `commitCreated` is reported after each commit that the tool makes.
+ * - `releaseBranchPushed` is reported once the release branch has been pushed.
+ * - `pullRequestOpened` is reported once the pull request for the release has
+ * been opened.
+ * - `tagCreated` and `tagSkipped` are reported for each tag that the "tag"
+ * command creates or, as it already exists, skips.
+ * - `failed` is reported if the tool stops due to an error.
+ */
+export type WorkflowEvent =
+  | { type: 'message'; message: string }
+  | { type: 'warning'; message: string }
+  | {
+      type: 'projectDetected';
+      directoryPath: string;
+      isMonorepo: boolean;
+      versioningStrategy: VersioningStrategy;
+    }
+  | { type: 'releaseBranchCreated'; branchName: string; version: string }
+  | { type: 'releaseBranchResumed'; branchName: string; version: string }
+  | {
+      type: 'releaseSpecificationInvalid';
+      path: string;
+      issues: ReportedReleaseSpecificationIssue[];
+    }
+  | {
+      type: 'releasePlanned';
+      newVersion: string;
+      packages: { name: string; currentVersion: string; newVersion: string }[];
+    }
+  | ({ type: 'dependencyRangeUpdated' } & DependencyRangeUpdate)
+  | { type: 'commitCreated'; message: string }
+  | { type: 'releaseBranchPushed'; branchName: string; remote: string }
+  | { type: 'pullRequestOpened'; number: number; url: string }
+  | { type: 'tagCreated'; tagName: string; revision: string }
+  | { type: 'tagSkipped'; tagName: string }
+  | { type: 'failed'; message: string };
+
+/**
+ * A function which is called whenever something notable happens.
+ */
+export type ReportWorkflowEvent = (event: WorkflowEvent) => void;
+
+/**
+ * Builds a function which reports events by writing each one to the given
+ * stream as a line of JSON.
+ *
+ * @param stdout - A stream that can be used to write to standard out.
+ * @returns The event reporter.
+ */
+export function createJsonWorkflowEventReporter(
+  stdout: WriteStreamLike,
+): ReportWorkflowEvent {
+  return (event) => {
+    stdout.write(`${JSON.stringify(event)}\n`);
+  };
+}
+
+/**
+ * Builds a stream which, instead of printing the text written to it, reports
+ * it as an event. This allows human-readable output which is produced deep
+ * within the tool to be captured alongside other events.
+ *
+ * @param reportEvent - The function used to report events.
+ * @param type - The type of the events to report.
+ * @returns The stream.
+ */
+export function createWorkflowEventStream(
+  reportEvent: ReportWorkflowEvent,
+  type: 'message' | 'warning',
+): WriteStreamLike {
+  return {
+    write(chunk: string | Uint8Array) {
+      const message = (
+        typeof chunk === 'string' ? chunk : Buffer.from(chunk).toString('utf8')
+      ).trim();
+
+      if (message !== '') {
+        reportEvent({ type, message });
+      }
+
+      return true;
+    },
+  };
+}
+
+/**
+ * Builds the event that reports switching to a release branch.
+ *
+ * @param args - The arguments.
+ * @param args.version - The version that the release branch is named after.
+ * @param args.branchName - The name of the release branch.
+ * @param args.firstRun - Whether the release branch was newly created.
+ * @returns The event.
+ */
+export function buildReleaseBranchEvent({
+  version,
+  branchName,
+  firstRun,
+}: {
+  version: string;
+  branchName: string;
+  firstRun: boolean;
+}): WorkflowEvent {
+  return {
+    type: firstRun ? 'releaseBranchCreated' : 'releaseBranchResumed',
+    branchName,
+    version,
+  };
+}
+
+/**
+ * Builds the event that reports the problems found in a release spec.
+ *
+ * @param error - The error thrown while validating the release spec.
+ * @returns The event.
+ */
+export function buildReleaseSpecificationInvalidEvent(
+  error: ReleaseSpecificationValidationError,
+): WorkflowEvent {
+  return {
+    type: 'releaseSpecificationInvalid',
+    path: error.path,
+    issues: error.issues.map((issue) => {
+      const message = describeReleaseSpecificationIssue(issue);
+      return {
+        ...issue,
+        message: Array.isArray(message) ? message.join('\n') : message,
+      };
+    }),
+  };
+}
+
+/**
+ * Builds the event that reports the new versions of all packages which will be
+ * released.
+ *
+ * @param releasePlan - Compiled instructions on how exactly to update the
+ * project in order to prepare a new release.
+ * @returns The event.
+ */
+export function buildReleasePlannedEvent(
+  releasePlan: ReleasePlan,
+): WorkflowEvent {
+  return {
+    type: 'releasePlanned',
+    newVersion: releasePlan.newVersion,
+    packages: releasePlan.packages.map(({ package: pkg, newVersion }) => ({
+      name: pkg.validatedManifest.name,
+      currentVersion: pkg.validatedManifest.version.toString(),
+      newVersion,
+    })),
+  };
+}
@@ -1,12 +1,22 @@
 import { when } from 'jest-when';
-import { buildMockProject } from '../tests/unit/helpers';
-import { createReleaseBranch } from './workflow-operations.js';
+import { buildMockPackage, buildMockProject } from '../tests/unit/helpers.js';
+import {
+  createReleaseBranch,
+  createReleaseBranchForVersion,
+  findReleaseBranchName,
+  getNewReleaseVersion,
+  getReleaseBranchName,
+} from './workflow-operations.js';
 
 import * as repoModule from './repo.js';
 
 jest.mock('./repo');
 
 describe('workflow-operations', () => {
+  beforeEach(() => {
+    jest.spyOn(repoModule, 'getBranchNames').mockResolvedValue([]);
+  });
+
   describe('createReleaseBranch', () => {
     it('should create a ordinary release branch if it does not exist', async () => {
       const project = buildMockProject();
@@ -29,6 +39,7 @@ describe('workflow-operations', () => {
 
       expect(result).toStrictEqual({
         version: newReleaseVersion,
+        branchName: newReleaseBranchName,
         firstRun: true,
       });
       expect(runGitCommandWithin).toHaveBeenCalledWith(
@@ -59,6 +70,7 @@ describe('workflow-operations', () => {
 
       expect(result).toStrictEqual({
         version: newReleaseVersion,
+        branchName: newReleaseBranchName,
         firstRun: true,
       });
       expect(runGitCommandWithin).toHaveBeenCalledWith(
@@ -85,6 +97,7 @@ describe('workflow-operations', () => {
 
       expect(result).toStrictEqual({
         version: newReleaseVersion,
+        branchName: newReleaseBranchName,
         firstRun: false,
       });
     });
@@ -106,6 +119,7 @@ describe('workflow-operations', () => {
 
       expect(result).toStrictEqual({
         version: newReleaseVersion,
+        branchName: newReleaseBranchName,
         firstRun: false,
       });
     });
@@ -130,6 +144,7 @@ describe('workflow-operations', () => {
 
       expect(result).toStrictEqual({
         version: newReleaseVersion,
+        branchName: newReleaseBranchName,
         firstRun: false,
       });
     });
@@ -154,8 +169,382 @@ describe('workflow-operations', () => {
 
       expect(result).toStrictEqual({
         version: newReleaseVersion,
+        branchName: newReleaseBranchName,
+        firstRun: false,
+      });
+    });
+  });
+
+  describe('createReleaseBranchForVersion', () => {
+    it('should create a release branch named after the given version if it does not exist', async () => {
+      const project = buildMockProject();
+      when(jest.spyOn(repoModule, 'getCurrentBranchName'))
+        .calledWith(project.directoryPath)
+        .mockResolvedValue('main');
+      when(jest.spyOn(repoModule, 'branchExists'))
+        .calledWith(project.directoryPath, 'release/1.2.3')
+        .mockResolvedValue(false);
+      const runGitCommandWithin = jest.spyOn(repoModule, 'runGitCommandWithin');
+
+      const result = await createReleaseBranchForVersion({
+        project,
+        version: '1.2.3',
+      });
+
+      expect(result).toStrictEqual({
+        version: '1.2.3',
+        branchName: 'release/1.2.3',
+        firstRun: true,
+      });
+      expect(runGitCommandWithin).toHaveBeenCalledWith(
+        project.directoryPath,
+        'checkout',
+        ['-b', 'release/1.2.3'],
+      );
+    });
+
+    it('should checkout the release branch named after the given version if it already exists', async () => {
+      const project = buildMockProject();
+      when(jest.spyOn(repoModule, 'getCurrentBranchName'))
+        .calledWith(project.directoryPath)
+        .mockResolvedValue('main');
+      when(jest.spyOn(repoModule, 'branchExists'))
+        .calledWith(project.directoryPath, 'release/1.2.3')
+        .mockResolvedValue(true);
+      const runGitCommandWithin = jest.spyOn(repoModule, 'runGitCommandWithin');
+
+      const result = await createReleaseBranchForVersion({
+        project,
+        version: '1.2.3',
+      });
+
+      expect(result).toStrictEqual({
+        version: '1.2.3',
+        branchName: 'release/1.2.3',
+        firstRun: false,
+      });
+      expect(runGitCommandWithin).toHaveBeenCalledWith(
+        project.directoryPath,
+        'checkout',
+        ['release/1.2.3'],
+      );
+    });
+
+    it('should checkout the release branch with the given name, even if the template would name it differently today', async () => {
+      const project = buildMockProject({
+        configuration: {
+          ...buildMockProject().configuration,
+          releaseBranchNameTemplate: 'release/{date}-{version}',
+        },
+      });
+      when(jest.spyOn(repoModule, 'getCurrentBranchName'))
+        .calledWith(project.directoryPath)
+        .mockResolvedValue('main');
+      when(jest.spyOn(repoModule, 'branchExists'))
+        .calledWith(project.directoryPath, 'release/2024-03-04-1.2.3')
+        .mockResolvedValue(true);
+      const runGitCommandWithin = jest.spyOn(repoModule, 'runGitCommandWithin');
+
+      const result = await createReleaseBranchForVersion({
+        project,
+        version: '1.2.3',
+        branchName: 'release/2024-03-04-1.2.3',
+      });
+
+      expect(result).toStrictEqual({
+        version: '1.2.3',
+        branchName: 'release/2024-03-04-1.2.3',
         firstRun: false,
       });
+      expect(runGitCommandWithin).toHaveBeenCalledWith(
+        project.directoryPath,
+        'checkout',
+        ['release/2024-03-04-1.2.3'],
+      );
+    });
+
+    it('should checkout the existing release branch for the given version if it was created on an earlier day', async () => {
+      const project = buildMockProject({
+        configuration: {
+          ...buildMockProject().configuration,
+          releaseBranchNameTemplate: 'release/{date}-{version}',
+        },
+      });
+      when(jest.spyOn(repoModule, 'getCurrentBranchName'))
+        .calledWith(project.directoryPath)
+        .mockResolvedValue('main');
+      when(jest.spyOn(repoModule, 'getBranchNames'))
+        .calledWith(project.directoryPath)
+        .mockResolvedValue(['main', 'release/2024-03-04-1.2.3']);
+      when(jest.spyOn(repoModule, 'branchExists'))
+        .calledWith(project.directoryPath, 'release/2024-03-04-1.2.3')
+        .mockResolvedValue(true);
+      const runGitCommandWithin = jest.spyOn(repoModule, 'runGitCommandWithin');
+
+      const result = await createReleaseBranchForVersion({
+        project,
+        version: '1.2.3',
+      });
+
+      expect(result).toStrictEqual({
+        version: '1.2.3',
+        branchName: 'release/2024-03-04-1.2.3',
+        firstRun: false,
+      });
+      expect(runGitCommandWithin).toHaveBeenCalledWith(
+        project.directoryPath,
+        'checkout',
+        ['release/2024-03-04-1.2.3'],
+      );
+    });
+
+    it('should create the release branch from the given ref if it exists and contains the tag for the latest release', async () => {
+      const project = buildMockProject({
+        rootPackage: buildMockPackage('root', {
+          latestReleaseTagName: 'v1.2.2',
+        }),
+      });
+      when(jest.spyOn(repoModule, 'getCurrentBranchName'))
+        .calledWith(project.directoryPath)
+        .mockResolvedValue('feature');
+      when(jest.spyOn(repoModule, 'branchExists'))
+        .calledWith(project.directoryPath, 'release/1.2.3')
+        .mockResolvedValue(false);
+      when(jest.spyOn(repoModule, 'revisionExists'))
+        .calledWith(project.directoryPath, 'origin/main')
+        .mockResolvedValue(true);
+      when(jest.spyOn(repoModule, 'revisionContainsTag'))
+        .calledWith(project.directoryPath, 'v1.2.2', 'origin/main')
+        .mockResolvedValue(true);
+      const runGitCommandWithin = jest.spyOn(repoModule, 'runGitCommandWithin');
+
+      const result = await createReleaseBranchForVersion({
+        project,
+        version: '1.2.3',
+        baseRef: 'origin/main',
+      });
+
+      expect(result).toStrictEqual({
+        version: '1.2.3',
+        branchName: 'release/1.2.3',
+        firstRun: true,
+      });
+      expect(runGitCommandWithin).toHaveBeenCalledWith(
+        project.directoryPath,
+        'checkout',
+        ['-b', 'release/1.2.3', 'origin/main'],
+      );
+    });
+
+    it('should not check the given ref for the tag for the latest release if there has not been a release yet', async () => {
+      const project = buildMockProject({
+        rootPackage: buildMockPackage('root', {
+          latestReleaseTagName: null,
+        }),
+      });
+      when(jest.spyOn(repoModule, 'getCurrentBranchName'))
+        .calledWith(project.directoryPath)
+        .mockResolvedValue('feature');
+      when(jest.spyOn(repoModule, 'branchExists'))
+        .calledWith(project.directoryPath, 'release/1.2.3')
+        .mockResolvedValue(false);
+      when(jest.spyOn(repoModule, 'revisionExists'))
+        .calledWith(project.directoryPath, 'origin/main')
+        .mockResolvedValue(true);
+      const revisionContainsTagSpy = jest.spyOn(
+        repoModule,
+        'revisionContainsTag',
+      );
+      const runGitCommandWithin = jest.spyOn(repoModule, 'runGitCommandWithin');
+
+      await createReleaseBranchForVersion({
+        project,
+        version: '1.2.3',
+        baseRef: 'origin/main',
+      });
+
+      expect(revisionContainsTagSpy).not.toHaveBeenCalled();
+      expect(runGitCommandWithin).toHaveBeenCalledWith(
+        project.directoryPath,
+        'checkout',
+        ['-b', 'release/1.2.3', 'origin/main'],
+      );
+    });
+
+    it('should ignore the given ref if the release branch already exists', async () => {
+      const project = buildMockProject();
+      when(jest.spyOn(repoModule, 'getCurrentBranchName'))
+        .calledWith(project.directoryPath)
+        .mockResolvedValue('feature');
+      when(jest.spyOn(repoModule, 'branchExists'))
+        .calledWith(project.directoryPath, 'release/1.2.3')
+        .mockResolvedValue(true);
+      const revisionExistsSpy = jest.spyOn(repoModule, 'revisionExists');
+      const runGitCommandWithin = jest.spyOn(repoModule, 'runGitCommandWithin');
+
+      await createReleaseBranchForVersion({
+        project,
+        version: '1.2.3',
+        baseRef: 'origin/main',
+      });
+
+      expect(revisionExistsSpy).not.toHaveBeenCalled();
+      expect(runGitCommandWithin).toHaveBeenCalledWith(
+        project.directoryPath,
+        'checkout',
+        ['release/1.2.3'],
+      );
+    });
+
+    it('should throw if the given ref does not exist', async () => {
+      const project = buildMockProject();
+      when(jest.spyOn(repoModule, 'getCurrentBranchName'))
+        .calledWith(project.directoryPath)
+        .mockResolvedValue('feature');
+      when(jest.spyOn(repoModule, 'branchExists'))
+        .calledWith(project.directoryPath, 'release/1.2.3')
+        .mockResolvedValue(false);
+      when(jest.spyOn(repoModule, 'revisionExists'))
+        .calledWith(project.directoryPath, 'origin/main')
+        .mockResolvedValue(false);
+      const runGitCommandWithin = jest.spyOn(repoModule, 'runGitCommandWithin');
+
+      await expect(
+        createReleaseBranchForVersion({
+          project,
+          version: '1.2.3',
+          baseRef: 'origin/main',
+        }),
+      ).rejects.toThrow(
+        'Could not create the release branch from "origin/main", as it does not exist. If it is a remote branch, make sure that you have fetched it.',
+      );
+      expect(runGitCommandWithin).not.toHaveBeenCalled();
+    });
+
+    it('should throw if the given ref does not contain the tag for the latest release', async () => {
+      const project = buildMockProject({
+        rootPackage: buildMockPackage('root', {
+          latestReleaseTagName: 'v1.2.2',
+        }),
+      });
+      when(jest.spyOn(repoModule, 'getCurrentBranchName'))
+        .calledWith(project.directoryPath)
+        .mockResolvedValue('feature');
+      when(jest.spyOn(repoModule, 'branchExists'))
+        .calledWith(project.directoryPath, 'release/1.2.3')
+        .mockResolvedValue(false);
+      when(jest.spyOn(repoModule, 'revisionExists'))
+        .calledWith(project.directoryPath, 'origin/main')
+        .mockResolvedValue(true);
+      when(jest.spyOn(repoModule, 'revisionContainsTag'))
+        .calledWith(project.directoryPath, 'v1.2.2', 'origin/main')
+        .mockResolvedValue(false);
+      const runGitCommandWithin = jest.spyOn(repoModule, 'runGitCommandWithin');
+
+      await expect(
+        createReleaseBranchForVersion({
+          project,
+          version: '1.2.3',
+          baseRef: 'origin/main',
+        }),
+      ).rejects.toThrow(
+        'Could not create the release branch from "origin/main", as it does not contain the tag for the latest release, "v1.2.2". Make sure that "origin/main" is up to date.',
+      );
+      expect(runGitCommandWithin).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findReleaseBranchName', () => {
+    const configuration = {
+      ...buildMockProject().configuration,
+      releaseBranchNameTemplate: 'release/{date}-{version}',
+    };
+
+    it('returns the current branch if the template produces its name for the given version on any date', async () => {
+      const project = buildMockProject({ configuration });
+      when(jest.spyOn(repoModule, 'getCurrentBranchName'))
+        .calledWith(project.directoryPath)
+        .mockResolvedValue('release/2024-03-04-1.2.3');
+
+      expect(await findReleaseBranchName(project, '1.2.3')).toBe(
+        'release/2024-03-04-1.2.3',
+      );
+    });
+
+    it('returns the most recently created of the existing branches whose names the template produces for the given version', async () => {
+      const project = buildMockProject({ configuration });
+      when(jest.spyOn(repoModule, 'getCurrentBranchName'))
+        .calledWith(project.directoryPath)
+        .mockResolvedValue('main');
+      when(jest.spyOn(repoModule, 'getBranchNames'))
+        .calledWith(project.directoryPath)
+        .mockResolvedValue([
+          'main',
+          'release/2024-03-05-1.2.3',
+          'release/2024-03-04-1.2.3',
+          'release/2024-03-06-1.2.30',
+          'release/2024-03-06-1.2.4',
+        ]);
+
+      expect(await findReleaseBranchName(project, '1.2.3')).toBe(
+        'release/2024-03-05-1.2.3',
+      );
+    });
+
+    it('returns null if there is no such branch', async () => {
+      const project = buildMockProject({ configuration });
+      when(jest.spyOn(repoModule, 'getCurrentBranchName'))
+        .calledWith(project.directoryPath)
+        .mockResolvedValue('main');
+
+      expect(await findReleaseBranchName(project, '1.2.3')).toBeNull();
+    });
+  });
+
+  describe('getNewReleaseVersion', () => {
+    it('bumps the ordinary number of the release version for an ordinary release', () => {
+      const project = buildMockProject({
+        releaseVersion: { ordinaryNumber: 4, backportNumber: 2 },
+      });
+
+      expect(getNewReleaseVersion({ project, releaseType: 'ordinary' })).toBe(
+        '5.0.0',
+      );
+    });
+
+    it('bumps the backport number of the release version for a backport release', () => {
+      const project = buildMockProject({
+        releaseVersion: { ordinaryNumber: 4, backportNumber: 2 },
+      });
+
+      expect(getNewReleaseVersion({ project, releaseType: 'backport' })).toBe(
+        '4.3.0',
+      );
+    });
+  });
+
+  describe('getReleaseBranchName', () => {
+    it('names the release branch after the given version', () => {
+      const project = buildMockProject();
+
+      expect(getReleaseBranchName(project, '1.2.3')).toBe('release/1.2.3');
+    });
+
+    it('names the release branch according to the template configured for the project', () => {
+      const project = buildMockProject({
+        configuration: {
+          ...buildMockProject().configuration,
+          releaseBranchNameTemplate: 'rc/{date}-{version}',
+        },
+      });
+
+      expect(
+        getReleaseBranchName(
+          project,
+          '1.2.3',
+          new Date('2024-03-04T23:59:59.000Z'),
+        ),
+      ).toBe('rc/2024-03-04-1.2.3');
     });
   });
 });
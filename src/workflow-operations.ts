@@ -1,12 +1,135 @@
 import { debug } from './misc-utils.js';
 import { ReleaseType } from './initial-parameters.js';
 import { Project } from './project.js';
+import {
+  fillReleaseBranchNameTemplate,
+  matchesReleaseBranchNameTemplate,
+} from './release-branch-name-template.js';
 import {
   branchExists,
+  getBranchNames,
   getCurrentBranchName,
+  revisionContainsTag,
+  revisionExists,
   runGitCommandWithin,
 } from './repo.js';
 
+/**
+ * Determines the version of the next release of a monorepo with independent
+ * versions based on the specified release type.
+ *
+ * @param args - The arguments.
+ * @param args.project - Information about the whole project (e.g., names of
+ * packages and where they can found).
+ * @param args.releaseType - The type of release ("ordinary" or "backport"),
+ * which affects how the version is bumped.
+ * @returns The new release version.
+ */
+export function getNewReleaseVersion({
+  project,
+  releaseType,
+}: {
+  project: Project;
+  releaseType: ReleaseType;
+}): string {
+  return releaseType === 'backport'
+    ? `${project.releaseVersion.ordinaryNumber}.${
+        project.releaseVersion.backportNumber + 1
+      }.0`
+    : `${project.releaseVersion.ordinaryNumber + 1}.0.0`;
+}
+
+/**
+ * Builds the name of the branch on which the given release is prepared, using
+ * the template configured for the project.
+ *
+ * @param project - Information about the whole project.
+ * @param project.configuration - The options for this tool.
+ * @param version - The version of the release.
+ * @param date - The date on which the release is prepared (used if the
+ * template refers to it).
+ * @returns The name of the release branch.
+ */
+export function getReleaseBranchName(
+  { configuration }: Pick<Project, 'configuration'>,
+  version: string,
+  date: Date = new Date(),
+): string {
+  return fillReleaseBranchNameTemplate(
+    configuration.releaseBranchNameTemplate,
+    version,
+    date,
+  );
+}
+
+/**
+ * Finds the branch on which the given release was being prepared by a previous
+ * run: the branch that is checked out if the template configured for the
+ * project produces its name for the version, or otherwise the existing branch
+ * whose name it produces. As the template may refer to the date, this finds the
+ * branch even if it was created on an earlier day.
+ *
+ * @param project - Information about the whole project.
+ * @param version - The version of the release.
+ * @returns The name of the release branch, or null if there is none.
+ */
+export async function findReleaseBranchName(
+  project: Pick<Project, 'directoryPath' | 'configuration'>,
+  version: string,
+): Promise<string | null> {
+  const isReleaseBranchName = (branchName: string) =>
+    matchesReleaseBranchNameTemplate(
+      project.configuration.releaseBranchNameTemplate,
+      version,
+      branchName,
+    );
+  const currentBranchName = await getCurrentBranchName(project.directoryPath);
+
+  if (isReleaseBranchName(currentBranchName)) {
+    return currentBranchName;
+  }
+
+  const releaseBranchNames = (await getBranchNames(project.directoryPath))
+    .filter(isReleaseBranchName)
+    .sort();
+  // If there is more than one, the one created most recently sorts last.
+  return releaseBranchNames[releaseBranchNames.length - 1] ?? null;
+}
+
+/**
+ * Ensures that a release branch can be created from the given ref: the ref
+ * must exist, and it must contain the tag for the latest release of the
+ * project, so that the release does not leave out any changes which have
+ * already been released.
+ *
+ * @param project - Information about the whole project.
+ * @param baseRef - The ref from which the release branch is to be created.
+ * @throws If the ref does not exist or does not contain the tag for the latest
+ * release.
+ */
+async function validateBaseRef(project: Project, baseRef: string) {
+  if (!(await revisionExists(project.directoryPath, baseRef))) {
+    throw new Error(
+      `Could not create the release branch from "${baseRef}", as it does not exist. If it is a remote branch, make sure that you have fetched it.`,
+    );
+  }
+
+  const { latestReleaseTagName } = project.rootPackage;
+
+  if (
+    latestReleaseTagName !== null &&
+    !(await revisionContainsTag(
+      project.directoryPath,
+      latestReleaseTagName,
+      baseRef,
+    ))
+  ) {
+    throw new Error(
+      `Could not create the release branch from "${baseRef}", as it does not contain the tag for the latest release, "${latestReleaseTagName}". Make sure that "${baseRef}" is up to date.`,
+    );
+  }
+}
+
 /**
  * Creates a new release branch in the given project repository based on the specified release type.
  *
@@ -15,34 +138,78 @@ import {
  * packages and where they can found).
  * @param args.releaseType - The type of release ("ordinary" or "backport"),
  * which affects how the version is bumped.
+ * @param args.baseRef - The ref from which to create the release branch, or
+ * null to create it from the current commit.
  * @returns A promise that resolves to an object with the new
- * release version and a boolean indicating whether it's the first run.
+ * release version, the name of the release branch, and a boolean indicating
+ * whether it's the first run.
  */
 export async function createReleaseBranch({
   project,
   releaseType,
+  baseRef = null,
 }: {
   project: Project;
   releaseType: ReleaseType;
+  baseRef?: string | null;
 }): Promise<{
   version: string;
+  branchName: string;
   firstRun: boolean;
 }> {
-  const newReleaseVersion =
-    releaseType === 'backport'
-      ? `${project.releaseVersion.ordinaryNumber}.${
-          project.releaseVersion.backportNumber + 1
-        }.0`
-      : `${project.releaseVersion.ordinaryNumber + 1}.0.0`;
+  return await createReleaseBranchForVersion({
+    project,
+    version: getNewReleaseVersion({ project, releaseType }),
+    baseRef,
+  });
+}
 
-  const releaseBranchName = `release/${newReleaseVersion}`;
+/**
+ * Creates a new release branch named after the given version in the given
+ * project repository, or checks out that branch if it already exists.
+ *
+ * @param args - The arguments.
+ * @param args.project - Information about the whole project (e.g., names of
+ * packages and where they can found).
+ * @param args.version - The version of the release.
+ * @param args.baseRef - The ref from which to create the release branch, or
+ * null to create it from the current commit. This is not used if the branch
+ * already exists.
+ * @param args.branchName - The name of the release branch, as recorded by a
+ * previous run, or null to look for an existing release branch for the version
+ * (see {@link findReleaseBranchName}), naming a new one after today's date if
+ * there is none.
+ * @returns A promise that resolves to an object with the release version, the
+ * name of the release branch, and a boolean indicating whether it's the first
+ * run.
+ */
+export async function createReleaseBranchForVersion({
+  project,
+  version,
+  baseRef = null,
+  branchName = null,
+}: {
+  project: Project;
+  version: string;
+  baseRef?: string | null;
+  branchName?: string | null;
+}): Promise<{
+  version: string;
+  branchName: string;
+  firstRun: boolean;
+}> {
+  const releaseBranchName =
+    branchName ??
+    (await findReleaseBranchName(project, version)) ??
+    getReleaseBranchName(project, version);
 
   const currentBranchName = await getCurrentBranchName(project.directoryPath);
 
   if (currentBranchName === releaseBranchName) {
     debug(`Already on ${releaseBranchName} branch.`);
     return {
-      version: newReleaseVersion,
+      version,
+      branchName: releaseBranchName,
       firstRun: false,
     };
   }
@@ -55,18 +222,25 @@ export async function createReleaseBranch({
       releaseBranchName,
     ]);
     return {
-      version: newReleaseVersion,
+      version,
+      branchName: releaseBranchName,
       firstRun: false,
     };
   }
 
+  if (baseRef !== null) {
+    await validateBaseRef(project, baseRef);
+  }
+
   await runGitCommandWithin(project.directoryPath, 'checkout', [
     '-b',
     releaseBranchName,
+    ...(baseRef === null ? [] : [baseRef]),
   ]);
 
   return {
-    version: newReleaseVersion,
+    version,
+    branchName: releaseBranchName,
     firstRun: true,
   };
 }
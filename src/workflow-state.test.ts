@@ -0,0 +1,220 @@
+import fs from 'fs';
+import path from 'path';
+import { withSandbox } from '../tests/helpers.js';
+import { IncrementableVersionParts } from './release-specification.js';
+import { SemVer } from './semver.js';
+import {
+  getWorkflowStatePath,
+  INITIAL_WORKFLOW_STATE,
+  readWorkflowState,
+  removeWorkflowState,
+  restartWorkflowFrom,
+  WorkflowState,
+  writeWorkflowState,
+} from './workflow-state.js';
+
+describe('workflow-state', () => {
+  describe('getWorkflowStatePath', () => {
+    it('returns the path to RELEASE_STATE.json within the given directory', () => {
+      expect(getWorkflowStatePath('/path/to/temp')).toBe(
+        '/path/to/temp/RELEASE_STATE.json',
+      );
+    });
+  });
+
+  describe('readWorkflowState', () => {
+    it('returns null if there is no record of a previous run', async () => {
+      await withSandbox(async (sandbox) => {
+        expect(await readWorkflowState(sandbox.directoryPath)).toBeNull();
+      });
+    });
+
+    it('returns the state written by writeWorkflowState, converting exact versions back to SemVer objects', async () => {
+      await withSandbox(async (sandbox) => {
+        const state: WorkflowState = {
+          completedSteps: ['create-release-branch', 'validate-release-spec'],
+          releaseVersion: '2.0.0',
+          releaseBranchName: 'release/2.0.0',
+          releaseSpecificationPackages: {
+            a: IncrementableVersionParts.major,
+            b: new SemVer('1.2.3'),
+          },
+          releaseNotes: {
+            releaseVersion: '2.0.0',
+            packages: [
+              {
+                name: 'a',
+                previousVersion: '1.0.0',
+                newVersion: '2.0.0',
+                compareUrl: null,
+                changes: { Fixed: ['Fix a bug'] },
+              },
+            ],
+          },
+          releaseFileSnapshots: [
+            { filePath: '/path/to/package.json', content: '{}' },
+            { filePath: '/path/to/CHANGELOG.md', content: null },
+          ],
+        };
+
+        await writeWorkflowState(sandbox.directoryPath, state);
+
+        expect(await readWorkflowState(sandbox.directoryPath)).toStrictEqual(
+          state,
+        );
+      });
+    });
+
+    it('returns a state with no release spec packages if none were recorded', async () => {
+      await withSandbox(async (sandbox) => {
+        await writeWorkflowState(sandbox.directoryPath, INITIAL_WORKFLOW_STATE);
+
+        expect(await readWorkflowState(sandbox.directoryPath)).toStrictEqual(
+          INITIAL_WORKFLOW_STATE,
+        );
+      });
+    });
+
+    it('returns a state with no release branch name, release notes, or release files if it was recorded before they were kept', async () => {
+      await withSandbox(async (sandbox) => {
+        await fs.promises.writeFile(
+          path.join(sandbox.directoryPath, 'RELEASE_STATE.json'),
+          '{"completedSteps":["create-release-branch"],"releaseVersion":"2.0.0","releaseSpecificationPackages":null}',
+        );
+
+        expect(await readWorkflowState(sandbox.directoryPath)).toStrictEqual({
+          completedSteps: ['create-release-branch'],
+          releaseVersion: '2.0.0',
+          releaseBranchName: null,
+          releaseSpecificationPackages: null,
+          releaseNotes: null,
+          releaseFileSnapshots: null,
+        });
+      });
+    });
+
+    it.each([
+      ['is not valid JSON', 'not json'],
+      ['is not an object', '[]'],
+      [
+        'lists an unknown step',
+        '{"completedSteps":["unknown"],"releaseVersion":null,"releaseSpecificationPackages":null}',
+      ],
+      [
+        'has an invalid release version',
+        '{"completedSteps":[],"releaseVersion":1,"releaseSpecificationPackages":null}',
+      ],
+      [
+        'has an invalid release branch name',
+        '{"completedSteps":[],"releaseVersion":null,"releaseBranchName":1,"releaseSpecificationPackages":null}',
+      ],
+      [
+        'has invalid release spec packages',
+        '{"completedSteps":[],"releaseVersion":null,"releaseSpecificationPackages":"a"}',
+      ],
+      [
+        'has invalid release notes',
+        '{"completedSteps":[],"releaseVersion":null,"releaseSpecificationPackages":null,"releaseNotes":"a"}',
+      ],
+      [
+        'has invalid release files',
+        '{"completedSteps":[],"releaseVersion":null,"releaseSpecificationPackages":null,"releaseNotes":null,"releaseFileSnapshots":[{"filePath":"a","content":1}]}',
+      ],
+    ])('throws if the state file %s', async (_description, content) => {
+      await withSandbox(async (sandbox) => {
+        const statePath = path.join(
+          sandbox.directoryPath,
+          'RELEASE_STATE.json',
+        );
+        await fs.promises.writeFile(statePath, content);
+
+        await expect(readWorkflowState(sandbox.directoryPath)).rejects.toThrow(
+          `The record of the previous run at '${statePath}' is invalid. Please re-run this tool with \`--reset\` to start over.`,
+        );
+      });
+    });
+  });
+
+  describe('removeWorkflowState', () => {
+    it('removes the record of a previous run', async () => {
+      await withSandbox(async (sandbox) => {
+        await writeWorkflowState(sandbox.directoryPath, INITIAL_WORKFLOW_STATE);
+
+        await removeWorkflowState(sandbox.directoryPath);
+
+        expect(await readWorkflowState(sandbox.directoryPath)).toBeNull();
+      });
+    });
+  });
+
+  describe('restartWorkflowFrom', () => {
+    const state: WorkflowState = {
+      completedSteps: [
+        'create-release-branch',
+        'initialize-changelogs',
+        'validate-release-spec',
+        'execute-release-plan',
+        'fix-constraints',
+        'update-lockfile',
+      ],
+      releaseVersion: '2.0.0',
+      releaseBranchName: 'release/2024-03-04-2.0.0',
+      releaseSpecificationPackages: { a: IncrementableVersionParts.major },
+      releaseNotes: { releaseVersion: '2.0.0', packages: [] },
+      releaseFileSnapshots: [
+        { filePath: '/path/to/package.json', content: '{"version":"1.0.0"}' },
+      ],
+    };
+
+    it('forgets the given step and the steps completed after it, keeping what the remaining steps determined', () => {
+      expect(restartWorkflowFrom(state, 'update-lockfile')).toStrictEqual({
+        ...state,
+        completedSteps: [
+          'create-release-branch',
+          'initialize-changelogs',
+          'validate-release-spec',
+          'execute-release-plan',
+          'fix-constraints',
+        ],
+      });
+    });
+
+    it('forgets the release notes if restarting from executing the release plan', () => {
+      expect(restartWorkflowFrom(state, 'execute-release-plan')).toStrictEqual({
+        ...state,
+        completedSteps: [
+          'create-release-branch',
+          'initialize-changelogs',
+          'validate-release-spec',
+        ],
+        releaseNotes: null,
+      });
+    });
+
+    it('forgets the release spec packages, but not the release version or the name of the release branch, if restarting from validating the release spec', () => {
+      expect(restartWorkflowFrom(state, 'validate-release-spec')).toStrictEqual(
+        {
+          completedSteps: ['create-release-branch', 'initialize-changelogs'],
+          releaseVersion: '2.0.0',
+          releaseBranchName: 'release/2024-03-04-2.0.0',
+          releaseSpecificationPackages: null,
+          releaseNotes: null,
+          releaseFileSnapshots: state.releaseFileSnapshots,
+        },
+      );
+    });
+
+    it('forgets everything but the content of the files changed by executing the release plan if restarting from creating the release branch', () => {
+      expect(restartWorkflowFrom(state, 'create-release-branch')).toStrictEqual(
+        {
+          ...INITIAL_WORKFLOW_STATE,
+          releaseFileSnapshots: state.releaseFileSnapshots,
+        },
+      );
+    });
+
+    it('leaves the state alone if the given step was not completed', () => {
+      expect(restartWorkflowFrom(state, 'commit')).toStrictEqual(state);
+    });
+  });
+});
@@ -0,0 +1,310 @@
+import path from 'path';
+import { fileExists, readFile, removeFile, writeFile } from './fs.js';
+import { isObject } from './misc-utils.js';
+import {
+  IncrementableVersionParts,
+  ReleaseSpecification,
+} from './release-specification.js';
+import { ReleaseNotes } from './release-notes.js';
+import { FileSnapshot } from './rollback.js';
+import { isValidSemver, SemVer } from './semver.js';
+
+/**
+ * The steps of the monorepo workflow whose completion is recorded, so that a
+ * run which stops partway through can be continued. For a monorepo with fixed
+ * versions, the release spec is validated before the release branch is
+ * created; otherwise, the steps are completed in this order. The release
+ * branch is only pushed, and the pull request for the release only opened, if
+ * requested. Once the last step is completed, the record is removed.
+ */
+export const WORKFLOW_STEPS = [
+  'create-release-branch',
+  'initialize-changelogs',
+  'validate-release-spec',
+  'execute-release-plan',
+  'fix-constraints',
+  'update-lockfile',
+  'commit',
+  'push-release-branch',
+  'open-pull-request',
+] as const;
+
+/**
+ * A step of the monorepo workflow (see `WORKFLOW_STEPS`).
+ */
+export type WorkflowStep = (typeof WORKFLOW_STEPS)[number];
+
+/**
+ * What a previous run of the monorepo workflow has accomplished.
+ *
+ * @property completedSteps - The steps that have been completed, in the order
+ * in which they were completed.
+ * @property releaseVersion - The version of the release, once known.
+ * @property releaseBranchName - The name of the release branch, once it has
+ * been created, so that a later run uses the same branch even if the template
+ * for its name refers to the date.
+ * @property releaseSpecificationPackages - The packages listed in the release
+ * spec, once it has been validated.
+ * @property releaseNotes - The notes for the release, once the release plan
+ * has been executed, from which the pull request for the release is built.
+ * @property releaseFileSnapshots - The content that the files changed by
+ * executing the release plan had beforehand, once it has been executed, so
+ * that they can be restored before it is executed again.
+ */
+export type WorkflowState = {
+  completedSteps: WorkflowStep[];
+  releaseVersion: string | null;
+  releaseBranchName: string | null;
+  releaseSpecificationPackages: ReleaseSpecification['packages'] | null;
+  releaseNotes: ReleaseNotes | null;
+  releaseFileSnapshots: FileSnapshot[] | null;
+};
+
+/**
+ * The state of a workflow that has not completed any steps yet.
+ */
+export const INITIAL_WORKFLOW_STATE: WorkflowState = {
+  completedSteps: [],
+  releaseVersion: null,
+  releaseBranchName: null,
+  releaseSpecificationPackages: null,
+  releaseNotes: null,
+  releaseFileSnapshots: null,
+};
+
+/**
+ * Determines where the state of the workflow is kept.
+ *
+ * @param tempDirectoryPath - The directory in which the tool keeps temporary
+ * files, such as the release spec.
+ * @returns The path to the state file.
+ */
+export function getWorkflowStatePath(tempDirectoryPath: string): string {
+  return path.join(tempDirectoryPath, 'RELEASE_STATE.json');
+}
+
+/**
+ * Checks whether the given value is the name of a workflow step.
+ *
+ * @param value - The value to check.
+ * @returns Whether the value is a workflow step.
+ */
+function isWorkflowStep(value: unknown): value is WorkflowStep {
+  // Typecast: `includes` accepts any string for the purpose of this check.
+  return WORKFLOW_STEPS.includes(value as WorkflowStep);
+}
+
+/**
+ * Checks whether the given value records the content of a file.
+ *
+ * @param value - The value to check.
+ * @returns Whether the value is a file snapshot.
+ */
+function isFileSnapshot(value: unknown): value is FileSnapshot {
+  return (
+    isObject(value) &&
+    typeof value.filePath === 'string' &&
+    (value.content === null || typeof value.content === 'string')
+  );
+}
+
+/**
+ * Converts the packages listed in a release spec to a form that can be stored
+ * as JSON.
+ *
+ * @param packages - The packages listed in the release spec.
+ * @returns The packages, with exact versions converted to strings.
+ */
+function serializeReleaseSpecificationPackages(
+  packages: ReleaseSpecification['packages'],
+): Record<string, string> {
+  return Object.entries(packages).reduce<Record<string, string>>(
+    (obj, [packageName, versionSpecifier]) => ({
+      ...obj,
+      [packageName]: versionSpecifier.toString(),
+    }),
+    {},
+  );
+}
+
+/**
+ * Converts the packages listed in a release spec back from the form in which
+ * they are stored as JSON.
+ *
+ * @param packages - The stored packages.
+ * @returns The packages, with exact versions converted to SemVer objects.
+ */
+function deserializeReleaseSpecificationPackages(
+  packages: Record<string, string>,
+): ReleaseSpecification['packages'] {
+  return Object.entries(packages).reduce<ReleaseSpecification['packages']>(
+    (obj, [packageName, versionSpecifier]) => ({
+      ...obj,
+      [packageName]: isValidSemver(versionSpecifier)
+        ? new SemVer(versionSpecifier)
+        : // Typecast: Only version strings and version parts are stored.
+          (versionSpecifier as IncrementableVersionParts),
+    }),
+    {},
+  );
+}
+
+/**
+ * Reads the state left by a previous run of the workflow.
+ *
+ * @param tempDirectoryPath - The directory in which the tool keeps temporary
+ * files.
+ * @returns The state, or null if there is no record of a previous run.
+ * @throws If the state file is not in the expected format.
+ */
+export async function readWorkflowState(
+  tempDirectoryPath: string,
+): Promise<WorkflowState | null> {
+  const statePath = getWorkflowStatePath(tempDirectoryPath);
+
+  if (!(await fileExists(statePath))) {
+    return null;
+  }
+
+  let state: unknown;
+
+  try {
+    state = JSON.parse(await readFile(statePath));
+  } catch {
+    state = null;
+  }
+
+  if (
+    !isObject(state) ||
+    !Array.isArray(state.completedSteps) ||
+    !state.completedSteps.every(isWorkflowStep) ||
+    !(
+      state.releaseVersion === null || typeof state.releaseVersion === 'string'
+    ) ||
+    // Records made before the release branch was kept do not have it.
+    !(
+      state.releaseBranchName === undefined ||
+      state.releaseBranchName === null ||
+      typeof state.releaseBranchName === 'string'
+    ) ||
+    !(
+      state.releaseSpecificationPackages === null ||
+      isObject(state.releaseSpecificationPackages)
+    ) ||
+    // Nor do records made before release notes were kept.
+    !(
+      state.releaseNotes === undefined ||
+      state.releaseNotes === null ||
+      isObject(state.releaseNotes)
+    ) ||
+    // Neither do records made before the release files were kept.
+    !(
+      state.releaseFileSnapshots === undefined ||
+      state.releaseFileSnapshots === null ||
+      (Array.isArray(state.releaseFileSnapshots) &&
+        state.releaseFileSnapshots.every(isFileSnapshot))
+    )
+  ) {
+    throw new Error(
+      `The record of the previous run at '${statePath}' is invalid. Please re-run this tool with \`--reset\` to start over.`,
+    );
+  }
+
+  return {
+    completedSteps: state.completedSteps,
+    releaseVersion: state.releaseVersion,
+    releaseBranchName: state.releaseBranchName ?? null,
+    releaseSpecificationPackages:
+      state.releaseSpecificationPackages === null
+        ? null
+        : deserializeReleaseSpecificationPackages(
+            // Typecast: Only strings are stored for each package.
+            state.releaseSpecificationPackages as Record<string, string>,
+          ),
+    // Typecast: The release notes are stored as they were built.
+    releaseNotes: (state.releaseNotes as ReleaseNotes | undefined) ?? null,
+    releaseFileSnapshots: state.releaseFileSnapshots ?? null,
+  };
+}
+
+/**
+ * Records the state of the workflow so that a later run can continue from it.
+ *
+ * @param tempDirectoryPath - The directory in which the tool keeps temporary
+ * files.
+ * @param state - The state of the workflow.
+ */
+export async function writeWorkflowState(
+  tempDirectoryPath: string,
+  state: WorkflowState,
+): Promise<void> {
+  await writeFile(
+    getWorkflowStatePath(tempDirectoryPath),
+    JSON.stringify({
+      ...state,
+      releaseSpecificationPackages:
+        state.releaseSpecificationPackages === null
+          ? null
+          : serializeReleaseSpecificationPackages(
+              state.releaseSpecificationPackages,
+            ),
+    }),
+  );
+}
+
+/**
+ * Removes the record of a previous run of the workflow, if there is one.
+ *
+ * @param tempDirectoryPath - The directory in which the tool keeps temporary
+ * files.
+ */
+export async function removeWorkflowState(
+  tempDirectoryPath: string,
+): Promise<void> {
+  await removeFile(getWorkflowStatePath(tempDirectoryPath));
+}
+
+/**
+ * Forgets that the given step, and any step completed after it, were
+ * completed, so that they will be carried out again. Also forgets what those
+ * steps determined: the release version if neither the release branch nor the
+ * release spec it is based on remain, the name of the release branch if it is
+ * to be created again, the packages in the release spec if it
+ * is to be validated again, and the release notes if the release plan is to be
+ * executed again. The content that the files changed by executing the release
+ * plan had beforehand is kept, as those files stay as they are until the
+ * release plan is executed again.
+ *
+ * @param state - The state of the workflow.
+ * @param step - The step to restart from.
+ * @returns The updated state.
+ */
+export function restartWorkflowFrom(
+  state: WorkflowState,
+  step: WorkflowStep,
+): WorkflowState {
+  const index = state.completedSteps.indexOf(step);
+  const completedSteps =
+    index === -1 ? state.completedSteps : state.completedSteps.slice(0, index);
+
+  return {
+    completedSteps,
+    releaseVersion:
+      completedSteps.includes('create-release-branch') ||
+      completedSteps.includes('validate-release-spec')
+        ? state.releaseVersion
+        : null,
+    releaseBranchName: completedSteps.includes('create-release-branch')
+      ? state.releaseBranchName
+      : null,
+    releaseSpecificationPackages: completedSteps.includes(
+      'validate-release-spec',
+    )
+      ? state.releaseSpecificationPackages
+      : null,
+    releaseNotes: completedSteps.includes('execute-release-plan')
+      ? state.releaseNotes
+      : null,
+    releaseFileSnapshots: state.releaseFileSnapshots,
+  };
+}
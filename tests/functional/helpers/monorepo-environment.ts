@@ -70,7 +70,8 @@ export default class MonorepoEnvironment<
   /**
    * Runs the tool within the context of the project, editing the generated
    * release spec template automatically with the given information before
-   * continuing.
+   * continuing. When preparing a backport, every commit in the generated list
+   * of commits to backport is selected.
    *
    * @param args - The arguments to this function.
    * @param args.args - Additional arguments to pass to the command.
@@ -120,7 +121,14 @@ if [ -z "$1" ]; then
   exit 1
 fi
 
-cat "${releaseSpecificationPath}" > "$1"
+case "$1" in
+  *BACKPORT_COMMITS.txt)
+    sed 's/^# pick /pick /' "$1" > "$1.tmp" && mv "$1.tmp" "$1"
+    ;;
+  *)
+    cat "${releaseSpecificationPath}" > "$1"
+    ;;
+esac
       `.trim(),
     );
     await fs.promises.chmod(releaseSpecificationEditorPath, 0o777);
@@ -12,6 +12,9 @@ import type {
   ValidatedPackageManifest,
 } from '../../src/package-manifest.js';
 import type { Project } from '../../src/project.js';
+import { yarnPackageManager } from '../../src/package-manager.js';
+import { DEFAULT_RELEASE_BRANCH_NAME_TEMPLATE } from '../../src/release-branch-name-template.js';
+import { DEFAULT_TAG_NAME_TEMPLATES } from '../../src/tag-name-template.js';
 
 /**
  * Returns a version of the given record type where optionality is removed from
@@ -34,6 +37,8 @@ type MockPackageOverrides = Omit<
     | 'manifestPath'
     | 'changelogPath'
     | 'hasChangesSinceLatestRelease'
+    | 'changedFilePaths'
+    | 'latestReleaseTagName'
   >,
   'unvalidatedManifest' | 'validatedManifest'
 > & {
@@ -62,6 +67,13 @@ export function buildMockProject(overrides: Partial<Project> = {}): Project {
       ordinaryNumber: 1,
       backportNumber: 0,
     },
+    configuration: {
+      versioningStrategy: 'independent',
+      pathFilters: {},
+      tagNameTemplates: DEFAULT_TAG_NAME_TEMPLATES,
+      releaseBranchNameTemplate: DEFAULT_RELEASE_BRANCH_NAME_TEMPLATE,
+    },
+    packageManager: yarnPackageManager,
     ...overrides,
   };
 }
@@ -114,6 +126,8 @@ export function buildMockPackage(
     manifestPath = path.join(directoryPath, 'package.json'),
     changelogPath = path.join(directoryPath, 'CHANGELOG.md'),
     hasChangesSinceLatestRelease = false,
+    changedFilePaths = [],
+    latestReleaseTagName = null,
   } = overrides;
 
   return {
@@ -128,6 +142,8 @@ export function buildMockPackage(
     manifestPath,
     changelogPath,
     hasChangesSinceLatestRelease,
+    changedFilePaths,
+    latestReleaseTagName,
   };
 }
 